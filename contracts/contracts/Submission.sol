@@ -13,6 +13,7 @@ interface RecyclablesReward {
 
 interface IImpactProductNFT {
     function verifyPOI(address user) external;
+    function creditCleanup(address user, uint256 submissionId) external;
     function safeMint() external;
     function upgradeNFT(uint256 tokenId) external;
     function getUserNFTData(address user) external view returns (uint256 tokenId, uint256 impact, uint256 level);
@@ -27,6 +28,8 @@ interface IImpactProductNFT {
  * Notes on modifications:
  * - Introduced VERIFIER_ROLE and locked approve/reject to VERIFIER_ROLE (separate from ADMIN_ROLE).
  * - Fee transfer behavior is disabled by default (feeEnabled = false). Fee storage fields kept for ABI/compatibility.
+ * - Fees paid on rejected submissions can be refunded by admins/verifiers, or automatically on rejection.
+ * - Submitters can withdraw their own pending submissions, which refunds the fee.
  * - Hypercert eligibility now uses NFT level from ImpactProductNFT.getUserNFTData(...) as source of truth.
  * - Reward flow delegates to DCURewardManager (distributeRewards, rewardVerifier, rewardImpactReports).
  * - Minimal behavioral changes to storage layout to preserve compatibility with existing deployments/tests.
@@ -43,13 +46,31 @@ contract Submission is Ownable, ReentrancyGuard, AccessControl {
     error SUBMISSION__InsufficientSubmissionFee(uint256 sent, uint256 required);
     error SUBMISSION__RefundFailed();
     error SUBMISSION__CannotRefundApprovedSubmission(uint256 submissionId);
+    error SUBMISSION__InvalidBatchSize(uint256 size);
+    error SUBMISSION__InvalidRejectionReason();
+    error SUBMISSION__SubmissionNotProcessed(uint256 submissionId);
+    error SUBMISSION__NothingToRefund(uint256 submissionId);
+    error SUBMISSION__AlreadyWithdrawn(uint256 submissionId);
 
     // Role definitions for access control
     bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
     bytes32 public constant VERIFIER_ROLE = keccak256("VERIFIER_ROLE");
 
     // Submission status enum
-    enum SubmissionStatus { Pending, Approved, Rejected }
+    enum SubmissionStatus { Pending, Approved, Rejected, Withdrawn }
+
+    // Why a verifier rejected a submission; None only for approved, pending and legacy rejected submissions
+    enum RejectionReason { None, BlurryPhotos, LocationMismatch, Duplicate, NotACleanup, Other }
+
+    // Why a batch approval/rejection left a submission untouched
+    enum SkipReason { NotFound, AlreadyApproved, AlreadyRejected, AlreadyWithdrawn }
+
+    // Upper bound on IDs per approveSubmissions/rejectSubmissions call, keeps batches within the block gas limit
+    uint256 public constant MAX_BATCH_SIZE = 50;
+
+    // Gas forwarded with automatic and batch refunds, so a submitter that can't receive CELO can't block
+    // rejections or the other refunds of a batch
+    uint256 public constant AUTO_REFUND_GAS_LIMIT = 50_000;
 
     // Submission structure
     struct CleanupSubmission {
@@ -72,6 +93,8 @@ contract Submission is Ownable, ReentrancyGuard, AccessControl {
         bool hasRecyclables;
         string recyclablesPhotoHash;
         string recyclablesReceiptHash;
+        RejectionReason rejectionReason;
+        string rejectionNoteCID; // Optional IPFS CID of the verifier's note to the submitter
     }
 
     // Contract references
@@ -94,6 +117,7 @@ contract Submission is Ownable, ReentrancyGuard, AccessControl {
 
     uint256 public totalFeesCollected;
     uint256 public totalFeesRefunded;
+    bool public autoRefundOnReject = false; // refund the fee in the same transaction as the rejection
 
     // Referrals & impact tracking
     mapping(address => address) public referrers; // invitee => referrer
@@ -123,6 +147,24 @@ contract Submission is Ownable, ReentrancyGuard, AccessControl {
         uint256 timestamp
     );
 
+    event SubmissionRejectionReason(
+        uint256 indexed submissionId,
+        RejectionReason reason,
+        string noteCID
+    );
+
+    event SubmissionWithdrawn(
+        uint256 indexed submissionId,
+        address indexed submitter,
+        uint256 timestamp
+    );
+
+    event SubmissionSkipped(
+        uint256 indexed submissionId,
+        address indexed verifier,
+        SkipReason reason
+    );
+
     event DefaultRewardUpdated(uint256 oldAmount, uint256 newAmount);
 
     event RewardAvailable(
@@ -133,6 +175,10 @@ contract Submission is Ownable, ReentrancyGuard, AccessControl {
     );
 
     event SubmissionFeeUpdated(uint256 newFee, bool enabled);
+    event SubmissionFeeRefunded(uint256 indexed submissionId, address indexed submitter, uint256 amount);
+    event SubmissionFeeRefundFailed(uint256 indexed submissionId, address indexed submitter, uint256 amount);
+    event AutoRefundOnRejectUpdated(bool enabled);
+    event ImpactProductCreditFailed(uint256 indexed submissionId, address indexed submitter);
     event TreasuryUpdated(address indexed oldTreasury, address indexed newTreasury);
     event HypercertEligible(address indexed user, uint256 cleanupCount, uint256 hypercertNumber);
     event ReferralRegistered(address indexed referrer, address indexed invitee);
@@ -239,7 +285,9 @@ contract Submission is Ownable, ReentrancyGuard, AccessControl {
             hasImpactForm: hasImpactForm,
             hasRecyclables: false,
             recyclablesPhotoHash: "",
-            recyclablesReceiptHash: ""
+            recyclablesReceiptHash: "",
+            rejectionReason: RejectionReason.None,
+            rejectionNoteCID: ""
         });
 
         userSubmissions[msg.sender].push(submissionId);
@@ -280,17 +328,139 @@ contract Submission is Ownable, ReentrancyGuard, AccessControl {
         emit RecyclablesSubmitted(msg.sender, submissionId, recyclablesPhotoHash, recyclablesReceiptHash);
     }
 
+    /**
+     * @dev Withdraw a pending submission (only its submitter), e.g. to resubmit it with other photos
+     * The submission leaves the review queue for good and its fee, if any, is refunded.
+     */
+    function withdrawSubmission(uint256 submissionId) external nonReentrant {
+        _requirePending(submissionId);
+
+        CleanupSubmission storage s = submissions[submissionId];
+        if (s.submitter != msg.sender) revert SUBMISSION__Unauthorized(msg.sender);
+
+        s.status = SubmissionStatus.Withdrawn;
+        s.processedTimestamp = block.timestamp;
+
+        emit SubmissionWithdrawn(submissionId, msg.sender, block.timestamp);
+
+        if (s.feePaid > 0 && !s.feeRefunded) {
+            _refundFee(submissionId);
+        }
+    }
+
     /**
      * @dev Approve a submission (only for verifiers)
      * Delegates reward logic to DCURewardManager
      */
     function approveSubmission(uint256 submissionId) external nonReentrant onlyRole(VERIFIER_ROLE) {
+        _requirePending(submissionId);
+        _approveSubmission(submissionId);
+    }
+
+    /**
+     * @dev Approve several submissions in one transaction (only for verifiers)
+     * Each approval has the same reward side effects as approveSubmission. IDs that
+     * don't exist or were already processed are skipped with a SubmissionSkipped event.
+     * @param submissionIds IDs to approve, at most MAX_BATCH_SIZE
+     * @return approved Number of submissions approved
+     */
+    function approveSubmissions(uint256[] calldata submissionIds)
+        external
+        nonReentrant
+        onlyRole(VERIFIER_ROLE)
+        returns (uint256 approved)
+    {
+        _requireBatchSize(submissionIds.length);
+        for (uint256 i = 0; i < submissionIds.length; i++) {
+            if (_skipIfProcessed(submissionIds[i])) continue;
+            _approveSubmission(submissionIds[i]);
+            approved++;
+        }
+    }
+
+    /**
+     * @dev Reject a submission (only for verifiers)
+     * @param reason Why it was rejected, shown to the submitter (not None)
+     * @param noteCID Optional IPFS CID of a note explaining the rejection ("" for none)
+     */
+    function rejectSubmission(uint256 submissionId, RejectionReason reason, string calldata noteCID)
+        external
+        nonReentrant
+        onlyRole(VERIFIER_ROLE)
+    {
+        if (reason == RejectionReason.None) revert SUBMISSION__InvalidRejectionReason();
+        _requirePending(submissionId);
+        _rejectSubmission(submissionId, reason, noteCID);
+    }
+
+    /**
+     * @dev Reject several submissions in one transaction (only for verifiers)
+     * IDs that don't exist or were already processed are skipped with a SubmissionSkipped event.
+     * @param submissionIds IDs to reject, at most MAX_BATCH_SIZE
+     * @param reason Why they were rejected, recorded on each of them (not None)
+     * @param noteCID Optional IPFS CID of a note explaining the rejection ("" for none)
+     * @return rejected Number of submissions rejected
+     */
+    function rejectSubmissions(uint256[] calldata submissionIds, RejectionReason reason, string calldata noteCID)
+        external
+        nonReentrant
+        onlyRole(VERIFIER_ROLE)
+        returns (uint256 rejected)
+    {
+        if (reason == RejectionReason.None) revert SUBMISSION__InvalidRejectionReason();
+        _requireBatchSize(submissionIds.length);
+        for (uint256 i = 0; i < submissionIds.length; i++) {
+            if (_skipIfProcessed(submissionIds[i])) continue;
+            _rejectSubmission(submissionIds[i], reason, noteCID);
+            rejected++;
+        }
+    }
+
+    function _requireBatchSize(uint256 size) internal pure {
+        if (size == 0 || size > MAX_BATCH_SIZE) revert SUBMISSION__InvalidBatchSize(size);
+    }
+
+    function _requirePending(uint256 submissionId) internal view {
         if (submissionId >= submissionCount) revert SUBMISSION__SubmissionNotFound(submissionId);
 
-        CleanupSubmission storage s = submissions[submissionId];
+        SubmissionStatus status = submissions[submissionId].status;
+        if (status == SubmissionStatus.Approved) revert SUBMISSION__AlreadyApproved(submissionId);
+        if (status == SubmissionStatus.Rejected) revert SUBMISSION__AlreadyRejected(submissionId);
+        if (status == SubmissionStatus.Withdrawn) revert SUBMISSION__AlreadyWithdrawn(submissionId);
+    }
+
+    /**
+     * @dev Batch counterpart of _requirePending: emits SubmissionSkipped instead of reverting
+     * @return skipped True when the submission is not pending
+     */
+    function _skipIfProcessed(uint256 submissionId) internal returns (bool skipped) {
+        if (submissionId >= submissionCount) {
+            emit SubmissionSkipped(submissionId, msg.sender, SkipReason.NotFound);
+            return true;
+        }
+
+        SubmissionStatus status = submissions[submissionId].status;
+        if (status == SubmissionStatus.Approved) {
+            emit SubmissionSkipped(submissionId, msg.sender, SkipReason.AlreadyApproved);
+            return true;
+        }
+        if (status == SubmissionStatus.Rejected) {
+            emit SubmissionSkipped(submissionId, msg.sender, SkipReason.AlreadyRejected);
+            return true;
+        }
+        if (status == SubmissionStatus.Withdrawn) {
+            emit SubmissionSkipped(submissionId, msg.sender, SkipReason.AlreadyWithdrawn);
+            return true;
+        }
+        return false;
+    }
 
-        if (s.status == SubmissionStatus.Approved) revert SUBMISSION__AlreadyApproved(submissionId);
-        if (s.status == SubmissionStatus.Rejected) revert SUBMISSION__AlreadyRejected(submissionId);
+    /**
+     * @dev Mark a pending submission approved and run the reward side effects
+     * Delegates reward logic to DCURewardManager
+     */
+    function _approveSubmission(uint256 submissionId) internal {
+        CleanupSubmission storage s = submissions[submissionId];
 
         s.status = SubmissionStatus.Approved;
         s.approver = msg.sender;
@@ -336,6 +506,13 @@ contract Submission is Ownable, ReentrancyGuard, AccessControl {
                 // If POI verification fails (e.g., contract doesn't allow it), that's okay
                 // User can still claim tokens, just won't be able to mint NFT until manually verified
             }
+
+            // Each approved cleanup pays for exactly one Impact Product level
+            // A failed credit is logged so the owner can credit it on the NFT contract later
+            try impactProductNFT.creditCleanup(s.submitter, submissionId) {
+            } catch {
+                emit ImpactProductCreditFailed(submissionId, s.submitter);
+            }
         }
 
         emit SubmissionApproved(submissionId, msg.sender, block.timestamp);
@@ -356,21 +533,117 @@ contract Submission is Ownable, ReentrancyGuard, AccessControl {
     }
 
     /**
-     * @dev Reject a submission (only for verifiers)
+     * @dev Mark a pending submission rejected and record why
      */
-    function rejectSubmission(uint256 submissionId) external nonReentrant onlyRole(VERIFIER_ROLE) {
-        if (submissionId >= submissionCount) revert SUBMISSION__SubmissionNotFound(submissionId);
-
+    function _rejectSubmission(uint256 submissionId, RejectionReason reason, string calldata noteCID) internal {
         CleanupSubmission storage s = submissions[submissionId];
 
-        if (s.status == SubmissionStatus.Rejected) revert SUBMISSION__AlreadyRejected(submissionId);
-        if (s.status == SubmissionStatus.Approved) revert SUBMISSION__AlreadyApproved(submissionId);
-
         s.status = SubmissionStatus.Rejected;
         s.approver = msg.sender;
         s.processedTimestamp = block.timestamp;
+        s.rejectionReason = reason;
+        s.rejectionNoteCID = noteCID;
 
         emit SubmissionRejected(submissionId, msg.sender, block.timestamp);
+        emit SubmissionRejectionReason(submissionId, reason, noteCID);
+
+        if (autoRefundOnReject && s.feePaid > 0) {
+            _tryRefundFee(submissionId);
+        }
+    }
+
+    /**
+     * @dev Refund the fee of a rejected submission to its submitter (admins and verifiers)
+     * Withdrawn submissions are refunded when they are withdrawn.
+     */
+    function refundSubmissionFee(uint256 submissionId) external nonReentrant {
+        _requireRefunder();
+        if (submissionId >= submissionCount) revert SUBMISSION__SubmissionNotFound(submissionId);
+
+        CleanupSubmission storage s = submissions[submissionId];
+        if (s.status == SubmissionStatus.Approved) revert SUBMISSION__CannotRefundApprovedSubmission(submissionId);
+        if (s.status == SubmissionStatus.Pending) revert SUBMISSION__SubmissionNotProcessed(submissionId);
+        if (s.feePaid == 0 || s.feeRefunded) revert SUBMISSION__NothingToRefund(submissionId);
+
+        _refundFee(submissionId);
+    }
+
+    /**
+     * @dev Refund the fees of several rejected submissions (admins and verifiers)
+     * IDs that aren't refundable (see isFeeRefundable) are skipped, so historical
+     * rejections can be refunded in bulk without filtering them exactly. A transfer
+     * that fails emits SubmissionFeeRefundFailed and leaves that fee refundable.
+     * @param submissionIds IDs to refund, at most MAX_BATCH_SIZE
+     * @return refunded Number of fees refunded
+     * @return amount Total amount refunded
+     */
+    function refundSubmissionFees(uint256[] calldata submissionIds)
+        external
+        nonReentrant
+        returns (uint256 refunded, uint256 amount)
+    {
+        _requireRefunder();
+        _requireBatchSize(submissionIds.length);
+        for (uint256 i = 0; i < submissionIds.length; i++) {
+            if (!isFeeRefundable(submissionIds[i])) continue;
+            if (!_tryRefundFee(submissionIds[i])) continue;
+            amount += submissions[submissionIds[i]].feePaid;
+            refunded++;
+        }
+    }
+
+    /**
+     * @dev Whether a submission has a fee that can be refunded: rejected, paid and not yet refunded
+     */
+    function isFeeRefundable(uint256 submissionId) public view returns (bool) {
+        if (submissionId >= submissionCount) return false;
+        CleanupSubmission storage s = submissions[submissionId];
+        return s.status == SubmissionStatus.Rejected && s.feePaid > 0 && !s.feeRefunded;
+    }
+
+    function _requireRefunder() internal view {
+        if (!hasRole(ADMIN_ROLE, msg.sender) && !hasRole(VERIFIER_ROLE, msg.sender)) {
+            revert SUBMISSION__Unauthorized(msg.sender);
+        }
+    }
+
+    /**
+     * @dev Send a submission's fee back to its submitter, reverting if the transfer fails
+     * @return amount The amount refunded
+     */
+    function _refundFee(uint256 submissionId) internal returns (uint256 amount) {
+        CleanupSubmission storage s = submissions[submissionId];
+        amount = s.feePaid;
+
+        s.feeRefunded = true;
+        totalFeesRefunded += amount;
+
+        (bool sent, ) = payable(s.submitter).call{value: amount}("");
+        if (!sent) revert SUBMISSION__RefundFailed();
+
+        emit SubmissionFeeRefunded(submissionId, s.submitter, amount);
+    }
+
+    /**
+     * @dev Refund with capped gas for automatic and batch refunds: a failed transfer doesn't
+     * revert the caller, the fee stays refundable through refundSubmissionFee instead
+     * @return sent Whether the fee was refunded
+     */
+    function _tryRefundFee(uint256 submissionId) internal returns (bool sent) {
+        CleanupSubmission storage s = submissions[submissionId];
+        uint256 amount = s.feePaid;
+
+        s.feeRefunded = true;
+        totalFeesRefunded += amount;
+
+        (sent, ) = payable(s.submitter).call{value: amount, gas: AUTO_REFUND_GAS_LIMIT}("");
+        if (sent) {
+            emit SubmissionFeeRefunded(submissionId, s.submitter, amount);
+        } else {
+            s.feeRefunded = false;
+            totalFeesRefunded -= amount;
+            emit SubmissionFeeRefundFailed(submissionId, s.submitter, amount);
+        }
     }
 
     /**
@@ -391,6 +664,14 @@ contract Submission is Ownable, ReentrancyGuard, AccessControl {
         emit SubmissionFeeUpdated(newFee, enabled);
     }
 
+    /**
+     * @dev Refund fees automatically when a submission is rejected (only for admins)
+     */
+    function setAutoRefundOnReject(bool enabled) external onlyRole(ADMIN_ROLE) {
+        autoRefundOnReject = enabled;
+        emit AutoRefundOnRejectUpdated(enabled);
+    }
+
     /**
      * @dev Update treasury address (only for owner)
      */
@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+interface ISubmissionCreate {
+    function createSubmission(
+        string calldata dataURI,
+        string calldata beforePhotoHash,
+        string calldata afterPhotoHash,
+        string calldata impactFormDataHash,
+        int256 lat,
+        int256 lng,
+        address referrer
+    ) external payable returns (uint256);
+}
+
+/**
+ * @title RevertingSubmitter
+ * @dev Test helper: a submitter contract that rejects every CELO transfer, used to
+ * check that refunds to it fail without blocking other refunds
+ */
+contract RevertingSubmitter {
+    function submit(address submission) external payable returns (uint256) {
+        return ISubmissionCreate(submission).createSubmission{value: msg.value}(
+            "ipfs://QmReverting",
+            "ipfs://before",
+            "ipfs://after",
+            "",
+            0,
+            0,
+            address(0)
+        );
+    }
+
+    receive() external payable {
+        revert("RevertingSubmitter: refusing CELO");
+    }
+}
@@ -41,6 +41,19 @@ contract ImpactProductNFT is ERC721, Ownable {
     mapping(uint256 => bool) private _transferAuthorized;
     mapping(uint256 => address) private _authorizedRecipient;
 
+    // Cleanup credits: every approved submission lets its submitter claim one level
+    // (the mint is level 1, each upgrade the next one). Credits are used oldest first.
+    mapping(address => uint256[]) private _cleanupCredits;
+    mapping(address => uint256) public consumedCleanupCredits;
+    mapping(uint256 => bool) public cleanupCredited;
+    // Level claimed with a submission's credit, 0 while unused
+    mapping(uint256 => uint256) public cleanupClaimLevel;
+
+    // Per-level artwork on IPFS, as "<cid>" or "<cid>/<file>". Levels without an
+    // image get an on-chain SVG; the animation is optional (the level 10 video)
+    mapping(uint256 => string) public levelImageCID;
+    mapping(uint256 => string) public levelAnimationCID;
+
     event POIVerified(address indexed user);
     event Minted(address indexed user, uint256 indexed tokenId);
     event NFTUpgraded(uint256 indexed tokenId, uint256 newLevel);
@@ -52,6 +65,10 @@ contract ImpactProductNFT is ERC721, Ownable {
     event ClaimFeeUpdated(uint256 oldFee, uint256 newFee);
     event FeeEnabledUpdated(bool enabled);
     event TreasuryUpdated(address indexed oldTreasury, address indexed newTreasury);
+    event CleanupCredited(address indexed user, uint256 indexed submissionId);
+    event CleanupCreditConsumed(address indexed user, uint256 indexed submissionId, uint256 level);
+    event LevelsClaimed(address indexed user, uint256 indexed tokenId, uint256 fromLevel, uint256 toLevel);
+    event LevelMediaUpdated(uint256 indexed level, string imageCID, string animationCID);
 
     constructor(address _rewardsContract) ERC721("Impact Product NFT", "IMPACT") Ownable(msg.sender) {
         require(_rewardsContract != address(0), "Invalid rewards contract address");
@@ -96,6 +113,39 @@ contract ImpactProductNFT is ERC721, Ownable {
         revert("Only owner or Submission contract can verify POI");
     }
 
+    // --- Cleanup credits ---
+
+    /**
+     * @dev Credit an approved submission to its submitter
+     * Called by the Submission contract on approval; the owner can credit too, for
+     * submissions the Submission contract failed to credit
+     */
+    function creditCleanup(address user, uint256 submissionId) external {
+        require(
+            msg.sender == owner() || (msg.sender == submissionContract && submissionContract != address(0)),
+            "Only owner or Submission contract can credit cleanups"
+        );
+        _creditCleanup(user, submissionId);
+    }
+
+    /**
+     * @dev Credit submissions approved before credits existed
+     * The oldest credits are marked as used by the levels the user already holds,
+     * so only cleanups beyond the current level remain claimable
+     */
+    function backfillCleanupCredits(address user, uint256[] calldata submissionIds) external onlyOwner {
+        for (uint256 i = 0; i < submissionIds.length; i++) {
+            if (!cleanupCredited[submissionIds[i]]) {
+                _creditCleanup(user, submissionIds[i]);
+            }
+        }
+
+        uint256 heldLevel = userLevel[user];
+        while (consumedCleanupCredits[user] < heldLevel && availableCleanupCredits(user) > 0) {
+            _consumeCleanupCredit(user, consumedCleanupCredits[user] + 1);
+        }
+    }
+
     // --- Configuration ---
 
     function setRewardsContract(address newRewardsContract) external onlyOwner {
@@ -126,6 +176,17 @@ contract ImpactProductNFT is ERC721, Ownable {
         emit TreasuryUpdated(oldTreasury, newTreasury);
     }
 
+    /**
+     * @dev Set the IPFS artwork for a level; empty strings clear it, so the
+     * level falls back to the on-chain SVG (image) or has no animation
+     */
+    function setLevelMedia(uint256 level, string calldata imageCID, string calldata animationCID) external onlyOwner {
+        require(level >= 1 && level <= MAX_LEVEL, "Invalid level range");
+        levelImageCID[level] = imageCID;
+        levelAnimationCID[level] = animationCID;
+        emit LevelMediaUpdated(level, imageCID, animationCID);
+    }
+
     function withdrawFees() external onlyOwner {
         require(treasury != address(0), "Treasury not set");
         uint256 amount = address(this).balance;
@@ -137,22 +198,21 @@ contract ImpactProductNFT is ERC721, Ownable {
     // --- Minting ---
 
     function safeMint() external payable {
-        // Validate and collect fee if enabled
-        if (feeEnabled) {
-            require(msg.value >= claimFee, "Insufficient claim fee");
-            totalFeesCollected += msg.value;
-            // Transfer fee to treasury if set
-            if (treasury != address(0) && msg.value > 0) {
-                (bool success, ) = treasury.call{value: msg.value}("");
-                require(success, "Fee transfer failed");
-            }
-        }
+        _collectClaimFee(1);
         _requireVerified(msg.sender);
+        _consumeCleanupCredit(msg.sender, 1);
         _mintTo(msg.sender);
     }
 
+    /**
+     * @dev Admin mint, allowed without a cleanup credit
+     * Uses one when the user has it, so the same cleanup can't pay for the next level too
+     */
     function mint(address user) external onlyOwner {
         _requireVerified(user);
+        if (availableCleanupCredits(user) > 0) {
+            _consumeCleanupCredit(user, 1);
+        }
         _mintTo(user);
     }
 
@@ -182,33 +242,42 @@ contract ImpactProductNFT is ERC721, Ownable {
     // --- Upgrades & Impact ---
 
     function upgradeNFT(uint256 tokenId) external payable {
-        // Validate and collect fee if enabled
-        if (feeEnabled) {
-            require(msg.value >= claimFee, "Insufficient claim fee");
-            totalFeesCollected += msg.value;
-            // Transfer fee to treasury if set
-            if (treasury != address(0) && msg.value > 0) {
-                (bool success, ) = treasury.call{value: msg.value}("");
-                require(success, "Fee transfer failed");
-            }
-        }
+        _collectClaimFee(1);
         _requireTokenOwned(tokenId);
         require(ownerOf(tokenId) == msg.sender, "You don't own this token");
         _requireVerified(msg.sender);
 
-        uint256 currentLevel = nftLevel[tokenId];
-        require(currentLevel < MAX_LEVEL, "You have reached the maximum level");
+        _upgrade(msg.sender, tokenId);
+    }
 
-        uint256 newLevel = currentLevel + 1;
-        nftLevel[tokenId] = newLevel;
-        userLevel[msg.sender] = newLevel;
+    /**
+     * @dev Claim several earned levels in one transaction
+     * Mints the NFT first if the user has none, then upgrades for the remaining levels.
+     * Each level uses one cleanup credit and one claim fee, and gets its own level reward.
+     */
+    function claimLevels(uint256 levels) external payable {
+        require(levels > 0, "No levels to claim");
+        require(levels <= availableCleanupCredits(msg.sender), "No approved cleanup to claim");
+        require(userLevel[msg.sender] + levels <= MAX_LEVEL, "You have reached the maximum level");
+        _collectClaimFee(levels);
+        _requireVerified(msg.sender);
 
-        // Distribute level reward (10 $cDCU) for the new level
-        if (rewardsContract != address(0)) {
-            try IDCUNftRewardManager(rewardsContract).rewardImpactProductClaim(msg.sender, newLevel) {} catch {}
+        uint256 fromLevel = userLevel[msg.sender];
+        uint256 remaining = levels;
+        if (!_userHasMinted[msg.sender]) {
+            _consumeCleanupCredit(msg.sender, 1);
+            _mintTo(msg.sender);
+            remaining -= 1;
         }
 
-        emit NFTUpgraded(tokenId, newLevel);
+        uint256 pointer = _userTokenPointer[msg.sender];
+        require(pointer != 0, "User has no NFT");
+        uint256 tokenId = pointer - 1;
+        for (uint256 i = 0; i < remaining; i++) {
+            _upgrade(msg.sender, tokenId);
+        }
+
+        emit LevelsClaimed(msg.sender, tokenId, fromLevel, userLevel[msg.sender]);
     }
 
     function updateImpactLevel(uint256 tokenId, uint256 newImpactLevel) external onlyOwner {
@@ -277,22 +346,79 @@ contract ImpactProductNFT is ERC721, Ownable {
         level = userLevel[user];
     }
 
+    function availableCleanupCredits(address user) public view returns (uint256) {
+        return _cleanupCredits[user].length - consumedCleanupCredits[user];
+    }
+
+    /**
+     * @dev Levels the user can claim now: one per unused credit, up to MAX_LEVEL
+     */
+    function claimableLevels(address user) external view returns (uint256) {
+        uint256 credits = availableCleanupCredits(user);
+        uint256 levelsLeft = MAX_LEVEL - userLevel[user];
+        return credits < levelsLeft ? credits : levelsLeft;
+    }
+
+    /**
+     * @dev Submissions credited to a user, oldest first; the first `consumed` have been claimed
+     */
+    function getCleanupCredits(address user) external view returns (uint256[] memory submissionIds, uint256 consumed) {
+        submissionIds = _cleanupCredits[user];
+        consumed = consumedCleanupCredits[user];
+    }
+
+    /**
+     * @dev Approved cleanups of a user
+     * Holders from before cleanup credits may not be backfilled yet; every level
+     * took a cleanup, so their level is the lower bound
+     */
+    function totalCleanups(address user) public view returns (uint256) {
+        uint256 credited = _cleanupCredits[user].length;
+        return credited > userLevel[user] ? credited : userLevel[user];
+    }
+
+    /**
+     * @dev ERC-721 metadata JSON, as a base64 data URI
+     * The constant traits match CONSTANT_TRAITS in the frontend
+     */
     function tokenURI(uint256 tokenId) public view override returns (string memory) {
         _requireTokenOwned(tokenId);
 
         uint256 level = nftLevel[tokenId];
-        uint256 impact = impactLevel[tokenId];
-        string memory category = _categoryForLevel(level);
-        
+        uint256 cleanups = totalCleanups(ownerOf(tokenId));
+        string memory levelName = _categoryForLevel(level);
+
+        string memory image = bytes(levelImageCID[level]).length > 0
+            ? string.concat("ipfs://", levelImageCID[level])
+            : _svgImage(level, cleanups, levelName);
+        string memory animation = bytes(levelAnimationCID[level]).length > 0
+            ? string.concat('"animation_url":"ipfs://', levelAnimationCID[level], '",')
+            : "";
+
         bytes memory metadata = abi.encodePacked(
-            '{"name":"Impact Product #',
-                tokenId.toString(),
-            '","description":"DeCleanup Impact Product NFT","attributes":[',
-            _attributeJson("Level", level.toString()),
+            unicode'{"name":"DeCleanup Impact Product • Level ',
+            level.toString(),
+            '","description":"Tokenized proof of real-world cleanups, verified by DeCleanup Rewards.",',
+            '"external_url":"https://decleanup.network","image":"',
+            image,
+            '",',
+            animation,
+            '"attributes":[',
+            _attributeJson("Type", "Dynamic"),
+            ",",
+            _attributeJson("Impact", "Environment"),
+            ",",
+            _attributeJson("Category", "Cleanup NFT"),
+            ",",
+            _attributeJson("Rarity", "Unique"),
             ",",
-            _attributeJson("Impact", impact.toString()),
+            _attributeJson("Level", levelName),
             ",",
-            _attributeJson("Category", category),
+            _attributeJson("Impact Value", impactLevel[tokenId].toString()),
+            ",",
+            _numberAttributeJson("Level Number", level),
+            ",",
+            _numberAttributeJson("Cleanups Completed", cleanups),
             "]}"
         );
 
@@ -308,6 +434,54 @@ contract ImpactProductNFT is ERC721, Ownable {
         }
     }
 
+    function _collectClaimFee(uint256 levels) internal {
+        // Validate and collect fee if enabled
+        if (feeEnabled) {
+            require(msg.value >= claimFee * levels, "Insufficient claim fee");
+            totalFeesCollected += msg.value;
+            // Transfer fee to treasury if set
+            if (treasury != address(0) && msg.value > 0) {
+                (bool success, ) = treasury.call{value: msg.value}("");
+                require(success, "Fee transfer failed");
+            }
+        }
+    }
+
+    function _upgrade(address user, uint256 tokenId) internal {
+        uint256 currentLevel = nftLevel[tokenId];
+        require(currentLevel < MAX_LEVEL, "You have reached the maximum level");
+
+        uint256 newLevel = currentLevel + 1;
+        _consumeCleanupCredit(user, newLevel);
+        nftLevel[tokenId] = newLevel;
+        userLevel[user] = newLevel;
+
+        // Distribute level reward (10 $cDCU) for the new level
+        if (rewardsContract != address(0)) {
+            try IDCUNftRewardManager(rewardsContract).rewardImpactProductClaim(user, newLevel) {} catch {}
+        }
+
+        emit NFTUpgraded(tokenId, newLevel);
+    }
+
+    function _creditCleanup(address user, uint256 submissionId) internal {
+        require(user != address(0), "Invalid address");
+        require(!cleanupCredited[submissionId], "Cleanup already credited");
+
+        cleanupCredited[submissionId] = true;
+        _cleanupCredits[user].push(submissionId);
+        emit CleanupCredited(user, submissionId);
+    }
+
+    function _consumeCleanupCredit(address user, uint256 level) internal {
+        require(availableCleanupCredits(user) > 0, "No approved cleanup to claim");
+
+        uint256 submissionId = _cleanupCredits[user][consumedCleanupCredits[user]];
+        consumedCleanupCredits[user] += 1;
+        cleanupClaimLevel[submissionId] = level;
+        emit CleanupCreditConsumed(user, submissionId, level);
+    }
+
     function _requireVerified(address user) internal view {
         require(verifiedPOI[user], "You are not a verified POI");
     }
@@ -327,6 +501,33 @@ contract ImpactProductNFT is ERC721, Ownable {
         return abi.encodePacked('{"trait_type":"', traitType, '","value":"', value, '"}');
     }
 
+    function _numberAttributeJson(string memory traitType, uint256 value) internal pure returns (bytes memory) {
+        return abi.encodePacked('{"display_type":"number","trait_type":"', traitType, '","value":', value.toString(), "}");
+    }
+
+    /**
+     * @dev Fallback artwork: level, level name, progress to MAX_LEVEL and cleanup count
+     */
+    function _svgImage(uint256 level, uint256 cleanups, string memory levelName) internal pure returns (string memory) {
+        bytes memory svg = abi.encodePacked(
+            '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 400 400" font-family="sans-serif" text-anchor="middle">',
+            '<rect width="400" height="400" fill="#0A0A0A"/>',
+            '<text x="200" y="70" font-size="16" letter-spacing="3" fill="#FFFFFF">DECLEANUP IMPACT PRODUCT</text>',
+            '<text x="200" y="210" font-size="120" font-weight="bold" fill="#58B12F">',
+            level.toString(),
+            '</text><text x="200" y="255" font-size="28" fill="#FAFF00">',
+            levelName,
+            '</text><rect x="50" y="290" width="300" height="12" rx="6" fill="#1F2937"/>',
+            '<rect x="50" y="290" width="',
+            (level * (300 / MAX_LEVEL)).toString(),
+            '" height="12" rx="6" fill="#58B12F"/><text x="200" y="350" font-size="20" fill="#FFFFFF">',
+            cleanups.toString(),
+            cleanups == 1 ? " cleanup" : " cleanups",
+            "</text></svg>"
+        );
+        return string.concat("data:image/svg+xml;base64,", Base64.encode(svg));
+    }
+
     function _setUserTokenPointer(address user, uint256 tokenId) internal {
         _userTokenPointer[user] = tokenId + 1;
     }
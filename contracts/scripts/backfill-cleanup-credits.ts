@@ -0,0 +1,130 @@
+/**
+ * Backfill Impact Product cleanup credits
+ *
+ * Each approved submission lets its submitter claim one Impact Product level.
+ * Submissions approved before credits existed (or whose credit failed, see
+ * ImpactProductCreditFailed) have none, so this script walks every submission,
+ * collects the approved ones not credited yet and credits them per submitter
+ * with backfillCleanupCredits. Levels a user already holds use up their oldest
+ * credits. The signer must own ImpactProductNFT.
+ *
+ * Usage:
+ *   npx hardhat run scripts/backfill-cleanup-credits.ts --network celoSepolia
+ *
+ * Set DRY_RUN=true to only list what would be credited.
+ */
+
+import hre from "hardhat"
+import * as fs from "fs"
+import * as path from "path"
+import { getAddress } from "viem"
+
+// Submission.SubmissionStatus.Approved
+const STATUS_APPROVED = 1
+const PAGE_SIZE = 100n
+
+async function main() {
+  const dryRun = process.env.DRY_RUN === "true"
+  console.log(`🎫 Backfilling Impact Product cleanup credits${dryRun ? " (dry run)" : ""}...\n`)
+
+  // Load deployed addresses
+  const deployedAddressesPath = path.join(__dirname, "deployed_addresses.json")
+  if (!fs.existsSync(deployedAddressesPath)) {
+    console.error("❌ deployed_addresses.json not found!")
+    process.exit(1)
+  }
+
+  const deployedAddresses = JSON.parse(fs.readFileSync(deployedAddressesPath, "utf-8"))
+  const submissionAddress = deployedAddresses.Submission
+  const impactProductAddress = deployedAddresses.ImpactProductNFT
+  if (!submissionAddress || !impactProductAddress) {
+    console.error("❌ Missing Submission or ImpactProductNFT contract address!")
+    process.exit(1)
+  }
+
+  const [signer] = await hre.viem.getWalletClients()
+  const publicClient = await hre.viem.getPublicClient()
+  const submission = await hre.viem.getContractAt("Submission", submissionAddress)
+  const impactProduct = await hre.viem.getContractAt("ImpactProductNFT", impactProductAddress, {
+    client: { wallet: signer },
+  })
+
+  console.log("Configuration:")
+  console.log(`   Submission: ${submissionAddress}`)
+  console.log(`   ImpactProductNFT: ${impactProductAddress}`)
+  console.log(`   Using account: ${signer.account.address}\n`)
+
+  const owner = await impactProduct.read.owner()
+  if (!dryRun && owner.toLowerCase() !== signer.account.address.toLowerCase()) {
+    console.error(`❌ Only the ImpactProductNFT owner (${owner}) can backfill credits`)
+    process.exit(1)
+  }
+
+  // Step 1: Find approved submissions without a credit
+  console.log("📊 Step 1: Scanning submissions...")
+  const submissionCount = await submission.read.submissionCount()
+  const uncredited = new Map<string, bigint[]>()
+  let uncreditedCount = 0
+
+  for (let start = 0n; start < submissionCount; start += PAGE_SIZE) {
+    const page = await submission.read.getSubmissionBatch([start, PAGE_SIZE])
+    for (const s of page) {
+      if (s.status !== STATUS_APPROVED || (await impactProduct.read.cleanupCredited([s.id]))) continue
+      const submitter = getAddress(s.submitter)
+      // Pages come in ID order, so every list stays oldest first
+      uncredited.set(submitter, [...(uncredited.get(submitter) ?? []), s.id])
+      uncreditedCount++
+    }
+  }
+
+  console.log(`   Submissions scanned: ${submissionCount}`)
+  console.log(`   Approved without credit: ${uncreditedCount} (${uncredited.size} submitter(s))`)
+  for (const [submitter, ids] of uncredited) {
+    const level = await impactProduct.read.userLevel([submitter])
+    console.log(`   - ${submitter}: #${ids.join(", #")} (holds level ${level})`)
+  }
+
+  if (uncreditedCount === 0) {
+    console.log("\n✅ Nothing to backfill")
+    return
+  }
+
+  if (dryRun) {
+    console.log("\nℹ️  Dry run: no transactions sent")
+    return
+  }
+
+  // Step 2: Credit per submitter
+  console.log("\n📊 Step 2: Sending credits...")
+  let creditedUsers = 0
+  let failedUsers = 0
+
+  for (const [submitter, ids] of uncredited) {
+    try {
+      const hash = await impactProduct.write.backfillCleanupCredits([submitter, ids])
+      const receipt = await publicClient.waitForTransactionReceipt({ hash })
+      if (receipt.status !== "success") throw new Error("transaction reverted")
+
+      const available = await impactProduct.read.availableCleanupCredits([submitter])
+      creditedUsers++
+      console.log(`   ✅ ${submitter}: ${ids.length} credited, ${available} claimable (${hash})`)
+    } catch (error: any) {
+      failedUsers++
+      console.error(`   ❌ ${submitter} failed: ${error.shortMessage || error.message}`)
+    }
+  }
+
+  console.log("\n✅ Backfill complete!")
+  console.log(`\n📝 Summary:`)
+  console.log(`   Submitters credited: ${creditedUsers} of ${uncredited.size}`)
+  if (failedUsers > 0) {
+    console.log(`   ⚠️  ${failedUsers} submitter(s) failed, run the script again to retry them`)
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
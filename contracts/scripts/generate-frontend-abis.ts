@@ -0,0 +1,70 @@
+import * as fs from "fs";
+import * as path from "path";
+import hre from "hardhat";
+
+/**
+ * Generates typed `as const` ABI modules for the frontend from the Hardhat
+ * artifacts, so viem can infer function args, return types, events and
+ * custom errors instead of relying on hand-written ABI fragments.
+ *
+ * Usage: npm run compile && npm run generate:abis
+ */
+
+interface ContractInfo {
+  name: string;
+  path: string;
+}
+
+const contracts: ContractInfo[] = [
+  { name: "Submission", path: "contracts/contracts/Submission.sol" },
+  { name: "DCURewardManager", path: "contracts/contracts/DCURewardManager.sol" },
+  { name: "ImpactProductNFT", path: "contracts/contracts/tokens/ImpactProductNFT.sol" },
+  { name: "DCUToken", path: "contracts/contracts/tokens/DCUToken.sol" },
+  { name: "RecyclablesReward", path: "contracts/contracts/RecyclablesReward.sol" },
+];
+
+const outputDir = path.join(__dirname, "../../frontend/src/lib/blockchain/abis");
+
+const HEADER = [
+  "// This file is generated by contracts/scripts/generate-frontend-abis.ts.",
+  "// Do not edit it by hand: change the contract and re-run the script.",
+  "",
+].join("\n");
+
+function abiConstName(contractName: string): string {
+  // DCURewardManager -> DCU_REWARD_MANAGER_ABI, ImpactProductNFT -> IMPACT_PRODUCT_NFT_ABI
+  const snake = contractName
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1_$2")
+    .replace(/([a-z])([A-Z])/g, "$1_$2");
+  return `${snake.toUpperCase()}_ABI`;
+}
+
+async function main() {
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  const exports: string[] = [];
+
+  for (const contract of contracts) {
+    // Fully qualified names avoid clashes with interfaces declared in other files
+    const artifact = await hre.artifacts.readArtifact(`${contract.path}:${contract.name}`);
+    const constName = abiConstName(contract.name);
+
+    const source =
+      HEADER +
+      `export const ${constName} = ${JSON.stringify(artifact.abi, null, 2)} as const\n`;
+
+    fs.writeFileSync(path.join(outputDir, `${contract.name}.ts`), source);
+    exports.push(`export { ${constName} } from './${contract.name}'`);
+    console.log(`✅ ${contract.name} → abis/${contract.name}.ts (${artifact.abi.length} entries)`);
+  }
+
+  fs.writeFileSync(path.join(outputDir, "index.ts"), HEADER + exports.join("\n") + "\n");
+  console.log(`\nABIs written to ${path.relative(process.cwd(), outputDir)}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
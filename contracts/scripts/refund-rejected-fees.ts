@@ -0,0 +1,150 @@
+/**
+ * Refund submission fees of rejected cleanups
+ *
+ * Walks every submission, picks the rejected ones whose fee was paid but not
+ * refunded yet (e.g. rejected before refunds existed, or whose automatic
+ * refund failed) and refunds them with refundSubmissionFees, MAX_BATCH_SIZE
+ * per transaction. Refunds to submitters that can't receive CELO are reported
+ * and left refundable. If a whole batch fails, its fees are refunded one at a
+ * time with refundSubmissionFee instead. The signer needs ADMIN_ROLE or
+ * VERIFIER_ROLE on Submission.
+ *
+ * Usage:
+ *   npx hardhat run scripts/refund-rejected-fees.ts --network celoSepolia
+ *
+ * Set DRY_RUN=true to only list what would be refunded.
+ */
+
+import hre from "hardhat"
+import * as fs from "fs"
+import * as path from "path"
+import { formatEther } from "viem"
+
+// Submission.SubmissionStatus.Rejected
+const STATUS_REJECTED = 2
+const PAGE_SIZE = 100n
+
+async function main() {
+  const dryRun = process.env.DRY_RUN === "true"
+  console.log(`💸 Refunding fees of rejected submissions${dryRun ? " (dry run)" : ""}...\n`)
+
+  // Load deployed addresses
+  const deployedAddressesPath = path.join(__dirname, "deployed_addresses.json")
+  if (!fs.existsSync(deployedAddressesPath)) {
+    console.error("❌ deployed_addresses.json not found!")
+    process.exit(1)
+  }
+
+  const deployedAddresses = JSON.parse(fs.readFileSync(deployedAddressesPath, "utf-8"))
+  const submissionAddress = deployedAddresses.Submission
+  if (!submissionAddress) {
+    console.error("❌ Missing Submission contract address!")
+    process.exit(1)
+  }
+
+  const [signer] = await hre.viem.getWalletClients()
+  const publicClient = await hre.viem.getPublicClient()
+  const submission = await hre.viem.getContractAt("Submission", submissionAddress, { client: { wallet: signer } })
+
+  console.log("Configuration:")
+  console.log(`   Submission: ${submissionAddress}`)
+  console.log(`   Using account: ${signer.account.address}\n`)
+
+  // Step 1: Find refundable submissions
+  console.log("📊 Step 1: Scanning submissions...")
+  const submissionCount = await submission.read.submissionCount()
+  const refundable: { id: bigint; submitter: string; fee: bigint }[] = []
+
+  for (let start = 0n; start < submissionCount; start += PAGE_SIZE) {
+    const page = await submission.read.getSubmissionBatch([start, PAGE_SIZE])
+    for (const s of page) {
+      if (s.status === STATUS_REJECTED && s.feePaid > 0n && !s.feeRefunded) {
+        refundable.push({ id: s.id, submitter: s.submitter, fee: s.feePaid })
+      }
+    }
+  }
+
+  const total = refundable.reduce((sum, r) => sum + r.fee, 0n)
+  console.log(`   Submissions scanned: ${submissionCount}`)
+  console.log(`   Refundable: ${refundable.length} (${formatEther(total)} CELO)`)
+  refundable.forEach((r) => console.log(`   - #${r.id}: ${formatEther(r.fee)} CELO to ${r.submitter}`))
+
+  if (refundable.length === 0) {
+    console.log("\n✅ Nothing to refund")
+    return
+  }
+
+  const balance = await publicClient.getBalance({ address: submissionAddress })
+  console.log(`\n   Contract balance: ${formatEther(balance)} CELO`)
+  if (balance < total) {
+    console.error("❌ The contract balance does not cover the refunds. Fund it before running this script.")
+    process.exit(1)
+  }
+
+  if (dryRun) {
+    console.log("\nℹ️  Dry run: no transactions sent")
+    return
+  }
+
+  // Step 2: Refund in batches
+  console.log("\n📊 Step 2: Sending refunds...")
+  const batchSize = Number(await submission.read.MAX_BATCH_SIZE())
+  let refundedCount = 0
+  const failedIds: bigint[] = []
+
+  const sendAndWait = async (hash: `0x${string}`) => {
+    console.log(`   Transaction hash: ${hash}`)
+    const receipt = await publicClient.waitForTransactionReceipt({ hash })
+    if (receipt.status !== "success") throw new Error("transaction reverted")
+    return receipt
+  }
+
+  for (let i = 0; i < refundable.length; i += batchSize) {
+    const ids = refundable.slice(i, i + batchSize).map((r) => r.id)
+    try {
+      const hash = await submission.write.refundSubmissionFees([ids])
+      const receipt = await sendAndWait(hash)
+
+      const blocks = { fromBlock: receipt.blockNumber, toBlock: receipt.blockNumber }
+      const refunded = (await submission.getEvents.SubmissionFeeRefunded({}, blocks))
+        .filter((e) => e.transactionHash === hash).length
+      const failed = (await submission.getEvents.SubmissionFeeRefundFailed({}, blocks))
+        .filter((e) => e.transactionHash === hash)
+        .map((e) => e.args.submissionId!)
+      refundedCount += refunded
+      failedIds.push(...failed)
+      console.log(`   ✅ Refunded ${refunded} of ${ids.length} (#${ids[0]}-#${ids[ids.length - 1]})`)
+      failed.forEach((id) => console.log(`   ⚠️  #${id}: the submitter did not accept the refund`))
+    } catch (error: any) {
+      console.error(`   ❌ Batch #${ids[0]}-#${ids[ids.length - 1]} failed: ${error.shortMessage || error.message}`)
+      console.log("   Refunding this batch one submission at a time...")
+
+      for (const id of ids) {
+        try {
+          await sendAndWait(await submission.write.refundSubmissionFee([id]))
+          refundedCount++
+          console.log(`   ✅ Refunded #${id}`)
+        } catch (singleError: any) {
+          failedIds.push(id)
+          console.error(`   ❌ #${id} failed: ${singleError.shortMessage || singleError.message}`)
+        }
+      }
+    }
+  }
+
+  console.log("\n✅ Fee refunds complete!")
+  console.log(`\n📝 Summary:`)
+  console.log(`   Refunded: ${refundedCount} of ${refundable.length}`)
+  console.log(`   Total refunded (all time): ${formatEther(await submission.read.totalFeesRefunded())} CELO`)
+  if (failedIds.length > 0) {
+    console.log(`   ⚠️  ${failedIds.length} refund(s) failed: ${failedIds.map((id) => `#${id}`).join(", ")}`)
+    console.log("   Their fees stay refundable. Submitters that can't receive CELO have to be refunded by hand.")
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
@@ -0,0 +1,113 @@
+/**
+ * Set Impact Product level artwork
+ *
+ * Registers the IPFS images (and the level 10 video) in ImpactProductNFT, so
+ * tokenURI points marketplaces and wallets at them. Levels left unset show the
+ * on-chain SVG instead. Files are named like the ones the frontend uses:
+ * IP1.png … IP9.png, IP10Placeholder.png and IP10VIdeo.mp4. The signer must
+ * own ImpactProductNFT.
+ *
+ * Usage:
+ *   IMPACT_IMAGES_CID=<cid> npx hardhat run scripts/set-level-media.ts --network celoSepolia
+ *
+ * Set DRY_RUN=true to only list what would change.
+ */
+
+import hre from "hardhat"
+import * as fs from "fs"
+import * as path from "path"
+
+const DEFAULT_IMAGES_CID = "bafybeifygxoux2l63muhba4j6gez3vlbe7enjnlkpjwfupylnkhgkqg54y"
+const MAX_LEVEL = 10
+
+function levelMedia(cid: string, level: number) {
+  if (level === MAX_LEVEL) {
+    return { image: `${cid}/IP10Placeholder.png`, animation: `${cid}/IP10VIdeo.mp4` }
+  }
+  return { image: `${cid}/IP${level}.png`, animation: "" }
+}
+
+async function main() {
+  const dryRun = process.env.DRY_RUN === "true"
+  const imagesCID = process.env.IMPACT_IMAGES_CID || process.env.NEXT_PUBLIC_IMPACT_IMAGES_CID || DEFAULT_IMAGES_CID
+  console.log(`🖼️  Setting Impact Product level artwork${dryRun ? " (dry run)" : ""}...\n`)
+
+  // Load deployed addresses
+  const deployedAddressesPath = path.join(__dirname, "deployed_addresses.json")
+  if (!fs.existsSync(deployedAddressesPath)) {
+    console.error("❌ deployed_addresses.json not found!")
+    process.exit(1)
+  }
+
+  const deployedAddresses = JSON.parse(fs.readFileSync(deployedAddressesPath, "utf-8"))
+  const impactProductAddress = deployedAddresses.ImpactProductNFT
+  if (!impactProductAddress) {
+    console.error("❌ Missing ImpactProductNFT contract address!")
+    process.exit(1)
+  }
+
+  const [signer] = await hre.viem.getWalletClients()
+  const publicClient = await hre.viem.getPublicClient()
+  const impactProduct = await hre.viem.getContractAt("ImpactProductNFT", impactProductAddress, {
+    client: { wallet: signer },
+  })
+
+  console.log("Configuration:")
+  console.log(`   ImpactProductNFT: ${impactProductAddress}`)
+  console.log(`   Images CID: ${imagesCID}`)
+  console.log(`   Using account: ${signer.account.address}\n`)
+
+  const owner = await impactProduct.read.owner()
+  if (!dryRun && owner.toLowerCase() !== signer.account.address.toLowerCase()) {
+    console.error(`❌ Only the ImpactProductNFT owner (${owner}) can set level artwork`)
+    process.exit(1)
+  }
+
+  let updated = 0
+  let failed = 0
+
+  for (let level = 1; level <= MAX_LEVEL; level++) {
+    const { image, animation } = levelMedia(imagesCID, level)
+    const [currentImage, currentAnimation] = await Promise.all([
+      impactProduct.read.levelImageCID([BigInt(level)]),
+      impactProduct.read.levelAnimationCID([BigInt(level)]),
+    ])
+    if (currentImage === image && currentAnimation === animation) {
+      console.log(`   ✓ Level ${level}: already set`)
+      continue
+    }
+
+    console.log(`   - Level ${level}: ${image}${animation ? ` + ${animation}` : ""}`)
+    if (dryRun) continue
+
+    try {
+      const hash = await impactProduct.write.setLevelMedia([BigInt(level), image, animation])
+      const receipt = await publicClient.waitForTransactionReceipt({ hash })
+      if (receipt.status !== "success") throw new Error("transaction reverted")
+      updated++
+      console.log(`     ✅ ${hash}`)
+    } catch (error: any) {
+      failed++
+      console.error(`     ❌ Failed: ${error.shortMessage || error.message}`)
+    }
+  }
+
+  if (dryRun) {
+    console.log("\nℹ️  Dry run: no transactions sent")
+    return
+  }
+
+  console.log("\n✅ Level artwork updated!")
+  console.log(`\n📝 Summary:`)
+  console.log(`   Levels updated: ${updated}`)
+  if (failed > 0) {
+    console.log(`   ⚠️  ${failed} level(s) failed, run the script again to retry them`)
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
@@ -215,4 +215,220 @@ describe("ImpactProductNFT", function () {
       );
     });
   });
+
+  describe("Cleanup Credits", function () {
+    it("Should require an approved cleanup to mint", async function () {
+      const { impactProductNft, owner, user1 } = await loadFixture(deployImpactProductNFTFixture);
+
+      await expectRevert(
+        impactProductNft.simulate.safeMint({ account: user1.account }),
+        "No approved cleanup to claim"
+      );
+
+      await impactProductNft.write.creditCleanup([user1.account.address, 7n], {
+        account: owner.account,
+      });
+      await impactProductNft.write.safeMint({ account: user1.account });
+
+      expect(await impactProductNft.read.cleanupClaimLevel([7n])).to.equal(1n);
+      expect(await impactProductNft.read.availableCleanupCredits([user1.account.address])).to.equal(0n);
+    });
+
+    it("Should consume one credit per upgrade, oldest first", async function () {
+      const { impactProductNft, owner, user1 } = await loadFixture(deployImpactProductNFTFixture);
+
+      for (const submissionId of [3n, 5n, 9n]) {
+        await impactProductNft.write.creditCleanup([user1.account.address, submissionId], {
+          account: owner.account,
+        });
+      }
+      await impactProductNft.write.safeMint({ account: user1.account });
+      await impactProductNft.write.upgradeNFT([0n], { account: user1.account });
+
+      expect(await impactProductNft.read.cleanupClaimLevel([3n])).to.equal(1n);
+      expect(await impactProductNft.read.cleanupClaimLevel([5n])).to.equal(2n);
+      expect(await impactProductNft.read.cleanupClaimLevel([9n])).to.equal(0n);
+
+      const [event] = await impactProductNft.getEvents.CleanupCreditConsumed();
+      expect(event.args.submissionId).to.equal(5n);
+      expect(event.args.level).to.equal(2n);
+    });
+
+    it("Should not credit a cleanup twice or from other accounts", async function () {
+      const { impactProductNft, owner, user1, user2 } = await loadFixture(deployImpactProductNFTFixture);
+
+      await impactProductNft.write.creditCleanup([user1.account.address, 1n], {
+        account: owner.account,
+      });
+      await expectRevert(
+        impactProductNft.simulate.creditCleanup([user2.account.address, 1n], {
+          account: owner.account,
+        }),
+        "Cleanup already credited"
+      );
+      await expectRevert(
+        impactProductNft.simulate.creditCleanup([user1.account.address, 2n], {
+          account: user1.account,
+        }),
+        "Only owner or Submission contract can credit cleanups"
+      );
+    });
+
+    it("Should backfill credits, marking held levels as claimed", async function () {
+      const { impactProductNft, owner, user1 } = await loadFixture(deployImpactProductNFTFixture);
+
+      // Minted before credits existed
+      await impactProductNft.write.mint([user1.account.address], {
+        account: owner.account,
+      });
+      await impactProductNft.write.backfillCleanupCredits([user1.account.address, [0n, 4n]], {
+        account: owner.account,
+      });
+
+      expect(await impactProductNft.read.cleanupClaimLevel([0n])).to.equal(1n);
+      expect(await impactProductNft.read.availableCleanupCredits([user1.account.address])).to.equal(1n);
+
+      await impactProductNft.write.upgradeNFT([0n], { account: user1.account });
+      expect(await impactProductNft.read.cleanupClaimLevel([4n])).to.equal(2n);
+    });
+  });
+
+  describe("Multi-level Claims", function () {
+    async function creditCleanups(impactProductNft: any, owner: any, user: any, submissionIds: bigint[]) {
+      for (const submissionId of submissionIds) {
+        await impactProductNft.write.creditCleanup([user.account.address, submissionId], {
+          account: owner.account,
+        });
+      }
+    }
+
+    it("Should mint and upgrade through every claimed level", async function () {
+      const { impactProductNft, dcuRewardManager, owner, user1 } =
+        await loadFixture(deployImpactProductNFTFixture);
+      await creditCleanups(impactProductNft, owner, user1, [1n, 2n, 3n]);
+
+      expect(await impactProductNft.read.claimableLevels([user1.account.address])).to.equal(3n);
+      await impactProductNft.write.claimLevels([3n], { account: user1.account });
+
+      expect(await impactProductNft.read.userLevel([user1.account.address])).to.equal(3n);
+      expect(await impactProductNft.read.nftLevel([0n])).to.equal(3n);
+      expect(await impactProductNft.read.cleanupClaimLevel([3n])).to.equal(3n);
+      expect(await impactProductNft.read.claimableLevels([user1.account.address])).to.equal(0n);
+
+      // One level reward per claimed level
+      for (const level of [1n, 2n, 3n]) {
+        expect(
+          await dcuRewardManager.read.impactProductClaimed([user1.account.address, level])
+        ).to.equal(true);
+      }
+
+      const [event] = await impactProductNft.getEvents.LevelsClaimed();
+      expect(event.args.fromLevel).to.equal(0n);
+      expect(event.args.toLevel).to.equal(3n);
+    });
+
+    it("Should upgrade an existing NFT by several levels for one fee per level", async function () {
+      const { impactProductNft, owner, user1 } = await loadFixture(deployImpactProductNFTFixture);
+      const fee = 1000n;
+      await impactProductNft.write.setClaimFee([fee], { account: owner.account });
+      await impactProductNft.write.setFeeEnabled([true], { account: owner.account });
+      await creditCleanups(impactProductNft, owner, user1, [4n, 5n, 6n]);
+      await impactProductNft.write.safeMint({ account: user1.account, value: fee });
+
+      await expectRevert(
+        impactProductNft.simulate.claimLevels([2n], { account: user1.account, value: fee }),
+        "Insufficient claim fee"
+      );
+      await impactProductNft.write.claimLevels([2n], { account: user1.account, value: 2n * fee });
+
+      expect(await impactProductNft.read.userLevel([user1.account.address])).to.equal(3n);
+      expect(await impactProductNft.read.cleanupClaimLevel([6n])).to.equal(3n);
+      expect(await impactProductNft.read.totalFeesCollected()).to.equal(3n * fee);
+    });
+
+    it("Should not claim more levels than approved cleanups", async function () {
+      const { impactProductNft, owner, user1 } = await loadFixture(deployImpactProductNFTFixture);
+      await creditCleanups(impactProductNft, owner, user1, [1n, 2n]);
+
+      await expectRevert(
+        impactProductNft.simulate.claimLevels([3n], { account: user1.account }),
+        "No approved cleanup to claim"
+      );
+    });
+  });
+
+  describe("Token Metadata", function () {
+    function decodeDataUri(uri: string, mimeType: string) {
+      const prefix = `data:${mimeType};base64,`;
+      expect(uri.startsWith(prefix)).to.equal(true);
+      return Buffer.from(uri.slice(prefix.length), "base64").toString("utf-8");
+    }
+
+    async function readMetadata(impactProductNft: any, tokenId: bigint) {
+      return JSON.parse(decodeDataUri(await impactProductNft.read.tokenURI([tokenId]), "application/json"));
+    }
+
+    const trait = (metadata: any, traitType: string) =>
+      metadata.attributes.find((attr: any) => attr.trait_type === traitType)?.value;
+
+    it("Should return full metadata with an on-chain SVG by default", async function () {
+      const { impactProductNft, owner, user1 } = await loadFixture(deployImpactProductNFTFixture);
+      for (const submissionId of [1n, 2n, 3n]) {
+        await impactProductNft.write.creditCleanup([user1.account.address, submissionId], {
+          account: owner.account,
+        });
+      }
+      await impactProductNft.write.claimLevels([2n], { account: user1.account });
+
+      const metadata = await readMetadata(impactProductNft, 0n);
+      expect(metadata.name).to.equal("DeCleanup Impact Product • Level 2");
+      expect(metadata.external_url).to.equal("https://decleanup.network");
+      expect(metadata.animation_url).to.equal(undefined);
+      expect(trait(metadata, "Type")).to.equal("Dynamic");
+      expect(trait(metadata, "Impact")).to.equal("Environment");
+      expect(trait(metadata, "Category")).to.equal("Cleanup NFT");
+      expect(trait(metadata, "Rarity")).to.equal("Unique");
+      expect(trait(metadata, "Level")).to.equal("Newbie");
+      expect(trait(metadata, "Level Number")).to.equal(2);
+      // Credited cleanups count, claimed or not
+      expect(trait(metadata, "Cleanups Completed")).to.equal(3);
+
+      const svg = decodeDataUri(metadata.image, "image/svg+xml");
+      expect(svg).to.include(">2</text>");
+      expect(svg).to.include(">Newbie</text>");
+      expect(svg).to.include(">3 cleanups</text>");
+    });
+
+    it("Should use the level artwork once set", async function () {
+      const { impactProductNft, owner, user1 } = await loadFixture(deployImpactProductNFTFixture);
+      await impactProductNft.write.setLevelMedia([1n, "bafyimages/IP1.png", "bafyimages/IP1.mp4"], {
+        account: owner.account,
+      });
+      // Minted before credits existed: the level counts as one cleanup
+      await impactProductNft.write.mint([user1.account.address], { account: owner.account });
+
+      const metadata = await readMetadata(impactProductNft, 0n);
+      expect(metadata.image).to.equal("ipfs://bafyimages/IP1.png");
+      expect(metadata.animation_url).to.equal("ipfs://bafyimages/IP1.mp4");
+      expect(trait(metadata, "Cleanups Completed")).to.equal(1);
+
+      // Cleared again: back to the on-chain SVG
+      await impactProductNft.write.setLevelMedia([1n, "", ""], { account: owner.account });
+      const cleared = await readMetadata(impactProductNft, 0n);
+      expect(decodeDataUri(cleared.image, "image/svg+xml")).to.include(">1 cleanup</text>");
+    });
+
+    it("Should only let the owner set level artwork", async function () {
+      const { impactProductNft, owner, user1 } = await loadFixture(deployImpactProductNFTFixture);
+
+      await expectRevert(
+        impactProductNft.simulate.setLevelMedia([1n, "bafyimages/IP1.png", ""], { account: user1.account }),
+        "OwnableUnauthorizedAccount"
+      );
+      await expectRevert(
+        impactProductNft.simulate.setLevelMedia([11n, "bafyimages/IP11.png", ""], { account: owner.account }),
+        "Invalid level range"
+      );
+    });
+  });
 });
@@ -6,6 +6,7 @@ const { expect } = chai;
 import hre from "hardhat";
 import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
 import { parseEther, zeroAddress } from "viem";
+import { expectRevert } from "./helpers/setup";
 
 describe("Submission", function () {
   async function deployFixture() {
@@ -202,7 +203,7 @@ describe("Submission", function () {
         account: user.account,
       });
 
-      await submission.write.rejectSubmission([0n], {
+      await submission.write.rejectSubmission([0n, 1, ""], {
         account: admin.account, // VERIFIER
       });
 
@@ -211,6 +212,382 @@ describe("Submission", function () {
       ]);
       expect(claimable).to.equal(0n);
     });
+
+    it("Should record the rejection reason and note", async function () {
+      const { submission, user, admin } = await loadFixture(deployFixture);
+
+      await submission.write.createSubmission(buildArgs(), {
+        account: user.account,
+      });
+
+      await submission.write.rejectSubmission([0n, 2, "bafkreinote"], {
+        account: admin.account,
+      });
+
+      const details = await submission.read.getSubmissionDetails([0n]);
+      expect(details.rejectionReason).to.equal(2); // LocationMismatch
+      expect(details.rejectionNoteCID).to.equal("bafkreinote");
+
+      const [event] = await submission.getEvents.SubmissionRejectionReason();
+      expect(event.args).to.deep.include({ submissionId: 0n, reason: 2, noteCID: "bafkreinote" });
+    });
+
+    it("Should require a rejection reason", async function () {
+      const { submission, user, admin } = await loadFixture(deployFixture);
+
+      await submission.write.createSubmission(buildArgs(), {
+        account: user.account,
+      });
+
+      await expect(
+        submission.write.rejectSubmission([0n, 0, ""], { account: admin.account })
+      ).to.be.rejectedWith("SUBMISSION__InvalidRejectionReason");
+    });
+  });
+
+  describe("Batch Review", function () {
+    it("Should approve a batch and skip processed or unknown IDs", async function () {
+      const { submission, user, admin, publicClient } =
+        await loadFixture(deployFixture);
+
+      for (let i = 0; i < 3; i++) {
+        await submission.write.createSubmission(buildArgs(), {
+          account: user.account,
+        });
+      }
+      await submission.write.rejectSubmission([1n, 3, ""], {
+        account: admin.account,
+      });
+
+      const hash = await submission.write.approveSubmissions(
+        [[0n, 1n, 2n, 0n, 9n]],
+        { account: admin.account }
+      );
+      await publicClient.waitForTransactionReceipt({ hash });
+
+      const approved = await submission.getEvents.SubmissionApproved();
+      expect(approved.map((e) => e.args.submissionId)).to.deep.equal([0n, 2n]);
+
+      const skipped = await submission.getEvents.SubmissionSkipped();
+      expect(
+        skipped.map((e) => [e.args.submissionId, e.args.reason])
+      ).to.deep.equal([
+        [1n, 2], // AlreadyRejected
+        [0n, 1], // AlreadyApproved (duplicate in the batch)
+        [9n, 0], // NotFound
+      ]);
+
+      const details = await submission.read.getSubmissionDetails([2n]);
+      expect(details.status).to.equal(1);
+      expect(await submission.read.userCleanupCount([user.account.address])).to.equal(2n);
+    });
+
+    it("Should reject a batch and skip processed IDs", async function () {
+      const { submission, user, admin } = await loadFixture(deployFixture);
+
+      for (let i = 0; i < 2; i++) {
+        await submission.write.createSubmission(buildArgs(), {
+          account: user.account,
+        });
+      }
+      await submission.write.approveSubmission([0n], {
+        account: admin.account,
+      });
+
+      await submission.write.rejectSubmissions([[0n, 1n], 2, "bafkreinote"], {
+        account: admin.account,
+      });
+
+      expect((await submission.read.getSubmissionDetails([0n])).status).to.equal(1);
+      const rejected = await submission.read.getSubmissionDetails([1n]);
+      expect(rejected.status).to.equal(2);
+      expect(rejected.rejectionReason).to.equal(2);
+      expect(rejected.rejectionNoteCID).to.equal("bafkreinote");
+    });
+
+    it("Should restrict batches to verifiers and cap their size", async function () {
+      const { submission, user, admin } = await loadFixture(deployFixture);
+
+      await expect(
+        submission.write.approveSubmissions([[0n]], { account: user.account })
+      ).to.be.rejectedWith("AccessControl");
+
+      await expect(
+        submission.write.rejectSubmissions([[], 1, ""], { account: admin.account })
+      ).to.be.rejectedWith("SUBMISSION__InvalidBatchSize");
+
+      const tooMany = Array.from({ length: 51 }, (_, i) => BigInt(i));
+      await expect(
+        submission.write.approveSubmissions([tooMany], { account: admin.account })
+      ).to.be.rejectedWith("SUBMISSION__InvalidBatchSize");
+    });
+  });
+
+  describe("Fee Refunds", function () {
+    const fee = parseEther("0.01");
+
+    async function paidSubmissionsFixture() {
+      const fixture = await deployFixture();
+      const { submission, user, admin } = fixture;
+
+      await submission.write.updateSubmissionFee([fee, true], {
+        account: admin.account,
+      });
+      for (let i = 0; i < 3; i++) {
+        await submission.write.createSubmission(buildArgs(), {
+          account: user.account,
+          value: fee,
+        });
+      }
+      return fixture;
+    }
+
+    it("Should refund the fee of a rejected submission once", async function () {
+      const { submission, user, admin, publicClient } =
+        await loadFixture(paidSubmissionsFixture);
+
+      await submission.write.rejectSubmission([0n, 1, ""], {
+        account: admin.account,
+      });
+      expect(await submission.read.isFeeRefundable([0n])).to.equal(true);
+
+      const before = await publicClient.getBalance({ address: user.account.address });
+      await submission.write.refundSubmissionFee([0n], { account: admin.account });
+      const after = await publicClient.getBalance({ address: user.account.address });
+
+      expect(after - before).to.equal(fee);
+      expect((await submission.read.getSubmissionDetails([0n])).feeRefunded).to.equal(true);
+      expect(await submission.read.totalFeesRefunded()).to.equal(fee);
+
+      const [event] = await submission.getEvents.SubmissionFeeRefunded();
+      expect(event.args).to.deep.include({ submissionId: 0n, amount: fee });
+
+      await expect(
+        submission.write.refundSubmissionFee([0n], { account: admin.account })
+      ).to.be.rejectedWith("SUBMISSION__NothingToRefund");
+    });
+
+    it("Should not refund pending or approved submissions", async function () {
+      const { submission, user, admin } = await loadFixture(paidSubmissionsFixture);
+
+      await submission.write.approveSubmission([1n], { account: admin.account });
+
+      await expect(
+        submission.write.refundSubmissionFee([0n], { account: admin.account })
+      ).to.be.rejectedWith("SUBMISSION__SubmissionNotProcessed");
+      await expect(
+        submission.write.refundSubmissionFee([1n], { account: admin.account })
+      ).to.be.rejectedWith("SUBMISSION__CannotRefundApprovedSubmission");
+      await expect(
+        submission.write.refundSubmissionFee([0n], { account: user.account })
+      ).to.be.rejectedWith("SUBMISSION__Unauthorized");
+    });
+
+    it("Should refund a batch and skip submissions that aren't refundable", async function () {
+      const { submission, admin } = await loadFixture(paidSubmissionsFixture);
+
+      await submission.write.rejectSubmissions([[0n, 2n], 1, ""], {
+        account: admin.account,
+      });
+      await submission.write.refundSubmissionFee([2n], { account: admin.account });
+
+      await submission.write.refundSubmissionFees([[0n, 1n, 2n, 9n]], {
+        account: admin.account,
+      });
+
+      const refunds = await submission.getEvents.SubmissionFeeRefunded();
+      expect(refunds.map((e) => e.args.submissionId)).to.deep.equal([0n]);
+      expect(await submission.read.totalFeesRefunded()).to.equal(fee * 2n);
+    });
+
+    it("Should keep refunding a batch when a submitter rejects its refund", async function () {
+      const { submission, admin } = await loadFixture(paidSubmissionsFixture);
+
+      const rejecter = await hre.viem.deployContract("RevertingSubmitter");
+      await rejecter.write.submit([submission.address], { value: fee });
+
+      await submission.write.rejectSubmissions([[0n, 3n, 1n], 1, ""], {
+        account: admin.account,
+      });
+      await submission.write.refundSubmissionFees([[0n, 3n, 1n]], {
+        account: admin.account,
+      });
+
+      const refunds = await submission.getEvents.SubmissionFeeRefunded();
+      expect(refunds.map((e) => e.args.submissionId)).to.deep.equal([0n, 1n]);
+      const [failed] = await submission.getEvents.SubmissionFeeRefundFailed();
+      expect(failed.args).to.deep.include({ submissionId: 3n, amount: fee });
+
+      expect(await submission.read.isFeeRefundable([3n])).to.equal(true);
+      expect(await submission.read.totalFeesRefunded()).to.equal(fee * 2n);
+      await expect(
+        submission.write.refundSubmissionFee([3n], { account: admin.account })
+      ).to.be.rejected;
+    });
+
+    it("Should refund automatically on rejection when enabled", async function () {
+      const { submission, admin, user } = await loadFixture(paidSubmissionsFixture);
+
+      await expect(
+        submission.write.setAutoRefundOnReject([true], { account: user.account })
+      ).to.be.rejectedWith("AccessControl");
+      await submission.write.setAutoRefundOnReject([true], { account: admin.account });
+
+      await submission.write.rejectSubmissions([[0n, 1n], 4, ""], {
+        account: admin.account,
+      });
+
+      expect((await submission.read.getSubmissionDetails([0n])).feeRefunded).to.equal(true);
+      expect((await submission.read.getSubmissionDetails([1n])).feeRefunded).to.equal(true);
+      expect(await submission.read.isFeeRefundable([1n])).to.equal(false);
+      expect(await submission.read.totalFeesRefunded()).to.equal(fee * 2n);
+    });
+  });
+
+  describe("Withdrawal", function () {
+    it("Should let the submitter withdraw a pending submission and refund its fee", async function () {
+      const { submission, user, admin, publicClient } = await loadFixture(deployFixture);
+      const fee = parseEther("0.01");
+
+      await submission.write.updateSubmissionFee([fee, true], {
+        account: admin.account,
+      });
+      await submission.write.createSubmission(buildArgs(), {
+        account: user.account,
+        value: fee,
+      });
+
+      const before = await publicClient.getBalance({ address: user.account.address });
+      const hash = await submission.write.withdrawSubmission([0n], {
+        account: user.account,
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const after = await publicClient.getBalance({ address: user.account.address });
+
+      expect(after - before + receipt.gasUsed * receipt.effectiveGasPrice).to.equal(fee);
+      const details = await submission.read.getSubmissionDetails([0n]);
+      expect(details.status).to.equal(3); // Withdrawn
+      expect(details.feeRefunded).to.equal(true);
+
+      const [event] = await submission.getEvents.SubmissionWithdrawn();
+      expect(event.args.submissionId).to.equal(0n);
+
+      await expect(
+        submission.write.withdrawSubmission([0n], { account: user.account })
+      ).to.be.rejectedWith("SUBMISSION__AlreadyWithdrawn");
+    });
+
+    it("Should only withdraw own pending submissions", async function () {
+      const { submission, user, admin } = await loadFixture(deployFixture);
+
+      for (let i = 0; i < 2; i++) {
+        await submission.write.createSubmission(buildArgs(), {
+          account: user.account,
+        });
+      }
+      await submission.write.approveSubmission([1n], { account: admin.account });
+
+      await expect(
+        submission.write.withdrawSubmission([0n], { account: admin.account })
+      ).to.be.rejectedWith("SUBMISSION__Unauthorized");
+      await expect(
+        submission.write.withdrawSubmission([1n], { account: user.account })
+      ).to.be.rejectedWith("SUBMISSION__AlreadyApproved");
+    });
+
+    it("Should keep withdrawn submissions out of reviews", async function () {
+      const { submission, user, admin } = await loadFixture(deployFixture);
+
+      await submission.write.createSubmission(buildArgs(), {
+        account: user.account,
+      });
+      await submission.write.withdrawSubmission([0n], { account: user.account });
+
+      await expect(
+        submission.write.approveSubmission([0n], { account: admin.account })
+      ).to.be.rejectedWith("SUBMISSION__AlreadyWithdrawn");
+
+      await submission.write.rejectSubmissions([[0n], 1, ""], { account: admin.account });
+      const [skipped] = await submission.getEvents.SubmissionSkipped();
+      expect(skipped.args.reason).to.equal(3); // AlreadyWithdrawn
+      expect((await submission.read.getSubmissionDetails([0n])).status).to.equal(3);
+    });
+  });
+
+  describe("Impact Product Credits", function () {
+    async function deployWithImpactProductFixture() {
+      const base = await deployFixture();
+      const { owner, rewardManager, submission } = base;
+
+      const impactProduct = await hre.viem.deployContract("ImpactProductNFT", [
+        rewardManager.address,
+      ]);
+      await impactProduct.write.setSubmissionContract([submission.address], {
+        account: owner.account,
+      });
+      await submission.write.setImpactProductNFT([impactProduct.address], {
+        account: owner.account,
+      });
+
+      return { ...base, impactProduct };
+    }
+
+    it("Should credit one level per approved cleanup", async function () {
+      const { submission, impactProduct, user, admin } =
+        await loadFixture(deployWithImpactProductFixture);
+
+      for (let i = 0; i < 2; i++) {
+        await submission.write.createSubmission(buildArgs(), {
+          account: user.account,
+        });
+      }
+      await submission.write.approveSubmission([1n], { account: admin.account });
+
+      expect(await impactProduct.read.cleanupCredited([1n])).to.equal(true);
+      expect(await impactProduct.read.cleanupCredited([0n])).to.equal(false);
+      expect(
+        await impactProduct.read.availableCleanupCredits([user.account.address])
+      ).to.equal(1n);
+
+      await impactProduct.write.safeMint({ account: user.account });
+      expect(await impactProduct.read.cleanupClaimLevel([1n])).to.equal(1n);
+
+      // POI-verified, but no approved cleanup left for level 2
+      await expectRevert(
+        impactProduct.simulate.upgradeNFT([0n], { account: user.account }),
+        "No approved cleanup to claim"
+      );
+
+      await submission.write.approveSubmission([0n], { account: admin.account });
+      await impactProduct.write.upgradeNFT([0n], { account: user.account });
+
+      expect(await impactProduct.read.cleanupClaimLevel([0n])).to.equal(2n);
+      expect(await impactProduct.read.userLevel([user.account.address])).to.equal(2n);
+      const [submissionIds, consumed] = await impactProduct.read.getCleanupCredits([
+        user.account.address,
+      ]);
+      expect(submissionIds).to.deep.equal([1n, 0n]);
+      expect(consumed).to.equal(2n);
+    });
+
+    it("Should still approve when the credit fails", async function () {
+      const { submission, impactProduct, user, admin } =
+        await loadFixture(deployWithImpactProductFixture);
+
+      await submission.write.createSubmission(buildArgs(), {
+        account: user.account,
+      });
+      // Submission not allowed to credit anymore
+      await impactProduct.write.setSubmissionContract([admin.account.address]);
+      await submission.write.approveSubmission([0n], { account: admin.account });
+
+      expect((await submission.read.getSubmissionDetails([0n])).status).to.equal(1);
+      const [failed] = await submission.getEvents.ImpactProductCreditFailed();
+      expect(failed.args.submissionId).to.equal(0n);
+      expect(
+        await impactProduct.read.availableCleanupCredits([user.account.address])
+      ).to.equal(0n);
+    });
   });
 
   describe("Configuration", function () {
@@ -20,6 +20,7 @@ export const ImpactProductNFTErrorMap: ErrorMessageMap = {
   NFT__InvalidLevelRange: "Invalid impact level range",
   NFT__UserHasNoNFT: "User has no NFT",
   NFT__TransferNotAuthorized: "Transfer not authorized",
+  NFT__NoCleanupCredit: "No approved cleanup to claim",
 };
 
 export const RewardManagerErrorMap: ErrorMessageMap = {
@@ -22,16 +22,22 @@ jest.mock('next/navigation', () => ({
   },
 }))
 
-// Mock window.ethereum for wallet tests
-Object.defineProperty(window, 'ethereum', {
-  value: {
-    isMetaMask: true,
-    request: jest.fn(),
-    on: jest.fn(),
-    removeListener: jest.fn(),
-  },
-  writable: true,
-})
+// Mock window.ethereum for wallet tests (API route tests run in the node environment)
+if (typeof window !== 'undefined') {
+  Object.defineProperty(window, 'ethereum', {
+    value: {
+      isMetaMask: true,
+      request: jest.fn(),
+      on: jest.fn(),
+      removeListener: jest.fn(),
+    },
+    writable: true,
+  })
+}
+
+// jsdom does not provide TextEncoder/TextDecoder, which viem's encoding utils need
+import { TextEncoder, TextDecoder } from 'util'
+Object.assign(global, { TextEncoder, TextDecoder })
 
 // Mock fetch globally
 global.fetch = jest.fn()
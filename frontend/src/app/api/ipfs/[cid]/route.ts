@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorageProvider, isCid, storageErrorResponse, StorageError } from '@/lib/storage'
+
+/**
+ * API Route serving files from the configured storage provider, for backends
+ * without a public gateway (the local store and self-hosted Kubo nodes)
+ */
+export async function GET(_request: NextRequest, { params }: { params: { cid: string } }) {
+  const cid = params.cid
+
+  if (!isCid(cid)) {
+    return NextResponse.json({ error: 'Invalid CID' }, { status: 400 })
+  }
+
+  try {
+    const provider = getStorageProvider()
+    if (!provider.read) {
+      return NextResponse.json(
+        { error: `The ${provider.name} storage provider is served through its IPFS gateway` },
+        { status: 404 }
+      )
+    }
+
+    const file = await provider.read(cid)
+    if (!file) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    // Content addressed: the response for a CID never changes
+    return new NextResponse(Buffer.from(file.bytes), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Length': String(file.bytes.byteLength),
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        ETag: `"${cid}"`,
+      },
+    })
+  } catch (error: any) {
+    if (error instanceof StorageError) {
+      return storageErrorResponse(error)
+    }
+    console.error('IPFS read API error:', error)
+    return NextResponse.json({ error: error?.message || 'Failed to read from IPFS' }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  consumeTokenQuota,
+  getClientIp,
+  issueUploadToken,
+  storageErrorResponse,
+  StorageError,
+  verifyUploadSignature,
+} from '@/lib/storage'
+
+/**
+ * API Route exchanging a wallet signature of the upload authorization message
+ * for a short-lived upload token (see lib/storage/upload-tokens)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await consumeTokenQuota(getClientIp(request))
+
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      throw new StorageError('Invalid upload authorization request.', 400, { code: 'INVALID_SIGNATURE' })
+    }
+
+    const address = await verifyUploadSignature(body)
+    return NextResponse.json(issueUploadToken(address))
+  } catch (error: any) {
+    if (error instanceof StorageError) {
+      return storageErrorResponse(error)
+    }
+    console.error('IPFS token API error:', error)
+    return NextResponse.json({ error: 'Failed to authorize uploads', code: 'STORAGE_ERROR' }, { status: 500 })
+  }
+}
@@ -1,159 +1,102 @@
 import { NextRequest, NextResponse } from 'next/server'
+import {
+  consumeUploadQuota,
+  getClientIp,
+  getStorageProvider,
+  parseUploadKind,
+  storageErrorResponse,
+  StorageError,
+  validateUpload,
+  verifyUploadToken,
+} from '@/lib/storage'
 
 /**
- * API Route to proxy IPFS uploads to Pinata
+ * API Route to upload files to IPFS through the configured storage provider
+ * (Pinata, a Kubo node or the local store, see lib/storage)
  * This avoids CORS issues and keeps API keys server-side
+ *
+ * Requests need an upload token (Authorization: Bearer, from /api/ipfs/token),
+ * a file within the limits of its `kind`, and room in the wallet's and IP's quota.
  */
-export async function POST(request: NextRequest) {
-  try {
-    // Get API keys from server-side environment variables (not NEXT_PUBLIC_*)
-    // Support multiple naming conventions for backwards compatibility
-    const pinataApiKey = 
-      process.env.PINATA_API_KEY || 
-      process.env.NEXT_PUBLIC_PINATA_API_KEY
-    const pinataSecretKey = 
-      process.env.PINATA_SECRET_KEY || 
-      process.env.PINATA_SECRET_API_KEY ||
-      process.env.NEXT_PUBLIC_PINATA_SECRET_KEY ||
-      process.env.NEXT_PUBLIC_PINATA_SECRET_API_KEY
 
-    if (!pinataApiKey || !pinataSecretKey) {
-      console.error('Pinata API keys missing. Checked:', {
-        PINATA_API_KEY: !!process.env.PINATA_API_KEY,
-        NEXT_PUBLIC_PINATA_API_KEY: !!process.env.NEXT_PUBLIC_PINATA_API_KEY,
-        PINATA_SECRET_KEY: !!process.env.PINATA_SECRET_KEY,
-        PINATA_SECRET_API_KEY: !!process.env.PINATA_SECRET_API_KEY,
-        NEXT_PUBLIC_PINATA_SECRET_KEY: !!process.env.NEXT_PUBLIC_PINATA_SECRET_KEY,
-        NEXT_PUBLIC_PINATA_SECRET_API_KEY: !!process.env.NEXT_PUBLIC_PINATA_SECRET_API_KEY,
-      })
-      return NextResponse.json(
-        { 
-          error: 'Pinata API keys not configured. Please set PINATA_API_KEY and PINATA_SECRET_KEY in your .env.local file. See ENV_TEMPLATE.md for details.' 
-        },
-        { status: 500 }
-      )
+interface UploadMetadata {
+  name: string
+  keyvalues: Record<string, string>
+}
+
+function defaultMetadata(file: File): UploadMetadata {
+  return {
+    name: file.name,
+    keyvalues: {
+      type: 'cleanup-photo',
+      timestamp: new Date().toISOString(),
+    },
+  }
+}
+
+function parseMetadata(metadataStr: string | null, file: File): UploadMetadata {
+  if (!metadataStr) return defaultMetadata(file)
+  try {
+    const metadata = JSON.parse(metadataStr)
+    return {
+      name: typeof metadata.name === 'string' ? metadata.name : file.name,
+      keyvalues: metadata.keyvalues && typeof metadata.keyvalues === 'object' ? metadata.keyvalues : {},
     }
+  } catch (e) {
+    // If metadata is invalid JSON, use default metadata
+    return defaultMetadata(file)
+  }
+}
+
+function parseCidVersion(optionsStr: string | null): 0 | 1 {
+  if (!optionsStr) return 1
+  try {
+    return JSON.parse(optionsStr).cidVersion === 0 ? 0 : 1
+  } catch (e) {
+    return 1
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const provider = getStorageProvider()
+    const address = verifyUploadToken(request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') || null)
 
     // Get the form data from the request
     const formData = await request.formData()
-    const file = formData.get('file') as File
+    const uploaded = formData.get('file')
     const metadataStr = formData.get('metadata') as string | null
     const optionsStr = formData.get('options') as string | null
 
-    if (!file) {
-      return NextResponse.json(
-        { error: 'No file provided' },
-        { status: 400 }
-      )
-    }
-
-    // Create new FormData for Pinata
-    const pinataFormData = new FormData()
-    pinataFormData.append('file', file)
-
-    // Parse and add metadata if provided
-    if (metadataStr) {
-      try {
-        const metadata = JSON.parse(metadataStr)
-        pinataFormData.append('pinataMetadata', JSON.stringify(metadata))
-      } catch (e) {
-        // If metadata is invalid JSON, create default metadata
-        const defaultMetadata = {
-          name: file.name,
-          keyvalues: {
-            type: 'cleanup-photo',
-            timestamp: new Date().toISOString(),
-          },
-        }
-        pinataFormData.append('pinataMetadata', JSON.stringify(defaultMetadata))
-      }
-    } else {
-      // Default metadata if not provided
-      const defaultMetadata = {
-        name: file.name,
-        keyvalues: {
-          type: 'cleanup-photo',
-          timestamp: new Date().toISOString(),
-        },
-      }
-      pinataFormData.append('pinataMetadata', JSON.stringify(defaultMetadata))
+    if (!uploaded || typeof uploaded === 'string') {
+      throw new StorageError('No file provided', 400, { code: 'NO_FILE' })
     }
 
-    // Parse and add options if provided
-    if (optionsStr) {
-      try {
-        const options = JSON.parse(optionsStr)
-        pinataFormData.append('pinataOptions', JSON.stringify(options))
-      } catch (e) {
-        // Default options if invalid
-        const defaultOptions = {
-          cidVersion: 1,
-          wrapWithDirectory: false,
-        }
-        pinataFormData.append('pinataOptions', JSON.stringify(defaultOptions))
-      }
-    } else {
-      // Default options
-      const defaultOptions = {
-        cidVersion: 1,
-        wrapWithDirectory: false,
-      }
-      pinataFormData.append('pinataOptions', JSON.stringify(defaultOptions))
-    }
+    const file = await validateUpload(uploaded, parseUploadKind(formData.get('kind')))
+    await consumeUploadQuota({ address, ip: getClientIp(request), bytes: file.size })
 
-    // Upload to Pinata via server (no CORS issues)
-    const response = await fetch('https://api.pinata.cloud/pinning/pinFileToIPFS', {
-      method: 'POST',
-      headers: {
-        pinata_api_key: pinataApiKey,
-        pinata_secret_api_key: pinataSecretKey,
-      },
-      body: pinataFormData,
+    const metadata = parseMetadata(metadataStr, file)
+    const hash = await provider.upload({
+      file,
+      name: metadata.name,
+      keyvalues: metadata.keyvalues,
+      cidVersion: parseCidVersion(optionsStr),
     })
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}))
-      console.error('Pinata upload error:', errorData)
-      return NextResponse.json(
-        { error: errorData.error?.reason || response.statusText || 'Failed to upload to IPFS' },
-        { status: response.status || 500 }
-      )
-    }
-
-    const data = await response.json()
-    const ipfsHash = data.IpfsHash || data.hash || data.cid
-
-    if (!ipfsHash) {
-      return NextResponse.json(
-        { error: 'No IPFS hash returned from Pinata' },
-        { status: 500 }
-      )
-    }
-
-    // Construct IPFS URL
-    const gateway = process.env.NEXT_PUBLIC_IPFS_GATEWAY || 'https://ipfs.io/ipfs/'
-    const ipfsUrl = `${gateway}${ipfsHash}`
-
     return NextResponse.json({
-      hash: ipfsHash,
-      url: ipfsUrl,
+      hash,
+      url: provider.gatewayUrl(hash),
     })
   } catch (error: any) {
-    console.error('IPFS upload API error:', error)
-    const errorMessage = error?.message || 'Failed to upload to IPFS'
-    
-    // Provide more helpful error messages
-    let userMessage = errorMessage
-    if (errorMessage.includes('fetch failed') || errorMessage.includes('Network')) {
-      userMessage = 'Network error: Could not connect to Pinata. Please check your internet connection and try again.'
-    } else if (errorMessage.includes('API keys')) {
-      userMessage = 'Pinata API keys not configured. Please set PINATA_API_KEY and PINATA_SECRET_KEY in your .env.local file.'
+    if (error instanceof StorageError) {
+      console.error('IPFS storage error:', error.message)
+      return storageErrorResponse(error)
     }
-    
+
+    console.error('IPFS upload API error:', error)
     return NextResponse.json(
-      { error: userMessage },
+      { error: error?.message || 'Failed to upload to IPFS', code: 'STORAGE_ERROR' },
       { status: 500 }
     )
   }
 }
-
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authErrorResponse, requireVerifierSession, VerifierAuthError } from '@/lib/auth'
+import {
+  claimErrorResponse,
+  claimSubmission,
+  listReviewClaims,
+  releaseReviewClaim,
+  ReviewClaimError,
+} from '@/lib/review-claims'
+
+/**
+ * API Route for review claims
+ *
+ * GET lists the active claims, POST `{ submissionId }` claims (or renews) a
+ * submission for the signed-in verifier and DELETE `?submissionId=` releases
+ * it. Every method needs a verifier session.
+ */
+
+function handleError(error: any, action: string): NextResponse {
+  if (error instanceof VerifierAuthError) return authErrorResponse(error)
+  if (error instanceof ReviewClaimError) return claimErrorResponse(error)
+  console.error(`Review claims API error (${action}):`, error)
+  return NextResponse.json({ error: `Failed to ${action}`, code: 'CLAIMS_ERROR' }, { status: 500 })
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireVerifierSession(request)
+    const claims = await listReviewClaims()
+    return NextResponse.json({ claims }, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    return handleError(error, 'list review claims')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireVerifierSession(request)
+    const body = await request.json().catch(() => null)
+    const claim = await claimSubmission(body?.submissionId, session.address)
+    return NextResponse.json(claim)
+  } catch (error) {
+    return handleError(error, 'claim the submission')
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await requireVerifierSession(request)
+    await releaseReviewClaim(request.nextUrl.searchParams.get('submissionId'), session.address)
+    return NextResponse.json({ released: true })
+  } catch (error) {
+    return handleError(error, 'release the submission')
+  }
+}
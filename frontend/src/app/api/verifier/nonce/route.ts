@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { authErrorResponse, issueSiweNonce, setNonceCookie, VerifierAuthError } from '@/lib/auth'
+
+/**
+ * API Route issuing a Sign-In With Ethereum nonce for verifier sign-in
+ * The nonce is also set in an HTTP-only cookie, which /api/verifier/session
+ * checks the signed message against.
+ */
+export async function GET() {
+  try {
+    const { nonce, cookie, expiresAt } = issueSiweNonce()
+    const response = NextResponse.json({ nonce, expiresAt }, { headers: { 'Cache-Control': 'no-store' } })
+    setNonceCookie(response, cookie)
+    return response
+  } catch (error: any) {
+    if (error instanceof VerifierAuthError) {
+      return authErrorResponse(error)
+    }
+    console.error('Verifier nonce API error:', error)
+    return NextResponse.json({ error: 'Failed to start sign-in', code: 'AUTH_ERROR' }, { status: 500 })
+  }
+}
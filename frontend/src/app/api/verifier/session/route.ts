@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  authErrorResponse,
+  clearSessionCookie,
+  requireVerifierSession,
+  setSessionCookie,
+  signInVerifier,
+  SIWE_NONCE_COOKIE,
+  VerifierAuthError,
+} from '@/lib/auth'
+
+/**
+ * API Route for verifier sessions
+ *
+ * POST exchanges a signed SIWE message (`{ message, signature }`) for an
+ * HTTP-only session cookie, GET returns the current session and DELETE signs
+ * out. Messages must be bound to VERIFIER_SIWE_DOMAIN, or to the request's host
+ * when it is not set.
+ */
+
+function handleError(error: any, action: string): NextResponse {
+  if (error instanceof VerifierAuthError) {
+    const response = authErrorResponse(error)
+    // A session that no longer grants access is dropped
+    if (error.status === 401 || error.status === 403) clearSessionCookie(response)
+    return response
+  }
+  console.error(`Verifier session API error (${action}):`, error)
+  return NextResponse.json({ error: `Failed to ${action}`, code: 'AUTH_ERROR' }, { status: 500 })
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireVerifierSession(request)
+    return NextResponse.json(session, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    return handleError(error, 'check the verifier session')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const { session, cookie } = await signInVerifier(
+      { message: body?.message, signature: body?.signature },
+      {
+        nonceCookie: request.cookies.get(SIWE_NONCE_COOKIE)?.value,
+        domain: process.env.VERIFIER_SIWE_DOMAIN || request.nextUrl.host,
+      }
+    )
+    const response = NextResponse.json(session)
+    setSessionCookie(response, cookie)
+    return response
+  } catch (error) {
+    return handleError(error, 'sign in')
+  }
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ signedOut: true })
+  clearSessionCookie(response)
+  return response
+}
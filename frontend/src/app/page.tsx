@@ -13,10 +13,11 @@ import { getCrecyBalance } from '@/lib/utils/crecy-tracking'
 import { ChevronDown, ChevronUp } from 'lucide-react'
 import { CONTRACT_ADDRESSES } from '@/lib/blockchain/wagmi'
 import { DashboardImpactProduct } from '@/components/dashboard/DashboardImpactProduct'
+import { fetchIPFSJSON, getIPFSUrl } from '@/lib/blockchain/ipfs'
 import { useIsVerifier } from '@/hooks/useIsVerifier'
 import { mintHypercert } from '@/lib/blockchain/hypercerts-minting'
 import { DashboardActions } from '@/components/dashboard/DashboardActions'
-import { markCleanupAsClaimed, clearPendingCleanup } from '@/lib/blockchain/verification'
+import { clearPendingCleanup } from '@/lib/blockchain/verification'
 import { resetCleanupState, resetAllCleanupState } from '@/lib/utils/reset-cleanup'
 import { generateReferralLink } from '@/lib/utils/sharing'
 import type { Address } from 'viem'
@@ -70,42 +71,9 @@ function HomeContent() {
         console.log('Cleanup state reset. Please refresh the page.')
         window.location.reload()
       }
-      // Helper to clear pre-fix cleanup (cleanup with rewarded=true but balance=0)
-      (window as any).clearPreFixCleanup = async (cleanupId?: string | number) => {
-        if (!cleanupId) {
-          console.error('Please provide cleanup ID: window.clearPreFixCleanup(3)')
-          return
-        }
-        try {
-          const { markCleanupAsClaimed, clearPendingCleanup } = await import('@/lib/blockchain/verification')
-          console.log(`[clearPreFixCleanup] Clearing pre-fix cleanup #${cleanupId} for ${address}`)
-          
-          // Mark as claimed to prevent it from showing again
-          markCleanupAsClaimed(address as Address, BigInt(cleanupId))
-          console.log(`[clearPreFixCleanup] Marked cleanup #${cleanupId} as claimed`)
-          
-          // Clear from pending cleanups
-          clearPendingCleanup(address as Address)
-          console.log(`[clearPreFixCleanup] Cleared pending cleanup`)
-          
-          // Also use resetCleanupState to ensure all related localStorage is cleared
-          resetCleanupState(address as Address, cleanupId.toString())
-          console.log(`[clearPreFixCleanup] Reset cleanup state`)
-          
-          console.log(`✅ Pre-fix cleanup #${cleanupId} cleared. Refreshing page...`)
-          window.location.reload()
-        } catch (error) {
-          console.error('[clearPreFixCleanup] Error:', error)
-          console.error('Falling back to manual reset...')
-          resetCleanupState(address as Address, cleanupId.toString())
-          window.location.reload()
-        }
-      }
       console.log('Reset functions available:')
       console.log('  window.resetCleanup(cleanupId?) - reset cleanup state')
-      console.log('  window.clearPreFixCleanup(cleanupId) - clear pre-fix cleanup (e.g., cleanup #3)')
       console.log('  Example: window.resetCleanup(3) - reset cleanup #3')
-      console.log('  Example: window.clearPreFixCleanup(3) - clear pre-fix cleanup #3')
     }
   }, [address])
   const chainId = useChainId()
@@ -115,6 +83,7 @@ function HomeContent() {
     canClaim: boolean
     cleanupId?: bigint
     level?: number
+    claimableLevels?: number
   } | null>(null)
   const [showEarnModal, setShowEarnModal] = useState(false)
   const [hypercertEligibility, setHypercertEligibility] = useState<{
@@ -463,91 +432,52 @@ function HomeContent() {
               tokenURI = await getTokenURIForLevel(level)
             }
 
-            const convertIPFSToGateway = (ipfsUrl: string) => {
-              if (!ipfsUrl.startsWith('ipfs://')) {
-                return ipfsUrl
-              }
-              let path = ipfsUrl.replace('ipfs://', '').replace(/\/+/g, '/')
-              if (path.startsWith('/')) path = path.substring(1)
-
-              const defaultGateways = [
-                process.env.NEXT_PUBLIC_IPFS_GATEWAY || 'https://gateway.pinata.cloud/ipfs/',
-                'https://ipfs.io/ipfs/',
-                'https://cloudflare-ipfs.com/ipfs/',
-                'https://dweb.link/ipfs/',
-              ]
-              return `${defaultGateways[0]}${path}`
-            }
+            const convertIPFSToGateway = (ipfsUrl: string) =>
+              ipfsUrl.startsWith('ipfs://') ? getIPFSUrl(ipfsUrl.replace('ipfs://', '').replace(/^\/+/, '')) : ipfsUrl
 
-            const fetchWithFallback = async (ipfsUrl: string): Promise<Response> => {
-              if (!ipfsUrl.startsWith('ipfs://')) {
-                return fetch(ipfsUrl)
+            const fetchMetadata = async (uri: string): Promise<ImpactMetadata> => {
+              if (uri.startsWith('ipfs://')) {
+                return fetchIPFSJSON<ImpactMetadata>(uri)
               }
-
-              const gateways = [
-                process.env.NEXT_PUBLIC_IPFS_GATEWAY || 'https://gateway.pinata.cloud/ipfs/',
-                'https://ipfs.io/ipfs/',
-                'https://cloudflare-ipfs.com/ipfs/',
-                'https://dweb.link/ipfs/',
-              ]
-
-              let path = ipfsUrl.replace('ipfs://', '').replace(/\/+/g, '/')
-              if (path.startsWith('/')) path = path.substring(1)
-
-              for (const gateway of gateways) {
-                try {
-                  const url = `${gateway}${path}`
-                  const response = await fetch(url, {
-                    method: 'GET',
-                    headers: { Accept: 'application/json' },
-                    redirect: 'follow',
-                  })
-                  if (response.ok) {
-                    return response
-                  }
-                } catch (error) {
-                  console.warn(`Gateway ${gateway} failed:`, error)
-                }
+              const response = await fetch(uri)
+              if (!response.ok) {
+                throw new Error(`Failed to fetch metadata: ${response.status} ${response.statusText}`)
               }
-
-              throw new Error(`All IPFS gateways failed for: ${ipfsUrl}`)
+              return (await response.json()) as ImpactMetadata
             }
 
             if (tokenURI) {
               try {
-                const metadataResponse = await fetchWithFallback(tokenURI)
-                if (metadataResponse.ok) {
-                  const metadata = (await metadataResponse.json()) as ImpactMetadata
-                  
-                  // Extract impact stats from metadata attributes
-                  const stats = extractImpactStats(metadata)
-                  impactValue = stats.impactValue
-                  dcuReward = stats.dcuReward
-
-                  if (metadata?.image) {
-                    let fixedImagePath = metadata.image
-                    const imagesCID =
-                      process.env.NEXT_PUBLIC_IMPACT_IMAGES_CID || 'bafybeifygxoux2l63muhba4j6gez3vlbe7enjnlkpjwfupylnkhgkqg54y'
-                    if (fixedImagePath.includes('/images/level')) {
-                      const levelMatch = fixedImagePath.match(/level(\d+)\.png/)
-                      if (levelMatch) {
-                        const levelNum = levelMatch[1]
-                        fixedImagePath =
-                          levelNum === '10'
-                            ? `ipfs://${imagesCID}/IP10Placeholder.png`
-                            : `ipfs://${imagesCID}/IP${levelNum}.png`
-                      }
+                const metadata = await fetchMetadata(tokenURI)
+                
+                // Extract impact stats from metadata attributes
+                const stats = extractImpactStats(metadata)
+                impactValue = stats.impactValue
+                dcuReward = stats.dcuReward
+
+                if (metadata?.image) {
+                  let fixedImagePath = metadata.image
+                  const imagesCID =
+                    process.env.NEXT_PUBLIC_IMPACT_IMAGES_CID || 'bafybeifygxoux2l63muhba4j6gez3vlbe7enjnlkpjwfupylnkhgkqg54y'
+                  if (fixedImagePath.includes('/images/level')) {
+                    const levelMatch = fixedImagePath.match(/level(\d+)\.png/)
+                    if (levelMatch) {
+                      const levelNum = levelMatch[1]
+                      fixedImagePath =
+                        levelNum === '10'
+                          ? `ipfs://${imagesCID}/IP10Placeholder.png`
+                          : `ipfs://${imagesCID}/IP${levelNum}.png`
                     }
-                    imageUrl = convertIPFSToGateway(fixedImagePath)
                   }
+                  imageUrl = convertIPFSToGateway(fixedImagePath)
+                }
 
-                  if (metadata?.animation_url) {
-                    let fixedAnimationPath = metadata.animation_url
-                    if (fixedAnimationPath.includes('/video/level10')) {
-                      fixedAnimationPath = `ipfs://${process.env.NEXT_PUBLIC_IMPACT_IMAGES_CID || 'bafybeifygxoux2l63muhba4j6gez3vlbe7enjnlkpjwfupylnkhgkqg54y'}/IP10VIdeo.mp4`
-                    }
-                    animationUrl = convertIPFSToGateway(fixedAnimationPath)
+                if (metadata?.animation_url) {
+                  let fixedAnimationPath = metadata.animation_url
+                  if (fixedAnimationPath.includes('/video/level10')) {
+                    fixedAnimationPath = `ipfs://${process.env.NEXT_PUBLIC_IMPACT_IMAGES_CID || 'bafybeifygxoux2l63muhba4j6gez3vlbe7enjnlkpjwfupylnkhgkqg54y'}/IP10VIdeo.mp4`
                   }
+                  animationUrl = convertIPFSToGateway(fixedAnimationPath)
                 }
               } catch (metadataError) {
                 console.error('Error fetching Impact Product metadata:', metadataError)
@@ -1080,22 +1010,12 @@ Clean up, prove impact, earn Impact Products, build reputation, and soon vote on
                     try {
                       setIsClaiming(true)
                   
-                      await claimImpactProductFromVerification(cleanupStatus.cleanupId)
-
-                      // Mark as claimed in localStorage IMMEDIATELY after successful claim
-                      if (address && cleanupStatus.cleanupId !== undefined && cleanupStatus.cleanupId !== null) {
-                        console.log('[Home] Marking cleanup as claimed:', cleanupStatus.cleanupId.toString())
-                        markCleanupAsClaimed(address as Address, cleanupStatus.cleanupId)
-                        // Verify it was marked
-                        const claimedKey = `claimed_cleanup_ids_${address.toLowerCase()}`
-                        const claimedIds = localStorage.getItem(claimedKey)
-                        console.log('[Home] Claimed cleanups after marking:', claimedIds)
-                        
-                        // Also clear pending cleanup from localStorage since it's now claimed
-                        const pendingKey = `pending_cleanup_id_${address.toLowerCase()}`
-                        localStorage.removeItem(pendingKey)
+                      await claimImpactProductFromVerification(cleanupStatus.cleanupId, cleanupStatus.claimableLevels)
+
+                      // The claim used the cleanup's credit on-chain; only the local pending state is left to clear
+                      if (address) {
+                        clearPendingCleanup(address as Address)
                         localStorage.removeItem(`pending_cleanup_location_${address.toLowerCase()}`)
-                        console.log('[Home] Cleared pending cleanup from localStorage')
                       }
 
                       alert(
@@ -1177,12 +1097,15 @@ Clean up, prove impact, earn Impact Products, build reputation, and soon vote on
                           // Update Impact Product if level changed
                           if (level > 0) {
                             try {
-                              const tokenURI = await getTokenURIForLevel(level)
+                              // The token's own metadata first: it carries the level artwork or the on-chain SVG
+                              const tokenURI = (tokenId !== null ? await getTokenURI(tokenId) : '') || (await getTokenURIForLevel(level))
                               const metadata = await fetch(tokenURI).then(r => r.json())
+                              const toGateway = (url?: string) =>
+                                url?.startsWith('ipfs://') ? getIPFSUrl(url.replace('ipfs://', '')) : url || ''
                               setImpactProduct({
                                 level,
-                                imageUrl: metadata.image || '',
-                                animationUrl: metadata.animation_url || '',
+                                imageUrl: toGateway(metadata.image),
+                                animationUrl: toGateway(metadata.animation_url),
                                 tokenId: tokenId || null,
                                 impactValue: metadata.attributes?.find((a: any) => a.trait_type === 'Impact Value')?.value || String(level),
                                 dcuReward: null,
@@ -0,0 +1,3 @@
+'use client'
+
+export { default } from '@/features/verifier/pages/stats-page'
@@ -0,0 +1,62 @@
+'use client'
+
+import { Loader2, X, XCircle } from 'lucide-react'
+import { useIPFSJSON } from '@/hooks/useIPFS'
+import { getRejectionReasonInfo, parseRejectionNote, type RejectionReason } from '@/lib/utils/rejection-reasons'
+
+interface RejectionNoticeProps {
+  cleanupId: bigint
+  reason?: RejectionReason
+  noteCID?: string
+  // Verifier views only need the reason and note, not the advice to the volunteer
+  showGuidance?: boolean
+  onDismiss?: () => void
+}
+
+/** Why a cleanup was rejected, the verifier's note and what to do differently next time. */
+export function RejectionNotice({ cleanupId, reason, noteCID, showGuidance = true, onDismiss }: RejectionNoticeProps) {
+  const { label, guidance } = getRejectionReasonInfo(reason)
+  const { data: note, loading, error } = useIPFSJSON(noteCID || null, { parse: parseRejectionNote })
+
+  return (
+    <div className="rounded-lg border border-red-500/50 bg-red-500/10 p-4 text-sm">
+      <div className="flex items-start gap-3">
+        <XCircle className="h-5 w-5 flex-shrink-0 text-red-400" />
+        <div className="flex-1 space-y-2">
+          <p className="font-semibold text-red-300">
+            Cleanup #{cleanupId.toString()} was rejected: {label}
+          </p>
+          {noteCID && (
+            <div className="rounded border border-red-500/30 bg-black/20 p-2 text-gray-300">
+              {loading ? (
+                <span className="flex items-center gap-2 text-xs text-gray-400">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Loading the verifier&apos;s note...
+                </span>
+              ) : note ? (
+                <>
+                  <span className="text-xs uppercase tracking-wide text-gray-500">Verifier&apos;s note</span>
+                  <p className="whitespace-pre-line">{note.message}</p>
+                </>
+              ) : (
+                <span className="text-xs text-gray-500">
+                  The verifier&apos;s note could not be loaded{error ? ` (${error})` : ''}.
+                </span>
+              )}
+            </div>
+          )}
+          {showGuidance && <p className="text-gray-300">{guidance}</p>}
+        </div>
+        {onDismiss && (
+          <button
+            onClick={onDismiss}
+            className="flex-shrink-0 text-gray-400 hover:text-white"
+            aria-label="Dismiss"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -14,6 +14,7 @@ interface DashboardActionsProps {
         canClaim: boolean
         cleanupId?: bigint
         level?: number
+        claimableLevels?: number
     } | null
     onClaim: () => Promise<void>
     isClaiming: boolean
@@ -60,6 +61,10 @@ export function DashboardActions({
     const canSubmit = !cleanupStatus?.hasPendingCleanup && !cleanupStatus?.canClaim
     const canClaimLevel = cleanupStatus?.canClaim && !isClaiming
     const isUnderVerification = cleanupStatus?.hasPendingCleanup && !cleanupStatus?.canClaim
+    // Cleanups approved while away are claimed together, one level each
+    const claimableLevels = Math.max(cleanupStatus?.claimableLevels ?? 1, 1)
+    const fromLevel = cleanupStatus?.level || 1
+    const toLevel = fromLevel + claimableLevels - 1
     
     // Debug logging - only log when there's something actionable or unexpected
     if (cleanupStatus?.canClaim) {
@@ -99,7 +104,9 @@ export function DashboardActions({
                     <div className="space-y-3" style={{ position: 'relative', zIndex: 10 }}>
                         <div className="rounded-lg border border-brand-yellow/30 bg-brand-yellow/10 p-3 sm:p-4">
                             <p className="text-sm sm:text-base text-brand-yellow">
-                                🎉 Your cleanup has been verified! You can now claim your Impact Product (Level {cleanupStatus.level || 1}).
+                                {claimableLevels > 1
+                                    ? `🎉 ${claimableLevels} of your cleanups have been verified! You can now claim Impact Product levels ${fromLevel}–${toLevel} in one transaction.`
+                                    : `🎉 Your cleanup has been verified! You can now claim your Impact Product (Level ${fromLevel}).`}
                             </p>
                         </div>
                         <button
@@ -137,7 +144,7 @@ export function DashboardActions({
                             ) : (
                                 <>
                                     <Award className="h-5 w-5" />
-                                    CLAIM LEVEL
+                                    {claimableLevels > 1 ? `CLAIM ${claimableLevels} LEVELS` : 'CLAIM LEVEL'}
                                 </>
                             )}
                         </button>
@@ -145,7 +152,7 @@ export function DashboardActions({
                         {claimFeeInfo && claimFeeInfo.enabled && claimFeeInfo.fee > 0n && (
                             <div className="mt-3">
                                 <FeeDisplay
-                                    feeAmount={claimFeeInfo.fee}
+                                    feeAmount={claimFeeInfo.fee * BigInt(claimableLevels)}
                                     feeSymbol="CELO"
                                     type="claim"
                                     className="mt-2"
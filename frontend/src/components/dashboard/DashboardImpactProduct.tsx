@@ -8,6 +8,7 @@ import { useAccount } from 'wagmi'
 import { getHypercertEligibility } from '@/lib/blockchain/contracts'
 import { getLevelName, getImpactProductImagePath, getImpactProductAnimationPath, getImpactProductIPFSImageUrl, getImpactProductIPFSAnimationUrl, CONSTANT_TRAITS, LEVEL_PROGRESSION } from '@/lib/utils/impact-product'
 import { getIPFSUrl } from '@/lib/blockchain/ipfs'
+import { useIPFSImage } from '@/hooks/useIPFS'
 
 interface ImpactProductProps {
     level: number
@@ -49,6 +50,9 @@ export function DashboardImpactProduct({
     
     // Always use IPFS if we have a CID, even if imageUrl prop is empty
     const imageUrlToUse = imageUrl || (level > 0 ? `${gateway}${imagesCID}/IP${level === 10 ? '10Placeholder' : level}.png` : null) || getImpactProductImagePath(level)
+    // Fetched through the gateway race; the bundled artwork stands in if no gateway serves it
+    const { src: imageSrc, loading: imageFetching, error: imageError } = useIPFSImage(imageUrlToUse)
+    const displayImageUrl = imageError ? getImpactProductImagePath(level) : imageSrc
     const animationUrlToUse = animationUrl || (level === 10 ? `${gateway}${imagesCID}/IP10VIdeo.mp4` : null) || (level === 10 ? getImpactProductAnimationPath() : null)
 
     useEffect(() => {
@@ -105,7 +109,7 @@ export function DashboardImpactProduct({
                 <div className="space-y-4 flex flex-col">
                     {/* NFT Display */}
                     <div className="w-full overflow-hidden rounded-xl border-2 border-brand-green/30 bg-gradient-to-br from-brand-green/5 to-black flex-shrink-0 flex items-center justify-center p-4 sm:p-6 aspect-[3/4] max-h-[500px] relative">
-                        {imageLoading && (
+                        {(imageLoading || imageFetching) && (
                             <div className="absolute inset-0 flex items-center justify-center">
                                 <div className="relative">
                                     <div className="h-16 w-16 border-4 border-brand-green/30 border-t-brand-green rounded-full animate-spin"></div>
@@ -125,9 +129,9 @@ export function DashboardImpactProduct({
                                     setImageLoading(false)
                                     // Fallback to static image if animation fails
                                     const target = e.target as HTMLVideoElement
-                                    if (imageUrlToUse && target.parentElement) {
+                                    if (displayImageUrl && target.parentElement) {
                                         const img = document.createElement('img')
-                                        img.src = imageUrlToUse
+                                        img.src = displayImageUrl
                                         img.className = 'max-h-full max-w-full object-contain'
                                         img.alt = `Level ${level} Impact Product`
                                         target.parentElement.replaceChild(img, target)
@@ -135,8 +139,8 @@ export function DashboardImpactProduct({
                                 }}
                             />
                         ) : imageUrlToUse ? (
-                            <img
-                                src={imageUrlToUse}
+                            displayImageUrl && <img
+                                src={displayImageUrl}
                                 alt={`Level ${level} Impact Product`}
                                 className="max-h-full max-w-full object-contain"
                                 loading="lazy"
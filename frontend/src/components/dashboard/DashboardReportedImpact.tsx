@@ -0,0 +1,60 @@
+'use client'
+
+import { Clock, Loader2, Ruler, Weight } from 'lucide-react'
+import type { ImpactTotals } from '@/lib/utils/impact-report'
+
+interface DashboardReportedImpactProps {
+    totals: ImpactTotals | null
+    loading: boolean
+}
+
+export function DashboardReportedImpact({ totals, loading }: DashboardReportedImpactProps) {
+    if (!loading && (!totals || totals.reports === 0)) return null
+
+    const hours = totals ? Math.floor(totals.durationMinutes / 60) : 0
+    const minutes = totals ? totals.durationMinutes % 60 : 0
+
+    return (
+        <div className="mt-6 rounded-xl border-2 border-brand-green/30 bg-gradient-to-b from-brand-green/10 to-black p-3">
+            <h2 className="mb-3 border-b border-brand-green/30 pb-2 font-bebas text-2xl tracking-wider text-brand-green">
+                REPORTED IMPACT
+            </h2>
+
+            {loading || !totals ? (
+                <div className="flex items-center gap-2 p-2 text-sm text-gray-400">
+                    <Loader2 className="h-4 w-4 animate-spin text-brand-green" />
+                    Loading impact reports...
+                </div>
+            ) : (
+                <>
+                    <div className="grid grid-cols-1 gap-2.5 sm:grid-cols-3">
+                        <div className="rounded-lg border border-brand-green/20 bg-black/50 p-2.5">
+                            <div className="mb-1 flex items-center justify-between">
+                                <span className="font-bebas text-sm tracking-wide text-gray-400">WASTE REMOVED</span>
+                                <Weight className="h-4 w-4 text-brand-green" />
+                            </div>
+                            <p className="font-bebas text-2xl text-white">{totals.weightKg.toLocaleString()} kg</p>
+                        </div>
+                        <div className="rounded-lg border border-brand-green/20 bg-black/50 p-2.5">
+                            <div className="mb-1 flex items-center justify-between">
+                                <span className="font-bebas text-sm tracking-wide text-gray-400">AREA CLEANED</span>
+                                <Ruler className="h-4 w-4 text-brand-green" />
+                            </div>
+                            <p className="font-bebas text-2xl text-white">{totals.areaSqm.toLocaleString()} m²</p>
+                        </div>
+                        <div className="rounded-lg border border-brand-green/20 bg-black/50 p-2.5">
+                            <div className="mb-1 flex items-center justify-between">
+                                <span className="font-bebas text-sm tracking-wide text-gray-400">TIME SPENT</span>
+                                <Clock className="h-4 w-4 text-brand-green" />
+                            </div>
+                            <p className="font-bebas text-2xl text-white">{hours}h {minutes}m</p>
+                        </div>
+                    </div>
+                    <p className="mt-2 text-xs text-gray-500">
+                        From {totals.reports} verified {totals.reports === 1 ? 'cleanup' : 'cleanups'} with an impact report. Self-reported values.
+                    </p>
+                </>
+            )}
+        </div>
+    )
+}
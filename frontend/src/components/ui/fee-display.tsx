@@ -1,5 +1,6 @@
 import { formatEther } from 'viem'
 import { Info } from 'lucide-react'
+import type { FeeRefundStatus } from '@/lib/blockchain/contracts'
 
 interface FeeDisplayProps {
     feeAmount: bigint
@@ -7,18 +8,29 @@ interface FeeDisplayProps {
     feeUSD?: string
     type: 'submission' | 'claim'
     refundable?: boolean
+    // Set for a fee already paid with a submission, replaces the refund policy line
+    refundStatus?: FeeRefundStatus
     className?: string
 }
 
+const REFUND_STATUS_TEXT: Record<Exclude<FeeRefundStatus, 'none'>, { text: string; className: string }> = {
+    pending: { text: '⏳ Refunded in full if this submission is rejected', className: 'text-gray-300' },
+    refundable: { text: '↩️ Rejected: your refund is on its way', className: 'text-yellow-400' },
+    refunded: { text: '✅ Refunded to your wallet', className: 'text-brand-green' },
+    kept: { text: 'Approved: the fee is not refundable', className: 'text-gray-400' },
+}
+
 export function FeeDisplay({
     feeAmount,
     feeSymbol = 'CELO',
     feeUSD = '0.02',
     type,
     refundable = false,
+    refundStatus,
     className = ''
 }: FeeDisplayProps) {
     const feeInEther = formatEther(feeAmount)
+    const status = refundStatus && refundStatus !== 'none' ? REFUND_STATUS_TEXT[refundStatus] : null
 
     return (
         <div className={`rounded-lg border border-brand-green/30 bg-brand-green/5 p-4 ${className}`}>
@@ -40,13 +52,14 @@ export function FeeDisplay({
                     </div>
 
                     <div className="mt-2 space-y-1 text-xs text-muted-foreground">
-                        <p>+ network gas fees (varies)</p>
-                        {refundable && (
+                        {!refundStatus && <p>+ network gas fees (varies)</p>}
+                        {status && <p className={status.className}>{status.text}</p>}
+                        {refundable && !refundStatus && (
                             <p className="text-brand-green">
                                 ✅ Full refund if submission is rejected
                             </p>
                         )}
-                        {type === 'submission' && (
+                        {type === 'submission' && !refundStatus && (
                             <p className="text-gray-400">
                                 Fees go to treasury: 0x173d...56b4
                             </p>
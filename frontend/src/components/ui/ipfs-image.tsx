@@ -0,0 +1,55 @@
+'use client'
+
+import type { ImgHTMLAttributes } from 'react'
+import { ImageOff, Loader2 } from 'lucide-react'
+import { useIPFSImage } from '@/hooks/useIPFS'
+import { parseIPFSRef } from '@/lib/blockchain/ipfs-fetch'
+
+interface IPFSImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+    /** CID, ipfs:// URI or gateway URL. Plain URLs are shown as they are. */
+    cid: string | null | undefined
+    /** Shown when no gateway could serve the image */
+    fallbackSrc?: string
+}
+
+/**
+ * Image loaded through the IPFS gateway race, verified against its CID
+ * Shows a spinner while loading and `fallbackSrc` (or a placeholder) on failure.
+ * Images no gateway served in a verifiable form are marked "unverified".
+ */
+export function IPFSImage({ cid, fallbackSrc, alt, className = '', ...props }: IPFSImageProps) {
+    const { src, loading, error, verified } = useIPFSImage(cid)
+
+    if (loading) {
+        return (
+            <div className={`flex items-center justify-center bg-gray-800 ${className}`}>
+                <Loader2 className="h-5 w-5 animate-spin text-gray-500" />
+            </div>
+        )
+    }
+
+    if ((error || !src) && !fallbackSrc) {
+        return (
+            <div className={`flex items-center justify-center bg-gray-800 text-gray-500 ${className}`} title={error || undefined}>
+                <ImageOff className="h-5 w-5" />
+            </div>
+        )
+    }
+
+    if (!error && src && !verified && parseIPFSRef(cid)) {
+        // The wrapper takes the sizing classes; the image inherits their object-fit
+        return (
+            <div className={`relative overflow-hidden ${className}`}>
+                <img {...props} src={src} alt={alt} className="h-full w-full" style={{ objectFit: 'inherit', ...props.style }} />
+                <span
+                    className="absolute left-1 top-1 rounded bg-black/70 px-1.5 py-0.5 text-[10px] font-medium text-yellow-300"
+                    title="No gateway served a copy that could be checked against its CID"
+                >
+                    Unverified
+                </span>
+            </div>
+        )
+    }
+
+    return <img {...props} src={(error ? null : src) || fallbackSrc} alt={alt} className={className} />
+}
@@ -3,7 +3,13 @@
 import { useState, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 import { ChevronDown, ChevronUp, Loader2 } from 'lucide-react'
-import { getIPFSUrl, getIPFSFallbackUrls } from '@/lib/blockchain/ipfs'
+import { useIPFSJSON } from '@/hooks/useIPFS'
+import {
+  parseImpactReport,
+  formatReportedArea,
+  formatReportedDuration,
+  formatReportedWeight,
+} from '@/lib/utils/impact-report'
 
 interface ImpactReportDetailsProps {
   impactReportHash?: string | null
@@ -11,10 +17,12 @@ interface ImpactReportDetailsProps {
 }
 
 export function ImpactReportDetails({ impactReportHash, cleanupId }: ImpactReportDetailsProps) {
-  const [impactData, setImpactData] = useState<any>(null)
-  const [loading, setLoading] = useState(false)
   const [expanded, setExpanded] = useState(false)
-  const [error, setError] = useState<string | null>(null)
+  // Only fetch when expanded
+  const { data: parsed, loading, error, verified, reload } = useIPFSJSON(impactReportHash, {
+    parse: parseImpactReport,
+    enabled: expanded,
+  })
 
   // Use localStorage to persist expanded state
   const expandedKey = cleanupId 
@@ -33,72 +41,6 @@ export function ImpactReportDetails({ impactReportHash, cleanupId }: ImpactRepor
     }
   }, [expandedKey])
 
-  useEffect(() => {
-    async function fetchImpactData() {
-      if (!impactReportHash || !expanded) {
-        return // Only fetch when expanded
-      }
-
-      setLoading(true)
-      setError(null)
-
-      try {
-        // Clean hash (remove ipfs:// prefix if present)
-        const cleanHash = impactReportHash.replace(/^ipfs:\/\//, '').trim()
-
-        if (!cleanHash) {
-          setError('Invalid impact report hash')
-          setLoading(false)
-          return
-        }
-
-        // Use IPFS gateways with fallback
-        const primaryUrl = getIPFSUrl(cleanHash)
-        const fallbackUrls = getIPFSFallbackUrls(cleanHash)
-        const urls = [primaryUrl, ...fallbackUrls]
-
-        let data: any = null
-        let lastError: Error | null = null
-
-        // Try each gateway until one works
-        for (const url of urls) {
-          try {
-            const response = await fetch(url, {
-              mode: 'cors',
-              cache: 'no-cache',
-              headers: {
-                'Accept': 'application/json',
-              },
-            })
-
-            if (response.ok) {
-              data = await response.json()
-              break
-            }
-          } catch (err) {
-            lastError = err instanceof Error ? err : new Error(String(err))
-            continue
-          }
-        }
-
-        if (!data) {
-          throw lastError || new Error('Failed to fetch impact report data from IPFS')
-        }
-
-        setImpactData(data)
-      } catch (err: any) {
-        console.error('Error fetching impact report:', err)
-        setError(err.message || 'Failed to load impact report data')
-      } finally {
-        setLoading(false)
-      }
-    }
-
-    if (expanded) {
-      fetchImpactData()
-    }
-  }, [impactReportHash, expanded])
-
   const toggleExpanded = (newValue: boolean) => {
     setExpanded(newValue)
     // Persist to localStorage
@@ -141,7 +83,7 @@ export function ImpactReportDetails({ impactReportHash, cleanupId }: ImpactRepor
   }
 
   // Loading state
-  if (loading || (!impactData && !error)) {
+  if (loading || (!parsed && !error)) {
     return (
       <div className="mt-3 rounded-xl border border-green-500/30 bg-green-500/10 p-4 text-sm">
         <div className="flex items-center justify-between">
@@ -165,7 +107,7 @@ export function ImpactReportDetails({ impactReportHash, cleanupId }: ImpactRepor
   }
 
   // Error state
-  if (error || !impactData) {
+  if (error || !parsed) {
     return (
       <div className="mt-3 rounded-xl border border-yellow-500/40 bg-yellow-500/10 p-4 text-sm">
         <div className="flex items-center justify-between">
@@ -186,11 +128,7 @@ export function ImpactReportDetails({ impactReportHash, cleanupId }: ImpactRepor
         <Button
           variant="outline"
           size="sm"
-          onClick={() => {
-            setError(null)
-            setImpactData(null)
-            setExpanded(true) // This will trigger the useEffect to fetch again
-          }}
+          onClick={reload}
           className="mt-3 border-yellow-500/60 text-yellow-200 hover:bg-yellow-500/10"
         >
           Retry Load
@@ -200,11 +138,21 @@ export function ImpactReportDetails({ impactReportHash, cleanupId }: ImpactRepor
   }
 
   // Expanded state with data
+  const { report, migratedFrom, issues } = parsed
+  const area = formatReportedArea(report)
+  const weight = formatReportedWeight(report)
+  const duration = formatReportedDuration(report)
+
   return (
     <div className="mt-3 rounded-xl border border-green-500/40 bg-green-500/5 p-4 text-sm text-gray-100">
       <div className="mb-3 flex items-center justify-between">
         <p className="font-semibold uppercase tracking-wide text-green-300">
           Impact Report Details
+          {!verified && (
+            <span className="ml-2 text-xs normal-case tracking-normal text-yellow-300" title="No gateway served a copy that could be checked against its CID">
+              (unverified copy)
+            </span>
+          )}
         </p>
         <Button
           onClick={() => toggleExpanded(false)}
@@ -218,86 +166,87 @@ export function ImpactReportDetails({ impactReportHash, cleanupId }: ImpactRepor
       </div>
 
       <dl className="grid grid-cols-1 gap-3 sm:grid-cols-2">
-        {impactData.locationType && (
+        {report.locationType && (
           <div>
             <dt className="text-xs uppercase text-gray-400">Location Type</dt>
-            <dd className="text-base text-white">{impactData.locationType}</dd>
+            <dd className="text-base text-white">{report.locationType}</dd>
           </div>
         )}
-        {impactData.area && (
+        {area && (
           <div>
             <dt className="text-xs uppercase text-gray-400">Area Cleaned</dt>
-            <dd className="text-base text-white">
-              {impactData.area} {impactData.areaUnit === 'sqm' ? 'm²' : 'ft²'}
-            </dd>
+            <dd className="text-base text-white">{area}</dd>
           </div>
         )}
-        {impactData.weight && (
+        {weight && (
           <div>
             <dt className="text-xs uppercase text-gray-400">Weight Removed</dt>
-            <dd className="text-base text-white">
-              {impactData.weight} {impactData.weightUnit}
-            </dd>
+            <dd className="text-base text-white">{weight}</dd>
           </div>
         )}
-        {impactData.bags && (
+        {report.bags !== null && (
           <div>
             <dt className="text-xs uppercase text-gray-400">Bags Filled</dt>
-            <dd className="text-base text-white">{impactData.bags}</dd>
+            <dd className="text-base text-white">{report.bags}</dd>
           </div>
         )}
-        {(impactData.hours || impactData.minutes) && (
+        {duration && (
           <div>
             <dt className="text-xs uppercase text-gray-400">Time Spent</dt>
-            <dd className="text-base text-white">
-              {impactData.hours || 0}h {impactData.minutes || 0}m
-            </dd>
+            <dd className="text-base text-white">{duration}</dd>
           </div>
         )}
-        {impactData.wasteTypes && impactData.wasteTypes.length > 0 && (
+        {report.wasteTypes.length > 0 && (
           <div>
             <dt className="text-xs uppercase text-gray-400">Waste Types</dt>
-            <dd className="text-base text-white">{impactData.wasteTypes.join(', ')}</dd>
+            <dd className="text-base text-white">{report.wasteTypes.join(', ')}</dd>
           </div>
         )}
-        {impactData.contributors && impactData.contributors.length > 0 && (
+        {report.contributors.length > 0 && (
           <div>
             <dt className="text-xs uppercase text-gray-400">Contributors</dt>
-            <dd className="text-base text-white">{impactData.contributors.length} address(es)</dd>
+            <dd className="text-base text-white">{report.contributors.length} address(es)</dd>
           </div>
         )}
-        {impactData.scopeOfWork && (
+        {report.scopeOfWork && (
           <div className="sm:col-span-2">
             <dt className="text-xs uppercase text-gray-400">Scope of Work</dt>
-            <dd className="text-base text-white">{impactData.scopeOfWork}</dd>
+            <dd className="text-base text-white">{report.scopeOfWork}</dd>
           </div>
         )}
-        {impactData.rightsAssignment && (
+        {report.rightsAssignment && (
           <div>
             <dt className="text-xs uppercase text-gray-400">Rights Assignment</dt>
-            <dd className="text-base text-white">{impactData.rightsAssignment}</dd>
+            <dd className="text-base text-white">{report.rightsAssignment}</dd>
           </div>
         )}
-        {impactData.environmentalChallenges && (
+        {report.environmentalChallenges && (
           <div className="sm:col-span-2">
             <dt className="text-xs uppercase text-gray-400">Environmental Challenges</dt>
-            <dd className="text-base text-white">{impactData.environmentalChallenges}</dd>
+            <dd className="text-base text-white">{report.environmentalChallenges}</dd>
           </div>
         )}
-        {impactData.preventionIdeas && (
+        {report.preventionIdeas && (
           <div className="sm:col-span-2">
             <dt className="text-xs uppercase text-gray-400">Prevention Suggestions</dt>
-            <dd className="text-base text-white">{impactData.preventionIdeas}</dd>
+            <dd className="text-base text-white">{report.preventionIdeas}</dd>
           </div>
         )}
-        {impactData.additionalNotes && (
+        {report.additionalNotes && (
           <div className="sm:col-span-2">
             <dt className="text-xs uppercase text-gray-400">Additional Notes</dt>
-            <dd className="text-base text-white whitespace-pre-wrap">{impactData.additionalNotes}</dd>
+            <dd className="text-base text-white whitespace-pre-wrap">{report.additionalNotes}</dd>
           </div>
         )}
       </dl>
 
+      {(migratedFrom !== null || issues.length > 0) && (
+        <div className="mt-4 rounded-lg border border-yellow-500/40 bg-yellow-500/10 p-3 text-xs text-yellow-200">
+          {migratedFrom !== null && <p>Submitted with report format v{migratedFrom}; values converted for display.</p>}
+          {issues.length > 0 && <p>Schema issues: {issues.join('; ')}</p>}
+        </div>
+      )}
+
       <p className="mt-4 text-xs text-gray-400">
         * Impact report data is self-reported; verify details against the provided photos before approving.
       </p>
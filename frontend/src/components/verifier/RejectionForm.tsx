@@ -0,0 +1,79 @@
+'use client'
+
+import { useId, useState } from 'react'
+import { Loader2, XCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  getRejectionReasonInfo,
+  MAX_REJECTION_NOTE_LENGTH,
+  REJECTION_REASON_OPTIONS,
+  RejectionReason,
+} from '@/lib/utils/rejection-reasons'
+
+interface RejectionFormProps {
+  onConfirm: (reason: RejectionReason, note: string) => void | Promise<void>
+  onCancel: () => void
+  busy?: boolean
+  // e.g. "Reject 3 cleanups"
+  confirmLabel?: string
+}
+
+/** Reason picker and optional note shown before a verifier rejects one or more cleanups. */
+export function RejectionForm({ onConfirm, onCancel, busy = false, confirmLabel = 'Reject' }: RejectionFormProps) {
+  const groupName = useId()
+  const [reason, setReason] = useState<RejectionReason | null>(null)
+  const [note, setNote] = useState('')
+  const needsNote = reason === RejectionReason.Other && !note.trim()
+
+  return (
+    <div className="rounded-lg border border-red-500/50 bg-red-500/5 p-4 text-sm">
+      <p className="mb-2 font-semibold text-white">Why is this cleanup rejected?</p>
+      <div className="mb-3 grid grid-cols-1 gap-2 sm:grid-cols-2">
+        {REJECTION_REASON_OPTIONS.map((option) => (
+          <label
+            key={option}
+            className={`flex cursor-pointer items-center gap-2 rounded border px-3 py-2 ${
+              reason === option ? 'border-red-500 bg-red-500/10 text-white' : 'border-gray-700 text-gray-300'
+            }`}
+          >
+            <input
+              type="radio"
+              name={groupName}
+              checked={reason === option}
+              onChange={() => setReason(option)}
+              disabled={busy}
+              className="accent-red-500"
+            />
+            {getRejectionReasonInfo(option).label}
+          </label>
+        ))}
+      </div>
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value.slice(0, MAX_REJECTION_NOTE_LENGTH))}
+        disabled={busy}
+        rows={3}
+        placeholder={
+          reason === RejectionReason.Other
+            ? 'Explain what was wrong (required for "Other")'
+            : 'Optional note to the submitter (stored on IPFS)'
+        }
+        className="mb-3 w-full rounded border border-gray-700 bg-gray-900 p-2 text-white placeholder:text-gray-500"
+      />
+      <div className="flex justify-end gap-3">
+        <Button onClick={onCancel} disabled={busy} variant="ghost" className="text-gray-400 hover:text-white">
+          Cancel
+        </Button>
+        <Button
+          onClick={() => reason !== null && onConfirm(reason, note)}
+          disabled={busy || reason === null || needsNote}
+          variant="outline"
+          className="border-red-500 text-red-400 hover:bg-red-500/10"
+        >
+          {busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <XCircle className="mr-2 h-4 w-4" />}
+          {confirmLabel}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+'use client'
+
+import { Clock, CloudOff, FileText, Loader2, Trash2, AlertCircle } from 'lucide-react'
+import type { CleanupDraft, DraftStatus } from '@/lib/utils/cleanup-drafts'
+
+const STATUS_LABELS: Record<DraftStatus, string> = {
+  editing: 'Draft',
+  queued: 'Waiting to upload',
+  submitting: 'Uploading...',
+  failed: 'Needs attention',
+}
+
+const STEP_LABELS: Record<CleanupDraft['step'], string> = {
+  photos: 'Photos',
+  enhanced: 'Impact report',
+  recyclables: 'Recyclables',
+}
+
+interface DraftsListProps {
+  drafts: CleanupDraft[]
+  activeDraftId: string | null
+  onOpen: (draft: CleanupDraft) => void
+  onDelete: (draft: CleanupDraft) => void
+}
+
+export function DraftsList({ drafts, activeDraftId, onOpen, onDelete }: DraftsListProps) {
+  const others = drafts.filter((draft) => draft.id !== activeDraftId)
+  if (others.length === 0) return null
+
+  return (
+    <div className="mb-6 rounded-lg border border-gray-800 bg-gray-900 p-4">
+      <h3 className="mb-3 flex items-center gap-2 text-sm font-semibold uppercase text-white">
+        <FileText className="h-4 w-4 text-brand-green" />
+        Saved Drafts ({others.length})
+      </h3>
+      <ul className="space-y-2">
+        {others.map((draft) => {
+          const photoCount = [draft.beforePhoto, draft.afterPhoto].filter(Boolean).length
+          return (
+            <li
+              key={draft.id}
+              className="flex items-center justify-between gap-3 rounded-md border border-gray-800 bg-black p-3"
+            >
+              <button onClick={() => onOpen(draft)} className="flex-1 text-left">
+                <p className="text-sm text-white">
+                  {new Date(draft.createdAt).toLocaleString()}
+                </p>
+                <p className="mt-1 flex items-center gap-1 text-xs text-gray-400">
+                  {draft.status === 'queued' && <CloudOff className="h-3 w-3" />}
+                  {draft.status === 'submitting' && <Loader2 className="h-3 w-3 animate-spin" />}
+                  {draft.status === 'failed' && <AlertCircle className="h-3 w-3 text-red-400" />}
+                  {draft.status === 'editing' && <Clock className="h-3 w-3" />}
+                  {STATUS_LABELS[draft.status]} · {STEP_LABELS[draft.step]} · {photoCount}/2 photos
+                  {draft.location ? '' : ' · no location'}
+                </p>
+                {draft.status === 'failed' && draft.lastError && (
+                  <p className="mt-1 text-xs text-red-400">{draft.lastError}</p>
+                )}
+              </button>
+              <button
+                onClick={() => onDelete(draft)}
+                disabled={draft.status === 'submitting'}
+                className="flex-shrink-0 text-gray-500 hover:text-red-400 disabled:opacity-50"
+                aria-label="Delete draft"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Shield } from 'lucide-react'
+import {
+  DEFAULT_PHOTO_UPLOAD_SETTINGS,
+  loadPhotoUploadSettings,
+  savePhotoUploadSettings,
+  type PhotoPrivacy,
+  type PhotoUploadSettings,
+} from '@/lib/blockchain/ipfs'
+
+const PRIVACY_OPTIONS: Array<{ value: PhotoPrivacy; label: string }> = [
+  { value: 'hide_location', label: 'Hide photo location (recommended)' },
+  { value: 'hide_location_and_device', label: 'Hide photo location and camera' },
+  { value: 'keep_all', label: 'Publish photo details as taken' },
+]
+
+interface PhotoPrivacySettingsProps {
+  disabled?: boolean
+}
+
+export function PhotoPrivacySettings({ disabled }: PhotoPrivacySettingsProps) {
+  const [settings, setSettings] = useState<PhotoUploadSettings>(DEFAULT_PHOTO_UPLOAD_SETTINGS)
+
+  // localStorage is only readable after mount
+  useEffect(() => {
+    setSettings(loadPhotoUploadSettings())
+  }, [])
+
+  const update = (patch: Partial<PhotoUploadSettings>) => {
+    const next = { ...settings, ...patch }
+    setSettings(next)
+    savePhotoUploadSettings(next)
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-800 bg-gray-900 p-3">
+      <label className="mb-2 flex items-center gap-2 text-sm font-medium text-gray-300">
+        <Shield className="h-4 w-4 text-brand-green" />
+        Photo Privacy
+      </label>
+      <select
+        value={settings.privacy}
+        onChange={(e) => update({ privacy: e.target.value as PhotoPrivacy })}
+        disabled={disabled}
+        className="w-full rounded-lg border border-gray-700 bg-gray-800 px-3 py-2 text-sm text-white disabled:opacity-50"
+      >
+        {PRIVACY_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <label className="mt-2 flex items-center gap-2 text-xs text-gray-400">
+        <input
+          type="checkbox"
+          checked={settings.keepOriginal}
+          onChange={(e) => update({ keepOriginal: e.target.checked })}
+          disabled={disabled}
+          className="rounded border-gray-700 bg-gray-800"
+        />
+        Also publish the full-resolution originals (includes all photo details)
+      </label>
+      <p className="mt-2 text-xs text-gray-500">
+        Photos are resized before upload. Verifiers still see whether the photo details match your cleanup.
+      </p>
+    </div>
+  )
+}
@@ -7,12 +7,39 @@ import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { FeeDisplay } from '@/components/ui/fee-display'
 import { BackButton } from '@/components/layout/BackButton'
-import { Camera, Upload, ArrowRight, ArrowLeft, Check, Loader2, ExternalLink, X, Clock, AlertCircle, Users, CheckCircle } from 'lucide-react'
-import { uploadToIPFS, uploadJSONToIPFS } from '@/lib/blockchain/ipfs'
-import { submitCleanup, getSubmissionFee, attachRecyclablesToSubmission } from '@/lib/blockchain/contracts'
-import { getCleanupDetails } from '@/lib/blockchain/contracts'
-import { clearPendingCleanupData, resetSubmissionCounting } from '@/lib/utils/cleanup-data'
-import type { Address } from 'viem'
+import { Camera, Upload, ArrowRight, ArrowLeft, Check, Loader2, ExternalLink, X, Clock, AlertCircle, Users, CheckCircle, CloudOff, Wallet } from 'lucide-react'
+import { getSubmissionFee } from '@/lib/blockchain/contracts'
+import { getCleanupDetails, getFeeRefundStatus, withdrawCleanup, type CleanupDetails } from '@/lib/blockchain/contracts'
+import { RejectionNotice } from '@/components/cleanup/RejectionNotice'
+import { decodeContractError, isContractError } from '@/lib/blockchain/errors'
+import { IPFSUploadError } from '@/lib/blockchain/ipfs'
+import { clearPendingCleanupData, recordPendingCleanup } from '@/lib/utils/cleanup-data'
+import {
+  startSubmissionPipeline,
+  runSubmissionPipeline,
+  loadSubmissionPipeline,
+  clearSubmissionPipeline,
+  hasReachedStage,
+  type SubmissionFiles,
+  type SubmissionPipelineOptions,
+  type SubmissionPipelineState,
+  type SubmissionStage,
+} from '@/lib/utils/submission-pipeline'
+import { EMPTY_IMPACT_FORM, buildImpactReport, validateImpactReport } from '@/lib/utils/impact-report'
+import {
+  createDraftId,
+  saveDraft,
+  listDrafts,
+  deleteDraft,
+  queueDraft,
+  isOnline,
+  submitNextQueuedDraft,
+  type CleanupDraft,
+} from '@/lib/utils/cleanup-drafts'
+import { DraftsList } from '../components/DraftsList'
+import { PhotoPrivacySettings } from '../components/PhotoPrivacySettings'
+import type { ImpactFormData } from '@/types/cleanup'
+import { zeroAddress, type Address } from 'viem'
 import { CONTRACT_ADDRESSES } from '@/lib/blockchain/wagmi'
 import {
   REQUIRED_CHAIN_ID,
@@ -46,6 +73,40 @@ const describeChain = (id?: number) => {
   }
 }
 
+const NETWORK_SETUP_STEPS =
+  `1. Open your wallet (MetaMask, Coinbase Wallet, etc.)\n` +
+  `2. Click the network dropdown at the top\n` +
+  `3. Select "${REQUIRED_CHAIN_NAME}" from the list\n` +
+  `4. If ${REQUIRED_CHAIN_NAME} is not in the list, add it:\n` +
+  `   • Network Name: ${REQUIRED_CHAIN_NAME}\n` +
+  `   • RPC URL: ${REQUIRED_RPC_URL}\n` +
+  `   • Chain ID: ${REQUIRED_CHAIN_ID}\n` +
+  `   • Currency Symbol: CELO\n` +
+  `   • Block Explorer: ${REQUIRED_BLOCK_EXPLORER_URL}\n` +
+  `${REQUIRED_CHAIN_IS_TESTNET ? `5. Get testnet CELO from: https://faucet.celo.org/\n` : ''}` +
+  `Then try submitting again.`
+
+// Submission failures come back as catalog errors; network problems get setup instructions
+function describeSubmitError(error: unknown, chainId: number): string {
+  // Upload errors already say what to do (sign, shrink the file, wait for the quota)
+  if (error instanceof IPFSUploadError) return error.message
+  const { code, message } = decodeContractError(error)
+  if (code === 'WRONG_CHAIN' || code === 'CHAIN_NOT_ADDED' || code === 'CHAIN_SWITCH_FAILED' || chainId !== REQUIRED_CHAIN_ID) {
+    return `${message}\n\nThis app requires ${REQUIRED_CHAIN_NAME} (Chain ID: ${REQUIRED_CHAIN_ID}), you are on ${describeChain(chainId)}.\n\n${NETWORK_SETUP_STEPS}`
+  }
+  return message
+}
+
+// What the submission pipeline is doing next, shown while it runs
+const PIPELINE_PROGRESS: Record<SubmissionStage, string> = {
+  pending: 'Uploading photos...',
+  photos_uploaded: 'Uploading report...',
+  report_uploaded: 'Confirm in wallet...',
+  tx_sent: 'Confirming transaction...',
+  tx_confirmed: 'Attaching recyclables...',
+  recyclables_attached: 'Finishing...',
+}
+
 function CleanupContent() {
   const { address, isConnected } = useAccount()
   const chainId = useChainId()
@@ -67,6 +128,10 @@ function CleanupContent() {
   const [manualLngInput, setManualLngInput] = useState('')
   const [hostName, setHostName] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  // An interrupted send may still be pending; resending needs the user's go-ahead
+  const [resendNeeded, setResendNeeded] = useState(false)
+  const [pipeline, setPipeline] = useState<SubmissionPipelineState | null>(null)
   const [cleanupId, setCleanupId] = useState<bigint | null>(null)
   const [hasImpactForm, setHasImpactForm] = useState(false)
   const [recyclablesPhoto, setRecyclablesPhoto] = useState<File | null>(null)
@@ -77,8 +142,19 @@ function CleanupContent() {
     claimed: boolean
   } | null>(null)
   const [checkingPending, setCheckingPending] = useState(true)
+  // The last submission, when a verifier rejected it - shown with the reason before the next attempt
+  const [rejectedCleanup, setRejectedCleanup] = useState<CleanupDetails | null>(null)
   const [clearingPending, setClearingPending] = useState(false)
   const [feeInfo, setFeeInfo] = useState<{ fee: bigint; enabled: boolean } | null>(null)
+  const [drafts, setDrafts] = useState<CleanupDraft[]>([])
+  const [isOffline, setIsOffline] = useState(false)
+  const [draftNotice, setDraftNotice] = useState<string | null>(null)
+  // The draft the wizard is currently autosaving to; created on the first photo
+  const activeDraft = useRef<{ id: string; createdAt: number } | null>(null)
+  const [activeDraftId, setActiveDraftId] = useState<string | null>(null)
+  // Read by the draft queue's timer, which would otherwise see a stale value
+  const isSubmittingRef = useRef(false)
+  isSubmittingRef.current = isSubmitting
 
   // Fix hydration error by only rendering after mount
   useEffect(() => {
@@ -169,23 +245,7 @@ function CleanupContent() {
   }, [mounted, searchParams, address])
 
   // Impact Report form data
-  const [enhancedData, setEnhancedData] = useState({
-    locationType: '',
-    area: '',
-    areaUnit: 'sqm' as 'sqm' | 'sqft',
-    weight: '',
-    weightUnit: 'kg' as 'kg' | 'lbs',
-    bags: '',
-    hours: '',
-    minutes: '',
-    wasteTypes: [] as string[],
-    contributors: [] as string[], // Array of contributor addresses
-    scopeOfWork: '', // Auto-generated
-    rightsAssignment: '' as '' | 'attribution' | 'non-commercial' | 'no-derivatives' | 'share-alike' | 'all-rights-reserved',
-    environmentalChallenges: '',
-    preventionIdeas: '',
-    additionalNotes: '',
-  })
+  const [enhancedData, setEnhancedData] = useState<ImpactFormData>(EMPTY_IMPACT_FORM)
 
   // Preset options
   const locationTypeOptions = [
@@ -264,6 +324,124 @@ function CleanupContent() {
     fetchFeeInfo()
   }, [])
 
+  // Restore an unfinished submission pipeline for this wallet
+  useEffect(() => {
+    if (!address) {
+      setPipeline(null)
+      return
+    }
+    const saved = loadSubmissionPipeline(address)
+    // Nothing was uploaded yet and the selected photos don't survive a reload
+    if (saved?.stage === 'pending') {
+      clearSubmissionPipeline(address)
+      setPipeline(null)
+      return
+    }
+    setPipeline(saved)
+  }, [address])
+
+  const refreshDrafts = async () => {
+    try {
+      setDrafts(await listDrafts())
+    } catch (error) {
+      console.warn('[Drafts] Could not load drafts:', error)
+    }
+  }
+
+  // Load saved drafts and track connectivity
+  useEffect(() => {
+    refreshDrafts()
+    setIsOffline(!isOnline())
+
+    const handleOnline = () => setIsOffline(false)
+    const handleOffline = () => setIsOffline(true)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [])
+
+  // Autosave the wizard to the active draft, so nothing is lost offline or on reload
+  useEffect(() => {
+    if (!mounted || step === 'review' || isSubmitting) return
+    // A location alone is fetched automatically and not worth a draft
+    if (!beforePhoto && !afterPhoto && !recyclablesPhoto) return
+
+    if (!activeDraft.current) {
+      activeDraft.current = { id: createDraftId(), createdAt: Date.now() }
+      setActiveDraftId(activeDraft.current.id)
+    }
+    const { id, createdAt } = activeDraft.current
+
+    const timer = setTimeout(() => {
+      saveDraft({
+        id,
+        status: 'editing',
+        step,
+        beforePhoto,
+        afterPhoto,
+        beforePhotoAllowed,
+        afterPhotoAllowed,
+        location,
+        hasImpactForm,
+        enhancedData,
+        hasRecyclables: !!recyclablesPhoto,
+        recyclablesPhoto,
+        recyclablesReceipt,
+        createdAt,
+        updatedAt: Date.now(),
+      })
+        .then(refreshDrafts)
+        .catch((error) => console.warn('[Drafts] Could not save draft:', error))
+    }, 500)
+    return () => clearTimeout(timer)
+  }, [mounted, step, isSubmitting, beforePhoto, afterPhoto, beforePhotoAllowed, afterPhotoAllowed, location, hasImpactForm, enhancedData, recyclablesPhoto, recyclablesReceipt])
+
+  const resetWizard = () => {
+    activeDraft.current = null
+    setActiveDraftId(null)
+    setBeforePhoto(null)
+    setAfterPhoto(null)
+    setBeforePhotoAllowed(false)
+    setAfterPhotoAllowed(false)
+    setHasImpactForm(false)
+    setEnhancedData(EMPTY_IMPACT_FORM)
+    setRecyclablesPhoto(null)
+    setRecyclablesReceipt(null)
+    setStep('photos')
+  }
+
+  const handleOpenDraft = (draft: CleanupDraft) => {
+    if (isSubmitting || draft.status === 'submitting') return
+
+    activeDraft.current = { id: draft.id, createdAt: draft.createdAt }
+    setActiveDraftId(draft.id)
+    setBeforePhoto(draft.beforePhoto)
+    setAfterPhoto(draft.afterPhoto)
+    setBeforePhotoAllowed(draft.beforePhotoAllowed)
+    setAfterPhotoAllowed(draft.afterPhotoAllowed)
+    if (draft.location) setLocation(draft.location)
+    setHasImpactForm(draft.hasImpactForm)
+    setEnhancedData(draft.enhancedData)
+    setRecyclablesPhoto(draft.recyclablesPhoto)
+    setRecyclablesReceipt(draft.recyclablesReceipt)
+    setStep(draft.step)
+    setDraftNotice(null)
+    setSubmitError(null)
+  }
+
+  const handleDeleteDraft = async (draft: CleanupDraft) => {
+    if (!confirm('Delete this saved cleanup draft? Its photos will be removed from this device.')) return
+    try {
+      await deleteDraft(draft.id)
+    } catch (error) {
+      console.warn('[Drafts] Could not delete draft:', error)
+    }
+    refreshDrafts()
+  }
+
   // Check for pending cleanup submissions
   useEffect(() => {
     if (!isConnected || !address) {
@@ -301,6 +479,16 @@ function CleanupContent() {
               // Check if cleanup is rejected - if so, clear localStorage and allow new submission
               if (status.rejected) {
                 console.log('Cleanup is rejected, clearing localStorage to allow new submission')
+                setRejectedCleanup(status)
+                localStorage.removeItem(pendingKey)
+                localStorage.removeItem(`pending_cleanup_location_${address.toLowerCase()}`)
+                setPendingCleanup(null)
+                return
+              }
+
+              // Withdrawn (possibly from another device) - nothing to wait for
+              if (status.withdrawn) {
+                console.log('Cleanup was withdrawn, clearing localStorage to allow new submission')
                 localStorage.removeItem(pendingKey)
                 localStorage.removeItem(`pending_cleanup_location_${address.toLowerCase()}`)
                 setPendingCleanup(null)
@@ -702,12 +890,44 @@ function CleanupContent() {
     await submitCleanupFlow(hasImpactForm, true)
   }
 
-  const submitCleanupFlow = async (hasForm: boolean, hasRecyclables: boolean = false) => {
-    if (!isConnected || !address) {
-      alert('Please connect your wallet first')
+  // Saves the wizard as a queued draft that uploads itself once online with a wallet
+  const queueCurrentDraft = async (hasForm: boolean, hasRecyclables: boolean) => {
+    const draft = activeDraft.current ?? { id: createDraftId(), createdAt: Date.now() }
+    try {
+      await saveDraft({
+        id: draft.id,
+        status: 'editing',
+        step: 'recyclables',
+        beforePhoto,
+        afterPhoto,
+        beforePhotoAllowed,
+        afterPhotoAllowed,
+        location,
+        hasImpactForm: hasForm,
+        enhancedData,
+        hasRecyclables: hasRecyclables && !!recyclablesPhoto,
+        recyclablesPhoto,
+        recyclablesReceipt,
+        createdAt: draft.createdAt,
+        updatedAt: Date.now(),
+      })
+      await queueDraft(draft.id, address)
+    } catch (error) {
+      console.error('[Drafts] Could not queue draft:', error)
+      setSubmitError('Could not save this cleanup on your device. Please keep this page open and try again when you are online.')
       return
     }
 
+    resetWizard()
+    refreshDrafts()
+    setDraftNotice(
+      isOnline()
+        ? 'Your cleanup is saved on this device. It will be submitted automatically when you connect your wallet.'
+        : 'You are offline. Your cleanup is saved on this device and will be uploaded and submitted automatically when you are back online.'
+    )
+  }
+
+  const submitCleanupFlow = async (hasForm: boolean, hasRecyclables: boolean = false) => {
     // Check if contracts are deployed
     if (!CONTRACT_ADDRESSES.VERIFICATION) {
       alert('Contracts not deployed yet. Please deploy contracts first and set NEXT_PUBLIC_SUBMISSION_CONTRACT in .env.local')
@@ -725,381 +945,111 @@ function CleanupContent() {
       return
     }
 
-    setIsSubmitting(true)
-    try {
-      // Upload photos to IPFS
-      console.log('Uploading photos to IPFS...')
-      const [beforeHash, afterHash] = await Promise.all([
-        uploadToIPFS(beforePhoto).catch((error) => {
-          console.error('Error uploading before photo:', error)
-          throw new Error(`Failed to upload before photo: ${error.message}`)
-        }),
-        uploadToIPFS(afterPhoto).catch((error) => {
-          console.error('Error uploading after photo:', error)
-          throw new Error(`Failed to upload after photo: ${error.message}`)
-        }),
-      ])
-
-      console.log('Photos uploaded:', { beforeHash: beforeHash.hash, afterHash: afterHash.hash })
-      console.log('Location:', { lat: location.lat, lng: location.lng })
-
-      // Upload recyclables photos to IPFS if provided
-      let recyclablesPhotoHash: string | null = null
-      let recyclablesReceiptHash: string | null = null
-      if (hasRecyclables && recyclablesPhoto) {
-        try {
-          console.log('Uploading recyclables photo to IPFS...')
-          const recyclablesPhotoResult = await uploadToIPFS(recyclablesPhoto)
-          recyclablesPhotoHash = recyclablesPhotoResult.hash
-          console.log('Recyclables photo uploaded to IPFS:', recyclablesPhotoHash)
-
-          if (recyclablesReceipt) {
-            console.log('Uploading recyclables receipt to IPFS...')
-            const recyclablesReceiptResult = await uploadToIPFS(recyclablesReceipt)
-            recyclablesReceiptHash = recyclablesReceiptResult.hash
-            console.log('Recyclables receipt uploaded to IPFS:', recyclablesReceiptHash)
-          }
-        } catch (error) {
-          console.error('Error uploading recyclables photos to IPFS:', error)
-          // Don't fail the submission if IPFS upload fails, just log it
-        }
+    // Catch report problems now, while the volunteer can still fix them
+    if (hasForm) {
+      const report = buildImpactReport(enhancedData, {
+        beforePhotoAllowed,
+        afterPhotoAllowed,
+        userAddress: address ?? zeroAddress,
+      })
+      const { valid, errors } = validateImpactReport(report)
+      if (report && !valid) {
+        setSubmitError(`Please fix the impact report before submitting:\n• ${errors.join('\n• ')}`)
+        return
       }
+    }
 
-      // Upload enhanced impact report data to IPFS if form was submitted
-      let impactFormDataHash: string | null = null
-      if (hasForm && enhancedData.locationType) {
-        try {
-          console.log('Uploading enhanced impact report data to IPFS...')
-          const impactData = {
-            locationType: enhancedData.locationType,
-            area: enhancedData.area,
-            areaUnit: enhancedData.areaUnit,
-            weight: enhancedData.weight,
-            weightUnit: enhancedData.weightUnit,
-            bags: enhancedData.bags,
-            hours: enhancedData.hours,
-            minutes: enhancedData.minutes,
-            wasteTypes: enhancedData.wasteTypes,
-            contributors: enhancedData.contributors,
-            scopeOfWork: enhancedData.scopeOfWork,
-            rightsAssignment: enhancedData.rightsAssignment,
-            environmentalChallenges: enhancedData.environmentalChallenges,
-            preventionIdeas: enhancedData.preventionIdeas,
-            additionalNotes: enhancedData.additionalNotes,
-            // Image usage permissions
-            beforePhotoAllowed: beforePhotoAllowed,
-            afterPhotoAllowed: afterPhotoAllowed,
-            timestamp: new Date().toISOString(),
-            userAddress: address,
-          }
-          const impactDataResult = await uploadJSONToIPFS(impactData, `impact-report-${Date.now()}`)
-          impactFormDataHash = impactDataResult.hash
-          console.log('Impact report data uploaded to IPFS:', impactFormDataHash)
-
-          // Store the hash in localStorage with cleanup ID (will be set after submission)
-          // We'll associate this hash with the cleanup onchain below
-        } catch (error) {
-          console.error('Error uploading impact report data to IPFS:', error)
-          // Don't fail the submission if IPFS upload fails, just log it
-        }
-      }
+    if (!isOnline() || !isConnected || !address) {
+      await queueCurrentDraft(hasForm, hasRecyclables)
+      return
+    }
 
-      // Check if submission fee is required
-      const feeInfo = await getSubmissionFee()
-      const feeValue = feeInfo.enabled && feeInfo.fee > 0 ? feeInfo.fee : undefined
+    // The report is persisted with the pipeline until it is uploaded
+    const impactReport = hasForm
+      ? buildImpactReport(enhancedData, { beforePhotoAllowed, afterPhotoAllowed, userAddress: address })
+      : null
 
-      if (feeInfo.enabled && feeInfo.fee > 0) {
-        console.log('Submission fee required:', feeInfo.fee.toString(), 'wei')
-      }
+    const files = { beforePhoto, afterPhoto, recyclablesPhoto, recyclablesReceipt }
+    // Reuses an unfinished pipeline for the same photos, so completed uploads are not redone
+    const state = startSubmissionPipeline(
+      address,
+      {
+        location,
+        referrer: referrerAddress,
+        impactReport,
+        hasRecyclables: hasRecyclables && !!recyclablesPhoto,
+      },
+      files
+    )
+    console.log('[Cleanup] Running submission pipeline from stage:', state.stage)
+    await runPipeline(files)
+  }
 
-      // Chain switching is handled by ensureWalletOnRequiredChain() in submitCleanup()
-      // No need to duplicate the logic here - it will handle switching and show errors if needed
-
-      // Submit to contract
-      console.log('Submitting to contract...')
-      console.log('Contract address:', CONTRACT_ADDRESSES.VERIFICATION)
-      console.log('Current chain ID:', chainId)
-      console.log('Submission data:', {
-        beforeHash: beforeHash.hash,
-        afterHash: afterHash.hash,
-        lat: location.lat,
-        lng: location.lng,
-        hasForm,
-        feeValue: feeValue?.toString() || '0'
-      })
+  // Runs (or resumes) the persisted submission pipeline for this wallet
+  const runPipeline = async (files: SubmissionFiles | null, options?: SubmissionPipelineOptions) => {
+    if (!address) return
 
-      try {
-        // Pass chainId from hook to avoid false chain detection issues
-        const cleanupId = await submitCleanup(
-          beforeHash.hash,
-          afterHash.hash,
-          location.lat,
-          location.lng,
-          referrerAddress,
-          hasForm,
-          impactFormDataHash || '',
-          feeValue
-        )
-        
+    setIsSubmitting(true)
+    setSubmitError(null)
+    setResendNeeded(false)
+    try {
+      const { submissionId: cleanupId, location: submittedLocation, recyclablesError } =
+        await runSubmissionPipeline(address, files, setPipeline, options)
 
-        console.log('✅ Cleanup submitted with ID:', cleanupId.toString())
-        console.log('✅ Referrer address used in submission:', referrerAddress || 'none (no referrer)')
-        if (referrerAddress && referrerAddress !== '0x0000000000000000000000000000000000000000') {
-          console.log('✅ Referral reward will be distributed when cleanup is verified and user claims their first Impact Product level!')
-        }
+      console.log('✅ Cleanup submitted with ID:', cleanupId.toString())
+      if (referrerAddress && referrerAddress !== '0x0000000000000000000000000000000000000000') {
+        console.log('✅ Referral reward will be distributed when cleanup is verified and user claims their first Impact Product level!')
+      }
 
-        // Attach recyclables to submission if provided
-        // Only attach if we have a recyclables photo hash (IPFS upload succeeded)
-        if (hasRecyclables && recyclablesPhotoHash && address) {
-          try {
-            console.log('📝 Attaching recyclables to submission on-chain...')
-            console.log('Submission ID:', cleanupId.toString())
-            console.log('Recyclables photo hash:', recyclablesPhotoHash)
-            console.log('Recyclables receipt hash:', recyclablesReceiptHash || '(none)')
-            
-            // Call attachRecyclablesToSubmission to attach recyclables to the submission
-            const recyclablesTxHash = await attachRecyclablesToSubmission(
-              cleanupId,
-              recyclablesPhotoHash,
-              recyclablesReceiptHash || ''
-            )
-            
-            console.log('✅ Recyclables attached successfully! Transaction hash:', recyclablesTxHash)
-            console.log('✅ Recyclables will be rewarded when cleanup is verified')
-          } catch (recyclablesError: any) {
-            console.error('Error attaching recyclables (non-fatal):', recyclablesError)
-            // Don't fail the entire submission if recyclables attachment fails
-            // Show a warning but continue with the submission
-            const errorMsg = recyclablesError?.message || recyclablesError?.shortMessage || 'Unknown error'
-            console.warn('⚠️ Recyclables attachment failed:', errorMsg)
-            // Only show alert if it's not a network/RPC error (those are expected sometimes)
-            if (!errorMsg.includes('Internal JSON-RPC error') && !errorMsg.includes('network')) {
-              alert(
-                `⚠️ Warning: Cleanup submitted successfully, but failed to attach recyclables.\n\n` +
-                `Submission ID: ${cleanupId.toString()}\n\n` +
-                `You can try attaching recyclables later, or contact support if needed.\n\n` +
-                `Error: ${errorMsg}`
-              )
-            }
-          }
-        } else if (hasRecyclables && !recyclablesPhotoHash) {
-          console.warn('⚠️ Recyclables were selected but IPFS upload failed - recyclables not attached to submission')
-        }
+      // RPC/network hiccups are expected sometimes, only warn about real failures
+      if (recyclablesError && recyclablesError.code !== 'RPC_SYNC' && recyclablesError.code !== 'NETWORK') {
+        alert(
+          `⚠️ Warning: Cleanup submitted successfully, but failed to attach recyclables.\n\n` +
+          `Submission ID: ${cleanupId.toString()}\n\n` +
+          `You can try attaching recyclables later, or contact support if needed.\n\n` +
+          `Error: ${recyclablesError.message}`
+        )
+      }
 
-        setCleanupId(cleanupId)
-        
-        // Store cleanup ID in localStorage for verification checking (scoped to user address)
-        if (typeof window !== 'undefined' && address) {
-          const pendingKey = `pending_cleanup_id_${address.toLowerCase()}`
-          const locationKey = `pending_cleanup_location_${address.toLowerCase()}`
-          localStorage.setItem(pendingKey, cleanupId.toString())
-          localStorage.setItem(locationKey, JSON.stringify(location))
+      setCleanupId(cleanupId)
 
-          // Clear referrer from localStorage after successful submission
-          // The referrer is now stored onchain, so we don't need to keep it locally
-          const referrerKey = `referrer_${address.toLowerCase()}`
-          localStorage.removeItem(referrerKey)
+      // Store cleanup ID for verification checking (scoped to user address)
+      recordPendingCleanup(address, cleanupId, submittedLocation)
 
-          // Also clear old global keys if they exist
-          localStorage.removeItem('pending_cleanup_id')
-          localStorage.removeItem('pending_cleanup_location')
-        }
+      // The draft has become a submission
+      if (activeDraft.current) {
+        deleteDraft(activeDraft.current.id)
+          .catch((error) => console.warn('[Drafts] Could not delete submitted draft:', error))
+          .finally(refreshDrafts)
+        activeDraft.current = null
+        setActiveDraftId(null)
+      }
 
-        // Immediately update pendingCleanup state to lock the submit button
-        // This ensures the UI reflects the pending status right away
-        if (address) {
-          console.log('[Cleanup] Setting pendingCleanup state after submission:', {
-            cleanupId: cleanupId.toString(),
-            verified: false,
-            claimed: false,
-          })
-          setPendingCleanup({
-            id: cleanupId,
-            verified: false,
-            claimed: false,
-          })
-          // Verify state was set
-          console.log('[Cleanup] Pending cleanup state should now lock submit button')
-        }
+      // Immediately update pendingCleanup state to lock the submit button
+      setPendingCleanup({
+        id: cleanupId,
+        verified: false,
+        claimed: false,
+      })
 
-        // Show success message and redirect to review step
-        setIsSubmitting(false)
-        setStep('review')
-        
-        // Show success alert
-        alert(`✅ Cleanup submitted successfully!\n\nSubmission ID: ${cleanupId.toString()}\n\nYour cleanup is now pending verification. You'll be redirected to the home page.`)
-        
-        // Redirect to home after 3 seconds
-        setTimeout(() => {
-          router.push('/')
-        }, 3000)
-      } catch (submitError: any) {
-        console.error('Error submitting cleanup:', submitError)
-        const errorMessage = submitError?.message || submitError?.shortMessage || String(submitError) || 'Unknown error'
-        const errorName = submitError?.name || ''
-        const errorDetails = submitError?.details || ''
-
-        // CRITICAL: Check for Celo Sepolia - this is a common mistake!
-        const isCeloError =
-          errorMessage.includes('CELO') ||
-          errorMessage.includes('Celo') ||
-          errorMessage.includes('44787') ||
-          errorMessage.includes('Celo Sepolia') ||
-          chainId === 44787
-
-        // Check if it's truly a "chain not configured" error (not just a switch error)
-        const isChainNotConfigured =
-          errorDetails?.includes('Chain not configured') ||
-          errorMessage.includes('Chain not configured') ||
-          errorMessage.includes('chain not configured') ||
-          errorMessage.includes('Unrecognized chain') ||
-          submitError?.code === 4902 // MetaMask error code for chain not configured
-
-        // Check if it's a switch chain error (could be configured but switch failed)
-        const isSwitchError =
-          errorName === 'SwitchChainError' ||
-          errorMessage.includes('switch chain') ||
-          errorMessage.includes('SwitchChainError')
-
-        if (isCeloError) {
-          // Show very clear Celo error message
-          alert(
-            `❌ WRONG NETWORK: CELO SEPOLIA DETECTED!\n\n` +
-            `You are currently on Celo Sepolia Testnet, but this app requires ${REQUIRED_CHAIN_NAME} (Chain ID: ${REQUIRED_CHAIN_ID}).\n\n` +
-            `Please switch to ${REQUIRED_CHAIN_NAME}:\n\n` +
-            `1. Open your wallet (MetaMask, Coinbase Wallet, etc.)\n` +
-            `2. Click the network dropdown at the top\n` +
-            `3. Select "${REQUIRED_CHAIN_NAME}" from the list\n` +
-            `4. If ${REQUIRED_CHAIN_NAME} is not in the list, add it:\n` +
-            `   • Network Name: ${REQUIRED_CHAIN_NAME}\n` +
-            `   • RPC URL: ${REQUIRED_RPC_URL}\n` +
-            `   • Chain ID: ${REQUIRED_CHAIN_ID}\n` +
-            `   • Currency Symbol: CELO\n` +
-            `   • Block Explorer: ${REQUIRED_BLOCK_EXPLORER_URL}\n` +
-            `5. Once on ${REQUIRED_CHAIN_NAME}, try submitting again.\n\n` +
-            `⚠️ Do NOT submit transactions on Celo - they will fail!`
-          )
-          setIsSubmitting(false)
-          return
-        }
+      // Show success message and redirect to review step
+      setIsSubmitting(false)
+      setStep('review')
 
-        if (isChainNotConfigured) {
-          // Show detailed instructions for adding the network
-          alert(
-            `❌ ${REQUIRED_CHAIN_NAME} is not configured in your wallet!\n\n` +
-            `Please add ${REQUIRED_CHAIN_NAME} to your wallet:\n\n` +
-            `1. Open your wallet (MetaMask, Coinbase Wallet, etc.)\n` +
-            `2. Go to Settings → Networks → Add Network\n` +
-            `3. Click "Add a network manually"\n` +
-            `4. Enter these details:\n` +
-            `   • Network Name: ${REQUIRED_CHAIN_NAME}\n` +
-            `   • RPC URL: ${REQUIRED_RPC_URL}\n` +
-            `   • Chain ID: ${REQUIRED_CHAIN_ID}\n` +
-            `   • Currency Symbol: CELO\n` +
-            `   • Block Explorer: ${REQUIRED_BLOCK_EXPLORER_URL}\n` +
-            `5. Click "Save" and switch to ${REQUIRED_CHAIN_NAME}\n` +
-            `${REQUIRED_CHAIN_IS_TESTNET ? `6. Get testnet CELO from: https://faucet.celo.org/\n` : ''}` +
-            `${REQUIRED_CHAIN_IS_TESTNET ? `7. Then try submitting again.` : `6. Then try submitting again.`}`
-          )
-        } else if (isSwitchError) {
-          // Chain might be configured but switch failed - ask user to manually switch
-          alert(
-            `❌ Failed to switch to ${REQUIRED_CHAIN_NAME}!\n\n` +
-            `Please manually switch to ${REQUIRED_CHAIN_NAME} in your wallet:\n\n` +
-            `1. Open your wallet extension/app\n` +
-            `2. Click the network dropdown (top of wallet)\n` +
-            `3. Select "${REQUIRED_CHAIN_NAME}" from the list\n` +
-            `4. If ${REQUIRED_CHAIN_NAME} is not in the list, you may need to add it:\n` +
-            `   • Network Name: ${REQUIRED_CHAIN_NAME}\n` +
-            `   • RPC URL: ${REQUIRED_RPC_URL}\n` +
-            `   • Chain ID: ${REQUIRED_CHAIN_ID}\n` +
-            `   • Currency Symbol: CELO\n` +
-            `   • Block Explorer: ${REQUIRED_BLOCK_EXPLORER_URL}\n` +
-            `5. Once on ${REQUIRED_CHAIN_NAME}, try submitting again.\n\n` +
-            `Current error: ${errorMessage}`
-          )
-        } else {
-          alert(
-            `Failed to submit cleanup:\n\n${errorMessage}\n\n` +
-            `Please check:\n` +
-            `- Your wallet is connected\n` +
-            `- You're on ${REQUIRED_CHAIN_NAME} (Chain ID: ${REQUIRED_CHAIN_ID})\n` +
-            `- You have enough ETH for gas\n` +
-            `- The contract address is correct`
-          )
-        }
+      // Show success alert
+      alert(`✅ Cleanup submitted successfully!\n\nSubmission ID: ${cleanupId.toString()}\n\nYour cleanup is now pending verification. You'll be redirected to the home page.`)
 
-        setIsSubmitting(false)
-        return
-      }
+      // Redirect to home after 3 seconds
+      setTimeout(() => {
+        router.push('/')
+      }, 3000)
     } catch (error) {
       console.error('Error in cleanup submission flow:', error)
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      const errorName = error instanceof Error ? error.name : ''
-      const errorDetails = (error as any)?.details || ''
-      const errorCode = (error as any)?.code
-
-      // Check if it's truly a "chain not configured" error (not just a switch error)
-      const isChainNotConfigured =
-        errorDetails?.includes('Chain not configured') ||
-        errorMessage.includes('Chain not configured') ||
-        errorMessage.includes('chain not configured') ||
-        errorMessage.includes('Unrecognized chain') ||
-        errorCode === 4902 // MetaMask error code for chain not configured
-
-      // Check if it's a switch chain error (could be configured but switch failed)
-      const isSwitchError =
-        errorName === 'SwitchChainError' ||
-        errorMessage.includes('switch chain') ||
-        errorMessage.includes('SwitchChainError')
-
-      if (isChainNotConfigured) {
-        // Show detailed instructions for adding the network
-        alert(
-          `❌ ${REQUIRED_CHAIN_NAME} is not configured in your wallet!\n\n` +
-          `Please add ${REQUIRED_CHAIN_NAME} to your wallet:\n\n` +
-          `1. Open your wallet (MetaMask, Coinbase Wallet, etc.)\n` +
-          `2. Go to Settings → Networks → Add Network\n` +
-          `3. Click "Add a network manually"\n` +
-          `4. Enter these details:\n` +
-          `   • Network Name: ${REQUIRED_CHAIN_NAME}\n` +
-          `   • RPC URL: ${REQUIRED_RPC_URL}\n` +
-          `   • Chain ID: ${REQUIRED_CHAIN_ID}\n` +
-          `   • Currency Symbol: CELO\n` +
-          `   • Block Explorer: ${REQUIRED_BLOCK_EXPLORER_URL}\n` +
-          `5. Click "Save" and switch to ${REQUIRED_CHAIN_NAME}\n` +
-          `${REQUIRED_CHAIN_IS_TESTNET ? `6. Get testnet CELO from: https://faucet.celo.org/\n` : ''}` +
-          `${REQUIRED_CHAIN_IS_TESTNET ? `7. Then try submitting again.` : `6. Then try submitting again.`}`
-        )
-      } else if (isSwitchError) {
-        // Chain might be configured but switch failed - ask user to manually switch
-        alert(
-          `❌ Failed to switch to ${REQUIRED_CHAIN_NAME}!\n\n` +
-          `Please manually switch to ${REQUIRED_CHAIN_NAME} in your wallet:\n\n` +
-          `1. Open your wallet extension/app\n` +
-          `2. Click the network dropdown (top of wallet)\n` +
-          `3. Select "${REQUIRED_CHAIN_NAME}" from the list\n` +
-          `4. If ${REQUIRED_CHAIN_NAME} is not in the list, you may need to add it:\n` +
-          `   • Network Name: ${REQUIRED_CHAIN_NAME}\n` +
-          `   • RPC URL: ${REQUIRED_RPC_URL}\n` +
-          `   • Chain ID: ${REQUIRED_CHAIN_ID}\n` +
-          `   • Currency Symbol: CELO\n` +
-          `   • Block Explorer: ${REQUIRED_BLOCK_EXPLORER_URL}\n` +
-          `5. Once on ${REQUIRED_CHAIN_NAME}, try submitting again.\n\n` +
-          `Current error: ${errorMessage}`
-        )
-      } else {
-        alert(
-          `Failed to submit cleanup:\n\n${errorMessage}\n\n` +
-          `Please check:\n` +
-          `- Your wallet is connected\n` +
-          `- You're on ${REQUIRED_CHAIN_NAME} (Chain ID: ${REQUIRED_CHAIN_ID})\n` +
-          `- You have enough CELO for gas\n` +
-          `- The contract address is correct`
-        )
-      }
+      setSubmitError(describeSubmitError(error, chainId))
+      setResendNeeded(isContractError(error) && error.code === 'TX_MAYBE_SENT')
     } finally {
       setIsSubmitting(false)
+      setPipeline(loadSubmissionPipeline(address))
     }
   }
 
@@ -1109,6 +1059,39 @@ function CleanupContent() {
   const hasPendingCleanup = pendingCleanup !== null && pendingCleanup !== undefined
   const isSubmissionDisabled = (hasPendingCleanup && !pendingCleanup.verified) || isWrongNetwork || isSwitchingChain
   
+  // Submit queued drafts once online with a wallet and off cooldown; retried periodically
+  // because connectivity can come back without an 'online' event
+  useEffect(() => {
+    if (!mounted || !address || isOffline || checkingPending || isSubmissionDisabled) return
+
+    const processQueue = async () => {
+      if (isSubmittingRef.current) return
+      // Locks the wizard's submit buttons so a manual submission can't replace the queued one
+      setIsSubmitting(true)
+      let result
+      try {
+        result = await submitNextQueuedDraft(address)
+      } finally {
+        setIsSubmitting(false)
+      }
+      if (!result) return
+
+      refreshDrafts()
+      if (result.submissionId !== undefined) {
+        setPendingCleanup({ id: result.submissionId, verified: false, claimed: false })
+        setDraftNotice(
+          `Your saved cleanup from ${new Date(result.draft.createdAt).toLocaleString()} was uploaded and submitted (Submission ID: ${result.submissionId.toString()}). It is now pending verification.`
+        )
+      }
+    }
+
+    processQueue().catch((error) => console.error('[Drafts] Queue run failed:', error))
+    const interval = setInterval(() => {
+      processQueue().catch((error) => console.error('[Drafts] Queue run failed:', error))
+    }, 60_000)
+    return () => clearInterval(interval)
+  }, [mounted, address, isOffline, checkingPending, isSubmissionDisabled])
+
   // Debug logging
   if (hasPendingCleanup) {
     console.log('[Cleanup] Submission disabled check:', {
@@ -1166,18 +1149,41 @@ function CleanupContent() {
     )
   }
 
-  if (!isConnected) {
+  // Offline / no wallet notice: the wizard keeps working and saves a draft instead
+  const DraftModeBanner = () => {
+    if (!isOffline && isConnected && !draftNotice) return null
+
     return (
-      <div className="min-h-screen bg-background px-4 py-8 pb-20">
-        <div className="mx-auto max-w-md rounded-lg border border-gray-800 bg-gray-900 p-6 text-center">
-          <h2 className="mb-4 text-2xl font-bold uppercase text-white">
-            Connect Your Wallet
-          </h2>
-          <p className="mb-6 text-gray-400">
-            Please connect your wallet to submit a cleanup.
-          </p>
-          <BackButton href="/" label="Go Back" />
-        </div>
+      <div className="mb-6 space-y-3">
+        {(isOffline || !isConnected) && (
+          <div className="rounded-lg border border-yellow-500/50 bg-yellow-500/10 p-4">
+            <div className="flex items-start gap-3">
+              {isOffline ? (
+                <CloudOff className="h-5 w-5 flex-shrink-0 text-yellow-400" />
+              ) : (
+                <Wallet className="h-5 w-5 flex-shrink-0 text-yellow-400" />
+              )}
+              <p className="text-sm text-gray-300">
+                {isOffline
+                  ? "You're offline. Keep going — your cleanup is saved on this device and will be uploaded automatically when you're back online."
+                  : 'No wallet connected. You can still record your cleanup; it will be saved on this device and submitted once you connect your wallet.'}
+              </p>
+            </div>
+          </div>
+        )}
+        {draftNotice && (
+          <div className="flex items-start gap-3 rounded-lg border border-brand-green/50 bg-brand-green/10 p-4">
+            <CheckCircle className="h-5 w-5 flex-shrink-0 text-brand-green" />
+            <p className="flex-1 text-sm text-gray-300">{draftNotice}</p>
+            <button
+              onClick={() => setDraftNotice(null)}
+              className="flex-shrink-0 text-gray-400 hover:text-white"
+              aria-label="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
       </div>
     )
   }
@@ -1224,48 +1230,53 @@ function CleanupContent() {
 
     // Show cooldown warning if pending cleanup
     if (pendingCleanup && !pendingCleanup.verified) {
-      const handleClearAndResubmit = async () => {
+      const handleWithdrawAndResubmit = async () => {
         if (!address) return
 
         setClearingPending(true)
         try {
           // First, check if cleanup actually exists onchain
+          let details: CleanupDetails | null = null
           try {
-            const status = await getCleanupDetails(pendingCleanup.id)
-            console.log('Cleanup status onchain:', status)
+            details = await getCleanupDetails(pendingCleanup.id)
+            console.log('Cleanup status onchain:', details)
+          } catch (error: any) {
+            // Cleanup doesn't exist onchain (e.g. the transaction never confirmed) - just forget it
+            console.log('Cleanup does not exist onchain, clearing localStorage:', error?.message)
+          }
 
-            // If cleanup exists and is verified, just clear localStorage
-            if (status.verified) {
-              clearPendingCleanupData(address)
-              setPendingCleanup(null)
-              alert('Cleanup is already verified! Clearing local data. You can now claim it from your profile.')
-              return
-            }
+          // If cleanup exists and is verified, just clear localStorage
+          if (details?.verified) {
+            clearPendingCleanupData(address)
+            setPendingCleanup(null)
+            alert('Cleanup is already verified! Clearing local data. You can now claim it from your profile.')
+            return
+          }
 
-            // If cleanup exists but not verified, ask for confirmation
+          // Still pending: withdraw it onchain so it leaves the verifier queue
+          if (details && !details.rejected && !details.withdrawn) {
             const confirmed = confirm(
-              `Cleanup #${pendingCleanup.id.toString()} exists onchain and is pending verification.\n\n` +
-              `Are you sure you want to clear it? This won't delete it from the blockchain, ` +
-              `but will allow you to submit a new cleanup.\n\n` +
-              `Note: The old cleanup will still be in the verifier dashboard.`
+              `Withdraw cleanup #${pendingCleanup.id.toString()}?\n\n` +
+              `It will be removed from the verification queue` +
+              `${details.feePaid ? ' and its submission fee refunded' : ''}, ` +
+              `and you can submit a new cleanup. This can't be undone.`
             )
+            if (!confirmed) return
 
-            if (!confirmed) {
-              setClearingPending(false)
-              return
-            }
-          } catch (error: any) {
-            // Cleanup doesn't exist onchain - safe to clear
-            console.log('Cleanup does not exist onchain, clearing localStorage:', error?.message)
+            await withdrawCleanup(pendingCleanup.id)
           }
 
-          // Clear localStorage
           clearPendingCleanupData(address)
           setPendingCleanup(null)
-          alert('Pending cleanup data cleared! You can now submit a new cleanup.')
+          alert(
+            details
+              ? 'Cleanup withdrawn! You can now submit a new cleanup.'
+              : 'Pending cleanup data cleared! You can now submit a new cleanup.'
+          )
         } catch (error) {
-          console.error('Error clearing cleanup data:', error)
-          alert('Failed to clear cleanup data. Please try refreshing the page.')
+          console.error('Error withdrawing cleanup:', error)
+          const { message } = decodeContractError(error)
+          alert(`Failed to withdraw the cleanup: ${message}`)
         } finally {
           setClearingPending(false)
         }
@@ -1291,29 +1302,13 @@ function CleanupContent() {
                   Check status in your profile
                   <ExternalLink className="h-3 w-3" />
                 </Link>
-                <div className="flex flex-col gap-2">
-                  <button
-                    onClick={handleClearAndResubmit}
-                    disabled={clearingPending}
-                    className="inline-flex items-center gap-1 text-xs text-red-400 hover:text-red-300 underline disabled:opacity-50"
-                  >
-                    {clearingPending ? 'Clearing...' : 'Clear & Resubmit (if glitched)'}
-                  </button>
-                  <button
-                    onClick={() => {
-                      if (!address) return
-                      if (confirm('Reset submission counting? This will clear all pending cleanup data and allow you to submit again immediately.')) {
-                        resetSubmissionCounting(address)
-                        setPendingCleanup(null)
-                        alert('Submission counting reset! You can now submit a new cleanup.')
-                      }
-                    }}
-                    disabled={clearingPending}
-                    className="inline-flex items-center gap-1 text-xs text-orange-400 hover:text-orange-300 underline disabled:opacity-50"
-                  >
-                    Reset Submission Counting
-                  </button>
-                </div>
+                <button
+                  onClick={handleWithdrawAndResubmit}
+                  disabled={clearingPending}
+                  className="inline-flex items-center gap-1 text-xs text-red-400 hover:text-red-300 underline disabled:opacity-50"
+                >
+                  {clearingPending ? 'Withdrawing...' : 'Wrong photos? Withdraw & resubmit'}
+                </button>
               </div>
             </div>
           </div>
@@ -1324,6 +1319,71 @@ function CleanupContent() {
     return null
   }
 
+  // Unfinished submission banner (uploads or transaction from an earlier visit)
+  const ResumeSubmissionBanner = () => {
+    if (!pipeline || isSubmitting) return null
+
+    const sent = hasReachedStage(pipeline, 'tx_sent')
+    return (
+      <div className="mb-6 rounded-lg border border-brand-green/50 bg-brand-green/10 p-4">
+        <div className="flex items-start gap-3">
+          <Upload className="h-5 w-5 flex-shrink-0 text-brand-green mt-0.5" />
+          <div className="flex-1">
+            <h3 className="mb-1 text-sm font-semibold text-brand-green">Unfinished Submission</h3>
+            <p className="text-sm text-gray-300">
+              {sent
+                ? 'Your cleanup transaction was already sent. Resume to wait for its confirmation.'
+                : 'Your photos are already uploaded. Resume to finish submitting without uploading them again.'}
+            </p>
+            {submitError && (
+              <p className="mt-2 whitespace-pre-line text-xs text-red-400">{submitError}</p>
+            )}
+            <div className="mt-3 flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                onClick={() => runPipeline(null)}
+                disabled={isSubmissionDisabled && !sent}
+                className="bg-brand-green text-black hover:bg-brand-green/90"
+              >
+                Resume Submission
+              </Button>
+              {resendNeeded && !sent && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    if (confirm('Send this submission again? If the earlier transaction still confirms, you will have two submissions and pay the fee twice.')) {
+                      runPipeline(null, { confirmResend: true })
+                    }
+                  }}
+                  disabled={isSubmissionDisabled}
+                  className="border-gray-700 bg-black text-white hover:bg-gray-900"
+                >
+                  Send Again Anyway
+                </Button>
+              )}
+              {!sent && (
+                <button
+                  onClick={() => {
+                    if (!address) return
+                    if (confirm('Discard this unfinished submission? Its uploaded photos will not be used.')) {
+                      clearSubmissionPipeline(address)
+                      setPipeline(null)
+                      setSubmitError(null)
+                    }
+                  }}
+                  className="text-xs text-gray-400 hover:text-gray-300 underline"
+                >
+                  Discard
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
   // Step 1: Photos (Before + After) + Location
   if (step === 'photos') {
     return (
@@ -1334,7 +1394,34 @@ function CleanupContent() {
           </div>
 
           <ReferralNotification />
+          <DraftModeBanner />
           <CooldownBanner />
+          {rejectedCleanup && (
+            <div className="mb-6">
+              <RejectionNotice
+                cleanupId={rejectedCleanup.id}
+                reason={rejectedCleanup.rejectionReason}
+                noteCID={rejectedCleanup.rejectionNoteCID}
+                onDismiss={() => setRejectedCleanup(null)}
+              />
+              {!!rejectedCleanup.feePaid && (
+                <FeeDisplay
+                  feeAmount={rejectedCleanup.feePaid}
+                  type="submission"
+                  feeUSD=""
+                  refundStatus={getFeeRefundStatus(rejectedCleanup)}
+                  className="mt-2"
+                />
+              )}
+            </div>
+          )}
+          <ResumeSubmissionBanner />
+          <DraftsList
+            drafts={drafts}
+            activeDraftId={activeDraftId}
+            onOpen={handleOpenDraft}
+            onDelete={handleDeleteDraft}
+          />
 
           <div className="mb-6 text-center">
             <h1 className="mb-2 text-3xl font-bold uppercase tracking-wide text-white sm:text-4xl">
@@ -1444,6 +1531,8 @@ function CleanupContent() {
               </label>
             </div>
 
+            <PhotoPrivacySettings disabled={isSubmitting} />
+
             {/* Location Status */}
             <div className="rounded-lg border border-gray-800 bg-gray-900 p-3">
               <label className="mb-2 block text-sm font-medium text-gray-300">
@@ -2166,6 +2255,18 @@ function CleanupContent() {
             />
           )}
 
+          {submitError && (
+            <div className="rounded-lg border border-red-500/50 bg-red-500/10 p-4">
+              <div className="flex items-start gap-3">
+                <AlertCircle className="h-5 w-5 flex-shrink-0 text-red-400" />
+                <div className="flex-1">
+                  <h3 className="mb-1 font-semibold text-red-400">Failed to submit cleanup</h3>
+                  <p className="whitespace-pre-line text-sm text-gray-300">{submitError}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
           <div className="flex gap-4">
             <Button
               variant="outline"
@@ -2183,7 +2284,7 @@ function CleanupContent() {
               {isSubmitting ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  Submitting...
+                  {pipeline ? PIPELINE_PROGRESS[pipeline.stage] : 'Submitting...'}
                 </>
               ) : (
                 <>
@@ -21,13 +21,17 @@ import {
   Copy,
 } from 'lucide-react'
 import Link from 'next/link'
-import { getDCUBalance, getStakedDCU, getUserLevel, getUserTokenId, getTokenURI, getTokenURIForLevel, getStreakCount, hasActiveStreak, claimImpactProductFromVerification,} from '@/lib/blockchain/contracts'
+import { getDCUBalance, getStakedDCU, getUserLevel, getUserTokenId, getTokenURI, getTokenURIForLevel, getStreakCount, hasActiveStreak, claimImpactProductFromVerification, getClaimFee, getUserSubmissions, getCleanupDetailsBatch, getFeeRefundStatus, type CleanupDetails,} from '@/lib/blockchain/contracts'
+import { fetchImpactReport, summarizeImpactReports, type ImpactReport, type ImpactTotals } from '@/lib/utils/impact-report'
 import { REQUIRED_BLOCK_EXPLORER_URL, REQUIRED_CHAIN_ID, REQUIRED_CHAIN_NAME } from '@/lib/blockchain/wagmi'
 import { useChainId } from 'wagmi'
 import { DashboardPersonalStats } from '@/components/dashboard/DashboardPersonalStats'
 import { DashboardImpactProduct } from '@/components/dashboard/DashboardImpactProduct'
+import { fetchIPFSJSON, getIPFSUrl } from '@/lib/blockchain/ipfs'
 import { DashboardActions } from '@/components/dashboard/DashboardActions'
-import { getUserCleanupStatus, markCleanupAsClaimed } from '@/lib/blockchain/verification'
+import { DashboardReportedImpact } from '@/components/dashboard/DashboardReportedImpact'
+import { RejectionNotice } from '@/components/cleanup/RejectionNotice'
+import { getUserCleanupStatus } from '@/lib/blockchain/verification'
 import { CONTRACT_ADDRESSES } from '@/lib/blockchain/wagmi'
 const BLOCK_EXPLORER_NAME = REQUIRED_BLOCK_EXPLORER_URL.includes('sepolia')
   ? 'CeloScan (Sepolia)'
@@ -48,6 +52,33 @@ interface ImpactMetadata {
   attributes?: ImpactAttribute[]
 }
 
+// Rejections shown on the profile, newest first
+const MAX_REJECTIONS_SHOWN = 3
+
+// Totals from the impact reports of the user's verified cleanups, and their latest rejected cleanups
+async function loadSubmissionHistory(userAddress: Address): Promise<{ totals: ImpactTotals; rejected: CleanupDetails[] }> {
+  const submissionIds = await getUserSubmissions(userAddress)
+  const details = await getCleanupDetailsBatch(submissionIds)
+  const rejected = details
+    .filter((cleanup): cleanup is CleanupDetails => Boolean(cleanup?.rejected))
+    .sort((a, b) => Number(b.id - a.id))
+    .slice(0, MAX_REJECTIONS_SHOWN)
+  const reportHashes = details
+    .filter((cleanup) => cleanup?.verified && cleanup.hasImpactForm && cleanup.impactFormDataHash)
+    .map((cleanup) => cleanup!.impactFormDataHash!)
+
+  const results = await Promise.allSettled(reportHashes.map((hash) => fetchImpactReport(hash)))
+  const reports: ImpactReport[] = []
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      reports.push(result.value.report)
+    } else {
+      console.warn('[Profile] Could not load impact report', reportHashes[index], result.reason)
+    }
+  })
+  return { totals: summarizeImpactReports(reports), rejected }
+}
+
 function extractImpactStats(metadata: ImpactMetadata | null) {
   let impactValue: string | null = null
   let dcuReward: string | null = null
@@ -89,18 +120,29 @@ export default function ProfilePage() {
     verified: boolean
     claimed: boolean
     level: number
+    // Verified cleanups claimed together, one level each
+    claimableLevels: number
     loading: boolean
   } | null>(null)
   const [isClaiming, setIsClaiming] = useState(false)
+  const [claimFeeInfo, setClaimFeeInfo] = useState<{ fee: bigint; enabled: boolean } | null>(null)
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [sharing, setSharing] = useState(false)
   const [copyingField, setCopyingField] = useState<string | null>(null)
+  const [impactTotals, setImpactTotals] = useState<ImpactTotals | null>(null)
+  const [loadingImpactTotals, setLoadingImpactTotals] = useState(false)
+  const [rejectedCleanups, setRejectedCleanups] = useState<CleanupDetails[]>([])
 
   // Prevent hydration mismatch by ensuring we render only after mounting
   useEffect(() => {
     setHasMounted(true)
   }, [])
 
+  // Claim fee per level, shown with the claim button
+  useEffect(() => {
+    getClaimFee().then(setClaimFeeInfo)
+  }, [])
+
   const loadProfileData = useCallback(
     async (userAddress: Address, options?: { showSpinner?: boolean }) => {
       const showSpinner = options?.showSpinner ?? true
@@ -138,65 +180,23 @@ export default function ProfilePage() {
             }
 
 
-            const convertIPFSToGateway = (ipfsUrl: string, gateways?: string[]) => {
-              if (!ipfsUrl.startsWith('ipfs://')) {
-                return ipfsUrl
-              }
-              let path = ipfsUrl.replace('ipfs://', '').replace(/\/+/g, '/')
-              if (path.startsWith('/')) path = path.substring(1)
-
-              const defaultGateways = [
-                process.env.NEXT_PUBLIC_IPFS_GATEWAY || 'https://gateway.pinata.cloud/ipfs/',
-                'https://ipfs.io/ipfs/',
-                'https://cloudflare-ipfs.com/ipfs/',
-                'https://dweb.link/ipfs/',
-              ]
-              const gatewayList = gateways || defaultGateways
-              return `${gatewayList[0]}${path} `
-            }
+            const convertIPFSToGateway = (ipfsUrl: string) =>
+              ipfsUrl.startsWith('ipfs://') ? getIPFSUrl(ipfsUrl.replace('ipfs://', '').replace(/^\/+/, '')) : ipfsUrl
 
-            const fetchWithFallback = async (ipfsUrl: string): Promise<Response> => {
-              if (!ipfsUrl.startsWith('ipfs://')) {
-                return fetch(ipfsUrl)
+            const fetchMetadata = async (uri: string): Promise<ImpactMetadata> => {
+              if (uri.startsWith('ipfs://')) {
+                return fetchIPFSJSON<ImpactMetadata>(uri)
               }
-
-              const gateways = [
-                process.env.NEXT_PUBLIC_IPFS_GATEWAY || 'https://gateway.pinata.cloud/ipfs/',
-                'https://ipfs.io/ipfs/',
-                'https://cloudflare-ipfs.com/ipfs/',
-                'https://dweb.link/ipfs/',
-              ]
-
-              let path = ipfsUrl.replace('ipfs://', '').replace(/\/+/g, '/')
-              if (path.startsWith('/')) path = path.substring(1)
-
-              for (const gateway of gateways) {
-                try {
-                  const url = `${gateway}${path} `
-                  const response = await fetch(url, {
-                    method: 'GET',
-                    headers: { Accept: 'application/json' },
-                    redirect: 'follow',
-                  })
-                  if (response.ok) {
-                    return response
-                  }
-                } catch (error) {
-                  console.warn(`Gateway ${gateway} failed: `, error)
-                }
+              const response = await fetch(uri)
+              if (!response.ok) {
+                throw new Error(`Failed to fetch metadata: ${response.status} ${response.statusText}`)
               }
-
-              throw new Error(`All IPFS gateways failed for: ${ipfsUrl} `)
+              return (await response.json()) as ImpactMetadata
             }
 
             if (tokenURI) {
               try {
-                const metadataResponse = await fetchWithFallback(tokenURI)
-                if (!metadataResponse.ok) {
-                  throw new Error(`Failed to fetch metadata: ${metadataResponse.status} ${metadataResponse.statusText} `)
-                }
-
-                metadata = (await metadataResponse.json()) as ImpactMetadata
+                metadata = await fetchMetadata(tokenURI)
                 const stats = extractImpactStats(metadata)
                 impactValue = stats.impactValue
                 dcuReward = stats.dcuReward
@@ -230,19 +230,15 @@ export default function ProfilePage() {
                 const fallbackCID = process.env.NEXT_PUBLIC_IMPACT_METADATA_CID
                 if (fallbackCID && level > 0) {
                   try {
-                    const fallbackUrl = `https://gateway.pinata.cloud/ipfs/${fallbackCID}/level${level}.json`
-                    const fallbackResponse = await fetch(fallbackUrl)
-                    if (fallbackResponse.ok) {
-                      metadata = (await fallbackResponse.json()) as ImpactMetadata
-                      const stats = extractImpactStats(metadata)
-                      impactValue = stats.impactValue
-                      dcuReward = stats.dcuReward
-                      if (metadata?.image) {
-                        imageUrl = convertIPFSToGateway(metadata.image)
-                      }
-                      if (metadata?.animation_url) {
-                        animationUrl = convertIPFSToGateway(metadata.animation_url)
-                      }
+                    metadata = await fetchIPFSJSON<ImpactMetadata>(`${fallbackCID}/level${level}.json`)
+                    const stats = extractImpactStats(metadata)
+                    impactValue = stats.impactValue
+                    dcuReward = stats.dcuReward
+                    if (metadata?.image) {
+                      imageUrl = convertIPFSToGateway(metadata.image)
+                    }
+                    if (metadata?.animation_url) {
+                      animationUrl = convertIPFSToGateway(metadata.animation_url)
                     }
                   } catch (fallbackError) {
                     console.error('❌ Fallback also failed:', fallbackError)
@@ -315,6 +311,31 @@ export default function ProfilePage() {
     }
   }, [address, isConnected, loadProfileData])
 
+  useEffect(() => {
+    if (!isConnected || !address) {
+      setImpactTotals(null)
+      setRejectedCleanups([])
+      return
+    }
+
+    let cancelled = false
+    setLoadingImpactTotals(true)
+    loadSubmissionHistory(address)
+      .then(({ totals, rejected }) => {
+        if (cancelled) return
+        setImpactTotals(totals)
+        setRejectedCleanups(rejected)
+      })
+      .catch((error) => console.error('[Profile] Error loading reported impact:', error))
+      .finally(() => {
+        if (!cancelled) setLoadingImpactTotals(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [address, isConnected])
+
   // Check for pending cleanup status (single source of truth = verification.ts)
 useEffect(() => {
   if (!isConnected || !address) {
@@ -337,8 +358,9 @@ useEffect(() => {
         setCleanupStatus({
           cleanupId: status.cleanupId,
           verified: true, // canClaim means it's verified
-          claimed: false, // we don't track claimed here; claim clears pending
-          level: 1, // Default level for verified cleanup
+          claimed: false, // claimed cleanups no longer count towards claimableLevels
+          level: status.level || 1,
+          claimableLevels: status.claimableLevels || 1,
           loading: false,
         })
       } else if (status.hasPendingCleanup && status.cleanupId) {
@@ -348,6 +370,7 @@ useEffect(() => {
           verified: false,
           claimed: false,
           level: 0,
+          claimableLevels: 0,
           loading: false,
         })
       } else {
@@ -505,7 +528,9 @@ useEffect(() => {
               canClaim: cleanupStatus.verified && !cleanupStatus.claimed,
               cleanupId: cleanupStatus.cleanupId,
               level: cleanupStatus.level,
+              claimableLevels: cleanupStatus.claimableLevels,
             } : null}
+            claimFeeInfo={claimFeeInfo}
             onClaim={async () => {
               // IMPORTANT: Check for null/undefined explicitly, not truthiness, because cleanup ID 0 is valid!
               if (cleanupStatus?.cleanupId === undefined || cleanupStatus?.cleanupId === null || isClaiming) {
@@ -519,16 +544,14 @@ useEffect(() => {
               try {
                 setIsClaiming(true)
             
-                await claimImpactProductFromVerification(cleanupStatus.cleanupId)
-
-                // Mark as claimed in localStorage
-                if (address && cleanupStatus.cleanupId) {
-                  markCleanupAsClaimed(address as Address, cleanupStatus.cleanupId)
-                }
+                const levels = cleanupStatus.claimableLevels
+                await claimImpactProductFromVerification(cleanupStatus.cleanupId, levels)
 
                 alert(
                   `✅ Claim submitted!\n\n` +
-                  `Your claim transaction was sent.\n\n` +
+                  (levels > 1
+                    ? `Your transaction claiming ${levels} levels was sent.\n\n`
+                    : `Your claim transaction was sent.\n\n`) +
                   `Please wait for confirmation and refresh the page in a moment.`
                 )
             
@@ -549,6 +572,7 @@ useEffect(() => {
                     verified: newStatus.hasPendingCleanup && !newStatus.canSubmit,
                     claimed: !newStatus.canClaim && newStatus.hasPendingCleanup,
                     level: newStatus.level || (newStatus.canClaim ? 1 : 0),
+                    claimableLevels: newStatus.claimableLevels ?? 0,
                     loading: false,
                   } : null)
                 }
@@ -564,6 +588,33 @@ useEffect(() => {
             isClaiming={isClaiming}
           />
         </div>
+
+        <DashboardReportedImpact totals={impactTotals} loading={loadingImpactTotals} />
+
+        {rejectedCleanups.length > 0 && (
+          <div className="mt-6">
+            <h2 className="mb-3 text-lg font-bold uppercase tracking-wide text-white">Rejected cleanups</h2>
+            <div className="space-y-3">
+              {rejectedCleanups.map((cleanup) => (
+                <div key={cleanup.id.toString()} className="space-y-2">
+                  <RejectionNotice
+                    cleanupId={cleanup.id}
+                    reason={cleanup.rejectionReason}
+                    noteCID={cleanup.rejectionNoteCID}
+                  />
+                  {!!cleanup.feePaid && (
+                    <FeeDisplay
+                      feeAmount={cleanup.feePaid}
+                      type="submission"
+                      feeUSD=""
+                      refundStatus={getFeeRefundStatus(cleanup)}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,67 @@
+'use client'
+
+import { Copy } from 'lucide-react'
+import { getIPFSUrl } from '@/lib/blockchain/ipfs'
+import type { PhotoDuplicate } from '@/lib/blockchain/photo-hash-index'
+
+interface DuplicatePhotoWarningProps {
+  duplicates: PhotoDuplicate[]
+}
+
+const label = (role: PhotoDuplicate['role']) => (role === 'before' ? 'Before' : 'After')
+
+function describeMatch(duplicate: PhotoDuplicate): string {
+  const similarity = duplicate.distance === 0 ? 'is identical to' : 'closely matches'
+  const matchPhoto = `${duplicate.match.role} photo`
+  if (duplicate.kind === 'before_equals_after') {
+    return `After photo ${similarity} the before photo of this submission`
+  }
+  if (duplicate.kind === 'manifest_mismatch') {
+    return `${label(duplicate.role)} photo doesn't match the hash its submission manifest claims (${duplicate.distance} of 64 bits differ)`
+  }
+  const owner =
+    duplicate.kind === 'cross_wallet'
+      ? ` from another wallet (${duplicate.match.submitter.slice(0, 6)}...${duplicate.match.submitter.slice(-4)})`
+      : ' from the same wallet'
+  return `${label(duplicate.role)} photo ${similarity} the ${matchPhoto} of Cleanup #${duplicate.match.submissionId}${owner}`
+}
+
+export function DuplicatePhotoWarning({ duplicates }: DuplicatePhotoWarningProps) {
+  if (duplicates.length === 0) return null
+
+  return (
+    <div className="mb-4 rounded-lg border border-red-500/50 bg-red-500/10 p-3 text-sm">
+      <p className="mb-2 flex items-center gap-2 font-semibold uppercase tracking-wide text-red-300">
+        <Copy className="h-4 w-4" />
+        Possible reused photos
+      </p>
+      <ul className="space-y-1">
+        {duplicates.map((duplicate) => (
+          <li
+            key={`${duplicate.role}-${duplicate.match.submissionId}-${duplicate.match.role}`}
+            className="text-red-200"
+          >
+            {describeMatch(duplicate)}
+            {(duplicate.kind === 'same_wallet' || duplicate.kind === 'cross_wallet') && (
+              <>
+                {' · '}
+                <a href={`#cleanup-${duplicate.match.submissionId}`} className="underline hover:text-red-100">
+                  Go to cleanup
+                </a>
+              </>
+            )}
+            {' · '}
+            <a
+              href={getIPFSUrl(duplicate.match.cid)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline hover:text-red-100"
+            >
+              View photo
+            </a>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
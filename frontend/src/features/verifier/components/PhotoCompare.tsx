@@ -0,0 +1,161 @@
+'use client'
+
+import { useEffect, useRef, useState, type MouseEvent, type PointerEvent, type ReactNode } from 'react'
+import { IPFSImage } from '@/components/ui/ipfs-image'
+import { INITIAL_PHOTO_VIEW, panPhotoView, zoomPhotoView, type PhotoView } from '@/lib/utils/review-mode'
+
+export type CompareMode = 'side-by-side' | 'overlay'
+
+interface PhotoCompareProps {
+  beforePhotoHash: string
+  afterPhotoHash: string
+  mode: CompareMode
+  // Shared by both photos, so zooming or panning one moves the other
+  view: PhotoView
+  onViewChange: (view: PhotoView) => void
+}
+
+const WHEEL_ZOOM_FACTOR = 1.2
+const DOUBLE_CLICK_ZOOM = 2.5
+
+interface ViewerProps {
+  view: PhotoView
+  onViewChange: (view: PhotoView) => void
+  children: ReactNode
+  label?: string
+}
+
+/** Zoomable, pannable frame: wheel or double-click to zoom, drag to pan */
+function Viewer({ view, onViewChange, children, label }: ViewerProps) {
+  const frameRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<{ x: number; y: number } | null>(null)
+  // The wheel listener is registered once, read the latest props through refs
+  const viewRef = useRef(view)
+  const onViewChangeRef = useRef(onViewChange)
+  viewRef.current = view
+  onViewChangeRef.current = onViewChange
+
+  const pointIn = (rect: DOMRect, clientX: number, clientY: number) => ({
+    x: (clientX - rect.left) / rect.width,
+    y: (clientY - rect.top) / rect.height,
+  })
+
+  // React registers wheel listeners as passive, so the page would scroll along
+  useEffect(() => {
+    const frame = frameRef.current
+    if (!frame) return
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const factor = event.deltaY < 0 ? WHEEL_ZOOM_FACTOR : 1 / WHEEL_ZOOM_FACTOR
+      const point = pointIn(frame.getBoundingClientRect(), event.clientX, event.clientY)
+      onViewChangeRef.current(zoomPhotoView(viewRef.current, factor, point))
+    }
+    frame.addEventListener('wheel', onWheel, { passive: false })
+    return () => frame.removeEventListener('wheel', onWheel)
+  }, [])
+
+  function handlePointerDown(event: PointerEvent<HTMLDivElement>) {
+    if (view.scale === 1) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragRef.current = { x: event.clientX, y: event.clientY }
+  }
+
+  function handlePointerMove(event: PointerEvent<HTMLDivElement>) {
+    if (!dragRef.current) return
+    const rect = event.currentTarget.getBoundingClientRect()
+    const dx = (event.clientX - dragRef.current.x) / rect.width
+    const dy = (event.clientY - dragRef.current.y) / rect.height
+    dragRef.current = { x: event.clientX, y: event.clientY }
+    onViewChange(panPhotoView(view, dx, dy))
+  }
+
+  function handleDoubleClick(event: MouseEvent<HTMLDivElement>) {
+    const point = pointIn(event.currentTarget.getBoundingClientRect(), event.clientX, event.clientY)
+    onViewChange(view.scale > 1 ? INITIAL_PHOTO_VIEW : zoomPhotoView(view, DOUBLE_CLICK_ZOOM, point))
+  }
+
+  return (
+    <div
+      ref={frameRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => (dragRef.current = null)}
+      onPointerCancel={() => (dragRef.current = null)}
+      onDoubleClick={handleDoubleClick}
+      className={`relative h-full w-full touch-none select-none overflow-hidden rounded-lg border border-gray-700 bg-black ${
+        view.scale > 1 ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'
+      }`}
+    >
+      {children}
+      {label && (
+        <span className="pointer-events-none absolute left-2 top-2 rounded bg-black/70 px-2 py-0.5 text-xs uppercase text-gray-200">
+          {label}
+        </span>
+      )}
+    </div>
+  )
+}
+
+function Layer({ cid, alt, view }: { cid: string; alt: string; view: PhotoView }) {
+  return (
+    <div
+      className="absolute inset-0 origin-top-left"
+      style={{ transform: `translate(${view.x * 100}%, ${view.y * 100}%) scale(${view.scale})` }}
+    >
+      <IPFSImage cid={cid} alt={alt} draggable={false} className="h-full w-full object-contain" />
+    </div>
+  )
+}
+
+/**
+ * Before and after photos with synchronized zoom and pan
+ * Side by side, or stacked with a slider revealing the after photo.
+ */
+export function PhotoCompare({ beforePhotoHash, afterPhotoHash, mode, view, onViewChange }: PhotoCompareProps) {
+  // Percentage of the frame showing the before photo
+  const [split, setSplit] = useState(50)
+
+  if (mode === 'side-by-side') {
+    return (
+      <div className="grid h-full grid-cols-2 gap-2">
+        <Viewer view={view} onViewChange={onViewChange} label="Before">
+          <Layer cid={beforePhotoHash} alt="Before" view={view} />
+        </Viewer>
+        <Viewer view={view} onViewChange={onViewChange} label="After">
+          <Layer cid={afterPhotoHash} alt="After" view={view} />
+        </Viewer>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex h-full flex-col gap-2">
+      <div className="min-h-0 flex-1">
+        <Viewer view={view} onViewChange={onViewChange}>
+          <Layer cid={beforePhotoHash} alt="Before" view={view} />
+          <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${split}%)` }}>
+            <Layer cid={afterPhotoHash} alt="After" view={view} />
+          </div>
+          <div className="pointer-events-none absolute inset-y-0 w-0.5 bg-brand-green" style={{ left: `${split}%` }} />
+          <span className="pointer-events-none absolute left-2 top-2 rounded bg-black/70 px-2 py-0.5 text-xs uppercase text-gray-200">
+            Before
+          </span>
+          <span className="pointer-events-none absolute right-2 top-2 rounded bg-black/70 px-2 py-0.5 text-xs uppercase text-gray-200">
+            After
+          </span>
+        </Viewer>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={split}
+        onChange={(e) => setSplit(Number(e.target.value))}
+        // Don't keep focus, or the review shortcuts stop working
+        onPointerUp={(e) => e.currentTarget.blur()}
+        aria-label="Before/after split"
+        className="w-full accent-brand-green"
+      />
+    </div>
+  )
+}
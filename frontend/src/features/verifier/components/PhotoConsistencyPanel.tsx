@@ -0,0 +1,202 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertTriangle, CheckCircle, Info, Loader2 } from 'lucide-react'
+import { fetchIPFSBlob, getIPFSUrl } from '@/lib/blockchain/ipfs'
+import {
+  checkPhotoConsistency,
+  extractPhotoMetadata,
+  type PhotoFinding,
+  type PhotoMetadata,
+  type PrivateMetadata,
+} from '@/lib/utils/photo-metadata'
+import { fetchSubmissionManifest, getManifestCid } from '@/lib/utils/submission-manifest'
+
+interface PhotoConsistencyPanelProps {
+  dataURI?: string
+  beforePhotoHash: string
+  afterPhotoHash: string
+  // Scaled by 1e6, as stored on-chain
+  latitude: bigint
+  longitude: bigint
+  // Unix seconds
+  timestamp: bigint
+}
+
+interface PhotoChecks {
+  manifestCid: string | null
+  // Read from the uploaded photos
+  before: PhotoMetadata | null
+  after: PhotoMetadata | null
+  // Metadata the submitter kept private, so it can't be checked here
+  hidden: { before: PrivateMetadata[]; after: PrivateMetadata[] }
+  // Computed here from the uploaded photos and the on-chain location and time
+  findings: PhotoFinding[]
+  // Manifest findings not confirmed above. The submitter's app wrote them (they may
+  // cover private metadata), so they are shown but never trusted on their own.
+  selfReported: PhotoFinding[]
+}
+
+async function readPhotoMetadata(hash: string): Promise<PhotoMetadata | null> {
+  if (!hash) return null
+  try {
+    return await extractPhotoMetadata(await fetchIPFSBlob(hash))
+  } catch (error) {
+    console.warn('[PhotoChecks] Could not fetch photo', hash, error)
+    return null
+  }
+}
+
+async function loadPhotoChecks(props: PhotoConsistencyPanelProps): Promise<PhotoChecks> {
+  const manifestCid = getManifestCid(props.dataURI, props.beforePhotoHash)
+  const [before, after, manifest] = await Promise.all([
+    readPhotoMetadata(props.beforePhotoHash),
+    readPhotoMetadata(props.afterPhotoHash),
+    manifestCid
+      ? fetchSubmissionManifest(manifestCid).catch((error) => {
+          console.warn('[PhotoChecks] Could not load submission manifest:', error)
+          return null
+        })
+      : null,
+  ])
+
+  const findings = checkPhotoConsistency({
+    before,
+    after,
+    location: { lat: Number(props.latitude) / 1e6, lng: Number(props.longitude) / 1e6 },
+    submittedAt: new Date(Number(props.timestamp) * 1000),
+  })
+  const found = new Set(findings.map((finding) => `${finding.code}-${finding.photo}`))
+  const hidden = { before: manifest?.photos.before.hidden ?? [], after: manifest?.photos.after.hidden ?? [] }
+
+  return {
+    manifestCid,
+    before,
+    after,
+    hidden,
+    // A position the submitter kept private is missing from the public copy by design
+    findings: findings.map((finding) =>
+      finding.code === 'NO_GPS' && finding.photo !== 'both' && hidden[finding.photo].includes('location')
+        ? { ...finding, message: `${finding.message} (kept private by the submitter)` }
+        : finding
+    ),
+    selfReported: (manifest?.findings ?? []).filter((finding) => !found.has(`${finding.code}-${finding.photo}`)),
+  }
+}
+
+function describeMetadata(metadata: PhotoMetadata | null, hidden: PrivateMetadata[]): string {
+  if (!metadata) return 'unavailable'
+  const parts = [
+    metadata.capturedAt ? new Date(metadata.capturedAt).toLocaleString() : 'no capture time',
+    hidden.includes('device') ? 'device private' : [metadata.make, metadata.model].filter(Boolean).join(' ') || null,
+    hidden.includes('location')
+      ? 'GPS private'
+      : metadata.gps
+        ? `GPS ${metadata.gps.lat.toFixed(5)}, ${metadata.gps.lng.toFixed(5)}`
+        : 'no GPS',
+  ]
+  return parts.filter(Boolean).join(' · ')
+}
+
+export function PhotoConsistencyPanel(props: PhotoConsistencyPanelProps) {
+  const { dataURI, beforePhotoHash, afterPhotoHash, latitude, longitude, timestamp } = props
+  const [checks, setChecks] = useState<PhotoChecks | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    loadPhotoChecks({ dataURI, beforePhotoHash, afterPhotoHash, latitude, longitude, timestamp })
+      .then((result) => {
+        if (!cancelled) setChecks(result)
+      })
+      .catch((error) => console.error('[PhotoChecks] Failed to check photos:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [dataURI, beforePhotoHash, afterPhotoHash, latitude, longitude, timestamp])
+
+  if (loading) {
+    return (
+      <div className="mb-4 flex items-center gap-2 rounded-lg border border-gray-700 bg-gray-800 p-3 text-sm text-gray-400">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Checking photo metadata...
+      </div>
+    )
+  }
+
+  if (!checks) return null
+
+  const warnings = checks.findings.filter((finding) => finding.severity === 'warning')
+  const notes = checks.findings.filter((finding) => finding.severity === 'info')
+
+  return (
+    <div
+      className={`mb-4 rounded-lg border p-3 text-sm ${
+        warnings.length > 0 ? 'border-yellow-500/50 bg-yellow-500/10' : 'border-gray-700 bg-gray-800'
+      }`}
+    >
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <p className="font-semibold uppercase tracking-wide text-gray-200">Photo Checks</p>
+        {checks.manifestCid && (
+          <a
+            href={getIPFSUrl(checks.manifestCid)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs text-gray-400 underline hover:text-gray-200"
+          >
+            View manifest
+          </a>
+        )}
+      </div>
+
+      {checks.findings.length === 0 && (
+        <p className="flex items-center gap-2 text-green-300">
+          <CheckCircle className="h-4 w-4" />
+          Photo metadata matches the submitted location and time
+        </p>
+      )}
+      <ul className="space-y-1">
+        {warnings.map((finding) => (
+          <li key={`${finding.code}-${finding.photo}`} className="flex items-start gap-2 text-yellow-200">
+            <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+            {finding.message}
+          </li>
+        ))}
+        {notes.map((finding) => (
+          <li key={`${finding.code}-${finding.photo}`} className="flex items-start gap-2 text-gray-400">
+            <Info className="mt-0.5 h-4 w-4 flex-shrink-0" />
+            {finding.message}
+          </li>
+        ))}
+      </ul>
+
+      {checks.selfReported.length > 0 && (
+        <div className="mt-2">
+          <p className="text-xs uppercase text-gray-500">Self-reported by the submitter&apos;s app (unverified)</p>
+          <ul className="mt-1 space-y-1">
+            {checks.selfReported.map((finding) => (
+              <li key={`${finding.code}-${finding.photo}`} className="flex items-start gap-2 text-gray-400">
+                {finding.severity === 'warning' ? (
+                  <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                ) : (
+                  <Info className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                )}
+                {finding.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="mt-2 space-y-0.5 text-xs text-gray-500">
+        <p>Before: {describeMetadata(checks.before, checks.hidden.before)}</p>
+        <p>After: {describeMetadata(checks.after, checks.hidden.after)}</p>
+        <p>Read from the uploaded photos and checked against the on-chain location and time.</p>
+      </div>
+    </div>
+  )
+}
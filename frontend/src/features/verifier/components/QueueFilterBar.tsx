@@ -0,0 +1,283 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Crosshair, Filter, Loader2, Search, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DEFAULT_QUEUE_FILTERS,
+  countActiveFilters,
+  isEnsName,
+  type QueueFilters,
+  type QueueSort,
+  type QueueStatusFilter,
+} from '@/lib/utils/queue-filters'
+
+interface QueueFilterBarProps {
+  filters: QueueFilters
+  onChange: (filters: QueueFilters) => void
+  shown: number
+  total: number
+  // ENS lookup for the submitter filter: undefined while resolving
+  submitterAddress?: string | null
+  // Place names still being looked up for the region filter / query
+  placesPending: number
+}
+
+const inputClass =
+  'w-full rounded-lg border border-gray-700 bg-black px-3 py-2 text-sm text-white placeholder-gray-500 focus:border-brand-green focus:outline-none'
+const labelClass = 'mb-1 block text-xs uppercase text-gray-400'
+
+type NearDraft = { lat: string; lng: string; radiusKm: string }
+
+const EMPTY_NEAR: NearDraft = { lat: '', lng: '', radiusKm: '' }
+
+function parseNearDraft(draft: NearDraft): QueueFilters['near'] {
+  const [lat, lng, radiusKm] = [draft.lat, draft.lng, draft.radiusKm].map((value) => (value.trim() ? Number(value) : NaN))
+  const valid = [lat, lng, radiusKm].every(Number.isFinite) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 && radiusKm > 0
+  return valid ? { lat, lng, radiusKm } : null
+}
+
+const nearKey = (near: QueueFilters['near']) => (near ? `${near.lat},${near.lng},${near.radiusKm}` : '')
+
+const flagValue = (value: boolean | null) => (value === null ? '' : value ? 'yes' : 'no')
+const parseFlag = (value: string) => (value === 'yes' ? true : value === 'no' ? false : null)
+
+function FlagSelect({ label, value, onChange, yes = 'Yes', no = 'No' }: {
+  label: string
+  value: boolean | null
+  onChange: (value: boolean | null) => void
+  yes?: string
+  no?: string
+}) {
+  return (
+    <label>
+      <span className={labelClass}>{label}</span>
+      <select value={flagValue(value)} onChange={(e) => onChange(parseFlag(e.target.value))} className={inputClass}>
+        <option value="">Any</option>
+        <option value="yes">{yes}</option>
+        <option value="no">{no}</option>
+      </select>
+    </label>
+  )
+}
+
+/** Query bar and filters above the verifier queue */
+export function QueueFilterBar({ filters, onChange, shown, total, submitterAddress, placesPending }: QueueFilterBarProps) {
+  const [expanded, setExpanded] = useState(() => countActiveFilters({ ...filters, query: '' }) > 0)
+  // The point is only applied once all three fields are valid
+  const [near, setNear] = useState<NearDraft>(EMPTY_NEAR)
+  const [locating, setLocating] = useState(false)
+  const active = countActiveFilters(filters)
+
+  const set = <K extends keyof QueueFilters>(key: K, value: QueueFilters[K]) => onChange({ ...filters, [key]: value })
+
+  // Follow the URL (back/forward, cleared filters) without touching a draft that is being typed
+  const appliedNear = nearKey(filters.near)
+  useEffect(() => {
+    setNear((draft) => {
+      if (nearKey(parseNearDraft(draft)) === appliedNear) return draft
+      return filters.near
+        ? { lat: String(filters.near.lat), lng: String(filters.near.lng), radiusKm: String(filters.near.radiusKm) }
+        : EMPTY_NEAR
+    })
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [appliedNear])
+
+  function updateNear(draft: NearDraft) {
+    setNear(draft)
+    const point = parseNearDraft(draft)
+    if (nearKey(point) === appliedNear) return
+    onChange({ ...filters, near: point, sort: !point && filters.sort === 'nearest' ? 'newest' : filters.sort })
+  }
+
+  function fillMyLocation() {
+    if (!navigator.geolocation) return
+    setLocating(true)
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocating(false)
+        updateNear({
+          lat: position.coords.latitude.toFixed(5),
+          lng: position.coords.longitude.toFixed(5),
+          radiusKm: near.radiusKm || '10',
+        })
+      },
+      (error) => {
+        setLocating(false)
+        console.warn('Could not get the current location:', error)
+      }
+    )
+  }
+
+  return (
+    <div className="mb-6 rounded-lg border border-gray-800 bg-gray-900 p-4">
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <div className="relative flex-1">
+          <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-500" />
+          <input
+            type="search"
+            value={filters.query}
+            onChange={(e) => set('query', e.target.value)}
+            placeholder="Search by cleanup ID (#12), address or place"
+            className={`${inputClass} pl-9`}
+          />
+        </div>
+        <select
+          value={filters.sort}
+          onChange={(e) => set('sort', e.target.value as QueueSort)}
+          aria-label="Sort"
+          className={`${inputClass} sm:w-44`}
+        >
+          <option value="newest">Newest first</option>
+          <option value="oldest">Oldest first</option>
+          <option value="nearest" disabled={!filters.near}>Nearest first</option>
+        </select>
+        <Button
+          onClick={() => setExpanded((open) => !open)}
+          variant="outline"
+          className="gap-2 border-gray-700 bg-gray-900 text-white hover:bg-gray-800"
+        >
+          <Filter className="h-4 w-4" />
+          Filters{active > 0 && ` (${active})`}
+        </Button>
+      </div>
+
+      {expanded && (
+        <div className="mt-4 grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          <label>
+            <span className={labelClass}>Status</span>
+            <select
+              value={filters.status}
+              onChange={(e) => set('status', e.target.value as QueueStatusFilter)}
+              className={inputClass}
+            >
+              <option value="all">All</option>
+              <option value="pending">Pending</option>
+              <option value="verified">Verified</option>
+              <option value="rejected">Rejected</option>
+            </select>
+          </label>
+          <label>
+            <span className={labelClass}>Submitted from</span>
+            <input
+              type="date"
+              value={filters.from ?? ''}
+              onChange={(e) => set('from', e.target.value || null)}
+              className={inputClass}
+            />
+          </label>
+          <label>
+            <span className={labelClass}>Submitted until</span>
+            <input
+              type="date"
+              value={filters.to ?? ''}
+              onChange={(e) => set('to', e.target.value || null)}
+              className={inputClass}
+            />
+          </label>
+          <label>
+            <span className={labelClass}>Submitter</span>
+            <input
+              type="text"
+              value={filters.submitter}
+              onChange={(e) => set('submitter', e.target.value)}
+              placeholder="0x…, …2493 or name.eth"
+              className={inputClass}
+            />
+            {isEnsName(filters.submitter) && (
+              <span className="mt-1 block truncate text-xs text-gray-500">
+                {submitterAddress === undefined
+                  ? 'Resolving…'
+                  : submitterAddress ?? 'This ENS name does not resolve'}
+              </span>
+            )}
+          </label>
+          <FlagSelect label="Impact report" value={filters.impactForm} onChange={(value) => set('impactForm', value)} />
+          <FlagSelect label="Recyclables" value={filters.recyclables} onChange={(value) => set('recyclables', value)} />
+          <FlagSelect
+            label="Submission fee"
+            value={filters.feePaid}
+            onChange={(value) => set('feePaid', value)}
+            yes="Paid"
+            no="Not paid"
+          />
+          <label>
+            <span className={labelClass}>Country / region</span>
+            <input
+              type="text"
+              value={filters.region}
+              onChange={(e) => set('region', e.target.value)}
+              placeholder="e.g. Kenya, KE or Nairobi"
+              className={inputClass}
+            />
+          </label>
+          <div className="sm:col-span-2">
+            <span className={labelClass}>Within distance of</span>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                step="any"
+                value={near.lat}
+                onChange={(e) => updateNear({ ...near, lat: e.target.value })}
+                placeholder="Latitude"
+                aria-label="Latitude"
+                className={inputClass}
+              />
+              <input
+                type="number"
+                step="any"
+                value={near.lng}
+                onChange={(e) => updateNear({ ...near, lng: e.target.value })}
+                placeholder="Longitude"
+                aria-label="Longitude"
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={near.radiusKm}
+                onChange={(e) => updateNear({ ...near, radiusKm: e.target.value })}
+                placeholder="km"
+                aria-label="Radius in km"
+                className={`${inputClass} w-24`}
+              />
+              <Button
+                onClick={fillMyLocation}
+                disabled={locating}
+                variant="outline"
+                size="icon"
+                aria-label="Use my location"
+                className="shrink-0 border-gray-700 bg-gray-900 text-white hover:bg-gray-800"
+              >
+                {locating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Crosshair className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-3 flex flex-wrap items-center justify-between gap-2 text-xs text-gray-400">
+        <span>
+          Showing {shown} of {total} cleanup(s)
+          {placesPending > 0 && (
+            <span className="ml-2 inline-flex items-center gap-1 text-yellow-400">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Looking up {placesPending} location(s)…
+            </span>
+          )}
+        </span>
+        {active > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange({ ...DEFAULT_QUEUE_FILTERS, sort: filters.sort === 'nearest' ? 'newest' : filters.sort })}
+            className="inline-flex items-center gap-1 text-gray-400 hover:text-white"
+          >
+            <X className="h-3 w-3" />
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
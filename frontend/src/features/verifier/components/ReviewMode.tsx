@@ -0,0 +1,486 @@
+'use client'
+
+import { useEffect, useRef, useState, type ReactNode } from 'react'
+import type { Address } from 'viem'
+import {
+  Calendar,
+  CheckCircle,
+  ChevronLeft,
+  ChevronRight,
+  Columns2,
+  Keyboard,
+  Loader2,
+  MapPin,
+  Maximize2,
+  Recycle,
+  SkipForward,
+  SplitSquareHorizontal,
+  User,
+  X,
+  XCircle,
+  ZoomIn,
+  ZoomOut,
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { IPFSImage } from '@/components/ui/ipfs-image'
+import { RejectionForm } from '@/components/verifier/RejectionForm'
+import { fetchIPFSContent, parseIPFSRef } from '@/lib/blockchain/ipfs-fetch'
+import type { PhotoDuplicate } from '@/lib/blockchain/photo-hash-index'
+import type { RejectionReason } from '@/lib/utils/rejection-reasons'
+import {
+  INITIAL_PHOTO_VIEW,
+  PHOTO_ZOOM_STEP,
+  REVIEW_SHORTCUTS,
+  deferReviewItem,
+  resolveShortcut,
+  stepReviewItem,
+  syncReviewOrder,
+  upcomingReviewItems,
+  zoomPhotoView,
+  type PhotoView,
+  type ReviewAction,
+} from '@/lib/utils/review-mode'
+import { DuplicatePhotoWarning } from './DuplicatePhotoWarning'
+import { PhotoCompare, type CompareMode } from './PhotoCompare'
+import { PhotoConsistencyPanel } from './PhotoConsistencyPanel'
+
+// Submissions after the current one whose photos and report are fetched ahead
+const PREFETCH_AHEAD = 3
+
+export interface ReviewModeCleanup {
+  id: bigint
+  user: Address
+  beforePhotoHash: string
+  afterPhotoHash: string
+  timestamp: bigint
+  latitude: bigint
+  longitude: bigint
+  dataURI?: string
+  hasImpactForm: boolean
+  impactReportHash: string
+  hasRecyclables?: boolean
+  recyclablesPhotoHash?: string
+  recyclablesReceiptHash?: string
+}
+
+interface ReviewModeProps {
+  // Pending cleanups this verifier may review, in queue order
+  cleanups: ReviewModeCleanup[]
+  duplicates: Map<string, PhotoDuplicate[]>
+  // A review transaction is in flight
+  busy: boolean
+  error?: string | null
+  initialId?: bigint
+  // Resolve true once the decision is recorded on-chain
+  onApprove: (cleanupId: bigint) => Promise<boolean>
+  onReject: (cleanupId: bigint, reason: RejectionReason, note: string) => Promise<boolean>
+  // Called when a submission is shown and when it is left undecided (review claims)
+  onOpen: (cleanupId: bigint) => void
+  onLeave: (cleanupId: bigint) => void
+  renderImpactReport: (cleanup: ReviewModeCleanup) => ReactNode
+  onClose: () => void
+}
+
+function Kbd({ children }: { children: ReactNode }) {
+  return (
+    <kbd className="rounded border border-gray-600 bg-gray-800 px-1.5 py-0.5 font-mono text-xs text-gray-300">
+      {children}
+    </kbd>
+  )
+}
+
+const keyLabel = (key: string) =>
+  key === 'ArrowRight' ? '→' : key === 'ArrowLeft' ? '←' : key === 'Escape' ? 'Esc' : key.toUpperCase()
+
+function prefetch(cleanup: ReviewModeCleanup) {
+  const images = [cleanup.beforePhotoHash, cleanup.afterPhotoHash, cleanup.recyclablesPhotoHash, cleanup.recyclablesReceiptHash]
+  const requests = [
+    ...images.map((ref) => ({ ref, accept: 'image/*' })),
+    { ref: cleanup.impactReportHash, accept: 'application/json' },
+  ]
+  // Fetched content lands in the IPFS cache, where the viewers pick it up
+  for (const { ref, accept } of requests) {
+    if (ref && parseIPFSRef(ref)) {
+      fetchIPFSContent(ref, { accept }).catch((error) => console.debug('Prefetch failed:', ref, error))
+    }
+  }
+}
+
+/**
+ * Focused review of one pending cleanup at a time
+ * Full-screen, keyboard-driven; press ? for the shortcuts.
+ */
+export function ReviewMode({
+  cleanups,
+  duplicates,
+  busy,
+  error,
+  initialId,
+  onApprove,
+  onReject,
+  onOpen,
+  onLeave,
+  renderImpactReport,
+  onClose,
+}: ReviewModeProps) {
+  const ids = cleanups.map((cleanup) => cleanup.id.toString())
+  const [order, setOrder] = useState<string[]>(ids)
+  const [currentId, setCurrentId] = useState<string | null>(
+    initialId !== undefined && ids.includes(initialId.toString()) ? initialId.toString() : ids[0] ?? null
+  )
+  // Decided here, but still pending until the parent reloads the queue
+  const [decided, setDecided] = useState<Set<string>>(new Set())
+  const [compareMode, setCompareMode] = useState<CompareMode>('side-by-side')
+  const [view, setView] = useState<PhotoView>(INITIAL_PHOTO_VIEW)
+  const [rejectOpen, setRejectOpen] = useState(false)
+  const [showHelp, setShowHelp] = useState(false)
+  const prefetched = useRef<Set<string>>(new Set())
+  const decidedRef = useRef(decided)
+  decidedRef.current = decided
+
+  // Follow the parent's queue: keep our order, drop reviewed items, append new ones
+  const idsKey = ids.filter((id) => !decided.has(id)).join(',')
+  useEffect(() => {
+    const next = syncReviewOrder(order, idsKey ? idsKey.split(',') : [])
+    setOrder(next)
+    setCurrentId((current) => (current !== null && next.includes(current) ? current : stepReviewItem(next, current, 1, order)))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [idsKey])
+
+  const current = cleanups.find((cleanup) => cleanup.id.toString() === currentId) ?? null
+  const position = currentId ? order.indexOf(currentId) + 1 : 0
+
+  // Claim the shown submission; release it when moving on without a decision
+  useEffect(() => {
+    if (!current) return
+    const cleanupId = current.id
+    onOpen(cleanupId)
+    setView(INITIAL_PHOTO_VIEW)
+    setRejectOpen(false)
+    return () => {
+      if (!decidedRef.current.has(cleanupId.toString())) onLeave(cleanupId)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [current?.id])
+
+  useEffect(() => {
+    for (const id of upcomingReviewItems(order, currentId, PREFETCH_AHEAD)) {
+      const cleanup = cleanups.find((item) => item.id.toString() === id)
+      if (!cleanup || prefetched.current.has(id)) continue
+      prefetched.current.add(id)
+      prefetch(cleanup)
+    }
+  }, [order, currentId, cleanups])
+
+  function go(step: number) {
+    setCurrentId(stepReviewItem(order, currentId, step))
+  }
+
+  function skip() {
+    if (!currentId) return
+    const next = stepReviewItem(order, currentId, 1)
+    setOrder(deferReviewItem(order, currentId))
+    setCurrentId(next)
+  }
+
+  function markDecided(id: string) {
+    const next = new Set(decided)
+    next.add(id)
+    decidedRef.current = next
+    setDecided(next)
+    const remaining = order.filter((item) => item !== id)
+    setOrder(remaining)
+    setCurrentId(stepReviewItem(remaining, id, 1, order))
+  }
+
+  async function approve() {
+    if (!current || busy) return
+    if (await onApprove(current.id)) markDecided(current.id.toString())
+  }
+
+  async function reject(reason: RejectionReason, note: string) {
+    if (!current || busy) return
+    if (await onReject(current.id, reason, note)) markDecided(current.id.toString())
+  }
+
+  function perform(action: ReviewAction) {
+    switch (action) {
+      case 'approve':
+        if (!rejectOpen) approve()
+        break
+      case 'reject':
+        if (current && !busy) setRejectOpen(true)
+        break
+      case 'skip':
+        skip()
+        break
+      case 'next':
+        go(1)
+        break
+      case 'previous':
+        go(-1)
+        break
+      case 'toggleCompare':
+        setCompareMode((mode) => (mode === 'side-by-side' ? 'overlay' : 'side-by-side'))
+        break
+      case 'zoomIn':
+        setView((previous) => zoomPhotoView(previous, PHOTO_ZOOM_STEP))
+        break
+      case 'zoomOut':
+        setView((previous) => zoomPhotoView(previous, 1 / PHOTO_ZOOM_STEP))
+        break
+      case 'resetZoom':
+        setView(INITIAL_PHOTO_VIEW)
+        break
+      case 'help':
+        setShowHelp((shown) => !shown)
+        break
+      case 'close':
+        if (showHelp) setShowHelp(false)
+        else if (rejectOpen) setRejectOpen(false)
+        else onClose()
+        break
+    }
+  }
+
+  // Re-registered every render so the handler sees the current state
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const action = resolveShortcut(event)
+      if (!action) return
+      event.preventDefault()
+      perform(action)
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  })
+
+  // The page behind stays put while reviewing
+  useEffect(() => {
+    const overflow = document.body.style.overflow
+    document.body.style.overflow = 'hidden'
+    return () => {
+      document.body.style.overflow = overflow
+    }
+  }, [])
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-black/95" role="dialog" aria-modal="true" aria-label="Review mode">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4 border-b border-gray-800 px-4 py-3">
+        <div className="flex items-center gap-3">
+          <h2 className="text-lg font-bold uppercase text-white">Review mode</h2>
+          {current && (
+            <span className="text-sm text-gray-400">
+              Cleanup #{current.id.toString()} · {position} of {order.length}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={() => go(-1)} disabled={order.length < 2} aria-label="Previous submission">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => go(1)} disabled={order.length < 2} aria-label="Next submission">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setShowHelp((shown) => !shown)} className="gap-2 text-gray-300">
+            <Keyboard className="h-4 w-4" />
+            <Kbd>?</Kbd>
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label="Leave review mode" className="text-gray-300">
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mx-4 mt-3 rounded-lg border border-red-500/50 bg-red-500/10 p-3 text-sm text-red-400">{error}</div>
+      )}
+
+      {!current ? (
+        <div className="flex flex-1 flex-col items-center justify-center gap-4 text-gray-400">
+          <CheckCircle className="h-12 w-12 text-brand-green" />
+          <p>No pending cleanups left to review.</p>
+          <Button variant="outline" onClick={onClose}>Back to the dashboard</Button>
+        </div>
+      ) : (
+        <div className="grid min-h-0 flex-1 grid-cols-1 lg:grid-cols-[1fr_400px]">
+          {/* Photos */}
+          <div className="flex min-h-[50vh] flex-col gap-3 p-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                variant={compareMode === 'side-by-side' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setCompareMode('side-by-side')}
+                className="gap-2"
+              >
+                <Columns2 className="h-4 w-4" />
+                Side by side
+              </Button>
+              <Button
+                variant={compareMode === 'overlay' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setCompareMode('overlay')}
+                className="gap-2"
+              >
+                <SplitSquareHorizontal className="h-4 w-4" />
+                Overlay
+              </Button>
+              <div className="ml-auto flex items-center gap-1">
+                <Button variant="ghost" size="sm" onClick={() => perform('zoomOut')} aria-label="Zoom out">
+                  <ZoomOut className="h-4 w-4" />
+                </Button>
+                <span className="w-12 text-center text-xs text-gray-400">{Math.round(view.scale * 100)}%</span>
+                <Button variant="ghost" size="sm" onClick={() => perform('zoomIn')} aria-label="Zoom in">
+                  <ZoomIn className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => perform('resetZoom')} aria-label="Reset zoom">
+                  <Maximize2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="min-h-0 flex-1">
+              <PhotoCompare
+                key={current.id.toString()}
+                beforePhotoHash={current.beforePhotoHash}
+                afterPhotoHash={current.afterPhotoHash}
+                mode={compareMode}
+                view={view}
+                onViewChange={setView}
+              />
+            </div>
+          </div>
+
+          {/* Details */}
+          <div className="min-h-0 space-y-4 overflow-y-auto border-t border-gray-800 p-4 lg:border-l lg:border-t-0">
+            <div className="space-y-2 text-sm text-gray-400">
+              <div className="flex items-center gap-2">
+                <User className="h-4 w-4" />
+                <span className="font-mono text-xs break-all">{current.user}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Calendar className="h-4 w-4" />
+                <span>{new Date(Number(current.timestamp) * 1000).toLocaleString()}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <MapPin className="h-4 w-4" />
+                <span>
+                  {(Number(current.latitude) / 1e6).toFixed(6)}, {(Number(current.longitude) / 1e6).toFixed(6)}
+                </span>
+              </div>
+            </div>
+
+            <DuplicatePhotoWarning duplicates={duplicates.get(current.id.toString()) ?? []} />
+            <PhotoConsistencyPanel
+              key={`consistency-${current.id.toString()}`}
+              dataURI={current.dataURI}
+              beforePhotoHash={current.beforePhotoHash}
+              afterPhotoHash={current.afterPhotoHash}
+              latitude={current.latitude}
+              longitude={current.longitude}
+              timestamp={current.timestamp}
+            />
+
+            {current.hasRecyclables && (
+              <div className="rounded-lg border border-purple-500/40 bg-purple-500/5 p-3 text-sm">
+                <p className="mb-2 flex items-center gap-2 font-semibold text-purple-300">
+                  <Recycle className="h-4 w-4" />
+                  Recyclables evidence
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <p className="mb-1 text-xs text-gray-400">Photo</p>
+                    {current.recyclablesPhotoHash ? (
+                      <IPFSImage cid={current.recyclablesPhotoHash} alt="Recyclables" className="h-28 w-full rounded object-cover" />
+                    ) : (
+                      <p className="text-xs text-gray-500">Not provided</p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="mb-1 text-xs text-gray-400">Receipt</p>
+                    {current.recyclablesReceiptHash ? (
+                      <IPFSImage cid={current.recyclablesReceiptHash} alt="Recycling receipt" className="h-28 w-full rounded object-cover" />
+                    ) : (
+                      <p className="text-xs text-gray-500">Not provided</p>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {current.hasImpactForm && current.impactReportHash ? (
+              renderImpactReport(current)
+            ) : (
+              <div className="rounded-lg border border-gray-700 bg-gray-800 p-3 text-sm text-gray-400">
+                No impact report submitted with this cleanup.
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Actions */}
+      {current && (
+        <div className="border-t border-gray-800 px-4 py-3">
+          {rejectOpen && (
+            <div className="mb-3">
+              <RejectionForm
+                key={current.id.toString()}
+                busy={busy}
+                onCancel={() => setRejectOpen(false)}
+                onConfirm={reject}
+              />
+            </div>
+          )}
+          <div className="flex flex-wrap items-center justify-end gap-3">
+            <Button variant="ghost" onClick={skip} disabled={order.length < 2} className="gap-2 text-gray-300">
+              <SkipForward className="h-4 w-4" />
+              Skip <Kbd>S</Kbd>
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setRejectOpen(true)}
+              disabled={busy || rejectOpen}
+              className="gap-2 border-red-500 text-red-400 hover:bg-red-500/10"
+            >
+              <XCircle className="h-4 w-4" />
+              Reject <Kbd>R</Kbd>
+            </Button>
+            <Button
+              onClick={approve}
+              disabled={busy || rejectOpen}
+              className="gap-2 bg-brand-green text-black hover:bg-brand-green/90"
+            >
+              {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle className="h-4 w-4" />}
+              Approve <Kbd>A</Kbd>
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {showHelp && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/70" onClick={() => setShowHelp(false)}>
+          <div
+            className="w-full max-w-md rounded-lg border border-gray-700 bg-gray-900 p-6"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <h3 className="mb-4 text-lg font-bold uppercase text-white">Keyboard shortcuts</h3>
+            <ul className="space-y-2 text-sm">
+              {REVIEW_SHORTCUTS.map(({ action, keys, label }) => (
+                <li key={action} className="flex items-center justify-between gap-4">
+                  <span className="text-gray-300">{label}</span>
+                  <span className="flex gap-1">
+                    {keys.map((key) => (
+                      <Kbd key={key}>{keyLabel(key)}</Kbd>
+                    ))}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <p className="mt-4 text-xs text-gray-500">Scroll to zoom, drag to pan and double-click to zoom in or reset.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
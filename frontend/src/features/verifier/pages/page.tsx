@@ -1,33 +1,76 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { useAccount, useSignMessage, useChainId, useSwitchChain } from 'wagmi'
-import { useRouter } from 'next/navigation'
+import { useState, useEffect, useRef, Suspense } from 'react'
+import { useAccount, useChainId, useSwitchChain } from 'wagmi'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { BackButton } from '@/components/layout/BackButton'
-import { CheckCircle, XCircle, Clock, MapPin, User, Calendar, ExternalLink, Loader2, Shield, RefreshCw, Users } from 'lucide-react'
+import { CheckCircle, XCircle, Clock, MapPin, User, Calendar, ExternalLink, Loader2, Shield, RefreshCw, Users, Lock, Unlock, Undo2, BarChart3, Keyboard } from 'lucide-react'
 import * as contractsLib from '@/lib/blockchain/contracts'
 
 const {
-  getCleanupCounter,
+  CleanupStatus,
   getCleanupDetails,
+  getCleanupDetailsBatch,
   verifyCleanup,
   rejectCleanup,
+  reviewCleanupsBatch,
+  refundSubmissionFees,
+  getFeeRefundStatus,
   getUserLevel,
 } = contractsLib
 
-import { Address } from 'viem'
+import { Address, formatEther } from 'viem'
 import { waitForTransactionReceipt } from 'wagmi/actions'
 import { config, REQUIRED_BLOCK_EXPLORER_URL, REQUIRED_CHAIN_NAME, REQUIRED_CHAIN_ID } from '@/lib/blockchain/wagmi'
 import { WalletConnect } from '@/features/wallet/components/WalletConnect'
-import { getIPFSUrl, getIPFSFallbackUrls } from '@/lib/blockchain/ipfs'
+import { IPFSImage } from '@/components/ui/ipfs-image'
+import { getVerifierSession, signInAsVerifier, VerifierSignInError } from '@/lib/blockchain/verifier-auth'
+import { VERIFIER_SIWE_STATEMENT } from '@/lib/auth/siwe-rules'
+import { claimReview, getReviewClaims, releaseReview, ReviewClaimRequestError, type ReviewClaim } from '@/lib/blockchain/review-claims'
+import { REVIEW_CLAIM_RENEW_MS } from '@/lib/review-claims/claim-rules'
 import { findCleanupsByWallet } from '@/lib/utils/find-cleanup'
+import { PhotoConsistencyPanel } from '../components/PhotoConsistencyPanel'
+import { DuplicatePhotoWarning } from '../components/DuplicatePhotoWarning'
+import { ReviewMode } from '../components/ReviewMode'
+import { QueueFilterBar } from '../components/QueueFilterBar'
+import { indexPhotoHashes, findPhotoDuplicates, type PhotoDuplicate } from '@/lib/blockchain/photo-hash-index'
+import { useIPFSJSON } from '@/hooks/useIPFS'
+import {
+  fetchImpactReport,
+  formatReportedArea,
+  formatReportedDuration,
+  formatReportedWeight,
+  parseImpactReport,
+  type ImpactReport,
+} from '@/lib/utils/impact-report'
+import { decodeContractError } from '@/lib/blockchain/errors'
+import { RejectionForm } from '@/components/verifier/RejectionForm'
+import { RejectionNotice } from '@/components/cleanup/RejectionNotice'
+import { uploadRejectionNote, type RejectionReason } from '@/lib/utils/rejection-reasons'
+import type { BatchReviewAction, BatchReviewOutcome } from '@/lib/blockchain/contracts'
+import { syncSubmissionIndex, queryIndexedSubmissions, getIndexedReferrals } from '@/lib/blockchain/indexer'
+import { resolveEnsAddress } from '@/lib/blockchain/ens'
+import { reverseGeocode, type PlaceName } from '@/lib/utils/reverse-geocode'
+import {
+  applyQueueFilters,
+  cleanupPoint,
+  countActiveFilters,
+  isEnsName,
+  needsPlaceNames,
+  parseQueueFilters,
+  serializeQueueFilters,
+  type QueueFilters,
+} from '@/lib/utils/queue-filters'
 
 const IPFS_GATEWAY = process.env.NEXT_PUBLIC_IPFS_GATEWAY || 'https://gateway.pinata.cloud/ipfs/'
 const BLOCK_EXPLORER_NAME = REQUIRED_BLOCK_EXPLORER_URL.includes('sepolia')
   ? 'CeloScan (Sepolia)'
   : 'CeloScan'
 const getExplorerTxUrl = (hash: `0x${string}`) => `${REQUIRED_BLOCK_EXPLORER_URL}/tx/${hash}`
+// Typing in the query bar updates the URL once the user pauses
+const FILTER_URL_DEBOUNCE_MS = 300
 
 interface CleanupItem {
   id: bigint
@@ -44,20 +87,24 @@ interface CleanupItem {
   referrer: Address
   hasImpactForm: boolean
   impactReportHash: string
+  dataURI?: string
+  rejectionReason?: RejectionReason
+  rejectionNoteCID?: string
+  feePaid?: bigint
+  feeRefunded?: boolean
+  hasRecyclables?: boolean
+  recyclablesPhotoHash?: string
+  recyclablesReceiptHash?: string
 }
 
 
-// Message to sign for verifier authentication
-const VERIFIER_AUTH_MESSAGE = 'I am requesting access to the DeCleanup Verifier Dashboard. This signature proves I control this wallet address.'
-
-// Storage key for verified verifier address
-const VERIFIED_VERIFIER_KEY = 'decleanup_verified_verifier'
-
-export default function VerifierPage() {
+function VerifierPageContent() {
   const { address, isConnected } = useAccount()
   const chainId = useChainId()
   const { switchChain } = useSwitchChain()
   const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
   const [mounted, setMounted] = useState(false)
   const [isVerifier, setIsVerifier] = useState(false)
   const [needsSignature, setNeedsSignature] = useState(false)
@@ -71,14 +118,31 @@ export default function VerifierPage() {
   const [signingAddress, setSigningAddress] = useState<Address | null>(null)
   const [pollingStatus, setPollingStatus] = useState<{ cleanupId: bigint | null; count: number } | null>(null)
   const [expandedForms, setExpandedForms] = useState<Set<string>>(new Set())
-  const [impactDataMap, setImpactDataMap] = useState<Map<string, any>>(new Map())
+  const [impactDataMap, setImpactDataMap] = useState<Map<string, ImpactReport>>(new Map())
+  const [photoDuplicates, setPhotoDuplicates] = useState<Map<string, PhotoDuplicate[]>>(new Map())
   const [activeTx, setActiveTx] = useState<{ cleanupId: bigint; hash: `0x${string}` } | null>(null)
   const [searchWallet, setSearchWallet] = useState<string>('')
   const [searching, setSearching] = useState(false)
   const [searchResults, setSearchResults] = useState<Array<{ cleanupId: bigint; verified: boolean; claimed: boolean; level: number; user: Address }>>([])
   const [isLoadingCleanups, setIsLoadingCleanups] = useState(false)
-
-  const { signMessageAsync, isPending: isSigning } = useSignMessage()
+  const [reviewClaims, setReviewClaims] = useState<Map<string, ReviewClaim>>(new Map())
+  const [claimingId, setClaimingId] = useState<string | null>(null)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [batchAction, setBatchAction] = useState<BatchReviewAction | null>(null)
+  const [batchOutcomes, setBatchOutcomes] = useState<BatchReviewOutcome[] | null>(null)
+  // Cleanup ID (or 'batch') whose rejection reason form is open
+  const [rejectionFormFor, setRejectionFormFor] = useState<string | null>(null)
+  // Cleanup ID (or 'all') whose fee refund is being sent
+  const [refundingFor, setRefundingFor] = useState<string | null>(null)
+  // Focused one-at-a-time review, optionally starting at a given cleanup
+  const [reviewMode, setReviewMode] = useState<{ initialId?: bigint } | null>(null)
+  // Queue filters live in the URL query string
+  const urlQuery = searchParams.toString()
+  const [filters, setFilters] = useState<QueueFilters>(() => parseQueueFilters(new URLSearchParams(urlQuery)))
+  const writtenQuery = useRef(urlQuery)
+  // undefined while an ENS name in the submitter filter resolves
+  const [submitterAddress, setSubmitterAddress] = useState<Address | null | undefined>(null)
+  const [places, setPlaces] = useState<Map<string, PlaceName | null>>(new Map())
 
   // Fix hydration error by only rendering after mount
   useEffect(() => {
@@ -113,6 +177,53 @@ export default function VerifierPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isVerifier])
 
+  // Renew our review claims while we keep the submissions open, so the leases don't run out mid-review
+  const ownClaimIds = [...reviewClaims.values()]
+    .filter((claim) => claim.verifier === address?.toLowerCase())
+    .map((claim) => claim.submissionId)
+    .join(',')
+  useEffect(() => {
+    if (!isVerifier || !address || !ownClaimIds) return
+
+    const interval = setInterval(() => {
+      ownClaimIds.split(',').forEach((id) => {
+        claimReview(address, BigInt(id))
+          .then((renewed) => updateReviewClaim(id, renewed))
+          .catch((error) => {
+            console.warn(`Could not renew review claim on cleanup ${id}:`, error)
+            loadReviewClaims()
+          })
+      })
+    }, REVIEW_CLAIM_RENEW_MS)
+
+    return () => clearInterval(interval)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isVerifier, address, ownClaimIds])
+
+  // Match pending photos against every known submission (reused or before == after photos)
+  useEffect(() => {
+    if (cleanups.length === 0) return
+
+    let cancelled = false
+    indexPhotoHashes(cleanups)
+      .then((entries) => {
+        if (cancelled) return
+        const duplicates = new Map<string, PhotoDuplicate[]>()
+        cleanups
+          .filter((cleanup) => !cleanup.verified && !cleanup.rejected)
+          .forEach((cleanup) => {
+            const matches = findPhotoDuplicates(entries, Number(cleanup.id))
+            if (matches.length > 0) duplicates.set(cleanup.id.toString(), matches)
+          })
+        setPhotoDuplicates(duplicates)
+      })
+      .catch((error) => console.error('Error checking photos for duplicates:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [cleanups])
+
   // Preload impact data for all cleanups with impact reports (so permissions are visible)
   useEffect(() => {
     if (cleanups.length === 0) return
@@ -121,17 +232,12 @@ export default function VerifierPage() {
       for (const cleanup of cleanups) {
         if (cleanup.impactReportHash && !impactDataMap.has(cleanup.impactReportHash)) {
           try {
-            const url = getIPFSUrl(cleanup.impactReportHash)
-            if (!url) continue // Skip if URL is null
-            const response = await fetch(url)
-            if (response.ok) {
-              const data = await response.json()
-              setImpactDataMap(prev => {
-                const newMap = new Map(prev)
-                newMap.set(cleanup.impactReportHash, data)
-                return newMap
-              })
-            }
+            const { report } = await fetchImpactReport(cleanup.impactReportHash)
+            setImpactDataMap(prev => {
+              const newMap = new Map(prev)
+              newMap.set(cleanup.impactReportHash, report)
+              return newMap
+            })
           } catch (error) {
             // Silently fail - will load when form is expanded
             console.debug('Could not preload impact data for cleanup', cleanup.id.toString())
@@ -144,67 +250,77 @@ export default function VerifierPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [cleanups]) // Only depend on isVerifier, not loading
 
-  function checkStoredVerification() {
-    try {
-      const stored = localStorage.getItem(VERIFIED_VERIFIER_KEY)
-      if (stored && address) {
-        const { verifiedAddress, timestamp } = JSON.parse(stored)
-        // Check if it's the same address and not expired (24 hours)
-        const isExpired = Date.now() - timestamp > 24 * 60 * 60 * 1000
-        if (verifiedAddress?.toLowerCase() === address.toLowerCase() && !isExpired) {
-          // Address matches and not expired, verify against contract
-          verifyAgainstContract(address)
-          return
-        }
-      }
-      // Need to sign
-      setNeedsSignature(true)
-      setLoading(false)
-    } catch (error) {
-      console.error('Error checking stored verification:', error)
-      setNeedsSignature(true)
-      setLoading(false)
+  // Back/forward navigation or an edited URL replaces the filters
+  useEffect(() => {
+    if (urlQuery === writtenQuery.current) return
+    writtenQuery.current = urlQuery
+    setFilters(parseQueueFilters(new URLSearchParams(urlQuery)))
+  }, [urlQuery])
+
+  useEffect(() => {
+    const query = serializeQueueFilters(filters).toString()
+    if (query === writtenQuery.current) return
+    const timer = setTimeout(() => {
+      writtenQuery.current = query
+      router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+    }, FILTER_URL_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filters])
+
+  useEffect(() => {
+    const name = filters.submitter.trim()
+    if (!isEnsName(name)) {
+      setSubmitterAddress(null)
+      return
     }
-  }
+    let cancelled = false
+    setSubmitterAddress(undefined)
+    resolveEnsAddress(name).then((resolved) => {
+      if (!cancelled) setSubmitterAddress(resolved)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [filters.submitter])
 
-  async function verifyAgainstContract(addr: Address) {
-    try {
-            
-      // Get isVerifier from the contracts library
-      const isVerifierFn = contractsLib.isVerifier
-      
-      // Verify isVerifier function is available
-      if (!isVerifierFn || typeof isVerifierFn !== 'function') {
-        console.error('isVerifier is not a function:', typeof isVerifierFn, isVerifierFn)
-        console.error('Available exports from contractsLib:', Object.keys(contractsLib))
-        setError(`Verifier check function not available. Type: ${typeof isVerifierFn}. Please check contract configuration.`)
-        setLoading(false)
-        return
+  // Place names for the region filter and place search, looked up one at a time (public geocoder)
+  const wantsPlaces = needsPlaceNames(filters)
+  useEffect(() => {
+    if (!wantsPlaces) return
+    const missing = cleanups.filter((cleanup) => !places.has(cleanup.id.toString()))
+    if (missing.length === 0) return
+
+    let cancelled = false
+    async function lookUpPlaces() {
+      for (const cleanup of missing) {
+        const { lat, lng } = cleanupPoint(cleanup)
+        const place = lat === 0 && lng === 0 ? null : await reverseGeocode(lat, lng)
+        if (cancelled) return
+        setPlaces(prev => new Map(prev).set(cleanup.id.toString(), place))
       }
+    }
 
-      console.log('Verifying address against contract:', addr)
-      console.log('isVerifier function type:', typeof isVerifierFn)
-      const isAuthorized = await isVerifierFn(addr)
-      console.log('Verifier check result:', isAuthorized)
-      
-      setIsVerifier(isAuthorized)
-      
-      if (isAuthorized) {
-        // Store verification
-        localStorage.setItem(VERIFIED_VERIFIER_KEY, JSON.stringify({
-          verifiedAddress: addr,
-          timestamp: Date.now(),
-        }))
+    lookUpPlaces()
+    return () => {
+      cancelled = true
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [wantsPlaces, cleanups])
+
+  // The session cookie is HTTP-only: ask the server whether this wallet has one
+  async function checkStoredVerification() {
+    if (!address) return
+    try {
+      const session = await getVerifierSession(address)
+      setIsVerifier(Boolean(session))
+      setNeedsSignature(!session)
+      if (session) {
         await loadCleanups()
-      } else {
-        setError(`Address ${addr} is not in the verifier allowlist.`)
-        setIsVerifier(false)
       }
     } catch (error) {
-      console.error('Error verifying against contract:', error)
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      setError(`Failed to verify: ${errorMessage}`)
-      setIsVerifier(false)
+      console.error('Error checking verifier session:', error)
+      setNeedsSignature(true)
     } finally {
       setLoading(false)
     }
@@ -216,13 +332,6 @@ export default function VerifierPage() {
       return
     }
 
-    // Check if signMessageAsync is available
-    if (!signMessageAsync || typeof signMessageAsync !== 'function') {
-      setError('Signature functionality not available. Please ensure your wallet supports message signing.')
-      console.error('signMessageAsync is not a function:', signMessageAsync)
-      return
-    }
-
     setError(null)
     setSigningAddress(address)
 
@@ -247,72 +356,30 @@ export default function VerifierPage() {
         }
       }
 
-      // Request signature - if user can sign, they control the wallet
-      // This is proof enough, no need to verify the signature
-      console.log('Requesting signature...')
-      console.log('signMessageAsync function:', typeof signMessageAsync)
-      console.log('Message to sign:', VERIFIER_AUTH_MESSAGE)
-      
-      // Call signMessageAsync - this should trigger the wallet prompt
-      // signMessageAsync returns a promise that resolves with the signature
-      const signature = await signMessageAsync({ message: VERIFIER_AUTH_MESSAGE })
-      
-      console.log('Signature received:', signature)
-      console.log('Signature type:', typeof signature)
-      console.log('Signature value:', signature)
-
-      // Only validate after we've actually received something
-      // If signature is undefined, it means the user rejected or there was an error
-      if (signature === undefined || signature === null) {
-        setError('Signature request was cancelled or rejected. Please try again.')
-        setSigningAddress(null)
-        return
-      }
-
-      // Check if it's a valid string signature
-      if (typeof signature !== 'string' || signature.length === 0) {
-        console.error('Unexpected signature format:', typeof signature, signature)
-        setError('Invalid signature format received. Please try again.')
-        setSigningAddress(null)
-        return
-      }
-
-      // If we got a valid signature string, the user controls the wallet
-      // Now verify the address is in the allowlist
-      console.log('Signature is valid, checking allowlist...')
-      setLoading(true)
-      await verifyAgainstContract(address)
+      // The server checks the signature and VERIFIER_ROLE before opening a session
+      await signInAsVerifier()
+      setIsVerifier(true)
+      setNeedsSignature(false)
+      await loadCleanups()
     } catch (error: any) {
-      console.error('Error during signature:', error)
-      console.error('Error details:', {
-        message: error?.message,
-        shortMessage: error?.shortMessage,
-        name: error?.name,
-        code: error?.code,
-        cause: error?.cause,
-      })
-      
+      console.error('Error during verifier sign-in:', error)
       const errorMessage = error?.message || error?.shortMessage || String(error || 'Unknown error')
-      
-      // Handle chain configuration errors
-      if (errorMessage?.toLowerCase().includes('chain not configured') || 
+
+      if (error instanceof VerifierSignInError) {
+        setError(error.code === 'SIGNATURE_REJECTED' ? 'Signature was rejected. Please try again when ready.' : errorMessage)
+      } else if (errorMessage?.toLowerCase().includes('chain not configured') ||
           errorMessage?.toLowerCase().includes('not configured')) {
+        // Handle chain configuration errors
         setError(
           `Chain configuration error: ${errorMessage}\n\n` +
           `Please ensure ${REQUIRED_CHAIN_NAME} (Chain ID: ${REQUIRED_CHAIN_ID}) is added to your wallet, ` +
           `then switch to it and try signing again.`
         )
-      } else if (errorMessage?.toLowerCase().includes('rejected') || 
-          errorMessage?.toLowerCase().includes('denied') ||
-          errorMessage?.toLowerCase().includes('user rejected') ||
-          errorMessage?.toLowerCase().includes('user denied') ||
-          errorMessage?.toLowerCase().includes('user cancelled')) {
-        setError('Signature was rejected. Please try again when ready.')
-      } else if (errorMessage?.toLowerCase().includes('invalid signature')) {
-        setError('Invalid signature received. Please try again.')
       } else {
-        setError(`Failed to sign message: ${errorMessage}`)
+        setError(`Failed to sign in: ${errorMessage}`)
       }
+      setIsVerifier(false)
+    } finally {
       setSigningAddress(null)
       setLoading(false)
     }
@@ -328,100 +395,45 @@ export default function VerifierPage() {
     try {
       setIsLoadingCleanups(true)
       setLoading(true)
-      const counter = await getCleanupCounter()
-      console.log('Cleanup counter:', counter.toString())
+      // Submission IDs, statuses and referrals come from the event index - no ID probing
+      await syncSubmissionIndex()
+      const [allIndexed, referrals] = await Promise.all([
+        queryIndexedSubmissions(),
+        getIndexedReferrals(),
+      ])
+      // Withdrawn submissions can't be reviewed anymore, keep them out of every list
+      const indexed = allIndexed.filter((submission) => submission.status !== CleanupStatus.Withdrawn)
+      console.log(`Indexed submissions: ${allIndexed.length} (${allIndexed.length - indexed.length} withdrawn)`)
       const cleanupList: CleanupItem[] = []
 
-      // Load all cleanups (from 1 to counter-1, since counter is the next ID to use)
-      // If counter is 0, no cleanups exist yet
-      // If counter is 1, no cleanups exist (counter points to next ID: 1)
-      // If counter is 2, cleanup ID 1 exists (counter points to next ID: 2)
-      const totalCleanups = Number(counter)
-      const maxCleanupId = totalCleanups > 0 ? totalCleanups - 1 : 0
-      console.log(`Counter: ${totalCleanups}, Loading cleanups 1 to ${maxCleanupId}...`)
-      
-      // Always try to load a wider range to catch any cleanups that might exist
-      // Start from 1, go up to counter-1, but also try a few more in case counter is off
-      const startId = 1
-      // Load up to counter-1, but also try a few more IDs in case counter is slightly off
-      // Use counter-1 as primary, but extend to at least 20 to catch any missed cleanups
-      const endId = Math.max(maxCleanupId, 20) // Try at least up to ID 20, or counter-1 if higher
-      
-      console.log(`Attempting to load cleanups from ${startId} to ${endId}...`)
-      
-      for (let i = startId; i <= endId; i++) {
-        try {
-          const details = await getCleanupDetails(BigInt(i))
-          
-          // Filter out empty/invalid cleanups (zero address means cleanup doesn't exist)
-          if (details.user === '0x0000000000000000000000000000000000000000' || 
-              !details.user || 
-              details.user === '0x') {
-            // Skip empty cleanups silently
-            continue
-          }
-          
-          // Only log found cleanups, not every attempt
-          console.log(`Found cleanup ${i}:`, {
-            user: details.user,
-            verified: details.verified,
-            claimed: details.claimed,
-            level: details.level,
+      // Photo hashes and coordinates are not in the events - read all details in batched multicalls
+      const detailsList = await getCleanupDetailsBatch(indexed.map((submission) => BigInt(submission.id)))
+
+      indexed.forEach((submission, index) => {
+        const details = detailsList[index]
+        if (!details) {
+          // Failed reads are logged by getCleanupDetailsBatch - keep loading the rest of the queue
+          return
+        }
+        const id = BigInt(submission.id)
+
+        cleanupList.push({
+          ...details,
+          id,
+          rejected: details.rejected || false,
+          referrer: referrals.get(submission.submitter) ?? '0x0000000000000000000000000000000000000000',
+          hasImpactForm: details.hasImpactForm || false,
+          impactReportHash: details.impactFormDataHash || '',
+        })
+        
+        // Debug: Log impact report data
+        if (details.hasImpactForm || details.impactFormDataHash) {
+          console.log(`Cleanup ${id} has impact report:`, {
             hasImpactForm: details.hasImpactForm,
             impactFormDataHash: details.impactFormDataHash,
           })
-          
-          // Fetch referrer for this user from contract
-          let referrer: Address = '0x0000000000000000000000000000000000000000'
-          try {
-            const { getUserReferrer } = await import('@/lib/blockchain/contracts')
-            const userReferrer = await getUserReferrer(details.user)
-            if (userReferrer) {
-              referrer = userReferrer
-            }
-          } catch (error) {
-            console.warn(`Could not fetch referrer for user ${details.user}:`, error)
-          }
-          
-          cleanupList.push({
-            ...details,
-            id: BigInt(i),
-            rejected: details.rejected || false,
-            referrer,
-            hasImpactForm: details.hasImpactForm || false,
-            impactReportHash: details.impactFormDataHash || '',
-          })
-          
-          // Debug: Log impact report data
-          if (details.hasImpactForm || details.impactFormDataHash) {
-            console.log(`Cleanup ${i} has impact report:`, {
-              hasImpactForm: details.hasImpactForm,
-              impactFormDataHash: details.impactFormDataHash,
-            })
-          }
-         
-          
-        } catch (error: any) {
-          // If cleanup doesn't exist (e.g., deleted or never created), skip it
-          // This can happen if counter is higher than actual cleanups
-          const errorMessage = error?.message || String(error)
-          if (errorMessage.includes('revert') || 
-              errorMessage.includes('does not exist') || 
-              errorMessage.includes('Invalid cleanup ID') ||
-              errorMessage.includes('Failed to get cleanup')) {
-            // Continue checking - don't stop early as counter might be off
-            // Only stop if we've checked many IDs and found nothing
-            if (i > 50) {
-              console.log(`Checked up to ID ${i}, stopping search...`)
-              break
-            }
-            continue
-          }
-          // For other errors (RPC issues), log but continue
-          console.warn(`Unexpected error loading cleanup ${i}:`, errorMessage)
-          // Don't break on RPC errors, continue trying
         }
-      }
+      })
 
       console.log(`Loaded ${cleanupList.length} cleanup(s) total`)
       console.log('Pending cleanups:', cleanupList.filter(c => !c.verified && !c.rejected).length)
@@ -430,6 +442,7 @@ export default function VerifierPage() {
       // Sort by timestamp (newest first)
       cleanupList.sort((a, b) => Number(b.timestamp - a.timestamp))
       setCleanups(cleanupList)
+      await loadReviewClaims()
     } catch (error) {
       console.error('Error loading cleanups:', error)
       setError('Failed to load cleanups')
@@ -439,11 +452,149 @@ export default function VerifierPage() {
     }
   }
 
-  async function handleVerify(cleanupId: bigint) {
+  async function loadReviewClaims() {
+    if (!address) return
+    try {
+      setReviewClaims(await getReviewClaims(address))
+    } catch (error) {
+      // Claims are advisory - the queue still works without them
+      console.warn('Could not load review claims:', error)
+    }
+  }
+
+  function updateReviewClaim(submissionId: string, claim: ReviewClaim | null) {
+    setReviewClaims(prev => {
+      const next = new Map(prev)
+      if (claim) {
+        next.set(submissionId, claim)
+      } else {
+        next.delete(submissionId)
+      }
+      return next
+    })
+  }
+
+  /** Claim the cleanup for review, or renew our claim; false when another verifier holds it. */
+  async function startReview(cleanupId: bigint): Promise<boolean> {
+    if (!address) return false
+    const id = cleanupId.toString()
+    setClaimingId(id)
+    try {
+      updateReviewClaim(id, await claimReview(address, cleanupId))
+      return true
+    } catch (error) {
+      console.error('Error claiming cleanup for review:', error)
+      if (error instanceof ReviewClaimRequestError && error.claim) {
+        updateReviewClaim(id, error.claim)
+      }
+      setError(error instanceof Error ? error.message : 'Could not claim the cleanup for review')
+      return false
+    } finally {
+      setClaimingId(null)
+    }
+  }
+
+  async function releaseReviewClaim(cleanupId: bigint) {
+    if (!address) return
+    try {
+      await releaseReview(address, cleanupId)
+    } catch (error) {
+      console.warn(`Could not release review claim on cleanup ${cleanupId.toString()}:`, error)
+    }
+    updateReviewClaim(cleanupId.toString(), null)
+  }
+
+  function describeClaim(claim: ReviewClaim): string {
+    const minutesLeft = Math.max(1, Math.ceil((claim.expiresAt - Date.now()) / 60000))
+    const holder = claim.verifier === address?.toLowerCase()
+      ? 'You are reviewing this cleanup'
+      : `In review by ${claim.verifier.slice(0, 6)}...${claim.verifier.slice(-4)}`
+    return `${holder} (${minutesLeft} min left)`
+  }
+
+  function toggleSelected(cleanupId: bigint) {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      const id = cleanupId.toString()
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  async function handleBatchReview(action: BatchReviewAction, rejection?: { reason: RejectionReason; note: string }) {
+    // Submissions another verifier is reviewing stay out of the batch
+    const ids = pendingCleanups
+      .filter((cleanup) => selectedIds.has(cleanup.id.toString()) && !isClaimedByOther(cleanup.id))
+      .map((cleanup) => cleanup.id)
+    if (ids.length === 0) return
+    // Rejections are confirmed through the reason form
+    if (action === 'approve' && !confirm(`Approve ${ids.length} cleanup(s)?`)) return
+
+    setBatchAction(action)
+    setBatchOutcomes(null)
+    setError(null)
+    try {
+      const outcomes = await reviewCleanupsBatch(
+        action,
+        ids,
+        rejection && { reason: rejection.reason, noteCID: await uploadRejectionNote(rejection.reason, rejection.note) }
+      )
+      setRejectionFormFor(null)
+      setBatchOutcomes(outcomes)
+      const processed = outcomes.filter((outcome) => outcome.status !== 'failed')
+      await Promise.all(processed.map((outcome) => releaseReviewClaim(outcome.cleanupId)))
+      setSelectedIds(prev => {
+        const next = new Set(prev)
+        processed.forEach((outcome) => next.delete(outcome.cleanupId.toString()))
+        return next
+      })
+      await loadCleanups()
+    } catch (error) {
+      console.error(`Error in batch ${action}:`, error)
+      const { message } = decodeContractError(error)
+      setError(`Failed to ${action} the selected cleanups: ${message}`)
+    } finally {
+      setBatchAction(null)
+    }
+  }
+
+  async function handleRefundFees(ids: bigint[], key: string) {
+    if (ids.length === 0) return
+    setRefundingFor(key)
+    setError(null)
+    try {
+      const refunded = await refundSubmissionFees(ids)
+      console.log(`Refunded fees of ${refunded.length} cleanup(s):`, refunded.map(String))
+      await loadCleanups()
+    } catch (error) {
+      console.error('Error refunding fees:', error)
+      const { message } = decodeContractError(error)
+      setError(`Failed to refund fees: ${message}`)
+    } finally {
+      setRefundingFor(null)
+    }
+  }
+
+  function isClaimedByOther(cleanupId: bigint): boolean {
+    const claim = reviewClaims.get(cleanupId.toString())
+    return !!claim && claim.verifier !== address?.toLowerCase()
+  }
+
+  /**
+   * Approve a cleanup; resolves true once the transaction is confirmed
+   * `notify: false` skips the confirmation alerts (review mode moves on by itself).
+   */
+  async function handleVerify(cleanupId: bigint, { notify = true }: { notify?: boolean } = {}): Promise<boolean> {
     setVerifying(true)
     setError(null)
 
     try {
+      if (!(await startReview(cleanupId))) return false
+
       // Get the cleanup details to find the user
       const cleanup = cleanups.find(c => c.id === cleanupId)
       if (!cleanup) {
@@ -481,6 +632,7 @@ export default function VerifierPage() {
           timeout: 120000, // 2 minute timeout
         })
         console.log('Transaction confirmed in block:', receipt.blockNumber)
+        await releaseReviewClaim(cleanupId)
         
         // Transaction confirmed, now check if verification was successful
         // Give it a moment for state to update
@@ -502,7 +654,7 @@ export default function VerifierPage() {
             setPollingStatus(null)
             await loadCleanups()
               setSelectedCleanup(null)
-              alert(
+              if (notify) alert(
                 `✅ Cleanup ${cleanupId.toString()} is now verified!\n\n` +
                 `View on ${BLOCK_EXPLORER_NAME}: ${explorerUrl}`
               )
@@ -512,7 +664,7 @@ export default function VerifierPage() {
             setPollingStatus(null)
               await loadCleanups()
               setSelectedCleanup(null)
-              alert(
+              if (notify) alert(
                 `⚠️ Transaction confirmed but verification status not updated yet.\n\n` +
                 `This may be a temporary RPC issue. Check ${BLOCK_EXPLORER_NAME}:\n${explorerUrl}`
               )
@@ -536,6 +688,7 @@ export default function VerifierPage() {
           setPollingStatus(null)
         }
         }, 60000)
+        return true
       } catch (receiptError: any) {
         // Transaction receipt wait failed (timeout or error)
         console.error('Error waiting for transaction receipt:', receiptError)
@@ -543,49 +696,44 @@ export default function VerifierPage() {
         await loadCleanups()
         setSelectedCleanup(null)
         
-        const errorMsg = receiptError?.message || String(receiptError)
-        if (errorMsg.includes('timeout')) {
-          alert(
-            `⏱️ Transaction submitted but confirmation is taking longer than expected.\n\n` +
-            `Transaction Hash: ${hash}\n\n` +
-            `Please check ${BLOCK_EXPLORER_NAME} for status:\n${explorerUrl}\n\n` +
-            `The cleanup will be verified once the transaction confirms.`
-          )
-        } else {
-          alert(
-            `⚠️ Transaction submitted but could not confirm receipt.\n\n` +
-            `Transaction Hash: ${hash}\n\n` +
-            `Please check ${BLOCK_EXPLORER_NAME} for status:\n${explorerUrl}`
-          )
-        }
+        const { message } = decodeContractError(receiptError, { txHash: hash })
+        setError(`${message} Transaction ${hash} — check ${BLOCK_EXPLORER_NAME}: ${explorerUrl}`)
+        return false
       }
     } catch (error) {
       console.error('Error verifying cleanup:', error)
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      setError(`Failed to verify: ${errorMessage}`)
-      
-      // Show alert for critical errors (chain mismatches, etc.)
-      if (errorMessage.includes('CRITICAL') || errorMessage.includes('Chain') || errorMessage.includes('network')) {
-        alert(`❌ ${errorMessage}`)
-      } else {
-        // For other errors, show a more user-friendly message
-        alert(`Failed to verify cleanup:\n\n${errorMessage}\n\nPlease check your wallet connection and network settings.`)
-      }
+      const { message, txHash } = decodeContractError(error)
+      setError(
+        txHash
+          ? `Failed to verify: ${message} Check ${BLOCK_EXPLORER_NAME}: ${getExplorerTxUrl(txHash)}`
+          : `Failed to verify: ${message}`
+      )
+      return false
     } finally {
       setVerifying(false)
       setActiveTx(null)
     }
   }
 
-  async function handleReject(cleanupId: bigint) {
+  async function handleReject(
+    cleanupId: bigint,
+    reason: RejectionReason,
+    note: string,
+    { notify = true }: { notify?: boolean } = {}
+  ): Promise<boolean> {
     setRejecting(true)
     setError(null)
 
     try {
-      // Pass chainId to avoid false chain detection
-      const hash = await rejectCleanup(cleanupId)
+      if (!(await startReview(cleanupId))) return false
+
+      // The note goes to IPFS first, only its CID is stored with the rejection
+      const noteCID = await uploadRejectionNote(reason, note)
+      const hash = await rejectCleanup(cleanupId, reason, noteCID)
       console.log(`Rejecting cleanup ${cleanupId.toString()}`)
       console.log(`Transaction hash: ${hash}`)
+      setRejectionFormFor(null)
+      await releaseReviewClaim(cleanupId)
       
       // Reload cleanups
       await loadCleanups()
@@ -593,16 +741,22 @@ export default function VerifierPage() {
       
       // Show success with transaction hash
       const explorerUrl = getExplorerTxUrl(hash)
-      alert(
+      if (notify) alert(
         `✅ Rejection transaction submitted!\n\n` +
         `Transaction Hash: ${hash}\n\n` +
         `The cleanup will be marked as rejected once the transaction confirms.\n\n` +
         `View on ${BLOCK_EXPLORER_NAME}: ${explorerUrl}`
       )
+      return true
     } catch (error) {
       console.error('Error rejecting cleanup:', error)
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      setError(`Failed to reject: ${errorMessage}`)
+      const { message, txHash } = decodeContractError(error)
+      setError(
+        txHash
+          ? `Failed to reject: ${message} Check ${BLOCK_EXPLORER_NAME}: ${getExplorerTxUrl(txHash)}`
+          : `Failed to reject: ${message}`
+      )
+      return false
     } finally {
       setRejecting(false)
     }
@@ -637,74 +791,20 @@ export default function VerifierPage() {
 
   // Component to fetch and display impact report details from IPFS
   function ImpactReportDetails({ impactReportHash }: { impactReportHash?: string | null }) {
-    const [impactData, setImpactData] = useState<any>(null)
-    const [impactDataUrl, setImpactDataUrl] = useState<string | null>(null)
-    const [loading, setLoading] = useState(true)
-    const [error, setError] = useState<string | null>(null)
-    const [reloadKey, setReloadKey] = useState(0)
+    const { data: impactData, loading, error, verified, reload } = useIPFSJSON(impactReportHash, {
+      parse: parseImpactReport,
+    })
+    const impactDataUrl = impactReportHash ? getIPFSUrl(impactReportHash) : null
 
     useEffect(() => {
-      async function fetchImpactData() {
-        if (!impactReportHash) {
-          setError('Impact report data was not provided with this cleanup.')
-          setLoading(false)
-          return
-        }
-        try {
-          setLoading(true)
-          const primaryUrl = getIPFSUrl(impactReportHash)
-          if (!primaryUrl) {
-            throw new Error('Failed to generate IPFS URL for impact report')
-            }
-          const urls = [primaryUrl, ...getIPFSFallbackUrls(impactReportHash)]
-
-          if (!urls[0]) {
-            throw new Error('Failed to generate IPFS URL for impact report')
-          }
-          setImpactDataUrl(urls[0])
-          
-          // Try each gateway until one works
-          let data: any = null
-          let lastError: Error | null = null
-          for (const url of urls) {
-            try {
-              const response = await fetch(url, { 
-                mode: 'cors',
-                cache: 'no-cache'
-              })
-              if (response.ok) {
-                data = await response.json()
-                break
-              }
-            } catch (err) {
-              lastError = err instanceof Error ? err : new Error(String(err))
-              continue
-            }
-          }
-          
-          if (!data) {
-            throw lastError || new Error('Failed to fetch impact report data from IPFS')
-          }
-          
-          setImpactData(data)
-          // Store in map for easy access by cleanup ID
-          if (impactReportHash) {
-            setImpactDataMap(prev => {
-              const newMap = new Map(prev)
-              newMap.set(impactReportHash, data)
-              return newMap
-            })
-          }
-        } catch (err: any) {
-          console.error('Error fetching impact report data:', err)
-          setError(err.message || 'Failed to load impact report data')
-        } finally {
-          setLoading(false)
-        }
-      }
-
-      fetchImpactData()
-    }, [impactReportHash, reloadKey])
+      if (!impactReportHash || !impactData) return
+      // Store in map for easy access by cleanup ID
+      setImpactDataMap(prev => {
+        const newMap = new Map(prev)
+        newMap.set(impactReportHash, impactData.report)
+        return newMap
+      })
+    }, [impactReportHash, impactData])
 
     if (loading) {
       return (
@@ -720,12 +820,12 @@ export default function VerifierPage() {
         <div className="mt-3 rounded-xl border border-yellow-500/40 bg-yellow-500/10 p-4 text-sm">
           <p className="font-semibold text-yellow-200">Impact Report</p>
           <p className="mt-2 text-gray-200">
-            {error || 'Impact report metadata is unavailable. Ask the submitter to re-open the cleanup and re-send the enhanced form if needed.'}
+            {(!impactReportHash && 'Impact report data was not provided with this cleanup.') || error || 'Impact report metadata is unavailable. Ask the submitter to re-open the cleanup and re-send the enhanced form if needed.'}
           </p>
           <Button
             variant="outline"
             size="sm"
-            onClick={() => setReloadKey((prev) => prev + 1)}
+            onClick={reload}
             className="mt-3 border-yellow-500/60 text-yellow-200 hover:bg-yellow-500/10"
           >
             Retry Load
@@ -734,10 +834,22 @@ export default function VerifierPage() {
       )
     }
 
+    const { report, migratedFrom, issues } = impactData
+    const area = formatReportedArea(report)
+    const weight = formatReportedWeight(report)
+    const duration = formatReportedDuration(report)
+
     return (
       <div className="mt-3 rounded-xl border border-green-500/40 bg-green-500/5 p-4 text-sm text-gray-100">
         <div className="mb-3 flex flex-col gap-1 sm:flex-row sm:items-center sm:justify-between">
-          <p className="font-semibold uppercase tracking-wide text-green-300">Impact Report Details</p>
+          <p className="font-semibold uppercase tracking-wide text-green-300">
+            Impact Report Details
+            {!verified && (
+              <span className="ml-2 text-xs normal-case tracking-normal text-yellow-300" title="No gateway served a copy that could be checked against its CID">
+                (unverified copy)
+              </span>
+            )}
+          </p>
           {impactDataUrl && (
             <a
               href={impactDataUrl}
@@ -751,86 +863,87 @@ export default function VerifierPage() {
         </div>
 
         <dl className="grid grid-cols-1 gap-3 sm:grid-cols-2">
-          {impactData.locationType && (
+          {report.locationType && (
             <div>
               <dt className="text-xs uppercase text-gray-400">Location Type</dt>
-              <dd className="text-base text-white">{impactData.locationType}</dd>
+              <dd className="text-base text-white">{report.locationType}</dd>
             </div>
           )}
-          {impactData.area && (
+          {area && (
             <div>
               <dt className="text-xs uppercase text-gray-400">Area Cleaned</dt>
-              <dd className="text-base text-white">
-                {impactData.area} {impactData.areaUnit === 'sqm' ? 'm²' : 'ft²'}
-              </dd>
+              <dd className="text-base text-white">{area}</dd>
             </div>
           )}
-          {impactData.weight && (
+          {weight && (
             <div>
               <dt className="text-xs uppercase text-gray-400">Weight Removed</dt>
-              <dd className="text-base text-white">
-                {impactData.weight} {impactData.weightUnit}
-              </dd>
+              <dd className="text-base text-white">{weight}</dd>
             </div>
           )}
-          {impactData.bags && (
+          {report.bags !== null && (
             <div>
               <dt className="text-xs uppercase text-gray-400">Bags Filled</dt>
-              <dd className="text-base text-white">{impactData.bags}</dd>
+              <dd className="text-base text-white">{report.bags}</dd>
             </div>
           )}
-          {(impactData.hours || impactData.minutes) && (
+          {duration && (
             <div>
               <dt className="text-xs uppercase text-gray-400">Time Spent</dt>
-              <dd className="text-base text-white">
-                {impactData.hours || 0}h {impactData.minutes || 0}m
-              </dd>
+              <dd className="text-base text-white">{duration}</dd>
             </div>
           )}
-          {impactData.wasteTypes && impactData.wasteTypes.length > 0 && (
+          {report.wasteTypes.length > 0 && (
             <div>
               <dt className="text-xs uppercase text-gray-400">Waste Types</dt>
-              <dd className="text-base text-white">{impactData.wasteTypes.join(', ')}</dd>
+              <dd className="text-base text-white">{report.wasteTypes.join(', ')}</dd>
             </div>
           )}
-          {impactData.contributors && impactData.contributors.length > 0 && (
+          {report.contributors.length > 0 && (
             <div>
               <dt className="text-xs uppercase text-gray-400">Contributors</dt>
-              <dd className="text-base text-white">{impactData.contributors.length} address(es)</dd>
+              <dd className="text-base text-white">{report.contributors.length} address(es)</dd>
             </div>
           )}
-          {impactData.scopeOfWork && (
+          {report.scopeOfWork && (
             <div className="sm:col-span-2">
               <dt className="text-xs uppercase text-gray-400">Scope of Work</dt>
-              <dd className="text-base text-white">{impactData.scopeOfWork}</dd>
+              <dd className="text-base text-white">{report.scopeOfWork}</dd>
             </div>
           )}
-          {impactData.rightsAssignment && (
+          {report.rightsAssignment && (
             <div>
               <dt className="text-xs uppercase text-gray-400">Rights Assignment</dt>
-              <dd className="text-base text-white">{impactData.rightsAssignment}</dd>
+              <dd className="text-base text-white">{report.rightsAssignment}</dd>
             </div>
           )}
-          {impactData.environmentalChallenges && (
+          {report.environmentalChallenges && (
             <div className="sm:col-span-2">
               <dt className="text-xs uppercase text-gray-400">Environmental Challenges</dt>
-              <dd className="text-base text-white">{impactData.environmentalChallenges}</dd>
+              <dd className="text-base text-white">{report.environmentalChallenges}</dd>
             </div>
           )}
-          {impactData.preventionIdeas && (
+          {report.preventionIdeas && (
             <div className="sm:col-span-2">
               <dt className="text-xs uppercase text-gray-400">Prevention Suggestions</dt>
-              <dd className="text-base text-white">{impactData.preventionIdeas}</dd>
+              <dd className="text-base text-white">{report.preventionIdeas}</dd>
             </div>
           )}
-          {impactData.additionalNotes && (
+          {report.additionalNotes && (
             <div className="sm:col-span-2">
               <dt className="text-xs uppercase text-gray-400">Additional Notes</dt>
-              <dd className="text-base text-white whitespace-pre-wrap">{impactData.additionalNotes}</dd>
+              <dd className="text-base text-white whitespace-pre-wrap">{report.additionalNotes}</dd>
             </div>
           )}
         </dl>
 
+        {(migratedFrom !== null || issues.length > 0) && (
+          <div className="mt-4 rounded-lg border border-yellow-500/40 bg-yellow-500/10 p-3 text-xs text-yellow-200">
+            {migratedFrom !== null && <p>Submitted with report format v{migratedFrom}; values converted for display.</p>}
+            {issues.length > 0 && <p>Schema issues: {issues.join('; ')}</p>}
+          </div>
+        )}
+
         <p className="mt-4 text-xs text-gray-400">
           * Impact report data is self-reported; verify details against the provided photos before approving.
         </p>
@@ -838,9 +951,20 @@ export default function VerifierPage() {
     )
   }
 
-  const pendingCleanups = cleanups.filter((c) => !c.verified && !c.rejected)
-  const verifiedCleanups = cleanups.filter((c) => c.verified)
-  const rejectedCleanups = cleanups.filter((c) => c.rejected)
+  const visibleCleanups = applyQueueFilters(cleanups, filters, { submitterAddress, places })
+  const filtersActive = countActiveFilters(filters) > 0
+  const placesPending = wantsPlaces ? cleanups.filter((c) => !places.has(c.id.toString())).length : 0
+  const showSection = (status: QueueFilters['status']) => filters.status === 'all' || filters.status === status
+  const pendingCleanups = visibleCleanups.filter((c) => !c.verified && !c.rejected)
+  const verifiedCleanups = visibleCleanups.filter((c) => c.verified)
+  const rejectedCleanups = visibleCleanups.filter((c) => c.rejected)
+  // Stats and bulk refunds cover the whole queue, whatever is filtered
+  const totals = {
+    pending: cleanups.filter((c) => !c.verified && !c.rejected).length,
+    verified: cleanups.filter((c) => c.verified).length,
+    rejected: cleanups.filter((c) => c.rejected).length,
+  }
+  const refundableCleanups = cleanups.filter((c) => c.rejected && getFeeRefundStatus(c) === 'refundable')
 
   // Prevent hydration mismatch by not rendering until mounted
   if (!mounted) {
@@ -885,7 +1009,7 @@ export default function VerifierPage() {
             <Shield className="mx-auto mb-4 h-16 w-16 text-brand-green" />
             <h2 className="mb-4 text-2xl font-bold uppercase text-white">Verify Your Identity</h2>
             <p className="mb-6 text-gray-400">
-              Please sign a message with your wallet to verify you control a whitelisted verifier address.
+              Sign in with your wallet to prove you control an address with the verifier role.
             </p>
             
             {address && (
@@ -896,8 +1020,11 @@ export default function VerifierPage() {
             )}
 
             <div className="mb-6 rounded-lg border border-blue-500/50 bg-blue-500/10 p-4 text-left">
-              <p className="mb-2 text-sm font-semibold text-blue-400">Message to sign:</p>
-              <p className="text-sm text-gray-300 italic">"{VERIFIER_AUTH_MESSAGE}"</p>
+              <p className="mb-2 text-sm font-semibold text-blue-400">Your wallet will ask you to sign:</p>
+              <p className="text-sm text-gray-300 italic">"{VERIFIER_SIWE_STATEMENT}"</p>
+              <p className="mt-2 text-xs text-gray-500">
+                The sign-in request is bound to this site and {REQUIRED_CHAIN_NAME}, and expires after a few minutes.
+              </p>
             </div>
 
             {error && (
@@ -908,10 +1035,10 @@ export default function VerifierPage() {
 
             <Button
               onClick={handleSignIn}
-              disabled={isSigning || loading}
+              disabled={Boolean(signingAddress) || loading}
               className="bg-brand-green text-black hover:bg-brand-green/90"
             >
-              {isSigning ? (
+              {signingAddress ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   Signing...
@@ -919,13 +1046,13 @@ export default function VerifierPage() {
               ) : (
                 <>
                   <Shield className="mr-2 h-4 w-4" />
-                  Sign Message to Verify
+                  Sign In With Ethereum
                 </>
               )}
             </Button>
 
             <p className="mt-6 text-xs text-gray-500">
-              This signature proves you control the wallet address. We'll check if it's whitelisted as a verifier.
+              Signing is free and sends no transaction. Your session lasts 12 hours on this browser.
             </p>
           </div>
         </div>
@@ -997,6 +1124,23 @@ export default function VerifierPage() {
           </p>
           </div>
           <div className="flex gap-2">
+            <Button
+              onClick={() => setReviewMode({})}
+              disabled={pendingCleanups.length === 0}
+              className="gap-2 bg-brand-green text-black hover:bg-brand-green/90"
+            >
+              <Keyboard className="h-4 w-4" />
+              Review mode
+            </Button>
+            <Link href="/verifier/stats">
+              <Button
+                variant="outline"
+                className="gap-2 border-gray-700 bg-gray-900 text-white hover:bg-gray-800"
+              >
+                <BarChart3 className="h-4 w-4" />
+                Stats
+              </Button>
+            </Link>
             <Button
               onClick={() => {
                 setLoading(true)
@@ -1040,7 +1184,7 @@ export default function VerifierPage() {
                 setError(null)
                 try {
                   // Search for cleanups by wallet (supports partial addresses like "2493")
-                  const results = await findCleanupsByWallet(searchWallet.trim(), 100)
+                  const results = await findCleanupsByWallet(searchWallet.trim())
                   setSearchResults(results)
                   if (results.length > 0) {
                     // Reload cleanups to include the found ones
@@ -1110,35 +1254,202 @@ export default function VerifierPage() {
           </div>
           <div className="rounded-lg border border-yellow-500/50 bg-yellow-500/10 p-4">
             <div className="text-sm text-gray-400">Pending Cleanups</div>
-            <div className="mt-1 text-2xl font-bold text-yellow-400">{pendingCleanups.length}</div>
+            <div className="mt-1 text-2xl font-bold text-yellow-400">{totals.pending}</div>
           </div>
           <div className="rounded-lg border border-green-500/50 bg-green-500/10 p-4">
             <div className="text-sm text-gray-400">Verified Cleanups</div>
-            <div className="mt-1 text-2xl font-bold text-green-400">{verifiedCleanups.length}</div>
+            <div className="mt-1 text-2xl font-bold text-green-400">{totals.verified}</div>
           </div>
           <div className="rounded-lg border border-red-500/50 bg-red-500/10 p-4">
             <div className="text-sm text-gray-400">Rejected Cleanups</div>
-            <div className="mt-1 text-2xl font-bold text-red-400">{rejectedCleanups.length}</div>
+            <div className="mt-1 text-2xl font-bold text-red-400">{totals.rejected}</div>
           </div>
         </div>
 
+        <QueueFilterBar
+          filters={filters}
+          onChange={setFilters}
+          shown={visibleCleanups.length}
+          total={cleanups.length}
+          submitterAddress={submitterAddress}
+          placesPending={placesPending}
+        />
+
         {/* Pending Cleanups */}
-        <div className="mb-8">
+        <div className={showSection('pending') ? 'mb-8' : 'hidden'}>
           <h2 className="mb-4 text-2xl font-bold uppercase text-white">Pending Verification</h2>
+          {pendingCleanups.length > 0 && (() => {
+            const selectable = pendingCleanups.filter((cleanup) => !isClaimedByOther(cleanup.id))
+            const selectedCount = selectable.filter((cleanup) => selectedIds.has(cleanup.id.toString())).length
+            const allSelected = selectable.length > 0 && selectedCount === selectable.length
+            const busy = batchAction !== null || verifying || rejecting
+            return (
+              <div className="mb-4 flex flex-col gap-3 rounded-lg border border-gray-800 bg-gray-900 p-4 sm:flex-row sm:flex-wrap sm:items-center sm:justify-between">
+                <label className="flex cursor-pointer items-center gap-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    disabled={busy || selectable.length === 0}
+                    onChange={() =>
+                      setSelectedIds(allSelected ? new Set() : new Set(selectable.map((cleanup) => cleanup.id.toString())))
+                    }
+                    className="h-4 w-4 accent-brand-green"
+                  />
+                  {selectedCount > 0 ? `${selectedCount} selected` : 'Select all'}
+                </label>
+                <div className="flex gap-3">
+                  <Button
+                    onClick={() => setRejectionFormFor('batch')}
+                    disabled={busy || selectedCount === 0}
+                    variant="outline"
+                    className="border-red-500 text-red-400 hover:bg-red-500/10"
+                  >
+                    {batchAction === 'reject' ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <XCircle className="mr-2 h-4 w-4" />
+                    )}
+                    Reject selected
+                  </Button>
+                  <Button
+                    onClick={() => handleBatchReview('approve')}
+                    disabled={busy || selectedCount === 0}
+                    className="bg-brand-green text-black hover:bg-brand-green/90"
+                  >
+                    {batchAction === 'approve' ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <CheckCircle className="mr-2 h-4 w-4" />
+                    )}
+                    Approve selected
+                  </Button>
+                </div>
+                {rejectionFormFor === 'batch' && selectedCount > 0 && (
+                  <div className="sm:basis-full">
+                    <RejectionForm
+                      busy={batchAction === 'reject'}
+                      confirmLabel={`Reject ${selectedCount} cleanup(s)`}
+                      onCancel={() => setRejectionFormFor(null)}
+                      onConfirm={(reason, note) => handleBatchReview('reject', { reason, note })}
+                    />
+                  </div>
+                )}
+              </div>
+            )
+          })()}
+          {batchOutcomes && (
+            <div className="mb-4 rounded-lg border border-gray-700 bg-gray-800 p-4 text-sm">
+              <div className="mb-2 flex items-center justify-between">
+                <span className="font-semibold text-white">Batch result</span>
+                <button
+                  type="button"
+                  onClick={() => setBatchOutcomes(null)}
+                  className="text-xs text-gray-400 hover:text-gray-300"
+                >
+                  Dismiss
+                </button>
+              </div>
+              <ul className="space-y-1 text-xs">
+                {batchOutcomes.map((outcome, index) => (
+                  <li key={`${outcome.cleanupId}-${index}`} className="flex flex-wrap items-center gap-2">
+                    <span className="font-mono text-white">#{outcome.cleanupId.toString()}</span>
+                    <span
+                      className={
+                        outcome.status === 'approved'
+                          ? 'text-green-400'
+                          : outcome.status === 'rejected'
+                            ? 'text-red-400'
+                            : outcome.status === 'skipped'
+                              ? 'text-yellow-400'
+                              : 'text-red-500'
+                      }
+                    >
+                      {outcome.status === 'skipped'
+                        ? `Skipped (${outcome.reason === 'ALREADY_APPROVED' ? 'already approved' : outcome.reason === 'ALREADY_REJECTED' ? 'already rejected' : 'not found'})`
+                        : outcome.status === 'failed'
+                          ? `Failed: ${outcome.error?.message ?? 'transaction failed'}`
+                          : outcome.status === 'approved' ? 'Approved' : 'Rejected'}
+                    </span>
+                    {outcome.txHash && (
+                      <a
+                        href={getExplorerTxUrl(outcome.txHash)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-brand-green hover:underline"
+                      >
+                        <ExternalLink className="h-3 w-3" />
+                        tx
+                      </a>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           {pendingCleanups.length === 0 ? (
             <div className="rounded-lg border border-gray-800 bg-gray-900 p-8 text-center text-gray-400">
-              No pending cleanups to verify.
+              {filtersActive ? 'No pending cleanups match the filters.' : 'No pending cleanups to verify.'}
             </div>
           ) : (
             <div className="space-y-4">
-              {pendingCleanups.map((cleanup) => (
+              {pendingCleanups.map((cleanup) => {
+                const claim = reviewClaims.get(cleanup.id.toString())
+                const claimedByMe = !!claim && claim.verifier === address?.toLowerCase()
+                const claimedByOther = !!claim && !claimedByMe
+                return (
                 <div
                   key={cleanup.id.toString()}
-                  className="rounded-lg border border-gray-800 bg-gray-900 p-6"
+                  id={`cleanup-${cleanup.id.toString()}`}
+                  className={`rounded-lg border bg-gray-900 p-6 ${
+                    claimedByOther ? 'border-yellow-500/50 opacity-75' : claimedByMe ? 'border-brand-green/50' : 'border-gray-800'
+                  }`}
                 >
+                  <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+                    <div
+                      className={`flex items-center gap-2 text-xs ${
+                        claimedByOther ? 'text-yellow-400' : claimedByMe ? 'text-brand-green' : 'text-gray-500'
+                      }`}
+                    >
+                      {claim ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+                      <span>{claim ? describeClaim(claim) : 'Not claimed by a verifier'}</span>
+                    </div>
+                    {!claimedByOther && (
+                      <div className="flex gap-2">
+                        <Button
+                          onClick={() => setReviewMode({ initialId: cleanup.id })}
+                          variant="ghost"
+                          size="sm"
+                          aria-label={`Open cleanup ${cleanup.id.toString()} in review mode`}
+                          className="text-gray-400 hover:text-white"
+                        >
+                          <Keyboard className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          onClick={() => (claimedByMe ? releaseReviewClaim(cleanup.id) : startReview(cleanup.id))}
+                          disabled={claimingId === cleanup.id.toString() || verifying || rejecting}
+                          variant="outline"
+                          size="sm"
+                          className="border-gray-700 text-gray-300 hover:bg-gray-800"
+                        >
+                          {claimingId === cleanup.id.toString() && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+                          {claimedByMe ? 'Release' : 'Start review'}
+                        </Button>
+                      </div>
+                    )}
+                  </div>
                   <div className="mb-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
                     <div>
-                      <h3 className="mb-2 text-lg font-bold text-white">Cleanup #{cleanup.id.toString()}</h3>
+                      <h3 className="mb-2 flex items-center gap-2 text-lg font-bold text-white">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(cleanup.id.toString()) && !claimedByOther}
+                          disabled={claimedByOther || batchAction !== null}
+                          onChange={() => toggleSelected(cleanup.id)}
+                          aria-label={`Select cleanup ${cleanup.id.toString()}`}
+                          className="h-4 w-4 accent-brand-green"
+                        />
+                        Cleanup #{cleanup.id.toString()}
+                      </h3>
                       <div className="space-y-2 text-sm">
                         <div className="flex items-center gap-2 text-gray-400">
                           <User className="h-4 w-4" />
@@ -1241,29 +1552,10 @@ export default function VerifierPage() {
                             rel="noopener noreferrer"
                             className="relative block overflow-hidden rounded-lg border border-gray-700"
                           >
-                            <img
-                              src={getIPFSUrl(cleanup.beforePhotoHash)!}
+                            <IPFSImage
+                              cid={cleanup.beforePhotoHash}
                               alt="Before"
                               className="h-32 w-full object-cover"
-                              crossOrigin="anonymous"
-                              loading="lazy"
-                              onError={(e) => {
-                                const img = e.currentTarget
-                                const hash = cleanup.beforePhotoHash
-                                const fallbacks = getIPFSFallbackUrls(hash)
-                                const currentSrc = img.src
-                                const hashFromUrl = currentSrc.split('/ipfs/')[1]?.split('?')[0]
-                                const currentIndex = fallbacks.findIndex(url => url.includes(hashFromUrl || ''))
-                                
-                                if (currentIndex >= 0 && currentIndex < fallbacks.length - 1) {
-                                  // Try next fallback
-                                  img.src = fallbacks[currentIndex + 1]
-                                } else {
-                                  // All fallbacks exhausted, show placeholder
-                                  img.src = '/placeholder-image.png'
-                                  img.onerror = null // Prevent infinite loop
-                                }
-                              }}
                             />
                             {(() => {
                               const impactData = cleanup.impactReportHash ? impactDataMap.get(cleanup.impactReportHash) : null
@@ -1311,29 +1603,10 @@ export default function VerifierPage() {
                             rel="noopener noreferrer"
                             className="relative block overflow-hidden rounded-lg border border-gray-700"
                           >
-                            <img
-                              src={getIPFSUrl(cleanup.afterPhotoHash)!}
+                            <IPFSImage
+                              cid={cleanup.afterPhotoHash}
                               alt="After"
                               className="h-32 w-full object-cover"
-                              crossOrigin="anonymous"
-                              loading="lazy"
-                              onError={(e) => {
-                                const img = e.currentTarget
-                                const hash = cleanup.afterPhotoHash
-                                const fallbacks = getIPFSFallbackUrls(hash)
-                                const currentSrc = img.src
-                                const hashFromUrl = currentSrc.split('/ipfs/')[1]?.split('?')[0]
-                                const currentIndex = fallbacks.findIndex(url => url.includes(hashFromUrl || ''))
-                                
-                                if (currentIndex >= 0 && currentIndex < fallbacks.length - 1) {
-                                  // Try next fallback
-                                  img.src = fallbacks[currentIndex + 1]
-                                } else {
-                                  // All fallbacks exhausted, show placeholder
-                                  img.src = '/placeholder-image.png'
-                                  img.onerror = null // Prevent infinite loop
-                                }
-                              }}
                             />
                             {(() => {
                               const impactData = cleanup.impactReportHash ? impactDataMap.get(cleanup.impactReportHash) : null
@@ -1362,14 +1635,23 @@ export default function VerifierPage() {
                       </div>
                     </div>
                   </div>
+                  <DuplicatePhotoWarning duplicates={photoDuplicates.get(cleanup.id.toString()) ?? []} />
+                  <PhotoConsistencyPanel
+                    dataURI={cleanup.dataURI}
+                    beforePhotoHash={cleanup.beforePhotoHash}
+                    afterPhotoHash={cleanup.afterPhotoHash}
+                    latitude={cleanup.latitude}
+                    longitude={cleanup.longitude}
+                    timestamp={cleanup.timestamp}
+                  />
                   <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
                     <div className="text-sm text-gray-400">
                       Level will be assigned automatically based on user's current Impact Product level (next level up, max 10)
                     </div>
                     <div className="flex gap-3">
                       <Button
-                        onClick={() => handleReject(cleanup.id)}
-                        disabled={rejecting || verifying}
+                        onClick={() => setRejectionFormFor(cleanup.id.toString())}
+                        disabled={rejecting || verifying || batchAction !== null || claimedByOther}
                         variant="outline"
                         className="border-red-500 text-red-400 hover:bg-red-500/10"
                       >
@@ -1387,7 +1669,7 @@ export default function VerifierPage() {
                       </Button>
                       <Button
                         onClick={() => handleVerify(cleanup.id)}
-                        disabled={verifying || rejecting}
+                        disabled={verifying || rejecting || batchAction !== null || claimedByOther}
                         className="bg-brand-green text-black hover:bg-brand-green/90"
                       >
                         {verifying ? (
@@ -1404,6 +1686,17 @@ export default function VerifierPage() {
                       </Button>
                     </div>
                   </div>
+                  {rejectionFormFor === cleanup.id.toString() && !claimedByOther && (
+                    <div className="mt-4">
+                      <RejectionForm
+                        busy={rejecting}
+                        onCancel={() => setRejectionFormFor(null)}
+                        onConfirm={async (reason, note) => {
+                          await handleReject(cleanup.id, reason, note)
+                        }}
+                      />
+                    </div>
+                  )}
                   {activeTx && activeTx.cleanupId === cleanup.id && (
                     <div className="mt-4 rounded-lg border border-brand-green/40 bg-brand-green/5 p-4 text-sm text-white">
                       <div className="flex items-center gap-2">
@@ -1422,23 +1715,25 @@ export default function VerifierPage() {
                     </div>
                   )}
                 </div>
-              ))}
+                )
+              })}
             </div>
           )}
         </div>
 
         {/* Verified Cleanups */}
-        <div className="mb-8">
+        <div className={showSection('verified') ? 'mb-8' : 'hidden'}>
           <h2 className="mb-4 text-2xl font-bold uppercase text-white">Verified Cleanups</h2>
           {verifiedCleanups.length === 0 ? (
             <div className="rounded-lg border border-gray-800 bg-gray-900 p-8 text-center text-gray-400">
-              No verified cleanups yet.
+              {filtersActive ? 'No verified cleanups match the filters.' : 'No verified cleanups yet.'}
             </div>
           ) : (
             <div className="space-y-4">
               {verifiedCleanups.map((cleanup) => (
                 <div
                   key={cleanup.id.toString()}
+                  id={`cleanup-${cleanup.id.toString()}`}
                   className="rounded-lg border border-green-500/50 bg-green-500/10 p-4"
                 >
                   <div className="flex items-center justify-between">
@@ -1469,19 +1764,64 @@ export default function VerifierPage() {
         </div>
 
         {/* Rejected Cleanups */}
-        <div>
-          <h2 className="mb-4 text-2xl font-bold uppercase text-white">Rejected Cleanups</h2>
+        <div className={showSection('rejected') ? undefined : 'hidden'}>
+          <div className="mb-4 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <h2 className="text-2xl font-bold uppercase text-white">Rejected Cleanups</h2>
+            {refundableCleanups.length > 0 && (
+              <Button
+                onClick={() => handleRefundFees(refundableCleanups.map((c) => c.id), 'all')}
+                disabled={refundingFor !== null}
+                variant="outline"
+                size="sm"
+                className="gap-2 border-yellow-500/50 text-yellow-400"
+              >
+                {refundingFor === 'all' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Undo2 className="h-4 w-4" />}
+                Refund all fees ({refundableCleanups.length})
+              </Button>
+            )}
+          </div>
           {rejectedCleanups.length === 0 ? (
             <div className="rounded-lg border border-gray-800 bg-gray-900 p-8 text-center text-gray-400">
-              No rejected cleanups.
+              {filtersActive ? 'No rejected cleanups match the filters.' : 'No rejected cleanups.'}
             </div>
           ) : (
             <div className="space-y-4">
               {rejectedCleanups.map((cleanup) => (
                 <div
                   key={cleanup.id.toString()}
+                  id={`cleanup-${cleanup.id.toString()}`}
                   className="rounded-lg border border-red-500/50 bg-red-500/10 p-6"
                 >
+                  <div className="mb-4">
+                    <RejectionNotice
+                      cleanupId={cleanup.id}
+                      reason={cleanup.rejectionReason}
+                      noteCID={cleanup.rejectionNoteCID}
+                      showGuidance={false}
+                    />
+                  </div>
+                  {getFeeRefundStatus(cleanup) === 'refundable' && (
+                    <div className="mb-4 flex items-center justify-between gap-2 rounded border border-yellow-500/30 bg-yellow-500/5 p-3 text-sm text-yellow-400">
+                      <span>Fee of {formatEther(cleanup.feePaid!)} CELO not refunded yet</span>
+                      <Button
+                        onClick={() => handleRefundFees([cleanup.id], cleanup.id.toString())}
+                        disabled={refundingFor !== null}
+                        variant="outline"
+                        size="sm"
+                        className="gap-2"
+                      >
+                        {refundingFor === cleanup.id.toString()
+                          ? <Loader2 className="h-4 w-4 animate-spin" />
+                          : <Undo2 className="h-4 w-4" />}
+                        Refund fee
+                      </Button>
+                    </div>
+                  )}
+                  {getFeeRefundStatus(cleanup) === 'refunded' && (
+                    <p className="mb-4 text-sm text-brand-green">
+                      Fee of {formatEther(cleanup.feePaid!)} CELO refunded
+                    </p>
+                  )}
                   <div className="mb-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
                     <div>
                       <div className="mb-2 flex items-center gap-2">
@@ -1561,29 +1901,10 @@ export default function VerifierPage() {
                             rel="noopener noreferrer"
                             className="relative block overflow-hidden rounded-lg border border-gray-700"
                           >
-                            <img
-                              src={getIPFSUrl(cleanup.beforePhotoHash)!}
+                            <IPFSImage
+                              cid={cleanup.beforePhotoHash}
                               alt="Before"
                               className="h-32 w-full object-cover"
-                              crossOrigin="anonymous"
-                              loading="lazy"
-                              onError={(e) => {
-                                const img = e.currentTarget
-                                const hash = cleanup.beforePhotoHash
-                                const fallbacks = getIPFSFallbackUrls(hash)
-                                const currentSrc = img.src
-                                const hashFromUrl = currentSrc.split('/ipfs/')[1]?.split('?')[0]
-                                const currentIndex = fallbacks.findIndex(url => url.includes(hashFromUrl || ''))
-                                
-                                if (currentIndex >= 0 && currentIndex < fallbacks.length - 1) {
-                                  // Try next fallback
-                                  img.src = fallbacks[currentIndex + 1]
-                                } else {
-                                  // All fallbacks exhausted, show placeholder
-                                  img.src = '/placeholder-image.png'
-                                  img.onerror = null // Prevent infinite loop
-                                }
-                              }}
                             />
                           </a>
                         ) : (
@@ -1601,29 +1922,10 @@ export default function VerifierPage() {
                             rel="noopener noreferrer"
                             className="relative block overflow-hidden rounded-lg border border-gray-700"
                           >
-                            <img
-                              src={getIPFSUrl(cleanup.afterPhotoHash)!}
+                            <IPFSImage
+                              cid={cleanup.afterPhotoHash}
                               alt="After"
                               className="h-32 w-full object-cover"
-                              crossOrigin="anonymous"
-                              loading="lazy"
-                              onError={(e) => {
-                                const img = e.currentTarget
-                                const hash = cleanup.afterPhotoHash
-                                const fallbacks = getIPFSFallbackUrls(hash)
-                                const currentSrc = img.src
-                                const hashFromUrl = currentSrc.split('/ipfs/')[1]?.split('?')[0]
-                                const currentIndex = fallbacks.findIndex(url => url.includes(hashFromUrl || ''))
-                                
-                                if (currentIndex >= 0 && currentIndex < fallbacks.length - 1) {
-                                  // Try next fallback
-                                  img.src = fallbacks[currentIndex + 1]
-                                } else {
-                                  // All fallbacks exhausted, show placeholder
-                                  img.src = '/placeholder-image.png'
-                                  img.onerror = null // Prevent infinite loop
-                                }
-                              }}
                             />
                           </a>
                         ) : (
@@ -1697,7 +1999,41 @@ export default function VerifierPage() {
           )}
         </div>
       </div>
+
+      {reviewMode && (
+        <ReviewMode
+          cleanups={pendingCleanups.filter((cleanup) => !isClaimedByOther(cleanup.id))}
+          duplicates={photoDuplicates}
+          busy={verifying || rejecting || batchAction !== null}
+          error={error}
+          initialId={reviewMode.initialId}
+          onApprove={(cleanupId) => handleVerify(cleanupId, { notify: false })}
+          onReject={(cleanupId, reason, note) => handleReject(cleanupId, reason, note, { notify: false })}
+          onOpen={(cleanupId) => startReview(cleanupId)}
+          onLeave={(cleanupId) => releaseReviewClaim(cleanupId)}
+          renderImpactReport={(cleanup) => (
+            <ImpactReportDetails key={`${cleanup.id}-${cleanup.impactReportHash}`} impactReportHash={cleanup.impactReportHash} />
+          )}
+          onClose={() => setReviewMode(null)}
+        />
+      )}
     </div>
   )
 }
 
+// useSearchParams (queue filters) needs a Suspense boundary
+export default function VerifierPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-background px-4 py-8 pb-20">
+        <div className="mx-auto max-w-4xl">
+          <div className="mt-8 flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin text-brand-green" />
+          </div>
+        </div>
+      </div>
+    }>
+      <VerifierPageContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,304 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useAccount } from 'wagmi'
+import { formatEther } from 'viem'
+import { AlertTriangle, BarChart3, CheckCircle, Clock, ExternalLink, Loader2, RefreshCw, XCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { BackButton } from '@/components/layout/BackButton'
+import { REQUIRED_BLOCK_EXPLORER_URL } from '@/lib/blockchain/wagmi'
+import { loadVerifierStats } from '@/lib/blockchain/verifier-stats'
+import {
+  APPROVAL_RATE_FLAG_MARGIN,
+  formatDecisionTime,
+  type DecisionBucket,
+  type StatsPeriod,
+  type VerifierFlag,
+  type VerifierStats,
+  type VerifierStatsReport,
+} from '@/lib/utils/verifier-stats'
+
+// Audit trail rows shown before "Show more"
+const AUDIT_PAGE_SIZE = 25
+
+const FLAG_LABELS: Record<VerifierFlag, string> = {
+  HIGH_APPROVAL_RATE: 'Approves far more than peers',
+  LOW_APPROVAL_RATE: 'Rejects far more than peers',
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+const formatRate = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`)
+const formatDate = (seconds: number) => new Date(seconds * 1000).toLocaleDateString()
+
+function Timeline({ buckets, period }: { buckets: DecisionBucket[]; period: StatsPeriod }) {
+  const max = Math.max(1, ...buckets.map((bucket) => bucket.approvals + bucket.rejections))
+  return (
+    <div>
+      <div className="flex h-32 items-end gap-1">
+        {buckets.map((bucket) => {
+          const total = bucket.approvals + bucket.rejections
+          return (
+            <div
+              key={bucket.start}
+              className="flex flex-1 flex-col justify-end"
+              title={`${period === 'week' ? 'Week of ' : ''}${formatDate(bucket.start)}: ${bucket.approvals} approved, ${bucket.rejections} rejected`}
+            >
+              <div className="bg-red-500/70" style={{ height: `${(bucket.rejections / max) * 100}%` }} />
+              <div className="bg-green-500/70" style={{ height: `${(bucket.approvals / max) * 100}%` }} />
+              {total === 0 && <div className="h-px bg-gray-700" />}
+            </div>
+          )
+        })}
+      </div>
+      <div className="mt-1 flex justify-between text-xs text-gray-500">
+        <span>{buckets.length > 0 && formatDate(buckets[0].start)}</span>
+        <span>{period === 'week' ? 'This week' : 'Today'}</span>
+      </div>
+    </div>
+  )
+}
+
+export default function VerifierStatsPage() {
+  const { address } = useAccount()
+  const [period, setPeriod] = useState<StatsPeriod>('week')
+  const [report, setReport] = useState<VerifierStatsReport | null>(null)
+  const [selected, setSelected] = useState<string | null>(null)
+  const [auditShown, setAuditShown] = useState(AUDIT_PAGE_SIZE)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  async function refresh() {
+    setLoading(true)
+    setError(null)
+    try {
+      setReport(await loadVerifierStats({ period, periods: period === 'week' ? 12 : 30 }))
+    } catch (error) {
+      console.error('Error loading verifier stats:', error)
+      setError('Failed to load verifier stats. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    refresh()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [period])
+
+  // Default to the connected verifier, otherwise the busiest one
+  useEffect(() => {
+    if (!report || (selected && report.verifiers.some((stats) => stats.verifier === selected))) return
+    const own = address && report.verifiers.find((stats) => stats.verifier === address.toLowerCase())
+    setSelected((own || report.verifiers[0])?.verifier ?? null)
+  }, [report, address, selected])
+
+  useEffect(() => {
+    setAuditShown(AUDIT_PAGE_SIZE)
+  }, [selected])
+
+  const selectedStats: VerifierStats | undefined = report?.verifiers.find((stats) => stats.verifier === selected)
+  const audit = report?.audit.filter((decision) => decision.verifier === selected) ?? []
+
+  return (
+    <div className="min-h-screen bg-background px-4 py-8 pb-20">
+      <div className="mx-auto max-w-6xl">
+        <div className="mb-6 flex items-center justify-between gap-4">
+          <BackButton href="/verifier" label="Verifier dashboard" />
+          <div className="flex items-center gap-2">
+            {(['week', 'day'] as const).map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={period === option ? 'default' : 'outline'}
+                onClick={() => setPeriod(option)}
+                disabled={loading}
+              >
+                {option === 'week' ? 'Weekly' : 'Daily'}
+              </Button>
+            ))}
+            <Button size="sm" variant="outline" onClick={refresh} disabled={loading} className="gap-2">
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        <h1 className="mb-2 flex items-center gap-3 text-3xl font-bold uppercase text-white">
+          <BarChart3 className="h-8 w-8 text-brand-green" />
+          Verifier Stats
+        </h1>
+        <p className="mb-8 text-sm text-gray-400">
+          Review decisions from the Submission contract events. Time to decision runs from submission to
+          approval or rejection, queue time included.
+        </p>
+
+        {error && (
+          <div className="mb-6 rounded-lg border border-red-500/50 bg-red-500/10 p-4 text-red-400">{error}</div>
+        )}
+
+        {loading && !report ? (
+          <div className="flex items-center justify-center p-12">
+            <Loader2 className="h-8 w-8 animate-spin text-brand-green" />
+          </div>
+        ) : report && (
+          <>
+            <div className="mb-8 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <div className="rounded-lg border border-gray-800 bg-gray-900 p-4">
+                <div className="text-sm text-gray-400">Decisions</div>
+                <div className="mt-1 text-2xl font-bold text-white">{report.overall.decisions}</div>
+              </div>
+              <div className="rounded-lg border border-green-500/50 bg-green-500/10 p-4">
+                <div className="text-sm text-gray-400">Approval rate</div>
+                <div className="mt-1 text-2xl font-bold text-green-400">{formatRate(report.overall.approvalRate)}</div>
+              </div>
+              <div className="rounded-lg border border-gray-800 bg-gray-900 p-4">
+                <div className="text-sm text-gray-400">Median time to decision</div>
+                <div className="mt-1 text-2xl font-bold text-white">
+                  {formatDecisionTime(report.overall.medianDecisionSeconds)}
+                </div>
+              </div>
+              <div className="rounded-lg border border-yellow-500/50 bg-yellow-500/10 p-4">
+                <div className="text-sm text-gray-400">Backlog</div>
+                <div className="mt-1 text-2xl font-bold text-yellow-400">{report.backlog.pending} pending</div>
+                {report.backlog.oldestPendingSeconds !== null && (
+                  <div className="mt-1 text-xs text-gray-400">
+                    Oldest waiting {formatDecisionTime(report.backlog.oldestPendingSeconds)}, median{' '}
+                    {formatDecisionTime(report.backlog.medianPendingSeconds)}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Verifiers */}
+            <div className="mb-8 overflow-x-auto rounded-lg border border-gray-800 bg-gray-900">
+              <table className="w-full text-left text-sm">
+                <thead className="border-b border-gray-800 text-xs uppercase text-gray-400">
+                  <tr>
+                    <th className="p-3">Verifier</th>
+                    <th className="p-3 text-right">Approved</th>
+                    <th className="p-3 text-right">Rejected</th>
+                    <th className="p-3 text-right">Approval rate (peers)</th>
+                    <th className="p-3 text-right">Median time</th>
+                    <th className="p-3 text-right">DCU earned</th>
+                    <th className="p-3">Last decision</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.verifiers.length === 0 && (
+                    <tr>
+                      <td colSpan={7} className="p-6 text-center text-gray-400">No review decisions yet.</td>
+                    </tr>
+                  )}
+                  {report.verifiers.map((stats) => (
+                    <tr
+                      key={stats.verifier}
+                      onClick={() => setSelected(stats.verifier)}
+                      className={`cursor-pointer border-b border-gray-800 last:border-0 hover:bg-gray-800/60 ${
+                        stats.verifier === selected ? 'bg-gray-800/60' : ''
+                      }`}
+                    >
+                      <td className="p-3">
+                        <div className="font-mono text-white">
+                          {shortAddress(stats.verifier)}
+                          {stats.verifier === address?.toLowerCase() && (
+                            <span className="ml-2 rounded bg-brand-green/20 px-1.5 py-0.5 text-xs text-brand-green">You</span>
+                          )}
+                        </div>
+                        {stats.flags.map((flag) => (
+                          <div key={flag} className="mt-1 flex items-center gap-1 text-xs text-orange-400">
+                            <AlertTriangle className="h-3 w-3" />
+                            {FLAG_LABELS[flag]}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="p-3 text-right text-green-400">{stats.approvals}</td>
+                      <td className="p-3 text-right text-red-400">{stats.rejections}</td>
+                      <td className="p-3 text-right text-white">
+                        {formatRate(stats.approvalRate)}{' '}
+                        <span className="text-gray-500">({formatRate(stats.peerApprovalRate)})</span>
+                      </td>
+                      <td className="p-3 text-right text-white">{formatDecisionTime(stats.medianDecisionSeconds)}</td>
+                      <td className="p-3 text-right text-white">{formatEther(stats.dcuEarned)}</td>
+                      <td className="p-3 text-gray-400">{stats.lastDecisionAt ? formatDate(stats.lastDecisionAt) : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="-mt-6 mb-8 text-xs text-gray-500">
+              Verifiers with at least 10 decisions are flagged when their approval rate is{' '}
+              {Math.round(APPROVAL_RATE_FLAG_MARGIN * 100)} points or more away from everyone else&apos;s.
+            </p>
+
+            {/* Selected verifier */}
+            {selectedStats && (
+              <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+                <div className="rounded-lg border border-gray-800 bg-gray-900 p-4">
+                  <h2 className="mb-4 text-lg font-bold uppercase text-white">
+                    {shortAddress(selectedStats.verifier)} over time
+                  </h2>
+                  <Timeline buckets={selectedStats.timeline} period={period} />
+                  <div className="mt-3 flex gap-4 text-xs text-gray-400">
+                    <span className="flex items-center gap-1"><span className="h-2 w-2 bg-green-500/70" />Approved</span>
+                    <span className="flex items-center gap-1"><span className="h-2 w-2 bg-red-500/70" />Rejected</span>
+                  </div>
+                </div>
+
+                <div className="rounded-lg border border-gray-800 bg-gray-900 p-4">
+                  <h2 className="mb-4 text-lg font-bold uppercase text-white">Audit trail</h2>
+                  {audit.length === 0 ? (
+                    <p className="text-sm text-gray-400">No decisions recorded.</p>
+                  ) : (
+                    <ul className="max-h-96 space-y-2 overflow-y-auto text-sm">
+                      {audit.slice(0, auditShown).map((decision) => (
+                        <li
+                          key={`${decision.submissionId}-${decision.decidedAt}`}
+                          className="flex items-center justify-between gap-2 border-b border-gray-800 pb-2 last:border-0"
+                        >
+                          <span className="flex items-center gap-2">
+                            {decision.outcome === 'approved'
+                              ? <CheckCircle className="h-4 w-4 text-green-400" />
+                              : <XCircle className="h-4 w-4 text-red-400" />}
+                            <span className="text-white">Cleanup #{decision.submissionId}</span>
+                          </span>
+                          <span className="flex items-center gap-3 text-xs text-gray-400">
+                            <span className="flex items-center gap-1">
+                              <Clock className="h-3 w-3" />
+                              {formatDecisionTime(decision.decidedAt - decision.submittedAt)}
+                            </span>
+                            <span>{new Date(decision.decidedAt * 1000).toLocaleString()}</span>
+                            {decision.txHash && (
+                              <a
+                                href={`${REQUIRED_BLOCK_EXPLORER_URL}/tx/${decision.txHash}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-brand-green hover:underline"
+                                aria-label="View transaction"
+                              >
+                                <ExternalLink className="h-3 w-3" />
+                              </a>
+                            )}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {audit.length > auditShown && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="mt-3"
+                      onClick={() => setAuditShown((shown) => shown + AUDIT_PAGE_SIZE)}
+                    >
+                      Show more ({audit.length - auditShown} left)
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { fetchIPFSContent, parseIPFSRef } from '@/lib/blockchain/ipfs-fetch'
+
+interface IPFSState<T> {
+    data: T | null
+    loading: boolean
+    error: string | null
+    verified: boolean
+}
+
+const IDLE = { data: null, loading: false, error: null, verified: false }
+
+/**
+ * Hook to display an image stored on IPFS
+ * Fetches it through the gateway race and serves it from an object URL, so the
+ * browser only shows bytes verified against the CID. Non-IPFS URLs (local
+ * placeholders) are passed through untouched.
+ */
+export function useIPFSImage(ref: string | null | undefined) {
+    const [state, setState] = useState<IPFSState<string>>(() => ({ ...IDLE, loading: Boolean(ref) }))
+
+    useEffect(() => {
+        if (!ref) {
+            setState(IDLE)
+            return
+        }
+        if (!parseIPFSRef(ref)) {
+            setState({ data: ref, loading: false, error: null, verified: false })
+            return
+        }
+
+        const controller = new AbortController()
+        let objectUrl: string | null = null
+        setState({ data: null, loading: true, error: null, verified: false })
+
+        fetchIPFSContent(ref, { accept: 'image/*', signal: controller.signal })
+            .then((content) => {
+                if (controller.signal.aborted) return
+                objectUrl = URL.createObjectURL(new Blob([content.bytes], { type: content.contentType }))
+                setState({ data: objectUrl, loading: false, error: null, verified: content.verified })
+            })
+            .catch((error) => {
+                if (controller.signal.aborted) return
+                console.error('Error loading IPFS image:', error)
+                setState({ data: null, loading: false, error: error?.message || 'Failed to load image', verified: false })
+            })
+
+        return () => {
+            controller.abort()
+            if (objectUrl) URL.revokeObjectURL(objectUrl)
+        }
+    }, [ref])
+
+    return { src: state.data, loading: state.loading, error: state.error, verified: state.verified }
+}
+
+/**
+ * Hook to load a JSON document from IPFS
+ * `parse` validates the raw JSON (e.g. parseImpactReport); its errors are
+ * reported like fetch errors. Nothing is fetched while `enabled` is false.
+ */
+export function useIPFSJSON<T = unknown>(
+    ref: string | null | undefined,
+    options: { parse?: (raw: unknown) => T; enabled?: boolean } = {}
+) {
+    const { enabled = true } = options
+    const [state, setState] = useState<IPFSState<T>>(() => ({ ...IDLE, loading: Boolean(ref && enabled) }))
+    const [reloadKey, setReloadKey] = useState(0)
+    // The parser is usually an inline function: keep it out of the effect's dependencies
+    const parseRef = useRef(options.parse)
+    parseRef.current = options.parse
+
+    useEffect(() => {
+        if (!ref || !enabled) {
+            setState(IDLE)
+            return
+        }
+
+        const controller = new AbortController()
+        setState((previous) => ({ ...previous, loading: true, error: null }))
+
+        fetchIPFSContent(ref, { accept: 'application/json', signal: controller.signal })
+            .then((content) => {
+                if (controller.signal.aborted) return
+                const raw = JSON.parse(new TextDecoder().decode(content.bytes))
+                const data = parseRef.current ? parseRef.current(raw) : (raw as T)
+                setState({ data, loading: false, error: null, verified: content.verified })
+            })
+            .catch((error) => {
+                if (controller.signal.aborted) return
+                console.error('Error loading IPFS document:', error)
+                setState({ data: null, loading: false, error: error?.message || 'Failed to load data from IPFS', verified: false })
+            })
+
+        return () => controller.abort()
+    }, [ref, enabled, reloadKey])
+
+    const reload = useCallback(() => setReloadKey((key) => key + 1), [])
+
+    return { ...state, reload }
+}
@@ -0,0 +1,44 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { SIWE_MESSAGE_TTL_MS, VERIFIER_SESSION_TTL_MS } from './siwe-rules'
+import type { VerifierAuthError, VerifierSession } from './types'
+import { verifyVerifierSession } from './verifier-session'
+
+export const VERIFIER_SESSION_COOKIE = 'decleanup_verifier_session'
+export const SIWE_NONCE_COOKIE = 'decleanup_siwe_nonce'
+
+const cookieOptions = (maxAgeMs: number) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict' as const,
+  path: '/',
+  maxAge: Math.floor(maxAgeMs / 1000),
+})
+
+/** JSON error response for the verifier API routes: `{ error, code }`. */
+export function authErrorResponse(error: VerifierAuthError): NextResponse {
+  return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+}
+
+export function setNonceCookie(response: NextResponse, value: string): void {
+  response.cookies.set(SIWE_NONCE_COOKIE, value, cookieOptions(SIWE_MESSAGE_TTL_MS))
+}
+
+export function setSessionCookie(response: NextResponse, value: string): void {
+  response.cookies.set(SIWE_NONCE_COOKIE, '', cookieOptions(0))
+  response.cookies.set(VERIFIER_SESSION_COOKIE, value, cookieOptions(VERIFIER_SESSION_TTL_MS))
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(VERIFIER_SESSION_COOKIE, '', cookieOptions(0))
+}
+
+/**
+ * The signed-in verifier of a request, for verifier-only API routes
+ * An `X-Verifier-Address` header, when sent, must match the session's wallet.
+ * @throws VerifierAuthError (401/403), answer with authErrorResponse()
+ */
+export function requireVerifierSession(request: NextRequest): Promise<VerifierSession> {
+  return verifyVerifierSession(request.cookies.get(VERIFIER_SESSION_COOKIE)?.value, {
+    address: request.headers.get('x-verifier-address'),
+  })
+}
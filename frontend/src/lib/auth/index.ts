@@ -0,0 +1,19 @@
+/**
+ * Verifier authentication for the API routes
+ *
+ * Verifiers sign in with Ethereum (EIP-4361) through /api/verifier/nonce and
+ * /api/verifier/session; verifier-only routes call requireVerifierSession().
+ */
+
+export { VerifierAuthError, type VerifierSession } from './types'
+export { issueSiweNonce, signInVerifier, verifyVerifierSession } from './verifier-session'
+export { hasVerifierRole, getRequiredChainId } from './verifier-role'
+export {
+  authErrorResponse,
+  clearSessionCookie,
+  requireVerifierSession,
+  setNonceCookie,
+  setSessionCookie,
+  SIWE_NONCE_COOKIE,
+  VERIFIER_SESSION_COOKIE,
+} from './http'
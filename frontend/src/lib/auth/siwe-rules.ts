@@ -0,0 +1,60 @@
+import { createSiweMessage } from 'viem/siwe'
+import type { Address } from 'viem'
+
+/**
+ * Sign-In With Ethereum (EIP-4361) rules shared by the verifier session API
+ * routes and the browser client
+ *
+ * The server hands out a nonce, the wallet signs a message bound to the app's
+ * domain, the required chain and a short expiry, and the server exchanges the
+ * signature for an HTTP-only session once it has checked VERIFIER_ROLE on the
+ * Submission contract. This module has no server dependencies.
+ */
+
+export type VerifierAuthErrorCode =
+  | 'INVALID_SIWE_MESSAGE'
+  | 'SIWE_NONCE_MISMATCH'
+  | 'SIWE_MESSAGE_EXPIRED'
+  | 'INVALID_SIGNATURE'
+  | 'NOT_A_VERIFIER'
+  | 'VERIFIER_SESSION_REQUIRED'
+  | 'VERIFIER_SESSION_EXPIRED'
+  | 'AUTH_ERROR'
+
+export const VERIFIER_SIWE_STATEMENT = 'Sign in to the DeCleanup Verifier Dashboard.'
+
+// How long a signed message (and its nonce) can be exchanged for a session
+export const SIWE_MESSAGE_TTL_MS = 10 * 60 * 1000
+export const VERIFIER_SESSION_TTL_MS = 12 * 60 * 60 * 1000
+
+export interface VerifierSiweMessageParams {
+  address: Address
+  chainId: number
+  /** Host the app is served from, e.g. `app.decleanup.net` */
+  domain: string
+  /** Origin the sign-in happens on, e.g. `https://app.decleanup.net` */
+  uri: string
+  nonce: string
+  issuedAt?: Date
+}
+
+export function buildVerifierSiweMessage({
+  address,
+  chainId,
+  domain,
+  uri,
+  nonce,
+  issuedAt = new Date(),
+}: VerifierSiweMessageParams): string {
+  return createSiweMessage({
+    address,
+    chainId,
+    domain,
+    uri,
+    nonce,
+    issuedAt,
+    expirationTime: new Date(issuedAt.getTime() + SIWE_MESSAGE_TTL_MS),
+    statement: VERIFIER_SIWE_STATEMENT,
+    version: '1',
+  })
+}
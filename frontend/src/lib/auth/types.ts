@@ -0,0 +1,24 @@
+import type { Address } from 'viem'
+import type { VerifierAuthErrorCode } from './siwe-rules'
+
+export interface VerifierSession {
+  address: Address
+  chainId: number
+  expiresAt: number
+}
+
+/**
+ * A verifier sign-in or session failure with the HTTP status the API routes
+ * should answer with, and a code the client can act on
+ */
+export class VerifierAuthError extends Error {
+  readonly status: number
+  readonly code: VerifierAuthErrorCode
+
+  constructor(message: string, status = 500, code: VerifierAuthErrorCode = 'AUTH_ERROR') {
+    super(message)
+    this.name = 'VerifierAuthError'
+    this.status = status
+    this.code = code
+  }
+}
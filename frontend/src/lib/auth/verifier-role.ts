@@ -0,0 +1,86 @@
+import { createPublicClient, http, isAddress, parseAbi, type Address, type PublicClient } from 'viem'
+import { VerifierAuthError } from './types'
+
+/**
+ * On-chain verifier check for the session API routes
+ *
+ * Reads VERIFIER_ROLE on the Submission contract of the chain the app runs on
+ * (NEXT_PUBLIC_CHAIN_ID). VERIFIER_AUTH_RPC_URL overrides the public RPC the
+ * client uses. Results are cached briefly so every verifier-only request can
+ * re-check the role without hitting the RPC each time.
+ */
+
+const CELO_MAINNET_ID = 42220
+const CELO_SEPOLIA_ID = 11142220
+const ROLE_CACHE_MS = 60 * 1000
+
+const SUBMISSION_ROLE_ABI = parseAbi([
+  'function VERIFIER_ROLE() view returns (bytes32)',
+  'function hasRole(bytes32 role, address account) view returns (bool)',
+])
+
+export function getRequiredChainId(env: NodeJS.ProcessEnv = process.env): number {
+  return Number(env.NEXT_PUBLIC_CHAIN_ID || CELO_SEPOLIA_ID)
+}
+
+function getRpcUrl(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.VERIFIER_AUTH_RPC_URL) return env.VERIFIER_AUTH_RPC_URL
+  return getRequiredChainId(env) === CELO_MAINNET_ID
+    ? env.NEXT_PUBLIC_RPC_URL || 'https://forno.celo.org'
+    : env.NEXT_PUBLIC_SEPOLIA_RPC_URL || 'https://forno.celo-sepolia.celo-testnet.org'
+}
+
+let client: PublicClient | null = null
+
+/** Public client for the required chain, also used for smart wallet signatures. */
+export function getChainClient(): PublicClient {
+  if (!client) {
+    client = createPublicClient({ transport: http(getRpcUrl()) })
+  }
+  return client
+}
+
+const globalRoles = globalThis as typeof globalThis & {
+  __decleanupVerifierRoles?: Map<string, { isVerifier: boolean; checkedAt: number }>
+}
+
+function roleCache() {
+  if (!globalRoles.__decleanupVerifierRoles) {
+    globalRoles.__decleanupVerifierRoles = new Map()
+  }
+  return globalRoles.__decleanupVerifierRoles
+}
+
+/**
+ * Whether the address holds VERIFIER_ROLE on the Submission contract
+ * Throws a 503 VerifierAuthError when the contract can't be read.
+ */
+export async function hasVerifierRole(address: Address, now = Date.now()): Promise<boolean> {
+  const key = address.toLowerCase()
+  const cached = roleCache().get(key)
+  if (cached && now - cached.checkedAt < ROLE_CACHE_MS) return cached.isVerifier
+
+  const submission = process.env.NEXT_PUBLIC_SUBMISSION_CONTRACT
+  if (!submission || !isAddress(submission)) {
+    throw new VerifierAuthError('Verifier sign-in is not configured. Please set NEXT_PUBLIC_SUBMISSION_CONTRACT.')
+  }
+
+  try {
+    const role = await getChainClient().readContract({
+      address: submission,
+      abi: SUBMISSION_ROLE_ABI,
+      functionName: 'VERIFIER_ROLE',
+    })
+    const isVerifier = await getChainClient().readContract({
+      address: submission,
+      abi: SUBMISSION_ROLE_ABI,
+      functionName: 'hasRole',
+      args: [role, address],
+    })
+    roleCache().set(key, { isVerifier, checkedAt: now })
+    return isVerifier
+  } catch (error) {
+    console.error('Error checking verifier role:', error)
+    throw new VerifierAuthError('Could not check the verifier role on-chain. Please try again.', 503)
+  }
+}
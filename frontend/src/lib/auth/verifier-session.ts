@@ -0,0 +1,185 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { isAddress, isAddressEqual, verifyMessage, type Address, type Hex } from 'viem'
+import { generateSiweNonce, parseSiweMessage } from 'viem/siwe'
+import { SIWE_MESSAGE_TTL_MS, VERIFIER_SESSION_TTL_MS, VERIFIER_SIWE_STATEMENT } from './siwe-rules'
+import { VerifierAuthError, type VerifierSession } from './types'
+import { getChainClient, getRequiredChainId, hasVerifierRole } from './verifier-role'
+
+/**
+ * Verifier sessions
+ *
+ * Nonces and sessions are HMAC-signed values kept in HTTP-only cookies, so
+ * they work across server instances as long as they share
+ * VERIFIER_SESSION_SECRET. A nonce is only accepted together with the cookie
+ * it was issued in, and the cookie is cleared when it is used.
+ */
+
+interface NoncePayload {
+  nonce: string
+  expiresAt: number
+}
+
+const globalSecret = globalThis as typeof globalThis & { __decleanupVerifierSessionSecret?: string }
+
+function getSecret(): string {
+  const configured = process.env.VERIFIER_SESSION_SECRET
+  if (configured) return configured
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new VerifierAuthError('Verifier sign-in is not configured. Please set VERIFIER_SESSION_SECRET.')
+  }
+  // Development: a per-process secret, sessions simply end on restart
+  if (!globalSecret.__decleanupVerifierSessionSecret) {
+    globalSecret.__decleanupVerifierSessionSecret = randomBytes(32).toString('hex')
+  }
+  return globalSecret.__decleanupVerifierSessionSecret
+}
+
+// Nonce and session values are signed for their purpose, so one can't stand in for the other
+const sign = (purpose: string, payload: string) =>
+  createHmac('sha256', getSecret()).update(`${purpose}:${payload}`).digest('base64url')
+
+function seal(purpose: string, payload: object): string {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${encoded}.${sign(purpose, encoded)}`
+}
+
+function unseal<T>(purpose: string, value: string | null | undefined): T | null {
+  const [encoded, signature] = (value || '').split('.')
+  if (!encoded || !signature) return null
+  const expected = sign(purpose, encoded)
+  if (signature.length !== expected.length || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    return null
+  }
+  try {
+    return JSON.parse(Buffer.from(encoded, 'base64url').toString()) as T
+  } catch {
+    return null
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   NONCES                                   */
+/* -------------------------------------------------------------------------- */
+
+/** A fresh nonce, and the sealed cookie value that vouches for it. */
+export function issueSiweNonce(now = Date.now()): { nonce: string; cookie: string; expiresAt: number } {
+  const payload: NoncePayload = { nonce: generateSiweNonce(), expiresAt: now + SIWE_MESSAGE_TTL_MS }
+  return { nonce: payload.nonce, cookie: seal('nonce', payload), expiresAt: payload.expiresAt }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  SIGN-IN                                   */
+/* -------------------------------------------------------------------------- */
+
+interface SignInRequest {
+  message: unknown
+  signature: unknown
+}
+
+interface SignInContext {
+  /** Sealed nonce cookie sent with the request */
+  nonceCookie: string | null | undefined
+  /** Host the request was made to; the message must be bound to it */
+  domain: string
+  now?: number
+}
+
+/**
+ * Check a signed SIWE message and the signer's VERIFIER_ROLE, and open a session
+ * @returns The session and its sealed cookie value
+ * @throws VerifierAuthError (400/401/403) naming what failed
+ */
+export async function signInVerifier(
+  { message, signature }: SignInRequest,
+  { nonceCookie, domain, now = Date.now() }: SignInContext
+): Promise<{ session: VerifierSession; cookie: string }> {
+  if (typeof message !== 'string' || typeof signature !== 'string' || !signature.startsWith('0x')) {
+    throw new VerifierAuthError('Invalid sign-in request.', 400, 'INVALID_SIWE_MESSAGE')
+  }
+
+  const fields = parseSiweMessage(message)
+  if (!fields.address || !isAddress(fields.address, { strict: false }) || !fields.nonce) {
+    throw new VerifierAuthError('Invalid sign-in message.', 400, 'INVALID_SIWE_MESSAGE')
+  }
+  if (fields.domain !== domain || fields.statement !== VERIFIER_SIWE_STATEMENT) {
+    throw new VerifierAuthError(`The sign-in message is not for ${domain}.`, 400, 'INVALID_SIWE_MESSAGE')
+  }
+  const chainId = getRequiredChainId()
+  if (fields.chainId !== chainId) {
+    throw new VerifierAuthError(`Please sign in on chain ${chainId}.`, 400, 'INVALID_SIWE_MESSAGE')
+  }
+
+  const nonce = unseal<NoncePayload>('nonce', nonceCookie)
+  if (!nonce || nonce.nonce !== fields.nonce) {
+    throw new VerifierAuthError('The sign-in request is no longer valid. Please sign in again.', 401, 'SIWE_NONCE_MISMATCH')
+  }
+  const expiresAt = fields.expirationTime?.getTime()
+  const issuedAt = fields.issuedAt?.getTime()
+  if (
+    nonce.expiresAt <= now ||
+    !expiresAt ||
+    expiresAt <= now ||
+    !issuedAt ||
+    expiresAt - issuedAt > SIWE_MESSAGE_TTL_MS ||
+    (fields.notBefore && fields.notBefore.getTime() > now)
+  ) {
+    throw new VerifierAuthError('The sign-in message has expired. Please sign in again.', 401, 'SIWE_MESSAGE_EXPIRED')
+  }
+
+  // EOA signatures are checked locally, smart wallets (ERC-1271/6492) on-chain
+  const address = fields.address
+  let valid = await verifyMessage({ address, message, signature: signature as Hex }).catch(() => false)
+  if (!valid) {
+    valid = await getChainClient()
+      .verifyMessage({ address, message, signature: signature as Hex })
+      .catch(() => false)
+  }
+  if (!valid) {
+    throw new VerifierAuthError('The signature does not match the wallet.', 401, 'INVALID_SIGNATURE')
+  }
+
+  if (!(await hasVerifierRole(address))) {
+    throw new VerifierAuthError(`Address ${address} is not authorized as a verifier.`, 403, 'NOT_A_VERIFIER')
+  }
+
+  const session: VerifierSession = {
+    address: address.toLowerCase() as Address,
+    chainId,
+    expiresAt: now + VERIFIER_SESSION_TTL_MS,
+  }
+  return { session, cookie: seal('session', session) }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  SESSIONS                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * The verifier behind a session cookie, re-checking VERIFIER_ROLE so revoked
+ * verifiers lose access without waiting for the session to expire
+ * @param address When set, the session must belong to this wallet
+ * @throws VerifierAuthError: 401 without a valid session, 403 once the role is gone
+ */
+export async function verifyVerifierSession(
+  cookie: string | null | undefined,
+  { address, now = Date.now() }: { address?: string | null; now?: number } = {}
+): Promise<VerifierSession> {
+  if (!cookie) {
+    throw new VerifierAuthError('Please sign in as a verifier.', 401, 'VERIFIER_SESSION_REQUIRED')
+  }
+  const session = unseal<VerifierSession>('session', cookie)
+  if (!session || session.chainId !== getRequiredChainId()) {
+    throw new VerifierAuthError('Please sign in as a verifier.', 401, 'VERIFIER_SESSION_REQUIRED')
+  }
+  if (session.expiresAt <= now) {
+    throw new VerifierAuthError('Your verifier session has expired. Please sign in again.', 401, 'VERIFIER_SESSION_EXPIRED')
+  }
+  if (address && (!isAddress(address, { strict: false }) || !isAddressEqual(address as Address, session.address))) {
+    throw new VerifierAuthError('The verifier session belongs to another wallet.', 401, 'VERIFIER_SESSION_REQUIRED')
+  }
+  if (!(await hasVerifierRole(session.address))) {
+    throw new VerifierAuthError(`Address ${session.address} is no longer a verifier.`, 403, 'NOT_A_VERIFIER')
+  }
+  return session
+}
@@ -0,0 +1,7 @@
+// This file is generated by contracts/scripts/generate-frontend-abis.ts.
+// Do not edit it by hand: change the contract and re-run the script.
+export { SUBMISSION_ABI } from './Submission'
+export { DCU_REWARD_MANAGER_ABI } from './DCURewardManager'
+export { IMPACT_PRODUCT_NFT_ABI } from './ImpactProductNFT'
+export { DCU_TOKEN_ABI } from './DCUToken'
+export { RECYCLABLES_REWARD_ABI } from './RecyclablesReward'
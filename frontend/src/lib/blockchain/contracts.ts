@@ -1,14 +1,27 @@
-import { Address } from 'viem'
+import { Address, type ContractFunctionReturnType } from 'viem'
 import { readContract, writeContract, getAccount, waitForTransactionReceipt, getPublicClient } from '@wagmi/core'
 import { config } from './wagmi'
 import { REQUIRED_BLOCK_EXPLORER_URL, CONTRACT_ADDRESSES } from './wagmi'
-import { keccak256, toBytes } from 'viem'
-import { getLogs as viemGetLogs } from 'viem/actions'
+import { keccak256, toBytes, getAbiItem, parseEventLogs } from 'viem'
+import { getLogs as viemGetLogs, getTransactionCount as viemGetTransactionCount } from 'viem/actions'
+import {
+  SUBMISSION_ABI,
+  DCU_REWARD_MANAGER_ABI,
+  IMPACT_PRODUCT_NFT_ABI,
+  DCU_TOKEN_ABI,
+} from './abis'
+import { syncSubmissionIndex, queryIndexedSubmissions } from './indexer'
+import { batchReadContracts } from './multicall'
+import { ContractError, decodeContractError } from './errors'
+import { RejectionReason } from '@/lib/utils/rejection-reasons'
+
+export { RejectionReason } from '@/lib/utils/rejection-reasons'
 
 export enum CleanupStatus {
   Pending = 0,
   Approved = 1,
   Rejected = 2,
+  Withdrawn = 3,
 }
 
 export interface CleanupDetails {
@@ -24,6 +37,7 @@ export interface CleanupDetails {
   rejected: boolean
   level: number
   // Additional fields from contract
+  withdrawn?: boolean // Retracted by the submitter before review
   dataURI?: string
   impactFormDataHash?: string
   hasImpactForm?: boolean
@@ -33,6 +47,10 @@ export interface CleanupDetails {
   approver?: Address
   rewarded?: boolean
   referrer?: Address // Referrer address if user was referred
+  rejectionReason?: RejectionReason // Set on rejected submissions (None for legacy rejections)
+  rejectionNoteCID?: string // IPFS CID of the verifier's note, '' when none
+  feePaid?: bigint // Submission fee sent with the cleanup, 0n when fees were disabled
+  feeRefunded?: boolean
 }
 
 const SUBMISSION_ADDRESS =
@@ -41,202 +59,47 @@ const SUBMISSION_ADDRESS =
 const REWARD_MANAGER_ADDRESS =
   process.env.NEXT_PUBLIC_REWARD_DISTRIBUTOR_CONTRACT as Address | undefined
 
-const SUBMISSION_ABI = [
-  {
-    type: 'error',
-    name: 'SUBMISSION__InvalidAddress',
-    inputs: [],
-  },
-  {
-    type: 'error',
-    name: 'SUBMISSION__InvalidSubmissionData',
-    inputs: [],
-  },
-  {
-    type: 'error',
-    name: 'SUBMISSION__SubmissionNotFound',
-    inputs: [{ name: 'submissionId', type: 'uint256' }],
-  },
-  {
-    type: 'error',
-    name: 'SUBMISSION__Unauthorized',
-    inputs: [{ name: 'user', type: 'address' }],
-  },
-  {
-    type: 'error',
-    name: 'SUBMISSION__AlreadyApproved',
-    inputs: [{ name: 'submissionId', type: 'uint256' }],
-  },
-  {
-    type: 'error',
-    name: 'SUBMISSION__AlreadyRejected',
-    inputs: [{ name: 'submissionId', type: 'uint256' }],
-  },
-  {
-    type: 'error',
-    name: 'SUBMISSION__NoRewardsAvailable',
-    inputs: [],
-  },
-  {
-    type: 'error',
-    name: 'SUBMISSION__InsufficientSubmissionFee',
-    inputs: [
-      { name: 'sent', type: 'uint256' },
-      { name: 'required', type: 'uint256' },
-    ],
-  },
-  {
-    type: 'error',
-    name: 'SUBMISSION__RefundFailed',
-    inputs: [],
-  },
-  {
-    type: 'error',
-    name: 'SUBMISSION__CannotRefundApprovedSubmission',
-    inputs: [{ name: 'submissionId', type: 'uint256' }    ],
-  },
-  {
-    type: 'function',
-    name: 'getSubmissionDetails',
-    stateMutability: 'view',
-    inputs: [{ name: 'submissionId', type: 'uint256' }],
-    outputs: [
-      {
-        components: [
-          { name: 'id', type: 'uint256' },
-          { name: 'submitter', type: 'address' },
-          { name: 'dataURI', type: 'string' },
-          { name: 'beforePhotoHash', type: 'string' },
-          { name: 'afterPhotoHash', type: 'string' },
-          { name: 'impactFormDataHash', type: 'string' },
-          { name: 'latitude', type: 'int256' },
-          { name: 'longitude', type: 'int256' },
-          { name: 'timestamp', type: 'uint256' },
-          { name: 'status', type: 'uint8' },
-          { name: 'approver', type: 'address' },
-          { name: 'processedTimestamp', type: 'uint256' },
-          { name: 'rewarded', type: 'bool' },
-          { name: 'feePaid', type: 'uint256' },
-          { name: 'feeRefunded', type: 'bool' },
-          { name: 'hasImpactForm', type: 'bool' },
-          { name: 'hasRecyclables', type: 'bool' },
-          { name: 'recyclablesPhotoHash', type: 'string' },
-          { name: 'recyclablesReceiptHash', type: 'string' },
-        ],
-        type: 'tuple',
-      },
-    ],
-  },
-  {
-    type: 'function',
-    name: 'createSubmission',
-    stateMutability: 'nonpayable',
-    inputs: [
-      { name: 'dataURI', type: 'string' },
-      { name: 'beforePhotoHash', type: 'string' },
-      { name: 'afterPhotoHash', type: 'string' },
-      { name: 'impactFormDataHash', type: 'string' },
-      { name: 'lat', type: 'int256' },
-      { name: 'lng', type: 'int256' },
-      { name: 'referrer', type: 'address' },
-    ],
-    outputs: [{ name: 'submissionId', type: 'uint256' }],
-  },
-  {
-    type: 'function',
-    name: 'attachRecyclables',
-    stateMutability: 'nonpayable',
-    inputs: [
-      { name: 'submissionId', type: 'uint256' },
-      { name: 'recyclablesPhotoHash', type: 'string' },
-      { name: 'recyclablesReceiptHash', type: 'string' },
-    ],
-    outputs: [],
-  },
-  {
-    type: 'function',
-    name: 'approveSubmission',
-    stateMutability: 'nonpayable',
-    inputs: [{ name: 'submissionId', type: 'uint256' }],
-    outputs: [],
-  },
-  {
-    type: 'function',
-    name: 'rejectSubmission',
-    stateMutability: 'nonpayable',
-    inputs: [{ name: 'submissionId', type: 'uint256' }],
-    outputs: [],
-  },
-  {
-    type: 'function',
-    name: 'hasRole',
-    stateMutability: 'view',
-    inputs: [
-      { name: 'role', type: 'bytes32' },
-      { name: 'account', type: 'address' },
-    ],
-    outputs: [{ name: '', type: 'bool' }],
-  },
-  {
-    type: 'function',
-    name: 'VERIFIER_ROLE',
-    stateMutability: 'view',
-    inputs: [],
-    outputs: [{ name: '', type: 'bytes32' }],
-  },
-  {
-    type: 'function',
-    name: 'submissionCount',
-    stateMutability: 'view',
-    inputs: [],
-    outputs: [{ name: '', type: 'uint256' }],
-  },
-  {
-    type: 'function',
-    name: 'getSubmissionsByUser',
-    stateMutability: 'view',
-    inputs: [{ name: 'user', type: 'address' }],
-    outputs: [{ name: '', type: 'uint256[]' }],
-  },
-] as const
+export interface CleanupSubmissionParams {
+  beforeHash: string
+  afterHash: string
+  lat: number
+  lng: number
+  referrer: string | null
+  hasImpactForm: boolean
+  impactReportHash: string
+  // Submission manifest URI; defaults to the before photo
+  dataURI?: string
+  fee?: bigint
+}
 
-export async function submitCleanup(
-  beforeHash: string,
-  afterHash: string,
-  lat: number,
-  lng: number,
-  _referrer: string | null,
-  _hasImpactForm: boolean,
-  _impactReportHash: string,
-  _fee?: bigint
-): Promise<bigint> {
+/**
+ * Send the createSubmission transaction without waiting for it.
+ * Callers that need to survive reloads persist the returned hash and confirm
+ * it separately with confirmCleanupSubmission().
+ */
+export async function sendCleanupSubmission(params: CleanupSubmissionParams): Promise<`0x${string}`> {
   if (!SUBMISSION_ADDRESS) {
-    throw new Error('Submission contract address not configured. Please set NEXT_PUBLIC_SUBMISSION_CONTRACT in .env.local')
+    throw new ContractError('NOT_CONFIGURED', { contract: 'Submission', envVar: 'NEXT_PUBLIC_SUBMISSION_CONTRACT' })
   }
 
   const account = getAccount(config)
   if (!account.address) {
-    throw new Error('Wallet not connected')
+    throw new ContractError('WALLET_NOT_CONNECTED')
   }
 
+  const { beforeHash, afterHash, lat, lng, fee } = params
   const scale = 1_000_000
   const latScaled = Math.round(lat * scale)
   const lngScaled = Math.round(lng * scale)
   const latInt256 = BigInt(latScaled)
   const lngInt256 = BigInt(lngScaled)
-  const dataURI = `ipfs://${beforeHash}`
-  const referrer = (_referrer && _referrer !== '0x0000000000000000000000000000000000000000') 
-    ? (_referrer as Address)
+  const dataURI = params.dataURI || `ipfs://${beforeHash}`
+  const referrer = (params.referrer && params.referrer !== '0x0000000000000000000000000000000000000000') 
+    ? (params.referrer as Address)
     : '0x0000000000000000000000000000000000000000' as Address
-  const impactFormDataHash = _hasImpactForm && _impactReportHash ? _impactReportHash : ''
+  const impactFormDataHash = params.hasImpactForm && params.impactReportHash ? params.impactReportHash : ''
 
   try {
-    const submissionCountBefore = await readContract(config, {
-      address: SUBMISSION_ADDRESS,
-      abi: SUBMISSION_ABI,
-      functionName: 'submissionCount',
-    })
-
     const contractConfig: any = {
       address: SUBMISSION_ADDRESS,
       abi: SUBMISSION_ABI,
@@ -254,8 +117,8 @@ export async function submitCleanup(
       gas: 1000000n,
     }
 
-    if (_fee && _fee > 0n) {
-      contractConfig.value = _fee
+    if (fee && fee > 0n) {
+      contractConfig.value = fee
     }
 
     console.log('Submitting transaction with args:', {
@@ -266,10 +129,22 @@ export async function submitCleanup(
       lat: latInt256.toString(),
       lng: lngInt256.toString(),
       referrer: referrer,
-      fee: _fee?.toString() || '0',
+      fee: fee?.toString() || '0',
     })
 
-    const hash = await writeContract(config, contractConfig)
+    return await writeContract(config, contractConfig)
+  } catch (error) {
+    console.error('Error submitting cleanup:', error)
+    throw decodeContractError(error)
+  }
+}
+
+/**
+ * Wait for a createSubmission transaction and read the submission ID from its
+ * SubmissionCreated event.
+ */
+export async function confirmCleanupSubmission(hash: `0x${string}`): Promise<bigint> {
+  try {
     const receipt = await waitForTransactionReceipt(config, {
       hash,
       confirmations: 1,
@@ -277,45 +152,115 @@ export async function submitCleanup(
       timeout: 120000,
     })
 
-    const submissionCountAfter = await readContract(config, {
-      address: SUBMISSION_ADDRESS,
+    if (receipt.status === 'reverted') {
+      throw new ContractError('TX_REVERTED', {}, { txHash: hash })
+    }
+
+    const [created] = parseEventLogs({
       abi: SUBMISSION_ABI,
-      functionName: 'submissionCount',
+      eventName: 'SubmissionCreated',
+      logs: receipt.logs,
     })
-
-    const submissionId = submissionCountBefore as bigint
-
-    if (submissionId === undefined || submissionId === null) {
+    if (!created) {
       throw new Error('Failed to get submission ID from transaction')
     }
 
-    return submissionId
-  } catch (error: any) {
-    console.error('Error submitting cleanup:', error)
-    let errorMessage = 'Unknown error'
-    
-    if (error?.message) {
-      errorMessage = error.message
-    } else if (error?.shortMessage) {
-      errorMessage = error.shortMessage
-    } else if (error?.cause?.message) {
-      errorMessage = error.cause.message
-    } else if (typeof error === 'string') {
-      errorMessage = error
-    }
-    
-    if (errorMessage.includes('RPC') || errorMessage.includes('network') || errorMessage.includes('fetch')) {
-      errorMessage = `Network error: ${errorMessage}. Please check your internet connection and try again.`
-    }
-    
-    if (error?.data || error?.cause?.data) {
-      const revertData = error.data || error.cause.data
-      if (revertData) {
-        errorMessage = `Transaction reverted: ${revertData}`
-      }
-    }
-    
-    throw new Error(`Failed to submit cleanup: ${errorMessage}`)
+    return created.args.submissionId
+  } catch (error) {
+    console.error('Error confirming cleanup submission:', error)
+    throw decodeContractError(error, { txHash: hash })
+  }
+}
+
+/**
+ * Look up a submission this wallet already created with the given dataURI.
+ * The dataURI (manifest or before photo CID) is unique per submission, so it
+ * identifies it even when the transaction hash was lost (e.g. the tab closed mid-send).
+ */
+export async function findExistingSubmission(user: Address, dataURI: string): Promise<bigint | null> {
+  await syncSubmissionIndex()
+  const match = (await queryIndexedSubmissions({ user })).find((submission) => submission.dataURI === dataURI)
+  return match ? BigInt(match.id) : null
+}
+
+/**
+ * Transaction counts of an account, mined and including the mempool
+ * `pending` is ahead of `latest` while one of its transactions has not been mined yet.
+ */
+export async function getAccountNonces(address: Address): Promise<{ latest: number; pending: number }> {
+  const publicClient = getPublicClient(config)
+  if (!publicClient) {
+    throw new ContractError('NETWORK')
+  }
+
+  const [latest, pending] = await Promise.all([
+    viemGetTransactionCount(publicClient, { address, blockTag: 'latest' }),
+    viemGetTransactionCount(publicClient, { address, blockTag: 'pending' }),
+  ])
+  return { latest, pending }
+}
+
+export async function submitCleanup(
+  beforeHash: string,
+  afterHash: string,
+  lat: number,
+  lng: number,
+  _referrer: string | null,
+  _hasImpactForm: boolean,
+  _impactReportHash: string,
+  _fee?: bigint
+): Promise<bigint> {
+  const hash = await sendCleanupSubmission({
+    beforeHash,
+    afterHash,
+    lat,
+    lng,
+    referrer: _referrer,
+    hasImpactForm: _hasImpactForm,
+    impactReportHash: _impactReportHash,
+    fee: _fee,
+  })
+  return confirmCleanupSubmission(hash)
+}
+
+type SubmissionDetailsResult = ContractFunctionReturnType<
+  typeof SUBMISSION_ABI,
+  'view',
+  'getSubmissionDetails'
+>
+
+function toCleanupDetails(result: SubmissionDetailsResult, claimLevel = 0): CleanupDetails {
+  const status = Number(result.status)
+  // Claimed once its credit paid for an Impact Product level
+  const claimed = claimLevel > 0
+
+  return {
+    id: result.id,
+    user: result.submitter as Address,
+    beforePhotoHash: result.beforePhotoHash || '',
+    afterPhotoHash: result.afterPhotoHash || '',
+    timestamp: result.timestamp,
+    latitude: result.latitude,
+    longitude: result.longitude,
+    verified: status === CleanupStatus.Approved,
+    rejected: status === CleanupStatus.Rejected,
+    withdrawn: status === CleanupStatus.Withdrawn,
+    claimed,
+    level: status === CleanupStatus.Approved ? 1 : 0,
+    dataURI: result.dataURI,
+    impactFormDataHash: result.impactFormDataHash,
+    hasImpactForm: result.hasImpactForm || false,
+    hasRecyclables: result.hasRecyclables || false,
+    recyclablesPhotoHash: result.recyclablesPhotoHash || '',
+    recyclablesReceiptHash: result.recyclablesReceiptHash || '',
+    approver: result.approver && result.approver !== '0x0000000000000000000000000000000000000000' 
+      ? (result.approver as Address) 
+      : undefined,
+    rewarded: result.rewarded || false,
+    rejectionReason: Number(result.rejectionReason ?? RejectionReason.None) as RejectionReason,
+    rejectionNoteCID: result.rejectionNoteCID || '',
+    feePaid: result.feePaid ?? 0n,
+    feeRefunded: result.feeRefunded || false,
   }
 }
 
@@ -339,52 +284,17 @@ export async function getCleanupDetails(
   }
 
   try {
-    const result: any = await readContract(config, {
-      address: SUBMISSION_ADDRESS,
-      abi: SUBMISSION_ABI,
-      functionName: 'getSubmissionDetails',
-      args: [cleanupId],
-    })
-
-    const status = Number(result.status)
-    let claimed = false
-    if (typeof window !== 'undefined') {
-      const userAddress = result.submitter as Address
-      const cleanupId = result.id
-      const claimedKey = `claimed_cleanup_ids_${userAddress.toLowerCase()}`
-      const claimedIds = localStorage.getItem(claimedKey)
-      if (claimedIds) {
-        try {
-          const parsed = JSON.parse(claimedIds) as string[]
-          claimed = parsed.includes(cleanupId.toString())
-        } catch {
-        }
-      }
-    }
+    const [result, [claimLevel]] = await Promise.all([
+      readContract(config, {
+        address: SUBMISSION_ADDRESS,
+        abi: SUBMISSION_ABI,
+        functionName: 'getSubmissionDetails',
+        args: [cleanupId],
+      }),
+      getCleanupClaimLevels([cleanupId]),
+    ])
 
-    return {
-      id: result.id,
-      user: result.submitter as Address,
-      beforePhotoHash: result.beforePhotoHash || '',
-      afterPhotoHash: result.afterPhotoHash || '',
-      timestamp: result.timestamp,
-      latitude: result.latitude,
-      longitude: result.longitude,
-      verified: status === CleanupStatus.Approved,
-      rejected: status === CleanupStatus.Rejected,
-      claimed,
-      level: status === CleanupStatus.Approved ? 1 : 0,
-      dataURI: result.dataURI,
-      impactFormDataHash: result.impactFormDataHash,
-      hasImpactForm: result.hasImpactForm || false,
-      hasRecyclables: result.hasRecyclables || false,
-      recyclablesPhotoHash: result.recyclablesPhotoHash || '',
-      recyclablesReceiptHash: result.recyclablesReceiptHash || '',
-      approver: result.approver && result.approver !== '0x0000000000000000000000000000000000000000' 
-        ? (result.approver as Address) 
-        : undefined,
-      rewarded: result.rewarded || false,
-    }
+    return toCleanupDetails(result, claimLevel)
   } catch (error: any) {
     const errorMessage = error?.message || error?.shortMessage || String(error)
     const isNotFound = 
@@ -414,6 +324,83 @@ export async function getCleanupDetails(
   }
 }
 
+/**
+ * Read many submissions in a few multicall round-trips.
+ * Results are aligned with `cleanupIds`; entries that fail to load are null.
+ */
+export async function getCleanupDetailsBatch(
+  cleanupIds: readonly bigint[]
+): Promise<Array<CleanupDetails | null>> {
+  if (!SUBMISSION_ADDRESS || cleanupIds.length === 0) {
+    return cleanupIds.map(() => null)
+  }
+
+  const [results, claimLevels] = await Promise.all([
+    batchReadContracts<SubmissionDetailsResult>(
+      cleanupIds.map((cleanupId) => ({
+        address: SUBMISSION_ADDRESS,
+        abi: SUBMISSION_ABI,
+        functionName: 'getSubmissionDetails',
+        args: [cleanupId],
+      }))
+    ),
+    getCleanupClaimLevels(cleanupIds),
+  ])
+
+  return results.map((entry, index) => {
+    if (entry.status === 'failure') {
+      console.warn(`Failed to fetch cleanup ${cleanupIds[index].toString()}:`, entry.error.message)
+      return null
+    }
+    return toCleanupDetails(entry.result, claimLevels[index])
+  })
+}
+
+/**
+ * Impact Product level each cleanup's credit was claimed for, aligned with `cleanupIds`.
+ * 0 while unclaimed, and when the level can't be read.
+ */
+async function getCleanupClaimLevels(cleanupIds: readonly bigint[]): Promise<number[]> {
+  if (!CONTRACT_ADDRESSES.IMPACT_PRODUCT) {
+    return cleanupIds.map(() => 0)
+  }
+
+  const results = await batchReadContracts<bigint>(
+    cleanupIds.map((cleanupId) => ({
+      address: CONTRACT_ADDRESSES.IMPACT_PRODUCT as Address,
+      abi: IMPACT_PRODUCT_NFT_ABI,
+      functionName: 'cleanupClaimLevel',
+      args: [cleanupId],
+    }))
+  )
+  return results.map((entry) => (entry.status === 'success' ? Number(entry.result) : 0))
+}
+
+export interface CleanupCredits {
+  // Approved submissions credited to the user, oldest first
+  submissionIds: bigint[]
+  // How many of them (from the start) have been claimed as Impact Product levels
+  consumed: number
+}
+
+/**
+ * Cleanup credits of a user on ImpactProductNFT
+ * Every approved cleanup is credited once and pays for exactly one level claim.
+ */
+export async function getCleanupCredits(user: Address): Promise<CleanupCredits> {
+  if (!CONTRACT_ADDRESSES.IMPACT_PRODUCT) {
+    return { submissionIds: [], consumed: 0 }
+  }
+
+  const [submissionIds, consumed] = await readContract(config, {
+    address: CONTRACT_ADDRESSES.IMPACT_PRODUCT as Address,
+    abi: IMPACT_PRODUCT_NFT_ABI,
+    functionName: 'getCleanupCredits',
+    args: [user],
+  })
+  return { submissionIds: [...submissionIds], consumed: Number(consumed) }
+}
+
 export async function getCleanupCounter(): Promise<bigint> {
   if (!SUBMISSION_ADDRESS) {
     return 0n
@@ -535,15 +522,7 @@ export async function getUserReferrer(user: Address): Promise<Address | null> {
   try {
     const referrer = await readContract(config, {
       address: REWARD_MANAGER_ADDRESS,
-      abi: [
-        {
-          type: 'function',
-          name: 'getReferrer',
-          stateMutability: 'view',
-          inputs: [{ name: 'invitee', type: 'address' }],
-          outputs: [{ name: '', type: 'address' }],
-        },
-      ] as const,
+      abi: DCU_REWARD_MANAGER_ABI,
       functionName: 'getReferrer',
       args: [user],
     }) as Address
@@ -560,253 +539,14 @@ export async function getUserReferrer(user: Address): Promise<Address | null> {
   }
 }
 
+/**
+ * The cleanup the user's next Impact Product claim will use, or null when every
+ * approved cleanup has been claimed. Credits are used oldest first on-chain.
+ */
 export async function findLatestClaimableCleanup(user: Address): Promise<bigint | null> {
   try {
-    const submissionIds = await getUserSubmissions(user)
-    
-    if (submissionIds.length === 0) {
-      return null
-    }
-
-    const sortedIds = [...submissionIds].sort((a, b) => {
-      if (a > b) return -1
-      if (a < b) return 1
-      return 0
-    })
-
-    for (const submissionId of sortedIds) {
-      try {
-        const details = await getCleanupDetails(submissionId)
-        // Use let instead of const so we can update it after unmarking
-        let localClaimed = typeof window !== 'undefined' ? (() => {
-          try {
-            const claimedKey = `claimed_cleanup_ids_${user.toLowerCase()}`
-            const claimedIds = localStorage.getItem(claimedKey)
-            if (claimedIds) {
-              const parsed = JSON.parse(claimedIds) as string[]
-              return parsed.includes(submissionId.toString())
-            }
-          } catch {
-          }
-          return false
-        })() : false
-        
-        // Check if this is a pre-fix cleanup (rewarded=true but user has no balance)
-        // IMPORTANT: Check this EVEN IF marked as claimed, because we need to detect pre-fix cleanups
-        // that were incorrectly unmarked or never properly marked
-        let isPreFixCleanup = false
-        if (details.verified && details.rewarded && !details.rejected && REWARD_MANAGER_ADDRESS) {
-          try {
-            const balance = await readContract(config, {
-              address: REWARD_MANAGER_ADDRESS,
-              abi: [
-                {
-                  type: 'function',
-                  name: 'getBalance',
-                  stateMutability: 'view',
-                  inputs: [{ name: 'user', type: 'address' }],
-                  outputs: [{ name: '', type: 'uint256' }],
-                },
-              ] as const,
-              functionName: 'getBalance',
-              args: [user],
-            }) as bigint
-            
-            // Only mark as pre-fix if verified more than 1 hour ago
-            // This prevents false positives for newly verified cleanups
-            // Be very conservative - only block old cleanups that are definitely pre-fix
-            if (balance === 0n && details.timestamp) {
-              const now = BigInt(Math.floor(Date.now() / 1000))
-              const oneHourAgo = now - BigInt(3600) // 1 hour in seconds
-              const verifiedAgo = now - details.timestamp
-              
-              // Only mark as pre-fix if verified >1 hour ago and still has 0 balance
-              if (details.timestamp < oneHourAgo) {
-                // Check if user has the corresponding NFT level - if not, allow claiming
-                // This allows users to claim pre-fix cleanups to get their NFT
-                try {
-                  const userLevel = await getUserLevel(user)
-                  // If user has no NFT (level 0), allow claiming this cleanup to mint their first NFT
-                  if (userLevel === 0) {
-                    console.log(`[findLatestClaimableCleanup] Pre-fix cleanup ${submissionId.toString()} detected, but user has no NFT (level 0) - allowing claim to mint NFT`)
-                    isPreFixCleanup = false // Don't block it
-                    // Also unmark it from localStorage if it was previously marked as claimed
-                    if (localClaimed && typeof window !== 'undefined') {
-                      try {
-                        const claimedKey = `claimed_cleanup_ids_${user.toLowerCase()}`
-                        const claimedIds = localStorage.getItem(claimedKey)
-                        if (claimedIds) {
-                          const parsed = JSON.parse(claimedIds) as string[]
-                          const filtered = parsed.filter(id => id !== submissionId.toString())
-                          if (filtered.length === 0) {
-                            localStorage.removeItem(claimedKey)
-                          } else {
-                            localStorage.setItem(claimedKey, JSON.stringify(filtered))
-                          }
-                          console.log(`[findLatestClaimableCleanup] ✅ Unmarked pre-fix cleanup ${submissionId.toString()} from claimed list - user needs to claim it to mint NFT`)
-                          localClaimed = false // Update so it can be returned
-                        }
-                      } catch (e) {
-                        console.warn('[findLatestClaimableCleanup] Could not unmark cleanup:', e)
-                      }
-                    }
-                  } else {
-                    isPreFixCleanup = true
-                    console.warn(`[findLatestClaimableCleanup] ⚠️ Pre-fix cleanup detected: ${submissionId.toString()} (rewarded=true but balance=0, verified ${verifiedAgo.toString()}s ago, >1h, user has NFT level ${userLevel})`)
-                    // Automatically mark it as claimed to prevent it from being found again
-                    if (typeof window !== 'undefined') {
-                      try {
-                        const claimedKey = `claimed_cleanup_ids_${user.toLowerCase()}`
-                        const claimedIds = localStorage.getItem(claimedKey)
-                        const parsed = claimedIds ? JSON.parse(claimedIds) as string[] : []
-                        if (!parsed.includes(submissionId.toString())) {
-                          parsed.push(submissionId.toString())
-                          localStorage.setItem(claimedKey, JSON.stringify(parsed))
-                          console.log(`[findLatestClaimableCleanup] ✅ Auto-marked pre-fix cleanup ${submissionId.toString()} as claimed`)
-                          // Update localClaimed so it's skipped
-                          localClaimed = true
-                        }
-                      } catch (e) {
-                        console.warn('[findLatestClaimableCleanup] Could not mark cleanup as claimed:', e)
-                      }
-                    }
-                  }
-                } catch (error) {
-                  // If we can't check NFT level, be conservative and allow claiming
-                  console.warn(`[findLatestClaimableCleanup] Could not check user NFT level for cleanup ${submissionId.toString()}, allowing claim:`, error)
-                  isPreFixCleanup = false
-                  // Also unmark from localStorage if marked
-                  if (localClaimed && typeof window !== 'undefined') {
-                    try {
-                      const claimedKey = `claimed_cleanup_ids_${user.toLowerCase()}`
-                      const claimedIds = localStorage.getItem(claimedKey)
-                      if (claimedIds) {
-                        const parsed = JSON.parse(claimedIds) as string[]
-                        const filtered = parsed.filter(id => id !== submissionId.toString())
-                        if (filtered.length === 0) {
-                          localStorage.removeItem(claimedKey)
-                        } else {
-                          localStorage.setItem(claimedKey, JSON.stringify(filtered))
-                        }
-                        localClaimed = false
-                      }
-                    } catch (e) {
-                      // Ignore
-                    }
-                  }
-                }
-              } else {
-                console.log(`[findLatestClaimableCleanup] Cleanup ${submissionId.toString()} verified recently (${verifiedAgo.toString()}s ago, <1h). Allowing claim - not marking as pre-fix.`)
-              }
-            } else if (balance > 0n) {
-              console.log(`[findLatestClaimableCleanup] User has balance for cleanup ${submissionId.toString()}:`, balance.toString(), '- not a pre-fix cleanup')
-            } else if (!details.timestamp) {
-              console.warn(`[findLatestClaimableCleanup] Cleanup ${submissionId.toString()} has no timestamp - cannot determine if pre-fix`)
-            }
-          } catch (error) {
-            console.warn(`[findLatestClaimableCleanup] Could not check balance for cleanup ${submissionId.toString()}:`, error)
-          }
-        }
-        
-        // If cleanup is verified but marked as claimed in localStorage, check if it was actually claimed
-        // Sometimes cleanups get incorrectly marked as claimed (e.g., if claim failed)
-        // Do this BEFORE checking isClaimable so we can unmark it and make it claimable
-        if (details.verified && !details.rejected && localClaimed && !isPreFixCleanup && REWARD_MANAGER_ADDRESS) {
-          console.warn(`[findLatestClaimableCleanup] ⚠️ Cleanup ${submissionId.toString()} is verified but marked as claimed in localStorage`)
-          console.warn(`[findLatestClaimableCleanup] Checking if it was actually claimed...`)
-          
-          // Check if user actually has rewards or if this was a failed claim
-          try {
-            const balance = await readContract(config, {
-              address: REWARD_MANAGER_ADDRESS,
-              abi: [
-                {
-                  type: 'function',
-                  name: 'getBalance',
-                  stateMutability: 'view',
-                  inputs: [{ name: 'user', type: 'address' }],
-                  outputs: [{ name: '', type: 'uint256' }],
-                },
-              ] as const,
-              functionName: 'getBalance',
-              args: [user],
-            }) as bigint
-            
-            // If user has no balance and cleanup is verified, it might not have been actually claimed
-            // Only unmark if cleanup was verified recently (< 1 hour ago) to avoid unmarking old claimed cleanups
-            if (balance === 0n && details.timestamp) {
-              const now = BigInt(Math.floor(Date.now() / 1000))
-              const oneHourAgo = now - BigInt(3600)
-              const verifiedAgo = now - details.timestamp
-              
-              if (details.timestamp > oneHourAgo) {
-                console.warn(`[findLatestClaimableCleanup] Cleanup ${submissionId.toString()} verified recently (${verifiedAgo.toString()}s ago) but marked as claimed and balance is 0`)
-                console.warn(`[findLatestClaimableCleanup] This might be a failed claim - unmarking from localStorage to allow retry`)
-                
-                // Unmark from localStorage to allow claiming
-                if (typeof window !== 'undefined') {
-                  try {
-                    const claimedKey = `claimed_cleanup_ids_${user.toLowerCase()}`
-                    const claimedIds = localStorage.getItem(claimedKey)
-                    if (claimedIds) {
-                      const parsed = JSON.parse(claimedIds) as string[]
-                      const filtered = parsed.filter(id => id !== submissionId.toString())
-                      if (filtered.length === 0) {
-                        localStorage.removeItem(claimedKey)
-                      } else {
-                        localStorage.setItem(claimedKey, JSON.stringify(filtered))
-                      }
-                      console.log(`[findLatestClaimableCleanup] ✅ Unmarked cleanup ${submissionId.toString()} from claimed list - can now be claimed`)
-                      // Update localClaimed to false so it can be returned
-                      localClaimed = false
-                    }
-                  } catch (e) {
-                    console.warn('[findLatestClaimableCleanup] Could not unmark cleanup:', e)
-                  }
-                }
-              }
-            }
-          } catch (error) {
-            console.warn(`[findLatestClaimableCleanup] Could not check if cleanup should be unmarked:`, error)
-          }
-        }
-        
-        const isClaimable = 
-          details.user.toLowerCase() === user.toLowerCase() &&
-          details.verified &&
-          !details.rejected &&
-          !details.claimed &&
-          !localClaimed &&
-          !isPreFixCleanup
-        
-        if (isClaimable) {
-          console.log(`[findLatestClaimableCleanup] Found claimable cleanup: ${submissionId.toString()}`, {
-            verified: details.verified,
-            rejected: details.rejected,
-            claimed: details.claimed,
-            localClaimed,
-            isPreFixCleanup,
-          })
-          console.log(`[findLatestClaimableCleanup] Returning cleanup ID: ${submissionId.toString()}`)
-          return submissionId
-        } else {
-          console.log(`[findLatestClaimableCleanup] Cleanup ${submissionId.toString()} is not claimable:`, {
-            verified: details.verified,
-            rejected: details.rejected,
-            claimed: details.claimed,
-            localClaimed,
-            isPreFixCleanup,
-            userMatch: details.user.toLowerCase() === user.toLowerCase(),
-            rewarded: details.rewarded,
-          })
-        }
-      } catch (error) {
-        console.warn(`Failed to fetch details for submission ${submissionId}:`, error)
-        continue
-      }
-    }
-
-    return null
+    const { submissionIds, consumed } = await getCleanupCredits(user)
+    return consumed < submissionIds.length ? submissionIds[consumed] : null
   } catch (error) {
     console.error('Error finding latest claimable cleanup:', error)
     return null
@@ -854,12 +594,12 @@ export async function verifyCleanup(
   level: number
 ): Promise<`0x${string}`> {
   if (!SUBMISSION_ADDRESS) {
-    throw new Error('Submission contract address not configured')
+    throw new ContractError('NOT_CONFIGURED', { contract: 'Submission', envVar: 'NEXT_PUBLIC_SUBMISSION_CONTRACT' })
   }
 
   const account = getAccount(config)
   if (!account.address) {
-    throw new Error('Wallet not connected')
+    throw new ContractError('WALLET_NOT_CONNECTED')
   }
 
   let hash: `0x${string}` | undefined
@@ -915,55 +655,34 @@ export async function verifyCleanup(
     }
 
     if (!receipt) {
-      throw new Error('Failed to get transaction receipt after retries')
+      throw new ContractError('RPC_SYNC', {}, { txHash: hash })
     }
 
     console.log('Transaction receipt received:', receipt)
     
     if (receipt.status === 'reverted' || receipt.status === 0) {
-      throw new Error('Transaction reverted on chain')
+      throw new ContractError('TX_REVERTED', {}, { txHash: hash })
     }
 
     return hash
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error verifying cleanup:', error)
-    let errorMessage = 'Unknown error'
-    
-    if (error?.message) {
-      errorMessage = error.message
-    } else if (error?.shortMessage) {
-      errorMessage = error.shortMessage
-    } else if (error?.cause?.message) {
-      errorMessage = error.cause.message
-    } else if (typeof error === 'string') {
-      errorMessage = error
-    }
-    
-    // Check for common errors
-    if (errorMessage.includes('revert') || errorMessage.includes('reverted')) {
-      errorMessage = `Transaction reverted: ${errorMessage}. The submission may already be verified/rejected, or you may not have the VERIFIER_ROLE.`
-    } else if (errorMessage.includes('timeout')) {
-      errorMessage = `Transaction timeout: ${errorMessage}. The transaction may still be pending. Check the block explorer.`
-    } else if (errorMessage.includes('user rejected') || errorMessage.includes('rejected')) {
-      errorMessage = 'Transaction was rejected by user.'
-    } else if (errorMessage.includes('block is out of range')) {
-      errorMessage = `RPC sync issue: ${errorMessage}. ${hash ? `The transaction was submitted successfully (hash: ${hash}). ` : ''}Please check the block explorer to confirm.`
-    }
-    
-    throw new Error(`Failed to verify cleanup: ${errorMessage}`)
+    throw decodeContractError(error, { txHash: hash })
   }
 }
 
 export async function rejectCleanup(
-  cleanupId: bigint
+  cleanupId: bigint,
+  reason: RejectionReason,
+  noteCID: string = ''
 ): Promise<`0x${string}`> {
   if (!SUBMISSION_ADDRESS) {
-    throw new Error('Submission contract address not configured')
+    throw new ContractError('NOT_CONFIGURED', { contract: 'Submission', envVar: 'NEXT_PUBLIC_SUBMISSION_CONTRACT' })
   }
 
   const account = getAccount(config)
   if (!account.address) {
-    throw new Error('Wallet not connected')
+    throw new ContractError('WALLET_NOT_CONNECTED')
   }
 
   let hash: `0x${string}` | undefined
@@ -978,7 +697,7 @@ export async function rejectCleanup(
       address: SUBMISSION_ADDRESS,
       abi: SUBMISSION_ABI,
       functionName: 'rejectSubmission',
-      args: [cleanupId],
+      args: [cleanupId, reason, noteCID],
       account: account.address,
     })
 
@@ -1019,46 +738,273 @@ export async function rejectCleanup(
     }
 
     if (!receipt) {
-      throw new Error('Failed to get transaction receipt after retries')
+      throw new ContractError('RPC_SYNC', {}, { txHash: hash })
     }
 
     console.log('Transaction receipt received:', receipt)
     
     // Check if transaction failed
     if (receipt.status === 'reverted' || receipt.status === 0) {
-      throw new Error('Transaction reverted on chain')
+      throw new ContractError('TX_REVERTED', {}, { txHash: hash })
     }
 
     return hash
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error rejecting cleanup:', error)
-    
-    // Provide more detailed error messages
-    let errorMessage = 'Unknown error'
-    
-    if (error?.message) {
-      errorMessage = error.message
-    } else if (error?.shortMessage) {
-      errorMessage = error.shortMessage
-    } else if (error?.cause?.message) {
-      errorMessage = error.cause.message
-    } else if (typeof error === 'string') {
-      errorMessage = error
+    throw decodeContractError(error, { txHash: hash })
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                BATCH REVIEW                                */
+/* -------------------------------------------------------------------------- */
+
+// Submission.MAX_BATCH_SIZE - larger selections are sent as several transactions
+export const MAX_REVIEW_BATCH_SIZE = 50
+
+export type BatchReviewAction = 'approve' | 'reject'
+
+// Submission.SkipReason, in enum order
+const SKIP_REASONS = ['NOT_FOUND', 'ALREADY_APPROVED', 'ALREADY_REJECTED', 'ALREADY_WITHDRAWN'] as const
+
+export type BatchSkipReason = (typeof SKIP_REASONS)[number]
+
+export interface BatchReviewOutcome {
+  cleanupId: bigint
+  status: 'approved' | 'rejected' | 'skipped' | 'failed'
+  // Set when skipped
+  reason?: BatchSkipReason
+  // Transaction that processed (or skipped) the cleanup
+  txHash?: `0x${string}`
+  // Set when the transaction holding this cleanup failed
+  error?: ContractError
+}
+
+/**
+ * Per-cleanup outcomes of an approveSubmissions/rejectSubmissions transaction,
+ * read from its SubmissionApproved/SubmissionRejected/SubmissionSkipped events
+ * IDs listed more than once get the outcome of each occurrence, in order.
+ */
+export function readBatchReviewOutcomes(
+  cleanupIds: readonly bigint[],
+  logs: Parameters<typeof parseEventLogs>[0]['logs'],
+  txHash?: `0x${string}`
+): BatchReviewOutcome[] {
+  const events = parseEventLogs({
+    abi: SUBMISSION_ABI,
+    eventName: ['SubmissionApproved', 'SubmissionRejected', 'SubmissionSkipped'],
+    logs,
+  })
+
+  // Events come out in the order the contract walked the batch; match them up per ID
+  const byId = new Map<string, BatchReviewOutcome[]>()
+  for (const event of events) {
+    const cleanupId = event.args.submissionId
+    const outcome: BatchReviewOutcome =
+      event.eventName === 'SubmissionSkipped'
+        ? { cleanupId, status: 'skipped', reason: SKIP_REASONS[event.args.reason], txHash }
+        : { cleanupId, status: event.eventName === 'SubmissionApproved' ? 'approved' : 'rejected', txHash }
+    const key = cleanupId.toString()
+    byId.set(key, [...(byId.get(key) ?? []), outcome])
+  }
+
+  return cleanupIds.map((cleanupId) => {
+    const outcome = byId.get(cleanupId.toString())?.shift()
+    return outcome ?? { cleanupId, status: 'failed', txHash, error: new ContractError('TX_REVERTED', {}, { txHash }) }
+  })
+}
+
+/**
+ * Approve or reject several cleanups, MAX_REVIEW_BATCH_SIZE per transaction
+ * Already processed or unknown IDs are skipped by the contract rather than
+ * failing the batch. A chunk whose transaction fails marks its cleanups as
+ * failed and the next chunks are still sent, unless the wallet rejected it.
+ * @returns One outcome per ID, in the order given
+ */
+export async function reviewCleanupsBatch(
+  action: BatchReviewAction,
+  cleanupIds: readonly bigint[],
+  rejection?: { reason: RejectionReason; noteCID?: string }
+): Promise<BatchReviewOutcome[]> {
+  if (!SUBMISSION_ADDRESS) {
+    throw new ContractError('NOT_CONFIGURED', { contract: 'Submission', envVar: 'NEXT_PUBLIC_SUBMISSION_CONTRACT' })
+  }
+
+  if (action === 'reject' && !rejection?.reason) {
+    throw new Error('A rejection reason is required to reject cleanups')
+  }
+
+  const account = getAccount(config)
+  if (!account.address) {
+    throw new ContractError('WALLET_NOT_CONNECTED')
+  }
+
+  const outcomes: BatchReviewOutcome[] = []
+  for (let start = 0; start < cleanupIds.length; start += MAX_REVIEW_BATCH_SIZE) {
+    const chunk = cleanupIds.slice(start, start + MAX_REVIEW_BATCH_SIZE)
+    let hash: `0x${string}` | undefined
+    try {
+      console.log(`Batch ${action} of ${chunk.length} cleanup(s):`, chunk.map(String))
+      hash = action === 'approve'
+        ? await writeContract(config, {
+            address: SUBMISSION_ADDRESS,
+            abi: SUBMISSION_ABI,
+            functionName: 'approveSubmissions',
+            args: [chunk],
+            account: account.address,
+          })
+        : await writeContract(config, {
+            address: SUBMISSION_ADDRESS,
+            abi: SUBMISSION_ABI,
+            functionName: 'rejectSubmissions',
+            args: [chunk, rejection!.reason, rejection!.noteCID ?? ''],
+            account: account.address,
+          })
+
+      const receipt = await waitForTransactionReceipt(config, {
+        hash,
+        confirmations: 1,
+        pollingInterval: 2000,
+        timeout: 120000,
+      })
+      if (receipt.status === 'reverted') {
+        throw new ContractError('TX_REVERTED', {}, { txHash: hash })
+      }
+
+      outcomes.push(...readBatchReviewOutcomes(chunk, receipt.logs, hash))
+    } catch (error) {
+      console.error(`Error in batch ${action}:`, error)
+      const decoded = decodeContractError(error, { txHash: hash })
+      if (decoded.code !== 'USER_REJECTED') {
+        outcomes.push(...chunk.map((cleanupId) => ({ cleanupId, status: 'failed' as const, txHash: hash, error: decoded })))
+        continue
+      }
+      // The verifier cancelled in their wallet: don't prompt for the remaining chunks
+      if (outcomes.length === 0) throw decoded
+      outcomes.push(...cleanupIds.slice(start).map((cleanupId) => ({ cleanupId, status: 'failed' as const, error: decoded })))
+      break
     }
-    
-    // Check for common errors
-    if (errorMessage.includes('revert') || errorMessage.includes('reverted')) {
-      errorMessage = `Transaction reverted: ${errorMessage}. The submission may already be verified/rejected, or you may not have the VERIFIER_ROLE.`
-    } else if (errorMessage.includes('timeout')) {
-      errorMessage = `Transaction timeout: ${errorMessage}. The transaction may still be pending. Check the block explorer.`
-    } else if (errorMessage.includes('user rejected') || errorMessage.includes('rejected')) {
-      errorMessage = 'Transaction was rejected by user.'
-    } else if (errorMessage.includes('block is out of range')) {
-      errorMessage = `RPC sync issue: ${errorMessage}. ${hash ? `The transaction was submitted successfully (hash: ${hash}). ` : ''}Please check the block explorer to confirm.`
+  }
+  return outcomes
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 WITHDRAWAL                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Withdraw one of the connected wallet's pending cleanups, e.g. to resubmit
+ * it with other photos. It leaves the verifier queue and its fee is refunded.
+ * @returns The confirmed transaction hash
+ */
+export async function withdrawCleanup(cleanupId: bigint): Promise<`0x${string}`> {
+  if (!SUBMISSION_ADDRESS) {
+    throw new ContractError('NOT_CONFIGURED', { contract: 'Submission', envVar: 'NEXT_PUBLIC_SUBMISSION_CONTRACT' })
+  }
+
+  const account = getAccount(config)
+  if (!account.address) {
+    throw new ContractError('WALLET_NOT_CONNECTED')
+  }
+
+  let hash: `0x${string}` | undefined
+  try {
+    hash = await writeContract(config, {
+      address: SUBMISSION_ADDRESS,
+      abi: SUBMISSION_ABI,
+      functionName: 'withdrawSubmission',
+      args: [cleanupId],
+      account: account.address,
+    })
+
+    const receipt = await waitForTransactionReceipt(config, {
+      hash,
+      confirmations: 1,
+      pollingInterval: 2000,
+      timeout: 120000,
+    })
+    if (receipt.status === 'reverted') {
+      throw new ContractError('TX_REVERTED', {}, { txHash: hash })
+    }
+    return hash
+  } catch (error) {
+    console.error('Error withdrawing cleanup:', error)
+    throw decodeContractError(error, { txHash: hash })
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                FEE REFUNDS                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Where a cleanup's submission fee stands:
+ * - none: no fee was paid
+ * - pending: the cleanup awaits review; the fee is refunded if it gets rejected
+ * - refundable: rejected, the refund hasn't been sent yet
+ * - refunded: sent back to the submitter
+ * - kept: the cleanup was approved, so the fee stays with DeCleanup
+ * Withdrawn cleanups are refunded in the withdrawal transaction.
+ */
+export type FeeRefundStatus = 'none' | 'pending' | 'refundable' | 'refunded' | 'kept'
+
+export function getFeeRefundStatus(
+  cleanup: Pick<CleanupDetails, 'verified' | 'rejected' | 'feePaid' | 'feeRefunded'>
+): FeeRefundStatus {
+  if (!cleanup.feePaid) return 'none'
+  if (cleanup.feeRefunded) return 'refunded'
+  if (cleanup.rejected) return 'refundable'
+  return cleanup.verified ? 'kept' : 'pending'
+}
+
+/**
+ * Refund the fees of rejected cleanups (admins and verifiers),
+ * MAX_REVIEW_BATCH_SIZE per transaction
+ * Cleanups that aren't refundable are skipped by the contract, and fees a
+ * submitter's address doesn't accept stay refundable without failing the batch.
+ * @returns The IDs whose fee was refunded
+ */
+export async function refundSubmissionFees(cleanupIds: readonly bigint[]): Promise<bigint[]> {
+  if (!SUBMISSION_ADDRESS) {
+    throw new ContractError('NOT_CONFIGURED', { contract: 'Submission', envVar: 'NEXT_PUBLIC_SUBMISSION_CONTRACT' })
+  }
+
+  const account = getAccount(config)
+  if (!account.address) {
+    throw new ContractError('WALLET_NOT_CONNECTED')
+  }
+
+  const refunded: bigint[] = []
+  for (let start = 0; start < cleanupIds.length; start += MAX_REVIEW_BATCH_SIZE) {
+    const chunk = cleanupIds.slice(start, start + MAX_REVIEW_BATCH_SIZE)
+    let hash: `0x${string}` | undefined
+    try {
+      hash = await writeContract(config, {
+        address: SUBMISSION_ADDRESS,
+        abi: SUBMISSION_ABI,
+        functionName: 'refundSubmissionFees',
+        args: [chunk],
+        account: account.address,
+      })
+
+      const receipt = await waitForTransactionReceipt(config, {
+        hash,
+        confirmations: 1,
+        pollingInterval: 2000,
+        timeout: 120000,
+      })
+      if (receipt.status === 'reverted') {
+        throw new ContractError('TX_REVERTED', {}, { txHash: hash })
+      }
+
+      const events = parseEventLogs({ abi: SUBMISSION_ABI, eventName: 'SubmissionFeeRefunded', logs: receipt.logs })
+      refunded.push(...events.map((event) => event.args.submissionId))
+    } catch (error) {
+      console.error('Error refunding submission fees:', error)
+      throw decodeContractError(error, { txHash: hash })
     }
-    
-    throw new Error(`Failed to reject cleanup: ${errorMessage}`)
   }
+  return refunded
 }
 
 export async function getClaimableRewards(
@@ -1073,32 +1019,12 @@ export async function getDCUBalance(userAddress: Address): Promise<bigint> {
   }
 
   try {
-    const REWARD_MANAGER_DCU_ABI = [
-      {
-        type: 'function',
-        name: 'dcuToken',
-        stateMutability: 'view',
-        inputs: [],
-        outputs: [{ name: '', type: 'address' }],
-      },
-    ] as const
-
     const dcuTokenAddress = await readContract(config, {
       address: REWARD_MANAGER_ADDRESS,
-      abi: REWARD_MANAGER_DCU_ABI,
+      abi: DCU_REWARD_MANAGER_ABI,
       functionName: 'dcuToken',
     }) as Address
 
-    const DCU_TOKEN_ABI = [
-      {
-        type: 'function',
-        name: 'balanceOf',
-        stateMutability: 'view',
-        inputs: [{ name: 'account', type: 'address' }],
-        outputs: [{ name: '', type: 'uint256' }],
-      },
-    ] as const
-
     const balance = await readContract(config, {
       address: dcuTokenAddress,
       abi: DCU_TOKEN_ABI,
@@ -1113,6 +1039,44 @@ export async function getDCUBalance(userAddress: Address): Promise<bigint> {
   }
 }
 
+/**
+ * cDCU balances for many users in one multicall.
+ * Results are aligned with `userAddresses`; failed reads fall back to 0n like getDCUBalance.
+ */
+export async function getDCUBalanceBatch(userAddresses: readonly Address[]): Promise<bigint[]> {
+  if (!REWARD_MANAGER_ADDRESS || userAddresses.length === 0) {
+    return userAddresses.map(() => 0n)
+  }
+
+  try {
+    const dcuTokenAddress = await readContract(config, {
+      address: REWARD_MANAGER_ADDRESS,
+      abi: DCU_REWARD_MANAGER_ABI,
+      functionName: 'dcuToken',
+    })
+
+    const results = await batchReadContracts<bigint>(
+      userAddresses.map((userAddress) => ({
+        address: dcuTokenAddress,
+        abi: DCU_TOKEN_ABI,
+        functionName: 'balanceOf',
+        args: [userAddress],
+      }))
+    )
+
+    return results.map((entry, index) => {
+      if (entry.status === 'failure') {
+        console.warn(`Failed to get DCU balance for ${userAddresses[index]}:`, entry.error.message)
+        return 0n
+      }
+      return entry.result
+    })
+  } catch (error) {
+    console.error('Error getting DCU balances:', error)
+    return userAddresses.map(() => 0n)
+  }
+}
+
 export interface UserRewardStats {
   currentBalance: bigint
   totalEarned: bigint
@@ -1137,39 +1101,22 @@ export async function getUserRewardStats(userAddress: Address): Promise<UserRewa
   }
 
   try {
-    const REWARD_MANAGER_STATS_ABI = [
-      {
-        type: 'function',
-        name: 'getUserRewardStats',
-        stateMutability: 'view',
-        inputs: [{ name: 'user', type: 'address' }],
-        outputs: [
-          { name: 'currentBalance', type: 'uint256' },
-          { name: 'totalEarned', type: 'uint256' },
-          { name: 'totalClaimed', type: 'uint256' },
-          { name: 'claimRewardsAmount', type: 'uint256' },
-          { name: 'streakRewardsAmount', type: 'uint256' },
-          { name: 'referralRewardsAmount', type: 'uint256' },
-          { name: 'impactReportRewardsAmount', type: 'uint256' },
-        ],
-      },
-    ] as const
-
     const result = await readContract(config, {
       address: REWARD_MANAGER_ADDRESS,
-      abi: REWARD_MANAGER_STATS_ABI,
+      abi: DCU_REWARD_MANAGER_ABI,
       functionName: 'getUserRewardStats',
       args: [userAddress],
-    }) as [bigint, bigint, bigint, bigint, bigint, bigint, bigint]
+    })
 
+    // getUserRewardStats returns a UserRewardStats struct, decoded by viem as an object
     return {
-      currentBalance: result[0],
-      totalEarned: result[1],
-      totalClaimed: result[2],
-      claimRewardsAmount: result[3],
-      streakRewardsAmount: result[4],
-      referralRewardsAmount: result[5],
-      impactReportRewardsAmount: result[6],
+      currentBalance: result.currentBalance,
+      totalEarned: result.totalEarned,
+      totalClaimed: result.totalClaimed,
+      claimRewardsAmount: result.claimRewardsAmount,
+      streakRewardsAmount: result.streakRewardsAmount,
+      referralRewardsAmount: result.referralRewardsAmount,
+      impactReportRewardsAmount: result.impactReportRewardsAmount,
     }
   } catch (error) {
     console.error('Error getting user reward stats:', error)
@@ -1185,6 +1132,43 @@ export async function getUserRewardStats(userAddress: Address): Promise<UserRewa
   }
 }
 
+/**
+ * Reward stats for many users in one multicall.
+ * Results are aligned with `userAddresses`; failed reads are zeroed like getUserRewardStats.
+ */
+export async function getUserRewardStatsBatch(userAddresses: readonly Address[]): Promise<UserRewardStats[]> {
+  const emptyStats: UserRewardStats = {
+    currentBalance: 0n,
+    totalEarned: 0n,
+    totalClaimed: 0n,
+    claimRewardsAmount: 0n,
+    streakRewardsAmount: 0n,
+    referralRewardsAmount: 0n,
+    impactReportRewardsAmount: 0n,
+  }
+
+  if (!REWARD_MANAGER_ADDRESS || userAddresses.length === 0) {
+    return userAddresses.map(() => ({ ...emptyStats }))
+  }
+
+  const results = await batchReadContracts<UserRewardStats>(
+    userAddresses.map((userAddress) => ({
+      address: REWARD_MANAGER_ADDRESS,
+      abi: DCU_REWARD_MANAGER_ABI,
+      functionName: 'getUserRewardStats',
+      args: [userAddress],
+    }))
+  )
+
+  return results.map((entry, index) => {
+    if (entry.status === 'failure') {
+      console.warn(`Failed to get reward stats for ${userAddresses[index]}:`, entry.error.message)
+      return { ...emptyStats }
+    }
+    return entry.result
+  })
+}
+
 export async function verifyRewardManagerSetup(): Promise<{
   hasMinterRole: boolean
   rewardManagerAddress: Address | null
@@ -1201,42 +1185,12 @@ export async function verifyRewardManagerSetup(): Promise<{
   }
 
   try {
-    const REWARD_MANAGER_ABI = [
-      {
-        type: 'function',
-        name: 'dcuToken',
-        stateMutability: 'view',
-        inputs: [],
-        outputs: [{ name: '', type: 'address' }],
-      },
-    ] as const
-
     const dcuTokenAddress = await readContract(config, {
       address: REWARD_MANAGER_ADDRESS,
-      abi: REWARD_MANAGER_ABI,
+      abi: DCU_REWARD_MANAGER_ABI,
       functionName: 'dcuToken',
     }) as Address
 
-    const DCU_TOKEN_ABI = [
-      {
-        type: 'function',
-        name: 'MINTER_ROLE',
-        stateMutability: 'view',
-        inputs: [],
-        outputs: [{ name: '', type: 'bytes32' }],
-      },
-      {
-        type: 'function',
-        name: 'hasRole',
-        stateMutability: 'view',
-        inputs: [
-          { name: 'role', type: 'bytes32' },
-          { name: 'account', type: 'address' },
-        ],
-        outputs: [{ name: '', type: 'bool' }],
-      },
-    ] as const
-
     const minterRole = await readContract(config, {
       address: dcuTokenAddress,
       abi: DCU_TOKEN_ABI,
@@ -1271,23 +1225,9 @@ export async function getUserLevel(userAddress: Address): Promise<number> {
   }
 
   try {
-    const IMPACT_PRODUCT_ABI = [
-      {
-        type: 'function',
-        name: 'getUserNFTData',
-        stateMutability: 'view',
-        inputs: [{ name: 'user', type: 'address' }],
-        outputs: [
-          { name: 'tokenId', type: 'uint256' },
-          { name: 'impact', type: 'uint256' },
-          { name: 'level', type: 'uint256' },
-        ],
-      },
-    ] as const
-
     const result = await readContract(config, {
       address: CONTRACT_ADDRESSES.IMPACT_PRODUCT as Address,
-      abi: IMPACT_PRODUCT_ABI,
+      abi: IMPACT_PRODUCT_NFT_ABI,
       functionName: 'getUserNFTData',
       args: [userAddress],
     }) as [bigint, bigint, bigint]
@@ -1299,8 +1239,36 @@ export async function getUserLevel(userAddress: Address): Promise<number> {
   }
 }
 
+/**
+ * Levels the user can claim now on ImpactProductNFT: one per approved cleanup
+ * not claimed yet, up to the max level. 0 when it can't be read.
+ */
+export async function getClaimableLevels(userAddress: Address): Promise<number> {
+  if (!CONTRACT_ADDRESSES.IMPACT_PRODUCT) {
+    return 0
+  }
+
+  try {
+    const levels = await readContract(config, {
+      address: CONTRACT_ADDRESSES.IMPACT_PRODUCT as Address,
+      abi: IMPACT_PRODUCT_NFT_ABI,
+      functionName: 'claimableLevels',
+      args: [userAddress],
+    })
+    return Number(levels)
+  } catch (error) {
+    console.warn('Failed to fetch claimable levels:', error)
+    return 0
+  }
+}
+
+/**
+ * Claim the Impact Product for verified cleanups
+ * `levels` > 1 claims that many earned levels in one transaction (one claim fee each).
+ */
 export async function claimImpactProductFromVerification(
-  cleanupId: bigint
+  cleanupId: bigint,
+  levels = 1
 ): Promise<`0x${string}`> {
   if (!SUBMISSION_ADDRESS) {
     throw new Error('Submission contract address not configured. Please set NEXT_PUBLIC_SUBMISSION_CONTRACT in .env.local')
@@ -1328,26 +1296,16 @@ export async function claimImpactProductFromVerification(
   if (cleanupDetails.user.toLowerCase() !== account.address.toLowerCase()) {
     throw new Error('You can only claim rewards for your own cleanups.')
   }
-  const REWARD_MANAGER_ABI = [
-    {
-      type: 'function',
-      name: 'getBalance',
-      stateMutability: 'view',
-      inputs: [{ name: 'user', type: 'address' }],
-      outputs: [{ name: '', type: 'uint256' }],
-    },
-    {
-      type: 'function',
-      name: 'claimRewards',
-      stateMutability: 'nonpayable',
-      inputs: [{ name: 'amount', type: 'uint256' }],
-      outputs: [],
-    },
-  ] as const
+
+  // Each level claim uses one approved cleanup's credit on ImpactProductNFT
+  const credits = await getCleanupCredits(account.address)
+  if (credits.submissionIds.length - credits.consumed < levels) {
+    throw new ContractError('NFT__NoCleanupCredit')
+  }
 
   const balance = await readContract(config, {
     address: REWARD_MANAGER_ADDRESS,
-    abi: REWARD_MANAGER_ABI,
+    abi: DCU_REWARD_MANAGER_ABI,
     functionName: 'getBalance',
     args: [account.address],
   }) as bigint
@@ -1400,7 +1358,7 @@ export async function claimImpactProductFromVerification(
     try {
       hash = await writeContract(config, {
         address: REWARD_MANAGER_ADDRESS,
-        abi: REWARD_MANAGER_ABI,
+        abi: DCU_REWARD_MANAGER_ABI,
         functionName: 'claimRewards',
         args: [balance],
         account: account.address,
@@ -1446,15 +1404,10 @@ export async function claimImpactProductFromVerification(
       
       if (publicClient) {
         try {
-          const REWARDS_CLAIMED_EVENT_ABI = {
-            type: 'event',
+          const REWARDS_CLAIMED_EVENT_ABI = getAbiItem({
+            abi: DCU_REWARD_MANAGER_ABI,
             name: 'RewardsClaimed',
-            inputs: [
-              { name: 'user', type: 'address', indexed: true },
-              { name: 'amount', type: 'uint256', indexed: false },
-              { name: 'timestamp', type: 'uint256', indexed: false },
-            ],
-          } as const
+          })
 
           const logs = await viemGetLogs(publicClient, {
             address: REWARD_MANAGER_ADDRESS,
@@ -1490,32 +1443,12 @@ export async function claimImpactProductFromVerification(
     if (hash && receipt) {
       let tokensMinted = false
       try {
-        const REWARD_MANAGER_DCU_ABI = [
-          {
-            type: 'function',
-            name: 'dcuToken',
-            stateMutability: 'view',
-            inputs: [],
-            outputs: [{ name: '', type: 'address' }],
-          },
-        ] as const
-
         const dcuTokenAddress = await readContract(config, {
           address: REWARD_MANAGER_ADDRESS,
-          abi: REWARD_MANAGER_DCU_ABI,
+          abi: DCU_REWARD_MANAGER_ABI,
           functionName: 'dcuToken',
         }) as Address
 
-        const DCU_TOKEN_ABI = [
-          {
-            type: 'function',
-            name: 'balanceOf',
-            stateMutability: 'view',
-            inputs: [{ name: 'account', type: 'address' }],
-            outputs: [{ name: '', type: 'uint256' }],
-          },
-        ] as const
-
         const dcuBalanceAfter = await readContract(config, {
           address: dcuTokenAddress,
           abi: DCU_TOKEN_ABI,
@@ -1535,7 +1468,7 @@ export async function claimImpactProductFromVerification(
       }
       const balanceAfter = await readContract(config, {
         address: REWARD_MANAGER_ADDRESS,
-        abi: REWARD_MANAGER_ABI,
+        abi: DCU_REWARD_MANAGER_ABI,
         functionName: 'getBalance',
         args: [account.address],
       }) as bigint
@@ -1563,31 +1496,11 @@ export async function claimImpactProductFromVerification(
     }
     // Only check DCU token balance if we actually called claimRewards
     if (hash && balance > 0n) {
-      const DCU_TOKEN_ABI = [
-        {
-          type: 'function',
-          name: 'balanceOf',
-          stateMutability: 'view',
-          inputs: [{ name: 'account', type: 'address' }],
-          outputs: [{ name: '', type: 'uint256' }],
-        },
-      ] as const
-
       try {
         // Get cDCU token address from RewardManager
-        const REWARD_MANAGER_DCU_ABI = [
-          {
-            type: 'function',
-            name: 'dcuToken',
-            stateMutability: 'view',
-            inputs: [],
-            outputs: [{ name: '', type: 'address' }],
-          },
-        ] as const
-
         const dcuTokenAddress = await readContract(config, {
           address: REWARD_MANAGER_ADDRESS,
-          abi: REWARD_MANAGER_DCU_ABI,
+          abi: DCU_REWARD_MANAGER_ABI,
           functionName: 'dcuToken',
         }) as Address
 
@@ -1617,16 +1530,6 @@ export async function claimImpactProductFromVerification(
     // This is especially important when balance was 0 (newly verified cleanup)
     if (CONTRACT_ADDRESSES.IMPACT_PRODUCT) {
       try {
-        const IMPACT_PRODUCT_ABI = [
-          {
-            type: 'function',
-            name: 'verifiedPOI',
-            stateMutability: 'view',
-            inputs: [{ name: 'user', type: 'address' }],
-            outputs: [{ name: '', type: 'bool' }],
-          },
-        ] as const
-
         let isVerifiedPOI = false
         try {
           // Wait longer for POI verification to propagate (Submission contract calls verifyPOI when cleanup is approved)
@@ -1637,7 +1540,7 @@ export async function claimImpactProductFromVerification(
             try {
               isVerifiedPOI = await readContract(config, {
                 address: CONTRACT_ADDRESSES.IMPACT_PRODUCT as Address,
-                abi: IMPACT_PRODUCT_ABI,
+                abi: IMPACT_PRODUCT_NFT_ABI,
                 functionName: 'verifiedPOI',
                 args: [account.address],
               }) as boolean
@@ -1680,7 +1583,27 @@ export async function claimImpactProductFromVerification(
         
         console.log('Current NFT state:', { tokenId: currentTokenId?.toString() || 'null', level: currentLevel })
         
-        if (currentTokenId === null && currentLevel === 0) {
+        if (levels > 1) {
+          try {
+            console.log(`Attempting to claim ${levels} Impact Product levels from level ${currentLevel}...`)
+            console.log('This will trigger rewardImpactProductClaim for every claimed level')
+            const claimHash = await claimImpactProductLevels(levels)
+            console.log('✅ Impact Product levels claimed successfully:', claimHash)
+            if (!hash) {
+              hash = claimHash
+            }
+          } catch (claimError) {
+            const decoded = decodeContractError(claimError)
+            if (decoded.code === 'RPC_SYNC' || decoded.code === 'NETWORK') {
+              console.log('⚠️ RPC error during level claim - user can claim again later')
+            } else {
+              console.error('Could not claim Impact Product levels:', decoded.message)
+              if (balance === 0n) {
+                throw new Error(`Failed to claim levels and distribute rewards: ${decoded.message}. Please try again or contact support.`)
+              }
+            }
+          }
+        } else if (currentTokenId === null && currentLevel === 0) {
           try {
             console.log('Attempting to mint Impact Product NFT...')
             console.log('This will trigger rewardImpactProductClaim which distributes rewards')
@@ -1690,9 +1613,10 @@ export async function claimImpactProductFromVerification(
             if (!hash) {
               hash = mintHash
             }
-          } catch (mintError: any) {
-            const errorMsg = mintError?.message || String(mintError)
-            if (errorMsg.includes('block is out of range') || errorMsg.includes('400')) {
+          } catch (mintError) {
+            const decoded = decodeContractError(mintError)
+            const errorMsg = decoded.message
+            if (decoded.code === 'RPC_SYNC' || decoded.code === 'NETWORK') {
               console.log('⚠️ RPC error during NFT mint - user can mint manually later')
             } else {
               console.error('Could not mint Impact Product NFT:', errorMsg)
@@ -1712,9 +1636,10 @@ export async function claimImpactProductFromVerification(
             if (!hash) {
               hash = upgradeHash
             }
-          } catch (upgradeError: any) {
-            const errorMsg = upgradeError?.message || String(upgradeError)
-            if (errorMsg.includes('block is out of range') || errorMsg.includes('400')) {
+          } catch (upgradeError) {
+            const decoded = decodeContractError(upgradeError)
+            const errorMsg = decoded.message
+            if (decoded.code === 'RPC_SYNC' || decoded.code === 'NETWORK') {
               console.log('⚠️ RPC error during NFT upgrade - user can upgrade manually later')
             } else {
               console.error('Could not upgrade Impact Product NFT:', errorMsg)
@@ -1791,23 +1716,9 @@ export async function getUserTokenId(userAddress: Address): Promise<bigint | nul
   }
 
   try {
-    const IMPACT_PRODUCT_ABI = [
-      {
-        type: 'function',
-        name: 'getUserNFTData',
-        stateMutability: 'view',
-        inputs: [{ name: 'user', type: 'address' }],
-        outputs: [
-          { name: 'tokenId', type: 'uint256' },
-          { name: 'impact', type: 'uint256' },
-          { name: 'level', type: 'uint256' },
-        ],
-      },
-    ] as const
-
     const result = await readContract(config, {
       address: CONTRACT_ADDRESSES.IMPACT_PRODUCT as Address,
-      abi: IMPACT_PRODUCT_ABI,
+      abi: IMPACT_PRODUCT_NFT_ABI,
       functionName: 'getUserNFTData',
       args: [userAddress],
     }) as [bigint, bigint, bigint]
@@ -1824,19 +1735,9 @@ export async function getTokenURI(tokenId: bigint): Promise<string> {
   }
 
   try {
-    const IMPACT_PRODUCT_ABI = [
-      {
-        type: 'function',
-        name: 'tokenURI',
-        stateMutability: 'view',
-        inputs: [{ name: 'tokenId', type: 'uint256' }],
-        outputs: [{ name: '', type: 'string' }],
-      },
-    ] as const
-
     const uri = await readContract(config, {
       address: CONTRACT_ADDRESSES.IMPACT_PRODUCT as Address,
-      abi: IMPACT_PRODUCT_ABI,
+      abi: IMPACT_PRODUCT_NFT_ABI,
       functionName: 'tokenURI',
       args: [tokenId],
     }) as string
@@ -1863,32 +1764,15 @@ export async function getClaimFee(): Promise<{ fee: bigint; enabled: boolean }>
   }
 
   try {
-    const IMPACT_PRODUCT_ABI = [
-      {
-        type: 'function',
-        name: 'claimFee',
-        stateMutability: 'view',
-        inputs: [],
-        outputs: [{ name: '', type: 'uint256' }],
-      },
-      {
-        type: 'function',
-        name: 'feeEnabled',
-        stateMutability: 'view',
-        inputs: [],
-        outputs: [{ name: '', type: 'bool' }],
-      },
-    ] as const
-
     const [fee, enabled] = await Promise.all([
       readContract(config, {
         address: CONTRACT_ADDRESSES.IMPACT_PRODUCT as Address,
-        abi: IMPACT_PRODUCT_ABI,
+        abi: IMPACT_PRODUCT_NFT_ABI,
         functionName: 'claimFee',
       }) as Promise<bigint>,
       readContract(config, {
         address: CONTRACT_ADDRESSES.IMPACT_PRODUCT as Address,
-        abi: IMPACT_PRODUCT_ABI,
+        abi: IMPACT_PRODUCT_NFT_ABI,
         functionName: 'feeEnabled',
       }) as Promise<boolean>,
     ])
@@ -1902,32 +1786,23 @@ export async function getClaimFee(): Promise<{ fee: bigint; enabled: boolean }>
 
 export async function mintImpactProductNFT(): Promise<`0x${string}`> {
   if (!CONTRACT_ADDRESSES.IMPACT_PRODUCT) {
-    throw new Error('Impact Product NFT contract address not configured')
+    throw new ContractError('NOT_CONFIGURED', { contract: 'Impact Product NFT', envVar: 'NEXT_PUBLIC_IMPACT_PRODUCT_NFT' })
   }
 
   const account = getAccount(config)
   if (!account.address) {
-    throw new Error('Wallet not connected')
+    throw new ContractError('WALLET_NOT_CONNECTED')
   }
 
   // Get claim fee
   const { fee, enabled } = await getClaimFee()
   const value = enabled ? fee : 0n
 
-  const IMPACT_PRODUCT_ABI = [
-    {
-      type: 'function',
-      name: 'safeMint',
-      stateMutability: 'payable',
-      inputs: [],
-      outputs: [],
-    },
-  ] as const
-
+  let hash: `0x${string}` | undefined
   try {
-    const hash = await writeContract(config, {
+    hash = await writeContract(config, {
       address: CONTRACT_ADDRESSES.IMPACT_PRODUCT as Address,
-      abi: IMPACT_PRODUCT_ABI,
+      abi: IMPACT_PRODUCT_NFT_ABI,
       functionName: 'safeMint',
       account: account.address,
       value: value,
@@ -1941,43 +1816,31 @@ export async function mintImpactProductNFT(): Promise<`0x${string}`> {
     })
 
     return hash
-  } catch (error: any) {
-    const errorMessage = error?.message || error?.shortMessage || 'Unknown error'
-    if (errorMessage.includes('verified POI') || errorMessage.includes('not a verified POI')) {
-      throw new Error('You must be verified as a POI (Proof of Impact) before minting. Please contact support.')
-    }
-    throw new Error(`Failed to mint Impact Product NFT: ${errorMessage}`)
+  } catch (error) {
+    console.error('Error minting Impact Product NFT:', error)
+    throw decodeContractError(error, { txHash: hash })
   }
 }
 
 export async function upgradeImpactProductNFT(tokenId: bigint): Promise<`0x${string}`> {
   if (!CONTRACT_ADDRESSES.IMPACT_PRODUCT) {
-    throw new Error('Impact Product NFT contract address not configured')
+    throw new ContractError('NOT_CONFIGURED', { contract: 'Impact Product NFT', envVar: 'NEXT_PUBLIC_IMPACT_PRODUCT_NFT' })
   }
 
   const account = getAccount(config)
   if (!account.address) {
-    throw new Error('Wallet not connected')
+    throw new ContractError('WALLET_NOT_CONNECTED')
   }
 
   // Get claim fee
   const { fee, enabled } = await getClaimFee()
   const value = enabled ? fee : 0n
 
-  const IMPACT_PRODUCT_ABI = [
-    {
-      type: 'function',
-      name: 'upgradeNFT',
-      stateMutability: 'payable',
-      inputs: [{ name: 'tokenId', type: 'uint256' }],
-      outputs: [],
-    },
-  ] as const
-
+  let hash: `0x${string}` | undefined
   try {
-    const hash = await writeContract(config, {
+    hash = await writeContract(config, {
       address: CONTRACT_ADDRESSES.IMPACT_PRODUCT as Address,
-      abi: IMPACT_PRODUCT_ABI,
+      abi: IMPACT_PRODUCT_NFT_ABI,
       functionName: 'upgradeNFT',
       args: [tokenId],
       account: account.address,
@@ -1992,15 +1855,51 @@ export async function upgradeImpactProductNFT(tokenId: bigint): Promise<`0x${str
     })
 
     return hash
-  } catch (error: any) {
-    const errorMessage = error?.message || error?.shortMessage || 'Unknown error'
-    if (errorMessage.includes('verified POI') || errorMessage.includes('not a verified POI')) {
-      throw new Error('You must be verified as a POI (Proof of Impact) before upgrading. Please contact support.')
-    }
-    if (errorMessage.includes('maximum level')) {
-      throw new Error('You have reached the maximum level (10).')
-    }
-    throw new Error(`Failed to upgrade Impact Product NFT: ${errorMessage}`)
+  } catch (error) {
+    console.error('Error upgrading Impact Product NFT:', error)
+    throw decodeContractError(error, { txHash: hash })
+  }
+}
+
+/**
+ * Claim several earned levels at once, minting first when the user has no NFT yet.
+ * Sends one claim fee per level.
+ */
+export async function claimImpactProductLevels(levels: number): Promise<`0x${string}`> {
+  if (!CONTRACT_ADDRESSES.IMPACT_PRODUCT) {
+    throw new ContractError('NOT_CONFIGURED', { contract: 'Impact Product NFT', envVar: 'NEXT_PUBLIC_IMPACT_PRODUCT_NFT' })
+  }
+
+  const account = getAccount(config)
+  if (!account.address) {
+    throw new ContractError('WALLET_NOT_CONNECTED')
+  }
+
+  const { fee, enabled } = await getClaimFee()
+  const value = enabled ? fee * BigInt(levels) : 0n
+
+  let hash: `0x${string}` | undefined
+  try {
+    hash = await writeContract(config, {
+      address: CONTRACT_ADDRESSES.IMPACT_PRODUCT as Address,
+      abi: IMPACT_PRODUCT_NFT_ABI,
+      functionName: 'claimLevels',
+      args: [BigInt(levels)],
+      account: account.address,
+      value,
+    })
+
+    await waitForTransactionReceipt(config, {
+      hash,
+      confirmations: 1,
+      pollingInterval: 2000,
+      timeout: 120000,
+    })
+
+    return hash
+  } catch (error) {
+    console.error('Error claiming Impact Product levels:', error)
+    throw decodeContractError(error, { txHash: hash })
   }
 }
 
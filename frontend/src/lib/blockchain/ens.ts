@@ -0,0 +1,32 @@
+import type { Address } from 'viem'
+import { normalize } from 'viem/ens'
+import { getEnsAddress } from '@wagmi/core'
+import { mainnet } from 'wagmi/chains'
+import { config } from './wagmi'
+
+const cache = new Map<string, Promise<Address | null>>()
+
+/**
+ * Address an ENS name points to, or null
+ * Resolved on Ethereum mainnet (included in the wagmi config for this);
+ * invalid names and lookup failures also give null.
+ */
+export function resolveEnsAddress(name: string): Promise<Address | null> {
+  let normalized: string
+  try {
+    normalized = normalize(name.trim())
+  } catch {
+    return Promise.resolve(null)
+  }
+
+  let pending = cache.get(normalized)
+  if (!pending) {
+    pending = getEnsAddress(config, { name: normalized, chainId: mainnet.id }).catch((error) => {
+      console.warn(`Could not resolve ENS name ${normalized}:`, error)
+      cache.delete(normalized)
+      return null
+    })
+    cache.set(normalized, pending)
+  }
+  return pending
+}
@@ -0,0 +1,422 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  UserRejectedRequestError,
+  WaitForTransactionReceiptTimeoutError,
+  InsufficientFundsError,
+  HttpRequestError,
+  TimeoutError,
+  ChainMismatchError,
+  SwitchChainError,
+  decodeErrorResult,
+  formatEther,
+  type ContractErrorName,
+  type Hex,
+} from 'viem'
+import {
+  SUBMISSION_ABI,
+  DCU_REWARD_MANAGER_ABI,
+  IMPACT_PRODUCT_NFT_ABI,
+  DCU_TOKEN_ABI,
+  RECYCLABLES_REWARD_ABI,
+} from './abis'
+
+/**
+ * Contract error catalog
+ *
+ * Turns anything thrown by a wallet, the RPC or a DCU contract into a
+ * ContractError with a stable `code`, the decoded revert arguments and a
+ * localized message. Custom errors are decoded against every DCU ABI, so a
+ * revert bubbling up from e.g. DCUToken through Submission is still recognised.
+ */
+
+/* -------------------------------------------------------------------------- */
+/*                                   Codes                                    */
+/* -------------------------------------------------------------------------- */
+
+type DCUCustomErrorName =
+  | ContractErrorName<typeof SUBMISSION_ABI>
+  | ContractErrorName<typeof DCU_REWARD_MANAGER_ABI>
+  | ContractErrorName<typeof IMPACT_PRODUCT_NFT_ABI>
+  | ContractErrorName<typeof DCU_TOKEN_ABI>
+  | ContractErrorName<typeof RECYCLABLES_REWARD_ABI>
+
+// ImpactProductNFT and DCURewardManager still revert with require() strings.
+// These codes match contracts/test/helpers/errorMessages.ts.
+type RevertReasonCode =
+  | 'NFT__NotVerifiedPOI'
+  | 'NFT__MaxLevelReached'
+  | 'NFT__InsufficientClaimFee'
+  | 'NFT__AlreadyMinted'
+  | 'NFT__NotTokenOwner'
+  | 'NFT__TokenNotExists'
+  | 'NFT__UserHasNoNFT'
+  | 'NFT__TransferRestricted'
+  | 'NFT__NoCleanupCredit'
+  | 'REWARD__InvalidLevel'
+  | 'REWARD__InvalidAddress'
+  | 'REWARD__LevelAlreadyClaimed'
+  | 'REWARD__NotEligible'
+  | 'REWARD__ReferralAlreadyRegistered'
+  | 'REWARD__InsufficientBalance'
+  | 'REWARD__ZeroAmount'
+  | 'REWARD__Unauthorized'
+  | 'REWARD__RewardDistributionFailed'
+
+type ClientErrorCode =
+  | 'NOT_CONFIGURED'
+  | 'WALLET_NOT_CONNECTED'
+  | 'USER_REJECTED'
+  | 'INSUFFICIENT_FUNDS'
+  | 'WRONG_CHAIN'
+  | 'CHAIN_NOT_ADDED'
+  | 'CHAIN_SWITCH_FAILED'
+  | 'TX_TIMEOUT'
+  | 'TX_REVERTED'
+  | 'TX_MAYBE_SENT'
+  | 'RPC_SYNC'
+  | 'NETWORK'
+  | 'UNKNOWN'
+
+export type ContractErrorCode = DCUCustomErrorName | RevertReasonCode | ClientErrorCode
+
+export type ContractErrorArgs = Record<string, unknown>
+
+const REVERT_REASON_CODES: Record<string, RevertReasonCode> = {
+  'You are not a verified POI': 'NFT__NotVerifiedPOI',
+  'User is not a verified POI': 'NFT__NotVerifiedPOI',
+  'You have reached the maximum level': 'NFT__MaxLevelReached',
+  'Insufficient claim fee': 'NFT__InsufficientClaimFee',
+  'You have already minted a token': 'NFT__AlreadyMinted',
+  "You don't own this token": 'NFT__NotTokenOwner',
+  'Token does not exist': 'NFT__TokenNotExists',
+  'User has no NFT': 'NFT__UserHasNoNFT',
+  'ImpactProductNFT: transfers are restricted (soulbound NFT)': 'NFT__TransferRestricted',
+  'No approved cleanup to claim': 'NFT__NoCleanupCredit',
+  'Invalid level range': 'REWARD__InvalidLevel',
+  'REWARD__InvalidLevel': 'REWARD__InvalidLevel',
+  'Invalid user address': 'REWARD__InvalidAddress',
+  'REWARD__InvalidAddress': 'REWARD__InvalidAddress',
+  'Level already claimed': 'REWARD__LevelAlreadyClaimed',
+  'User not eligible for rewards': 'REWARD__NotEligible',
+  'Referral already registered': 'REWARD__ReferralAlreadyRegistered',
+  'REWARD__InsufficientBalance': 'REWARD__InsufficientBalance',
+  'REWARD__ZeroAmount': 'REWARD__ZeroAmount',
+  'REWARD__Unauthorized': 'REWARD__Unauthorized',
+  'Reward claim failed': 'REWARD__RewardDistributionFailed',
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Messages                                  */
+/* -------------------------------------------------------------------------- */
+
+export type ErrorLocale = 'en' | 'es'
+
+type ErrorMessage = (args: ContractErrorArgs) => string
+
+const celo = (value: unknown) =>
+  typeof value === 'bigint' ? `${formatEther(value)} CELO` : String(value ?? '?')
+
+const id = (value: unknown) => String(value ?? '?')
+
+const MESSAGES: Record<ErrorLocale, Partial<Record<ContractErrorCode, ErrorMessage>>> = {
+  en: {
+    SUBMISSION__InvalidAddress: () => 'An address in this request is invalid.',
+    SUBMISSION__InvalidSubmissionData: () => 'The submission is missing required data (photos or report).',
+    SUBMISSION__SubmissionNotFound: (a) => `Submission #${id(a.submissionId)} does not exist.`,
+    SUBMISSION__Unauthorized: () => 'Your wallet is not allowed to perform this action. Verifier actions require the VERIFIER_ROLE.',
+    SUBMISSION__AlreadyApproved: (a) => `Submission #${id(a.submissionId)} has already been approved.`,
+    SUBMISSION__AlreadyRejected: (a) => `Submission #${id(a.submissionId)} has already been rejected.`,
+    SUBMISSION__AlreadyWithdrawn: (a) => `Submission #${id(a.submissionId)} was withdrawn by its submitter.`,
+    SUBMISSION__NoRewardsAvailable: () => 'There are no rewards available to claim.',
+    SUBMISSION__InsufficientSubmissionFee: (a) =>
+      `The submission fee is ${celo(a.required)}, but only ${celo(a.sent)} was sent.`,
+    SUBMISSION__RefundFailed: () => 'The fee refund transfer failed. Please try again later.',
+    SUBMISSION__CannotRefundApprovedSubmission: (a) =>
+      `Submission #${id(a.submissionId)} was approved, so its fee cannot be refunded.`,
+    SUBMISSION__InvalidBatchSize: (a) => `A batch must hold between 1 and 50 submissions (got ${id(a.size)}).`,
+    SUBMISSION__InvalidRejectionReason: () => 'Please choose a reason for the rejection.',
+    SUBMISSION__SubmissionNotProcessed: (a) =>
+      `Submission #${id(a.submissionId)} is still pending, so its fee cannot be refunded yet.`,
+    SUBMISSION__NothingToRefund: (a) => `Submission #${id(a.submissionId)} has no fee left to refund.`,
+    TOKEN__SupplyCapExceeded: () => 'The DCU supply cap has been reached, so no more rewards can be minted.',
+    TOKEN__Unauthorized: () => 'This contract is not allowed to mint DCU. Please contact the administrator.',
+    RECYCLABLES__AlreadyClaimed: (a) => `Recyclables for submission #${id(a.submissionId)} have already been rewarded.`,
+    RECYCLABLES__ReserveEmpty: () => 'The recyclables reward reserve is empty.',
+    RECYCLABLES__InsufficientReserve: (a) =>
+      `The recyclables reserve holds ${celo(a.available)} but ${celo(a.required)} is needed.`,
+    RECYCLABLES__MaxRewardsReached: () => 'The maximum number of recyclables rewards has been reached.',
+    AccessControlUnauthorizedAccount: () => 'Your wallet does not have the role required for this action.',
+    OwnableUnauthorizedAccount: () => 'Only the contract owner can perform this action.',
+    NFT__NotVerifiedPOI: () => 'You must be verified as a POI (Proof of Impact) before claiming. Please contact support.',
+    NFT__MaxLevelReached: () => 'You have reached the maximum Impact Product level (10).',
+    NFT__InsufficientClaimFee: () => 'The claim fee sent is lower than the required claim fee.',
+    NFT__AlreadyMinted: () => 'You have already minted your Impact Product. Upgrade it instead.',
+    NFT__NotTokenOwner: () => 'You do not own this Impact Product.',
+    NFT__TokenNotExists: () => 'This Impact Product does not exist.',
+    NFT__UserHasNoNFT: () => 'You do not have an Impact Product yet.',
+    NFT__TransferRestricted: () => 'Impact Products are soulbound and cannot be transferred.',
+    NFT__NoCleanupCredit: () =>
+      'You have no approved cleanup left to claim. Each approved cleanup unlocks one Impact Product level.',
+    REWARD__InvalidLevel: () => 'This Impact Product level is out of range.',
+    REWARD__InvalidAddress: () => 'An address in this request is invalid.',
+    REWARD__LevelAlreadyClaimed: () => 'The reward for this level has already been claimed.',
+    REWARD__NotEligible: () => 'You are not eligible for rewards yet. Your cleanup must be approved first.',
+    REWARD__ReferralAlreadyRegistered: () => 'A referrer is already registered for this wallet.',
+    REWARD__InsufficientBalance: () => 'Your claimable DCU balance is too low.',
+    REWARD__ZeroAmount: () => 'The amount must be greater than zero.',
+    REWARD__Unauthorized: () => 'This contract is not allowed to distribute rewards.',
+    REWARD__RewardDistributionFailed: () => 'Reward distribution failed. The reward manager may be missing the MINTER_ROLE.',
+    NOT_CONFIGURED: (a) =>
+      `The ${id(a.contract)} contract address is not configured.${a.envVar ? ` Please set ${id(a.envVar)} in .env.local` : ''}`,
+    WALLET_NOT_CONNECTED: () => 'Please connect your wallet first.',
+    USER_REJECTED: () => 'The transaction was rejected in your wallet.',
+    INSUFFICIENT_FUNDS: () => 'Your wallet does not have enough CELO to pay for this transaction and its gas.',
+    WRONG_CHAIN: () => 'Your wallet is connected to the wrong network.',
+    CHAIN_NOT_ADDED: () => 'The required network is not configured in your wallet.',
+    CHAIN_SWITCH_FAILED: () => 'Your wallet could not switch to the required network.',
+    TX_TIMEOUT: () => 'The transaction is taking longer than expected. It may still confirm; check the block explorer.',
+    TX_REVERTED: (a) =>
+      a.errorName ? `The transaction was reverted by the contract (${id(a.errorName)}).` : 'The transaction was reverted by the contract.',
+    TX_MAYBE_SENT: () =>
+      'An earlier attempt may already have sent this submission and it has not shown up on-chain yet. Check your wallet activity or the block explorer before sending it again, or the fee could be paid twice.',
+    RPC_SYNC: () => 'The RPC node is still syncing. The transaction was sent; check the block explorer to confirm.',
+    NETWORK: () => 'Could not reach the network. Please check your internet connection and try again.',
+    UNKNOWN: (a) => (a.details ? `Something went wrong: ${id(a.details)}` : 'Something went wrong. Please try again.'),
+  },
+  es: {
+    SUBMISSION__SubmissionNotFound: (a) => `El envío #${id(a.submissionId)} no existe.`,
+    SUBMISSION__Unauthorized: () => 'Tu billetera no tiene permiso para esta acción. Las acciones de verificación requieren el VERIFIER_ROLE.',
+    SUBMISSION__AlreadyApproved: (a) => `El envío #${id(a.submissionId)} ya fue aprobado.`,
+    SUBMISSION__AlreadyRejected: (a) => `El envío #${id(a.submissionId)} ya fue rechazado.`,
+    SUBMISSION__AlreadyWithdrawn: (a) => `El envío #${id(a.submissionId)} fue retirado por quien lo envió.`,
+    SUBMISSION__InsufficientSubmissionFee: (a) =>
+      `La tarifa de envío es ${celo(a.required)}, pero solo se enviaron ${celo(a.sent)}.`,
+    NFT__NotVerifiedPOI: () => 'Debes estar verificado como POI (Prueba de Impacto) antes de reclamar. Contacta a soporte.',
+    NFT__MaxLevelReached: () => 'Ya alcanzaste el nivel máximo de Impact Product (10).',
+    NFT__NoCleanupCredit: () =>
+      'No tienes ninguna limpieza aprobada pendiente de reclamar. Cada limpieza aprobada desbloquea un nivel de Impact Product.',
+    REWARD__LevelAlreadyClaimed: () => 'La recompensa de este nivel ya fue reclamada.',
+    USER_REJECTED: () => 'Rechazaste la transacción en tu billetera.',
+    INSUFFICIENT_FUNDS: () => 'Tu billetera no tiene suficiente CELO para pagar esta transacción y el gas.',
+    WRONG_CHAIN: () => 'Tu billetera está conectada a la red equivocada.',
+    CHAIN_NOT_ADDED: () => 'La red requerida no está configurada en tu billetera.',
+    CHAIN_SWITCH_FAILED: () => 'Tu billetera no pudo cambiar a la red requerida.',
+    TX_TIMEOUT: () => 'La transacción está tardando más de lo esperado. Puede confirmarse todavía; revisa el explorador de bloques.',
+    TX_REVERTED: () => 'El contrato revirtió la transacción.',
+    TX_MAYBE_SENT: () =>
+      'Un intento anterior puede haber enviado ya este envío y todavía no aparece en la cadena. Revisa la actividad de tu billetera o el explorador de bloques antes de enviarlo de nuevo, o la tarifa podría pagarse dos veces.',
+    NETWORK: () => 'No se pudo conectar a la red. Revisa tu conexión a internet e inténtalo de nuevo.',
+    UNKNOWN: () => 'Algo salió mal. Inténtalo de nuevo.',
+  },
+}
+
+export function getErrorLocale(): ErrorLocale {
+  if (typeof navigator === 'undefined') return 'en'
+  const language = (navigator.language || 'en').toLowerCase().split('-')[0]
+  return language in MESSAGES ? (language as ErrorLocale) : 'en'
+}
+
+/**
+ * Human message for an error code. Falls back to English when the locale has
+ * no entry, and to the generic revert message for codes without a catalog entry
+ * (e.g. OpenZeppelin ERC20/ERC721 errors).
+ */
+export function getErrorMessage(
+  code: ContractErrorCode,
+  args: ContractErrorArgs = {},
+  locale: ErrorLocale = getErrorLocale()
+): string {
+  const message = MESSAGES[locale][code] ?? MESSAGES.en[code]
+  if (message) return message(args)
+  return (MESSAGES[locale].TX_REVERTED ?? MESSAGES.en.TX_REVERTED!)({ ...args, errorName: code })
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Errors                                   */
+/* -------------------------------------------------------------------------- */
+
+export class ContractError extends Error {
+  readonly code: ContractErrorCode
+  readonly args: ContractErrorArgs
+  readonly txHash?: Hex
+  readonly cause?: unknown
+
+  constructor(
+    code: ContractErrorCode,
+    args: ContractErrorArgs = {},
+    options: { txHash?: Hex; cause?: unknown } = {}
+  ) {
+    super(getErrorMessage(code, args))
+    this.name = 'ContractError'
+    this.code = code
+    this.args = args
+    this.txHash = options.txHash
+    this.cause = options.cause
+  }
+
+  /** Message in a specific locale, e.g. for a server-rendered or per-user language. */
+  localize(locale: ErrorLocale): string {
+    return getErrorMessage(this.code, this.args, locale)
+  }
+}
+
+export function isContractError(error: unknown): error is ContractError {
+  return error instanceof ContractError
+}
+
+const DCU_ERRORS_ABI = [
+  ...SUBMISSION_ABI,
+  ...DCU_REWARD_MANAGER_ABI,
+  ...IMPACT_PRODUCT_NFT_ABI,
+  ...DCU_TOKEN_ABI,
+  ...RECYCLABLES_REWARD_ABI,
+].filter((item) => item.type === 'error')
+
+function namedArgs(inputs: readonly { name?: string }[] | undefined, values: readonly unknown[] | undefined) {
+  const args: ContractErrorArgs = {}
+  ;(values ?? []).forEach((value, i) => {
+    args[inputs?.[i]?.name || String(i)] = value
+  })
+  return args
+}
+
+/**
+ * Decode raw revert data (the `0x…` returned by eth_call / eth_estimateGas)
+ * against every DCU contract. Returns null for data no DCU contract produces.
+ */
+export function decodeRevertData(data: Hex): { code: ContractErrorCode; args: ContractErrorArgs } | null {
+  try {
+    const decoded = decodeErrorResult({ abi: DCU_ERRORS_ABI, data })
+    return {
+      code: decoded.errorName as ContractErrorCode,
+      args: namedArgs(decoded.abiItem.inputs, decoded.args as readonly unknown[] | undefined),
+    }
+  } catch {
+    return null
+  }
+}
+
+function fromRevertReason(reason: string): { code: ContractErrorCode; args: ContractErrorArgs } {
+  const code = REVERT_REASON_CODES[reason.trim()]
+  return code ? { code, args: {} } : { code: 'TX_REVERTED', args: { reason } }
+}
+
+function findRevertHex(error: any): Hex | undefined {
+  let current = error
+  for (let depth = 0; current && depth < 10; depth++) {
+    const data = current.data ?? current.details?.data
+    if (typeof data === 'string' && data.startsWith('0x') && data.length >= 10) return data as Hex
+    if (typeof data?.data === 'string' && data.data.startsWith('0x')) return data.data as Hex
+    current = current.cause
+  }
+  return undefined
+}
+
+function errorText(error: any): string {
+  const parts: string[] = []
+  let current = error
+  for (let depth = 0; current && depth < 10; depth++) {
+    if (typeof current === 'string') {
+      parts.push(current)
+      break
+    }
+    parts.push(current.shortMessage ?? '', current.message ?? '', current.details ?? '')
+    current = current.cause
+  }
+  return parts.join('\n')
+}
+
+function errorCodes(error: any): unknown[] {
+  const codes: unknown[] = []
+  let current = error
+  for (let depth = 0; current && depth < 10; depth++) {
+    codes.push(current.code)
+    current = current.cause
+  }
+  return codes
+}
+
+/**
+ * Normalise any thrown value into a ContractError.
+ *
+ * Pass the transaction hash when one exists, so callers can link the
+ * transaction even when only the receipt wait failed.
+ */
+export function decodeContractError(error: unknown, context: { txHash?: Hex } = {}): ContractError {
+  if (error instanceof ContractError) {
+    if (!context.txHash || error.txHash) return error
+    return new ContractError(error.code, error.args, { txHash: context.txHash, cause: error.cause })
+  }
+
+  const options = { txHash: context.txHash, cause: error }
+  const walk = (predicate: (e: unknown) => boolean) =>
+    error instanceof BaseError ? error.walk(predicate) : predicate(error) ? error : null
+
+  if (walk((e) => e instanceof UserRejectedRequestError)) {
+    return new ContractError('USER_REJECTED', {}, options)
+  }
+
+  const reverted = walk((e) => e instanceof ContractFunctionRevertedError) as ContractFunctionRevertedError | null
+  if (reverted) {
+    if (reverted.data && reverted.data.errorName !== 'Error' && reverted.data.errorName !== 'Panic') {
+      const args = namedArgs(
+        (reverted.data.abiItem as { inputs?: readonly { name?: string }[] }).inputs,
+        reverted.data.args as readonly unknown[] | undefined
+      )
+      return new ContractError(reverted.data.errorName as ContractErrorCode, args, options)
+    }
+    if (reverted.reason) {
+      const { code, args } = fromRevertReason(reverted.reason)
+      return new ContractError(code, args, options)
+    }
+    // The ABI used for the call may not know an error raised by a nested contract
+    const decoded = reverted.raw ? decodeRevertData(reverted.raw) : null
+    if (decoded) return new ContractError(decoded.code, decoded.args, options)
+    return new ContractError('TX_REVERTED', { errorName: reverted.signature }, options)
+  }
+
+  const revertHex = findRevertHex(error)
+  const decoded = revertHex ? decodeRevertData(revertHex) : null
+  if (decoded) return new ContractError(decoded.code, decoded.args, options)
+
+  const codes = errorCodes(error)
+  const text = errorText(error)
+
+  if (codes.includes(4001) || /user (rejected|denied)/i.test(text)) {
+    return new ContractError('USER_REJECTED', {}, options)
+  }
+  if (walk((e) => e instanceof InsufficientFundsError) || /insufficient funds/i.test(text)) {
+    return new ContractError('INSUFFICIENT_FUNDS', {}, options)
+  }
+  if (codes.includes(4902) || /chain not configured|unrecognized chain/i.test(text)) {
+    return new ContractError('CHAIN_NOT_ADDED', {}, options)
+  }
+  if (walk((e) => e instanceof SwitchChainError)) {
+    return new ContractError('CHAIN_SWITCH_FAILED', {}, options)
+  }
+  if (walk((e) => e instanceof ChainMismatchError)) {
+    return new ContractError('WRONG_CHAIN', {}, options)
+  }
+  if (codes.includes(-32019) || text.includes('block is out of range')) {
+    return new ContractError('RPC_SYNC', {}, options)
+  }
+  if (walk((e) => e instanceof WaitForTransactionReceiptTimeoutError)) {
+    return new ContractError('TX_TIMEOUT', {}, options)
+  }
+  if (walk((e) => e instanceof HttpRequestError || e instanceof TimeoutError) || /failed to fetch/i.test(text)) {
+    return new ContractError('NETWORK', {}, options)
+  }
+  const reason = text.match(/reverted with reason string '([^']+)'/)?.[1]
+  if (reason) {
+    const { code, args } = fromRevertReason(reason)
+    return new ContractError(code, args, options)
+  }
+  if (/revert/i.test(text)) {
+    return new ContractError('TX_REVERTED', {}, options)
+  }
+
+  const details =
+    (error as any)?.shortMessage || (error instanceof Error ? error.message : typeof error === 'string' ? error : undefined)
+  return new ContractError('UNKNOWN', details ? { details } : {}, options)
+}
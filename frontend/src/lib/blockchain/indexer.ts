@@ -0,0 +1,556 @@
+import { Address, getAbiItem } from 'viem'
+import { getPublicClient } from '@wagmi/core'
+import { getLogs as viemGetLogs, getBlockNumber as viemGetBlockNumber } from 'viem/actions'
+import { config, REQUIRED_CHAIN_ID } from './wagmi'
+import { SUBMISSION_ABI } from './abis'
+import { CleanupStatus } from './contracts'
+
+/**
+ * Event-sourced submission indexer
+ *
+ * Reads Submission contract logs incrementally from a checkpoint block and keeps
+ * the derived state in IndexedDB, so listing screens can query by user, status or
+ * time range instead of walking submission IDs with one getCleanupDetails call each.
+ * Where IndexedDB is unavailable (private mode, older browsers) the state is kept
+ * in memory for the page's lifetime instead.
+ *
+ * Events carry ids, submitters, statuses and timestamps but not photo hashes or
+ * coordinates - callers that render those still read the details for the (much
+ * smaller) set of IDs the index returns.
+ */
+
+const SUBMISSION_ADDRESS =
+  process.env.NEXT_PUBLIC_SUBMISSION_CONTRACT as Address | undefined
+
+// Max block range per eth_getLogs request (public Celo RPCs reject very wide ranges)
+const LOG_CHUNK_SIZE = 10_000n
+
+const DB_VERSION = 1
+const SUBMISSIONS_STORE = 'submissions'
+const REFERRALS_STORE = 'referrals'
+const META_STORE = 'meta'
+const CHECKPOINT_KEY = 'checkpoint'
+
+const INDEXED_EVENTS = [
+  getAbiItem({ abi: SUBMISSION_ABI, name: 'SubmissionCreated' }),
+  getAbiItem({ abi: SUBMISSION_ABI, name: 'SubmissionApproved' }),
+  getAbiItem({ abi: SUBMISSION_ABI, name: 'SubmissionRejected' }),
+  getAbiItem({ abi: SUBMISSION_ABI, name: 'SubmissionWithdrawn' }),
+  getAbiItem({ abi: SUBMISSION_ABI, name: 'RecyclablesSubmitted' }),
+  getAbiItem({ abi: SUBMISSION_ABI, name: 'ReferralRegistered' }),
+] as const
+
+/* -------------------------------------------------------------------------- */
+/*                                   TYPES                                    */
+/* -------------------------------------------------------------------------- */
+
+export interface IndexedSubmission {
+  id: number
+  submitter: Address // lowercased
+  dataURI: string
+  timestamp: number // unix seconds
+  status: CleanupStatus
+  approver?: Address
+  processedTimestamp?: number
+  decisionTransactionHash?: `0x${string}` // Approval/rejection transaction, for the verifier audit trail
+  rewarded: boolean
+  hasRecyclables: boolean
+  recyclablesPhotoHash?: string
+  recyclablesReceiptHash?: string
+  blockNumber: number
+  transactionHash: `0x${string}`
+}
+
+export interface IndexedReferral {
+  invitee: Address // lowercased
+  referrer: Address
+  blockNumber: number
+}
+
+export interface SubmissionQuery {
+  user?: Address
+  status?: CleanupStatus
+  /** Inclusive lower bound, unix seconds */
+  fromTimestamp?: number
+  /** Inclusive upper bound, unix seconds */
+  toTimestamp?: number
+}
+
+export interface IndexerSyncResult {
+  fromBlock: bigint
+  toBlock: bigint
+  eventsProcessed: number
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 INDEXEDDB                                  */
+/* -------------------------------------------------------------------------- */
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function getDbName(): string {
+  return `decleanup-indexer-${REQUIRED_CHAIN_ID}-${(SUBMISSION_ADDRESS || '').toLowerCase()}`
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'))
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(getDbName(), DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(SUBMISSIONS_STORE)) {
+          const store = db.createObjectStore(SUBMISSIONS_STORE, { keyPath: 'id' })
+          store.createIndex('submitter', 'submitter')
+          store.createIndex('status', 'status')
+          store.createIndex('timestamp', 'timestamp')
+        }
+        if (!db.objectStoreNames.contains(REFERRALS_STORE)) {
+          db.createObjectStore(REFERRALS_STORE, { keyPath: 'invitee' })
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE)
+        }
+      }
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+
+  return dbPromise
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   STORES                                   */
+/* -------------------------------------------------------------------------- */
+
+/** Where the indexed state lives: IndexedDB, or memory when it is unavailable */
+interface IndexStore {
+  readCheckpoint(): Promise<bigint | null>
+  /**
+   * Load the stored rows for `ids`, write the changes `reduce` derives from them
+   * and advance the checkpoint, all or nothing
+   */
+  apply(
+    ids: ReadonlySet<number>,
+    checkpoint: bigint,
+    reduce: (existing: ReadonlyMap<number, IndexedSubmission>) => IndexerChanges
+  ): Promise<void>
+  /** Candidate rows for a query; callers apply the filters */
+  findSubmissions(query: SubmissionQuery): Promise<IndexedSubmission[]>
+  getReferral(invitee: string): Promise<IndexedReferral | undefined>
+  getReferrals(): Promise<IndexedReferral[]>
+  clear(): Promise<void>
+}
+
+function createIndexedDbStore(db: IDBDatabase): IndexStore {
+  return {
+    async readCheckpoint() {
+      const tx = db.transaction(META_STORE, 'readonly')
+      const value = await requestToPromise(tx.objectStore(META_STORE).get(CHECKPOINT_KEY))
+      return typeof value === 'string' ? BigInt(value) : null
+    },
+
+    async apply(ids, checkpoint, reduce) {
+      const tx = db.transaction([SUBMISSIONS_STORE, REFERRALS_STORE, META_STORE], 'readwrite')
+      const submissions = tx.objectStore(SUBMISSIONS_STORE)
+      const referrals = tx.objectStore(REFERRALS_STORE)
+
+      const existing = new Map<number, IndexedSubmission>()
+      for (const id of ids) {
+        const row = await requestToPromise<IndexedSubmission | undefined>(submissions.get(id))
+        if (row) existing.set(id, row)
+      }
+
+      const changes = reduce(existing)
+      changes.submissions.forEach((row) => submissions.put(row))
+      changes.referrals.forEach((referral) => referrals.put(referral))
+
+      tx.objectStore(META_STORE).put(checkpoint.toString(), CHECKPOINT_KEY)
+      await transactionDone(tx)
+    },
+
+    async findSubmissions(query) {
+      const store = db.transaction(SUBMISSIONS_STORE, 'readonly').objectStore(SUBMISSIONS_STORE)
+      if (query.user) {
+        return requestToPromise(store.index('submitter').getAll(query.user.toLowerCase()))
+      }
+      if (query.status !== undefined) {
+        return requestToPromise(store.index('status').getAll(query.status))
+      }
+      if (query.fromTimestamp !== undefined || query.toTimestamp !== undefined) {
+        const range =
+          query.fromTimestamp !== undefined && query.toTimestamp !== undefined
+            ? IDBKeyRange.bound(query.fromTimestamp, query.toTimestamp)
+            : query.fromTimestamp !== undefined
+              ? IDBKeyRange.lowerBound(query.fromTimestamp)
+              : IDBKeyRange.upperBound(query.toTimestamp!)
+        return requestToPromise(store.index('timestamp').getAll(range))
+      }
+      return requestToPromise(store.getAll())
+    },
+
+    async getReferral(invitee) {
+      const store = db.transaction(REFERRALS_STORE, 'readonly').objectStore(REFERRALS_STORE)
+      return requestToPromise<IndexedReferral | undefined>(store.get(invitee))
+    },
+
+    async getReferrals() {
+      const store = db.transaction(REFERRALS_STORE, 'readonly').objectStore(REFERRALS_STORE)
+      return requestToPromise<IndexedReferral[]>(store.getAll())
+    },
+
+    async clear() {
+      const tx = db.transaction([SUBMISSIONS_STORE, REFERRALS_STORE, META_STORE], 'readwrite')
+      tx.objectStore(SUBMISSIONS_STORE).clear()
+      tx.objectStore(REFERRALS_STORE).clear()
+      tx.objectStore(META_STORE).clear()
+      await transactionDone(tx)
+    },
+  }
+}
+
+function createMemoryIndexStore(): IndexStore {
+  let checkpoint: bigint | null = null
+  const submissions = new Map<number, IndexedSubmission>()
+  const referrals = new Map<string, IndexedReferral>()
+
+  return {
+    async readCheckpoint() {
+      return checkpoint
+    },
+
+    async apply(ids, nextCheckpoint, reduce) {
+      const existing = new Map<number, IndexedSubmission>()
+      for (const id of ids) {
+        const row = submissions.get(id)
+        if (row) existing.set(id, row)
+      }
+
+      const changes = reduce(existing)
+      changes.submissions.forEach((row) => submissions.set(row.id, row))
+      changes.referrals.forEach((referral) => referrals.set(referral.invitee, referral))
+      checkpoint = nextCheckpoint
+    },
+
+    async findSubmissions() {
+      return [...submissions.values()]
+    },
+
+    async getReferral(invitee) {
+      return referrals.get(invitee)
+    },
+
+    async getReferrals() {
+      return [...referrals.values()]
+    },
+
+    async clear() {
+      checkpoint = null
+      submissions.clear()
+      referrals.clear()
+    },
+  }
+}
+
+let storePromise: Promise<IndexStore> | null = null
+
+function getStore(): Promise<IndexStore> {
+  if (!storePromise) {
+    storePromise = openDb()
+      .then(createIndexedDbStore)
+      .catch((error) => {
+        console.warn('[indexer] IndexedDB unavailable, keeping the index in memory:', error)
+        return createMemoryIndexStore()
+      })
+  }
+  return storePromise
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                    SYNC                                    */
+/* -------------------------------------------------------------------------- */
+
+export type IndexedLog = Awaited<ReturnType<typeof fetchLogs>>[number]
+
+async function fetchLogs(fromBlock: bigint, toBlock: bigint) {
+  const publicClient = getPublicClient(config)
+  if (!publicClient || !SUBMISSION_ADDRESS) {
+    return []
+  }
+
+  return viemGetLogs(publicClient, {
+    address: SUBMISSION_ADDRESS,
+    events: INDEXED_EVENTS,
+    fromBlock,
+    toBlock,
+  })
+}
+
+/** Rows a chunk of logs writes */
+export interface IndexerChanges {
+  submissions: Map<number, IndexedSubmission>
+  referrals: IndexedReferral[]
+}
+
+/**
+ * Fold a chunk of logs into the indexed state
+ * `existing` holds the stored rows for the submission IDs the logs mention; only
+ * changed rows are returned. Logs are applied in chain order whatever order they
+ * come in. Status events for an ID that was never created are skipped.
+ */
+export function reduceSubmissionLogs(
+  logs: IndexedLog[],
+  existing: ReadonlyMap<number, IndexedSubmission>
+): IndexerChanges {
+  const submissions = new Map<number, IndexedSubmission>()
+  const referrals: IndexedReferral[] = []
+  const current = (id: number) => submissions.get(id) ?? existing.get(id)
+
+  const sorted = [...logs].sort((a, b) =>
+    a.blockNumber === b.blockNumber
+      ? (a.logIndex ?? 0) - (b.logIndex ?? 0)
+      : Number((a.blockNumber ?? 0n) - (b.blockNumber ?? 0n))
+  )
+
+  for (const log of sorted) {
+    const blockNumber = Number(log.blockNumber ?? 0n)
+
+    if (log.eventName === 'ReferralRegistered') {
+      referrals.push({
+        invitee: log.args.invitee!.toLowerCase() as Address,
+        referrer: log.args.referrer!,
+        blockNumber,
+      })
+      continue
+    }
+
+    const id = Number(log.args.submissionId)
+    const row = current(id)
+
+    if (log.eventName === 'SubmissionCreated') {
+      submissions.set(id, {
+        // Keep recyclables attached before a re-index of the creation log
+        ...row,
+        id,
+        submitter: log.args.submitter!.toLowerCase() as Address,
+        dataURI: log.args.dataURI ?? '',
+        timestamp: Number(log.args.timestamp ?? 0n),
+        status: row?.status ?? CleanupStatus.Pending,
+        rewarded: row?.rewarded ?? false,
+        hasRecyclables: row?.hasRecyclables ?? false,
+        blockNumber,
+        transactionHash: log.transactionHash!,
+      })
+      continue
+    }
+
+    if (!row) {
+      console.warn(`[indexer] ${log.eventName} for unknown submission ${id}`)
+      continue
+    }
+
+    switch (log.eventName) {
+      case 'SubmissionApproved':
+      case 'SubmissionRejected': {
+        const approved = log.eventName === 'SubmissionApproved'
+        submissions.set(id, {
+          ...row,
+          status: approved ? CleanupStatus.Approved : CleanupStatus.Rejected,
+          approver: log.args.approver!.toLowerCase() as Address,
+          processedTimestamp: Number(log.args.timestamp ?? 0n),
+          decisionTransactionHash: log.transactionHash!,
+          // Submission.approveSubmission marks the reward as available in the same call
+          rewarded: approved,
+        })
+        break
+      }
+      case 'SubmissionWithdrawn':
+        submissions.set(id, {
+          ...row,
+          status: CleanupStatus.Withdrawn,
+          processedTimestamp: Number(log.args.timestamp ?? 0n),
+        })
+        break
+      case 'RecyclablesSubmitted':
+        submissions.set(id, {
+          ...row,
+          hasRecyclables: true,
+          recyclablesPhotoHash: log.args.recyclablesPhotoHash,
+          recyclablesReceiptHash: log.args.recyclablesReceiptHash,
+        })
+        break
+    }
+  }
+
+  return { submissions, referrals }
+}
+
+/**
+ * Block the Submission contract was deployed at - indexing starts here on first sync
+ * Required: reading from block 0 would take thousands of eth_getLogs requests on Celo.
+ */
+export function getSubmissionStartBlock(): bigint {
+  const startBlock = process.env.NEXT_PUBLIC_SUBMISSION_START_BLOCK
+  if (!startBlock) {
+    throw new Error(
+      'NEXT_PUBLIC_SUBMISSION_START_BLOCK is not set. Set it to the block the Submission contract was deployed at (see ENV_TEMPLATE.md).'
+    )
+  }
+  return BigInt(startBlock)
+}
+
+/**
+ * Block ranges a sync reads, oldest first
+ * Resumes after the checkpoint (the last block of the last applied chunk), or
+ * at the deployment block on first sync. Each range's `toBlock` becomes the
+ * checkpoint once it is applied.
+ */
+export function planLogChunks(
+  checkpoint: bigint | null,
+  latestBlock: bigint,
+  startBlock: bigint = getSubmissionStartBlock(),
+  chunkSize: bigint = LOG_CHUNK_SIZE
+): Array<{ fromBlock: bigint; toBlock: bigint }> {
+  const chunks: Array<{ fromBlock: bigint; toBlock: bigint }> = []
+  const fromBlock = checkpoint !== null ? checkpoint + 1n : startBlock
+  for (let start = fromBlock; start <= latestBlock; start += chunkSize) {
+    const end = start + chunkSize - 1n
+    chunks.push({ fromBlock: start, toBlock: end < latestBlock ? end : latestBlock })
+  }
+  return chunks
+}
+
+/**
+ * Apply a chunk of logs and advance the checkpoint in a single transaction,
+ * so an interrupted sync never leaves the checkpoint ahead of the data.
+ */
+async function applyLogs(logs: IndexedLog[], checkpoint: bigint): Promise<void> {
+  const ids = new Set<number>()
+  for (const log of logs) {
+    if (log.eventName !== 'ReferralRegistered') ids.add(Number(log.args.submissionId))
+  }
+
+  const store = await getStore()
+  await store.apply(ids, checkpoint, (existing) => reduceSubmissionLogs(logs, existing))
+}
+
+let syncPromise: Promise<IndexerSyncResult> | null = null
+
+/**
+ * Bring the local index up to the latest block.
+ * Concurrent callers share the same in-flight sync. Progress is checkpointed per
+ * chunk, so a failed sync resumes from the last completed chunk next time.
+ */
+export function syncSubmissionIndex(): Promise<IndexerSyncResult> {
+  if (!syncPromise) {
+    syncPromise = runSync().finally(() => {
+      syncPromise = null
+    })
+  }
+  return syncPromise
+}
+
+async function runSync(): Promise<IndexerSyncResult> {
+  const publicClient = getPublicClient(config)
+  if (!SUBMISSION_ADDRESS || !publicClient) {
+    return { fromBlock: 0n, toBlock: 0n, eventsProcessed: 0 }
+  }
+
+  const checkpoint = await (await getStore()).readCheckpoint()
+  const fromBlock = checkpoint !== null ? checkpoint + 1n : getSubmissionStartBlock()
+  const latestBlock = await viemGetBlockNumber(publicClient)
+
+  let eventsProcessed = 0
+  for (const chunk of planLogChunks(checkpoint, latestBlock)) {
+    const logs = await fetchLogs(chunk.fromBlock, chunk.toBlock)
+    await applyLogs(logs, chunk.toBlock)
+    eventsProcessed += logs.length
+  }
+
+  if (eventsProcessed > 0) {
+    console.log(`[indexer] Indexed ${eventsProcessed} event(s) from block ${fromBlock} to ${latestBlock}`)
+  }
+
+  return { fromBlock, toBlock: latestBlock, eventsProcessed }
+}
+
+/**
+ * Drop all indexed data so the next sync re-reads from the deployment block
+ */
+export async function resetSubmissionIndex(): Promise<void> {
+  await (await getStore()).clear()
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  QUERIES                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Query indexed submissions, newest first.
+ * Uses the most selective IndexedDB index available and filters the rest in memory.
+ */
+export async function queryIndexedSubmissions(query: SubmissionQuery = {}): Promise<IndexedSubmission[]> {
+  const rows = await (await getStore()).findSubmissions(query)
+
+  return rows
+    .filter((row) => !query.user || row.submitter === query.user.toLowerCase())
+    .filter((row) => query.status === undefined || row.status === query.status)
+    .filter((row) => query.fromTimestamp === undefined || row.timestamp >= query.fromTimestamp)
+    .filter((row) => query.toTimestamp === undefined || row.timestamp <= query.toTimestamp)
+    .sort((a, b) => b.id - a.id)
+}
+
+export async function getIndexedSubmissionsByUser(user: Address): Promise<IndexedSubmission[]> {
+  return queryIndexedSubmissions({ user })
+}
+
+export async function getIndexedSubmissionsByStatus(status: CleanupStatus): Promise<IndexedSubmission[]> {
+  return queryIndexedSubmissions({ status })
+}
+
+export async function getIndexedSubmissionsInRange(
+  fromTimestamp: number,
+  toTimestamp: number
+): Promise<IndexedSubmission[]> {
+  return queryIndexedSubmissions({ fromTimestamp, toTimestamp })
+}
+
+/**
+ * Referrer registered for an invitee, or null if the user was not referred
+ */
+export async function getIndexedReferrer(invitee: Address): Promise<Address | null> {
+  const referral = await (await getStore()).getReferral(invitee.toLowerCase())
+  return referral?.referrer ?? null
+}
+
+/**
+ * All indexed referrals keyed by lowercased invitee address
+ */
+export async function getIndexedReferrals(): Promise<Map<string, Address>> {
+  const rows = await (await getStore()).getReferrals()
+  return new Map(rows.map((row) => [row.invitee, row.referrer]))
+}
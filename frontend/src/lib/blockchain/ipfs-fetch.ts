@@ -0,0 +1,369 @@
+/**
+ * IPFS Fetch Utility
+ * Reads files from IPFS by racing several gateways, verifying what comes back
+ * against the CID (see ipfs-verify) and caching verified files for good.
+ *
+ * Gateways are started one after another: the next one joins the race when the
+ * previous ones fail or haven't answered within IPFS_HEDGE_DELAY_MS, and each
+ * request is abandoned after IPFS_GATEWAY_TIMEOUT_MS. The first verified
+ * answer wins. A gateway that can't serve verifiable content (no CAR support,
+ * the /api/ipfs route of a Kubo node) is only used when no other one can, and
+ * its answer is marked `verified: false`.
+ */
+
+import { sniffContentType } from '@/lib/storage/upload-validation'
+import {
+  assembleFile,
+  canVerifyHash,
+  IPFSIntegrityError,
+  parseCid,
+  RAW_CODEC,
+  readCar,
+  verifyBlock,
+  type ParsedCid,
+} from './ipfs-verify'
+
+export const IPFS_GATEWAY_TIMEOUT_MS = 15_000
+export const IPFS_HEDGE_DELAY_MS = 1_500
+// How long an unverified answer waits for a verified one before it is used
+const UNVERIFIED_GRACE_MS = 2_000
+
+const DEFAULT_IPFS_GATEWAY = 'https://ipfs.io/ipfs/'
+
+// IPFS gateways that support CORS
+export const PUBLIC_IPFS_GATEWAYS = [
+  'https://ipfs.io/ipfs/',
+  'https://dweb.link/ipfs/',
+  'https://gateway.ipfs.io/ipfs/',
+  'https://cloudflare-ipfs.com/ipfs/',
+  'https://gateway.pinata.cloud/ipfs/',
+]
+
+// Files from the local store and Kubo nodes are served by the app itself
+const LOCAL_IPFS_ROUTE = '/api/ipfs/'
+
+const CACHE_NAME = 'decleanup-ipfs-v1'
+const CACHE_URL_PREFIX = 'https://ipfs.cache/ipfs/'
+const MEMORY_CACHE_MAX_BYTES = 32 * 1024 * 1024
+
+export interface IPFSContent {
+  bytes: Uint8Array<ArrayBuffer>
+  contentType: string
+  /** Whether the bytes were checked against the CID */
+  verified: boolean
+}
+
+export interface IPFSFetchOptions {
+  /** Accept header for gateways that return the file itself */
+  accept?: string
+  signal?: AbortSignal
+  timeoutMs?: number
+}
+
+export interface IPFSTarget {
+  cid: ParsedCid
+  /** `<cid>[/<path>]`, as appended to a gateway URL */
+  path: string
+  segments: string[]
+}
+
+export class IPFSFetchError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message)
+    this.name = 'IPFSFetchError'
+  }
+}
+
+/** The configured gateway (NEXT_PUBLIC_IPFS_GATEWAY), or ipfs.io */
+export function getConfiguredGateway(): string {
+  return process.env.NEXT_PUBLIC_IPFS_GATEWAY || DEFAULT_IPFS_GATEWAY
+}
+
+/**
+ * Parse anything that points at IPFS content: a CID, `ipfs://cid/path`,
+ * `/ipfs/cid/path` or a path or subdomain gateway URL
+ * @returns null if no CID can be found
+ */
+export function parseIPFSRef(ref: string | null | undefined): IPFSTarget | null {
+  if (!ref) return null
+  let path = ref.trim().split('?')[0].split('#')[0]
+
+  const subdomain = path.match(/^https?:\/\/([a-z0-9]+)\.ipfs\.[^/]+(\/.*)?$/i)
+  if (subdomain) {
+    path = `${subdomain[1]}${subdomain[2] || ''}`
+  } else if (/^ipfs:\/\//i.test(path)) {
+    path = path.replace(/^ipfs:\/\//i, '')
+  } else if (path.includes('/ipfs/')) {
+    path = path.slice(path.indexOf('/ipfs/') + '/ipfs/'.length)
+  }
+
+  const [cidString, ...rest] = path.split('/').filter(Boolean)
+  if (!cidString) return null
+  try {
+    const segments = rest.map((segment) => decodeURIComponent(segment))
+    return {
+      cid: parseCid(cidString),
+      path: [cidString, ...rest].join('/'),
+      segments,
+    }
+  } catch {
+    return null
+  }
+}
+
+function getGateways(target: IPFSTarget): string[] {
+  const gateways = [getConfiguredGateway()]
+  // The local route only serves whole files by CID, and only exists in the browser
+  if (target.segments.length === 0 && typeof window !== 'undefined') {
+    gateways.push(LOCAL_IPFS_ROUTE)
+  }
+  gateways.push(...PUBLIC_IPFS_GATEWAYS)
+  return Array.from(new Set(gateways))
+}
+
+function guessContentType(bytes: Uint8Array, target: IPFSTarget): string {
+  const sniffed = sniffContentType(bytes)
+  if (sniffed) return sniffed
+  const extension = target.segments[target.segments.length - 1]?.split('.').pop()?.toLowerCase()
+  const byExtension: Record<string, string> = {
+    gif: 'image/gif',
+    svg: 'image/svg+xml',
+    mp4: 'video/mp4',
+    json: 'application/json',
+  }
+  return (extension && byExtension[extension]) || 'application/octet-stream'
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  GATEWAYS                                  */
+/* -------------------------------------------------------------------------- */
+
+async function fetchFromGateway(
+  gateway: string,
+  target: IPFSTarget,
+  accept: string,
+  signal: AbortSignal
+): Promise<IPFSContent> {
+  // A single raw block hashes straight to its CID
+  if (target.cid.codec === RAW_CODEC && target.segments.length === 0) {
+    const response = await fetch(`${gateway}${target.path}`, { signal, headers: { Accept: accept } })
+    if (!response.ok) throw new IPFSFetchError(`${gateway} returned ${response.status}`)
+    const bytes = new Uint8Array(await response.arrayBuffer())
+    const verified = canVerifyHash(target.cid)
+    if (verified) await verifyBlock(target.cid, bytes)
+    return { bytes, contentType: guessContentType(bytes, target), verified }
+  }
+
+  // Anything else is verified block by block from a CAR file
+  const response = await fetch(`${gateway}${target.path}?format=car&dag-scope=entity`, {
+    signal,
+    headers: { Accept: 'application/vnd.ipld.car' },
+  })
+  if (!response.ok) throw new IPFSFetchError(`${gateway} returned ${response.status}`)
+  const bytes = new Uint8Array(await response.arrayBuffer())
+
+  if (!response.headers.get('content-type')?.includes('application/vnd.ipld.car')) {
+    // The gateway ignored the CAR request and sent the file itself
+    return {
+      bytes,
+      contentType: response.headers.get('content-type') || guessContentType(bytes, target),
+      verified: false,
+    }
+  }
+
+  const file = assembleFile(await readCar(bytes), target.cid, target.segments)
+  return { bytes: file, contentType: guessContentType(file, target), verified: true }
+}
+
+function raceGateways(target: IPFSTarget, accept: string, timeoutMs: number): Promise<IPFSContent> {
+  const gateways = getGateways(target)
+
+  return new Promise((resolve, reject) => {
+    const controllers: AbortController[] = []
+    let next = 0
+    let running = 0
+    let settled = false
+    let unverified: IPFSContent | null = null
+    let lastError: unknown = null
+    let hedgeTimer: ReturnType<typeof setTimeout> | undefined
+    let graceTimer: ReturnType<typeof setTimeout> | undefined
+
+    const settle = (result: IPFSContent | null) => {
+      if (settled) return
+      settled = true
+      clearTimeout(hedgeTimer)
+      clearTimeout(graceTimer)
+      controllers.forEach((controller) => controller.abort())
+      if (result) {
+        resolve(result)
+      } else if (lastError instanceof IPFSIntegrityError) {
+        reject(lastError)
+      } else {
+        reject(new IPFSFetchError(`Failed to fetch ${target.path} from IPFS`, lastError))
+      }
+    }
+
+    const launch = () => {
+      if (settled || next >= gateways.length) return
+      const gateway = gateways[next++]
+      const controller = new AbortController()
+      const timeout = setTimeout(() => controller.abort(), timeoutMs)
+      controllers.push(controller)
+      running++
+
+      fetchFromGateway(gateway, target, accept, controller.signal)
+        .then((content) => {
+          if (content.verified) {
+            settle(content)
+          } else if (!unverified) {
+            unverified = content
+            graceTimer = setTimeout(() => settle(unverified), UNVERIFIED_GRACE_MS)
+          }
+        })
+        .catch((error) => {
+          // A mismatching gateway is reported over one that merely failed
+          if (!(lastError instanceof IPFSIntegrityError)) lastError = error
+          if (error instanceof IPFSIntegrityError) {
+            console.warn(`IPFS gateway ${gateway} served content that does not match ${target.path}`)
+          }
+        })
+        .finally(() => {
+          clearTimeout(timeout)
+          running--
+          if (settled) return
+          if (next < gateways.length) {
+            launch()
+          } else if (running === 0) {
+            settle(unverified)
+          }
+        })
+
+      clearTimeout(hedgeTimer)
+      hedgeTimer = setTimeout(launch, IPFS_HEDGE_DELAY_MS)
+    }
+
+    launch()
+  })
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   CACHE                                    */
+/* -------------------------------------------------------------------------- */
+
+const memoryCache = new Map<string, IPFSContent>()
+const inFlight = new Map<string, Promise<IPFSContent>>()
+let memoryCacheBytes = 0
+
+function rememberContent(path: string, content: IPFSContent): void {
+  const previous = memoryCache.get(path)
+  if (previous) {
+    memoryCache.delete(path)
+    memoryCacheBytes -= previous.bytes.byteLength
+  }
+  memoryCache.set(path, content)
+  memoryCacheBytes += content.bytes.byteLength
+  // Maps keep insertion order, so the first entries are the least recently used
+  for (const [key, entry] of memoryCache) {
+    if (memoryCacheBytes <= MEMORY_CACHE_MAX_BYTES || key === path) break
+    memoryCache.delete(key)
+    memoryCacheBytes -= entry.bytes.byteLength
+  }
+}
+
+async function openCache(): Promise<Cache | null> {
+  if (typeof caches === 'undefined') return null
+  try {
+    return await caches.open(CACHE_NAME)
+  } catch {
+    // Cache Storage is unavailable in some private browsing modes
+    return null
+  }
+}
+
+async function readCachedContent(path: string): Promise<IPFSContent | null> {
+  const remembered = memoryCache.get(path)
+  if (remembered) {
+    memoryCache.delete(path)
+    memoryCache.set(path, remembered)
+    return remembered
+  }
+
+  const cache = await openCache()
+  const response = await cache?.match(`${CACHE_URL_PREFIX}${path}`)
+  if (!response) return null
+  const content: IPFSContent = {
+    bytes: new Uint8Array(await response.arrayBuffer()),
+    contentType: response.headers.get('content-type') || 'application/octet-stream',
+    verified: true,
+  }
+  rememberContent(path, content)
+  return content
+}
+
+async function cacheContent(path: string, content: IPFSContent): Promise<void> {
+  rememberContent(path, content)
+  // Only verified content is persisted: it can never change for its CID
+  if (!content.verified) return
+  const cache = await openCache()
+  try {
+    await cache?.put(
+      `${CACHE_URL_PREFIX}${path}`,
+      new Response(content.bytes, { headers: { 'Content-Type': content.contentType } })
+    )
+  } catch (error) {
+    console.warn('Failed to cache IPFS content:', error)
+  }
+}
+
+/** Forget everything fetched so far, in memory and in Cache Storage. */
+export async function clearIPFSCache(): Promise<void> {
+  memoryCache.clear()
+  memoryCacheBytes = 0
+  if (typeof caches !== 'undefined') {
+    await caches.delete(CACHE_NAME).catch(() => false)
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   FETCH                                    */
+/* -------------------------------------------------------------------------- */
+
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise
+  if (signal.aborted) return Promise.reject(new DOMException('Aborted', 'AbortError'))
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new DOMException('Aborted', 'AbortError'))
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+/**
+ * Fetch a file from IPFS
+ * @param ref CID, ipfs:// URI or gateway URL, optionally with a path
+ * @returns The file's bytes, content type and whether they were verified
+ * @throws IPFSIntegrityError if gateways only served content not matching the CID,
+ *   IPFSFetchError if none served it at all
+ */
+export async function fetchIPFSContent(ref: string, options: IPFSFetchOptions = {}): Promise<IPFSContent> {
+  const target = parseIPFSRef(ref)
+  if (!target) {
+    throw new IPFSFetchError('Invalid IPFS hash')
+  }
+
+  let request = inFlight.get(target.path)
+  if (!request) {
+    request = (async () => {
+      const cached = await readCachedContent(target.path)
+      if (cached) return cached
+      const content = await raceGateways(target, options.accept || '*/*', options.timeoutMs ?? IPFS_GATEWAY_TIMEOUT_MS)
+      await cacheContent(target.path, content)
+      return content
+    })()
+    inFlight.set(target.path, request)
+    request.finally(() => inFlight.delete(target.path)).catch(() => {})
+  }
+
+  // Aborting only stops waiting: other callers may share the request
+  return abortable(request, options.signal)
+}
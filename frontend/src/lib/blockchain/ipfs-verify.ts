@@ -0,0 +1,328 @@
+/**
+ * IPFS content verification
+ *
+ * A gateway is only trusted to deliver bytes, not to deliver the right ones:
+ * everything fetched from IPFS is checked against the CID it was requested by.
+ * Files stored as a single raw block (the local store, `ipfs add --raw-leaves`
+ * of a small file) hash directly to their CID. Everything else (UnixFS DAGs,
+ * paths inside a directory) is requested as a CAR file, whose blocks are
+ * hashed one by one and reassembled here.
+ *
+ * Only sha2-256 (and identity) multihashes are checked, which covers every
+ * CID produced by Pinata, Kubo and the local store.
+ */
+
+/* -------------------------------------------------------------------------- */
+/*                                    CIDS                                    */
+/* -------------------------------------------------------------------------- */
+
+export const RAW_CODEC = 0x55
+export const DAG_PB_CODEC = 0x70
+const SHA2_256 = 0x12
+const IDENTITY = 0x00
+
+export interface ParsedCid {
+  version: 0 | 1
+  codec: number
+  hashCode: number
+  digest: Uint8Array
+}
+
+export class IPFSIntegrityError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'IPFSIntegrityError'
+  }
+}
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567'
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
+
+function fromBase32(value: string): Uint8Array {
+  const output: number[] = []
+  let buffer = 0
+  let bits = 0
+  for (const char of value) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index < 0) throw new Error(`Invalid base32 character "${char}"`)
+    buffer = (buffer << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      output.push((buffer >> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+    buffer &= (1 << bits) - 1
+  }
+  return new Uint8Array(output)
+}
+
+function fromBase58(value: string): Uint8Array {
+  const bytes: number[] = []
+  for (const char of value) {
+    let carry = BASE58_ALPHABET.indexOf(char)
+    if (carry < 0) throw new Error(`Invalid base58 character "${char}"`)
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58
+      bytes[i] = carry & 0xff
+      carry >>= 8
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff)
+      carry >>= 8
+    }
+  }
+  // Leading '1's encode leading zero bytes
+  for (let i = 0; i < value.length && value[i] === '1'; i++) bytes.push(0)
+  return new Uint8Array(bytes.reverse())
+}
+
+// Unsigned LEB128, as used by multiformats, protobuf and CAR framing
+function readVarint(bytes: Uint8Array, offset: number): [number, number] {
+  let value = 0
+  let factor = 1
+  for (let i = offset; i < bytes.length; i++) {
+    value += (bytes[i] & 0x7f) * factor
+    if ((bytes[i] & 0x80) === 0) return [value, i + 1]
+    factor *= 128
+    if (factor > Number.MAX_SAFE_INTEGER) break
+  }
+  throw new IPFSIntegrityError('Malformed varint')
+}
+
+/** Read a binary CID at `offset`, returning it and the offset after it. */
+export function decodeCidBytes(bytes: Uint8Array, offset = 0): [ParsedCid, number] {
+  // CIDv0 is a bare sha2-256 multihash
+  if (bytes[offset] === SHA2_256 && bytes[offset + 1] === 0x20) {
+    const end = offset + 34
+    if (end > bytes.length) throw new IPFSIntegrityError('Truncated CID')
+    return [{ version: 0, codec: DAG_PB_CODEC, hashCode: SHA2_256, digest: bytes.subarray(offset + 2, end) }, end]
+  }
+
+  const [version, afterVersion] = readVarint(bytes, offset)
+  if (version !== 1) throw new IPFSIntegrityError(`Unsupported CID version ${version}`)
+  const [codec, afterCodec] = readVarint(bytes, afterVersion)
+  const [hashCode, afterHashCode] = readVarint(bytes, afterCodec)
+  const [length, digestStart] = readVarint(bytes, afterHashCode)
+  const end = digestStart + length
+  if (end > bytes.length) throw new IPFSIntegrityError('Truncated CID')
+  return [{ version: 1, codec, hashCode, digest: bytes.subarray(digestStart, end) }, end]
+}
+
+/**
+ * Parse a CID string: CIDv0 (Qm...), or CIDv1 in base32 (b...) or base58btc (z...)
+ * @throws Error if the string is not a CID
+ */
+export function parseCid(value: string): ParsedCid {
+  if (/^Qm[1-9A-HJ-NP-Za-km-z]{44}$/.test(value)) {
+    return decodeCidBytes(fromBase58(value))[0]
+  }
+  if (/^b[a-z2-7]{50,}$/.test(value)) {
+    return decodeCidBytes(fromBase32(value.slice(1)))[0]
+  }
+  if (/^z[1-9A-HJ-NP-Za-km-z]{40,}$/.test(value)) {
+    return decodeCidBytes(fromBase58(value.slice(1)))[0]
+  }
+  throw new Error(`Invalid CID "${value}"`)
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false
+  }
+  return true
+}
+
+// Blocks are looked up by multihash, so CIDv0 and CIDv1 links to a block match
+function blockKey(cid: ParsedCid): string {
+  return `${cid.hashCode}:${Array.from(cid.digest, (byte) => byte.toString(16).padStart(2, '0')).join('')}`
+}
+
+/** Whether the bytes of a block can be checked against this CID's multihash. */
+export function canVerifyHash(cid: ParsedCid): boolean {
+  return cid.hashCode === SHA2_256 || cid.hashCode === IDENTITY
+}
+
+/**
+ * Check a block's bytes against its CID's multihash
+ * @throws IPFSIntegrityError on a mismatch or an unsupported hash function
+ */
+export async function verifyBlock(cid: ParsedCid, bytes: Uint8Array<ArrayBuffer>): Promise<void> {
+  if (cid.hashCode === IDENTITY) {
+    if (!sameBytes(cid.digest, bytes)) throw new IPFSIntegrityError('Block does not match its identity CID')
+    return
+  }
+  if (cid.hashCode !== SHA2_256) {
+    throw new IPFSIntegrityError(`Unsupported multihash 0x${cid.hashCode.toString(16)}`)
+  }
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes))
+  if (!sameBytes(cid.digest, digest)) {
+    throw new IPFSIntegrityError('Content does not match its CID')
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  DAG-PB                                    */
+/* -------------------------------------------------------------------------- */
+
+interface PBLink {
+  cid: ParsedCid
+  name: string
+}
+
+interface PBNode {
+  data: Uint8Array | null
+  links: PBLink[]
+}
+
+// UnixFS Data.DataType
+const UNIXFS_RAW = 0
+const UNIXFS_DIRECTORY = 1
+const UNIXFS_FILE = 2
+const UNIXFS_HAMT_SHARD = 5
+
+interface UnixFSData {
+  type: number
+  data: Uint8Array | null
+}
+
+// Minimal protobuf reader: yields (field number, wire type, value) triples
+function* readProtobuf(bytes: Uint8Array): Generator<[number, number, number | Uint8Array]> {
+  let offset = 0
+  while (offset < bytes.length) {
+    const [tag, afterTag] = readVarint(bytes, offset)
+    const field = Math.floor(tag / 8)
+    const wireType = tag & 7
+    if (wireType === 0) {
+      const [value, next] = readVarint(bytes, afterTag)
+      offset = next
+      yield [field, wireType, value]
+    } else if (wireType === 2) {
+      const [length, start] = readVarint(bytes, afterTag)
+      offset = start + length
+      if (offset > bytes.length) throw new IPFSIntegrityError('Truncated protobuf field')
+      yield [field, wireType, bytes.subarray(start, offset)]
+    } else if (wireType === 1 || wireType === 5) {
+      offset = afterTag + (wireType === 1 ? 8 : 4)
+    } else {
+      throw new IPFSIntegrityError(`Unsupported protobuf wire type ${wireType}`)
+    }
+  }
+}
+
+function decodePBNode(bytes: Uint8Array): PBNode {
+  const node: PBNode = { data: null, links: [] }
+  for (const [field, wireType, value] of readProtobuf(bytes)) {
+    if (wireType !== 2 || typeof value === 'number') continue
+    if (field === 1) {
+      node.data = value
+    } else if (field === 2) {
+      let cid: ParsedCid | null = null
+      let name = ''
+      for (const [linkField, linkWire, linkValue] of readProtobuf(value)) {
+        if (linkWire !== 2 || typeof linkValue === 'number') continue
+        if (linkField === 1) cid = decodeCidBytes(linkValue)[0]
+        if (linkField === 2) name = new TextDecoder().decode(linkValue)
+      }
+      if (!cid) throw new IPFSIntegrityError('dag-pb link without a CID')
+      node.links.push({ cid, name })
+    }
+  }
+  return node
+}
+
+function decodeUnixFS(bytes: Uint8Array | null): UnixFSData {
+  const unixfs: UnixFSData = { type: UNIXFS_FILE, data: null }
+  if (!bytes) return unixfs
+  for (const [field, , value] of readProtobuf(bytes)) {
+    if (field === 1 && typeof value === 'number') unixfs.type = value
+    if (field === 2 && typeof value !== 'number') unixfs.data = value
+  }
+  return unixfs
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                    CAR                                     */
+/* -------------------------------------------------------------------------- */
+
+export interface VerifiedBlocks {
+  get(cid: ParsedCid): Uint8Array | undefined
+}
+
+/**
+ * Split a CARv1 file into its blocks, verifying each against its CID
+ * @throws IPFSIntegrityError if the file is malformed or a block doesn't match
+ */
+export async function readCar(bytes: Uint8Array<ArrayBuffer>): Promise<VerifiedBlocks> {
+  const [headerLength, headerStart] = readVarint(bytes, 0)
+  let offset = headerStart + headerLength
+  const blocks = new Map<string, Uint8Array>()
+
+  while (offset < bytes.length) {
+    const [length, sectionStart] = readVarint(bytes, offset)
+    const sectionEnd = sectionStart + length
+    if (sectionEnd > bytes.length) throw new IPFSIntegrityError('Truncated CAR block')
+    const [cid, dataStart] = decodeCidBytes(bytes, sectionStart)
+    const data = bytes.subarray(dataStart, sectionEnd)
+    await verifyBlock(cid, data)
+    blocks.set(blockKey(cid), data)
+    offset = sectionEnd
+  }
+
+  return { get: (cid) => blocks.get(blockKey(cid)) }
+}
+
+function requireBlock(blocks: VerifiedBlocks, cid: ParsedCid): Uint8Array {
+  const block = cid.hashCode === IDENTITY ? cid.digest : blocks.get(cid)
+  if (!block) throw new IPFSIntegrityError('CAR file is missing a block of the requested content')
+  return block
+}
+
+function collectFile(blocks: VerifiedBlocks, cid: ParsedCid, chunks: Uint8Array[]): void {
+  const block = requireBlock(blocks, cid)
+  if (cid.codec === RAW_CODEC) {
+    chunks.push(block)
+    return
+  }
+  if (cid.codec !== DAG_PB_CODEC) {
+    throw new IPFSIntegrityError(`Unsupported codec 0x${cid.codec.toString(16)}`)
+  }
+
+  const node = decodePBNode(block)
+  const unixfs = decodeUnixFS(node.data)
+  if (unixfs.type !== UNIXFS_FILE && unixfs.type !== UNIXFS_RAW) {
+    throw new IPFSIntegrityError('The requested content is not a file')
+  }
+  if (unixfs.data) chunks.push(unixfs.data)
+  for (const link of node.links) collectFile(blocks, link.cid, chunks)
+}
+
+/**
+ * Resolve `path` from `root` through verified blocks and reassemble the file
+ * @throws IPFSIntegrityError if a block is missing or the path can't be followed
+ */
+export function assembleFile(blocks: VerifiedBlocks, root: ParsedCid, path: string[] = []): Uint8Array<ArrayBuffer> {
+  let cid = root
+  for (const segment of path) {
+    if (cid.codec !== DAG_PB_CODEC) throw new IPFSIntegrityError(`"${segment}" is not inside a directory`)
+    const node = decodePBNode(requireBlock(blocks, cid))
+    const unixfs = decodeUnixFS(node.data)
+    if (unixfs.type === UNIXFS_HAMT_SHARD) {
+      throw new IPFSIntegrityError('Sharded directories are not supported')
+    }
+    if (unixfs.type !== UNIXFS_DIRECTORY) throw new IPFSIntegrityError(`"${segment}" is not inside a directory`)
+    const link = node.links.find((candidate) => candidate.name === segment)
+    if (!link) throw new IPFSIntegrityError(`"${segment}" not found in directory`)
+    cid = link.cid
+  }
+
+  const chunks: Uint8Array[] = []
+  collectFile(blocks, cid, chunks)
+  const file = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    file.set(chunk, offset)
+    offset += chunk.length
+  }
+  return file
+}
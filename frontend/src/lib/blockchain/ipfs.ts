@@ -1,29 +1,112 @@
 /**
  * IPFS Upload Utility
- * Handles photo uploads to IPFS using Pinata
+ * Handles photo uploads to IPFS through the /api/ipfs/upload route
+ *
+ * Photos go through a preprocessing stage first: the public copy is a bounded
+ * JPEG with private EXIF data removed, the original is only pinned on request.
  */
 
+import { decodeImage } from '@/lib/utils/photo-hash'
+import {
+  extractPhotoMetadata,
+  getJpegExifSegment,
+  readBlob,
+  redactJpegExif,
+  stripJpegMetadataSegments,
+  type PhotoMetadata,
+  type PrivateMetadata,
+} from '@/lib/utils/photo-metadata'
+import {
+  formatBytes,
+  UPLOAD_LIMITS,
+  type UploadErrorCode,
+  type UploadKind,
+} from '@/lib/storage/upload-rules'
+import { fetchIPFSContent, getConfiguredGateway, PUBLIC_IPFS_GATEWAYS } from './ipfs-fetch'
+
 export interface IPFSUploadResult {
   hash: string
   url: string
 }
 
+export type IPFSUploadErrorCode = UploadErrorCode | 'NETWORK'
+
+// Failures that can succeed later with the same file
+const RETRYABLE_UPLOAD_ERRORS: IPFSUploadErrorCode[] = ['NETWORK', 'UPLOAD_QUOTA_EXCEEDED', 'STORAGE_ERROR']
+
+/**
+ * An upload the API route refused or that never reached it, with a message
+ * that tells the user what to do about it
+ */
+export class IPFSUploadError extends Error {
+  readonly code: IPFSUploadErrorCode
+  readonly status?: number
+  // Seconds until the upload quota has room again
+  readonly retryAfter?: number
+
+  constructor(message: string, code: IPFSUploadErrorCode, options: { status?: number; retryAfter?: number } = {}) {
+    super(message)
+    this.name = 'IPFSUploadError'
+    this.code = code
+    this.status = options.status
+    this.retryAfter = options.retryAfter
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_UPLOAD_ERRORS.includes(this.code)
+  }
+}
+
+function uploadErrorFromResponse(response: Response, errorData: { error?: string; code?: UploadErrorCode }): IPFSUploadError {
+  const code = errorData.code ?? 'STORAGE_ERROR'
+  const serverMessage = errorData.error || response.statusText || 'Upload failed'
+  const status = response.status
+
+  if (code === 'UPLOAD_QUOTA_EXCEEDED') {
+    const retryAfter = Number(response.headers.get('Retry-After')) || undefined
+    const wait = retryAfter ? ` Please try again in ${Math.ceil(retryAfter / 60)} minute(s).` : ' Please try again later.'
+    return new IPFSUploadError(`${serverMessage}${wait}`, code, { status, retryAfter })
+  }
+  if (status === 401) {
+    return new IPFSUploadError(
+      'Your upload authorization was not accepted. Please reconnect your wallet and try again.',
+      code,
+      { status }
+    )
+  }
+  if (code === 'FILE_TOO_LARGE' || code === 'UNSUPPORTED_FILE_TYPE' || code === 'INVALID_JSON') {
+    return new IPFSUploadError(serverMessage, code, { status })
+  }
+  return new IPFSUploadError(`Failed to upload to IPFS: ${serverMessage}`, code, { status })
+}
+
 /**
- * Upload file to IPFS using Pinata
+ * Upload file to IPFS through the upload API route, authorized by the connected wallet
  * @param file File to upload
+ * @param kind What the file is, which decides the accepted types and size limit
  * @returns IPFS hash (CID) and URL
  */
-export async function uploadToIPFS(file: File): Promise<IPFSUploadResult> {
+export async function uploadToIPFS(file: File, kind: UploadKind = 'photo'): Promise<IPFSUploadResult> {
+  // Checked here too, so an oversized file fails before the wallet is asked to sign
+  const maxBytes = UPLOAD_LIMITS[kind].maxBytes
+  if (file.size > maxBytes) {
+    throw new IPFSUploadError(
+      `${file.name} is too large (${formatBytes(file.size)}). The limit is ${formatBytes(maxBytes)}.`,
+      'FILE_TOO_LARGE'
+    )
+  }
+
   try {
     // Use API route to avoid CORS issues
     const formData = new FormData()
     formData.append('file', file)
+    formData.append('kind', kind)
 
     // Add metadata
     const metadata = JSON.stringify({
       name: file.name,
       keyvalues: {
-        type: 'cleanup-photo',
+        type: `cleanup-${kind}`,
         timestamp: new Date().toISOString(),
       },
     })
@@ -36,16 +119,39 @@ export async function uploadToIPFS(file: File): Promise<IPFSUploadResult> {
     })
     formData.append('options', options)
 
+    // Loaded on demand: it pulls in the wallet configuration
+    const { getUploadToken, clearUploadToken, UploadAuthError } = await import('./upload-auth')
+    const authorize = async () => {
+      try {
+        return await getUploadToken()
+      } catch (error) {
+        if (error instanceof UploadAuthError) {
+          throw new IPFSUploadError(error.message, 'UPLOAD_AUTH_REQUIRED')
+        }
+        throw error
+      }
+    }
+
     // Upload via our API route (avoids CORS)
-    const response = await fetch('/api/ipfs/upload', {
-      method: 'POST',
-      body: formData,
-    })
+    const send = (token: string) =>
+      fetch('/api/ipfs/upload', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+        body: formData,
+      })
+
+    const auth = await authorize()
+    let response = await send(auth.token)
+    if (response.status === 401) {
+      // Expired or issued by a restarted server: sign once more
+      clearUploadToken(auth.address)
+      response = await send((await authorize()).token)
+    }
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}))
       console.error('IPFS upload error:', errorData)
-      throw new Error(`Failed to upload to IPFS: ${errorData.error || response.statusText || 'Network error'}`)
+      throw uploadErrorFromResponse(response, errorData)
     }
 
     const data = await response.json()
@@ -62,10 +168,13 @@ export async function uploadToIPFS(file: File): Promise<IPFSUploadResult> {
     }
   } catch (error) {
     console.error('IPFS upload error:', error)
+    if (error instanceof IPFSUploadError) {
+      throw error
+    }
     if (error instanceof Error) {
       // Provide more helpful error messages
       if (error.message.includes('Network') || error.message.includes('Failed to fetch')) {
-        throw new Error('Network error: Please check your internet connection and try again.')
+        throw new IPFSUploadError('Network error: Please check your internet connection and try again.', 'NETWORK')
       }
       throw error
     }
@@ -96,7 +205,7 @@ export async function uploadJSONToIPFS(data: any, name: string = 'data'): Promis
     const jsonFile = new File([jsonBlob], `${name}.json`, { type: 'application/json' })
 
     // Use the same upload function (which uses API route)
-    return await uploadToIPFS(jsonFile)
+    return await uploadToIPFS(jsonFile, 'report')
   } catch (error) {
     console.error('IPFS JSON upload error:', error)
     if (error instanceof Error) {
@@ -106,10 +215,227 @@ export async function uploadJSONToIPFS(data: any, name: string = 'data'): Promis
   }
 }
 
+// What is removed from the EXIF data of the public copy of a photo
+export type PhotoPrivacy = 'keep_all' | 'hide_location' | 'hide_location_and_device'
+
+export interface PhotoUploadSettings {
+  privacy: PhotoPrivacy
+  // Also pin the untouched original (full resolution, full EXIF)
+  keepOriginal: boolean
+}
+
+export const DEFAULT_PHOTO_UPLOAD_SETTINGS: PhotoUploadSettings = {
+  privacy: 'hide_location',
+  keepOriginal: false,
+}
+
+const PHOTO_UPLOAD_SETTINGS_KEY = 'photo_upload_settings'
+
+const HIDDEN_METADATA: Record<PhotoPrivacy, PrivateMetadata[]> = {
+  keep_all: [],
+  hide_location: ['location'],
+  hide_location_and_device: ['location', 'device'],
+}
+
+// Bounds for the public copy of a photo
+const WEB_MAX_DIMENSION = 2048
+const WEB_MIN_DIMENSION = 1024
+const WEB_MAX_BYTES = 1.5 * 1024 * 1024
+const WEB_JPEG_QUALITIES = [0.85, 0.75, 0.65]
+
+export interface PreparedPhoto {
+  // The copy to pin publicly: bounded size, JPEG, private EXIF removed
+  web: File
+  original: File
+  // Read from the original before anything was removed
+  metadata: PhotoMetadata
+  hidden: PrivateMetadata[]
+  // false when the original was small enough to keep its pixels as they are
+  converted: boolean
+}
+
+export interface PhotoUploadResult extends IPFSUploadResult {
+  file: { name: string; type: string; size: number }
+  original: IPFSUploadResult | null
+  metadata: PhotoMetadata
+  hidden: PrivateMetadata[]
+}
+
 /**
- * Get IPFS URL from hash with fallback gateways
+ * Photo upload settings chosen on this device
+ */
+export function loadPhotoUploadSettings(): PhotoUploadSettings {
+  if (typeof window === 'undefined') return DEFAULT_PHOTO_UPLOAD_SETTINGS
+  try {
+    const stored = JSON.parse(localStorage.getItem(PHOTO_UPLOAD_SETTINGS_KEY) || 'null')
+    return {
+      privacy: stored?.privacy in HIDDEN_METADATA ? stored.privacy : DEFAULT_PHOTO_UPLOAD_SETTINGS.privacy,
+      keepOriginal: stored?.keepOriginal === true,
+    }
+  } catch {
+    return DEFAULT_PHOTO_UPLOAD_SETTINGS
+  }
+}
+
+export function savePhotoUploadSettings(settings: PhotoUploadSettings): void {
+  if (typeof window === 'undefined') return
+  localStorage.setItem(PHOTO_UPLOAD_SETTINGS_KEY, JSON.stringify(settings))
+}
+
+const toJpegName = (name: string) => `${name.replace(/\.[^./]+$/, '') || 'photo'}.jpg`
+
+function canvasToBlob(canvas: HTMLCanvasElement, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode photo'))),
+      'image/jpeg',
+      quality
+    )
+  })
+}
+
+// Re-encode the photo as a JPEG within the web bounds, shrinking it until it fits
+async function encodeWebJpeg(image: ImageBitmap | HTMLImageElement, width: number, height: number): Promise<Blob> {
+  const canvas = document.createElement('canvas')
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Could not encode photo')
+
+  let maxDimension = WEB_MAX_DIMENSION
+  for (;;) {
+    const scale = Math.min(1, maxDimension / Math.max(width, height))
+    canvas.width = Math.round(width * scale)
+    canvas.height = Math.round(height * scale)
+    // JPEG has no transparency; PNG screenshots get a white background
+    context.fillStyle = '#ffffff'
+    context.fillRect(0, 0, canvas.width, canvas.height)
+    context.drawImage(image, 0, 0, canvas.width, canvas.height)
+
+    let blob: Blob | null = null
+    for (const quality of WEB_JPEG_QUALITIES) {
+      blob = await canvasToBlob(canvas, quality)
+      if (blob.size <= WEB_MAX_BYTES) return blob
+    }
+    if (maxDimension <= WEB_MIN_DIMENSION) return blob!
+    maxDimension = Math.max(WEB_MIN_DIMENSION, Math.round(maxDimension * 0.75))
+  }
+}
+
+// EXIF belongs right after SOI and the JFIF APP0 segment canvases write
+function insertJpegSegment(jpeg: Uint8Array, segment: Uint8Array): Uint8Array<ArrayBuffer> {
+  let offset = 2
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0) {
+    offset = 4 + ((jpeg[4] << 8) | jpeg[5])
+  }
+  const result = new Uint8Array(jpeg.byteLength + segment.byteLength)
+  result.set(jpeg.subarray(0, offset), 0)
+  result.set(segment, offset)
+  result.set(jpeg.subarray(offset), offset + segment.byteLength)
+  return result
+}
+
+// The JPEG with hidden EXIF tags blanked and other metadata segments removed;
+// the file itself when nothing is hidden
+function redactedCopy(file: File, bytes: Uint8Array<ArrayBuffer>, hidden: PrivateMetadata[]): File {
+  if (hidden.length === 0) return file
+  redactJpegExif(bytes, hidden)
+  return new File([stripJpegMetadataSegments(bytes)], file.name, { type: 'image/jpeg', lastModified: file.lastModified })
+}
+
+/**
+ * Produce the public copy of a photo: at most 2048px and 1.5 MB, HEIC/PNG
+ * converted to JPEG, and location/device EXIF removed per the privacy setting
+ * (with XMP and other metadata segments whenever anything is hidden).
+ * The metadata is read from the original first, for verification.
+ */
+export async function preparePhotoForUpload(file: File, privacy: PhotoPrivacy): Promise<PreparedPhoto> {
+  const hidden = HIDDEN_METADATA[privacy]
+  const metadata = await extractPhotoMetadata(file)
+  const bytes = new Uint8Array(await readBlob(file))
+
+  let image: ImageBitmap | HTMLImageElement | null = null
+  try {
+    if (typeof document !== 'undefined') image = await decodeImage(file)
+  } catch (error) {
+    console.warn('[IPFS] Could not decode photo for preprocessing:', error)
+  }
+
+  if (!image) {
+    if (metadata.format === 'jpeg') {
+      return { web: redactedCopy(file, bytes, hidden), original: file, metadata, hidden, converted: false }
+    }
+    if (hidden.length > 0) {
+      // HEIC outside Safari: can't be converted, and its EXIF can't be cleaned here
+      throw new Error(
+        `This ${metadata.format === 'unknown' ? '' : `${metadata.format.toUpperCase()} `}photo can't be converted in this browser. ` +
+          'Please save it as JPEG and add it again, or allow sharing photo location in the privacy setting.'
+      )
+    }
+    return { web: file, original: file, metadata, hidden, converted: false }
+  }
+
+  const width = image instanceof HTMLImageElement ? image.naturalWidth : image.width
+  const height = image instanceof HTMLImageElement ? image.naturalHeight : image.height
+
+  try {
+    if (metadata.format === 'jpeg' && Math.max(width, height) <= WEB_MAX_DIMENSION && file.size <= WEB_MAX_BYTES) {
+      // Already web-sized: only the metadata changes, the pixels stay untouched
+      return { web: redactedCopy(file, bytes, hidden), original: file, metadata, hidden, converted: false }
+    }
+
+    let encoded = new Uint8Array(await readBlob(await encodeWebJpeg(image, width, height)))
+    // Canvases drop all EXIF; keep what the privacy setting allows
+    if (redactJpegExif(bytes, hidden, true)) {
+      const exif = getJpegExifSegment(bytes)
+      if (exif) encoded = insertJpegSegment(encoded, exif)
+    }
+
+    const web = new File([encoded], toJpegName(file.name), { type: 'image/jpeg', lastModified: file.lastModified })
+    console.log(`[IPFS] Prepared ${file.name}: ${(file.size / 1024).toFixed(0)} KB → ${(web.size / 1024).toFixed(0)} KB`)
+    return { web, original: file, metadata, hidden, converted: true }
+  } finally {
+    if (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap) image.close()
+  }
+}
+
+/**
+ * Preprocess and upload a photo, plus its original when the settings ask for it
+ * @param file Photo as picked by the user
+ * @param settings Privacy and original-copy settings
+ * @param kind Upload kind for the size and type limits
+ * @returns IPFS hash of the public copy, the original's upload and the photo metadata
+ */
+export async function uploadPhotoToIPFS(
+  file: File,
+  settings: PhotoUploadSettings = loadPhotoUploadSettings(),
+  kind: Extract<UploadKind, 'photo' | 'receipt'> = 'photo'
+): Promise<PhotoUploadResult> {
+  const prepared = await preparePhotoForUpload(file, settings.privacy)
+  const web = await uploadToIPFS(prepared.web, kind)
+
+  let original: IPFSUploadResult | null = null
+  if (settings.keepOriginal) {
+    try {
+      original = prepared.web === file ? web : await uploadToIPFS(file, kind)
+    } catch (error) {
+      // The public copy is what the submission needs; an oversized original is skipped
+      if (!(error instanceof IPFSUploadError && error.code === 'FILE_TOO_LARGE')) throw error
+      console.warn('[IPFS] Original photo not published:', error.message)
+    }
+  }
+
+  return {
+    ...web,
+    file: { name: prepared.web.name, type: prepared.web.type, size: prepared.web.size },
+    original,
+    metadata: prepared.metadata,
+    hidden: prepared.hidden,
+  }
+}
+
+/**
+ * Get IPFS URL from hash on the configured gateway
  * @param hash IPFS hash
- * @returns Full IPFS URL (uses first gateway, fallbacks handled in image onError)
+ * @returns Full IPFS URL (to fetch the content itself, use fetchIPFSContent or the useIPFS hooks)
  */
 export function getIPFSUrl(hash: string): string {
   if (!hash) return ''
@@ -117,9 +443,7 @@ export function getIPFSUrl(hash: string): string {
   // Clean hash (remove any query params or fragments)
   const cleanHash = hash.split('?')[0].split('#')[0]
   
-  // Use configured gateway or default to ipfs.io (better CORS support)
-  const gateway = process.env.NEXT_PUBLIC_IPFS_GATEWAY || 'https://ipfs.io/ipfs/'
-  return `${gateway}${cleanHash}`
+  return `${getConfiguredGateway()}${cleanHash}`
 }
 
 /**
@@ -132,15 +456,25 @@ export function getIPFSFallbackUrls(hash: string): string[] {
   
   const cleanHash = hash.split('?')[0].split('#')[0]
   
-  // List of IPFS gateways that support CORS
-  const gateways = [
-    'https://ipfs.io/ipfs/',
-    'https://dweb.link/ipfs/',
-    'https://gateway.ipfs.io/ipfs/',
-    'https://cloudflare-ipfs.com/ipfs/',
-    'https://gateway.pinata.cloud/ipfs/',
-  ]
-  
-  return gateways.map(gateway => `${gateway}${cleanHash}`)
+  return PUBLIC_IPFS_GATEWAYS.map(gateway => `${gateway}${cleanHash}`)
+}
+
+/**
+ * Fetch a JSON document from IPFS, racing gateways and verifying it against its CID
+ * @param hash IPFS hash (an ipfs:// prefix and a path are accepted)
+ * @returns Parsed JSON
+ */
+export async function fetchIPFSJSON<T = unknown>(hash: string): Promise<T> {
+  const content = await fetchIPFSContent(hash, { accept: 'application/json' })
+  return JSON.parse(new TextDecoder().decode(content.bytes)) as T
 }
 
+/**
+ * Fetch a file from IPFS, racing gateways and verifying it against its CID
+ * @param hash IPFS hash (an ipfs:// prefix and a path are accepted)
+ * @returns File contents
+ */
+export async function fetchIPFSBlob(hash: string): Promise<Blob> {
+  const content = await fetchIPFSContent(hash)
+  return new Blob([content.bytes], { type: content.contentType })
+}
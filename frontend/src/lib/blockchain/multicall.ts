@@ -0,0 +1,89 @@
+import type { ContractFunctionParameters } from 'viem'
+import { multicall, readContract } from '@wagmi/core'
+import { config } from './wagmi'
+import type {
+  SUBMISSION_ABI,
+  DCU_REWARD_MANAGER_ABI,
+  IMPACT_PRODUCT_NFT_ABI,
+  DCU_TOKEN_ABI,
+  RECYCLABLES_REWARD_ABI,
+} from './abis'
+
+/**
+ * Batched contract reads
+ *
+ * Coalesces many view calls into Multicall3 requests so list screens load in a
+ * few RPC round-trips. Calls are chunked to keep each eth_call bounded, and one
+ * failing call (or one failing chunk) never fails the rest of the batch.
+ */
+
+// Max calls per Multicall3 request. Submission structs are large, so keep this moderate.
+const MAX_CALLS_PER_CHUNK = 50
+
+type AppAbi =
+  | typeof SUBMISSION_ABI
+  | typeof DCU_REWARD_MANAGER_ABI
+  | typeof IMPACT_PRODUCT_NFT_ABI
+  | typeof DCU_TOKEN_ABI
+  | typeof RECYCLABLES_REWARD_ABI
+
+// A view call on one of the app's contracts, checked against that contract's ABI
+export type BatchReadCall = ContractFunctionParameters<AppAbi, 'pure' | 'view'>
+
+export type BatchReadResult<T> =
+  | { status: 'success'; result: T }
+  | { status: 'failure'; error: Error }
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error))
+}
+
+/**
+ * Read a chunk one call at a time. Used when the multicall itself fails
+ * (e.g. chain without Multicall3, or RPC rejecting the aggregate call).
+ */
+async function readIndividually(calls: readonly BatchReadCall[]): Promise<BatchReadResult<unknown>[]> {
+  return Promise.all(
+    calls.map(async (call) => {
+      try {
+        const result = await readContract(config, call)
+        return { status: 'success', result } as const
+      } catch (error) {
+        return { status: 'failure', error: toError(error) } as const
+      }
+    })
+  )
+}
+
+/**
+ * Execute view calls through Multicall3 with automatic chunking.
+ * Results are returned in the same order as `calls`.
+ */
+export async function batchReadContracts<T = unknown>(
+  calls: readonly BatchReadCall[]
+): Promise<BatchReadResult<T>[]> {
+  const results: BatchReadResult<T>[] = []
+
+  for (let i = 0; i < calls.length; i += MAX_CALLS_PER_CHUNK) {
+    const chunk = calls.slice(i, i + MAX_CALLS_PER_CHUNK)
+
+    try {
+      const chunkResults = await multicall(config, {
+        contracts: chunk,
+        allowFailure: true,
+      })
+      for (const entry of chunkResults) {
+        results.push(
+          entry.status === 'success'
+            ? { status: 'success', result: entry.result as T }
+            : { status: 'failure', error: toError(entry.error) }
+        )
+      }
+    } catch (error) {
+      console.warn(`[multicall] Batch of ${chunk.length} call(s) failed, falling back to individual reads:`, error)
+      results.push(...((await readIndividually(chunk)) as BatchReadResult<T>[]))
+    }
+  }
+
+  return results
+}
@@ -0,0 +1,236 @@
+import type { Address } from 'viem'
+import { REQUIRED_CHAIN_ID } from './wagmi'
+import { fetchIPFSBlob } from './ipfs'
+import { computePhotoHash, hammingDistance, NEAR_DUPLICATE_DISTANCE } from '@/lib/utils/photo-hash'
+import { fetchSubmissionManifest, getManifestCid } from '@/lib/utils/submission-manifest'
+import type { PhotoRole } from '@/lib/utils/photo-metadata'
+
+/**
+ * Perceptual hash lookup for submitted photos
+ *
+ * Keeps the dHash of every before/after photo seen in the verifier queue in
+ * IndexedDB, so reused photos can be matched against all earlier submissions.
+ * Hashes are always computed from the pinned IPFS photos. The phash in the
+ * submission manifest is written by the submitter's app, so it is only kept to
+ * cross-check against the computed hash.
+ */
+
+const SUBMISSION_ADDRESS =
+  process.env.NEXT_PUBLIC_SUBMISSION_CONTRACT as Address | undefined
+
+const DB_VERSION = 1
+const HASHES_STORE = 'hashes'
+
+// How long to wait before fetching a photo that couldn't be hashed again
+const HASH_RETRY_MS = 60 * 60 * 1000
+
+/* -------------------------------------------------------------------------- */
+/*                                   TYPES                                    */
+/* -------------------------------------------------------------------------- */
+
+export interface PhotoHashEntry {
+  key: string // `${submissionId}:${role}`
+  submissionId: number
+  submitter: Address // lowercased
+  role: PhotoRole
+  cid: string
+  // null when the photo couldn't be fetched or decoded
+  hash: string | null
+  // When to try hashing a failed photo again (set only when hash is null)
+  retryAfter?: number
+  // phash the submission manifest claims for this photo, if any
+  manifestHash?: string | null
+}
+
+export interface HashableSubmission {
+  id: bigint
+  user: Address
+  dataURI?: string
+  beforePhotoHash: string
+  afterPhotoHash: string
+}
+
+// before_equals_after: the same photo was used for both; same_wallet / cross_wallet: reused from an earlier submission;
+// manifest_mismatch: the manifest's phash doesn't match the uploaded photo (match is the photo itself)
+export type PhotoDuplicateKind = 'before_equals_after' | 'same_wallet' | 'cross_wallet' | 'manifest_mismatch'
+
+export interface PhotoDuplicate {
+  kind: PhotoDuplicateKind
+  role: PhotoRole
+  match: Pick<PhotoHashEntry, 'submissionId' | 'submitter' | 'role' | 'cid'>
+  distance: number
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 INDEXEDDB                                  */
+/* -------------------------------------------------------------------------- */
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function getDbName(): string {
+  return `decleanup-photo-hashes-${REQUIRED_CHAIN_ID}-${(SUBMISSION_ADDRESS || '').toLowerCase()}`
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'))
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(getDbName(), DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(HASHES_STORE)) {
+          const store = db.createObjectStore(HASHES_STORE, { keyPath: 'key' })
+          store.createIndex('submissionId', 'submissionId')
+        }
+      }
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+
+  return dbPromise
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  HASHING                                   */
+/* -------------------------------------------------------------------------- */
+
+async function hashFromPhoto(cid: string): Promise<string | null> {
+  if (!cid) return null
+  try {
+    return await computePhotoHash(await fetchIPFSBlob(cid))
+  } catch (error) {
+    console.warn('[PhotoHashIndex] Could not fetch photo', cid, error)
+    return null
+  }
+}
+
+async function hashSubmission(submission: HashableSubmission): Promise<PhotoHashEntry[]> {
+  const submissionId = Number(submission.id)
+  const submitter = submission.user.toLowerCase() as Address
+
+  let manifestHashes: Partial<Record<PhotoRole, string | null>> = {}
+  const manifestCid = getManifestCid(submission.dataURI, submission.beforePhotoHash)
+  if (manifestCid) {
+    try {
+      const manifest = await fetchSubmissionManifest(manifestCid)
+      manifestHashes = { before: manifest.photos.before.phash, after: manifest.photos.after.phash }
+    } catch (error) {
+      console.warn('[PhotoHashIndex] Could not load manifest for submission', submissionId, error)
+    }
+  }
+
+  const photos: Array<[PhotoRole, string]> = [
+    ['before', submission.beforePhotoHash],
+    ['after', submission.afterPhotoHash],
+  ]
+  const entries: PhotoHashEntry[] = []
+  for (const [role, cid] of photos) {
+    const hash = await hashFromPhoto(cid)
+    const entry: PhotoHashEntry = { key: `${submissionId}:${role}`, submissionId, submitter, role, cid, hash }
+    if (hash === null) entry.retryAfter = Date.now() + HASH_RETRY_MS
+    if (manifestHashes[role]) entry.manifestHash = manifestHashes[role]
+    entries.push(entry)
+  }
+  return entries
+}
+
+// Entries stored before retryAfter existed have none and are retried right away
+const isRetryDue = (entry: PhotoHashEntry, now: number) => entry.hash === null && (entry.retryAfter ?? 0) <= now
+
+/**
+ * Hash any submissions not in the lookup yet, retry photos whose earlier fetch
+ * failed once their retry time has passed, and return every known entry.
+ * Photos are fetched one submission at a time to go easy on the gateways.
+ */
+export async function indexPhotoHashes(submissions: readonly HashableSubmission[]): Promise<PhotoHashEntry[]> {
+  const db = await openDb()
+  const stored = await requestToPromise<PhotoHashEntry[]>(
+    db.transaction(HASHES_STORE, 'readonly').objectStore(HASHES_STORE).getAll()
+  )
+  const now = Date.now()
+  const complete = new Set(stored.map((entry) => entry.submissionId))
+  stored.filter((entry) => isRetryDue(entry, now)).forEach((entry) => complete.delete(entry.submissionId))
+
+  const missing = submissions.filter((submission) => !complete.has(Number(submission.id)))
+  const hashedIds = new Set(missing.map((submission) => Number(submission.id)))
+  const known = stored.filter((entry) => !hashedIds.has(entry.submissionId))
+  for (const submission of missing) {
+    const entries = await hashSubmission(submission)
+    const store = db.transaction(HASHES_STORE, 'readwrite').objectStore(HASHES_STORE)
+    await Promise.all(entries.map((entry) => requestToPromise(store.put(entry))))
+    known.push(...entries)
+  }
+
+  if (missing.length > 0) {
+    console.log(`[PhotoHashIndex] Hashed photos of ${missing.length} submission(s)`)
+  }
+  return known
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  MATCHING                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Near-duplicate photos of a submission: its before and after photo matching
+ * each other, or either matching a photo of an earlier submission. Photos whose
+ * manifest phash doesn't match the uploaded file are flagged as well.
+ */
+export function findPhotoDuplicates(entries: readonly PhotoHashEntry[], submissionId: number): PhotoDuplicate[] {
+  const own = entries.filter((entry) => entry.submissionId === submissionId && entry.hash)
+  const earlier = entries.filter((entry) => entry.submissionId < submissionId && entry.hash)
+  const duplicates: PhotoDuplicate[] = []
+
+  for (const photo of own) {
+    if (!photo.manifestHash) continue
+    const distance = hammingDistance(photo.hash!, photo.manifestHash)
+    if (distance > NEAR_DUPLICATE_DISTANCE) {
+      duplicates.push({ kind: 'manifest_mismatch', role: photo.role, match: photo, distance })
+    }
+  }
+
+  const before = own.find((entry) => entry.role === 'before')
+  const after = own.find((entry) => entry.role === 'after')
+  if (before && after) {
+    const distance = hammingDistance(before.hash!, after.hash!)
+    if (distance <= NEAR_DUPLICATE_DISTANCE) {
+      duplicates.push({ kind: 'before_equals_after', role: 'after', match: before, distance })
+    }
+  }
+
+  for (const photo of own) {
+    for (const candidate of earlier) {
+      const distance = hammingDistance(photo.hash!, candidate.hash!)
+      if (distance > NEAR_DUPLICATE_DISTANCE) continue
+      duplicates.push({
+        kind: candidate.submitter === photo.submitter ? 'same_wallet' : 'cross_wallet',
+        role: photo.role,
+        match: candidate,
+        distance,
+      })
+    }
+  }
+
+  return duplicates
+    .map(({ match, ...duplicate }) => ({
+      ...duplicate,
+      match: { submissionId: match.submissionId, submitter: match.submitter, role: match.role, cid: match.cid },
+    }))
+    .sort((a, b) => a.distance - b.distance || b.match.submissionId - a.match.submissionId)
+}
@@ -0,0 +1,58 @@
+import type { Address } from 'viem'
+import type { ReviewClaim, ReviewClaimErrorCode } from '@/lib/review-claims/claim-rules'
+
+/**
+ * Review claims for the verifier dashboard
+ *
+ * A verifier claims a submission while reviewing it so other verifiers see it
+ * is taken. Requests use the HTTP-only verifier session cookie; the address
+ * header makes the server refuse a session of another wallet.
+ */
+
+export type { ReviewClaim } from '@/lib/review-claims/claim-rules'
+
+export class ReviewClaimRequestError extends Error {
+  constructor(
+    message: string,
+    readonly code: ReviewClaimErrorCode | 'VERIFIER_SESSION_REQUIRED' | string = 'CLAIMS_ERROR',
+    readonly claim?: ReviewClaim
+  ) {
+    super(message)
+    this.name = 'ReviewClaimRequestError'
+  }
+}
+
+async function request<T>(verifier: Address, init: RequestInit & { query?: string } = {}): Promise<T> {
+  const { query, ...options } = init
+  const response = await fetch(`/api/verifier/claims${query ? `?${query}` : ''}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', 'X-Verifier-Address': verifier },
+    cache: 'no-store',
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new ReviewClaimRequestError(data.error || 'Review claim request failed.', data.code, data.claim)
+  }
+  return data as T
+}
+
+/** Active claims keyed by submission ID. */
+export async function getReviewClaims(verifier: Address): Promise<Map<string, ReviewClaim>> {
+  const { claims } = await request<{ claims: ReviewClaim[] }>(verifier)
+  return new Map(claims.map((claim) => [claim.submissionId, claim]))
+}
+
+/**
+ * Claim, or renew the claim on, a submission
+ * @throws ReviewClaimRequestError with code SUBMISSION_CLAIMED and the holder's claim when taken
+ */
+export function claimReview(verifier: Address, submissionId: bigint): Promise<ReviewClaim> {
+  return request<ReviewClaim>(verifier, {
+    method: 'POST',
+    body: JSON.stringify({ submissionId: submissionId.toString() }),
+  })
+}
+
+export async function releaseReview(verifier: Address, submissionId: bigint): Promise<void> {
+  await request(verifier, { method: 'DELETE', query: `submissionId=${submissionId.toString()}` })
+}
@@ -0,0 +1,100 @@
+import type { Address } from 'viem'
+import { getAccount, signMessage } from '@wagmi/core'
+import { config } from './wagmi'
+import { buildUploadAuthMessage } from '@/lib/storage/upload-rules'
+
+/**
+ * Upload tokens for /api/ipfs/upload
+ *
+ * The connected wallet signs the upload authorization message once and the
+ * token it is exchanged for is reused until shortly before it expires. Tokens
+ * are kept in sessionStorage per wallet, so a reload doesn't ask for a new
+ * signature.
+ */
+
+// Refresh tokens this long before they expire, so an upload never starts with a dying token
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000
+
+interface StoredUploadToken {
+  token: string
+  expiresAt: number
+}
+
+export class UploadAuthError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UploadAuthError'
+  }
+}
+
+const tokenKey = (address: Address) => `ipfs_upload_token_${address.toLowerCase()}`
+
+// One signature request per wallet at a time; parallel uploads share it
+const pending = new Map<string, Promise<string>>()
+
+function loadToken(address: Address): StoredUploadToken | null {
+  if (typeof window === 'undefined') return null
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(tokenKey(address)) || 'null') as StoredUploadToken | null
+    return stored && stored.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now() ? stored : null
+  } catch {
+    return null
+  }
+}
+
+export function clearUploadToken(address: Address): void {
+  if (typeof window === 'undefined') return
+  sessionStorage.removeItem(tokenKey(address))
+}
+
+async function requestUploadToken(address: Address): Promise<string> {
+  const issuedAt = new Date().toISOString()
+  let signature: string
+  try {
+    signature = await signMessage(config, { account: address, message: buildUploadAuthMessage(address, issuedAt) })
+  } catch (error: any) {
+    console.warn('[UploadAuth] Signature request failed:', error)
+    throw new UploadAuthError(
+      error?.name === 'UserRejectedRequestError' || error?.code === 4001
+        ? 'Upload cancelled: please sign the upload request in your wallet to upload files.'
+        : 'Could not get a signature from your wallet to authorize the upload. Please try again.'
+    )
+  }
+
+  const response = await fetch('/api/ipfs/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ address, issuedAt, signature }),
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok || !data.token) {
+    throw new UploadAuthError(data.error || 'Could not authorize the upload. Please try again.')
+  }
+
+  if (typeof window !== 'undefined') {
+    sessionStorage.setItem(tokenKey(address), JSON.stringify({ token: data.token, expiresAt: data.expiresAt }))
+  }
+  return data.token
+}
+
+/**
+ * A valid upload token for the connected wallet, asking it for a signature
+ * when there is none yet
+ */
+export async function getUploadToken(): Promise<{ address: Address; token: string }> {
+  const { address } = getAccount(config)
+  if (!address) {
+    throw new UploadAuthError('Please connect your wallet to upload files.')
+  }
+
+  const stored = loadToken(address)
+  if (stored) return { address, token: stored.token }
+
+  const key = address.toLowerCase()
+  let request = pending.get(key)
+  if (!request) {
+    request = requestUploadToken(address).finally(() => pending.delete(key))
+    pending.set(key, request)
+  }
+  return { address, token: await request }
+}
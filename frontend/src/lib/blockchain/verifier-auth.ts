@@ -0,0 +1,92 @@
+import type { Address } from 'viem'
+import { getAccount, signMessage } from '@wagmi/core'
+import { config, REQUIRED_CHAIN_ID } from './wagmi'
+import { buildVerifierSiweMessage, type VerifierAuthErrorCode } from '@/lib/auth/siwe-rules'
+
+/**
+ * Verifier sign-in (Sign-In With Ethereum)
+ *
+ * The session lives in an HTTP-only cookie set by /api/verifier/session, so
+ * the browser never sees it: the dashboard asks the server whether the
+ * connected wallet has a session, and signs a fresh SIWE message when not.
+ */
+
+export interface VerifierSessionInfo {
+  address: Address
+  expiresAt: number
+}
+
+export class VerifierSignInError extends Error {
+  constructor(message: string, readonly code: VerifierAuthErrorCode | 'SIGNATURE_REJECTED' = 'AUTH_ERROR') {
+    super(message)
+    this.name = 'VerifierSignInError'
+  }
+}
+
+/** The session of the given wallet, or null when it has none (or lost VERIFIER_ROLE). */
+export async function getVerifierSession(address: Address): Promise<VerifierSessionInfo | null> {
+  const response = await fetch('/api/verifier/session', {
+    headers: { 'X-Verifier-Address': address },
+    cache: 'no-store',
+  })
+  if (response.status === 401 || response.status === 403) return null
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new VerifierSignInError(data.error || 'Could not check the verifier session.', data.code)
+  }
+  return data as VerifierSessionInfo
+}
+
+/**
+ * Sign in the connected wallet: fetch a nonce, have the wallet sign the SIWE
+ * message and exchange it for a session
+ * @throws VerifierSignInError, with code NOT_A_VERIFIER for wallets without VERIFIER_ROLE
+ */
+export async function signInAsVerifier(): Promise<VerifierSessionInfo> {
+  const { address } = getAccount(config)
+  if (!address) {
+    throw new VerifierSignInError('Please connect your wallet first')
+  }
+
+  const nonceResponse = await fetch('/api/verifier/nonce', { cache: 'no-store' })
+  const nonceData = await nonceResponse.json().catch(() => ({}))
+  if (!nonceResponse.ok || !nonceData.nonce) {
+    throw new VerifierSignInError(nonceData.error || 'Could not start the sign-in. Please try again.', nonceData.code)
+  }
+
+  const message = buildVerifierSiweMessage({
+    address,
+    chainId: REQUIRED_CHAIN_ID,
+    domain: window.location.host,
+    uri: window.location.origin,
+    nonce: nonceData.nonce,
+  })
+
+  let signature: string
+  try {
+    signature = await signMessage(config, { account: address, message })
+  } catch (error: any) {
+    console.warn('[VerifierAuth] Signature request failed:', error)
+    if (error?.name === 'UserRejectedRequestError' || error?.code === 4001) {
+      throw new VerifierSignInError('Signature request was cancelled or rejected. Please try again.', 'SIGNATURE_REJECTED')
+    }
+    throw new VerifierSignInError(error?.shortMessage || error?.message || 'Failed to sign message. Please try again.')
+  }
+
+  const response = await fetch('/api/verifier/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, signature }),
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new VerifierSignInError(data.error || 'Sign-in failed. Please try again.', data.code)
+  }
+  return data as VerifierSessionInfo
+}
+
+export async function signOutVerifier(): Promise<void> {
+  await fetch('/api/verifier/session', { method: 'DELETE' }).catch((error) => {
+    console.warn('[VerifierAuth] Sign-out failed:', error)
+  })
+}
@@ -0,0 +1,120 @@
+import { getAbiItem, type Address } from 'viem'
+import { getPublicClient } from '@wagmi/core'
+import { getLogs as viemGetLogs, getBlockNumber as viemGetBlockNumber } from 'viem/actions'
+import { config } from './wagmi'
+import { DCU_REWARD_MANAGER_ABI } from './abis'
+import { CleanupStatus } from './contracts'
+import { syncSubmissionIndex, queryIndexedSubmissions, planLogChunks, type IndexedSubmission } from './indexer'
+import {
+  buildVerifierStats,
+  type VerifierDecision,
+  type VerifierRewardAccrual,
+  type VerifierStatsOptions,
+  type VerifierStatsReport,
+} from '@/lib/utils/verifier-stats'
+
+/**
+ * Verifier stats data
+ *
+ * Decisions come from the submission index. DCU earned is read from the
+ * RewardAccrued events DCURewardManager emits for rewardVerifier; those logs
+ * are kept in memory and only the new blocks are read on the next refresh.
+ */
+
+const REWARD_MANAGER_ADDRESS =
+  process.env.NEXT_PUBLIC_REWARD_DISTRIBUTOR_CONTRACT as Address | undefined
+
+// DCURewardManager.RewardSource.Verifier
+const VERIFIER_REWARD_SOURCE = 4
+
+const REWARD_ACCRUED_EVENT = getAbiItem({ abi: DCU_REWARD_MANAGER_ABI, name: 'RewardAccrued' })
+
+let rewardCache: { toBlock: bigint; accruals: VerifierRewardAccrual[] } | null = null
+let rewardSync: Promise<VerifierRewardAccrual[]> | null = null
+
+/**
+ * Review decisions recorded in the submission index
+ * Pending and withdrawn submissions have no verifier decision.
+ */
+export function toVerifierDecisions(submissions: IndexedSubmission[]): VerifierDecision[] {
+  return submissions
+    .filter(
+      (submission) =>
+        (submission.status === CleanupStatus.Approved || submission.status === CleanupStatus.Rejected) &&
+        submission.approver
+    )
+    .map((submission) => ({
+      submissionId: submission.id,
+      verifier: submission.approver!.toLowerCase() as Address,
+      outcome: submission.status === CleanupStatus.Approved ? 'approved' : 'rejected',
+      submittedAt: submission.timestamp,
+      decidedAt: submission.processedTimestamp ?? submission.timestamp,
+      txHash: submission.decisionTransactionHash,
+    }))
+}
+
+/**
+ * DCU credited to verifiers through rewardVerifier
+ * Concurrent callers share the same read.
+ */
+export function getVerifierRewardAccruals(): Promise<VerifierRewardAccrual[]> {
+  if (!rewardSync) {
+    rewardSync = readRewardAccruals().finally(() => {
+      rewardSync = null
+    })
+  }
+  return rewardSync
+}
+
+async function readRewardAccruals(): Promise<VerifierRewardAccrual[]> {
+  const publicClient = getPublicClient(config)
+  if (!REWARD_MANAGER_ADDRESS || !publicClient) {
+    return []
+  }
+
+  const latestBlock = await viemGetBlockNumber(publicClient)
+  const accruals = [...(rewardCache?.accruals ?? [])]
+
+  // Verifier rewards are only paid on approvals, so reading from the Submission deployment is enough
+  for (const { fromBlock, toBlock } of planLogChunks(rewardCache?.toBlock ?? null, latestBlock)) {
+    const logs = await viemGetLogs(publicClient, {
+      address: REWARD_MANAGER_ADDRESS,
+      event: REWARD_ACCRUED_EVENT,
+      fromBlock,
+      toBlock,
+    })
+    for (const log of logs) {
+      if (log.args.rewardType !== VERIFIER_REWARD_SOURCE || !log.args.user) continue
+      accruals.push({
+        verifier: log.args.user.toLowerCase() as Address,
+        amount: log.args.amount ?? 0n,
+        timestamp: Number(log.args.timestamp ?? 0n),
+      })
+    }
+    // Only cache complete chunks, so a failed read resumes where it stopped
+    rewardCache = { toBlock, accruals: [...accruals] }
+  }
+
+  return accruals
+}
+
+/**
+ * Stats for every verifier, the overall figures and the current review backlog
+ * Reward reads are best-effort: without them DCU earned shows as 0.
+ */
+export async function loadVerifierStats(options: VerifierStatsOptions = {}): Promise<VerifierStatsReport> {
+  await syncSubmissionIndex()
+  const [submissions, rewards] = await Promise.all([
+    queryIndexedSubmissions(),
+    getVerifierRewardAccruals().catch((error) => {
+      console.warn('[verifier-stats] Could not read verifier rewards:', error)
+      return [] as VerifierRewardAccrual[]
+    }),
+  ])
+
+  const pendingSubmittedAt = submissions
+    .filter((submission) => submission.status === CleanupStatus.Pending)
+    .map((submission) => submission.timestamp)
+
+  return buildVerifierStats(toVerifierDecisions(submissions), rewards, pendingSubmittedAt, options)
+}
@@ -46,6 +46,13 @@ const celoSepoliaChain = defineChain({
       url: 'https://celo-sepolia.blockscout.com',
     },
   },
+  contracts: {
+    // Required for batched reads (see multicall.ts)
+    multicall3: {
+      address: '0xcA11bde05977b3631167028862bE2a173976CA11',
+      blockCreated: 1,
+    },
+  },
   testnet: true,
 })
 
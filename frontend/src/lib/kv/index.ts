@@ -0,0 +1,58 @@
+import { createRedisClient, type RedisClient } from './redis'
+
+/**
+ * Shared store for server state every instance has to see: upload quotas and
+ * review claims
+ *
+ * On serverless hosting (Vercel) each instance has its own memory and a
+ * read-only file system, so that state lives in Redis: Vercel KV
+ * (KV_REST_API_URL / KV_REST_API_TOKEN) or Upstash
+ * (UPSTASH_REDIS_REST_URL / UPSTASH_REDIS_REST_TOKEN). Without either, state
+ * stays in the process, which is only allowed outside production or with
+ * SHARED_STORE=memory on a single long-lived server.
+ */
+
+export { type RedisArg, type RedisClient } from './redis'
+
+export type SharedStoreName = 'redis' | 'memory'
+
+export function getRedisConfig(env: NodeJS.ProcessEnv = process.env): { url: string; token: string } | null {
+  const url = env.KV_REST_API_URL || env.UPSTASH_REDIS_REST_URL
+  const token = env.KV_REST_API_TOKEN || env.UPSTASH_REDIS_REST_TOKEN
+  return url && token ? { url, token } : null
+}
+
+/**
+ * Which store shared state uses
+ * @throws Error in production when no shared store is configured
+ */
+export function resolveSharedStoreName(env: NodeJS.ProcessEnv = process.env): SharedStoreName {
+  const configured = env.SHARED_STORE?.trim().toLowerCase()
+  if (configured === 'memory') return 'memory'
+  if (configured && configured !== 'redis') {
+    throw new Error(`Unknown SHARED_STORE "${configured}". Use redis or memory.`)
+  }
+
+  if (getRedisConfig(env)) return 'redis'
+  if (configured === 'redis') {
+    throw new Error('SHARED_STORE=redis needs KV_REST_API_URL and KV_REST_API_TOKEN. See ENV_TEMPLATE.md for details.')
+  }
+  if (env.NODE_ENV !== 'production') return 'memory'
+
+  throw new Error(
+    'No shared store configured. Please set KV_REST_API_URL and KV_REST_API_TOKEN (Vercel KV or Upstash), or SHARED_STORE=memory on a single server. See ENV_TEMPLATE.md for details.'
+  )
+}
+
+let redis: { url: string; client: RedisClient } | null = null
+
+/** Redis client for shared state, or null when state stays in process memory. */
+export function getSharedRedis(): RedisClient | null {
+  if (resolveSharedStoreName() === 'memory') return null
+
+  const config = getRedisConfig()!
+  if (!redis || redis.url !== config.url) {
+    redis = { url: config.url, client: createRedisClient(config.url, config.token) }
+  }
+  return redis.client
+}
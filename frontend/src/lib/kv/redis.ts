@@ -0,0 +1,48 @@
+/**
+ * Minimal Redis client over the Upstash REST API
+ *
+ * Vercel KV serves the same API, so either works. Each command is one HTTPS
+ * request; scripts (EVAL) keep read-modify-write steps atomic.
+ */
+
+const REDIS_TIMEOUT_MS = 5_000
+
+export type RedisArg = string | number
+
+export interface RedisClient {
+  /** Run one command, e.g. command('GET', key), and return its result. */
+  command<T = unknown>(...args: RedisArg[]): Promise<T>
+  /** Run a Lua script atomically with the given keys and arguments. */
+  evalScript<T = unknown>(script: string, keys: readonly string[], args: readonly RedisArg[]): Promise<T>
+}
+
+export function createRedisClient(url: string, token: string): RedisClient {
+  const baseUrl = url.replace(/\/+$/, '')
+
+  const command = async <T>(...args: RedisArg[]): Promise<T> => {
+    let response: Response
+    try {
+      response = await fetch(baseUrl, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(args.map(String)),
+        cache: 'no-store',
+        signal: AbortSignal.timeout(REDIS_TIMEOUT_MS),
+      })
+    } catch (error) {
+      console.error('Redis request failed:', error)
+      throw new Error('Could not reach the shared store.')
+    }
+
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok || data.error) {
+      throw new Error(`Shared store error: ${data.error || response.statusText}`)
+    }
+    return data.result as T
+  }
+
+  return {
+    command,
+    evalScript: (script, keys, args) => command('EVAL', script, keys.length, ...keys, ...args),
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Review claim rules shared by the claims API route and the verifier dashboard
+ *
+ * Kept free of server-only imports so the client can use the same lease
+ * length and error codes.
+ */
+
+export type ReviewClaimErrorCode =
+  | 'INVALID_SUBMISSION_ID'
+  | 'SUBMISSION_CLAIMED'
+  | 'CLAIM_NOT_HELD'
+  | 'TOO_MANY_CLAIMS'
+  | 'CLAIMS_UNAVAILABLE'
+  | 'CLAIMS_ERROR'
+
+// A lease lasts this long unless renewed; the dashboard renews it while the submission is open
+export const REVIEW_CLAIM_TTL_MS = 10 * 60 * 1000
+export const REVIEW_CLAIM_RENEW_MS = 4 * 60 * 1000
+// Claims one verifier may hold at once, so nobody can lock the whole queue
+export const MAX_CLAIMS_PER_VERIFIER = 10
+
+export interface ReviewClaim {
+  /** Submission (cleanup) ID as a decimal string */
+  submissionId: string
+  /** Lowercased wallet of the verifier holding the lease */
+  verifier: string
+  claimedAt: number
+  expiresAt: number
+}
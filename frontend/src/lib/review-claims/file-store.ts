@@ -0,0 +1,113 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import path from 'path'
+import { MAX_CLAIMS_PER_VERIFIER, REVIEW_CLAIM_TTL_MS, type ReviewClaim } from './claim-rules'
+import { claimNotHeldError, submissionClaimedError, tooManyClaimsError, type ReviewClaimsStore } from './types'
+
+/**
+ * Review claims kept in a JSON file (REVIEW_CLAIMS_FILE, by default
+ * .data/review-claims.json), for development and single-server setups
+ *
+ * Changes go through one queue per process, so concurrent requests can't
+ * overwrite each other's claims. Expired leases are dropped whenever the
+ * store is touched.
+ */
+
+interface ClaimsState {
+  file: string
+  claims: Map<string, ReviewClaim>
+  // Tail of the queue every read and change waits on
+  queue: Promise<unknown>
+}
+
+// On globalThis so every route bundle (and dev hot reloads) share one store
+const globalClaims = globalThis as typeof globalThis & { __decleanupReviewClaims?: ClaimsState }
+
+export function getClaimsFile(env: NodeJS.ProcessEnv = process.env): string {
+  return env.REVIEW_CLAIMS_FILE || path.join(process.cwd(), '.data', 'review-claims.json')
+}
+
+async function loadClaims(file: string): Promise<Map<string, ReviewClaim>> {
+  try {
+    const saved = JSON.parse(await readFile(file, 'utf8')) as ReviewClaim[]
+    return new Map(saved.map((claim) => [claim.submissionId, claim]))
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.warn(`[ReviewClaims] Could not read ${file}, starting empty:`, error)
+    }
+    return new Map()
+  }
+}
+
+async function saveClaims(state: ClaimsState): Promise<void> {
+  await mkdir(path.dirname(state.file), { recursive: true })
+  // Write then rename, so a crash never leaves a half-written file
+  const temp = `${state.file}.${process.pid}.tmp`
+  await writeFile(temp, JSON.stringify([...state.claims.values()], null, 2))
+  await rename(temp, state.file)
+}
+
+function getState(): ClaimsState {
+  const file = getClaimsFile()
+  if (!globalClaims.__decleanupReviewClaims || globalClaims.__decleanupReviewClaims.file !== file) {
+    const state: ClaimsState = { file, claims: new Map(), queue: Promise.resolve() }
+    state.queue = loadClaims(file).then((claims) => {
+      state.claims = claims
+    })
+    globalClaims.__decleanupReviewClaims = state
+  }
+  return globalClaims.__decleanupReviewClaims
+}
+
+/** Run `task` once every earlier read or change has finished; saves when it returns true as `changed`. */
+function withClaims<T>(task: (state: ClaimsState) => { result: T; changed: boolean }, now: number): Promise<T> {
+  const state = getState()
+  const run = state.queue.then(async () => {
+    let expired = false
+    for (const [id, claim] of state.claims) {
+      if (claim.expiresAt <= now) {
+        state.claims.delete(id)
+        expired = true
+      }
+    }
+    const { result, changed } = task(state)
+    if (changed || expired) await saveClaims(state)
+    return result
+  })
+  // Keep the queue going after a failed task
+  state.queue = run.catch(() => undefined)
+  return run
+}
+
+export function createFileClaimsStore(): ReviewClaimsStore {
+  return {
+    list: (now) => withClaims((state) => ({ result: [...state.claims.values()], changed: false }), now),
+
+    claim: (submissionId, verifier, now) =>
+      withClaims((state) => {
+        const current = state.claims.get(submissionId)
+        if (current && current.verifier !== verifier) throw submissionClaimedError(current)
+        if (!current) {
+          const held = [...state.claims.values()].filter((claim) => claim.verifier === verifier).length
+          if (held >= MAX_CLAIMS_PER_VERIFIER) throw tooManyClaimsError(held)
+        }
+
+        const claim: ReviewClaim = {
+          submissionId,
+          verifier,
+          claimedAt: current?.claimedAt ?? now,
+          expiresAt: now + REVIEW_CLAIM_TTL_MS,
+        }
+        state.claims.set(submissionId, claim)
+        return { result: claim, changed: true }
+      }, now),
+
+    release: (submissionId, verifier, now) =>
+      withClaims((state) => {
+        const current = state.claims.get(submissionId)
+        if (!current) return { result: undefined, changed: false }
+        if (current.verifier !== verifier) throw claimNotHeldError(current)
+        state.claims.delete(submissionId)
+        return { result: undefined, changed: true }
+      }, now),
+  }
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server'
+import type { ReviewClaimError } from './types'
+
+/** JSON error response for the claims API route: `{ error, code }`, plus the current `claim` on conflicts. */
+export function claimErrorResponse(error: ReviewClaimError): NextResponse {
+  return NextResponse.json(
+    { error: error.message, code: error.code, ...(error.claim ? { claim: error.claim } : {}) },
+    { status: error.status }
+  )
+}
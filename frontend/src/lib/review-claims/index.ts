@@ -0,0 +1,18 @@
+/**
+ * Review claims for the verifier API routes
+ *
+ * Verifiers lease a submission through /api/verifier/claims while they review
+ * it; leases expire after REVIEW_CLAIM_TTL_MS unless renewed.
+ */
+
+export { ReviewClaimError, type ReviewClaimsStore } from './types'
+export {
+  MAX_CLAIMS_PER_VERIFIER,
+  REVIEW_CLAIM_RENEW_MS,
+  REVIEW_CLAIM_TTL_MS,
+  type ReviewClaim,
+  type ReviewClaimErrorCode,
+} from './claim-rules'
+export { claimSubmission, listReviewClaims, releaseReviewClaim } from './store'
+export { getClaimsFile } from './file-store'
+export { claimErrorResponse } from './http'
@@ -0,0 +1,83 @@
+import type { RedisClient } from '@/lib/kv'
+import { MAX_CLAIMS_PER_VERIFIER, REVIEW_CLAIM_TTL_MS, type ReviewClaim } from './claim-rules'
+import { claimNotHeldError, submissionClaimedError, tooManyClaimsError, type ReviewClaimsStore } from './types'
+
+/**
+ * Review claims kept in the shared Redis store, so every server instance sees
+ * the same leases
+ *
+ * All claims live in one hash (submission ID -> claim JSON). Claiming and
+ * releasing run as Lua scripts, so the conflict and per-verifier checks and the
+ * write happen atomically.
+ */
+
+const CLAIMS_KEY = 'decleanup:review-claims'
+
+// KEYS: claims hash. ARGV: submission ID, verifier, now, TTL, max claims per verifier.
+// Drops expired leases. Returns {'ok', claim}, {'claimed', current claim} or {'limit', held}.
+const CLAIM_SCRIPT = `
+local now = tonumber(ARGV[3])
+local entries = redis.call('HGETALL', KEYS[1])
+local current
+local held = 0
+for i = 1, #entries, 2 do
+  local claim = cjson.decode(entries[i + 1])
+  if claim.expiresAt <= now then
+    redis.call('HDEL', KEYS[1], entries[i])
+  elseif entries[i] == ARGV[1] then
+    current = claim
+  elseif claim.verifier == ARGV[2] then
+    held = held + 1
+  end
+end
+if current and current.verifier ~= ARGV[2] then return {'claimed', cjson.encode(current)} end
+if not current and held >= tonumber(ARGV[5]) then return {'limit', tostring(held)} end
+local claim = cjson.encode({
+  submissionId = ARGV[1],
+  verifier = ARGV[2],
+  claimedAt = current and current.claimedAt or now,
+  expiresAt = now + tonumber(ARGV[4]),
+})
+redis.call('HSET', KEYS[1], ARGV[1], claim)
+return {'ok', claim}
+`
+
+// KEYS: claims hash. ARGV: submission ID, verifier, now.
+// Returns {'ok'}, or {'held', current claim} when another verifier holds the lease.
+const RELEASE_SCRIPT = `
+local raw = redis.call('HGET', KEYS[1], ARGV[1])
+if not raw then return {'ok'} end
+local claim = cjson.decode(raw)
+if claim.expiresAt > tonumber(ARGV[3]) and claim.verifier ~= ARGV[2] then return {'held', raw} end
+redis.call('HDEL', KEYS[1], ARGV[1])
+return {'ok'}
+`
+
+export function createRedisClaimsStore(redis: RedisClient): ReviewClaimsStore {
+  return {
+    async list(now) {
+      const entries = await redis.command<string[]>('HVALS', CLAIMS_KEY)
+      return entries.map((raw) => JSON.parse(raw) as ReviewClaim).filter((claim) => claim.expiresAt > now)
+    },
+
+    async claim(submissionId, verifier, now) {
+      const [outcome, value] = await redis.evalScript<[string, string]>(
+        CLAIM_SCRIPT,
+        [CLAIMS_KEY],
+        [submissionId, verifier, now, REVIEW_CLAIM_TTL_MS, MAX_CLAIMS_PER_VERIFIER]
+      )
+      if (outcome === 'claimed') throw submissionClaimedError(JSON.parse(value))
+      if (outcome === 'limit') throw tooManyClaimsError(Number(value))
+      return JSON.parse(value) as ReviewClaim
+    },
+
+    async release(submissionId, verifier, now) {
+      const [outcome, value] = await redis.evalScript<[string, string?]>(
+        RELEASE_SCRIPT,
+        [CLAIMS_KEY],
+        [submissionId, verifier, now]
+      )
+      if (outcome === 'held') throw claimNotHeldError(JSON.parse(value!))
+    },
+  }
+}
@@ -0,0 +1,75 @@
+import { getSharedRedis, type RedisClient } from '@/lib/kv'
+import type { ReviewClaim } from './claim-rules'
+import { createFileClaimsStore } from './file-store'
+import { createRedisClaimsStore } from './redis-store'
+import { ReviewClaimError, type ReviewClaimsStore } from './types'
+
+/**
+ * Review claims: time-limited leases verifiers take on a submission so two of
+ * them don't review the same cleanup
+ *
+ * Claims live in the shared store (see lib/kv) when one is configured, so every
+ * server instance sees the same leases. Without it they are kept in a JSON file,
+ * which is only allowed outside production or on a single long-lived server.
+ */
+
+let redisStore: { redis: RedisClient; store: ReviewClaimsStore } | null = null
+
+function getClaimsStore(): ReviewClaimsStore {
+  let redis: RedisClient | null
+  try {
+    redis = getSharedRedis()
+  } catch (error: any) {
+    throw new ReviewClaimError(error.message, 503, { code: 'CLAIMS_UNAVAILABLE' })
+  }
+  if (!redis) return createFileClaimsStore()
+
+  if (redisStore?.redis !== redis) redisStore = { redis, store: createRedisClaimsStore(redis) }
+  return redisStore.store
+}
+
+/** Run `task` against the claims store; store failures become a 503 ReviewClaimError. */
+async function withStore<T>(task: (store: ReviewClaimsStore) => Promise<T>): Promise<T> {
+  const store = getClaimsStore()
+  try {
+    return await task(store)
+  } catch (error) {
+    if (error instanceof ReviewClaimError) throw error
+    console.error('[ReviewClaims] Claims store failed:', error)
+    throw new ReviewClaimError('Review claims are unavailable right now. Please try again later.', 503, {
+      code: 'CLAIMS_UNAVAILABLE',
+    })
+  }
+}
+
+function normalizeSubmissionId(submissionId: unknown): string {
+  const id = typeof submissionId === 'number' ? String(submissionId) : submissionId
+  if (typeof id !== 'string' || !/^\d{1,78}$/.test(id)) {
+    throw new ReviewClaimError('Invalid submission ID.', 400, { code: 'INVALID_SUBMISSION_ID' })
+  }
+  return BigInt(id).toString()
+}
+
+/** Every active claim. */
+export function listReviewClaims(now = Date.now()): Promise<ReviewClaim[]> {
+  return withStore((store) => store.list(now))
+}
+
+/**
+ * Take, or renew, the review lease on a submission
+ * @throws ReviewClaimError: 409 SUBMISSION_CLAIMED while another verifier holds it,
+ * 429 TOO_MANY_CLAIMS past MAX_CLAIMS_PER_VERIFIER, 503 CLAIMS_UNAVAILABLE when the store is
+ */
+export async function claimSubmission(submissionId: unknown, verifier: string, now = Date.now()): Promise<ReviewClaim> {
+  const id = normalizeSubmissionId(submissionId)
+  return withStore((store) => store.claim(id, verifier.toLowerCase(), now))
+}
+
+/**
+ * Give up the lease on a submission; releasing one that is not claimed is a no-op
+ * @throws ReviewClaimError 403 CLAIM_NOT_HELD when another verifier holds it
+ */
+export async function releaseReviewClaim(submissionId: unknown, verifier: string, now = Date.now()): Promise<void> {
+  const id = normalizeSubmissionId(submissionId)
+  return withStore((store) => store.release(id, verifier.toLowerCase(), now))
+}
@@ -0,0 +1,58 @@
+import type { ReviewClaim, ReviewClaimErrorCode } from './claim-rules'
+
+/**
+ * A review claim failure with the HTTP status the API route should answer
+ * with, a code the client can act on and, for conflicts, the current claim
+ */
+export class ReviewClaimError extends Error {
+  readonly status: number
+  readonly code: ReviewClaimErrorCode
+  readonly claim?: ReviewClaim
+
+  constructor(
+    message: string,
+    status = 500,
+    options: { code?: ReviewClaimErrorCode; claim?: ReviewClaim } = {}
+  ) {
+    super(message)
+    this.name = 'ReviewClaimError'
+    this.status = status
+    this.code = options.code ?? 'CLAIMS_ERROR'
+    this.claim = options.claim
+  }
+}
+
+/**
+ * Backend the claims are kept in
+ * Submission IDs are normalized and verifiers lowercased before they get here.
+ */
+export interface ReviewClaimsStore {
+  /** Every active claim. */
+  list(now: number): Promise<ReviewClaim[]>
+  /** Take or renew the lease; throws the SUBMISSION_CLAIMED and TOO_MANY_CLAIMS errors below. */
+  claim(submissionId: string, verifier: string, now: number): Promise<ReviewClaim>
+  /** Drop the lease if `verifier` holds it; throws CLAIM_NOT_HELD when someone else does. */
+  release(submissionId: string, verifier: string, now: number): Promise<void>
+}
+
+export function submissionClaimedError(claim: ReviewClaim): ReviewClaimError {
+  return new ReviewClaimError(`Submission ${claim.submissionId} is being reviewed by ${claim.verifier}.`, 409, {
+    code: 'SUBMISSION_CLAIMED',
+    claim,
+  })
+}
+
+export function tooManyClaimsError(held: number): ReviewClaimError {
+  return new ReviewClaimError(
+    `You are already reviewing ${held} submissions. Release one before claiming another.`,
+    429,
+    { code: 'TOO_MANY_CLAIMS' }
+  )
+}
+
+export function claimNotHeldError(claim: ReviewClaim): ReviewClaimError {
+  return new ReviewClaimError(`Submission ${claim.submissionId} is claimed by another verifier.`, 403, {
+    code: 'CLAIM_NOT_HELD',
+    claim,
+  })
+}
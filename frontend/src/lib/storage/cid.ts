@@ -0,0 +1,50 @@
+import { createHash } from 'crypto'
+
+/**
+ * CIDs for the local store
+ *
+ * Files are addressed as CIDv1 with the raw codec and a sha2-256 multihash, the
+ * same CID `ipfs add --cid-version 1` gives files that fit in a single block.
+ * Larger files get a different CID than Kubo's chunked UnixFS DAG, but the CID
+ * still identifies and verifies their exact bytes.
+ */
+
+const CID_VERSION_1 = 0x01
+const RAW_CODEC = 0x55
+const SHA2_256 = 0x12
+const SHA2_256_LENGTH = 0x20
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567'
+
+// RFC 4648 base32, lowercase and unpadded, as multibase 'b'
+function toBase32(bytes: Uint8Array): string {
+  let output = ''
+  let buffer = 0
+  let bits = 0
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >> (bits - 5)) & 31]
+      bits -= 5
+    }
+    buffer &= (1 << bits) - 1
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31]
+  }
+  return output
+}
+
+export function computeRawCid(bytes: Uint8Array): string {
+  const digest = createHash('sha256').update(bytes).digest()
+  const cid = new Uint8Array(4 + digest.length)
+  cid.set([CID_VERSION_1, RAW_CODEC, SHA2_256, SHA2_256_LENGTH])
+  cid.set(digest, 4)
+  return `b${toBase32(cid)}`
+}
+
+/** Loose format check for CIDv0 (Qm...) and base32 CIDv1 (b...) strings. */
+export function isCid(value: string): boolean {
+  return /^Qm[1-9A-HJ-NP-Za-km-z]{44}$/.test(value) || /^b[a-z2-7]{50,}$/.test(value)
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server'
+import type { StorageError } from './types'
+
+/** JSON error response for the IPFS API routes: `{ error, code }`, plus Retry-After for quotas. */
+export function storageErrorResponse(error: StorageError): NextResponse {
+  return NextResponse.json(
+    { error: error.message, code: error.code },
+    {
+      status: error.status,
+      headers: error.retryAfter ? { 'Retry-After': String(error.retryAfter) } : undefined,
+    }
+  )
+}
@@ -0,0 +1,55 @@
+import { createKuboProvider } from './kubo'
+import { createLocalProvider } from './local'
+import { createPinataProvider, getPinataKeys } from './pinata'
+import { StorageError, type StorageProvider, type StorageProviderName } from './types'
+
+/**
+ * IPFS storage backend selection
+ *
+ * IPFS_STORAGE_PROVIDER picks the backend: pinata, kubo or local. Without it,
+ * Pinata is used when its keys are set, then a Kubo node when KUBO_API_URL is
+ * set, and the in-process local store outside production.
+ */
+
+export { StorageError, type StorageProvider, type StorageProviderName, type StorageUpload } from './types'
+export { computeRawCid, isCid } from './cid'
+export { issueUploadToken, verifyUploadToken, verifyUploadSignature } from './upload-tokens'
+export { consumeUploadQuota, consumeTokenQuota, getClientIp } from './upload-quotas'
+export { validateUpload, parseUploadKind, sniffContentType } from './upload-validation'
+export { storageErrorResponse } from './http'
+
+const PROVIDERS: Record<StorageProviderName, () => StorageProvider> = {
+  pinata: createPinataProvider,
+  kubo: createKuboProvider,
+  local: createLocalProvider,
+}
+
+export function resolveStorageProviderName(env: NodeJS.ProcessEnv = process.env): StorageProviderName {
+  const configured = env.IPFS_STORAGE_PROVIDER?.trim().toLowerCase()
+  if (configured) {
+    if (configured in PROVIDERS) return configured as StorageProviderName
+    throw new StorageError(
+      `Unknown IPFS_STORAGE_PROVIDER "${configured}". Use one of: ${Object.keys(PROVIDERS).join(', ')}.`
+    )
+  }
+
+  if (getPinataKeys(env)) return 'pinata'
+  if (env.KUBO_API_URL) return 'kubo'
+  if (env.NODE_ENV !== 'production') return 'local'
+
+  throw new StorageError(
+    'No IPFS storage configured. Please set PINATA_API_KEY and PINATA_SECRET_KEY, or KUBO_API_URL, or IPFS_STORAGE_PROVIDER. See ENV_TEMPLATE.md for details.'
+  )
+}
+
+const providers = new Map<StorageProviderName, StorageProvider>()
+
+export function getStorageProvider(): StorageProvider {
+  const name = resolveStorageProviderName()
+  let provider = providers.get(name)
+  if (!provider) {
+    provider = PROVIDERS[name]()
+    providers.set(name, provider)
+  }
+  return provider
+}
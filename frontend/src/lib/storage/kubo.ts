@@ -0,0 +1,67 @@
+import { StorageError, type StorageProvider } from './types'
+
+/**
+ * Self-hosted Kubo (go-ipfs) node, through its RPC API
+ *
+ * KUBO_API_URL points at the RPC API (default http://127.0.0.1:5001); set
+ * KUBO_API_AUTH to the Authorization header value when it sits behind auth.
+ * Reads are served from the node's local blockstore only, never the network.
+ */
+
+const DEFAULT_KUBO_API_URL = 'http://127.0.0.1:5001'
+const KUBO_TIMEOUT_MS = 30_000
+
+export function createKuboProvider(
+  apiUrl: string = process.env.KUBO_API_URL || DEFAULT_KUBO_API_URL,
+  auth: string | undefined = process.env.KUBO_API_AUTH
+): StorageProvider {
+  const baseUrl = apiUrl.replace(/\/+$/, '')
+
+  const rpc = async (command: string, params: Record<string, string>, body?: FormData): Promise<Response> => {
+    const url = `${baseUrl}/api/v0/${command}?${new URLSearchParams(params)}`
+    try {
+      return await fetch(url, {
+        method: 'POST',
+        headers: auth ? { Authorization: auth } : undefined,
+        body,
+        signal: AbortSignal.timeout(KUBO_TIMEOUT_MS),
+      })
+    } catch (error) {
+      console.error('Kubo request failed:', error)
+      throw new StorageError(`Network error: Could not connect to the IPFS node at ${baseUrl}.`, 502)
+    }
+  }
+
+  return {
+    name: 'kubo',
+
+    async upload({ file, name, cidVersion }) {
+      const formData = new FormData()
+      formData.append('file', file, name)
+
+      const response = await rpc('add', { 'cid-version': String(cidVersion), pin: 'true' }, formData)
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        console.error('Kubo upload error:', errorData)
+        throw new StorageError(errorData.Message || response.statusText || 'Failed to upload to IPFS', 502)
+      }
+
+      const data = await response.json()
+      if (!data.Hash) {
+        throw new StorageError('No IPFS hash returned from the IPFS node')
+      }
+      return data.Hash
+    },
+
+    async read(cid) {
+      const response = await rpc('cat', { arg: cid, offline: 'true' })
+      if (!response.ok) return null
+      return {
+        bytes: new Uint8Array(await response.arrayBuffer()),
+        contentType: 'application/octet-stream',
+      }
+    },
+
+    gatewayUrl: (cid) => `${process.env.NEXT_PUBLIC_IPFS_GATEWAY || '/api/ipfs/'}${cid}`,
+  }
+}
@@ -0,0 +1,74 @@
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import { computeRawCid } from './cid'
+import type { StorageProvider, StoredFile } from './types'
+
+/**
+ * In-process content-addressed store for development and CI
+ *
+ * Files are kept in memory and served by /api/ipfs/[cid]. Set LOCAL_IPFS_DIR to
+ * also write them to disk so they survive dev server restarts.
+ */
+
+interface LocalEntry extends StoredFile {
+  name: string
+  keyvalues: Record<string, string>
+}
+
+// On globalThis so every route bundle (and dev hot reloads) share one store
+const globalStore = globalThis as typeof globalThis & { __decleanupLocalIpfs?: Map<string, LocalEntry> }
+
+function getMemoryStore(): Map<string, LocalEntry> {
+  if (!globalStore.__decleanupLocalIpfs) {
+    globalStore.__decleanupLocalIpfs = new Map()
+  }
+  return globalStore.__decleanupLocalIpfs
+}
+
+async function readFromDisk(dir: string, cid: string): Promise<LocalEntry | null> {
+  try {
+    const [bytes, info] = await Promise.all([
+      readFile(path.join(dir, cid)),
+      readFile(path.join(dir, `${cid}.json`), 'utf8'),
+    ])
+    return { ...JSON.parse(info), bytes: new Uint8Array(bytes) }
+  } catch {
+    return null
+  }
+}
+
+export function createLocalProvider(dir: string | undefined = process.env.LOCAL_IPFS_DIR): StorageProvider {
+  const store = getMemoryStore()
+
+  return {
+    name: 'local',
+
+    // Always CIDv1 raw; a CIDv0 would need the UnixFS encoding
+    async upload({ file, name, keyvalues }) {
+      const bytes = new Uint8Array(await file.arrayBuffer())
+      const cid = computeRawCid(bytes)
+      const entry: LocalEntry = { bytes, contentType: file.type || 'application/octet-stream', name, keyvalues }
+      store.set(cid, entry)
+
+      if (dir) {
+        await mkdir(dir, { recursive: true })
+        await Promise.all([
+          writeFile(path.join(dir, cid), bytes),
+          writeFile(path.join(dir, `${cid}.json`), JSON.stringify({ contentType: entry.contentType, name, keyvalues })),
+        ])
+      }
+      return cid
+    },
+
+    async read(cid) {
+      let entry = store.get(cid) ?? null
+      if (!entry && dir) {
+        entry = await readFromDisk(dir, cid)
+        if (entry) store.set(cid, entry)
+      }
+      return entry ? { bytes: entry.bytes, contentType: entry.contentType } : null
+    },
+
+    gatewayUrl: (cid) => `/api/ipfs/${cid}`,
+  }
+}
@@ -0,0 +1,74 @@
+import { StorageError, type StorageProvider } from './types'
+
+/**
+ * Pinata pinning service
+ */
+
+const PINATA_PIN_FILE_URL = 'https://api.pinata.cloud/pinning/pinFileToIPFS'
+
+// Support multiple naming conventions for backwards compatibility
+export function getPinataKeys(env: NodeJS.ProcessEnv = process.env): { apiKey: string; secretKey: string } | null {
+  const apiKey = env.PINATA_API_KEY || env.NEXT_PUBLIC_PINATA_API_KEY
+  const secretKey =
+    env.PINATA_SECRET_KEY ||
+    env.PINATA_SECRET_API_KEY ||
+    env.NEXT_PUBLIC_PINATA_SECRET_KEY ||
+    env.NEXT_PUBLIC_PINATA_SECRET_API_KEY
+  return apiKey && secretKey ? { apiKey, secretKey } : null
+}
+
+export function createPinataProvider(): StorageProvider {
+  return {
+    name: 'pinata',
+
+    async upload({ file, name, keyvalues, cidVersion }) {
+      const keys = getPinataKeys()
+      if (!keys) {
+        throw new StorageError(
+          'Pinata API keys not configured. Please set PINATA_API_KEY and PINATA_SECRET_KEY in your .env.local file, or choose another IPFS_STORAGE_PROVIDER. See ENV_TEMPLATE.md for details.'
+        )
+      }
+
+      const formData = new FormData()
+      formData.append('file', file, name)
+      formData.append('pinataMetadata', JSON.stringify({ name, keyvalues }))
+      formData.append('pinataOptions', JSON.stringify({ cidVersion, wrapWithDirectory: false }))
+
+      let response: Response
+      try {
+        response = await fetch(PINATA_PIN_FILE_URL, {
+          method: 'POST',
+          headers: {
+            pinata_api_key: keys.apiKey,
+            pinata_secret_api_key: keys.secretKey,
+          },
+          body: formData,
+        })
+      } catch (error) {
+        console.error('Pinata request failed:', error)
+        throw new StorageError(
+          'Network error: Could not connect to Pinata. Please check your internet connection and try again.',
+          502
+        )
+      }
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        console.error('Pinata upload error:', errorData)
+        throw new StorageError(
+          errorData.error?.reason || response.statusText || 'Failed to upload to IPFS',
+          response.status || 500
+        )
+      }
+
+      const data = await response.json()
+      const cid = data.IpfsHash || data.hash || data.cid
+      if (!cid) {
+        throw new StorageError('No IPFS hash returned from Pinata')
+      }
+      return cid
+    },
+
+    gatewayUrl: (cid) => `${process.env.NEXT_PUBLIC_IPFS_GATEWAY || 'https://ipfs.io/ipfs/'}${cid}`,
+  }
+}
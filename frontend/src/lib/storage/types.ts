@@ -0,0 +1,53 @@
+import type { UploadErrorCode } from './upload-rules'
+
+/**
+ * Storage provider interface behind the IPFS API routes
+ */
+
+export type StorageProviderName = 'pinata' | 'kubo' | 'local'
+
+export interface StorageUpload {
+  file: Blob
+  name: string
+  // Pinata-style key/values; kept with the pin where the backend supports it
+  keyvalues: Record<string, string>
+  cidVersion: 0 | 1
+}
+
+export interface StoredFile {
+  bytes: Uint8Array
+  contentType: string
+}
+
+export interface StorageProvider {
+  name: StorageProviderName
+  /** Store the file and return its CID. */
+  upload(upload: StorageUpload): Promise<string>
+  /** Contents of a CID held by this backend, or null when it doesn't have it. Absent for pin-only services. */
+  read?(cid: string): Promise<StoredFile | null>
+  /** URL the stored file can be fetched from. */
+  gatewayUrl(cid: string): string
+}
+
+/**
+ * A storage or upload failure with the HTTP status the API routes should answer
+ * with, and a code the client can act on
+ */
+export class StorageError extends Error {
+  readonly status: number
+  readonly code: UploadErrorCode
+  // Seconds, for quota errors
+  readonly retryAfter?: number
+
+  constructor(
+    message: string,
+    status = 500,
+    options: { code?: UploadErrorCode; retryAfter?: number } = {}
+  ) {
+    super(message)
+    this.name = 'StorageError'
+    this.status = status
+    this.code = options.code ?? 'STORAGE_ERROR'
+    this.retryAfter = options.retryAfter
+  }
+}
@@ -0,0 +1,195 @@
+import { getSharedRedis, type RedisClient } from '@/lib/kv'
+import { StorageError } from './types'
+import { formatBytes } from './upload-rules'
+
+/**
+ * Upload quotas per wallet and per IP, over a sliding one-hour window
+ *
+ * Counters live in the shared store (see lib/kv), so every server instance
+ * enforces the same quota. Process memory is only used where the shared store
+ * allows it: in development, or on a single long-lived server.
+ */
+
+const WINDOW_MS = 60 * 60 * 1000
+
+const KEY_PREFIX = 'decleanup:upload-quota:'
+
+export const UPLOAD_QUOTAS = {
+  addressFiles: 60,
+  addressBytes: 200 * 1024 * 1024,
+  // Several volunteers may share one connection at a cleanup event
+  ipFiles: 200,
+  ipTokens: 30,
+}
+
+// One counter an upload is checked against; `bytes` is optional
+interface QuotaLimit {
+  key: string
+  files: number
+  bytes?: number
+}
+
+// The limit an upload would exceed, and when the oldest upload it counts was made
+interface QuotaDenial {
+  limit: number // index into the limits checked
+  reason: 'files' | 'bytes'
+  oldestAt: number
+}
+
+interface QuotaStore {
+  /** Count an upload against every limit, or count nothing and return the first limit it would exceed. */
+  consume(limits: readonly QuotaLimit[], bytes: number, now: number): Promise<QuotaDenial | null>
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   STORES                                   */
+/* -------------------------------------------------------------------------- */
+
+interface UsageEntry {
+  at: number
+  bytes: number
+}
+
+const globalUsage = globalThis as typeof globalThis & { __decleanupUploadUsage?: Map<string, UsageEntry[]> }
+
+const memoryStore: QuotaStore = {
+  async consume(limits, bytes, now) {
+    if (!globalUsage.__decleanupUploadUsage) {
+      globalUsage.__decleanupUploadUsage = new Map()
+    }
+    const usage = globalUsage.__decleanupUploadUsage
+
+    const counted = limits.map(({ key }) => {
+      const recent = (usage.get(key) ?? []).filter((entry) => entry.at > now - WINDOW_MS)
+      usage.set(key, recent)
+      return recent
+    })
+
+    for (const [index, limit] of limits.entries()) {
+      const entries = counted[index]
+      const oldestAt = entries[0]?.at ?? now
+      if (entries.length >= limit.files) return { limit: index, reason: 'files', oldestAt }
+      const used = entries.reduce((sum, entry) => sum + entry.bytes, 0)
+      if (limit.bytes !== undefined && used + bytes > limit.bytes) return { limit: index, reason: 'bytes', oldestAt }
+    }
+
+    counted.forEach((entries) => entries.push({ at: now, bytes }))
+    return null
+  },
+}
+
+// Each counter is a sorted set of "<bytes>:<nonce>" members scored by upload time.
+// KEYS: one set per limit. ARGV: now, window, bytes, member, then the file and byte
+// limit of each key (byte limit 0: none). Returns {0}, or {limit, reason, oldestAt}.
+const CONSUME_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local bytes = tonumber(ARGV[3])
+for i, key in ipairs(KEYS) do
+  redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+  local entries = redis.call('ZRANGE', key, 0, -1, 'WITHSCORES')
+  local oldest = tonumber(entries[2] or now)
+  if #entries / 2 >= tonumber(ARGV[3 + i * 2]) then return {i, 'files', oldest} end
+  local maxBytes = tonumber(ARGV[4 + i * 2])
+  if maxBytes > 0 then
+    local used = 0
+    for j = 1, #entries, 2 do used = used + tonumber(string.match(entries[j], '^%d+')) end
+    if used + bytes > maxBytes then return {i, 'bytes', oldest} end
+  end
+end
+for _, key in ipairs(KEYS) do
+  redis.call('ZADD', key, now, ARGV[4])
+  redis.call('PEXPIRE', key, window)
+end
+return {0}
+`
+
+function createRedisQuotaStore(redis: RedisClient): QuotaStore {
+  return {
+    async consume(limits, bytes, now) {
+      const member = `${bytes}:${now}:${crypto.randomUUID()}`
+      const result = await redis.evalScript<[number, ('files' | 'bytes')?, number?]>(
+        CONSUME_SCRIPT,
+        limits.map((limit) => `${KEY_PREFIX}${limit.key}`),
+        [now, WINDOW_MS, bytes, member, ...limits.flatMap((limit) => [limit.files, limit.bytes ?? 0])]
+      )
+      if (!result[0]) return null
+      return { limit: result[0] - 1, reason: result[1]!, oldestAt: Number(result[2]) }
+    },
+  }
+}
+
+function getQuotaStore(): QuotaStore {
+  let redis: RedisClient | null
+  try {
+    redis = getSharedRedis()
+  } catch (error: any) {
+    throw new StorageError(error.message, 503)
+  }
+  return redis ? createRedisQuotaStore(redis) : memoryStore
+}
+
+async function consume(
+  limits: readonly QuotaLimit[],
+  bytes: number,
+  now: number,
+  messages: (denial: QuotaDenial) => string
+): Promise<void> {
+  let denial: QuotaDenial | null
+  try {
+    denial = await getQuotaStore().consume(limits, bytes, now)
+  } catch (error) {
+    if (error instanceof StorageError) throw error
+    console.error('[UploadQuotas] Could not check the upload quota:', error)
+    throw new StorageError('Uploads are unavailable right now. Please try again later.', 503)
+  }
+  if (!denial) return
+
+  // Room frees up when the oldest counted upload leaves the window
+  const retryAfter = Math.max(1, Math.ceil((denial.oldestAt + WINDOW_MS - now) / 1000))
+  throw new StorageError(messages(denial), 429, { code: 'UPLOAD_QUOTA_EXCEEDED', retryAfter })
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   QUOTAS                                   */
+/* -------------------------------------------------------------------------- */
+
+/** Count an upload against the wallet's and the IP's quota, or throw a 429 StorageError. */
+export async function consumeUploadQuota(
+  { address, ip, bytes }: { address: string; ip: string | null; bytes: number },
+  now = Date.now()
+): Promise<void> {
+  const limits: QuotaLimit[] = [
+    { key: `address:${address.toLowerCase()}`, files: UPLOAD_QUOTAS.addressFiles, bytes: UPLOAD_QUOTAS.addressBytes },
+  ]
+  if (ip) limits.push({ key: `ip:${ip}`, files: UPLOAD_QUOTAS.ipFiles })
+
+  await consume(limits, bytes, now, (denial) => {
+    if (denial.limit > 0) return 'Too many uploads from this network. Please try again later.'
+    return denial.reason === 'files'
+      ? `Upload limit reached: ${UPLOAD_QUOTAS.addressFiles} files per hour per wallet.`
+      : `Upload limit reached: ${formatBytes(UPLOAD_QUOTAS.addressBytes)} per hour per wallet.`
+  })
+}
+
+/** Count an upload token request against the IP's quota, or throw a 429 StorageError. */
+export async function consumeTokenQuota(ip: string | null, now = Date.now()): Promise<void> {
+  if (!ip) return
+  await consume(
+    [{ key: `token:${ip}`, files: UPLOAD_QUOTAS.ipTokens }],
+    0,
+    now,
+    () => 'Too many upload authorizations from this network. Please try again later.'
+  )
+}
+
+/**
+ * Client IP as reported by the hosting platform
+ * The leftmost X-Forwarded-For entry is whatever the client sent, so only the
+ * platform's own values are used: the request IP and X-Real-IP on Vercel, else
+ * the entry the last proxy appended.
+ */
+export function getClientIp(request: { headers: Headers; ip?: string }): string | null {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+  return request.ip || request.headers.get('x-real-ip') || forwarded || null
+}
@@ -0,0 +1,60 @@
+/**
+ * Upload rules shared by the IPFS API routes and the browser client
+ *
+ * Uploads are authorized with a short-lived token, issued for a signature of
+ * buildUploadAuthMessage() by the uploading wallet. Every upload declares its
+ * kind, which decides the accepted file types and the size limit. This module
+ * has no server dependencies so the client can check files before sending them.
+ */
+
+export type UploadKind = 'photo' | 'receipt' | 'report'
+
+export type UploadErrorCode =
+  | 'UPLOAD_AUTH_REQUIRED'
+  | 'UPLOAD_TOKEN_EXPIRED'
+  | 'INVALID_SIGNATURE'
+  | 'NO_FILE'
+  | 'UNSUPPORTED_FILE_TYPE'
+  | 'FILE_TOO_LARGE'
+  | 'INVALID_JSON'
+  | 'UPLOAD_QUOTA_EXCEEDED'
+  | 'STORAGE_ERROR'
+
+// Sniffed content types
+export type UploadContentType =
+  | 'image/jpeg'
+  | 'image/png'
+  | 'image/webp'
+  | 'image/heic'
+  | 'application/pdf'
+  | 'application/json'
+
+const MB = 1024 * 1024
+
+export const UPLOAD_LIMITS: Record<UploadKind, { maxBytes: number; types: UploadContentType[] }> = {
+  photo: { maxBytes: 10 * MB, types: ['image/jpeg', 'image/png', 'image/webp', 'image/heic'] },
+  receipt: { maxBytes: 10 * MB, types: ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'] },
+  report: { maxBytes: 256 * 1024, types: ['application/json'] },
+}
+
+export const UPLOAD_KINDS = Object.keys(UPLOAD_LIMITS) as UploadKind[]
+
+// A signed message is only exchanged for a token shortly after signing
+export const UPLOAD_SIGNATURE_MAX_AGE_MS = 5 * 60 * 1000
+export const UPLOAD_TOKEN_TTL_MS = 30 * 60 * 1000
+
+export function buildUploadAuthMessage(address: string, issuedAt: string): string {
+  return [
+    'DeCleanup: authorize IPFS uploads',
+    '',
+    'Sign to upload cleanup photos and reports from this wallet for the next 30 minutes.',
+    'This does not send a transaction or cost gas.',
+    '',
+    `Address: ${address.toLowerCase()}`,
+    `Issued at: ${issuedAt}`,
+  ].join('\n')
+}
+
+export function formatBytes(bytes: number): string {
+  return bytes >= MB ? `${(bytes / MB).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`
+}
@@ -0,0 +1,102 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { createPublicClient, http, isAddress, verifyMessage, type Address, type Hex } from 'viem'
+import { StorageError } from './types'
+import { buildUploadAuthMessage, UPLOAD_SIGNATURE_MAX_AGE_MS, UPLOAD_TOKEN_TTL_MS } from './upload-rules'
+
+/**
+ * Wallet-signature upload tokens
+ *
+ * A wallet signs buildUploadAuthMessage() once; the token route checks the
+ * signature and returns an HMAC-signed token for that address, valid for 30
+ * minutes. Tokens are stateless, so they work across server instances as long
+ * as they share IPFS_UPLOAD_TOKEN_SECRET.
+ */
+
+interface UploadTokenPayload {
+  address: Address
+  expiresAt: number
+}
+
+const globalSecret = globalThis as typeof globalThis & { __decleanupUploadTokenSecret?: string }
+
+function getSecret(): string {
+  const configured = process.env.IPFS_UPLOAD_TOKEN_SECRET
+  if (configured) return configured
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new StorageError('Upload authentication is not configured. Please set IPFS_UPLOAD_TOKEN_SECRET.')
+  }
+  // Development: a per-process secret, tokens simply expire on restart
+  if (!globalSecret.__decleanupUploadTokenSecret) {
+    globalSecret.__decleanupUploadTokenSecret = randomBytes(32).toString('hex')
+  }
+  return globalSecret.__decleanupUploadTokenSecret
+}
+
+const sign = (payload: string) => createHmac('sha256', getSecret()).update(payload).digest('base64url')
+
+export function issueUploadToken(address: Address, now = Date.now()): { token: string; expiresAt: number } {
+  const payload: UploadTokenPayload = { address: address.toLowerCase() as Address, expiresAt: now + UPLOAD_TOKEN_TTL_MS }
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return { token: `${encoded}.${sign(encoded)}`, expiresAt: payload.expiresAt }
+}
+
+/** The address a token was issued to. Throws a 401 StorageError for missing, forged or expired tokens. */
+export function verifyUploadToken(token: string | null, now = Date.now()): Address {
+  if (!token) {
+    throw new StorageError('Uploads need a signature from your wallet.', 401, { code: 'UPLOAD_AUTH_REQUIRED' })
+  }
+
+  const [encoded, signature] = token.split('.')
+  const expected = encoded ? sign(encoded) : ''
+  if (
+    !signature ||
+    signature.length !== expected.length ||
+    !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  ) {
+    throw new StorageError('Invalid upload token.', 401, { code: 'UPLOAD_AUTH_REQUIRED' })
+  }
+
+  const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as UploadTokenPayload
+  if (payload.expiresAt <= now) {
+    throw new StorageError('Upload authorization expired.', 401, { code: 'UPLOAD_TOKEN_EXPIRED' })
+  }
+  return payload.address
+}
+
+/**
+ * Check a signed upload authorization message. EOA signatures are checked
+ * locally; smart wallet (ERC-1271/6492) signatures need UPLOAD_AUTH_RPC_URL or
+ * NEXT_PUBLIC_RPC_URL.
+ */
+export async function verifyUploadSignature(
+  { address, issuedAt, signature }: { address: string; issuedAt: string; signature: string },
+  now = Date.now()
+): Promise<Address> {
+  if (!isAddress(address) || typeof signature !== 'string' || !signature.startsWith('0x')) {
+    throw new StorageError('Invalid upload authorization request.', 400, { code: 'INVALID_SIGNATURE' })
+  }
+
+  const signedAt = Date.parse(issuedAt)
+  if (Number.isNaN(signedAt) || Math.abs(now - signedAt) > UPLOAD_SIGNATURE_MAX_AGE_MS) {
+    throw new StorageError('The upload authorization is too old. Please sign again.', 401, {
+      code: 'INVALID_SIGNATURE',
+    })
+  }
+
+  const message = buildUploadAuthMessage(address, issuedAt)
+  let valid = await verifyMessage({ address, message, signature: signature as Hex }).catch(() => false)
+
+  const rpcUrl = process.env.UPLOAD_AUTH_RPC_URL || process.env.NEXT_PUBLIC_RPC_URL
+  if (!valid && rpcUrl) {
+    const client = createPublicClient({ transport: http(rpcUrl) })
+    valid = await client.verifyMessage({ address, message, signature: signature as Hex }).catch(() => false)
+  }
+
+  if (!valid) {
+    throw new StorageError('The upload authorization signature does not match the wallet.', 401, {
+      code: 'INVALID_SIGNATURE',
+    })
+  }
+  return address.toLowerCase() as Address
+}
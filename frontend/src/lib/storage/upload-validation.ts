@@ -0,0 +1,72 @@
+import { StorageError } from './types'
+import { formatBytes, UPLOAD_LIMITS, type UploadContentType, type UploadKind } from './upload-rules'
+
+/**
+ * Server-side checks of uploaded files
+ *
+ * The declared file type is ignored: the content type is sniffed from the
+ * file's first bytes, checked against the upload kind and used for storage.
+ */
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length))
+
+export function sniffContentType(bytes: Uint8Array): UploadContentType | null {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg'
+  if (bytes.length >= 8 && ascii(bytes, 1, 3) === 'PNG' && bytes[0] === 0x89) return 'image/png'
+  if (bytes.length >= 12 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'image/webp'
+  if (bytes.length >= 12 && ascii(bytes, 4, 4) === 'ftyp' && /^(heic|heix|heim|heis|mif1|msf1|hevc)$/.test(ascii(bytes, 8, 4))) {
+    return 'image/heic'
+  }
+  if (bytes.length >= 5 && ascii(bytes, 0, 5) === '%PDF-') return 'application/pdf'
+
+  // JSON: skip a BOM and whitespace, then expect an object or array
+  let i = bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf ? 3 : 0
+  while (i < bytes.length && [0x20, 0x09, 0x0a, 0x0d].includes(bytes[i])) i++
+  if (bytes[i] === 0x7b || bytes[i] === 0x5b) return 'application/json'
+  return null
+}
+
+export function parseUploadKind(value: FormDataEntryValue | null): UploadKind {
+  if (value === null) return 'photo'
+  if (typeof value === 'string' && value in UPLOAD_LIMITS) return value as UploadKind
+  throw new StorageError(`Unknown upload kind "${String(value)}".`, 400, { code: 'UNSUPPORTED_FILE_TYPE' })
+}
+
+const KIND_LABELS: Record<UploadKind, string> = { photo: 'photos', receipt: 'receipts', report: 'reports' }
+
+/**
+ * Check an uploaded file against the limits of its kind and return it with its
+ * sniffed content type. Throws a 413/415/400 StorageError otherwise.
+ */
+export async function validateUpload(file: File, kind: UploadKind): Promise<File> {
+  const limits = UPLOAD_LIMITS[kind]
+  if (file.size > limits.maxBytes) {
+    throw new StorageError(
+      `File is too large (${formatBytes(file.size)}). The limit for ${KIND_LABELS[kind]} is ${formatBytes(limits.maxBytes)}.`,
+      413,
+      { code: 'FILE_TOO_LARGE' }
+    )
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  const contentType = sniffContentType(bytes)
+  if (!contentType || !limits.types.includes(contentType)) {
+    const accepted = limits.types.map((type) => type.split('/')[1].toUpperCase()).join(', ')
+    throw new StorageError(
+      `Unsupported file type${contentType ? ` (${contentType})` : ''}. Accepted for ${KIND_LABELS[kind]}: ${accepted}.`,
+      415,
+      { code: 'UNSUPPORTED_FILE_TYPE' }
+    )
+  }
+
+  if (contentType === 'application/json') {
+    try {
+      JSON.parse(new TextDecoder().decode(bytes))
+    } catch {
+      throw new StorageError('The report is not valid JSON.', 400, { code: 'INVALID_JSON' })
+    }
+  }
+
+  return new File([bytes], file.name, { type: contentType })
+}
@@ -25,6 +25,29 @@ export function clearPendingCleanupData(userAddress: Address): void {
   console.log('Cleared pending cleanup data for:', userAddress)
 }
 
+/**
+ * Remember a cleanup that was just submitted for a wallet, so the cleanup page
+ * can show its verification status and hold further submissions until it is verified
+ */
+export function recordPendingCleanup(
+  userAddress: Address,
+  cleanupId: bigint,
+  location: { lat: number; lng: number }
+): void {
+  if (typeof window === 'undefined') return
+
+  const addressLower = userAddress.toLowerCase()
+  localStorage.setItem(`pending_cleanup_id_${addressLower}`, cleanupId.toString())
+  localStorage.setItem(`pending_cleanup_location_${addressLower}`, JSON.stringify(location))
+
+  // The referrer is now stored onchain, so we don't need to keep it locally
+  localStorage.removeItem(`referrer_${addressLower}`)
+
+  // Also clear old global keys if they exist
+  localStorage.removeItem('pending_cleanup_id')
+  localStorage.removeItem('pending_cleanup_location')
+}
+
 /**
  * Clear all cleanup-related localStorage data (for debugging)
  */
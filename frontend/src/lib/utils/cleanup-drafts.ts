@@ -0,0 +1,276 @@
+/**
+ * Offline-first cleanup drafts
+ *
+ * Volunteers often work without signal, so the cleanup wizard saves its state
+ * (photo files, location, impact form, recyclables) to IndexedDB as it goes.
+ * Drafts survive reloads and offline periods; drafts marked as queued are
+ * uploaded and submitted by submitNextQueuedDraft() once the device is online
+ * and a wallet is connected.
+ */
+
+import type { Address } from 'viem'
+import type { ImpactFormData } from '@/types/cleanup'
+import { buildImpactReport, validateImpactReport } from './impact-report'
+import { recordPendingCleanup } from './cleanup-data'
+import {
+  startSubmissionPipeline,
+  runSubmissionPipeline,
+  loadSubmissionPipeline,
+  getSubmissionFingerprint,
+  type SubmissionFiles,
+} from './submission-pipeline'
+import { decodeContractError } from '@/lib/blockchain/errors'
+import { IPFSUploadError } from '@/lib/blockchain/ipfs'
+
+const DB_NAME = 'decleanup-drafts'
+const DB_VERSION = 1
+const DRAFTS_STORE = 'drafts'
+
+/* -------------------------------------------------------------------------- */
+/*                                   TYPES                                    */
+/* -------------------------------------------------------------------------- */
+
+// Wizard steps a draft can be resumed at
+export type DraftStep = 'photos' | 'enhanced' | 'recyclables'
+
+// editing: still in the wizard; queued: waiting for network + wallet;
+// submitting: the queue is running it; failed: needs the volunteer's attention
+export type DraftStatus = 'editing' | 'queued' | 'submitting' | 'failed'
+
+export interface CleanupDraft {
+  id: string
+  status: DraftStatus
+  step: DraftStep
+  beforePhoto: File | null
+  afterPhoto: File | null
+  beforePhotoAllowed: boolean
+  afterPhotoAllowed: boolean
+  location: { lat: number; lng: number } | null
+  hasImpactForm: boolean
+  enhancedData: ImpactFormData
+  hasRecyclables: boolean
+  recyclablesPhoto: File | null
+  recyclablesReceipt: File | null
+  // Wallet that queued the draft; unset when it was queued without a wallet
+  owner?: Address
+  lastError?: string
+  createdAt: number
+  updatedAt: number
+}
+
+export interface QueuedDraftResult {
+  draft: CleanupDraft
+  submissionId?: bigint
+  error?: string
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 INDEXEDDB                                  */
+/* -------------------------------------------------------------------------- */
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'))
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+          const store = db.createObjectStore(DRAFTS_STORE, { keyPath: 'id' })
+          store.createIndex('status', 'status')
+          store.createIndex('updatedAt', 'updatedAt')
+        }
+      }
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+
+  return dbPromise
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   STORE                                    */
+/* -------------------------------------------------------------------------- */
+
+export function createDraftId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID()
+  }
+  return `draft-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+export async function saveDraft(draft: CleanupDraft): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(DRAFTS_STORE, 'readwrite')
+  await requestToPromise(tx.objectStore(DRAFTS_STORE).put({ ...draft, updatedAt: Date.now() }))
+}
+
+export async function getDraft(id: string): Promise<CleanupDraft | null> {
+  const db = await openDb()
+  const tx = db.transaction(DRAFTS_STORE, 'readonly')
+  const draft = await requestToPromise<CleanupDraft | undefined>(tx.objectStore(DRAFTS_STORE).get(id))
+  return draft ?? null
+}
+
+/** All drafts on this device, most recently edited first. */
+export async function listDrafts(): Promise<CleanupDraft[]> {
+  const db = await openDb()
+  const tx = db.transaction(DRAFTS_STORE, 'readonly')
+  const drafts = await requestToPromise<CleanupDraft[]>(tx.objectStore(DRAFTS_STORE).getAll())
+  return drafts.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function deleteDraft(id: string): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(DRAFTS_STORE, 'readwrite')
+  await requestToPromise(tx.objectStore(DRAFTS_STORE).delete(id))
+}
+
+async function updateDraft(id: string, patch: Partial<CleanupDraft>): Promise<CleanupDraft | null> {
+  const draft = await getDraft(id)
+  if (!draft) return null
+  const updated = { ...draft, ...patch }
+  await saveDraft(updated)
+  return updated
+}
+
+/** A draft can be submitted once it has both photos and a location. */
+export function isDraftComplete(draft: CleanupDraft): boolean {
+  return !!draft.beforePhoto && !!draft.afterPhoto && !!draft.location
+}
+
+/** Mark a draft for automatic upload and submission. */
+export async function queueDraft(id: string, owner?: Address): Promise<CleanupDraft | null> {
+  return updateDraft(id, { status: 'queued', owner, lastError: undefined })
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   QUEUE                                    */
+/* -------------------------------------------------------------------------- */
+
+export function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false
+}
+
+let queueRun: Promise<QueuedDraftResult | null> | null = null
+
+/**
+ * Upload and submit the oldest queued draft for this wallet.
+ *
+ * Only one draft is submitted per call: a submitted cleanup puts the wallet on
+ * cooldown until it is verified, so the caller triggers the next one when
+ * submissions are allowed again. Returns null when nothing was attempted.
+ */
+export function submitNextQueuedDraft(address: Address): Promise<QueuedDraftResult | null> {
+  // Online events, wallet changes and re-renders can all trigger the queue at once
+  if (!queueRun) {
+    queueRun = processNextDraft(address).finally(() => {
+      queueRun = null
+    })
+  }
+  return queueRun
+}
+
+async function processNextDraft(address: Address): Promise<QueuedDraftResult | null> {
+  if (!isOnline()) return null
+
+  const queued = (await listDrafts())
+    // A draft left in 'submitting' was interrupted by a reload; the pipeline resumes it
+    .filter((draft) => (draft.status === 'queued' || draft.status === 'submitting') && isDraftComplete(draft))
+    .filter((draft) => !draft.owner || draft.owner.toLowerCase() === address.toLowerCase())
+    .sort((a, b) => a.createdAt - b.createdAt)
+
+  const draft = queued[0]
+  if (!draft) return null
+
+  const files: SubmissionFiles = {
+    beforePhoto: draft.beforePhoto!,
+    afterPhoto: draft.afterPhoto!,
+    recyclablesPhoto: draft.hasRecyclables ? draft.recyclablesPhoto : null,
+    recyclablesReceipt: draft.hasRecyclables ? draft.recyclablesReceipt : null,
+  }
+
+  // An unfinished submission of other photos has to be resumed (or discarded) first
+  const pipeline = loadSubmissionPipeline(address)
+  if (pipeline && pipeline.fingerprint !== getSubmissionFingerprint(files)) {
+    return null
+  }
+
+  await updateDraft(draft.id, { status: 'submitting', owner: address })
+
+  const referrer =
+    typeof window !== 'undefined' ? (localStorage.getItem(`referrer_${address.toLowerCase()}`) as Address | null) : null
+  const impactReport = draft.hasImpactForm
+    ? buildImpactReport(draft.enhancedData, {
+        beforePhotoAllowed: draft.beforePhotoAllowed,
+        afterPhotoAllowed: draft.afterPhotoAllowed,
+        userAddress: address,
+      })
+    : null
+
+  const validation = impactReport ? validateImpactReport(impactReport) : null
+  if (validation && !validation.valid) {
+    const lastError = `Impact report needs fixing: ${validation.errors.join('; ')}`
+    await updateDraft(draft.id, { status: 'failed', lastError })
+    return { draft, error: lastError }
+  }
+
+  try {
+    startSubmissionPipeline(
+      address,
+      {
+        location: draft.location!,
+        referrer,
+        impactReport,
+        hasRecyclables: draft.hasRecyclables && !!draft.recyclablesPhoto,
+      },
+      files
+    )
+    const { submissionId, location } = await runSubmissionPipeline(address, files)
+
+    recordPendingCleanup(address, submissionId, location)
+    await deleteDraft(draft.id)
+    console.log('[Drafts] Queued draft submitted:', draft.id, submissionId.toString())
+    return { draft, submissionId }
+  } catch (error) {
+    if (error instanceof IPFSUploadError) {
+      // Quota and connectivity problems clear up by themselves; rejected files need the volunteer
+      await updateDraft(draft.id, { status: error.retryable ? 'queued' : 'failed', lastError: error.message })
+      console.warn('[Drafts] Queued draft upload failed:', draft.id, error.code, error.message)
+      return { draft, error: error.message }
+    }
+    const decoded = decodeContractError(error)
+    // Once createSubmission may have been broadcast without its hash being saved, a retry
+    // could submit (and pay) twice: the volunteer has to check and resume it themselves
+    const state = loadSubmissionPipeline(address)
+    if (state?.sendStartedAt && !state.txHash) {
+      const lastError = `${decoded.message} The submission may already have been sent: check your wallet activity, then resume it from the cleanup page.`
+      await updateDraft(draft.id, { status: 'failed', lastError })
+      console.warn('[Drafts] Queued draft failed after its send started:', draft.id, decoded.code, decoded.message)
+      return { draft, error: lastError }
+    }
+    // Connectivity problems are retried on the next run; anything else needs the volunteer
+    const retry = decoded.code === 'NETWORK' || decoded.code === 'RPC_SYNC' || decoded.code === 'TX_TIMEOUT'
+    await updateDraft(draft.id, { status: retry ? 'queued' : 'failed', lastError: decoded.message })
+    console.warn('[Drafts] Queued draft failed:', draft.id, decoded.code, decoded.message)
+    return { draft, error: decoded.message }
+  }
+}
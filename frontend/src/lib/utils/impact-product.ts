@@ -86,7 +86,8 @@ export const LEVEL_PROGRESSION = [
 
 /**
  * Constant traits for Impact Products
- * These match the attributes in the metadata JSON files
+ * These match the attributes in the metadata JSON files and the ones
+ * ImpactProductNFT.tokenURI writes on-chain
  */
 export const CONSTANT_TRAITS = {
   type: 'Dynamic',
@@ -0,0 +1,497 @@
+/**
+ * Impact report schema
+ *
+ * The enhanced impact report is uploaded to IPFS as JSON and its CID stored with
+ * the submission. Reports are versioned so readers can migrate older shapes:
+ *
+ *   v1: unversioned form dump (numbers as strings, units only as entered)
+ *   v2: typed numbers plus canonical metrics (kg, m², minutes)
+ *
+ * buildImpactReport() always writes the current version and validateImpactReport()
+ * is checked before upload. parseImpactReport() accepts any known version and
+ * migrates it, so the verifier and profile views only deal with the latest shape.
+ */
+
+import { isAddress, type Address } from 'viem'
+import type { ImpactFormData, RightsAssignment } from '@/types/cleanup'
+import { fetchIPFSJSON } from '@/lib/blockchain/ipfs'
+
+export const IMPACT_REPORT_SCHEMA = 'decleanup/impact-report'
+export const IMPACT_REPORT_VERSION = 2
+
+const LBS_TO_KG = 0.45359237
+const SQFT_TO_SQM = 0.09290304
+
+// Upper bounds that catch typos (an extra zero or two) without blocking real cleanups
+const MAX_WEIGHT_KG = 100_000
+const MAX_AREA_SQM = 10_000_000
+const MAX_DURATION_MINUTES = 7 * 24 * 60
+const MAX_TEXT_LENGTH = 5_000
+
+const RIGHTS_ASSIGNMENTS: RightsAssignment[] = [
+  '',
+  'attribution',
+  'non-commercial',
+  'no-derivatives',
+  'share-alike',
+  'all-rights-reserved',
+]
+
+/* -------------------------------------------------------------------------- */
+/*                                   TYPES                                    */
+/* -------------------------------------------------------------------------- */
+
+// Canonical units, derived from the user-entered values
+export interface ImpactReportMetrics {
+  weightKg: number | null
+  areaSqm: number | null
+  durationMinutes: number | null
+}
+
+export interface ImpactReport {
+  schema: typeof IMPACT_REPORT_SCHEMA
+  version: typeof IMPACT_REPORT_VERSION
+  locationType: string
+  // As entered by the volunteer
+  area: number | null
+  areaUnit: 'sqm' | 'sqft'
+  weight: number | null
+  weightUnit: 'kg' | 'lbs'
+  bags: number | null
+  hours: number | null
+  minutes: number | null
+  metrics: ImpactReportMetrics
+  wasteTypes: string[]
+  contributors: Address[]
+  scopeOfWork: string
+  rightsAssignment: RightsAssignment
+  environmentalChallenges: string
+  preventionIdeas: string
+  additionalNotes: string
+  // Image usage permissions
+  beforePhotoAllowed: boolean
+  afterPhotoAllowed: boolean
+  timestamp: string
+  userAddress: Address | null
+}
+
+export interface ImpactReportValidation {
+  valid: boolean
+  errors: string[]
+}
+
+export interface ParsedImpactReport {
+  report: ImpactReport
+  // Version the document was stored as, when it had to be migrated
+  migratedFrom: number | null
+  // Schema violations found in the stored document; the report is still shown
+  issues: string[]
+}
+
+/**
+ * JSON Schema (draft-07) for the current report version, for tooling outside
+ * this app. validateImpactReport() enforces the same rules.
+ */
+export const IMPACT_REPORT_JSON_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'DeCleanup impact report',
+  type: 'object',
+  required: [
+    'schema',
+    'version',
+    'locationType',
+    'areaUnit',
+    'weightUnit',
+    'metrics',
+    'wasteTypes',
+    'contributors',
+    'beforePhotoAllowed',
+    'afterPhotoAllowed',
+    'timestamp',
+  ],
+  properties: {
+    schema: { const: IMPACT_REPORT_SCHEMA },
+    version: { const: IMPACT_REPORT_VERSION },
+    locationType: { type: 'string', minLength: 1 },
+    area: { type: ['number', 'null'], minimum: 0 },
+    areaUnit: { enum: ['sqm', 'sqft'] },
+    weight: { type: ['number', 'null'], minimum: 0 },
+    weightUnit: { enum: ['kg', 'lbs'] },
+    bags: { type: ['integer', 'null'], minimum: 0 },
+    hours: { type: ['number', 'null'], minimum: 0 },
+    minutes: { type: ['number', 'null'], minimum: 0, maximum: 59 },
+    metrics: {
+      type: 'object',
+      required: ['weightKg', 'areaSqm', 'durationMinutes'],
+      properties: {
+        weightKg: { type: ['number', 'null'], minimum: 0, maximum: MAX_WEIGHT_KG },
+        areaSqm: { type: ['number', 'null'], minimum: 0, maximum: MAX_AREA_SQM },
+        durationMinutes: { type: ['number', 'null'], minimum: 0, maximum: MAX_DURATION_MINUTES },
+      },
+    },
+    wasteTypes: { type: 'array', items: { type: 'string' } },
+    contributors: { type: 'array', items: { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$' } },
+    scopeOfWork: { type: 'string', maxLength: MAX_TEXT_LENGTH },
+    rightsAssignment: { enum: RIGHTS_ASSIGNMENTS },
+    environmentalChallenges: { type: 'string', maxLength: MAX_TEXT_LENGTH },
+    preventionIdeas: { type: 'string', maxLength: MAX_TEXT_LENGTH },
+    additionalNotes: { type: 'string', maxLength: MAX_TEXT_LENGTH },
+    beforePhotoAllowed: { type: 'boolean' },
+    afterPhotoAllowed: { type: 'boolean' },
+    timestamp: { type: 'string', format: 'date-time' },
+    userAddress: { type: ['string', 'null'], pattern: '^0x[0-9a-fA-F]{40}$' },
+  },
+} as const
+
+/* -------------------------------------------------------------------------- */
+/*                                   BUILD                                    */
+/* -------------------------------------------------------------------------- */
+
+export const EMPTY_IMPACT_FORM: ImpactFormData = {
+  locationType: '',
+  area: '',
+  areaUnit: 'sqm',
+  weight: '',
+  weightUnit: 'kg',
+  bags: '',
+  hours: '',
+  minutes: '',
+  wasteTypes: [],
+  contributors: [],
+  scopeOfWork: '',
+  rightsAssignment: '',
+  environmentalChallenges: '',
+  preventionIdeas: '',
+  additionalNotes: '',
+}
+
+// Form inputs are strings; empty or non-numeric input becomes null
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value !== 'string' || value.trim() === '') return null
+  const parsed = Number(value.trim())
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+export function computeImpactMetrics(report: {
+  area: number | null
+  areaUnit: 'sqm' | 'sqft'
+  weight: number | null
+  weightUnit: 'kg' | 'lbs'
+  hours: number | null
+  minutes: number | null
+}): ImpactReportMetrics {
+  return {
+    weightKg: report.weight === null ? null : round(report.weightUnit === 'lbs' ? report.weight * LBS_TO_KG : report.weight, 3),
+    areaSqm: report.area === null ? null : round(report.areaUnit === 'sqft' ? report.area * SQFT_TO_SQM : report.area, 2),
+    durationMinutes:
+      report.hours === null && report.minutes === null
+        ? null
+        : Math.round((report.hours ?? 0) * 60 + (report.minutes ?? 0)),
+  }
+}
+
+/**
+ * Build the JSON document uploaded to IPFS for an enhanced impact report.
+ * Returns null when the form was skipped.
+ */
+export function buildImpactReport(
+  form: ImpactFormData,
+  options: { beforePhotoAllowed: boolean; afterPhotoAllowed: boolean; userAddress: Address }
+): ImpactReport | null {
+  if (!form.locationType) return null
+
+  const measured = {
+    area: toNumber(form.area),
+    areaUnit: form.areaUnit,
+    weight: toNumber(form.weight),
+    weightUnit: form.weightUnit,
+    hours: toNumber(form.hours),
+    // The wizard treats an empty minutes field as 0
+    minutes: toNumber(form.minutes) ?? (toNumber(form.hours) !== null ? 0 : null),
+  }
+
+  return {
+    schema: IMPACT_REPORT_SCHEMA,
+    version: IMPACT_REPORT_VERSION,
+    locationType: form.locationType,
+    ...measured,
+    bags: toNumber(form.bags),
+    metrics: computeImpactMetrics(measured),
+    wasteTypes: form.wasteTypes,
+    contributors: form.contributors.filter((contributor) => contributor.trim() !== '') as Address[],
+    scopeOfWork: form.scopeOfWork,
+    rightsAssignment: form.rightsAssignment,
+    environmentalChallenges: form.environmentalChallenges,
+    preventionIdeas: form.preventionIdeas,
+    additionalNotes: form.additionalNotes,
+    beforePhotoAllowed: options.beforePhotoAllowed,
+    afterPhotoAllowed: options.afterPhotoAllowed,
+    timestamp: new Date().toISOString(),
+    userAddress: options.userAddress,
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 VALIDATION                                 */
+/* -------------------------------------------------------------------------- */
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/** Check a report against the current schema. Error messages are shown to the volunteer. */
+export function validateImpactReport(report: unknown): ImpactReportValidation {
+  const errors: string[] = []
+
+  if (!isRecord(report)) {
+    return { valid: false, errors: ['Impact report must be an object'] }
+  }
+
+  if (report.schema !== IMPACT_REPORT_SCHEMA) errors.push(`schema must be "${IMPACT_REPORT_SCHEMA}"`)
+  if (report.version !== IMPACT_REPORT_VERSION) errors.push(`version must be ${IMPACT_REPORT_VERSION}`)
+
+  if (typeof report.locationType !== 'string' || report.locationType.trim() === '') {
+    errors.push('Location type is required')
+  }
+  if (report.areaUnit !== 'sqm' && report.areaUnit !== 'sqft') errors.push('Area unit must be sqm or sqft')
+  if (report.weightUnit !== 'kg' && report.weightUnit !== 'lbs') errors.push('Weight unit must be kg or lbs')
+
+  const checkNumber = (field: string, label: string, options: { integer?: boolean; max?: number } = {}) => {
+    const value = report[field]
+    if (value === null || value === undefined) return
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      errors.push(`${label} must be a non-negative number`)
+    } else if (options.integer && !Number.isInteger(value)) {
+      errors.push(`${label} must be a whole number`)
+    } else if (options.max !== undefined && value > options.max) {
+      errors.push(`${label} must be at most ${options.max}`)
+    }
+  }
+  checkNumber('area', 'Area')
+  checkNumber('weight', 'Weight')
+  checkNumber('bags', 'Bags', { integer: true })
+  checkNumber('hours', 'Hours')
+  checkNumber('minutes', 'Minutes', { max: 59 })
+
+  if (!isRecord(report.metrics)) {
+    errors.push('metrics are required')
+  } else {
+    const metrics = report.metrics
+    const checkMetric = (field: keyof ImpactReportMetrics, label: string, max: number) => {
+      const value = metrics[field]
+      if (value === null) return
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        errors.push(`${label} must be a non-negative number`)
+      } else if (value > max) {
+        errors.push(`${label} is unrealistically large (max ${max.toLocaleString()})`)
+      }
+    }
+    checkMetric('weightKg', 'Weight (kg)', MAX_WEIGHT_KG)
+    checkMetric('areaSqm', 'Area (m²)', MAX_AREA_SQM)
+    checkMetric('durationMinutes', 'Duration (minutes)', MAX_DURATION_MINUTES)
+  }
+
+  if (!Array.isArray(report.wasteTypes) || report.wasteTypes.some((type) => typeof type !== 'string')) {
+    errors.push('Waste types must be a list of strings')
+  }
+  if (!Array.isArray(report.contributors)) {
+    errors.push('Contributors must be a list of addresses')
+  } else {
+    report.contributors.forEach((contributor) => {
+      if (typeof contributor !== 'string' || !isAddress(contributor)) {
+        errors.push(`Contributor ${String(contributor)} is not a valid wallet address`)
+      }
+    })
+  }
+
+  if (!RIGHTS_ASSIGNMENTS.includes(report.rightsAssignment as RightsAssignment)) {
+    errors.push('Rights assignment is not a known option')
+  }
+  for (const field of ['scopeOfWork', 'environmentalChallenges', 'preventionIdeas', 'additionalNotes']) {
+    const value = report[field]
+    if (typeof value !== 'string') {
+      errors.push(`${field} must be text`)
+    } else if (value.length > MAX_TEXT_LENGTH) {
+      errors.push(`${field} must be at most ${MAX_TEXT_LENGTH} characters`)
+    }
+  }
+
+  if (typeof report.beforePhotoAllowed !== 'boolean' || typeof report.afterPhotoAllowed !== 'boolean') {
+    errors.push('Photo permissions must be true or false')
+  }
+  if (typeof report.timestamp !== 'string' || Number.isNaN(Date.parse(report.timestamp))) {
+    errors.push('timestamp must be an ISO date')
+  }
+  if (report.userAddress !== null && (typeof report.userAddress !== 'string' || !isAddress(report.userAddress))) {
+    errors.push('userAddress must be a wallet address')
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  PARSING                                   */
+/* -------------------------------------------------------------------------- */
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value : '')
+
+const asStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+
+// v1 reports were the raw wizard form plus permissions, timestamp and userAddress
+function migrateV1(raw: Record<string, unknown>): Record<string, unknown> {
+  const measured = {
+    area: toNumber(raw.area),
+    areaUnit: raw.areaUnit === 'sqft' ? ('sqft' as const) : ('sqm' as const),
+    weight: toNumber(raw.weight),
+    weightUnit: raw.weightUnit === 'lbs' ? ('lbs' as const) : ('kg' as const),
+    hours: toNumber(raw.hours),
+    minutes: toNumber(raw.minutes),
+  }
+
+  return {
+    ...raw,
+    ...measured,
+    schema: IMPACT_REPORT_SCHEMA,
+    version: 2,
+    bags: toNumber(raw.bags),
+    metrics: computeImpactMetrics(measured),
+    wasteTypes: asStringArray(raw.wasteTypes),
+    contributors: asStringArray(raw.contributors).filter((contributor) => contributor.trim() !== ''),
+    // Early reports omitted optional fields entirely
+    scopeOfWork: asString(raw.scopeOfWork),
+    rightsAssignment: asString(raw.rightsAssignment),
+    environmentalChallenges: asString(raw.environmentalChallenges),
+    preventionIdeas: asString(raw.preventionIdeas),
+    additionalNotes: asString(raw.additionalNotes),
+    userAddress: typeof raw.userAddress === 'string' && raw.userAddress ? raw.userAddress : null,
+  }
+}
+
+// Each entry upgrades a document from its key version to the next one
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {
+  1: migrateV1,
+}
+
+// Fill in anything a (migrated) document is missing, without trusting its types
+function normalizeReport(raw: Record<string, unknown>): ImpactReport {
+  const measured = {
+    area: toNumber(raw.area),
+    areaUnit: raw.areaUnit === 'sqft' ? ('sqft' as const) : ('sqm' as const),
+    weight: toNumber(raw.weight),
+    weightUnit: raw.weightUnit === 'lbs' ? ('lbs' as const) : ('kg' as const),
+    hours: toNumber(raw.hours),
+    minutes: toNumber(raw.minutes),
+  }
+
+  return {
+    schema: IMPACT_REPORT_SCHEMA,
+    version: IMPACT_REPORT_VERSION,
+    locationType: asString(raw.locationType),
+    ...measured,
+    bags: toNumber(raw.bags),
+    // Always derived, so a tampered or stale metrics block can't disagree with the entered values
+    metrics: computeImpactMetrics(measured),
+    wasteTypes: asStringArray(raw.wasteTypes),
+    contributors: asStringArray(raw.contributors) as Address[],
+    scopeOfWork: asString(raw.scopeOfWork),
+    rightsAssignment: RIGHTS_ASSIGNMENTS.includes(raw.rightsAssignment as RightsAssignment)
+      ? (raw.rightsAssignment as RightsAssignment)
+      : '',
+    environmentalChallenges: asString(raw.environmentalChallenges),
+    preventionIdeas: asString(raw.preventionIdeas),
+    additionalNotes: asString(raw.additionalNotes),
+    beforePhotoAllowed: raw.beforePhotoAllowed === true,
+    afterPhotoAllowed: raw.afterPhotoAllowed === true,
+    timestamp: asString(raw.timestamp),
+    userAddress: typeof raw.userAddress === 'string' && isAddress(raw.userAddress) ? raw.userAddress : null,
+  }
+}
+
+/**
+ * Parse a report fetched from IPFS, migrating older versions to the current one.
+ * Throws only when the document isn't a report at all or is from a newer app version.
+ */
+export function parseImpactReport(raw: unknown): ParsedImpactReport {
+  if (!isRecord(raw)) {
+    throw new Error('Impact report is not a JSON object')
+  }
+
+  // Reports written before versioning have neither schema nor version
+  const storedVersion = typeof raw.version === 'number' ? raw.version : 1
+  if (storedVersion > IMPACT_REPORT_VERSION) {
+    throw new Error(`Impact report version ${storedVersion} is newer than this app supports. Please refresh the page.`)
+  }
+
+  let document = raw
+  for (let version = storedVersion; version < IMPACT_REPORT_VERSION; version++) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) {
+      throw new Error(`Impact report version ${version} is not supported`)
+    }
+    document = migrate(document)
+  }
+
+  const { errors } = validateImpactReport(document)
+  return {
+    report: normalizeReport(document),
+    migratedFrom: storedVersion === IMPACT_REPORT_VERSION ? null : storedVersion,
+    issues: errors,
+  }
+}
+
+/** Fetch a report by CID and parse it. */
+export async function fetchImpactReport(impactReportHash: string): Promise<ParsedImpactReport> {
+  return parseImpactReport(await fetchIPFSJSON(impactReportHash))
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  DISPLAY                                   */
+/* -------------------------------------------------------------------------- */
+
+/** "12 lbs (5.44 kg)" — the entered value, with the canonical one when it differs. */
+export function formatReportedWeight(report: ImpactReport): string | null {
+  if (report.weight === null) return null
+  const entered = `${report.weight} ${report.weightUnit}`
+  return report.weightUnit === 'kg' ? entered : `${entered} (${report.metrics.weightKg} kg)`
+}
+
+export function formatReportedArea(report: ImpactReport): string | null {
+  if (report.area === null) return null
+  return report.areaUnit === 'sqm' ? `${report.area} m²` : `${report.area} ft² (${report.metrics.areaSqm} m²)`
+}
+
+export function formatReportedDuration(report: ImpactReport): string | null {
+  const minutes = report.metrics.durationMinutes
+  if (minutes === null) return null
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  TOTALS                                    */
+/* -------------------------------------------------------------------------- */
+
+export interface ImpactTotals {
+  reports: number
+  weightKg: number
+  areaSqm: number
+  durationMinutes: number
+}
+
+/** Sum the canonical metrics of several reports; missing values count as zero. */
+export function summarizeImpactReports(reports: ImpactReport[]): ImpactTotals {
+  return reports.reduce<ImpactTotals>(
+    (totals, report) => ({
+      reports: totals.reports + 1,
+      weightKg: round(totals.weightKg + (report.metrics.weightKg ?? 0), 3),
+      areaSqm: round(totals.areaSqm + (report.metrics.areaSqm ?? 0), 2),
+      durationMinutes: totals.durationMinutes + (report.metrics.durationMinutes ?? 0),
+    }),
+    { reports: 0, weightKg: 0, areaSqm: 0, durationMinutes: 0 }
+  )
+}
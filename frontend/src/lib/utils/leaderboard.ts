@@ -1,5 +1,7 @@
 import { Address, formatEther } from 'viem'
-import { getDCUBalance, getCleanupCounter, getCleanupDetails } from '@/lib/blockchain/contracts'
+import { getDCUBalanceBatch, getCleanupDetailsBatch } from '@/lib/blockchain/contracts'
+import { syncSubmissionIndex, queryIndexedSubmissions } from '@/lib/blockchain/indexer'
+import { reverseGeocode } from './reverse-geocode'
 
 export interface LeaderboardUser {
   address: Address
@@ -9,32 +11,15 @@ export interface LeaderboardUser {
   rank: number
 }
 
-/**
- * Reverse geocode coordinates to country
- * Uses a simple API to get country from lat/lng
- */
-async function getCountryFromCoordinates(lat: number, lng: number): Promise<string | undefined> {
-  try {
-    // Using a free geocoding service
-    const response = await fetch(
-      `https://api.bigdatacloud.net/data/reverse-geocode-client?latitude=${lat}&longitude=${lng}&localityLanguage=en`
-    )
-    const data = await response.json()
-    return data.countryName || data.countryCode || undefined
-  } catch (error) {
-    console.warn('Failed to geocode coordinates:', error)
-    return undefined
-  }
-}
-
 /**
  * Get leaderboard data - top 10 users by total cDCU
  */
 export async function getLeaderboardData(): Promise<LeaderboardUser[]> {
   try {
-    // Get all cleanup submissions to find unique users
-    const cleanupCount = await getCleanupCounter()
-    if (cleanupCount === BigInt(0)) {
+    // Read all submissions from the event index instead of walking IDs
+    await syncSubmissionIndex()
+    const submissions = await queryIndexedSubmissions()
+    if (submissions.length === 0) {
       return []
     }
 
@@ -42,87 +27,71 @@ export async function getLeaderboardData(): Promise<LeaderboardUser[]> {
     const userMap = new Map<Address, {
       totalDCU: number
       cleanups: number
-      coordinates: Array<{ lat: number; lng: number }>
+      latestCleanupId: bigint
     }>()
 
-    // Fetch recent cleanups (last 100 to avoid too many calls)
-    const maxCheck = 100
-    const startId = cleanupCount > BigInt(maxCheck) ? cleanupCount - BigInt(maxCheck) : BigInt(1)
-    
-    for (let id = cleanupCount - BigInt(1); id >= startId && id >= BigInt(1); id--) {
-      try {
-        const details = await getCleanupDetails(id)
-        const user = details.user
-        
-        if (!userMap.has(user)) {
-          // Get user's total DCU balance
-          let totalDCU = 0
-          try {
-            const balance = await getDCUBalance(user)
-            
-            // Ensure balance is a bigint
-            let balanceBigInt: bigint
-            if (typeof balance === 'bigint') {
-              balanceBigInt = balance
-            } else if (typeof balance === 'number') {
-              // If it's already a number, it might be in wei format - convert to bigint first
-              balanceBigInt = BigInt(Math.floor(balance))
-            } else {
-              balanceBigInt = BigInt(balance)
-            }
-            
-            // Convert from wei (bigint) to ether (number) using formatEther
-            // formatEther returns a string like "0.02", parse it to number
-            const balanceString = formatEther(balanceBigInt)
-            totalDCU = parseFloat(balanceString)
-            
-            // Safety check - if the number is unreasonably large, it means formatEther didn't work
-            // In that case, manually divide by 1e18
-            if (isNaN(totalDCU) || totalDCU > 1000000) {
-              // Fallback: manual conversion from wei
-              totalDCU = Number(balanceBigInt) / 1e18
-              if (process.env.NODE_ENV === 'development') {
-                console.warn(`DCU balance conversion issue for ${user}: using fallback. Raw: ${balanceBigInt.toString()}, Converted: ${totalDCU}`)
-              }
-            }
-          } catch (error) {
-            console.warn(`Failed to get DCU balance for ${user}:`, error)
-            totalDCU = 0
-          }
+    // Submissions come back newest first, so the first one seen per user is their latest
+    for (const submission of submissions) {
+      const existing = userMap.get(submission.submitter)
+      if (existing) {
+        existing.cleanups++
+      } else {
+        userMap.set(submission.submitter, {
+          totalDCU: 0,
+          cleanups: 1,
+          latestCleanupId: BigInt(submission.id),
+        })
+      }
+    }
 
+    // Get every user's total DCU balance in a few multicall round-trips
+    const userAddresses = Array.from(userMap.keys())
+    const balances = await getDCUBalanceBatch(userAddresses)
 
-          userMap.set(user, {
-            totalDCU,
-            cleanups: 0,
-            coordinates: [],
-          })
+    userAddresses.forEach((user, index) => {
+      let totalDCU = 0
+      try {
+        const balance = balances[index]
+        
+        // Ensure balance is a bigint
+        let balanceBigInt: bigint
+        if (typeof balance === 'bigint') {
+          balanceBigInt = balance
+        } else if (typeof balance === 'number') {
+          // If it's already a number, it might be in wei format - convert to bigint first
+          balanceBigInt = BigInt(Math.floor(balance))
+        } else {
+          balanceBigInt = BigInt(balance)
         }
-
-        const userData = userMap.get(user)!
-        userData.cleanups++
         
-        // Store coordinates for geocoding
-        // Coordinates are stored as int256 scaled by 1e6
-        const lat = Number(details.latitude)
-        const lng = Number(details.longitude)
-        if (lat !== 0 && lng !== 0) {
-          userData.coordinates.push({
-            lat: lat / 1e6, // Convert from scaled int
-            lng: lng / 1e6,
-          })
+        // Convert from wei (bigint) to ether (number) using formatEther
+        // formatEther returns a string like "0.02", parse it to number
+        const balanceString = formatEther(balanceBigInt)
+        totalDCU = parseFloat(balanceString)
+        
+        // Safety check - if the number is unreasonably large, it means formatEther didn't work
+        // In that case, manually divide by 1e18
+        if (isNaN(totalDCU) || totalDCU > 1000000) {
+          // Fallback: manual conversion from wei
+          totalDCU = Number(balanceBigInt) / 1e18
+          if (process.env.NODE_ENV === 'development') {
+            console.warn(`DCU balance conversion issue for ${user}: using fallback. Raw: ${balanceBigInt.toString()}, Converted: ${totalDCU}`)
+          }
         }
       } catch (error) {
-        console.warn(`Failed to fetch cleanup ${id}:`, error)
-        // Continue with next cleanup
+        console.warn(`Failed to get DCU balance for ${user}:`, error)
+        totalDCU = 0
       }
-    }
+
+      userMap.get(user)!.totalDCU = totalDCU
+    })
 
     // Convert to array and sort by total DCU
     const users = Array.from(userMap.entries()).map(([address, data]) => ({
       address,
       totalDCU: data.totalDCU,
       cleanups: data.cleanups,
-      coordinates: data.coordinates,
+      latestCleanupId: data.latestCleanupId,
     }))
 
     // Sort by total DCU (descending)
@@ -131,14 +100,22 @@ export async function getLeaderboardData(): Promise<LeaderboardUser[]> {
     // Get top 10
     const topUsers = users.slice(0, 10)
 
+    // Coordinates are not part of the events - read the top users' latest cleanups in one batch
+    const latestDetails = await getCleanupDetailsBatch(topUsers.map((user) => user.latestCleanupId))
+
     // Geocode countries for top users (use most recent coordinates)
     const leaderboardUsers: LeaderboardUser[] = await Promise.all(
       topUsers.map(async (user, index) => {
         let country: string | undefined
-        if (user.coordinates.length > 0) {
-          // Use most recent coordinates
-          const latestCoords = user.coordinates[user.coordinates.length - 1]
-          country = await getCountryFromCoordinates(latestCoords.lat, latestCoords.lng)
+        const details = latestDetails[index]
+        if (details) {
+          // Coordinates are stored as int256 scaled by 1e6
+          const lat = Number(details.latitude)
+          const lng = Number(details.longitude)
+          if (lat !== 0 && lng !== 0) {
+            const place = await reverseGeocode(lat / 1e6, lng / 1e6)
+            country = place?.country || place?.countryCode
+          }
         }
 
         return {
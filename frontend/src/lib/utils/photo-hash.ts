@@ -0,0 +1,98 @@
+/**
+ * Perceptual photo hashes (dHash)
+ *
+ * A 64-bit difference hash: the photo is shrunk to 9x8 grayscale pixels and
+ * each bit records whether a pixel is brighter than its right neighbour. Re-encoded,
+ * resized or lightly edited copies of a photo keep (almost) the same hash, so a
+ * small Hamming distance between two hashes means the photos are near-duplicates.
+ */
+
+const HASH_WIDTH = 9
+const HASH_HEIGHT = 8
+
+// Bits (out of 64) two hashes may differ in and still count as the same photo
+export const NEAR_DUPLICATE_DISTANCE = 10
+
+/**
+ * dHash of RGBA pixels from a 9x8 image, as 16 hex characters.
+ */
+export function computeDHash(rgba: ArrayLike<number>): string {
+  if (rgba.length < HASH_WIDTH * HASH_HEIGHT * 4) {
+    throw new Error(`Expected ${HASH_WIDTH}x${HASH_HEIGHT} RGBA pixels`)
+  }
+
+  const gray = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4
+    return 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2]
+  }
+
+  let hash = ''
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let nibble = 0
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      nibble = (nibble << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0)
+      if (x % 4 === 3) {
+        hash += nibble.toString(16)
+        nibble = 0
+      }
+    }
+  }
+  return hash
+}
+
+/** Number of differing bits between two hashes of equal length. */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Number.POSITIVE_INFINITY
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16)
+    while (diff) {
+      distance += diff & 1
+      diff >>= 1
+    }
+  }
+  return distance
+}
+
+/** Decode a photo for drawing on a canvas, upright according to its EXIF orientation. */
+export async function decodeImage(blob: Blob): Promise<ImageBitmap | HTMLImageElement> {
+  if (typeof createImageBitmap === 'function') {
+    return createImageBitmap(blob, { imageOrientation: 'from-image' })
+  }
+
+  const url = URL.createObjectURL(blob)
+  try {
+    return await new Promise<HTMLImageElement>((resolve, reject) => {
+      const image = new Image()
+      image.onload = () => resolve(image)
+      image.onerror = () => reject(new Error('Could not decode image'))
+      image.src = url
+    })
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+/**
+ * Perceptual hash of a photo, or null when the browser can't decode it
+ * (e.g. HEIC outside Safari). Never throws.
+ */
+export async function computePhotoHash(blob: Blob): Promise<string | null> {
+  if (typeof document === 'undefined') return null
+
+  try {
+    const image = await decodeImage(blob)
+    const canvas = document.createElement('canvas')
+    canvas.width = HASH_WIDTH
+    canvas.height = HASH_HEIGHT
+    const context = canvas.getContext('2d')
+    if (!context) return null
+
+    context.drawImage(image, 0, 0, HASH_WIDTH, HASH_HEIGHT)
+    if (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap) image.close()
+    return computeDHash(context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT).data)
+  } catch (error) {
+    console.warn('[PhotoHash] Could not hash photo:', error)
+    return null
+  }
+}
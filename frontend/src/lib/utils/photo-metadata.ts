@@ -0,0 +1,519 @@
+/**
+ * Photo metadata (EXIF) extraction and consistency checks
+ *
+ * Cleanup photos are read in the browser before upload. The capture time, GPS
+ * position and camera model are compared with the submitted location and
+ * submission time, and the findings are stored in the submission manifest so
+ * verifiers can see at a glance when photos don't match the claimed cleanup.
+ *
+ * Only JPEG EXIF is parsed; other formats report `format` and no metadata.
+ * Everything here is a hint for verifiers, never a reason to block a submission.
+ *
+ * The same parser redacts location and device tags from the public copies of
+ * photos, depending on the submitter's privacy setting.
+ */
+
+// EXIF lives in the first APP1 segment, so the start of the file is enough
+const EXIF_READ_BYTES = 256 * 1024
+
+// Thresholds for findings
+const LOCATION_WARNING_METERS = 1_000
+const PHOTO_DISTANCE_WARNING_METERS = 500
+const PHOTO_AGE_WARNING_MS = 7 * 24 * 60 * 60 * 1000
+const PHOTO_GAP_WARNING_MS = 48 * 60 * 60 * 1000
+const CLOCK_SKEW_MS = 24 * 60 * 60 * 1000
+
+/* -------------------------------------------------------------------------- */
+/*                                   TYPES                                    */
+/* -------------------------------------------------------------------------- */
+
+export interface PhotoMetadata {
+  format: 'jpeg' | 'png' | 'heic' | 'webp' | 'unknown'
+  // ISO string; without a timezone in the EXIF data it is read as local time
+  capturedAt: string | null
+  gps: { lat: number; lng: number } | null
+  make: string | null
+  model: string | null
+}
+
+export type PhotoRole = 'before' | 'after'
+
+// Metadata a submitter can keep out of the public copies of their photos
+export type PrivateMetadata = 'location' | 'device'
+
+export type PhotoFindingCode =
+  | 'NO_METADATA'
+  | 'NO_CAPTURE_TIME'
+  | 'NO_GPS'
+  | 'FAR_FROM_LOCATION'
+  | 'PHOTOS_FAR_APART'
+  | 'PHOTO_TOO_OLD'
+  | 'PHOTO_IN_FUTURE'
+  | 'AFTER_BEFORE_BEFORE'
+  | 'PHOTOS_HOURS_APART'
+  | 'DIFFERENT_DEVICES'
+
+export interface PhotoFinding {
+  code: PhotoFindingCode
+  // warning: worth a closer look; info: missing data, common with messengers and screenshots
+  severity: 'info' | 'warning'
+  photo: PhotoRole | 'both'
+  message: string
+}
+
+export interface PhotoConsistencyInput {
+  before: PhotoMetadata | null
+  after: PhotoMetadata | null
+  location: { lat: number; lng: number } | null
+  submittedAt: Date
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 EXIF PARSER                                */
+/* -------------------------------------------------------------------------- */
+
+const TAG_MAKE = 0x010f
+const TAG_MODEL = 0x0110
+const TAG_ORIENTATION = 0x0112
+const TAG_DATETIME = 0x0132
+const TAG_EXIF_IFD = 0x8769
+const TAG_GPS_IFD = 0x8825
+const TAG_DATETIME_ORIGINAL = 0x9003
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011
+const TAG_GPS_LAT_REF = 0x0001
+const TAG_GPS_LAT = 0x0002
+const TAG_GPS_LNG_REF = 0x0003
+const TAG_GPS_LNG = 0x0004
+const TAG_MAKER_NOTE = 0x927c
+// Owner name, body serial, lens make/model/serial
+const EXIF_DEVICE_TAGS = [0xa430, 0xa431, 0xa433, 0xa434, 0xa435, TAG_MAKER_NOTE]
+
+// Bytes per component for the TIFF field types we read
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 }
+
+type IfdEntries = Map<number, { type: number; count: number; valueOffset: number }>
+
+/** Blob contents, through FileReader where Blob#arrayBuffer is missing. */
+export function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  if (typeof blob.arrayBuffer === 'function') return blob.arrayBuffer()
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as ArrayBuffer)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(blob)
+  })
+}
+
+function detectFormat(view: DataView): PhotoMetadata['format'] {
+  if (view.byteLength < 12) return 'unknown'
+  if (view.getUint16(0) === 0xffd8) return 'jpeg'
+  if (view.getUint32(0) === 0x89504e47) return 'png'
+  const ascii = (offset: number, length: number) =>
+    String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)))
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') return 'webp'
+  if (ascii(4, 4) === 'ftyp' && /^(heic|heix|mif1|msf1|hevc)$/.test(ascii(8, 4))) return 'heic'
+  return 'unknown'
+}
+
+// Offset of the TIFF header inside the JPEG's Exif APP1 segment, or -1
+function findTiffStart(view: DataView): number {
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return -1
+    const marker = view.getUint8(offset + 1)
+    const length = view.getUint16(offset + 2)
+    // Start of scan: image data follows, no more metadata segments
+    if (marker === 0xda) return -1
+    if (
+      marker === 0xe1 &&
+      offset + 10 <= view.byteLength &&
+      view.getUint32(offset + 4) === 0x45786966 && // "Exif"
+      view.getUint16(offset + 8) === 0x0000
+    ) {
+      return offset + 10
+    }
+    offset += 2 + length
+  }
+  return -1
+}
+
+function readIfd(view: DataView, tiffStart: number, ifdOffset: number, little: boolean): IfdEntries {
+  const entries: IfdEntries = new Map()
+  const start = tiffStart + ifdOffset
+  if (start + 2 > view.byteLength) return entries
+
+  const count = view.getUint16(start, little)
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12
+    if (entry + 12 > view.byteLength) break
+    const tag = view.getUint16(entry, little)
+    const type = view.getUint16(entry + 2, little)
+    const components = view.getUint32(entry + 4, little)
+    const size = (TYPE_SIZES[type] ?? 1) * components
+    // Values of up to 4 bytes are stored inline, larger ones at an offset from the TIFF header
+    const valueOffset = size <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, little)
+    entries.set(tag, { type, count: components, valueOffset })
+  }
+  return entries
+}
+
+function readAscii(view: DataView, entries: IfdEntries, tag: number): string | null {
+  const entry = entries.get(tag)
+  if (!entry || entry.type !== 2 || entry.valueOffset + entry.count > view.byteLength) return null
+  let value = ''
+  for (let i = 0; i < entry.count; i++) {
+    const code = view.getUint8(entry.valueOffset + i)
+    if (code === 0) break
+    value += String.fromCharCode(code)
+  }
+  return value.trim() || null
+}
+
+function readLong(view: DataView, entries: IfdEntries, tag: number, little: boolean): number | null {
+  const entry = entries.get(tag)
+  if (!entry) return null
+  if (entry.type === 4) return view.getUint32(entry.valueOffset, little)
+  if (entry.type === 3) return view.getUint16(entry.valueOffset, little)
+  return null
+}
+
+function readRationals(view: DataView, entries: IfdEntries, tag: number, little: boolean): number[] | null {
+  const entry = entries.get(tag)
+  if (!entry || entry.type !== 5 || entry.valueOffset + entry.count * 8 > view.byteLength) return null
+  const values: number[] = []
+  for (let i = 0; i < entry.count; i++) {
+    const numerator = view.getUint32(entry.valueOffset + i * 8, little)
+    const denominator = view.getUint32(entry.valueOffset + i * 8 + 4, little)
+    values.push(denominator === 0 ? 0 : numerator / denominator)
+  }
+  return values
+}
+
+// "2024:05:01 14:30:00" (+ optional "+02:00") → ISO string
+function parseExifDate(value: string | null, offset: string | null): string | null {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/)
+  if (!match) return null
+  const [, year, month, day, hour, minute, second] = match
+  if (year === '0000') return null
+  const local = `${year}-${month}-${day}T${hour}:${minute}:${second}`
+  const date = new Date(offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? `${local}${offset}` : local)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+function toDegrees(parts: number[] | null, ref: string | null): number | null {
+  if (!parts || parts.length < 3) return null
+  const degrees = parts[0] + parts[1] / 60 + parts[2] / 3600
+  return ref === 'S' || ref === 'W' ? -degrees : degrees
+}
+
+/** Read capture time, GPS position and camera from a photo. Never throws. */
+export async function extractPhotoMetadata(file: Blob): Promise<PhotoMetadata> {
+  const empty: PhotoMetadata = { format: 'unknown', capturedAt: null, gps: null, make: null, model: null }
+
+  try {
+    const view = new DataView(await readBlob(file.slice(0, EXIF_READ_BYTES)))
+    const format = detectFormat(view)
+    if (format !== 'jpeg') return { ...empty, format }
+
+    const tiffStart = findTiffStart(view)
+    if (tiffStart < 0 || tiffStart + 8 > view.byteLength) return { ...empty, format }
+
+    const little = view.getUint16(tiffStart) === 0x4949 // "II" = Intel byte order
+    const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little)
+
+    const exifOffset = readLong(view, ifd0, TAG_EXIF_IFD, little)
+    const exif = exifOffset !== null ? readIfd(view, tiffStart, exifOffset, little) : new Map()
+    const capturedAt =
+      parseExifDate(readAscii(view, exif, TAG_DATETIME_ORIGINAL), readAscii(view, exif, TAG_OFFSET_TIME_ORIGINAL)) ??
+      parseExifDate(readAscii(view, ifd0, TAG_DATETIME), null)
+
+    let gps: PhotoMetadata['gps'] = null
+    const gpsOffset = readLong(view, ifd0, TAG_GPS_IFD, little)
+    if (gpsOffset !== null) {
+      const gpsIfd = readIfd(view, tiffStart, gpsOffset, little)
+      const lat = toDegrees(readRationals(view, gpsIfd, TAG_GPS_LAT, little), readAscii(view, gpsIfd, TAG_GPS_LAT_REF))
+      const lng = toDegrees(readRationals(view, gpsIfd, TAG_GPS_LNG, little), readAscii(view, gpsIfd, TAG_GPS_LNG_REF))
+      // 0,0 is what many apps write when they had no fix
+      if (lat !== null && lng !== null && !(lat === 0 && lng === 0)) {
+        gps = { lat, lng }
+      }
+    }
+
+    return {
+      format,
+      capturedAt,
+      gps,
+      make: readAscii(view, ifd0, TAG_MAKE),
+      model: readAscii(view, ifd0, TAG_MODEL),
+    }
+  } catch (error) {
+    console.warn('[PhotoMetadata] Could not read photo metadata:', error)
+    return empty
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  REDACTION                                 */
+/* -------------------------------------------------------------------------- */
+
+function clearValue(bytes: Uint8Array, entry: { type: number; count: number; valueOffset: number }): void {
+  const size = (TYPE_SIZES[entry.type] ?? 1) * entry.count
+  bytes.fill(0, entry.valueOffset, Math.min(entry.valueOffset + size, bytes.byteLength))
+}
+
+/**
+ * Blank the hidden tags in a JPEG's EXIF data, in place. Values are zeroed rather
+ * than removed so every offset in the file stays valid. `resetOrientation` marks
+ * pixels that were already drawn upright, so viewers don't rotate them again.
+ * Returns false when the file has no EXIF data.
+ */
+export function redactJpegExif(jpeg: Uint8Array, hidden: readonly PrivateMetadata[], resetOrientation = false): boolean {
+  const view = new DataView(jpeg.buffer, jpeg.byteOffset, jpeg.byteLength)
+  if (detectFormat(view) !== 'jpeg') return false
+  const tiffStart = findTiffStart(view)
+  if (tiffStart < 0 || tiffStart + 8 > view.byteLength) return false
+
+  const little = view.getUint16(tiffStart) === 0x4949
+  const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little)
+
+  const orientation = ifd0.get(TAG_ORIENTATION)
+  if (resetOrientation && orientation?.type === 3) {
+    view.setUint16(orientation.valueOffset, 1, little)
+  }
+
+  if (hidden.includes('location')) {
+    const gpsOffset = readLong(view, ifd0, TAG_GPS_IFD, little)
+    const gpsStart = gpsOffset !== null ? tiffStart + gpsOffset : -1
+    if (gpsStart >= 0 && gpsStart + 2 <= view.byteLength) {
+      const gpsIfd = readIfd(view, tiffStart, gpsOffset!, little)
+      gpsIfd.forEach((entry) => clearValue(jpeg, entry))
+      // An empty GPS IFD: zero entries and no next IFD
+      const entriesEnd = gpsStart + 2 + view.getUint16(gpsStart, little) * 12 + 4
+      jpeg.fill(0, gpsStart, Math.min(entriesEnd, jpeg.byteLength))
+    }
+  }
+
+  if (hidden.includes('device')) {
+    ;[TAG_MAKE, TAG_MODEL].forEach((tag) => {
+      const entry = ifd0.get(tag)
+      if (entry) clearValue(jpeg, entry)
+    })
+    const exifOffset = readLong(view, ifd0, TAG_EXIF_IFD, little)
+    if (exifOffset !== null) {
+      const exif = readIfd(view, tiffStart, exifOffset, little)
+      EXIF_DEVICE_TAGS.forEach((tag) => {
+        const entry = exif.get(tag)
+        if (entry) clearValue(jpeg, entry)
+      })
+    }
+  }
+
+  return true
+}
+
+/** The JPEG's whole Exif APP1 segment (marker included), or null. */
+export function getJpegExifSegment(jpeg: Uint8Array): Uint8Array | null {
+  const view = new DataView(jpeg.buffer, jpeg.byteOffset, jpeg.byteLength)
+  if (detectFormat(view) !== 'jpeg') return null
+  const tiffStart = findTiffStart(view)
+  if (tiffStart < 0) return null
+
+  // Marker (2 bytes), length (2 bytes), "Exif\0\0" (6 bytes), then the TIFF header
+  const segmentStart = tiffStart - 10
+  const segmentEnd = segmentStart + 2 + view.getUint16(segmentStart + 2)
+  return segmentEnd <= jpeg.byteLength ? jpeg.slice(segmentStart, segmentEnd) : null
+}
+
+// Segments a decoder may need: JFIF (APP0), ICC colour profile (APP2) and Adobe colour transform (APP14)
+function isEssentialSegment(view: DataView, offset: number, marker: number): boolean {
+  const startsWith = (signature: string) =>
+    offset + 4 + signature.length <= view.byteLength &&
+    [...signature].every((char, i) => view.getUint8(offset + 4 + i) === char.charCodeAt(0))
+
+  if (marker === 0xe0) return true
+  if (marker === 0xe1) return startsWith('Exif\0\0')
+  if (marker === 0xe2) return startsWith('ICC_PROFILE\0')
+  if (marker === 0xee) return startsWith('Adobe')
+  // Comments and the remaining APPn segments (XMP, IPTC, MPF, maker data) are metadata only
+  return marker !== 0xfe && (marker < 0xe0 || marker > 0xef)
+}
+
+/**
+ * A copy of the JPEG without the metadata redactJpegExif doesn't reach: XMP
+ * (which repeats the EXIF GPS tags), IPTC and other APPn segments, comments,
+ * and data after the end of the image (e.g. MPF preview images with their own
+ * EXIF). Returns the input when it isn't a JPEG.
+ */
+export function stripJpegMetadataSegments(jpeg: Uint8Array): Uint8Array<ArrayBuffer> {
+  const view = new DataView(jpeg.buffer, jpeg.byteOffset, jpeg.byteLength)
+  if (detectFormat(view) !== 'jpeg') return jpeg.slice()
+
+  const kept: Uint8Array[] = [jpeg.subarray(0, 2)]
+  let offset = 2
+  while (offset + 4 <= view.byteLength && view.getUint8(offset) === 0xff) {
+    const marker = view.getUint8(offset + 1)
+    if (marker === 0xda) break
+    const end = offset + 2 + view.getUint16(offset + 2)
+    if (isEssentialSegment(view, offset, marker)) kept.push(jpeg.subarray(offset, end))
+    offset = end
+  }
+
+  // Entropy-coded data stuffs 0xff bytes, so the first 0xffd9 after the scans ends the image
+  let end = jpeg.byteLength
+  for (let i = offset; i + 1 < jpeg.byteLength; i++) {
+    if (jpeg[i] === 0xff && jpeg[i + 1] === 0xd9) {
+      end = i + 2
+      break
+    }
+  }
+  kept.push(jpeg.subarray(offset, end))
+
+  const result = new Uint8Array(kept.reduce((sum, part) => sum + part.byteLength, 0))
+  kept.reduce((position, part) => {
+    result.set(part, position)
+    return position + part.byteLength
+  }, 0)
+  return result
+}
+
+/** Metadata as a public copy of the photo reveals it. */
+export function redactPhotoMetadata(metadata: PhotoMetadata, hidden: readonly PrivateMetadata[]): PhotoMetadata {
+  return {
+    ...metadata,
+    gps: hidden.includes('location') ? null : metadata.gps,
+    make: hidden.includes('device') ? null : metadata.make,
+    model: hidden.includes('device') ? null : metadata.model,
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                             CONSISTENCY CHECKS                             */
+/* -------------------------------------------------------------------------- */
+
+/** Great-circle distance in meters. */
+export function distanceInMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRad = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = toRad(b.lat - a.lat)
+  const dLng = toRad(b.lng - a.lng)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * 6_371_000 * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+export function formatDistance(meters: number): string {
+  return meters < 1_000 ? `${Math.round(meters)} m` : `${(meters / 1_000).toFixed(1)} km`
+}
+
+export function formatDuration(ms: number): string {
+  const hours = ms / (60 * 60 * 1000)
+  if (hours < 48) return `${Math.round(hours)} hours`
+  const days = hours / 24
+  if (days < 60) return `${Math.round(days)} days`
+  const months = days / 30.44
+  if (months < 24) return `${Math.round(months)} months`
+  return `${Math.round(days / 365.25)} years`
+}
+
+const label = (role: PhotoRole) => (role === 'before' ? 'Before' : 'After')
+
+const describeDevice = (metadata: PhotoMetadata) =>
+  [metadata.make, metadata.model].filter(Boolean).join(' ') || null
+
+/** Compare the photos' metadata with each other and with the submission. */
+export function checkPhotoConsistency({ before, after, location, submittedAt }: PhotoConsistencyInput): PhotoFinding[] {
+  const findings: PhotoFinding[] = []
+  const photos: Array<[PhotoRole, PhotoMetadata | null]> = [
+    ['before', before],
+    ['after', after],
+  ]
+
+  for (const [role, metadata] of photos) {
+    if (!metadata || (!metadata.capturedAt && !metadata.gps && !metadata.model)) {
+      findings.push({
+        code: 'NO_METADATA',
+        severity: 'info',
+        photo: role,
+        message: `${label(role)} photo has no camera metadata (edited, screenshot or sent through a messenger)`,
+      })
+      continue
+    }
+
+    if (!metadata.capturedAt) {
+      findings.push({ code: 'NO_CAPTURE_TIME', severity: 'info', photo: role, message: `${label(role)} photo has no capture time` })
+    } else {
+      const age = submittedAt.getTime() - new Date(metadata.capturedAt).getTime()
+      if (age > PHOTO_AGE_WARNING_MS) {
+        findings.push({
+          code: 'PHOTO_TOO_OLD',
+          severity: 'warning',
+          photo: role,
+          message: `${label(role)} photo is ${formatDuration(age)} old`,
+        })
+      } else if (age < -CLOCK_SKEW_MS) {
+        findings.push({
+          code: 'PHOTO_IN_FUTURE',
+          severity: 'warning',
+          photo: role,
+          message: `${label(role)} photo is dated ${formatDuration(-age)} after the submission`,
+        })
+      }
+    }
+
+    if (!metadata.gps) {
+      findings.push({ code: 'NO_GPS', severity: 'info', photo: role, message: `${label(role)} photo has no GPS position` })
+    } else if (location) {
+      const distance = distanceInMeters(metadata.gps, location)
+      if (distance > LOCATION_WARNING_METERS) {
+        findings.push({
+          code: 'FAR_FROM_LOCATION',
+          severity: 'warning',
+          photo: role,
+          message: `${label(role)} photo taken ${formatDistance(distance)} away from the submitted location`,
+        })
+      }
+    }
+  }
+
+  if (before?.gps && after?.gps) {
+    const distance = distanceInMeters(before.gps, after.gps)
+    if (distance > PHOTO_DISTANCE_WARNING_METERS) {
+      findings.push({
+        code: 'PHOTOS_FAR_APART',
+        severity: 'warning',
+        photo: 'both',
+        message: `Before and after photos taken ${formatDistance(distance)} apart`,
+      })
+    }
+  }
+
+  if (before?.capturedAt && after?.capturedAt) {
+    const gap = new Date(after.capturedAt).getTime() - new Date(before.capturedAt).getTime()
+    if (gap < 0) {
+      findings.push({
+        code: 'AFTER_BEFORE_BEFORE',
+        severity: 'warning',
+        photo: 'both',
+        message: `After photo was taken ${formatDuration(-gap)} before the before photo`,
+      })
+    } else if (gap > PHOTO_GAP_WARNING_MS) {
+      findings.push({
+        code: 'PHOTOS_HOURS_APART',
+        severity: 'warning',
+        photo: 'both',
+        message: `Before and after photos taken ${formatDuration(gap)} apart`,
+      })
+    }
+  }
+
+  const beforeDevice = before ? describeDevice(before) : null
+  const afterDevice = after ? describeDevice(after) : null
+  if (beforeDevice && afterDevice && beforeDevice !== afterDevice) {
+    findings.push({
+      code: 'DIFFERENT_DEVICES',
+      severity: 'info',
+      photo: 'both',
+      message: `Photos taken with different devices (${beforeDevice} / ${afterDevice})`,
+    })
+  }
+
+  return findings
+}
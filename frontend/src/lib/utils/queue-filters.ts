@@ -0,0 +1,238 @@
+/**
+ * Verifier queue filters
+ *
+ * Filter state for the verifier dashboard, kept in the URL query string so a
+ * filtered view can be reloaded or shared. Everything is evaluated in the
+ * browser over the submissions already loaded from the index; the only
+ * lookups (ENS names, place names) are resolved beforehand and passed in.
+ */
+
+import type { Address } from 'viem'
+import type { PlaceName } from './reverse-geocode'
+
+const DAY_SECONDS = 24 * 60 * 60
+const EARTH_RADIUS_KM = 6371
+
+/* -------------------------------------------------------------------------- */
+/*                                   TYPES                                    */
+/* -------------------------------------------------------------------------- */
+
+export type QueueStatusFilter = 'all' | 'pending' | 'verified' | 'rejected'
+export type QueueSort = 'newest' | 'oldest' | 'nearest'
+
+export interface QueuePoint {
+  lat: number
+  lng: number
+}
+
+export interface QueueFilters {
+  // Free text: cleanup ID, address fragment or place name; every word must match
+  query: string
+  status: QueueStatusFilter
+  // Inclusive UTC dates, YYYY-MM-DD
+  from: string | null
+  to: string | null
+  // Full address, address fragment or ENS name
+  submitter: string
+  // null: either
+  impactForm: boolean | null
+  recyclables: boolean | null
+  feePaid: boolean | null
+  // Country name or code, or first-level region
+  region: string
+  near: (QueuePoint & { radiusKm: number }) | null
+  sort: QueueSort
+}
+
+export const DEFAULT_QUEUE_FILTERS: QueueFilters = {
+  query: '',
+  status: 'all',
+  from: null,
+  to: null,
+  submitter: '',
+  impactForm: null,
+  recyclables: null,
+  feePaid: null,
+  region: '',
+  near: null,
+  sort: 'newest',
+}
+
+/** The fields of a cleanup the filters look at */
+export interface QueueCleanup {
+  id: bigint
+  user: Address
+  timestamp: bigint // unix seconds
+  latitude: bigint // scaled by 1e6
+  longitude: bigint // scaled by 1e6
+  verified: boolean
+  rejected: boolean
+  hasImpactForm: boolean
+  hasRecyclables?: boolean
+  feePaid?: bigint
+}
+
+export interface QueueFilterContext {
+  // Address of the ENS name in `submitter`, null when it doesn't resolve
+  submitterAddress?: Address | null
+  // Place names by cleanup ID, for the region filter and the query
+  places?: Map<string, PlaceName | null>
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                URL STATE                                   */
+/* -------------------------------------------------------------------------- */
+
+const STATUSES: QueueStatusFilter[] = ['all', 'pending', 'verified', 'rejected']
+const SORTS: QueueSort[] = ['newest', 'oldest', 'nearest']
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const parseFlag = (value: string | null) => (value === 'yes' ? true : value === 'no' ? false : null)
+const formatFlag = (value: boolean) => (value ? 'yes' : 'no')
+const parseDate = (value: string | null) => (value && DATE_PATTERN.test(value) && !isNaN(Date.parse(value)) ? value : null)
+
+function parseNear(value: string | null): QueueFilters['near'] {
+  if (!value) return null
+  const [lat, lng, radiusKm] = value.split(',').map(Number)
+  if (![lat, lng, radiusKm].every(Number.isFinite) || Math.abs(lat) > 90 || Math.abs(lng) > 180 || radiusKm <= 0) {
+    return null
+  }
+  return { lat, lng, radiusKm }
+}
+
+/**
+ * Filters from a query string
+ * Unknown or malformed values fall back to the defaults.
+ */
+export function parseQueueFilters(params: URLSearchParams): QueueFilters {
+  const status = params.get('status') as QueueStatusFilter
+  const sort = params.get('sort') as QueueSort
+  const near = parseNear(params.get('near'))
+  return {
+    query: params.get('q') ?? '',
+    status: STATUSES.includes(status) ? status : 'all',
+    from: parseDate(params.get('from')),
+    to: parseDate(params.get('to')),
+    submitter: params.get('submitter') ?? '',
+    impactForm: parseFlag(params.get('impact')),
+    recyclables: parseFlag(params.get('recyclables')),
+    feePaid: parseFlag(params.get('fee')),
+    region: params.get('region') ?? '',
+    near,
+    // Nearest-first needs a point
+    sort: SORTS.includes(sort) && (sort !== 'nearest' || near) ? sort : 'newest',
+  }
+}
+
+/** Query string for the filters; defaults are left out */
+export function serializeQueueFilters(filters: QueueFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.query.trim()) params.set('q', filters.query.trim())
+  if (filters.status !== 'all') params.set('status', filters.status)
+  if (filters.from) params.set('from', filters.from)
+  if (filters.to) params.set('to', filters.to)
+  if (filters.submitter.trim()) params.set('submitter', filters.submitter.trim())
+  if (filters.impactForm !== null) params.set('impact', formatFlag(filters.impactForm))
+  if (filters.recyclables !== null) params.set('recyclables', formatFlag(filters.recyclables))
+  if (filters.feePaid !== null) params.set('fee', formatFlag(filters.feePaid))
+  if (filters.region.trim()) params.set('region', filters.region.trim())
+  if (filters.near) params.set('near', `${filters.near.lat},${filters.near.lng},${filters.near.radiusKm}`)
+  if (filters.sort !== 'newest') params.set('sort', filters.sort)
+  return params
+}
+
+/** Number of filters set, for the "Clear filters" button; sorting doesn't count */
+export function countActiveFilters(filters: QueueFilters): number {
+  const params = serializeQueueFilters(filters)
+  params.delete('sort')
+  return [...params.keys()].length
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                EVALUATION                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Great-circle distance in km */
+export function distanceKm(a: QueuePoint, b: QueuePoint): number {
+  const rad = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = rad(b.lat - a.lat)
+  const dLng = rad(b.lng - a.lng)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+export const cleanupPoint = (cleanup: QueueCleanup): QueuePoint => ({
+  lat: Number(cleanup.latitude) / 1e6,
+  lng: Number(cleanup.longitude) / 1e6,
+})
+
+export const isEnsName = (value: string) => /^[^\s.]+(\.[^\s.]+)+$/.test(value.trim()) && !value.trim().startsWith('0x')
+
+export function cleanupStatus(cleanup: QueueCleanup): Exclude<QueueStatusFilter, 'all'> {
+  return cleanup.verified ? 'verified' : cleanup.rejected ? 'rejected' : 'pending'
+}
+
+function matchesPlace(place: PlaceName | null | undefined, text: string): boolean {
+  if (!place) return false
+  const needle = text.toLowerCase()
+  return (
+    place.countryCode?.toLowerCase() === needle ||
+    [place.country, place.region, place.locality].some((name) => name?.toLowerCase().includes(needle))
+  )
+}
+
+function matchesSubmitter(cleanup: QueueCleanup, submitter: string, context: QueueFilterContext): boolean {
+  if (isEnsName(submitter)) {
+    return !!context.submitterAddress && cleanup.user.toLowerCase() === context.submitterAddress.toLowerCase()
+  }
+  // Like the wallet search, a fragment such as "2493" matches any address containing it
+  return cleanup.user.toLowerCase().includes(submitter.toLowerCase())
+}
+
+function matchesQueryWord(cleanup: QueueCleanup, word: string, place: PlaceName | null | undefined): boolean {
+  const id = word.startsWith('#') ? word.slice(1) : word
+  if (/^\d+$/.test(id) && cleanup.id.toString() === id) return true
+  if (/^(0x)?[0-9a-f]{3,}$/i.test(word) && cleanup.user.toLowerCase().includes(word.toLowerCase())) return true
+  return matchesPlace(place, word)
+}
+
+export function matchesQueueFilters(cleanup: QueueCleanup, filters: QueueFilters, context: QueueFilterContext = {}): boolean {
+  const place = context.places?.get(cleanup.id.toString())
+  const timestamp = Number(cleanup.timestamp)
+
+  if (filters.status !== 'all' && cleanupStatus(cleanup) !== filters.status) return false
+  if (filters.from && timestamp < Date.parse(`${filters.from}T00:00:00Z`) / 1000) return false
+  if (filters.to && timestamp >= Date.parse(`${filters.to}T00:00:00Z`) / 1000 + DAY_SECONDS) return false
+  if (filters.submitter.trim() && !matchesSubmitter(cleanup, filters.submitter.trim(), context)) return false
+  if (filters.impactForm !== null && cleanup.hasImpactForm !== filters.impactForm) return false
+  if (filters.recyclables !== null && !!cleanup.hasRecyclables !== filters.recyclables) return false
+  if (filters.feePaid !== null && (cleanup.feePaid ?? 0n) > 0n !== filters.feePaid) return false
+  if (filters.region.trim() && !matchesPlace(place, filters.region.trim())) return false
+  if (filters.near && distanceKm(filters.near, cleanupPoint(cleanup)) > filters.near.radiusKm) return false
+
+  const words = filters.query.trim().split(/\s+/).filter(Boolean)
+  return words.every((word) => matchesQueryWord(cleanup, word, place))
+}
+
+/** Cleanups matching the filters, in the requested order */
+export function applyQueueFilters<T extends QueueCleanup>(
+  cleanups: T[],
+  filters: QueueFilters,
+  context: QueueFilterContext = {}
+): T[] {
+  const matching = cleanups.filter((cleanup) => matchesQueueFilters(cleanup, filters, context))
+  const { near } = filters
+  if (filters.sort === 'nearest' && near) {
+    return matching
+      .map((cleanup) => ({ cleanup, distance: distanceKm(near, cleanupPoint(cleanup)) }))
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ cleanup }) => cleanup)
+  }
+  const direction = filters.sort === 'oldest' ? 1 : -1
+  return matching.sort((a, b) => direction * Number(a.timestamp - b.timestamp))
+}
+
+/** Whether the filters need place names for the cleanups */
+export function needsPlaceNames(filters: QueueFilters): boolean {
+  return !!filters.region.trim() || filters.query.trim().split(/\s+/).some((word) => /[a-z]/i.test(word) && !/^(#|0x)/i.test(word))
+}
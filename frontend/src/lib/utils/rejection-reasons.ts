@@ -0,0 +1,124 @@
+/**
+ * Rejection reasons
+ *
+ * Verifiers reject a submission with one of these codes (stored on-chain as
+ * Submission.RejectionReason) and, optionally, a note uploaded to IPFS as JSON
+ * whose CID is stored with the rejection. The profile and cleanup pages turn
+ * the code into guidance so the volunteer can fix the problem next time.
+ */
+
+import { uploadJSONToIPFS } from '@/lib/blockchain/ipfs'
+
+export const REJECTION_NOTE_SCHEMA = 'decleanup/rejection-note'
+export const REJECTION_NOTE_VERSION = 1
+export const MAX_REJECTION_NOTE_LENGTH = 1_000
+
+// Mirrors Submission.RejectionReason; None means no reason was recorded (legacy rejections)
+export enum RejectionReason {
+  None = 0,
+  BlurryPhotos = 1,
+  LocationMismatch = 2,
+  Duplicate = 3,
+  NotACleanup = 4,
+  Other = 5,
+}
+
+export interface RejectionReasonInfo {
+  label: string
+  guidance: string
+}
+
+const REJECTION_REASON_INFO: Record<RejectionReason, RejectionReasonInfo> = {
+  [RejectionReason.None]: {
+    label: 'No reason given',
+    guidance: 'The verifier did not record a reason. Make sure your photos clearly show the site before and after, then submit again.',
+  },
+  [RejectionReason.BlurryPhotos]: {
+    label: 'Blurry or unclear photos',
+    guidance: 'Hold the camera steady in good light and make sure the litter (before) and the cleaned area (after) are clearly visible.',
+  },
+  [RejectionReason.LocationMismatch]: {
+    label: 'Location mismatch',
+    guidance: 'Take both photos at the cleanup site with location enabled, and check the map pin matches where you cleaned.',
+  },
+  [RejectionReason.Duplicate]: {
+    label: 'Duplicate submission',
+    guidance: 'Each cleanup can only be submitted once. Use new photos taken at this cleanup; reused photos are detected.',
+  },
+  [RejectionReason.NotACleanup]: {
+    label: 'Not a cleanup',
+    guidance: 'The before photo should show litter and the after photo the same spot cleaned up, taken from a similar angle.',
+  },
+  [RejectionReason.Other]: {
+    label: 'Other',
+    guidance: "See the verifier's note for details. If something is unclear, reach out to the DeCleanup community.",
+  },
+}
+
+/** Reasons a verifier can pick from, in display order. */
+export const REJECTION_REASON_OPTIONS = [
+  RejectionReason.BlurryPhotos,
+  RejectionReason.LocationMismatch,
+  RejectionReason.Duplicate,
+  RejectionReason.NotACleanup,
+  RejectionReason.Other,
+] as const
+
+/** Label and guidance for a reason code; unknown codes are treated as None. */
+export function getRejectionReasonInfo(reason: number | undefined): RejectionReasonInfo {
+  return REJECTION_REASON_INFO[reason as RejectionReason] ?? REJECTION_REASON_INFO[RejectionReason.None]
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                    NOTES                                   */
+/* -------------------------------------------------------------------------- */
+
+export interface RejectionNote {
+  schema: typeof REJECTION_NOTE_SCHEMA
+  version: typeof REJECTION_NOTE_VERSION
+  reason: RejectionReason
+  message: string
+  createdAt: string
+}
+
+export function buildRejectionNote(reason: RejectionReason, message: string, now = new Date()): RejectionNote {
+  const trimmed = message.trim()
+  if (!trimmed) {
+    throw new Error('The rejection note is empty')
+  }
+  if (trimmed.length > MAX_REJECTION_NOTE_LENGTH) {
+    throw new Error(`The rejection note must be at most ${MAX_REJECTION_NOTE_LENGTH} characters`)
+  }
+  return {
+    schema: REJECTION_NOTE_SCHEMA,
+    version: REJECTION_NOTE_VERSION,
+    reason,
+    message: trimmed,
+    createdAt: now.toISOString(),
+  }
+}
+
+/** Validate a note fetched from IPFS. */
+export function parseRejectionNote(raw: unknown): RejectionNote {
+  const note = raw as Partial<RejectionNote> | null
+  if (!note || typeof note !== 'object' || note.schema !== REJECTION_NOTE_SCHEMA) {
+    throw new Error('Not a DeCleanup rejection note')
+  }
+  if (typeof note.message !== 'string' || !note.message.trim()) {
+    throw new Error('The rejection note has no message')
+  }
+  return {
+    schema: REJECTION_NOTE_SCHEMA,
+    version: REJECTION_NOTE_VERSION,
+    reason: typeof note.reason === 'number' ? note.reason : RejectionReason.None,
+    message: note.message.slice(0, MAX_REJECTION_NOTE_LENGTH),
+    createdAt: typeof note.createdAt === 'string' ? note.createdAt : '',
+  }
+}
+
+/** Upload a verifier's note and return its CID, or '' when there is no note. */
+export async function uploadRejectionNote(reason: RejectionReason, message: string): Promise<string> {
+  if (!message.trim()) return ''
+  const { hash } = await uploadJSONToIPFS(buildRejectionNote(reason, message), 'rejection-note')
+  return hash
+}
@@ -29,31 +29,8 @@ export function resetCleanupState(userAddress: Address, cleanupId?: bigint | str
   localStorage.removeItem(locationKey)
   console.log(`[resetCleanupState] Removed: ${locationKey}`)
 
-  // Clear claimed cleanup IDs (remove specific cleanup ID if provided)
-  const claimedKey = `claimed_cleanup_ids_${addressLower}`
-  if (cleanupIdStr) {
-    try {
-      const claimedIds = localStorage.getItem(claimedKey)
-      if (claimedIds) {
-        const parsed = JSON.parse(claimedIds) as string[]
-        const filtered = parsed.filter(id => id !== cleanupIdStr)
-        if (filtered.length === 0) {
-          localStorage.removeItem(claimedKey)
-          console.log(`[resetCleanupState] Removed all claimed IDs from: ${claimedKey}`)
-        } else {
-          localStorage.setItem(claimedKey, JSON.stringify(filtered))
-          console.log(`[resetCleanupState] Removed cleanup ${cleanupIdStr} from claimed list:`, filtered)
-        }
-      }
-    } catch (error) {
-      console.error('[resetCleanupState] Error parsing claimed IDs:', error)
-      localStorage.removeItem(claimedKey)
-    }
-  } else {
-    // Remove entire claimed list if no specific cleanup ID
-    localStorage.removeItem(claimedKey)
-    console.log(`[resetCleanupState] Removed: ${claimedKey}`)
-  }
+  // Claimed cleanups are tracked on-chain now; drop the list older versions kept here
+  localStorage.removeItem(`claimed_cleanup_ids_${addressLower}`)
 
   // Clear old global keys for backward compatibility
   localStorage.removeItem('pending_cleanup_id')
@@ -77,7 +54,7 @@ export function resetAllCleanupState(userAddress: Address) {
   const keysToRemove = [
     `pending_cleanup_id_${addressLower}`,
     `pending_cleanup_location_${addressLower}`,
-    `claimed_cleanup_ids_${addressLower}`,
+    `claimed_cleanup_ids_${addressLower}`, // legacy, claims are tracked on-chain
     `last_cleanup_location`,
     'pending_cleanup_id',
     'pending_cleanup_location',
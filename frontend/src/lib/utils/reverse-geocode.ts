@@ -0,0 +1,55 @@
+/**
+ * Reverse geocoding for cleanup coordinates
+ *
+ * Uses BigDataCloud's free client-side endpoint (no API key, no server of
+ * ours). Results are cached per ~1 km cell for the session, so the leaderboard
+ * and the verifier queue filters don't ask twice for the same spot.
+ */
+
+export interface PlaceName {
+  country?: string
+  countryCode?: string
+  // State, province or other first-level subdivision
+  region?: string
+  locality?: string
+}
+
+const GEOCODE_URL = 'https://api.bigdatacloud.net/data/reverse-geocode-client'
+
+const cache = new Map<string, Promise<PlaceName | null>>()
+
+// Two decimals is roughly 1 km, plenty for a country or region
+const cellKey = (lat: number, lng: number) => `${lat.toFixed(2)},${lng.toFixed(2)}`
+
+async function requestPlaceName(lat: number, lng: number): Promise<PlaceName | null> {
+  const response = await fetch(`${GEOCODE_URL}?latitude=${lat}&longitude=${lng}&localityLanguage=en`)
+  if (!response.ok) {
+    throw new Error(`Reverse geocoding failed with status ${response.status}`)
+  }
+  const data = await response.json()
+  const place: PlaceName = {
+    country: data.countryName || undefined,
+    countryCode: data.countryCode || undefined,
+    region: data.principalSubdivision || undefined,
+    locality: data.city || data.locality || undefined,
+  }
+  return place.country || place.countryCode ? place : null
+}
+
+/**
+ * Country and region at a point (degrees), or null when unknown
+ * Failed lookups are not cached, so they are retried on the next call.
+ */
+export function reverseGeocode(lat: number, lng: number): Promise<PlaceName | null> {
+  const key = cellKey(lat, lng)
+  let pending = cache.get(key)
+  if (!pending) {
+    pending = requestPlaceName(lat, lng).catch((error) => {
+      console.warn('Failed to geocode coordinates:', error)
+      cache.delete(key)
+      return null
+    })
+    cache.set(key, pending)
+  }
+  return pending
+}
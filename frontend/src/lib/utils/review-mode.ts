@@ -0,0 +1,172 @@
+/**
+ * Review mode helpers
+ *
+ * The focused review mode shows one pending submission at a time. These
+ * helpers hold its keyboard map, the queue order (skipped items go to the
+ * back) and the zoom/pan math shared by the synchronized photo viewers.
+ */
+
+/* -------------------------------------------------------------------------- */
+/*                                 SHORTCUTS                                  */
+/* -------------------------------------------------------------------------- */
+
+export type ReviewAction =
+  | 'approve'
+  | 'reject'
+  | 'skip'
+  | 'next'
+  | 'previous'
+  | 'toggleCompare'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'resetZoom'
+  | 'help'
+  | 'close'
+
+// Listed in the help overlay in this order
+export const REVIEW_SHORTCUTS: { action: ReviewAction; keys: string[]; label: string }[] = [
+  { action: 'approve', keys: ['a'], label: 'Approve' },
+  { action: 'reject', keys: ['r'], label: 'Reject with a reason' },
+  { action: 'skip', keys: ['s'], label: 'Skip (move to the back of the queue)' },
+  { action: 'next', keys: ['n', 'ArrowRight', 'j'], label: 'Next submission' },
+  { action: 'previous', keys: ['p', 'ArrowLeft', 'k'], label: 'Previous submission' },
+  { action: 'toggleCompare', keys: ['o'], label: 'Side by side / overlay slider' },
+  { action: 'zoomIn', keys: ['+', '='], label: 'Zoom in' },
+  { action: 'zoomOut', keys: ['-'], label: 'Zoom out' },
+  { action: 'resetZoom', keys: ['0'], label: 'Reset zoom' },
+  { action: 'help', keys: ['?'], label: 'Show shortcuts' },
+  { action: 'close', keys: ['Escape'], label: 'Close the form, or leave review mode' },
+]
+
+const ACTION_BY_KEY = new Map(
+  REVIEW_SHORTCUTS.flatMap(({ action, keys }) => keys.map((key) => [key.toLowerCase(), action] as const))
+)
+
+export interface ShortcutEvent {
+  key: string
+  ctrlKey?: boolean
+  metaKey?: boolean
+  altKey?: boolean
+  target?: EventTarget | null
+}
+
+function isEditable(target: EventTarget | null | undefined): boolean {
+  if (!target || typeof target !== 'object') return false
+  const element = target as { tagName?: string; isContentEditable?: boolean; type?: string }
+  if (element.isContentEditable) return true
+  const tag = element.tagName?.toUpperCase()
+  if (tag === 'TEXTAREA' || tag === 'SELECT') return true
+  // Radio buttons and checkboxes don't take text, shortcuts still apply
+  return tag === 'INPUT' && element.type !== 'radio' && element.type !== 'checkbox'
+}
+
+/**
+ * Action bound to a key press, or null
+ * Browser shortcuts (Ctrl/Cmd/Alt) and typing in text fields are left alone,
+ * except Escape, which always closes.
+ */
+export function resolveShortcut(event: ShortcutEvent): ReviewAction | null {
+  if (event.ctrlKey || event.metaKey || event.altKey) return null
+  const action = ACTION_BY_KEY.get(event.key.toLowerCase()) ?? null
+  if (action !== 'close' && isEditable(event.target)) return null
+  return action
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   QUEUE                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Queue order after the pending list changed
+ * Known IDs keep their place (so skipped items stay at the back), IDs no
+ * longer pending are dropped and new ones are appended.
+ */
+export function syncReviewOrder(previous: string[], ids: string[]): string[] {
+  const pending = new Set(ids)
+  const kept = previous.filter((id) => pending.has(id))
+  const known = new Set(kept)
+  return [...kept, ...ids.filter((id) => !known.has(id))]
+}
+
+/** Move an item to the back of the queue */
+export function deferReviewItem(order: string[], id: string): string[] {
+  return order.includes(id) ? [...order.filter((item) => item !== id), id] : order
+}
+
+/**
+ * Item to show after `current`, `step` places away (wrapping around)
+ * When `current` has left the queue, its successor in `previousOrder` that is
+ * still queued is used, so approving an item moves on to the one after it.
+ */
+export function stepReviewItem(order: string[], current: string | null, step: number, previousOrder: string[] = order): string | null {
+  if (order.length === 0) return null
+  if (current === null) return order[0]
+
+  const index = order.indexOf(current)
+  if (index !== -1) {
+    return order[(((index + step) % order.length) + order.length) % order.length]
+  }
+
+  const queued = new Set(order)
+  const previousIndex = previousOrder.indexOf(current)
+  if (previousIndex !== -1) {
+    const rest = [...previousOrder.slice(previousIndex + 1), ...previousOrder.slice(0, previousIndex)]
+    const successor = rest.find((id) => queued.has(id))
+    if (successor) return successor
+  }
+  return order[0]
+}
+
+/** The next `count` items after `current`, for prefetching */
+export function upcomingReviewItems(order: string[], current: string | null, count: number): string[] {
+  const index = current === null ? -1 : order.indexOf(current)
+  return order.slice(index + 1, index + 1 + count)
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 ZOOM & PAN                                 */
+/* -------------------------------------------------------------------------- */
+
+export const MIN_PHOTO_ZOOM = 1
+export const MAX_PHOTO_ZOOM = 8
+export const PHOTO_ZOOM_STEP = 1.5
+
+/**
+ * Shared viewer transform: `translate(x, y) scale(scale)` with the origin in
+ * the top-left corner. x and y are fractions of the viewer size, so viewers of
+ * different pixel sizes stay in sync.
+ */
+export interface PhotoView {
+  scale: number
+  x: number
+  y: number
+}
+
+export const INITIAL_PHOTO_VIEW: PhotoView = { scale: 1, x: 0, y: 0 }
+
+/** Keep the zoomed photo covering the whole viewer */
+export function clampPhotoView({ scale, x, y }: PhotoView): PhotoView {
+  const clampedScale = Math.min(MAX_PHOTO_ZOOM, Math.max(MIN_PHOTO_ZOOM, scale))
+  const min = 1 - clampedScale
+  const clamp = (value: number) => Math.min(0, Math.max(min, value))
+  return { scale: clampedScale, x: clamp(x), y: clamp(y) }
+}
+
+/**
+ * Zoom by `factor` keeping the point under the cursor in place
+ * @param point Cursor position as fractions of the viewer size (0..1), defaults to the centre
+ */
+export function zoomPhotoView(view: PhotoView, factor: number, point = { x: 0.5, y: 0.5 }): PhotoView {
+  const scale = Math.min(MAX_PHOTO_ZOOM, Math.max(MIN_PHOTO_ZOOM, view.scale * factor))
+  const ratio = scale / view.scale
+  return clampPhotoView({
+    scale,
+    x: point.x - (point.x - view.x) * ratio,
+    y: point.y - (point.y - view.y) * ratio,
+  })
+}
+
+/** Pan by a drag distance, given as fractions of the viewer size */
+export function panPhotoView(view: PhotoView, dx: number, dy: number): PhotoView {
+  return clampPhotoView({ scale: view.scale, x: view.x + dx, y: view.y + dy })
+}
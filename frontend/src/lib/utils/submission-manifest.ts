@@ -0,0 +1,96 @@
+/**
+ * Submission manifest
+ *
+ * A JSON document uploaded to IPFS with every new submission and used as its
+ * on-chain dataURI. It lists the submission's files with the metadata read from
+ * the photos before upload (EXIF and perceptual hashes), plus the consistency
+ * findings. Findings are computed from the full metadata; the listed metadata
+ * only includes what the submitter's privacy setting allows. Everything in it
+ * is written by the submitter's app, so verifiers recompute what they can from
+ * the photos themselves and treat the rest as self-reported.
+ *
+ * Submissions made before manifests existed use ipfs://<before photo CID> as
+ * dataURI; getManifestCid() tells the two apart.
+ */
+
+import type { Address } from 'viem'
+import { fetchIPFSJSON, type PhotoUploadResult } from '@/lib/blockchain/ipfs'
+import { redactPhotoMetadata, type PhotoFinding, type PhotoMetadata, type PrivateMetadata } from './photo-metadata'
+
+export const SUBMISSION_MANIFEST_SCHEMA = 'decleanup/submission-manifest'
+export const SUBMISSION_MANIFEST_VERSION = 1
+
+export interface ManifestPhoto {
+  // Public (web) copy of the photo
+  cid: string
+  name: string
+  type: string
+  size: number
+  metadata: PhotoMetadata | null
+  // Perceptual hash (dHash) for duplicate detection; null when the photo couldn't be decoded
+  phash?: string | null
+  // Full-resolution original, when the submitter chose to publish it
+  original?: string | null
+  // Metadata removed from the public copy and from `metadata`
+  hidden?: PrivateMetadata[]
+}
+
+export interface SubmissionManifest {
+  schema: typeof SUBMISSION_MANIFEST_SCHEMA
+  version: typeof SUBMISSION_MANIFEST_VERSION
+  createdAt: string
+  submitter: Address
+  location: { lat: number; lng: number }
+  photos: {
+    before: ManifestPhoto
+    after: ManifestPhoto
+  }
+  impactReport: string | null
+  recyclables: { photo: string | null; receipt: string | null }
+  findings: PhotoFinding[]
+}
+
+export function describeManifestPhoto(upload: PhotoUploadResult, phash: string | null): ManifestPhoto {
+  return {
+    cid: upload.hash,
+    ...upload.file,
+    metadata: redactPhotoMetadata(upload.metadata, upload.hidden),
+    phash,
+    original: upload.original?.hash ?? null,
+    hidden: upload.hidden,
+  }
+}
+
+/**
+ * The manifest CID behind a submission's dataURI, or null for submissions whose
+ * dataURI is the before photo itself.
+ */
+export function getManifestCid(dataURI: string | undefined, beforePhotoHash: string): string | null {
+  if (!dataURI?.startsWith('ipfs://')) return null
+  const cid = dataURI.slice('ipfs://'.length).trim()
+  return cid && cid !== beforePhotoHash ? cid : null
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+export function parseSubmissionManifest(raw: unknown): SubmissionManifest {
+  if (!isRecord(raw) || raw.schema !== SUBMISSION_MANIFEST_SCHEMA) {
+    throw new Error('Not a submission manifest')
+  }
+  if (raw.version !== SUBMISSION_MANIFEST_VERSION) {
+    throw new Error(`Submission manifest version ${String(raw.version)} is not supported`)
+  }
+  if (!isRecord(raw.photos) || !isRecord(raw.photos.before) || !isRecord(raw.photos.after)) {
+    throw new Error('Submission manifest is missing its photos')
+  }
+
+  return {
+    ...(raw as unknown as SubmissionManifest),
+    findings: Array.isArray(raw.findings) ? (raw.findings as PhotoFinding[]) : [],
+  }
+}
+
+export async function fetchSubmissionManifest(cid: string): Promise<SubmissionManifest> {
+  return parseSubmissionManifest(await fetchIPFSJSON(cid))
+}
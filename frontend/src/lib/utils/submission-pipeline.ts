@@ -0,0 +1,495 @@
+/**
+ * Resumable cleanup submission pipeline
+ *
+ * A submission runs through these stages, each persisted per wallet in localStorage:
+ *
+ *   pending → photos_uploaded → report_uploaded → tx_sent → tx_confirmed → recyclables_attached
+ *
+ * Photo metadata is read before upload and published with the file CIDs in a
+ * submission manifest, which becomes the submission's dataURI. Photos are
+ * uploaded as bounded web copies per the photo upload settings at start.
+ *
+ * IPFS CIDs and the transaction hash are saved as soon as they exist, so a reload
+ * or a failed transaction resumes from the last completed stage instead of
+ * re-uploading everything. Before createSubmission is sent again, the chain is
+ * checked for a submission with the same dataURI, and the account's nonces show
+ * whether the earlier transaction may still be pending; if it might, the caller
+ * must explicitly confirm the resend.
+ */
+
+import type { Address } from 'viem'
+import {
+  uploadPhotoToIPFS,
+  uploadJSONToIPFS,
+  loadPhotoUploadSettings,
+  IPFSUploadError,
+  type PhotoUploadSettings,
+} from '@/lib/blockchain/ipfs'
+import {
+  sendCleanupSubmission,
+  confirmCleanupSubmission,
+  findExistingSubmission,
+  attachRecyclablesToSubmission,
+  getSubmissionFee,
+  getAccountNonces,
+} from '@/lib/blockchain/contracts'
+import { ContractError, decodeContractError, type ContractErrorCode } from '@/lib/blockchain/errors'
+import { validateImpactReport, type ImpactReport } from './impact-report'
+import { checkPhotoConsistency, type PhotoFinding } from './photo-metadata'
+import { computePhotoHash } from './photo-hash'
+import {
+  SUBMISSION_MANIFEST_SCHEMA,
+  SUBMISSION_MANIFEST_VERSION,
+  describeManifestPhoto,
+  type ManifestPhoto,
+  type SubmissionManifest,
+} from './submission-manifest'
+
+export type SubmissionStage =
+  | 'pending'
+  | 'photos_uploaded'
+  | 'report_uploaded'
+  | 'tx_sent'
+  | 'tx_confirmed'
+  | 'recyclables_attached'
+
+const STAGE_ORDER: SubmissionStage[] = [
+  'pending',
+  'photos_uploaded',
+  'report_uploaded',
+  'tx_sent',
+  'tx_confirmed',
+  'recyclables_attached',
+]
+
+export interface SubmissionPipelineState {
+  version: 1
+  stage: SubmissionStage
+  // Identifies the photos this pipeline was started with
+  fingerprint: string
+  location: { lat: number; lng: number }
+  referrer: Address | null
+  hasImpactForm: boolean
+  // Kept until it is uploaded, then dropped in favour of impactFormDataHash
+  impactReport: ImpactReport | null
+  hasRecyclables: boolean
+  // Missing in pipelines started before photo upload settings existed
+  photoUpload?: PhotoUploadSettings
+  beforeHash?: string
+  afterHash?: string
+  // Uploaded photos with their (privacy-filtered) metadata, for the manifest
+  photos?: { before: ManifestPhoto; after: ManifestPhoto }
+  // Checked against the full metadata, before anything was hidden
+  findings?: PhotoFinding[]
+  manifestHash?: string
+  recyclablesPhotoHash?: string
+  recyclablesReceiptHash?: string
+  impactFormDataHash?: string
+  // Set right before createSubmission is sent; means the tx may exist on-chain
+  sendStartedAt?: number
+  // Pending nonce of the account at that moment, i.e. the nonce the transaction would get
+  sendNonce?: number
+  txHash?: `0x${string}`
+  submissionId?: string
+  createdAt: number
+  updatedAt: number
+}
+
+export interface SubmissionFiles {
+  beforePhoto: File
+  afterPhoto: File
+  recyclablesPhoto?: File | null
+  recyclablesReceipt?: File | null
+}
+
+export interface SubmissionPipelineInput {
+  location: { lat: number; lng: number }
+  referrer: Address | null
+  impactReport: ImpactReport | null
+  hasRecyclables: boolean
+}
+
+export interface SubmissionPipelineOptions {
+  // Send createSubmission again even though an earlier attempt may still be pending
+  // (after a TX_MAYBE_SENT error the user confirmed)
+  confirmResend?: boolean
+}
+
+export interface SubmissionPipelineResult {
+  submissionId: bigint
+  txHash?: `0x${string}`
+  location: { lat: number; lng: number }
+  // Attaching recyclables is non-fatal; the submission itself succeeded
+  recyclablesError?: ContractError
+}
+
+const pipelineKey = (address: Address) => `pending_cleanup_pipeline_${address.toLowerCase()}`
+
+// How long a resume waits for an earlier, possibly pending transaction to show up
+const SEND_RECHECK_TIMEOUT_MS = 2 * 60 * 1000
+const SEND_RECHECK_INTERVAL_MS = 10 * 1000
+
+// Send errors that don't tell whether the wallet broadcast the transaction. Any other
+// error (declined, wrong chain, missing funds, a revert in simulation) means it didn't.
+const UNCLEAR_SEND_ERRORS: ReadonlySet<ContractErrorCode> = new Set<ContractErrorCode>([
+  'NETWORK',
+  'TX_TIMEOUT',
+  'RPC_SYNC',
+  'UNKNOWN',
+])
+
+// One run per wallet at a time, so double clicks can't race each other
+const running = new Map<string, Promise<SubmissionPipelineResult>>()
+
+// Name the photo in upload errors, keeping the upload error's code for retry decisions
+const photoUploadFailed = (label: string) => (error: Error): never => {
+  console.error(`Error uploading ${label}:`, error)
+  const message = `Failed to upload ${label}: ${error.message}`
+  throw error instanceof IPFSUploadError
+    ? new IPFSUploadError(message, error.code, { status: error.status, retryAfter: error.retryAfter })
+    : new Error(message)
+}
+
+export function hasReachedStage(state: SubmissionPipelineState, stage: SubmissionStage): boolean {
+  return STAGE_ORDER.indexOf(state.stage) >= STAGE_ORDER.indexOf(stage)
+}
+
+export function getSubmissionFingerprint(files: SubmissionFiles): string {
+  return [files.beforePhoto, files.afterPhoto]
+    .map((file) => `${file.name}:${file.size}:${file.lastModified}`)
+    .join('|')
+}
+
+export function loadSubmissionPipeline(address: Address): SubmissionPipelineState | null {
+  if (typeof window === 'undefined') return null
+
+  const raw = localStorage.getItem(pipelineKey(address))
+  if (!raw) return null
+
+  try {
+    const state = JSON.parse(raw) as SubmissionPipelineState
+    return state.version === 1 && STAGE_ORDER.includes(state.stage) ? state : null
+  } catch (error) {
+    console.warn('[Pipeline] Ignoring unreadable submission pipeline state:', error)
+    return null
+  }
+}
+
+function saveSubmissionPipeline(address: Address, state: SubmissionPipelineState): void {
+  if (typeof window === 'undefined') return
+  localStorage.setItem(pipelineKey(address), JSON.stringify(state))
+}
+
+export function clearSubmissionPipeline(address: Address): void {
+  if (typeof window === 'undefined') return
+  localStorage.removeItem(pipelineKey(address))
+}
+
+/**
+ * Start a pipeline for a new submission, or keep the existing one when it was
+ * started for the same photos or has already reached the chain (a sent
+ * transaction must be finished, not replaced).
+ */
+export function startSubmissionPipeline(
+  address: Address,
+  input: SubmissionPipelineInput,
+  files: SubmissionFiles
+): SubmissionPipelineState {
+  const fingerprint = getSubmissionFingerprint(files)
+  const existing = loadSubmissionPipeline(address)
+
+  if (existing && (existing.fingerprint === fingerprint || hasReachedStage(existing, 'tx_sent'))) {
+    return existing
+  }
+
+  const now = Date.now()
+  const state: SubmissionPipelineState = {
+    version: 1,
+    stage: 'pending',
+    fingerprint,
+    location: input.location,
+    referrer: input.referrer,
+    hasImpactForm: !!input.impactReport,
+    impactReport: input.impactReport,
+    hasRecyclables: input.hasRecyclables,
+    photoUpload: loadPhotoUploadSettings(),
+    createdAt: now,
+    updatedAt: now,
+  }
+  saveSubmissionPipeline(address, state)
+  return state
+}
+
+/**
+ * Run (or resume) the wallet's pipeline from its last completed stage.
+ * `files` is only needed while photos are not uploaded yet, so a pipeline
+ * restored after a reload can be resumed without them.
+ */
+export function runSubmissionPipeline(
+  address: Address,
+  files: SubmissionFiles | null,
+  onProgress?: (state: SubmissionPipelineState) => void,
+  options: SubmissionPipelineOptions = {}
+): Promise<SubmissionPipelineResult> {
+  const key = address.toLowerCase()
+  const inFlight = running.get(key)
+  if (inFlight) return inFlight
+
+  const run = executePipeline(address, files, onProgress, options).finally(() => running.delete(key))
+  running.set(key, run)
+  return run
+}
+
+async function executePipeline(
+  address: Address,
+  files: SubmissionFiles | null,
+  onProgress?: (state: SubmissionPipelineState) => void,
+  options: SubmissionPipelineOptions = {}
+): Promise<SubmissionPipelineResult> {
+  const initial = loadSubmissionPipeline(address)
+  if (!initial) {
+    throw new Error('No submission in progress for this wallet')
+  }
+
+  let state = initial
+  const update = (patch: Partial<SubmissionPipelineState>) => {
+    state = { ...state, ...patch, updatedAt: Date.now() }
+    saveSubmissionPipeline(address, state)
+    onProgress?.(state)
+  }
+
+  onProgress?.(state)
+
+  if (state.stage === 'pending') {
+    if (!files) {
+      throw new Error('The photos for this submission are no longer available. Please add them again.')
+    }
+
+    console.log('[Pipeline] Uploading photos to IPFS...')
+    const settings = state.photoUpload ?? loadPhotoUploadSettings()
+    const [beforePhash, afterPhash] = await Promise.all([
+      computePhotoHash(files.beforePhoto),
+      computePhotoHash(files.afterPhoto),
+    ])
+    const [before, after] = await Promise.all([
+      uploadPhotoToIPFS(files.beforePhoto, settings).catch(photoUploadFailed('before photo')),
+      uploadPhotoToIPFS(files.afterPhoto, settings).catch(photoUploadFailed('after photo')),
+    ])
+
+    let recyclablesPhotoHash: string | undefined
+    let recyclablesReceiptHash: string | undefined
+    if (state.hasRecyclables && files.recyclablesPhoto) {
+      // Only the cleanup photos may have their originals published
+      const recyclablesSettings = { ...settings, keepOriginal: false }
+      try {
+        recyclablesPhotoHash = (await uploadPhotoToIPFS(files.recyclablesPhoto, recyclablesSettings)).hash
+        if (files.recyclablesReceipt) {
+          recyclablesReceiptHash = (await uploadPhotoToIPFS(files.recyclablesReceipt, recyclablesSettings, 'receipt')).hash
+        }
+      } catch (error) {
+        // Don't fail the submission if the recyclables upload fails, just log it
+        console.error('Error uploading recyclables photos to IPFS:', error)
+      }
+    }
+
+    update({
+      stage: 'photos_uploaded',
+      beforeHash: before.hash,
+      afterHash: after.hash,
+      photos: {
+        before: describeManifestPhoto(before, beforePhash),
+        after: describeManifestPhoto(after, afterPhash),
+      },
+      findings: checkPhotoConsistency({
+        before: before.metadata,
+        after: after.metadata,
+        location: state.location,
+        submittedAt: new Date(),
+      }),
+      recyclablesPhotoHash,
+      recyclablesReceiptHash,
+    })
+  }
+
+  if (state.stage === 'photos_uploaded') {
+    let impactFormDataHash: string | undefined
+    const validation = state.impactReport ? validateImpactReport(state.impactReport) : null
+    if (validation && !validation.valid) {
+      // Callers validate before starting; never publish a report readers would reject
+      console.error('Impact report failed schema validation, skipping upload:', validation.errors)
+    } else if (state.hasImpactForm && state.impactReport) {
+      try {
+        console.log('[Pipeline] Uploading impact report to IPFS...')
+        impactFormDataHash = (await uploadJSONToIPFS(state.impactReport, `impact-report-${state.createdAt}`)).hash
+      } catch (error) {
+        // Don't fail the submission if the report upload fails, just log it
+        console.error('Error uploading impact report data to IPFS:', error)
+      }
+    }
+
+    let manifestHash: string | undefined
+    if (state.photos) {
+      const manifest: SubmissionManifest = {
+        schema: SUBMISSION_MANIFEST_SCHEMA,
+        version: SUBMISSION_MANIFEST_VERSION,
+        createdAt: new Date().toISOString(),
+        submitter: address,
+        location: state.location,
+        photos: state.photos,
+        impactReport: impactFormDataHash ?? null,
+        recyclables: { photo: state.recyclablesPhotoHash ?? null, receipt: state.recyclablesReceiptHash ?? null },
+        findings: state.findings ?? checkPhotoConsistency({
+          before: state.photos.before.metadata,
+          after: state.photos.after.metadata,
+          location: state.location,
+          submittedAt: new Date(),
+        }),
+      }
+      try {
+        console.log('[Pipeline] Uploading submission manifest to IPFS...')
+        manifestHash = (await uploadJSONToIPFS(manifest, `submission-manifest-${state.createdAt}`)).hash
+      } catch (error) {
+        // Without a manifest the before photo is used as dataURI, as before manifests existed
+        console.error('Error uploading submission manifest to IPFS:', error)
+      }
+    }
+
+    update({ stage: 'report_uploaded', impactFormDataHash, manifestHash, impactReport: null })
+  }
+
+  if (state.stage === 'report_uploaded') {
+    // A previous attempt may have sent the transaction before the page closed
+    const dataURI = `ipfs://${state.manifestHash || state.beforeHash}`
+    const existingId = state.sendStartedAt
+      ? await findEarlierSend(address, dataURI, state.sendNonce, options.confirmResend ?? false)
+      : null
+
+    if (existingId !== null) {
+      console.log('[Pipeline] Submission already on-chain, skipping createSubmission:', existingId.toString())
+      update({ stage: 'tx_confirmed', submissionId: existingId.toString() })
+    } else {
+      const feeInfo = await getSubmissionFee()
+      const fee = feeInfo.enabled && feeInfo.fee > 0n ? feeInfo.fee : undefined
+
+      const sendNonce = await getAccountNonces(address).then(
+        (nonces) => nonces.pending,
+        (error) => {
+          console.warn('[Pipeline] Could not read the account nonce before sending:', error)
+          return undefined
+        }
+      )
+      update({ sendStartedAt: Date.now(), sendNonce })
+      let txHash: `0x${string}`
+      try {
+        txHash = await sendCleanupSubmission({
+          beforeHash: state.beforeHash!,
+          afterHash: state.afterHash!,
+          lat: state.location.lat,
+          lng: state.location.lng,
+          referrer: state.referrer,
+          hasImpactForm: !!state.impactFormDataHash,
+          impactReportHash: state.impactFormDataHash || '',
+          dataURI,
+          fee,
+        })
+      } catch (error) {
+        const decoded = decodeContractError(error)
+        if (!(await mayHaveBroadcast(address, decoded, sendNonce))) {
+          update({ sendStartedAt: undefined, sendNonce: undefined })
+        }
+        throw decoded
+      }
+      update({ stage: 'tx_sent', txHash })
+    }
+  }
+
+  if (state.stage === 'tx_sent') {
+    try {
+      const submissionId = await confirmCleanupSubmission(state.txHash!)
+      update({ stage: 'tx_confirmed', submissionId: submissionId.toString() })
+    } catch (error) {
+      const decoded = decodeContractError(error, { txHash: state.txHash })
+      if (decoded.code === 'TX_REVERTED') {
+        // Nothing was created on-chain; the uploaded CIDs can be reused for a retry
+        update({ stage: 'report_uploaded', txHash: undefined, sendStartedAt: undefined, sendNonce: undefined })
+      }
+      throw decoded
+    }
+  }
+
+  let recyclablesError: ContractError | undefined
+  if (state.stage === 'tx_confirmed') {
+    if (state.hasRecyclables && state.recyclablesPhotoHash) {
+      try {
+        console.log('[Pipeline] Attaching recyclables to submission', state.submissionId)
+        await attachRecyclablesToSubmission(
+          BigInt(state.submissionId!),
+          state.recyclablesPhotoHash,
+          state.recyclablesReceiptHash || ''
+        )
+      } catch (error) {
+        console.error('Error attaching recyclables (non-fatal):', error)
+        recyclablesError = decodeContractError(error)
+      }
+    }
+    update({ stage: 'recyclables_attached' })
+  }
+
+  const result: SubmissionPipelineResult = {
+    submissionId: BigInt(state.submissionId!),
+    txHash: state.txHash,
+    location: state.location,
+    recyclablesError,
+  }
+  clearSubmissionPipeline(address)
+  return result
+}
+
+/**
+ * Whether a failed createSubmission send may still have reached the chain
+ * Errors with an unclear outcome are settled by the account's pending nonce:
+ * if it hasn't moved past the one recorded before the send, nothing was broadcast.
+ */
+async function mayHaveBroadcast(address: Address, error: ContractError, sendNonce: number | undefined): Promise<boolean> {
+  if (!UNCLEAR_SEND_ERRORS.has(error.code)) return false
+  if (sendNonce === undefined) return true
+
+  const nonces = await getAccountNonces(address).catch((nonceError) => {
+    console.warn('[Pipeline] Could not read the account nonces:', nonceError)
+    return null
+  })
+  return !nonces || nonces.pending > sendNonce
+}
+
+/**
+ * Submission an earlier, interrupted send created, or null when it is safe to send again
+ * Nothing broadcast with the recorded nonce means nothing can land. Otherwise the
+ * transaction may be mined but not indexed yet, or still in the mempool, so it is
+ * waited for; if it doesn't show up, resending needs `confirmResend`.
+ */
+async function findEarlierSend(
+  address: Address,
+  dataURI: string,
+  sendNonce: number | undefined,
+  confirmResend: boolean
+): Promise<bigint | null> {
+  const existingId = await findExistingSubmission(address, dataURI)
+  if (existingId !== null || confirmResend) return existingId
+
+  if (sendNonce !== undefined) {
+    const nonces = await getAccountNonces(address).catch((error) => {
+      console.warn('[Pipeline] Could not read the account nonces:', error)
+      return null
+    })
+    if (nonces && nonces.pending <= sendNonce) return null
+  }
+
+  console.log('[Pipeline] An earlier createSubmission may still be pending, waiting for it...')
+  const deadline = Date.now() + SEND_RECHECK_TIMEOUT_MS
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, SEND_RECHECK_INTERVAL_MS))
+    const id = await findExistingSubmission(address, dataURI)
+    if (id !== null) return id
+  }
+  throw new ContractError('TX_MAYBE_SENT')
+}
@@ -0,0 +1,228 @@
+/**
+ * Verifier performance stats
+ *
+ * Derived from the review decisions in the submission index (one per
+ * SubmissionApproved/SubmissionRejected event) and the DCU each verifier was
+ * credited through DCURewardManager.rewardVerifier. Everything here is pure so
+ * the coordinator view can recompute it for any period without extra reads.
+ *
+ * Time-to-decision runs from submission to approval/rejection, so it measures
+ * how long volunteers wait (queue time included), not how long a review took.
+ */
+
+import type { Address } from 'viem'
+
+// Flags need enough decisions to mean anything
+export const MIN_DECISIONS_FOR_FLAGS = 10
+// How far a verifier's approval rate may drift from their peers' before it is flagged
+export const APPROVAL_RATE_FLAG_MARGIN = 0.2
+
+const DAY_SECONDS = 24 * 60 * 60
+const WEEK_SECONDS = 7 * DAY_SECONDS
+
+/* -------------------------------------------------------------------------- */
+/*                                   TYPES                                    */
+/* -------------------------------------------------------------------------- */
+
+export type DecisionOutcome = 'approved' | 'rejected'
+
+export interface VerifierDecision {
+  submissionId: number
+  verifier: Address // lowercased
+  outcome: DecisionOutcome
+  submittedAt: number // unix seconds
+  decidedAt: number // unix seconds
+  txHash?: `0x${string}`
+}
+
+export interface VerifierRewardAccrual {
+  verifier: Address // lowercased
+  amount: bigint
+  timestamp: number // unix seconds
+}
+
+export type StatsPeriod = 'day' | 'week'
+
+export interface DecisionBucket {
+  start: number // unix seconds, UTC day or ISO week (Monday) start
+  approvals: number
+  rejections: number
+}
+
+/**
+ * HIGH_APPROVAL_RATE: approves far more than peers (possible rubber-stamping)
+ * LOW_APPROVAL_RATE: rejects far more than peers
+ */
+export type VerifierFlag = 'HIGH_APPROVAL_RATE' | 'LOW_APPROVAL_RATE'
+
+export interface VerifierStats {
+  verifier: Address
+  approvals: number
+  rejections: number
+  decisions: number
+  approvalRate: number | null // 0..1, null without decisions
+  peerApprovalRate: number | null // Approval rate of all other verifiers together
+  medianDecisionSeconds: number | null
+  dcuEarned: bigint
+  lastDecisionAt: number | null
+  timeline: DecisionBucket[] // Oldest first
+  flags: VerifierFlag[]
+}
+
+export interface ReviewBacklog {
+  pending: number
+  oldestPendingSeconds: number | null
+  medianPendingSeconds: number | null
+}
+
+export interface VerifierStatsReport {
+  verifiers: VerifierStats[] // Most decisions first
+  overall: {
+    decisions: number
+    approvalRate: number | null
+    medianDecisionSeconds: number | null
+  }
+  backlog: ReviewBacklog
+  // Every decision, newest first
+  audit: VerifierDecision[]
+}
+
+export interface VerifierStatsOptions {
+  now?: number // unix seconds
+  period?: StatsPeriod
+  // Number of periods in each timeline, ending with the current one
+  periods?: number
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  HELPERS                                   */
+/* -------------------------------------------------------------------------- */
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+const rate = (approvals: number, decisions: number) => (decisions > 0 ? approvals / decisions : null)
+
+/** Start of the UTC day, or of the ISO week (Monday), holding the timestamp */
+export function periodStart(timestamp: number, period: StatsPeriod): number {
+  const day = Math.floor(timestamp / DAY_SECONDS) * DAY_SECONDS
+  if (period === 'day') return day
+  // 1970-01-01 was a Thursday: shift so weeks start on Monday
+  const weekday = (Math.floor(day / DAY_SECONDS) + 3) % 7
+  return day - weekday * DAY_SECONDS
+}
+
+function buildTimeline(decisions: VerifierDecision[], now: number, period: StatsPeriod, periods: number): DecisionBucket[] {
+  const step = period === 'day' ? DAY_SECONDS : WEEK_SECONDS
+  const last = periodStart(now, period)
+  const buckets = Array.from({ length: periods }, (_, i) => ({
+    start: last - (periods - 1 - i) * step,
+    approvals: 0,
+    rejections: 0,
+  }))
+  const first = buckets[0]?.start ?? last
+
+  for (const decision of decisions) {
+    if (decision.decidedAt < first) continue
+    const bucket = buckets[Math.floor((periodStart(decision.decidedAt, period) - first) / step)]
+    if (!bucket) continue
+    if (decision.outcome === 'approved') bucket.approvals++
+    else bucket.rejections++
+  }
+  return buckets
+}
+
+function flagsFor(approvalRate: number | null, peerApprovalRate: number | null, decisions: number): VerifierFlag[] {
+  if (decisions < MIN_DECISIONS_FOR_FLAGS || approvalRate === null || peerApprovalRate === null) return []
+  if (approvalRate - peerApprovalRate >= APPROVAL_RATE_FLAG_MARGIN) return ['HIGH_APPROVAL_RATE']
+  if (peerApprovalRate - approvalRate >= APPROVAL_RATE_FLAG_MARGIN) return ['LOW_APPROVAL_RATE']
+  return []
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   REPORT                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Per-verifier stats, overall figures and the review backlog
+ * @param decisions Review decisions, in any order
+ * @param rewards DCU credited to verifiers by rewardVerifier
+ * @param pendingSubmittedAt Submission times of the cleanups still awaiting review
+ */
+export function buildVerifierStats(
+  decisions: VerifierDecision[],
+  rewards: VerifierRewardAccrual[],
+  pendingSubmittedAt: number[],
+  { now = Math.floor(Date.now() / 1000), period = 'week', periods = 12 }: VerifierStatsOptions = {}
+): VerifierStatsReport {
+  const byVerifier = new Map<Address, VerifierDecision[]>()
+  for (const decision of decisions) {
+    const key = decision.verifier.toLowerCase() as Address
+    const own = byVerifier.get(key)
+    if (own) own.push(decision)
+    else byVerifier.set(key, [decision])
+  }
+
+  const earned = new Map<Address, bigint>()
+  for (const reward of rewards) {
+    const key = reward.verifier.toLowerCase() as Address
+    earned.set(key, (earned.get(key) ?? 0n) + reward.amount)
+    // Verifiers rewarded before any decision was indexed still get a row
+    if (!byVerifier.has(key)) byVerifier.set(key, [])
+  }
+
+  const totalApprovals = decisions.filter((decision) => decision.outcome === 'approved').length
+  const decisionSeconds = (list: VerifierDecision[]) =>
+    list.map((decision) => Math.max(0, decision.decidedAt - decision.submittedAt))
+
+  const verifiers: VerifierStats[] = Array.from(byVerifier, ([verifier, own]) => {
+    const approvals = own.filter((decision) => decision.outcome === 'approved').length
+    const approvalRate = rate(approvals, own.length)
+    const peerApprovalRate = rate(totalApprovals - approvals, decisions.length - own.length)
+    return {
+      verifier,
+      approvals,
+      rejections: own.length - approvals,
+      decisions: own.length,
+      approvalRate,
+      peerApprovalRate,
+      medianDecisionSeconds: median(decisionSeconds(own)),
+      dcuEarned: earned.get(verifier) ?? 0n,
+      lastDecisionAt: own.reduce<number | null>((last, decision) => Math.max(last ?? 0, decision.decidedAt), null),
+      timeline: buildTimeline(own, now, period, periods),
+      flags: flagsFor(approvalRate, peerApprovalRate, own.length),
+    }
+  }).sort((a, b) => b.decisions - a.decisions || a.verifier.localeCompare(b.verifier))
+
+  const pendingSeconds = pendingSubmittedAt.map((submittedAt) => Math.max(0, now - submittedAt))
+
+  return {
+    verifiers,
+    overall: {
+      decisions: decisions.length,
+      approvalRate: rate(totalApprovals, decisions.length),
+      medianDecisionSeconds: median(decisionSeconds(decisions)),
+    },
+    backlog: {
+      pending: pendingSubmittedAt.length,
+      oldestPendingSeconds: pendingSeconds.reduce<number | null>((oldest, seconds) => Math.max(oldest ?? 0, seconds), null),
+      medianPendingSeconds: median(pendingSeconds),
+    },
+    audit: [...decisions].sort((a, b) => b.decidedAt - a.decidedAt || b.submissionId - a.submissionId),
+  }
+}
+
+/** Human-readable duration for the stats view, e.g. "3h 20m" or "2d 4h" */
+export function formatDecisionTime(seconds: number | null): string {
+  if (seconds === null) return '—'
+  if (seconds < 60) return `${Math.round(seconds)}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ${minutes % 60}m`
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`
+}
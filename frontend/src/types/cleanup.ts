@@ -29,3 +29,30 @@ export interface CleanupVerification {
   notes?: string
 }
 
+
+export type RightsAssignment =
+  | ''
+  | 'attribution'
+  | 'non-commercial'
+  | 'no-derivatives'
+  | 'share-alike'
+  | 'all-rights-reserved'
+
+// Enhanced impact report form, as entered in the cleanup wizard (all free-text inputs are strings)
+export interface ImpactFormData {
+  locationType: string
+  area: string
+  areaUnit: 'sqm' | 'sqft'
+  weight: string
+  weightUnit: 'kg' | 'lbs'
+  bags: string
+  hours: string
+  minutes: string
+  wasteTypes: string[]
+  contributors: string[] // Contributor addresses
+  scopeOfWork: string // Auto-generated
+  rightsAssignment: RightsAssignment
+  environmentalChallenges: string
+  preventionIdeas: string
+  additionalNotes: string
+}
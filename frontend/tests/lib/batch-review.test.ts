@@ -0,0 +1,99 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for batch approve/reject outcomes read from Submission events
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { encodeAbiParameters, encodeEventTopics, type Log } from 'viem'
+import { SUBMISSION_ABI } from '@/lib/blockchain/abis'
+import { readBatchReviewOutcomes, RejectionReason, reviewCleanupsBatch } from '@/lib/blockchain/contracts'
+
+const mockWriteContract = jest.fn() as jest.Mock<any>
+const mockWaitForReceipt = jest.fn() as jest.Mock<any>
+
+jest.mock('@wagmi/core', () => ({
+  getAccount: () => ({ address: '0x00000000000000000000000000000000000000a1' }),
+  writeContract: (...args: any[]) => mockWriteContract(...args),
+  waitForTransactionReceipt: (...args: any[]) => mockWaitForReceipt(...args),
+  readContract: jest.fn(),
+  getPublicClient: jest.fn(),
+}))
+
+jest.mock('@/lib/blockchain/wagmi', () => ({
+  config: {},
+  REQUIRED_BLOCK_EXPLORER_URL: 'https://explorer.test',
+  CONTRACT_ADDRESSES: {},
+}))
+
+jest.mock('@/lib/blockchain/indexer', () => ({}))
+jest.mock('@/lib/blockchain/multicall', () => ({}))
+
+const VERIFIER = '0x00000000000000000000000000000000000000a1'
+const SUBMISSION = process.env.NEXT_PUBLIC_SUBMISSION_CONTRACT as `0x${string}`
+
+function submissionLog(eventName: 'SubmissionApproved' | 'SubmissionRejected' | 'SubmissionSkipped', id: bigint, reason = 0): Log {
+  const topics = encodeEventTopics({
+    abi: SUBMISSION_ABI,
+    eventName,
+    args: { submissionId: id, ...(eventName === 'SubmissionSkipped' ? { verifier: VERIFIER } : { approver: VERIFIER }) },
+  } as any)
+  const data =
+    eventName === 'SubmissionSkipped'
+      ? encodeAbiParameters([{ type: 'uint8' }], [reason])
+      : encodeAbiParameters([{ type: 'uint256' }], [1700000000n])
+  return { address: SUBMISSION, topics, data } as unknown as Log
+}
+
+describe('Batch review', () => {
+  beforeEach(() => {
+    mockWriteContract.mockReset()
+    mockWaitForReceipt.mockReset()
+  })
+
+  it('reports an outcome per ID, including skipped duplicates', () => {
+    const outcomes = readBatchReviewOutcomes(
+      [1n, 2n, 1n, 9n, 4n],
+      [
+        submissionLog('SubmissionApproved', 1n),
+        submissionLog('SubmissionSkipped', 2n, 2),
+        submissionLog('SubmissionSkipped', 1n, 1),
+        submissionLog('SubmissionSkipped', 9n, 0),
+        submissionLog('SubmissionSkipped', 4n, 3),
+      ]
+    )
+
+    expect(outcomes.map(({ cleanupId, status, reason }) => ({ cleanupId, status, reason }))).toEqual([
+      { cleanupId: 1n, status: 'approved', reason: undefined },
+      { cleanupId: 2n, status: 'skipped', reason: 'ALREADY_REJECTED' },
+      { cleanupId: 1n, status: 'skipped', reason: 'ALREADY_APPROVED' },
+      { cleanupId: 9n, status: 'skipped', reason: 'NOT_FOUND' },
+      { cleanupId: 4n, status: 'skipped', reason: 'ALREADY_WITHDRAWN' },
+    ])
+  })
+
+  it('splits large selections and keeps going after a failed chunk', async () => {
+    const ids = Array.from({ length: 51 }, (_, i) => BigInt(i))
+    mockWriteContract
+      .mockRejectedValueOnce(new Error('execution reverted'))
+      .mockResolvedValueOnce('0xbeef')
+    mockWaitForReceipt.mockResolvedValue({ status: 'success', logs: [submissionLog('SubmissionRejected', 50n)] })
+
+    const outcomes = await reviewCleanupsBatch('reject', ids, { reason: RejectionReason.Duplicate })
+
+    expect(mockWriteContract).toHaveBeenCalledTimes(2)
+    expect(mockWriteContract.mock.calls[0][1]).toMatchObject({ functionName: 'rejectSubmissions' })
+    expect(mockWriteContract.mock.calls[0][1].args[0]).toHaveLength(50)
+    expect(mockWriteContract.mock.calls[1][1].args.slice(1)).toEqual([RejectionReason.Duplicate, ''])
+    expect(outcomes).toHaveLength(51)
+    expect(outcomes.slice(0, 50).every((outcome) => outcome.status === 'failed')).toBe(true)
+    expect(outcomes[50]).toMatchObject({ cleanupId: 50n, status: 'rejected', txHash: '0xbeef' })
+  })
+
+  it('requires a reason to reject', async () => {
+    await expect(reviewCleanupsBatch('reject', [1n])).rejects.toThrow('rejection reason')
+    expect(mockWriteContract).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,166 @@
+/**
+ * Tests for the offline draft queue
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+
+const mockStartSubmissionPipeline = jest.fn() as jest.Mock<any>
+const mockRunSubmissionPipeline = jest.fn() as jest.Mock<any>
+const mockLoadSubmissionPipeline = jest.fn() as jest.Mock<any>
+const mockRecordPendingCleanup = jest.fn() as jest.Mock<any>
+
+jest.mock('@/lib/utils/submission-pipeline', () => ({
+  startSubmissionPipeline: (...args: any[]) => mockStartSubmissionPipeline(...args),
+  runSubmissionPipeline: (...args: any[]) => mockRunSubmissionPipeline(...args),
+  loadSubmissionPipeline: (...args: any[]) => mockLoadSubmissionPipeline(...args),
+  getSubmissionFingerprint: (files: { beforePhoto: File; afterPhoto: File }) =>
+    `${files.beforePhoto.name}|${files.afterPhoto.name}`,
+}))
+
+jest.mock('@/lib/utils/cleanup-data', () => ({
+  recordPendingCleanup: (...args: any[]) => mockRecordPendingCleanup(...args),
+}))
+
+// In-memory stand-in for the drafts object store
+const rows = new Map<string, any>()
+
+function fakeRequest<T>(result: T) {
+  const request: { result?: T; onsuccess?: () => void } = {}
+  queueMicrotask(() => {
+    request.result = result
+    request.onsuccess?.()
+  })
+  return request
+}
+
+const store = {
+  put: (draft: any) => {
+    rows.set(draft.id, draft)
+    return fakeRequest(draft.id)
+  },
+  get: (id: string) => fakeRequest(rows.get(id)),
+  getAll: () => fakeRequest([...rows.values()]),
+  delete: (id: string) => {
+    rows.delete(id)
+    return fakeRequest(undefined)
+  },
+}
+
+Object.assign(global, {
+  indexedDB: {
+    open: () => fakeRequest({ transaction: () => ({ objectStore: () => store }) }),
+  },
+})
+
+import { submitNextQueuedDraft, type CleanupDraft } from '@/lib/utils/cleanup-drafts'
+import { ContractError } from '@/lib/blockchain/errors'
+import { IPFSUploadError } from '@/lib/blockchain/ipfs'
+import { EMPTY_IMPACT_FORM } from '@/lib/utils/impact-report'
+
+const USER = '0x1234567890123456789012345678901234567890' as const
+const OTHER = '0x0000000000000000000000000000000000000bad' as const
+
+function draft(id: string, overrides: Partial<CleanupDraft> = {}): CleanupDraft {
+  return {
+    id,
+    status: 'queued',
+    step: 'recyclables',
+    beforePhoto: new File(['before'], `before-${id}.jpg`, { type: 'image/jpeg' }),
+    afterPhoto: new File(['after'], `after-${id}.jpg`, { type: 'image/jpeg' }),
+    beforePhotoAllowed: true,
+    afterPhotoAllowed: true,
+    location: { lat: 1.5, lng: 2.5 },
+    hasImpactForm: false,
+    enhancedData: EMPTY_IMPACT_FORM,
+    hasRecyclables: false,
+    recyclablesPhoto: null,
+    recyclablesReceipt: null,
+    createdAt: 1,
+    updatedAt: 1,
+    ...overrides,
+  }
+}
+
+const stored = (id: string): CleanupDraft | undefined => rows.get(id)
+
+describe('Cleanup draft queue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    rows.clear()
+    mockLoadSubmissionPipeline.mockReturnValue(null)
+    mockRunSubmissionPipeline.mockResolvedValue({ submissionId: 7n, location: { lat: 1.5, lng: 2.5 } })
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it("submits the oldest queued draft of this wallet and skips other wallets' drafts", async () => {
+    rows.set('mine', draft('mine', { createdAt: 3 }))
+    rows.set('unowned', draft('unowned', { createdAt: 2 }))
+    rows.set('theirs', draft('theirs', { createdAt: 1, owner: OTHER }))
+    rows.set('incomplete', draft('incomplete', { createdAt: 0, location: null }))
+
+    const result = await submitNextQueuedDraft(USER)
+
+    expect(result).toMatchObject({ draft: { id: 'unowned' }, submissionId: 7n })
+    expect(mockRunSubmissionPipeline).toHaveBeenCalledWith(
+      USER,
+      expect.objectContaining({ beforePhoto: expect.objectContaining({ name: 'before-unowned.jpg' }) })
+    )
+    expect(mockRecordPendingCleanup).toHaveBeenCalledWith(USER, 7n, { lat: 1.5, lng: 2.5 })
+    expect(stored('unowned')).toBeUndefined()
+    expect(stored('theirs')?.status).toBe('queued')
+  })
+
+  it('waits while an unfinished submission of other photos exists', async () => {
+    rows.set('a', draft('a'))
+    mockLoadSubmissionPipeline.mockReturnValue({ fingerprint: 'other.jpg|photos.jpg', stage: 'photos_uploaded' })
+
+    expect(await submitNextQueuedDraft(USER)).toBeNull()
+    expect(mockRunSubmissionPipeline).not.toHaveBeenCalled()
+    expect(stored('a')?.status).toBe('queued')
+  })
+
+  it('resumes a draft left submitting by a reload', async () => {
+    rows.set('a', draft('a', { status: 'submitting', owner: USER }))
+    mockLoadSubmissionPipeline.mockReturnValue({ fingerprint: 'before-a.jpg|after-a.jpg', stage: 'tx_sent' })
+
+    const result = await submitNextQueuedDraft(USER)
+
+    expect(result?.submissionId).toBe(7n)
+    expect(stored('a')).toBeUndefined()
+  })
+
+  it('requeues retryable failures and fails the rest', async () => {
+    rows.set('a', draft('a'))
+    mockRunSubmissionPipeline.mockRejectedValueOnce(new IPFSUploadError('Upload quota reached', 'UPLOAD_QUOTA_EXCEEDED'))
+    await submitNextQueuedDraft(USER)
+    expect(stored('a')).toMatchObject({ status: 'queued', owner: USER, lastError: 'Upload quota reached' })
+
+    mockRunSubmissionPipeline.mockRejectedValueOnce(new ContractError('NETWORK'))
+    await submitNextQueuedDraft(USER)
+    expect(stored('a')?.status).toBe('queued')
+
+    mockRunSubmissionPipeline.mockRejectedValueOnce(new ContractError('INSUFFICIENT_FUNDS'))
+    await submitNextQueuedDraft(USER)
+    expect(stored('a')?.status).toBe('failed')
+    // Failed drafts wait for the volunteer
+    expect(await submitNextQueuedDraft(USER)).toBeNull()
+  })
+
+  it('does not retry a network error once the transaction may have been sent', async () => {
+    rows.set('a', draft('a'))
+    mockRunSubmissionPipeline.mockImplementationOnce(async () => {
+      mockLoadSubmissionPipeline.mockReturnValue({
+        fingerprint: 'before-a.jpg|after-a.jpg',
+        stage: 'report_uploaded',
+        sendStartedAt: 1000,
+      })
+      throw new ContractError('NETWORK')
+    })
+
+    const result = await submitNextQueuedDraft(USER)
+
+    expect(stored('a')?.status).toBe('failed')
+    expect(result?.error).toMatch(/may already have been sent/)
+  })
+})
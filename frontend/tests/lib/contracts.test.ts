@@ -4,6 +4,7 @@
  */
 
 import { describe, it, expect, beforeEach, jest } from '@jest/globals'
+import { IMPACT_PRODUCT_NFT_ABI, SUBMISSION_ABI } from '@/lib/blockchain/abis'
 
 // Mock wagmi/viem
 jest.mock('wagmi', () => ({
@@ -35,6 +36,47 @@ describe('Contract Utilities', () => {
     expect(process.env.NEXT_PUBLIC_IMPACT_METADATA_CID).toBeDefined()
   })
 
+  it('should expose the full submission tuple from the generated ABI', () => {
+    const getSubmissionDetails = SUBMISSION_ABI.find(
+      item => item.type === 'function' && item.name === 'getSubmissionDetails'
+    ) as any
+    const fields = getSubmissionDetails.outputs[0].components.map((c: any) => c.name)
+
+    expect(fields).toEqual(expect.arrayContaining([
+      'dataURI',
+      'impactFormDataHash',
+      'approver',
+      'feePaid',
+      'feeRefunded',
+      'hasRecyclables',
+      'recyclablesPhotoHash',
+      'recyclablesReceiptHash',
+    ]))
+  })
+
+  it('should expose the cleanup credit views claims are read from', () => {
+    const views = IMPACT_PRODUCT_NFT_ABI
+      .filter(item => item.type === 'function' && item.stateMutability === 'view')
+      .map(item => (item as any).name)
+
+    expect(views).toEqual(expect.arrayContaining([
+      'getCleanupCredits',
+      'availableCleanupCredits',
+      'cleanupClaimLevel',
+      'cleanupCredited',
+      'claimableLevels',
+    ]))
+  })
+
+  it('should claim several levels in one payable call', () => {
+    const claimLevels = IMPACT_PRODUCT_NFT_ABI.find(
+      item => item.type === 'function' && item.name === 'claimLevels'
+    ) as any
+
+    expect(claimLevels.stateMutability).toBe('payable')
+    expect(claimLevels.inputs.map((input: any) => input.type)).toEqual(['uint256'])
+  })
+
   // Add more contract-related tests as needed
   // These would typically require mocking the blockchain calls
 })
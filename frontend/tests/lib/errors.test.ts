@@ -0,0 +1,91 @@
+/**
+ * Tests for the contract error catalog
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  UserRejectedRequestError,
+  encodeErrorResult,
+  parseEther,
+} from 'viem'
+import { SUBMISSION_ABI, IMPACT_PRODUCT_NFT_ABI, DCU_TOKEN_ABI } from '@/lib/blockchain/abis'
+import { ContractError, decodeContractError, decodeRevertData, getErrorMessage } from '@/lib/blockchain/errors'
+
+const SUBMISSION = '0x1234567890123456789012345678901234567890' as const
+
+describe('decodeContractError', () => {
+  it('should decode custom errors with named arguments', () => {
+    const data = encodeErrorResult({
+      abi: SUBMISSION_ABI,
+      errorName: 'SUBMISSION__InsufficientSubmissionFee',
+      args: [parseEther('0.01'), parseEther('0.05')],
+    })
+    const reverted = new ContractFunctionRevertedError({ abi: SUBMISSION_ABI, data, functionName: 'approveSubmission' })
+    const error = new ContractFunctionExecutionError(reverted, {
+      abi: SUBMISSION_ABI,
+      functionName: 'approveSubmission',
+      args: [1n],
+      contractAddress: SUBMISSION,
+    })
+
+    const decoded = decodeContractError(error)
+
+    expect(decoded).toBeInstanceOf(ContractError)
+    expect(decoded.code).toBe('SUBMISSION__InsufficientSubmissionFee')
+    expect(decoded.args).toEqual({ sent: parseEther('0.01'), required: parseEther('0.05') })
+    expect(decoded.localize('en')).toBe('The submission fee is 0.05 CELO, but only 0.01 CELO was sent.')
+  })
+
+  it('should decode errors raised by a nested contract', () => {
+    const data = encodeErrorResult({
+      abi: DCU_TOKEN_ABI,
+      errorName: 'TOKEN__SupplyCapExceeded',
+      args: [2n, 1n],
+    })
+
+    expect(decodeRevertData(data)).toEqual({
+      code: 'TOKEN__SupplyCapExceeded',
+      args: { attemptedSupply: 2n, supplyCap: 1n },
+    })
+  })
+
+  it('should map require() reasons to stable codes', () => {
+    const data = encodeErrorResult({
+      abi: [{ type: 'error', name: 'Error', inputs: [{ name: 'message', type: 'string' }] }],
+      errorName: 'Error',
+      args: ['You have reached the maximum level'],
+    })
+    const error = new ContractFunctionRevertedError({ abi: IMPACT_PRODUCT_NFT_ABI, data, functionName: 'upgradeNFT' })
+
+    expect(decodeContractError(error).code).toBe('NFT__MaxLevelReached')
+
+    const noCredit = new ContractFunctionRevertedError({
+      abi: IMPACT_PRODUCT_NFT_ABI,
+      data: encodeErrorResult({
+        abi: [{ type: 'error', name: 'Error', inputs: [{ name: 'message', type: 'string' }] }],
+        errorName: 'Error',
+        args: ['No approved cleanup to claim'],
+      }),
+      functionName: 'upgradeNFT',
+    })
+    expect(decodeContractError(noCredit).code).toBe('NFT__NoCleanupCredit')
+  })
+
+  it('should classify wallet and RPC failures and keep the transaction hash', () => {
+    const hash = `0x${'ab'.repeat(32)}` as const
+
+    expect(decodeContractError(new UserRejectedRequestError(new Error('User denied'))).code).toBe('USER_REJECTED')
+
+    const rpcError = Object.assign(new Error('block is out of range'), { code: -32019 })
+    const decoded = decodeContractError(rpcError, { txHash: hash })
+    expect(decoded.code).toBe('RPC_SYNC')
+    expect(decoded.txHash).toBe(hash)
+  })
+
+  it('should fall back to English for untranslated messages', () => {
+    expect(getErrorMessage('SUBMISSION__RefundFailed', {}, 'es')).toBe(getErrorMessage('SUBMISSION__RefundFailed', {}, 'en'))
+    expect(getErrorMessage('USER_REJECTED', {}, 'es')).toBe('Rechazaste la transacción en tu billetera.')
+  })
+})
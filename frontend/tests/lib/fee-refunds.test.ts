@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for submission fee refund status and bulk refunds
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { encodeAbiParameters, encodeEventTopics, type Log } from 'viem'
+import { SUBMISSION_ABI } from '@/lib/blockchain/abis'
+import { getFeeRefundStatus, refundSubmissionFees } from '@/lib/blockchain/contracts'
+
+const mockWriteContract = jest.fn() as jest.Mock<any>
+const mockWaitForReceipt = jest.fn() as jest.Mock<any>
+
+jest.mock('@wagmi/core', () => ({
+  getAccount: () => ({ address: '0x00000000000000000000000000000000000000a1' }),
+  writeContract: (...args: any[]) => mockWriteContract(...args),
+  waitForTransactionReceipt: (...args: any[]) => mockWaitForReceipt(...args),
+  readContract: jest.fn(),
+  getPublicClient: jest.fn(),
+}))
+
+jest.mock('@/lib/blockchain/wagmi', () => ({
+  config: {},
+  REQUIRED_BLOCK_EXPLORER_URL: 'https://explorer.test',
+  CONTRACT_ADDRESSES: {},
+}))
+
+jest.mock('@/lib/blockchain/indexer', () => ({}))
+jest.mock('@/lib/blockchain/multicall', () => ({}))
+
+const SUBMITTER = '0x00000000000000000000000000000000000000b2'
+
+function refundLog(id: bigint): Log {
+  const topics = encodeEventTopics({
+    abi: SUBMISSION_ABI,
+    eventName: 'SubmissionFeeRefunded',
+    args: { submissionId: id, submitter: SUBMITTER },
+  })
+  const data = encodeAbiParameters([{ type: 'uint256' }], [10n ** 16n])
+  return { address: process.env.NEXT_PUBLIC_SUBMISSION_CONTRACT, topics, data } as unknown as Log
+}
+
+describe('Fee refunds', () => {
+  beforeEach(() => {
+    mockWriteContract.mockReset()
+    mockWaitForReceipt.mockReset()
+  })
+
+  it('derives the refund status of a cleanup', () => {
+    const cleanup = { verified: false, rejected: false, feePaid: 10n, feeRefunded: false }
+    expect(getFeeRefundStatus({ ...cleanup, feePaid: 0n })).toBe('none')
+    expect(getFeeRefundStatus({ ...cleanup, feePaid: undefined })).toBe('none')
+    expect(getFeeRefundStatus(cleanup)).toBe('pending')
+    expect(getFeeRefundStatus({ ...cleanup, verified: true })).toBe('kept')
+    expect(getFeeRefundStatus({ ...cleanup, rejected: true })).toBe('refundable')
+    expect(getFeeRefundStatus({ ...cleanup, rejected: true, feeRefunded: true })).toBe('refunded')
+  })
+
+  it('refunds in chunks and reports the IDs the contract refunded', async () => {
+    const ids = Array.from({ length: 60 }, (_, i) => BigInt(i))
+    mockWriteContract.mockResolvedValueOnce('0xaaa').mockResolvedValueOnce('0xbbb')
+    mockWaitForReceipt
+      .mockResolvedValueOnce({ status: 'success', logs: [refundLog(3n), refundLog(7n)] })
+      .mockResolvedValueOnce({ status: 'success', logs: [refundLog(55n)] })
+
+    expect(await refundSubmissionFees(ids)).toEqual([3n, 7n, 55n])
+    expect(mockWriteContract).toHaveBeenCalledTimes(2)
+    expect(mockWriteContract.mock.calls[0][1]).toMatchObject({ functionName: 'refundSubmissionFees' })
+    expect(mockWriteContract.mock.calls[1][1].args[0]).toHaveLength(10)
+  })
+
+  it('surfaces a reverted refund transaction', async () => {
+    mockWriteContract.mockResolvedValueOnce('0xccc')
+    mockWaitForReceipt.mockResolvedValueOnce({ status: 'reverted', logs: [] })
+
+    await expect(refundSubmissionFees([1n])).rejects.toMatchObject({ code: 'TX_REVERTED', txHash: '0xccc' })
+  })
+})
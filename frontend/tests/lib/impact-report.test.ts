@@ -0,0 +1,78 @@
+/**
+ * Tests for the versioned impact report schema
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  buildImpactReport,
+  validateImpactReport,
+  parseImpactReport,
+  summarizeImpactReports,
+  EMPTY_IMPACT_FORM,
+  IMPACT_REPORT_VERSION,
+} from '@/lib/utils/impact-report'
+
+const USER = '0x1234567890123456789012345678901234567890' as const
+const permissions = { beforePhotoAllowed: true, afterPhotoAllowed: false, userAddress: USER }
+
+describe('impact report schema', () => {
+  it('should build a valid report with canonical metrics', () => {
+    const report = buildImpactReport(
+      { ...EMPTY_IMPACT_FORM, locationType: 'Beach', weight: '10', weightUnit: 'lbs', area: '100', areaUnit: 'sqft', hours: '1', minutes: '' },
+      permissions
+    )
+
+    expect(report).not.toBeNull()
+    expect(report!.version).toBe(IMPACT_REPORT_VERSION)
+    expect(report!.metrics).toEqual({ weightKg: 4.536, areaSqm: 9.29, durationMinutes: 60 })
+    expect(validateImpactReport(report)).toEqual({ valid: true, errors: [] })
+  })
+
+  it('should reject invalid contributors and unrealistic values', () => {
+    const report = buildImpactReport(
+      { ...EMPTY_IMPACT_FORM, locationType: 'Park', weight: '5000000', contributors: ['not-an-address'] },
+      permissions
+    )
+
+    const { valid, errors } = validateImpactReport(report)
+    expect(valid).toBe(false)
+    expect(errors).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('not-an-address'),
+        expect.stringContaining('Weight (kg) is unrealistically large'),
+      ])
+    )
+  })
+
+  it('should migrate unversioned reports', () => {
+    const legacy = {
+      locationType: 'River',
+      area: '50',
+      areaUnit: 'sqm',
+      weight: '22',
+      weightUnit: 'lbs',
+      bags: '3',
+      hours: '2',
+      minutes: '30',
+      wasteTypes: ['Plastic'],
+      contributors: [''],
+      beforePhotoAllowed: true,
+      afterPhotoAllowed: true,
+      timestamp: '2025-01-01T00:00:00.000Z',
+      userAddress: USER,
+    }
+
+    const { report, migratedFrom, issues } = parseImpactReport(legacy)
+    expect(migratedFrom).toBe(1)
+    expect(issues).toEqual([])
+    expect(report.bags).toBe(3)
+    expect(report.contributors).toEqual([])
+    expect(report.metrics).toEqual({ weightKg: 9.979, areaSqm: 50, durationMinutes: 150 })
+    expect(summarizeImpactReports([report, report]).durationMinutes).toBe(300)
+  })
+
+  it('should refuse reports from a newer schema version', () => {
+    expect(() => parseImpactReport({ version: IMPACT_REPORT_VERSION + 1 })).toThrow(/newer than this app supports/)
+    expect(() => parseImpactReport('nope')).toThrow(/not a JSON object/)
+  })
+})
@@ -0,0 +1,201 @@
+/**
+ * Tests for the submission indexer's log reduction and chunked sync
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+
+const mockGetLogs = jest.fn() as jest.Mock<any>
+const mockGetBlockNumber = jest.fn() as jest.Mock<any>
+
+jest.mock('@/lib/blockchain/wagmi', () => ({ config: {}, REQUIRED_CHAIN_ID: 11142220 }))
+jest.mock('@wagmi/core', () => ({ getPublicClient: () => ({}) }))
+jest.mock('viem/actions', () => ({
+  getLogs: (...args: any[]) => mockGetLogs(...args),
+  getBlockNumber: (...args: any[]) => mockGetBlockNumber(...args),
+}))
+jest.mock('@/lib/blockchain/contracts', () => ({
+  CleanupStatus: { Pending: 0, Approved: 1, Rejected: 2, Withdrawn: 3 },
+}))
+
+import {
+  planLogChunks,
+  reduceSubmissionLogs,
+  type IndexedLog,
+  type IndexedSubmission,
+} from '@/lib/blockchain/indexer'
+import { CleanupStatus } from '@/lib/blockchain/contracts'
+
+const ALICE = '0x00000000000000000000000000000000000A2493'
+const VERIFIER = '0x0000000000000000000000000000000000000FED'
+const tx = (n: number) => `0x${n.toString(16).padStart(64, '0')}` as const
+
+let logIndex = 0
+function log(eventName: string, blockNumber: number, args: Record<string, unknown>): IndexedLog {
+  return { eventName, blockNumber: BigInt(blockNumber), logIndex: logIndex++, transactionHash: tx(blockNumber), args } as any
+}
+
+const created = (id: number, block: number) =>
+  log('SubmissionCreated', block, { submissionId: BigInt(id), submitter: ALICE, dataURI: `ipfs://cid-${id}`, timestamp: 1000n })
+const decided = (eventName: 'SubmissionApproved' | 'SubmissionRejected', id: number, block: number) =>
+  log(eventName, block, { submissionId: BigInt(id), approver: VERIFIER, timestamp: 2000n })
+
+const stored = (id: number, overrides: Partial<IndexedSubmission> = {}): IndexedSubmission => ({
+  id,
+  submitter: ALICE.toLowerCase() as IndexedSubmission['submitter'],
+  dataURI: `ipfs://cid-${id}`,
+  timestamp: 1000,
+  status: CleanupStatus.Pending,
+  rewarded: false,
+  hasRecyclables: false,
+  blockNumber: 1,
+  transactionHash: tx(1),
+  ...overrides,
+})
+
+describe('Submission indexer', () => {
+  describe('reduceSubmissionLogs', () => {
+    it('creates pending rows with a lowercased submitter', () => {
+      const { submissions } = reduceSubmissionLogs([created(1, 5)], new Map())
+
+      expect(submissions.get(1)).toEqual(stored(1, { blockNumber: 5, transactionHash: tx(5) }))
+    })
+
+    it('applies approvals, rejections and withdrawals to stored rows', () => {
+      const existing = new Map([1, 2, 3].map((id) => [id, stored(id)] as const))
+      const { submissions } = reduceSubmissionLogs(
+        [
+          decided('SubmissionApproved', 1, 7),
+          decided('SubmissionRejected', 2, 7),
+          log('SubmissionWithdrawn', 8, { submissionId: 3n, timestamp: 3000n }),
+        ],
+        existing
+      )
+
+      expect(submissions.get(1)).toMatchObject({
+        status: CleanupStatus.Approved,
+        approver: VERIFIER.toLowerCase(),
+        processedTimestamp: 2000,
+        decisionTransactionHash: tx(7),
+        rewarded: true,
+      })
+      expect(submissions.get(2)).toMatchObject({ status: CleanupStatus.Rejected, rewarded: false })
+      expect(submissions.get(3)).toMatchObject({ status: CleanupStatus.Withdrawn, processedTimestamp: 3000 })
+      // Input rows are left untouched
+      expect(existing.get(1)?.status).toBe(CleanupStatus.Pending)
+    })
+
+    it('applies logs in chain order whatever order they arrive in', () => {
+      const { submissions } = reduceSubmissionLogs(
+        [decided('SubmissionApproved', 1, 9), created(1, 4)],
+        new Map()
+      )
+
+      expect(submissions.get(1)).toMatchObject({ status: CleanupStatus.Approved, blockNumber: 4 })
+    })
+
+    it('keeps recyclables and status when a creation log is re-read', () => {
+      const existing = new Map([[1, stored(1, { status: CleanupStatus.Approved, rewarded: true })]])
+      const { submissions } = reduceSubmissionLogs(
+        [
+          log('RecyclablesSubmitted', 6, { submissionId: 1n, recyclablesPhotoHash: 'photo', recyclablesReceiptHash: 'receipt' }),
+          created(1, 1),
+        ],
+        existing
+      )
+
+      expect(submissions.get(1)).toMatchObject({
+        status: CleanupStatus.Approved,
+        rewarded: true,
+        hasRecyclables: true,
+        recyclablesPhotoHash: 'photo',
+      })
+    })
+
+    it('skips events for unknown submissions and collects referrals', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+      const { submissions, referrals } = reduceSubmissionLogs(
+        [
+          decided('SubmissionApproved', 42, 3),
+          log('ReferralRegistered', 3, { invitee: ALICE, referrer: VERIFIER }),
+        ],
+        new Map()
+      )
+
+      expect(submissions.size).toBe(0)
+      expect(referrals).toEqual([{ invitee: ALICE.toLowerCase(), referrer: VERIFIER, blockNumber: 3 }])
+      expect(warn).toHaveBeenCalledWith('[indexer] SubmissionApproved for unknown submission 42')
+      warn.mockRestore()
+    })
+  })
+
+  describe('planLogChunks', () => {
+    it('starts at the deployment block and caps the last chunk at the latest block', () => {
+      expect(planLogChunks(null, 250n, 100n, 70n)).toEqual([
+        { fromBlock: 100n, toBlock: 169n },
+        { fromBlock: 170n, toBlock: 239n },
+        { fromBlock: 240n, toBlock: 250n },
+      ])
+    })
+
+    it('resumes after the checkpoint and is empty once caught up', () => {
+      expect(planLogChunks(169n, 200n, 100n, 70n)).toEqual([{ fromBlock: 170n, toBlock: 200n }])
+      expect(planLogChunks(200n, 200n, 100n, 70n)).toEqual([])
+    })
+  })
+
+  describe('syncSubmissionIndex', () => {
+    const env = { ...process.env }
+
+    // Fresh module state per test, reading the env vars set below
+    const loadIndexer = (): typeof import('@/lib/blockchain/indexer') => {
+      let indexer: typeof import('@/lib/blockchain/indexer') | undefined
+      jest.isolateModules(() => {
+        indexer = require('@/lib/blockchain/indexer')
+      })
+      return indexer!
+    }
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      process.env.NEXT_PUBLIC_SUBMISSION_CONTRACT = '0x00000000000000000000000000000000000005B5'
+      process.env.NEXT_PUBLIC_SUBMISSION_START_BLOCK = '100'
+      mockGetBlockNumber.mockResolvedValue(150n)
+      mockGetLogs.mockResolvedValue([created(1, 120)])
+    })
+
+    afterEach(() => {
+      process.env = { ...env }
+    })
+
+    it('keeps the index in memory when IndexedDB is unavailable', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+      jest.spyOn(console, 'log').mockImplementation(() => {})
+      const indexer = loadIndexer()
+
+      await indexer.syncSubmissionIndex()
+
+      expect(mockGetLogs).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ fromBlock: 100n, toBlock: 150n }))
+      expect(await indexer.queryIndexedSubmissions({ user: ALICE as IndexedSubmission['submitter'] })).toEqual([
+        stored(1, { blockNumber: 120, transactionHash: tx(120) }),
+      ])
+      expect(warn).toHaveBeenCalledWith('[indexer] IndexedDB unavailable, keeping the index in memory:', expect.any(Error))
+
+      // The next sync resumes after the in-memory checkpoint
+      mockGetBlockNumber.mockResolvedValue(160n)
+      mockGetLogs.mockResolvedValue([])
+      await indexer.syncSubmissionIndex()
+      expect(mockGetLogs).toHaveBeenLastCalledWith(expect.anything(), expect.objectContaining({ fromBlock: 151n }))
+      jest.restoreAllMocks()
+    })
+
+    it('refuses to scan from block 0 without a deployment block', async () => {
+      delete process.env.NEXT_PUBLIC_SUBMISSION_START_BLOCK
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+      const indexer = loadIndexer()
+
+      await expect(indexer.syncSubmissionIndex()).rejects.toThrow('NEXT_PUBLIC_SUBMISSION_START_BLOCK is not set')
+      expect(mockGetLogs).not.toHaveBeenCalled()
+      jest.restoreAllMocks()
+    })
+  })
+})
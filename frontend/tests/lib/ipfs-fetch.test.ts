@@ -0,0 +1,167 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the gateway-racing IPFS fetcher and its CID verification
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals'
+import { createHash } from 'crypto'
+import { computeRawCid } from '@/lib/storage/cid'
+import { clearIPFSCache, fetchIPFSContent, parseIPFSRef } from '@/lib/blockchain/ipfs-fetch'
+import { IPFSIntegrityError } from '@/lib/blockchain/ipfs-verify'
+
+const mockFetch = global.fetch as jest.Mock<any>
+const encoder = new TextEncoder()
+
+/* -------------------------------------------------------------------------- */
+/*                                  FIXTURES                                  */
+/* -------------------------------------------------------------------------- */
+
+function concat(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(Buffer.concat(parts))
+}
+
+function varint(value: number): Uint8Array {
+  const bytes: number[] = []
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80)
+    value = Math.floor(value / 128)
+  }
+  bytes.push(value)
+  return new Uint8Array(bytes)
+}
+
+function field(tag: number, bytes: Uint8Array): Uint8Array {
+  return concat(new Uint8Array([tag]), varint(bytes.length), bytes)
+}
+
+function cidBytes(codec: number, block: Uint8Array): Uint8Array {
+  const digest = createHash('sha256').update(block).digest()
+  return concat(new Uint8Array([0x01, codec, 0x12, 0x20]), digest)
+}
+
+function cidString(bytes: Uint8Array): string {
+  const alphabet = 'abcdefghijklmnopqrstuvwxyz234567'
+  let output = 'b'
+  let buffer = 0
+  let bits = 0
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += alphabet[(buffer >> (bits - 5)) & 31]
+      bits -= 5
+    }
+    buffer &= (1 << bits) - 1
+  }
+  return bits > 0 ? output + alphabet[(buffer << (5 - bits)) & 31] : output
+}
+
+// dag-pb node with a UnixFS type and named links
+function pbNode(unixfsType: number, links: Array<{ cid: Uint8Array; name: string }>): Uint8Array {
+  const encodedLinks = links.map((link) => field(0x12, concat(field(0x0a, link.cid), field(0x12, encoder.encode(link.name)))))
+  return concat(...encodedLinks, field(0x0a, new Uint8Array([0x08, unixfsType])))
+}
+
+function car(blocks: Array<{ cid: Uint8Array; data: Uint8Array }>): Uint8Array<ArrayBuffer> {
+  const header = new Uint8Array([0xa2, 0x65, ...encoder.encode('roots'), 0x80, 0x67, ...encoder.encode('version'), 0x01])
+  return concat(
+    varint(header.length),
+    header,
+    ...blocks.map((block) => concat(varint(block.cid.length + block.data.length), block.cid, block.data))
+  )
+}
+
+// A directory holding report.json, stored as a UnixFS file of two raw chunks
+function buildDirectory(chunks: string[]) {
+  const leaves = chunks.map((chunk) => {
+    const data = encoder.encode(chunk)
+    return { cid: cidBytes(0x55, data), data }
+  })
+  const file = pbNode(2, leaves.map((leaf) => ({ cid: leaf.cid, name: '' })))
+  const fileCid = cidBytes(0x70, file)
+  const directory = pbNode(1, [{ cid: fileCid, name: 'report.json' }])
+  const directoryCid = cidBytes(0x70, directory)
+  return {
+    root: cidString(directoryCid),
+    blocks: [{ cid: directoryCid, data: directory }, { cid: fileCid, data: file }, ...leaves],
+  }
+}
+
+function respond(body: Uint8Array, contentType: string): Response {
+  return new Response(Buffer.from(body), { status: 200, headers: { 'Content-Type': contentType } })
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   TESTS                                    */
+/* -------------------------------------------------------------------------- */
+
+describe('IPFS fetch', () => {
+  beforeEach(async () => {
+    mockFetch.mockReset()
+    await clearIPFSCache()
+  })
+
+  it('parses CIDs, ipfs:// URIs and gateway URLs', () => {
+    const cid = computeRawCid(encoder.encode('hello world'))
+
+    expect(parseIPFSRef(`ipfs://${cid}/a/b%20c.json`)).toMatchObject({ path: `${cid}/a/b%20c.json`, segments: ['a', 'b c.json'] })
+    expect(parseIPFSRef(`https://gateway.pinata.cloud/ipfs/${cid}?filename=x`)).toMatchObject({ path: cid, segments: [] })
+    expect(parseIPFSRef(`https://${cid}.ipfs.dweb.link/img.png`)).toMatchObject({ path: `${cid}/img.png` })
+    expect(parseIPFSRef('QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG')?.cid.version).toBe(0)
+    expect(parseIPFSRef('/images/level1.png')).toBeNull()
+    expect(parseIPFSRef('')).toBeNull()
+  })
+
+  it('skips a gateway serving bytes that do not match a raw CID', async () => {
+    const bytes = encoder.encode('{"ok":true}')
+    const cid = computeRawCid(bytes)
+    mockFetch
+      .mockResolvedValueOnce(respond(encoder.encode('{"ok":false}'), 'application/json'))
+      .mockResolvedValueOnce(respond(bytes, 'application/json'))
+
+    const content = await fetchIPFSContent(cid)
+
+    expect(content.verified).toBe(true)
+    expect(new TextDecoder().decode(content.bytes)).toBe('{"ok":true}')
+    expect(content.contentType).toBe('application/json')
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+
+    // Served from the cache afterwards
+    await fetchIPFSContent(`ipfs://${cid}`)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('resolves a path through a verified CAR file and reassembles the chunks', async () => {
+    const { root, blocks } = buildDirectory(['{"level":', '3}'])
+    mockFetch.mockResolvedValue(respond(car(blocks), 'application/vnd.ipld.car; version=1'))
+
+    const content = await fetchIPFSContent(`ipfs://${root}/report.json`)
+
+    expect(mockFetch.mock.calls[0][0]).toBe(`https://ipfs.io/ipfs/${root}/report.json?format=car&dag-scope=entity`)
+    expect(content.verified).toBe(true)
+    expect(JSON.parse(new TextDecoder().decode(content.bytes))).toEqual({ level: 3 })
+  })
+
+  it('rejects when every gateway serves tampered content', async () => {
+    const { root, blocks } = buildDirectory(['{"level":', '3}'])
+    const tampered = blocks.map((block, index) =>
+      index === blocks.length - 1 ? { cid: block.cid, data: encoder.encode('9}') } : block
+    )
+    mockFetch.mockImplementation(async () => respond(car(tampered), 'application/vnd.ipld.car'))
+
+    await expect(fetchIPFSContent(`${root}/report.json`)).rejects.toBeInstanceOf(IPFSIntegrityError)
+  })
+
+  it('falls back to unverified content when no gateway returns a CAR file', async () => {
+    const { root } = buildDirectory(['{"level":', '3}'])
+    mockFetch.mockImplementation(async () => respond(encoder.encode('{"level":3}'), 'application/json'))
+
+    const content = await fetchIPFSContent(`${root}/report.json`)
+
+    expect(content.verified).toBe(false)
+    expect(content.contentType).toBe('application/json')
+  })
+})
@@ -0,0 +1,57 @@
+/**
+ * Tests for photo preprocessing before IPFS upload
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { preparePhotoForUpload } from '@/lib/blockchain/ipfs'
+import { readBlob } from '@/lib/utils/photo-metadata'
+
+// ftyp box of a HEIC file; browsers other than Safari can't decode it
+const heic = () =>
+  new File([new Uint8Array([0, 0, 0, 24]), new TextEncoder().encode('ftypheic'), new Uint8Array(12)], 'IMG_0001.HEIC', {
+    type: 'image/heic',
+  })
+
+// Small JPEG whose only metadata is an XMP packet with the location
+const xmpJpeg = () => {
+  const xmp = new TextEncoder().encode(
+    'http://ns.adobe.com/xap/1.0/\0<x:xmpmeta exif:GPSLatitude="52,31.2N" exif:GPSLongitude="13,24.3E"/>'
+  )
+  return new File(
+    [
+      new Uint8Array([0xff, 0xd8, 0xff, 0xe1, (xmp.byteLength + 2) >> 8, (xmp.byteLength + 2) & 0xff]),
+      xmp,
+      new Uint8Array([0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0xff, 0xd9]),
+    ],
+    'photo.jpg',
+    { type: 'image/jpeg' }
+  )
+}
+
+describe('photo preprocessing', () => {
+  it('should refuse to publish photos it cannot clean when location is hidden', async () => {
+    await expect(preparePhotoForUpload(heic(), 'hide_location')).rejects.toThrow(
+      "This HEIC photo can't be converted in this browser"
+    )
+  })
+
+  it('should upload undecodable photos as they are when nothing is hidden', async () => {
+    const file = heic()
+    const prepared = await preparePhotoForUpload(file, 'keep_all')
+    expect(prepared.web).toBe(file)
+    expect(prepared.converted).toBe(false)
+    expect(prepared.metadata.format).toBe('heic')
+  })
+
+  it('should remove XMP location data from JPEGs it does not re-encode', async () => {
+    const prepared = await preparePhotoForUpload(xmpJpeg(), 'hide_location')
+    const published = new TextDecoder('latin1').decode(new Uint8Array(await readBlob(prepared.web)))
+
+    expect(prepared.converted).toBe(false)
+    expect(published).not.toContain('GPSLatitude')
+    expect(published).not.toContain('GPSLongitude')
+
+    const kept = xmpJpeg()
+    expect((await preparePhotoForUpload(kept, 'keep_all')).web).toBe(kept)
+  })
+})
@@ -0,0 +1,70 @@
+/**
+ * Tests for the batched read layer
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+
+const mockMulticall = jest.fn() as jest.Mock<any>
+const mockReadContract = jest.fn() as jest.Mock<any>
+
+jest.mock('@wagmi/core', () => ({
+  multicall: (...args: any[]) => mockMulticall(...args),
+  readContract: (...args: any[]) => mockReadContract(...args),
+}))
+
+jest.mock('@/lib/blockchain/wagmi', () => ({
+  config: {},
+}))
+
+import { batchReadContracts } from '@/lib/blockchain/multicall'
+
+const makeCalls = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({
+    address: '0x1234567890123456789012345678901234567890' as const,
+    abi: [],
+    functionName: 'getSubmissionDetails',
+    args: [BigInt(i)],
+  })) as any[]
+
+describe('batchReadContracts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should chunk calls and keep results in order', async () => {
+    mockMulticall.mockImplementation(async (_config: any, { contracts }: any) =>
+      contracts.map((call: any) => ({ status: 'success', result: call.args[0] }))
+    )
+
+    const results = await batchReadContracts(makeCalls(120))
+
+    expect(mockMulticall).toHaveBeenCalledTimes(3)
+    expect(results).toHaveLength(120)
+    expect(results[119]).toEqual({ status: 'success', result: 119n })
+  })
+
+  it('should isolate per-call failures', async () => {
+    mockMulticall.mockResolvedValue([
+      { status: 'success', result: 'ok' },
+      { status: 'failure', error: new Error('SUBMISSION__SubmissionNotFound') },
+    ])
+
+    const results = await batchReadContracts(makeCalls(2))
+
+    expect(results[0]).toEqual({ status: 'success', result: 'ok' })
+    expect(results[1].status).toBe('failure')
+  })
+
+  it('should fall back to individual reads when a multicall fails', async () => {
+    mockMulticall.mockRejectedValue(new Error('Chain does not support multicall'))
+    mockReadContract
+      .mockResolvedValueOnce('first')
+      .mockRejectedValueOnce(new Error('execution reverted'))
+
+    const results = await batchReadContracts(makeCalls(2))
+
+    expect(mockReadContract).toHaveBeenCalledTimes(2)
+    expect(results[0]).toEqual({ status: 'success', result: 'first' })
+    expect(results[1].status).toBe('failure')
+  })
+})
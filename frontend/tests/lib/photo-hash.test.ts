@@ -0,0 +1,177 @@
+/**
+ * Tests for perceptual photo hashes and duplicate matching
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+
+const mockFetchIPFSBlob = jest.fn() as jest.Mock<any>
+const mockComputePhotoHash = jest.fn() as jest.Mock<any>
+const mockFetchSubmissionManifest = jest.fn() as jest.Mock<any>
+
+jest.mock('@/lib/blockchain/wagmi', () => ({ REQUIRED_CHAIN_ID: 11142220 }))
+jest.mock('@/lib/blockchain/ipfs', () => ({
+  fetchIPFSBlob: (...args: any[]) => mockFetchIPFSBlob(...args),
+}))
+jest.mock('@/lib/utils/photo-hash', () => ({
+  ...(jest.requireActual('@/lib/utils/photo-hash') as object),
+  computePhotoHash: (...args: any[]) => mockComputePhotoHash(...args),
+}))
+jest.mock('@/lib/utils/submission-manifest', () => ({
+  getManifestCid: (dataURI: string | undefined) => dataURI ?? null,
+  fetchSubmissionManifest: (...args: any[]) => mockFetchSubmissionManifest(...args),
+}))
+
+// In-memory stand-in for the hashes object store
+const rows = new Map<string, any>()
+
+function fakeRequest<T>(result: T) {
+  const request: { result?: T; onsuccess?: () => void } = {}
+  queueMicrotask(() => {
+    request.result = result
+    request.onsuccess?.()
+  })
+  return request
+}
+
+const store = {
+  put: (entry: any) => {
+    rows.set(entry.key, entry)
+    return fakeRequest(entry.key)
+  },
+  getAll: () => fakeRequest([...rows.values()]),
+}
+
+Object.assign(global, {
+  indexedDB: {
+    open: () => fakeRequest({ transaction: () => ({ objectStore: () => store }) }),
+  },
+})
+
+import { computeDHash, hammingDistance } from '@/lib/utils/photo-hash'
+import { findPhotoDuplicates, indexPhotoHashes, type PhotoHashEntry } from '@/lib/blockchain/photo-hash-index'
+
+// 9x8 RGBA image from a brightness function
+const pixels = (brightness: (x: number, y: number) => number) => {
+  const data: number[] = []
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 9; x++) {
+      const value = brightness(x, y)
+      data.push(value, value, value, 255)
+    }
+  }
+  return data
+}
+
+const ALICE = '0x1111111111111111111111111111111111111111' as const
+const BOB = '0x2222222222222222222222222222222222222222' as const
+
+const entry = (submissionId: number, role: 'before' | 'after', submitter: typeof ALICE | typeof BOB, hash: string | null): PhotoHashEntry => ({
+  key: `${submissionId}:${role}`,
+  submissionId,
+  submitter,
+  role,
+  cid: `cid-${submissionId}-${role}`,
+  hash,
+})
+
+describe('photo hashes', () => {
+  it('should hash brightness gradients', () => {
+    expect(computeDHash(pixels((x) => 255 - x * 20))).toBe('ffffffffffffffff')
+    expect(computeDHash(pixels((x) => x * 20))).toBe('0000000000000000')
+  })
+
+  it('should keep near-identical images within a few bits', () => {
+    const original = computeDHash(pixels((x, y) => (x * 37 + y * 91) % 256))
+    const noisy = computeDHash(pixels((x, y) => ((x * 37 + y * 91) % 256) + (x === 4 && y === 2 ? 3 : 0)))
+    expect(hammingDistance(original, noisy)).toBeLessThanOrEqual(2)
+    expect(hammingDistance('ff00', '0f00')).toBe(4)
+  })
+
+  it('should flag before==after and photos reused from earlier submissions', () => {
+    const entries = [
+      entry(1, 'before', BOB, 'aaaaaaaaaaaaaaaa'),
+      entry(1, 'after', BOB, '0123456789abcdef'),
+      entry(2, 'before', ALICE, 'fedcba9876543210'),
+      entry(2, 'after', ALICE, null),
+      entry(3, 'before', ALICE, 'aaaaaaaaaaaaaaab'),
+      entry(3, 'after', ALICE, 'aaaaaaaaaaaaaaab'),
+      // Later submissions never count as the original
+      entry(4, 'before', BOB, 'aaaaaaaaaaaaaaaa'),
+    ]
+
+    const duplicates = findPhotoDuplicates(entries, 3)
+    expect(duplicates).toEqual([
+      expect.objectContaining({ kind: 'before_equals_after', distance: 0 }),
+      expect.objectContaining({ kind: 'cross_wallet', role: 'before', match: expect.objectContaining({ submissionId: 1 }) }),
+      expect.objectContaining({ kind: 'cross_wallet', role: 'after', match: expect.objectContaining({ submissionId: 1 }) }),
+    ])
+    expect(findPhotoDuplicates(entries, 2)).toEqual([])
+  })
+
+  it('should flag photos whose manifest phash does not match the uploaded file', () => {
+    const entries = [
+      { ...entry(1, 'before', ALICE, 'aaaaaaaaaaaaaaaa'), manifestHash: '5555555555555555' },
+      { ...entry(1, 'after', ALICE, '0123456789abcdef'), manifestHash: '0123456789abcdee' },
+    ]
+
+    expect(findPhotoDuplicates(entries, 1)).toEqual([
+      expect.objectContaining({ kind: 'manifest_mismatch', role: 'before', distance: 64 }),
+    ])
+  })
+})
+
+describe('photo hash index', () => {
+  const submission = (id: number, dataURI?: string) => ({
+    id: BigInt(id),
+    user: ALICE,
+    dataURI,
+    beforePhotoHash: `cid-${id}-before`,
+    afterPhotoHash: `cid-${id}-after`,
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    rows.clear()
+    mockFetchIPFSBlob.mockImplementation(async (cid: string) => cid)
+    mockComputePhotoHash.mockImplementation(async (cid: string) => (cid.endsWith('before') ? 'aaaaaaaaaaaaaaaa' : 'bbbbbbbbbbbbbbbb'))
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should hash the uploaded photos even when the manifest claims a phash', async () => {
+    mockFetchSubmissionManifest.mockResolvedValue({
+      photos: { before: { phash: '0000000000000000' }, after: { phash: null } },
+    })
+
+    const entries = await indexPhotoHashes([submission(1, 'manifest-cid')])
+
+    expect(mockFetchIPFSBlob).toHaveBeenCalledWith('cid-1-before')
+    expect(entries).toEqual([
+      expect.objectContaining({ role: 'before', hash: 'aaaaaaaaaaaaaaaa', manifestHash: '0000000000000000' }),
+      expect.objectContaining({ role: 'after', hash: 'bbbbbbbbbbbbbbbb' }),
+    ])
+    expect(entries[1]).not.toHaveProperty('manifestHash')
+  })
+
+  it('should retry photos that failed to load once the retry time has passed', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000)
+    mockFetchIPFSBlob.mockRejectedValueOnce(new Error('gateway timeout'))
+
+    const first = await indexPhotoHashes([submission(1)])
+    expect(first[0]).toMatchObject({ role: 'before', hash: null, retryAfter: 1_000_000 + 60 * 60 * 1000 })
+
+    await indexPhotoHashes([submission(1)])
+    expect(mockFetchIPFSBlob).toHaveBeenCalledTimes(2)
+
+    now.mockReturnValue(1_000_000 + 60 * 60 * 1000)
+    const retried = await indexPhotoHashes([submission(1)])
+    expect(mockFetchIPFSBlob).toHaveBeenCalledTimes(4)
+    expect(retried).toHaveLength(2)
+    expect(rows.get('1:before')).toEqual(expect.objectContaining({ hash: 'aaaaaaaaaaaaaaaa' }))
+    expect(rows.get('1:before')).not.toHaveProperty('retryAfter')
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * Tests for photo EXIF extraction and consistency checks
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  extractPhotoMetadata,
+  checkPhotoConsistency,
+  redactJpegExif,
+  getJpegExifSegment,
+  stripJpegMetadataSegments,
+  readBlob,
+  type PhotoMetadata,
+} from '@/lib/utils/photo-metadata'
+
+// Minimal big-endian JPEG with Model, DateTimeOriginal and GPS tags
+function buildJpeg({ model, takenAt, lat, lng }: { model: string; takenAt: string; lat: number; lng: number }): File {
+  const tiff = new DataView(new ArrayBuffer(198))
+  const ascii = (offset: number, value: string) =>
+    [...value].forEach((char, i) => tiff.setUint8(offset + i, char.charCodeAt(0)))
+  const entry = (offset: number, tag: number, type: number, count: number, value: number) => {
+    tiff.setUint16(offset, tag)
+    tiff.setUint16(offset + 2, type)
+    tiff.setUint32(offset + 4, count)
+    tiff.setUint32(offset + 8, value)
+  }
+  const rationals = (offset: number, degrees: number) => {
+    const whole = Math.floor(degrees)
+    const minutes = Math.floor((degrees - whole) * 60)
+    const seconds = Math.round(((degrees - whole) * 60 - minutes) * 60 * 100)
+    ;[[whole, 1], [minutes, 1], [seconds, 100]].forEach(([numerator, denominator], i) => {
+      tiff.setUint32(offset + i * 8, numerator)
+      tiff.setUint32(offset + i * 8 + 4, denominator)
+    })
+  }
+
+  ascii(0, 'MM')
+  tiff.setUint16(2, 0x002a)
+  tiff.setUint32(4, 8)
+  // IFD0: Model, Exif IFD pointer, GPS IFD pointer
+  tiff.setUint16(8, 3)
+  entry(10, 0x0110, 2, model.length + 1, 50)
+  entry(22, 0x8769, 4, 1, 58)
+  entry(34, 0x8825, 4, 1, 96)
+  ascii(50, model)
+  // Exif IFD: DateTimeOriginal
+  tiff.setUint16(58, 1)
+  entry(60, 0x9003, 2, 20, 76)
+  ascii(76, takenAt)
+  // GPS IFD: refs are stored inline, coordinates as 3 rationals
+  tiff.setUint16(96, 4)
+  entry(98, 0x0001, 2, 2, 0)
+  ascii(106, lat >= 0 ? 'N' : 'S')
+  entry(110, 0x0002, 5, 3, 150)
+  entry(122, 0x0003, 2, 2, 0)
+  ascii(130, lng >= 0 ? 'E' : 'W')
+  entry(134, 0x0004, 5, 3, 174)
+  rationals(150, Math.abs(lat))
+  rationals(174, Math.abs(lng))
+
+  const header = [0xff, 0xd8, 0xff, 0xe1, 0, 0, 0x45, 0x78, 0x69, 0x66, 0, 0]
+  const segmentLength = 2 + 6 + tiff.byteLength
+  header[4] = segmentLength >> 8
+  header[5] = segmentLength & 0xff
+  return new File([new Uint8Array(header), tiff.buffer, new Uint8Array([0xff, 0xd9])], 'photo.jpg', { type: 'image/jpeg' })
+}
+
+// JPEG segment: marker, big-endian length, payload
+const segment = (marker: number, payload: string) => {
+  const bytes = new TextEncoder().encode(payload)
+  return new Uint8Array([0xff, marker, (bytes.byteLength + 2) >> 8, (bytes.byteLength + 2) & 0xff, ...bytes])
+}
+
+// buildJpeg's photo with an XMP copy of its location, IPTC, a comment and a trailing MPF image added
+async function buildXmpJpeg(): Promise<Uint8Array<ArrayBuffer>> {
+  const exifJpeg = new Uint8Array(
+    await readBlob(buildJpeg({ model: 'Pixel 7', takenAt: '2025:03:01 10:00:00', lat: 52.52, lng: 13.405 }))
+  )
+  const parts = [
+    exifJpeg.subarray(0, exifJpeg.byteLength - 2),
+    segment(0xe1, 'http://ns.adobe.com/xap/1.0/\0<x:xmpmeta exif:GPSLatitude="52,31.2N" exif:GPSLongitude="13,24.3E"/>'),
+    segment(0xed, 'Photoshop 3.0\0IPTC city Berlin'),
+    segment(0xfe, 'Taken at Alexanderplatz'),
+    segment(0xe2, 'ICC_PROFILE\0\x01\x01profile'),
+    // Start of scan, entropy-coded data with a stuffed 0xff, end of image
+    new Uint8Array([0xff, 0xda, 0x00, 0x02, 0x12, 0xff, 0x00, 0x34, 0xff, 0xd9]),
+    // A second image appended by MPF, with its own EXIF
+    new Uint8Array([0xff, 0xd8, 0xff, 0xe1]),
+    new TextEncoder().encode('GPSLatitude'),
+  ]
+  const jpeg = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0))
+  parts.reduce((offset, part) => (jpeg.set(part, offset), offset + part.byteLength), 0)
+  return jpeg
+}
+
+const text = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes)
+
+const metadata = (overrides: Partial<PhotoMetadata>): PhotoMetadata => ({
+  format: 'jpeg',
+  capturedAt: '2025-03-01T10:00:00.000Z',
+  gps: { lat: 52.52, lng: 13.405 },
+  make: null,
+  model: 'Pixel 7',
+  ...overrides,
+})
+
+describe('photo metadata', () => {
+  it('should extract capture time, GPS and device model from JPEG EXIF', async () => {
+    const result = await extractPhotoMetadata(
+      buildJpeg({ model: 'Pixel 7', takenAt: '2025:03:01 10:00:00', lat: 52.52, lng: -13.405 })
+    )
+
+    expect(result.format).toBe('jpeg')
+    expect(result.model).toBe('Pixel 7')
+    expect(result.capturedAt).toBe(new Date('2025-03-01T10:00:00').toISOString())
+    expect(result.gps!.lat).toBeCloseTo(52.52, 4)
+    expect(result.gps!.lng).toBeCloseTo(-13.405, 4)
+  })
+
+  it('should return empty metadata for files without EXIF', async () => {
+    const result = await extractPhotoMetadata(new File(['not an image'], 'note.txt'))
+    expect(result).toEqual({ format: 'unknown', capturedAt: null, gps: null, make: null, model: null })
+  })
+
+  it('should blank location and device tags without breaking the EXIF data', async () => {
+    const jpeg = new Uint8Array(
+      await readBlob(buildJpeg({ model: 'Pixel 7', takenAt: '2025:03:01 10:00:00', lat: 52.52, lng: 13.405 }))
+    )
+
+    const locationHidden = jpeg.slice()
+    expect(redactJpegExif(locationHidden, ['location'])).toBe(true)
+    const partial = await extractPhotoMetadata(new File([locationHidden], 'photo.jpg'))
+    expect(partial.gps).toBeNull()
+    expect(partial.model).toBe('Pixel 7')
+    expect(partial.capturedAt).toBe(new Date('2025-03-01T10:00:00').toISOString())
+
+    const allHidden = jpeg.slice()
+    redactJpegExif(allHidden, ['location', 'device'])
+    expect(await extractPhotoMetadata(new File([allHidden], 'photo.jpg'))).toEqual(
+      expect.objectContaining({ gps: null, model: null, make: null })
+    )
+    expect(getJpegExifSegment(allHidden)!.byteLength).toBe(jpeg.byteLength - 4)
+    expect(redactJpegExif(new TextEncoder().encode('not a jpeg at all'), ['location'])).toBe(false)
+  })
+
+  it('should drop XMP, IPTC, comments and trailing images but keep EXIF and the colour profile', async () => {
+    const stripped = stripJpegMetadataSegments(await buildXmpJpeg())
+
+    expect(text(stripped)).not.toMatch(/GPSLatitude|IPTC|Alexanderplatz|xap/)
+    expect(text(stripped)).toContain('ICC_PROFILE')
+    expect(getJpegExifSegment(stripped)).not.toBeNull()
+    expect([...stripped.slice(-2)]).toEqual([0xff, 0xd9])
+    expect((await extractPhotoMetadata(new File([stripped], 'photo.jpg'))).model).toBe('Pixel 7')
+  })
+
+  it('should flag distant, old and out-of-order photos', () => {
+    const findings = checkPhotoConsistency({
+      before: metadata({ capturedAt: '2023-03-01T10:00:00.000Z' }),
+      // ~3.4 km east of the submitted location
+      after: metadata({ gps: { lat: 52.52, lng: 13.455 }, capturedAt: '2023-02-28T10:00:00.000Z' }),
+      location: { lat: 52.52, lng: 13.405 },
+      submittedAt: new Date('2025-03-01T12:00:00.000Z'),
+    })
+
+    expect(findings.map((finding) => finding.message)).toEqual(
+      expect.arrayContaining([
+        'Before photo is 2 years old',
+        'After photo taken 3.4 km away from the submitted location',
+        'After photo was taken 24 hours before the before photo',
+      ])
+    )
+  })
+
+  it('should report nothing for consistent photos', () => {
+    expect(
+      checkPhotoConsistency({
+        before: metadata({}),
+        after: metadata({ capturedAt: '2025-03-01T11:00:00.000Z' }),
+        location: { lat: 52.5201, lng: 13.4051 },
+        submittedAt: new Date('2025-03-01T12:00:00.000Z'),
+      })
+    ).toEqual([])
+  })
+})
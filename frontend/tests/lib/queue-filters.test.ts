@@ -0,0 +1,129 @@
+/**
+ * Tests for verifier queue filters
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import type { Address } from 'viem'
+import {
+  DEFAULT_QUEUE_FILTERS,
+  applyQueueFilters,
+  countActiveFilters,
+  distanceKm,
+  isEnsName,
+  parseQueueFilters,
+  serializeQueueFilters,
+  type QueueCleanup,
+  type QueueFilters,
+} from '@/lib/utils/queue-filters'
+
+const ALICE = '0x00000000000000000000000000000000000a2493' as Address
+const BOB = '0x00000000000000000000000000000000000b0b00' as Address
+
+// 2024-03-10 12:00 UTC
+const MARCH_10 = BigInt(Date.UTC(2024, 2, 10, 12) / 1000)
+const DAY = 24n * 60n * 60n
+
+function cleanup(id: number, overrides: Partial<QueueCleanup> = {}): QueueCleanup {
+  return {
+    id: BigInt(id),
+    user: ALICE,
+    timestamp: MARCH_10,
+    // Nairobi
+    latitude: -1_292_100n,
+    longitude: 36_821_900n,
+    verified: false,
+    rejected: false,
+    hasImpactForm: false,
+    ...overrides,
+  }
+}
+
+const filter = (overrides: Partial<QueueFilters>) => ({ ...DEFAULT_QUEUE_FILTERS, ...overrides })
+const ids = (cleanups: QueueCleanup[]) => cleanups.map((c) => Number(c.id))
+
+describe('Queue filters', () => {
+  it('round-trips through the URL and leaves defaults out', () => {
+    const filters = filter({
+      query: '#12',
+      status: 'pending',
+      from: '2024-03-01',
+      submitter: 'alice.eth',
+      impactForm: true,
+      feePaid: false,
+      region: 'Kenya',
+      near: { lat: -1.29, lng: 36.82, radiusKm: 5 },
+      sort: 'nearest',
+    })
+    const params = serializeQueueFilters(filters)
+
+    expect(params.toString()).toBe(
+      'q=%2312&status=pending&from=2024-03-01&submitter=alice.eth&impact=yes&fee=no&region=Kenya&near=-1.29%2C36.82%2C5&sort=nearest'
+    )
+    expect(parseQueueFilters(params)).toEqual(filters)
+    expect(serializeQueueFilters(DEFAULT_QUEUE_FILTERS).toString()).toBe('')
+    expect(countActiveFilters(filters)).toBe(8)
+  })
+
+  it('ignores malformed URL values', () => {
+    const filters = parseQueueFilters(new URLSearchParams('status=bogus&from=yesterday&impact=maybe&near=1,2&sort=nearest'))
+    expect(filters).toEqual(DEFAULT_QUEUE_FILTERS)
+  })
+
+  it('filters by status, dates and flags', () => {
+    const cleanups = [
+      cleanup(1),
+      cleanup(2, { verified: true, hasImpactForm: true, timestamp: MARCH_10 - 5n * DAY }),
+      cleanup(3, { rejected: true, hasRecyclables: true, feePaid: 10n }),
+    ]
+
+    expect(ids(applyQueueFilters(cleanups, filter({ status: 'pending' })))).toEqual([1])
+    expect(ids(applyQueueFilters(cleanups, filter({ impactForm: true })))).toEqual([2])
+    expect(ids(applyQueueFilters(cleanups, filter({ recyclables: false })))).toEqual([1, 2])
+    expect(ids(applyQueueFilters(cleanups, filter({ feePaid: true })))).toEqual([3])
+    // Date bounds are inclusive whole UTC days
+    expect(ids(applyQueueFilters(cleanups, filter({ from: '2024-03-10', to: '2024-03-10' })))).toEqual([1, 3])
+    expect(ids(applyQueueFilters(cleanups, filter({ to: '2024-03-09' })))).toEqual([2])
+  })
+
+  it('matches submitters by address fragment or resolved ENS name', () => {
+    const cleanups = [cleanup(1), cleanup(2, { user: BOB })]
+
+    expect(ids(applyQueueFilters(cleanups, filter({ submitter: '2493' })))).toEqual([1])
+    expect(ids(applyQueueFilters(cleanups, filter({ submitter: 'bob.eth' }), { submitterAddress: BOB }))).toEqual([2])
+    expect(applyQueueFilters(cleanups, filter({ submitter: 'nobody.eth' }), { submitterAddress: null })).toEqual([])
+    expect(isEnsName('bob.eth')).toBe(true)
+    expect(isEnsName('0x2493')).toBe(false)
+  })
+
+  it('searches IDs, addresses and place names', () => {
+    const cleanups = [cleanup(12), cleanup(7, { user: BOB })]
+    const places = new Map([
+      ['12', { country: 'Kenya', countryCode: 'KE', region: 'Nairobi County' }],
+      ['7', { country: 'Portugal', countryCode: 'PT' }],
+    ])
+
+    expect(ids(applyQueueFilters(cleanups, filter({ query: '#12' })))).toEqual([12])
+    expect(ids(applyQueueFilters(cleanups, filter({ query: 'b0b' })))).toEqual([7])
+    expect(ids(applyQueueFilters(cleanups, filter({ query: 'nairobi' }), { places }))).toEqual([12])
+    expect(ids(applyQueueFilters(cleanups, filter({ region: 'pt' }), { places }))).toEqual([7])
+    // Not geocoded yet: no match
+    expect(applyQueueFilters(cleanups, filter({ region: 'Kenya' }))).toEqual([])
+  })
+
+  it('filters by distance and sorts nearest first', () => {
+    const nairobi = { lat: -1.2921, lng: 36.8219 }
+    // Roughly 11 km east of the centre
+    const cleanups = [cleanup(1, { longitude: 36_921_900n }), cleanup(2), cleanup(3, { latitude: 0n, longitude: 0n })]
+
+    expect(distanceKm(nairobi, { lat: -1.2921, lng: 36.9219 })).toBeCloseTo(11.1, 0)
+    expect(ids(applyQueueFilters(cleanups, filter({ near: { ...nairobi, radiusKm: 5 } })))).toEqual([2])
+    expect(ids(applyQueueFilters(cleanups, filter({ near: { ...nairobi, radiusKm: 50 }, sort: 'nearest' })))).toEqual([2, 1])
+  })
+
+  it('sorts by submission time', () => {
+    const cleanups = [cleanup(1, { timestamp: MARCH_10 - DAY }), cleanup(2), cleanup(3, { timestamp: MARCH_10 - 2n * DAY })]
+
+    expect(ids(applyQueueFilters(cleanups, DEFAULT_QUEUE_FILTERS))).toEqual([2, 1, 3])
+    expect(ids(applyQueueFilters(cleanups, filter({ sort: 'oldest' })))).toEqual([3, 1, 2])
+  })
+})
@@ -0,0 +1,37 @@
+/**
+ * Tests for rejection reason codes and verifier notes
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  buildRejectionNote,
+  getRejectionReasonInfo,
+  MAX_REJECTION_NOTE_LENGTH,
+  parseRejectionNote,
+  REJECTION_REASON_OPTIONS,
+  RejectionReason,
+} from '@/lib/utils/rejection-reasons'
+
+describe('Rejection reasons', () => {
+  it('has a label and guidance for every reason a verifier can pick', () => {
+    REJECTION_REASON_OPTIONS.forEach((reason) => {
+      const info = getRejectionReasonInfo(reason)
+      expect(info.label).not.toBe(getRejectionReasonInfo(RejectionReason.None).label)
+      expect(info.guidance.length).toBeGreaterThan(0)
+    })
+    // Legacy rejections and codes from a newer contract fall back to None
+    expect(getRejectionReasonInfo(undefined)).toEqual(getRejectionReasonInfo(RejectionReason.None))
+    expect(getRejectionReasonInfo(42)).toEqual(getRejectionReasonInfo(RejectionReason.None))
+  })
+
+  it('round-trips a note and rejects foreign or empty documents', () => {
+    const note = buildRejectionNote(RejectionReason.LocationMismatch, '  GPS points to another city  ', new Date(0))
+    expect(note.message).toBe('GPS points to another city')
+    expect(parseRejectionNote(JSON.parse(JSON.stringify(note)))).toEqual(note)
+
+    expect(() => buildRejectionNote(RejectionReason.Other, '   ')).toThrow('empty')
+    expect(() => buildRejectionNote(RejectionReason.Other, 'x'.repeat(MAX_REJECTION_NOTE_LENGTH + 1))).toThrow()
+    expect(() => parseRejectionNote({ message: 'hi' })).toThrow('Not a DeCleanup rejection note')
+    expect(() => parseRejectionNote({ ...note, message: '' })).toThrow('no message')
+  })
+})
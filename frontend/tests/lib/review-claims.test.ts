@@ -0,0 +1,161 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for review claims (verifier leases on submissions)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, afterAll } from '@jest/globals'
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { NextRequest } from 'next/server'
+import { VerifierAuthError } from '@/lib/auth/types'
+import { claimSubmission, listReviewClaims, MAX_CLAIMS_PER_VERIFIER, REVIEW_CLAIM_TTL_MS } from '@/lib/review-claims'
+import { GET, POST, DELETE } from '@/app/api/verifier/claims/route'
+
+const mockRequireVerifierSession = jest.fn() as jest.Mock<any>
+
+jest.mock('@/lib/auth/http', () => ({
+  ...(jest.requireActual('@/lib/auth/http') as object),
+  requireVerifierSession: (...args: any[]) => mockRequireVerifierSession(...args),
+}))
+
+const ALICE = '0x00000000000000000000000000000000000000a1'
+const BOB = '0x00000000000000000000000000000000000000b2'
+
+const dir = mkdtempSync(path.join(tmpdir(), 'review-claims-'))
+let fileIndex = 0
+
+function signInAs(address: string) {
+  mockRequireVerifierSession.mockResolvedValue({ address, chainId: 11142220, expiresAt: Date.now() + 60000 })
+}
+
+function claimRequest(submissionId: unknown): NextRequest {
+  return new NextRequest('http://localhost/api/verifier/claims', {
+    method: 'POST',
+    body: JSON.stringify({ submissionId }),
+  })
+}
+
+describe('Review claims', () => {
+  beforeEach(() => {
+    // A fresh file per test, so claims don't leak between them
+    process.env.REVIEW_CLAIMS_FILE = path.join(dir, `claims-${fileIndex++}.json`)
+    mockRequireVerifierSession.mockReset()
+  })
+
+  afterEach(() => {
+    for (const key of ['KV_REST_API_URL', 'KV_REST_API_TOKEN', 'SHARED_STORE']) delete process.env[key]
+  })
+
+  afterAll(() => {
+    delete process.env.REVIEW_CLAIMS_FILE
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('lets one verifier hold a submission and shows the lease to others', async () => {
+    signInAs(ALICE)
+    const claimed = await POST(claimRequest('7'))
+    expect(claimed.status).toBe(200)
+    expect(await claimed.json()).toMatchObject({ submissionId: '7', verifier: ALICE })
+
+    signInAs(BOB)
+    const conflict = await POST(claimRequest(7))
+    expect(conflict.status).toBe(409)
+    const body = await conflict.json()
+    expect(body.code).toBe('SUBMISSION_CLAIMED')
+    expect(body.claim.verifier).toBe(ALICE)
+
+    const listed = await GET(new NextRequest('http://localhost/api/verifier/claims'))
+    expect((await listed.json()).claims).toHaveLength(1)
+
+    // Only the holder can release it
+    const release = (id: string) =>
+      DELETE(new NextRequest(`http://localhost/api/verifier/claims?submissionId=${id}`, { method: 'DELETE' }))
+    expect((await release('7')).status).toBe(403)
+    signInAs(ALICE)
+    expect((await release('7')).status).toBe(200)
+    expect((await release('7')).status).toBe(200)
+
+    signInAs(BOB)
+    expect((await POST(claimRequest('7'))).status).toBe(200)
+  })
+
+  it('persists claims to the file and drops expired leases', async () => {
+    const now = Date.now()
+    const first = await claimSubmission('3', ALICE, now)
+    const renewed = await claimSubmission('3', ALICE, now + 1000)
+    expect(renewed.claimedAt).toBe(first.claimedAt)
+    expect(renewed.expiresAt).toBe(now + 1000 + REVIEW_CLAIM_TTL_MS)
+
+    const saved = JSON.parse(readFileSync(process.env.REVIEW_CLAIMS_FILE!, 'utf8'))
+    expect(saved).toEqual([renewed])
+
+    expect(await listReviewClaims(renewed.expiresAt + 1)).toEqual([])
+    await expect(claimSubmission('3', BOB, renewed.expiresAt + 1)).resolves.toMatchObject({ verifier: BOB })
+  })
+
+  it('caps claims per verifier and rejects invalid IDs', async () => {
+    for (let id = 0; id < MAX_CLAIMS_PER_VERIFIER; id++) {
+      await claimSubmission(id, ALICE)
+    }
+    await expect(claimSubmission(MAX_CLAIMS_PER_VERIFIER, ALICE)).rejects.toMatchObject({ status: 429 })
+
+    signInAs(ALICE)
+    const invalid = await POST(claimRequest('-1'))
+    expect(invalid.status).toBe(400)
+    expect((await invalid.json()).code).toBe('INVALID_SUBMISSION_ID')
+  })
+
+  it('keeps claims in the shared store when one is configured', async () => {
+    process.env.KV_REST_API_URL = 'https://kv.example.com'
+    process.env.KV_REST_API_TOKEN = 'kv-token'
+    const now = Date.now()
+    const held = { submissionId: '9', verifier: BOB, claimedAt: now, expiresAt: now + REVIEW_CLAIM_TTL_MS }
+    const fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValueOnce(Response.json({ result: ['claimed', JSON.stringify(held)] }))
+      .mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+
+    try {
+      signInAs(ALICE)
+      const conflict = await POST(claimRequest('9'))
+      expect(conflict.status).toBe(409)
+      expect((await conflict.json()).claim).toEqual(held)
+
+      const [command, , keyCount, key, ...args] = JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string)
+      expect([command, keyCount, key, args.slice(0, 2)]).toEqual(['EVAL', '1', 'decleanup:review-claims', ['9', ALICE]])
+
+      // The store being down is a 503, not a generic failure
+      const unavailable = await POST(claimRequest('9'))
+      expect(unavailable.status).toBe(503)
+      expect((await unavailable.json()).code).toBe('CLAIMS_UNAVAILABLE')
+    } finally {
+      fetchMock.mockRestore()
+    }
+  })
+
+  it('refuses to keep claims per instance in production', async () => {
+    const env = process.env as Record<string, string | undefined>
+    const nodeEnv = env.NODE_ENV
+    env.NODE_ENV = 'production'
+    try {
+      signInAs(ALICE)
+      const response = await POST(claimRequest('1'))
+      expect(response.status).toBe(503)
+      expect((await response.json()).code).toBe('CLAIMS_UNAVAILABLE')
+    } finally {
+      env.NODE_ENV = nodeEnv
+    }
+  })
+
+  it('requires a verifier session', async () => {
+    mockRequireVerifierSession.mockRejectedValue(
+      new VerifierAuthError('Please sign in as a verifier.', 401, 'VERIFIER_SESSION_REQUIRED')
+    )
+    expect((await POST(claimRequest('1'))).status).toBe(401)
+    expect((await GET(new NextRequest('http://localhost/api/verifier/claims'))).status).toBe(401)
+  })
+})
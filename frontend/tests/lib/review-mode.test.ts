@@ -0,0 +1,82 @@
+/**
+ * Tests for review mode shortcuts, queue order and photo zoom
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  MAX_PHOTO_ZOOM,
+  clampPhotoView,
+  deferReviewItem,
+  panPhotoView,
+  resolveShortcut,
+  stepReviewItem,
+  syncReviewOrder,
+  upcomingReviewItems,
+  zoomPhotoView,
+} from '@/lib/utils/review-mode'
+
+describe('Review mode', () => {
+  describe('resolveShortcut', () => {
+    it('maps keys to review actions', () => {
+      expect(resolveShortcut({ key: 'a' })).toBe('approve')
+      expect(resolveShortcut({ key: 'R' })).toBe('reject')
+      expect(resolveShortcut({ key: 'ArrowRight' })).toBe('next')
+      expect(resolveShortcut({ key: '?' })).toBe('help')
+      expect(resolveShortcut({ key: 'x' })).toBeNull()
+    })
+
+    it('leaves browser shortcuts and typing alone', () => {
+      expect(resolveShortcut({ key: 'r', metaKey: true })).toBeNull()
+      expect(resolveShortcut({ key: 'a', target: { tagName: 'TEXTAREA' } as unknown as EventTarget })).toBeNull()
+      expect(resolveShortcut({ key: 'a', target: { tagName: 'INPUT', type: 'text' } as unknown as EventTarget })).toBeNull()
+      expect(resolveShortcut({ key: 'a', target: { tagName: 'INPUT', type: 'radio' } as unknown as EventTarget })).toBe('approve')
+      expect(resolveShortcut({ key: 'Escape', target: { tagName: 'TEXTAREA' } as unknown as EventTarget })).toBe('close')
+    })
+  })
+
+  describe('queue', () => {
+    it('keeps the order of known items and appends new ones', () => {
+      expect(syncReviewOrder(['3', '1', '2'], ['1', '2', '4'])).toEqual(['1', '2', '4'])
+      expect(syncReviewOrder(['2', '1'], ['1', '2', '3'])).toEqual(['2', '1', '3'])
+    })
+
+    it('moves skipped items to the back', () => {
+      expect(deferReviewItem(['1', '2', '3'], '1')).toEqual(['2', '3', '1'])
+      expect(deferReviewItem(['1', '2'], '9')).toEqual(['1', '2'])
+    })
+
+    it('steps through the queue, wrapping around', () => {
+      const order = ['1', '2', '3']
+      expect(stepReviewItem(order, '3', 1)).toBe('1')
+      expect(stepReviewItem(order, '1', -1)).toBe('3')
+      expect(stepReviewItem(order, null, 1)).toBe('1')
+      expect(stepReviewItem([], '1', 1)).toBeNull()
+    })
+
+    it('moves on to the successor of an item that left the queue', () => {
+      expect(stepReviewItem(['1', '3'], '2', 1, ['1', '2', '3'])).toBe('3')
+      expect(stepReviewItem(['1', '2'], '3', 1, ['1', '2', '3'])).toBe('1')
+    })
+
+    it('lists the items to prefetch', () => {
+      expect(upcomingReviewItems(['1', '2', '3', '4', '5'], '2', 2)).toEqual(['3', '4'])
+      expect(upcomingReviewItems(['1', '2'], '2', 3)).toEqual([])
+    })
+  })
+
+  describe('zoom and pan', () => {
+    it('keeps the point under the cursor in place when zooming', () => {
+      const view = zoomPhotoView({ scale: 1, x: 0, y: 0 }, 2, { x: 0.25, y: 0.75 })
+      expect(view).toEqual({ scale: 2, x: -0.25, y: -0.75 })
+      // The photo point at 0.25/0.75 is still shown at 0.25/0.75
+      expect(view.x + 0.25 * view.scale).toBeCloseTo(0.25)
+      expect(view.y + 0.75 * view.scale).toBeCloseTo(0.75)
+    })
+
+    it('never pans past the photo edges or zooms beyond the limits', () => {
+      expect(panPhotoView({ scale: 2, x: -0.5, y: -0.5 }, 1, -1)).toEqual({ scale: 2, x: 0, y: -1 })
+      expect(zoomPhotoView({ scale: 2, x: -1, y: -1 }, 0.1)).toEqual({ scale: 1, x: 0, y: 0 })
+      expect(clampPhotoView({ scale: 100, x: 0, y: 0 }).scale).toBe(MAX_PHOTO_ZOOM)
+    })
+  })
+})
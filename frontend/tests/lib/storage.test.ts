@@ -0,0 +1,241 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the IPFS storage providers and API routes
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { NextRequest } from 'next/server'
+import { privateKeyToAccount } from 'viem/accounts'
+import {
+  computeRawCid,
+  consumeTokenQuota,
+  consumeUploadQuota,
+  getClientIp,
+  resolveStorageProviderName,
+  sniffContentType,
+  StorageError,
+} from '@/lib/storage'
+import { buildUploadAuthMessage } from '@/lib/storage/upload-rules'
+import { POST as upload } from '@/app/api/ipfs/upload/route'
+import { POST as requestToken } from '@/app/api/ipfs/token/route'
+import { GET as read } from '@/app/api/ipfs/[cid]/route'
+
+const account = privateKeyToAccount(`0x${'11'.repeat(32)}`)
+
+async function getToken(): Promise<string> {
+  const issuedAt = new Date().toISOString()
+  const signature = await account.signMessage({ message: buildUploadAuthMessage(account.address, issuedAt) })
+  const response = await requestToken(
+    new NextRequest('http://localhost/api/ipfs/token', {
+      method: 'POST',
+      body: JSON.stringify({ address: account.address, issuedAt, signature }),
+    })
+  )
+  expect(response.status).toBe(200)
+  return (await response.json()).token
+}
+
+function uploadRequest(file: File | null, kind: string, token?: string): NextRequest {
+  const formData = new FormData()
+  if (file) formData.append('file', file)
+  formData.append('kind', kind)
+  return new NextRequest('http://localhost/api/ipfs/upload', {
+    method: 'POST',
+    body: formData,
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+  })
+}
+
+const ENV_KEYS = [
+  'IPFS_STORAGE_PROVIDER',
+  'PINATA_API_KEY',
+  'PINATA_SECRET_KEY',
+  'KUBO_API_URL',
+  'KV_REST_API_URL',
+  'KV_REST_API_TOKEN',
+  'SHARED_STORE',
+] as const
+
+describe('IPFS storage', () => {
+  const saved: Record<string, string | undefined> = {}
+
+  beforeEach(() => {
+    ENV_KEYS.forEach((key) => {
+      saved[key] = process.env[key]
+      delete process.env[key]
+    })
+  })
+
+  afterEach(() => {
+    ENV_KEYS.forEach((key) => {
+      if (saved[key] === undefined) delete process.env[key]
+      else process.env[key] = saved[key]
+    })
+  })
+
+  it('should compute the same CIDv1 as ipfs add for single-block files', () => {
+    expect(computeRawCid(new TextEncoder().encode('hello world'))).toBe(
+      'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e'
+    )
+  })
+
+  it('should pick the provider from configuration', () => {
+    expect(resolveStorageProviderName({ NODE_ENV: 'test' })).toBe('local')
+    expect(resolveStorageProviderName({ NODE_ENV: 'test', PINATA_API_KEY: 'a', PINATA_SECRET_KEY: 'b' })).toBe('pinata')
+    expect(resolveStorageProviderName({ NODE_ENV: 'production', KUBO_API_URL: 'http://ipfs:5001' })).toBe('kubo')
+    expect(resolveStorageProviderName({ NODE_ENV: 'production', IPFS_STORAGE_PROVIDER: 'local' })).toBe('local')
+    expect(() => resolveStorageProviderName({ NODE_ENV: 'production' })).toThrow(StorageError)
+    expect(() => resolveStorageProviderName({ NODE_ENV: 'test', IPFS_STORAGE_PROVIDER: 'ftp' })).toThrow(
+      'Unknown IPFS_STORAGE_PROVIDER'
+    )
+  })
+
+  it('should upload to the local store and serve the file by CID', async () => {
+    const token = await getToken()
+    const formData = new FormData()
+    formData.append('file', new File(['{"ok":true}'], 'report.json', { type: 'application/json' }))
+    formData.append('kind', 'report')
+    formData.append('metadata', JSON.stringify({ name: 'report.json', keyvalues: { type: 'impact-report' } }))
+
+    const uploaded = await upload(
+      new NextRequest('http://localhost/api/ipfs/upload', {
+        method: 'POST',
+        body: formData,
+        headers: { Authorization: `Bearer ${token}` },
+      })
+    )
+    expect(uploaded.status).toBe(200)
+    const { hash, url } = await uploaded.json()
+    expect(hash).toBe(computeRawCid(new TextEncoder().encode('{"ok":true}')))
+    expect(url).toBe(`/api/ipfs/${hash}`)
+
+    const served = await read(new NextRequest(`http://localhost${url}`), { params: { cid: hash } })
+    expect(served.status).toBe(200)
+    expect(served.headers.get('content-type')).toBe('application/json')
+    expect(await served.json()).toEqual({ ok: true })
+
+    const missing = await read(new NextRequest('http://localhost/api/ipfs/x'), {
+      params: { cid: computeRawCid(new TextEncoder().encode('never uploaded')) },
+    })
+    expect(missing.status).toBe(404)
+  })
+
+  it('should require a valid upload token', async () => {
+    const file = new File(['{}'], 'report.json')
+    const anonymous = await upload(uploadRequest(file, 'report'))
+    expect(anonymous.status).toBe(401)
+    expect((await anonymous.json()).code).toBe('UPLOAD_AUTH_REQUIRED')
+
+    const token = await getToken()
+    const forged = await upload(uploadRequest(file, 'report', `${token.split('.')[0]}x.${token.split('.')[1]}`))
+    expect(forged.status).toBe(401)
+
+    const wrongSigner = await requestToken(
+      new NextRequest('http://localhost/api/ipfs/token', {
+        method: 'POST',
+        body: JSON.stringify({
+          address: '0x2222222222222222222222222222222222222222',
+          issuedAt: new Date().toISOString(),
+          signature: await account.signMessage({ message: 'something else' }),
+        }),
+      })
+    )
+    expect(wrongSigner.status).toBe(401)
+  })
+
+  it('should check files by their content, not their declared type', async () => {
+    const token = await getToken()
+
+    const disguised = await upload(uploadRequest(new File(['<html>'], 'photo.jpg', { type: 'image/jpeg' }), 'photo', token))
+    expect(disguised.status).toBe(415)
+    expect((await disguised.json()).code).toBe('UNSUPPORTED_FILE_TYPE')
+
+    const oversized = await upload(uploadRequest(new File([`[${'1,'.repeat(200_000)}1]`], 'big.json'), 'report', token))
+    expect(oversized.status).toBe(413)
+
+    const empty = await upload(uploadRequest(null, 'photo', token))
+    expect(empty.status).toBe(400)
+
+    expect(sniffContentType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg')
+    expect(sniffContentType(new TextEncoder().encode('  {"a":1}'))).toBe('application/json')
+  })
+
+  it('should enforce per-wallet quotas with a retry time', async () => {
+    const now = Date.now()
+    const address = '0x3333333333333333333333333333333333333333'
+    for (let i = 0; i < 60; i++) {
+      await consumeUploadQuota({ address, ip: null, bytes: 1000 }, now + i)
+    }
+
+    await expect(consumeUploadQuota({ address, ip: null, bytes: 1000 }, now + 60)).rejects.toMatchObject({
+      status: 429,
+      code: 'UPLOAD_QUOTA_EXCEEDED',
+      retryAfter: 3600,
+    })
+
+    // An hour after the first upload there is room again
+    await expect(
+      consumeUploadQuota({ address, ip: null, bytes: 1000 }, now + 60 * 60 * 1000 + 1)
+    ).resolves.toBeUndefined()
+  })
+
+  it('should keep quotas in the shared store when one is configured', async () => {
+    process.env.KV_REST_API_URL = 'https://kv.example.com'
+    process.env.KV_REST_API_TOKEN = 'kv-token'
+    const fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValueOnce(Response.json({ result: [0] }))
+      .mockResolvedValueOnce(Response.json({ result: [2, 'files', 1_000] }))
+
+    try {
+      const address = '0x4444444444444444444444444444444444444444'
+      await consumeUploadQuota({ address, ip: '203.0.113.9', bytes: 1000 }, 5_000)
+
+      const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit]
+      expect(url).toBe('https://kv.example.com')
+      expect(init.headers).toMatchObject({ Authorization: 'Bearer kv-token' })
+      const [command, , keyCount, ...rest] = JSON.parse(init.body as string)
+      expect([command, keyCount, rest.slice(0, 2)]).toEqual([
+        'EVAL',
+        '2',
+        [`decleanup:upload-quota:address:${address}`, 'decleanup:upload-quota:ip:203.0.113.9'],
+      ])
+
+      // The second limit (the IP) is full; its oldest upload leaves the window in 3596 s
+      await expect(consumeUploadQuota({ address, ip: '203.0.113.9', bytes: 1000 }, 5_000)).rejects.toMatchObject({
+        status: 429,
+        message: 'Too many uploads from this network. Please try again later.',
+        retryAfter: 3596,
+      })
+    } finally {
+      fetchMock.mockRestore()
+    }
+  })
+
+  it('should not fall back to per-instance quotas in production', async () => {
+    const env = process.env as Record<string, string | undefined>
+    const nodeEnv = env.NODE_ENV
+    env.NODE_ENV = 'production'
+    try {
+      await expect(consumeTokenQuota('203.0.113.9')).rejects.toMatchObject({ status: 503 })
+      env.SHARED_STORE = 'memory'
+      await expect(consumeTokenQuota('203.0.113.9')).resolves.toBeUndefined()
+    } finally {
+      env.NODE_ENV = nodeEnv
+    }
+  })
+
+  it('should take the client IP from the platform, not the client', () => {
+    const headers = (values: Record<string, string>) => new Headers(values)
+
+    expect(getClientIp({ headers: headers({ 'x-forwarded-for': '1.1.1.1' }), ip: '203.0.113.9' })).toBe('203.0.113.9')
+    expect(getClientIp({ headers: headers({ 'x-forwarded-for': '1.1.1.1', 'x-real-ip': '203.0.113.9' }) })).toBe(
+      '203.0.113.9'
+    )
+    expect(getClientIp({ headers: headers({ 'x-forwarded-for': '1.1.1.1, 203.0.113.9' }) })).toBe('203.0.113.9')
+    expect(getClientIp({ headers: headers({}) })).toBeNull()
+  })
+})
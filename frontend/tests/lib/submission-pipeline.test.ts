@@ -0,0 +1,229 @@
+/**
+ * Tests for the resumable submission pipeline
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+
+const mockUploadPhotoToIPFS = jest.fn() as jest.Mock<any>
+const mockUploadJSONToIPFS = jest.fn() as jest.Mock<any>
+const mockSendCleanupSubmission = jest.fn() as jest.Mock<any>
+const mockConfirmCleanupSubmission = jest.fn() as jest.Mock<any>
+const mockFindExistingSubmission = jest.fn() as jest.Mock<any>
+const mockAttachRecyclables = jest.fn() as jest.Mock<any>
+const mockGetAccountNonces = jest.fn() as jest.Mock<any>
+
+jest.mock('@/lib/blockchain/ipfs', () => ({
+  uploadPhotoToIPFS: (...args: any[]) => mockUploadPhotoToIPFS(...args),
+  uploadJSONToIPFS: (...args: any[]) => mockUploadJSONToIPFS(...args),
+  loadPhotoUploadSettings: () => ({ privacy: 'hide_location', keepOriginal: false }),
+}))
+
+jest.mock('@/lib/blockchain/contracts', () => ({
+  sendCleanupSubmission: (...args: any[]) => mockSendCleanupSubmission(...args),
+  confirmCleanupSubmission: (...args: any[]) => mockConfirmCleanupSubmission(...args),
+  findExistingSubmission: (...args: any[]) => mockFindExistingSubmission(...args),
+  attachRecyclablesToSubmission: (...args: any[]) => mockAttachRecyclables(...args),
+  getSubmissionFee: async () => ({ fee: 0n, enabled: false }),
+  getAccountNonces: (...args: any[]) => mockGetAccountNonces(...args),
+}))
+
+import {
+  startSubmissionPipeline,
+  runSubmissionPipeline,
+  loadSubmissionPipeline,
+} from '@/lib/utils/submission-pipeline'
+import { buildImpactReport, EMPTY_IMPACT_FORM } from '@/lib/utils/impact-report'
+import { ContractError } from '@/lib/blockchain/errors'
+
+const USER = '0x1234567890123456789012345678901234567890' as const
+const TX_HASH = `0x${'ab'.repeat(32)}` as const
+
+const files = {
+  beforePhoto: new File(['before'], 'before.jpg', { type: 'image/jpeg', lastModified: 1 }),
+  afterPhoto: new File(['after'], 'after.jpg', { type: 'image/jpeg', lastModified: 2 }),
+}
+
+const impactReport = buildImpactReport(
+  { ...EMPTY_IMPACT_FORM, locationType: 'beach', weight: '3' },
+  { beforePhotoAllowed: true, afterPhotoAllowed: false, userAddress: USER }
+)
+
+const start = () =>
+  startSubmissionPipeline(
+    USER,
+    { location: { lat: 1.5, lng: 2.5 }, referrer: null, impactReport, hasRecyclables: false },
+    files
+  )
+
+describe('submission pipeline', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    localStorage.clear()
+    mockUploadPhotoToIPFS.mockImplementation(async (file: File) => ({
+      hash: `cid-${file.name}`,
+      file: { name: file.name, type: file.type, size: file.size },
+      original: null,
+      metadata: { format: 'jpeg', capturedAt: null, gps: { lat: 1.5, lng: 2.5 }, make: null, model: null },
+      hidden: ['location'],
+    }))
+    mockUploadJSONToIPFS.mockImplementation(async (_data: unknown, name: string) => ({
+      hash: name.startsWith('submission-manifest') ? 'cid-manifest' : 'cid-report',
+    }))
+    mockFindExistingSubmission.mockResolvedValue(null)
+    mockGetAccountNonces.mockResolvedValue({ latest: 5, pending: 5 })
+  })
+
+  // The wallet errors after the send started and the nonce moved, so it may have broadcast
+  const failAfterSend = async () => {
+    mockSendCleanupSubmission.mockRejectedValueOnce(new Error('request timed out'))
+    mockGetAccountNonces
+      .mockResolvedValueOnce({ latest: 5, pending: 5 })
+      .mockResolvedValueOnce({ latest: 5, pending: 6 })
+    start()
+    await expect(runSubmissionPipeline(USER, files)).rejects.toThrow()
+    expect(loadSubmissionPipeline(USER)).toMatchObject({ stage: 'report_uploaded', sendNonce: 5 })
+  }
+
+  it('should run every stage and clear its state on success', async () => {
+    mockSendCleanupSubmission.mockResolvedValue(TX_HASH)
+    mockConfirmCleanupSubmission.mockResolvedValue(7n)
+
+    start()
+    const result = await runSubmissionPipeline(USER, files)
+
+    expect(result.submissionId).toBe(7n)
+    expect(mockSendCleanupSubmission).toHaveBeenCalledWith(
+      expect.objectContaining({
+        beforeHash: 'cid-before.jpg',
+        impactReportHash: 'cid-report',
+        hasImpactForm: true,
+        dataURI: 'ipfs://cid-manifest',
+      })
+    )
+    expect(mockUploadJSONToIPFS).toHaveBeenCalledWith(
+      expect.objectContaining({
+        impactReport: 'cid-report',
+        photos: expect.objectContaining({
+          // The public metadata follows the privacy setting...
+          before: expect.objectContaining({
+            cid: 'cid-before.jpg',
+            metadata: expect.objectContaining({ gps: null }),
+            hidden: ['location'],
+          }),
+        }),
+        // ...while findings were checked against the full metadata
+        findings: expect.not.arrayContaining([expect.objectContaining({ code: 'NO_GPS' })]),
+      }),
+      expect.stringMatching(/^submission-manifest-/)
+    )
+    expect(loadSubmissionPipeline(USER)).toBeNull()
+  })
+
+  it('should resume after a failed confirmation without re-uploading or re-sending', async () => {
+    mockSendCleanupSubmission.mockResolvedValue(TX_HASH)
+    mockConfirmCleanupSubmission.mockRejectedValueOnce(new Error('request timed out'))
+
+    start()
+    await expect(runSubmissionPipeline(USER, files)).rejects.toThrow()
+    expect(loadSubmissionPipeline(USER)).toMatchObject({ stage: 'tx_sent', txHash: TX_HASH })
+
+    mockConfirmCleanupSubmission.mockResolvedValueOnce(7n)
+    const result = await runSubmissionPipeline(USER, null)
+
+    expect(result.submissionId).toBe(7n)
+    expect(mockUploadPhotoToIPFS).toHaveBeenCalledTimes(2)
+    expect(mockSendCleanupSubmission).toHaveBeenCalledTimes(1)
+  })
+
+  it('should send again when nothing was broadcast with the recorded nonce', async () => {
+    await failAfterSend()
+    mockSendCleanupSubmission.mockResolvedValueOnce(TX_HASH)
+    mockConfirmCleanupSubmission.mockResolvedValueOnce(8n)
+
+    const result = await runSubmissionPipeline(USER, null)
+
+    expect(result.submissionId).toBe(8n)
+    expect(mockSendCleanupSubmission).toHaveBeenCalledTimes(2)
+  })
+
+  it('should forget the send when the error shows nothing was broadcast', async () => {
+    // Simulation revert, then an RPC error with the nonce unchanged
+    mockSendCleanupSubmission.mockRejectedValueOnce(new ContractError('SUBMISSION__InvalidSubmissionData'))
+    start()
+    await expect(runSubmissionPipeline(USER, files)).rejects.toThrow()
+    expect(loadSubmissionPipeline(USER)).not.toHaveProperty('sendStartedAt')
+
+    mockSendCleanupSubmission.mockRejectedValueOnce(new ContractError('NETWORK'))
+    await expect(runSubmissionPipeline(USER, null)).rejects.toThrow()
+    expect(loadSubmissionPipeline(USER)).not.toHaveProperty('sendStartedAt')
+    expect(mockFindExistingSubmission).not.toHaveBeenCalled()
+  })
+
+  it('should keep the send recorded when an unclear error comes with a moved nonce', async () => {
+    await failAfterSend()
+
+    expect(loadSubmissionPipeline(USER)).toMatchObject({ sendStartedAt: expect.any(Number) })
+  })
+
+  describe('when the earlier transaction may be pending', () => {
+    beforeEach(() => {
+      jest.useFakeTimers()
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it('should wait for it to show up instead of sending again', async () => {
+      await failAfterSend()
+      mockGetAccountNonces.mockResolvedValue({ latest: 5, pending: 6 })
+      mockFindExistingSubmission.mockResolvedValueOnce(null).mockResolvedValueOnce(null).mockResolvedValueOnce(4n)
+
+      const run = runSubmissionPipeline(USER, null)
+      await jest.advanceTimersByTimeAsync(30_000)
+
+      expect((await run).submissionId).toBe(4n)
+      expect(mockSendCleanupSubmission).toHaveBeenCalledTimes(1)
+    })
+
+    it('should only send again once the user confirms', async () => {
+      await failAfterSend()
+      mockGetAccountNonces.mockResolvedValue({ latest: 6, pending: 6 })
+
+      const run = runSubmissionPipeline(USER, null)
+      const rejected = expect(run).rejects.toMatchObject({ code: 'TX_MAYBE_SENT' })
+      await jest.advanceTimersByTimeAsync(3 * 60 * 1000)
+      await rejected
+      expect(mockSendCleanupSubmission).toHaveBeenCalledTimes(1)
+
+      mockSendCleanupSubmission.mockResolvedValueOnce(TX_HASH)
+      mockConfirmCleanupSubmission.mockResolvedValueOnce(9n)
+      const result = await runSubmissionPipeline(USER, null, undefined, { confirmResend: true })
+
+      expect(result.submissionId).toBe(9n)
+      expect(mockSendCleanupSubmission).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  // Leaves a run in flight that never settles, so it has to stay the last test
+  it('should not send createSubmission twice when a sent submission is already on-chain', async () => {
+    // Page closed after the wallet sent the transaction but before its hash was saved
+    mockSendCleanupSubmission.mockImplementationOnce(() => new Promise(() => {}))
+    start()
+    void runSubmissionPipeline(USER, files)
+    // Reading photo metadata and the uploads take a few ticks before the send starts
+    for (let tick = 0; tick < 100 && !loadSubmissionPipeline(USER)?.sendStartedAt; tick++) {
+      await new Promise((resolve) => setTimeout(resolve, 0))
+    }
+    expect(loadSubmissionPipeline(USER)).toMatchObject({ stage: 'report_uploaded' })
+
+    jest.resetModules()
+    mockFindExistingSubmission.mockResolvedValue(3n)
+    const pipeline = require('@/lib/utils/submission-pipeline')
+    const result = await pipeline.runSubmissionPipeline(USER, null)
+
+    expect(result.submissionId).toBe(3n)
+    expect(mockFindExistingSubmission).toHaveBeenCalledWith(USER, 'ipfs://cid-manifest')
+    expect(mockSendCleanupSubmission).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for Sign-In With Ethereum verifier sessions
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { NextRequest } from 'next/server'
+import { privateKeyToAccount } from 'viem/accounts'
+import { buildVerifierSiweMessage } from '@/lib/auth/siwe-rules'
+import { SIWE_NONCE_COOKIE, VERIFIER_SESSION_COOKIE } from '@/lib/auth'
+import { GET as getNonce } from '@/app/api/verifier/nonce/route'
+import { GET as getSession, POST as signIn, DELETE as signOut } from '@/app/api/verifier/session/route'
+
+const mockHasVerifierRole = jest.fn() as jest.Mock<any>
+
+jest.mock('@/lib/auth/verifier-role', () => ({
+  hasVerifierRole: (...args: any[]) => mockHasVerifierRole(...args),
+  getRequiredChainId: () => 11142220,
+  getChainClient: () => ({ verifyMessage: async () => false }),
+}))
+
+const account = privateKeyToAccount(`0x${'22'.repeat(32)}`)
+const other = privateKeyToAccount(`0x${'33'.repeat(32)}`)
+
+async function startSignIn(): Promise<{ nonce: string; cookie: string }> {
+  const response = await getNonce()
+  expect(response.status).toBe(200)
+  const cookie = response.cookies.get(SIWE_NONCE_COOKIE)
+  expect(cookie?.httpOnly).toBe(true)
+  return { nonce: (await response.json()).nonce, cookie: cookie!.value }
+}
+
+async function signedRequest(
+  overrides: Partial<Parameters<typeof buildVerifierSiweMessage>[0]> = {},
+  signer = account
+): Promise<NextRequest> {
+  const { nonce, cookie } = await startSignIn()
+  const message = buildVerifierSiweMessage({
+    address: account.address,
+    chainId: 11142220,
+    domain: 'localhost',
+    uri: 'http://localhost',
+    nonce,
+    ...overrides,
+  })
+  const signature = await signer.signMessage({ message })
+  return new NextRequest('http://localhost/api/verifier/session', {
+    method: 'POST',
+    headers: { cookie: `${SIWE_NONCE_COOKIE}=${cookie}` },
+    body: JSON.stringify({ message, signature }),
+  })
+}
+
+function sessionRequest(cookie: string, address?: string): NextRequest {
+  return new NextRequest('http://localhost/api/verifier/session', {
+    headers: { cookie: `${VERIFIER_SESSION_COOKIE}=${cookie}`, ...(address ? { 'x-verifier-address': address } : {}) },
+  })
+}
+
+describe('Verifier sessions', () => {
+  beforeEach(() => {
+    mockHasVerifierRole.mockReset()
+    mockHasVerifierRole.mockResolvedValue(true)
+  })
+
+  it('opens an HTTP-only session for a signed message and re-checks the role', async () => {
+    const response = await signIn(await signedRequest())
+    expect(response.status).toBe(200)
+    expect((await response.json()).address).toBe(account.address.toLowerCase())
+
+    const cookie = response.cookies.get(VERIFIER_SESSION_COOKIE)
+    expect(cookie?.httpOnly).toBe(true)
+    expect(response.cookies.get(SIWE_NONCE_COOKIE)?.value).toBe('')
+
+    const current = await getSession(sessionRequest(cookie!.value, account.address))
+    expect(current.status).toBe(200)
+
+    // Another wallet can't use the session
+    expect((await getSession(sessionRequest(cookie!.value, other.address))).status).toBe(401)
+
+    // Revoked verifiers lose access
+    mockHasVerifierRole.mockResolvedValue(false)
+    const revoked = await getSession(sessionRequest(cookie!.value))
+    expect(revoked.status).toBe(403)
+    expect(revoked.cookies.get(VERIFIER_SESSION_COOKIE)?.value).toBe('')
+  })
+
+  it('rejects messages for another domain, chain or nonce, and foreign signatures', async () => {
+    expect((await signIn(await signedRequest({ domain: 'evil.example' }))).status).toBe(400)
+    expect((await signIn(await signedRequest({ chainId: 42220 }))).status).toBe(400)
+    expect((await signIn(await signedRequest({ nonce: 'abcdefgh12345678' }))).status).toBe(401)
+    expect((await signIn(await signedRequest({}, other))).status).toBe(401)
+
+    const expired = await signIn(await signedRequest({ issuedAt: new Date(Date.now() - 11 * 60 * 1000) }))
+    expect(expired.status).toBe(401)
+    expect((await expired.json()).code).toBe('SIWE_MESSAGE_EXPIRED')
+  })
+
+  it('refuses wallets without VERIFIER_ROLE', async () => {
+    mockHasVerifierRole.mockResolvedValue(false)
+    const response = await signIn(await signedRequest())
+    expect(response.status).toBe(403)
+    expect((await response.json()).code).toBe('NOT_A_VERIFIER')
+    expect(response.cookies.get(VERIFIER_SESSION_COOKIE)?.value).toBeFalsy()
+  })
+
+  it('rejects forged session cookies and clears the session on sign-out', async () => {
+    expect((await getSession(sessionRequest('e30.forged'))).status).toBe(401)
+    const response = await signOut()
+    expect(response.cookies.get(VERIFIER_SESSION_COOKIE)?.value).toBe('')
+  })
+})
@@ -0,0 +1,119 @@
+/**
+ * Tests for verifier performance stats
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import type { Address } from 'viem'
+import {
+  buildVerifierStats,
+  formatDecisionTime,
+  median,
+  periodStart,
+  type VerifierDecision,
+} from '@/lib/utils/verifier-stats'
+
+const ALICE = '0x00000000000000000000000000000000000000a1' as Address
+const BOB = '0x00000000000000000000000000000000000000b2' as Address
+const CAROL = '0x00000000000000000000000000000000000000c3' as Address
+
+const HOUR = 60 * 60
+const DAY = 24 * HOUR
+// Monday 2024-01-15 00:00:00 UTC
+const MONDAY = Date.UTC(2024, 0, 15) / 1000
+const NOW = MONDAY + 3 * DAY
+
+let nextId = 0
+function decision(verifier: Address, outcome: 'approved' | 'rejected', decidedAt: number, waited = HOUR): VerifierDecision {
+  return { submissionId: nextId++, verifier, outcome, submittedAt: decidedAt - waited, decidedAt }
+}
+
+describe('Verifier stats', () => {
+  it('computes the median of odd and even sized lists', () => {
+    expect(median([])).toBeNull()
+    expect(median([5, 1, 3])).toBe(3)
+    expect(median([4, 1, 3, 2])).toBe(2.5)
+  })
+
+  it('starts weeks on Monday and days at UTC midnight', () => {
+    expect(periodStart(MONDAY + 2 * DAY + 5 * HOUR, 'week')).toBe(MONDAY)
+    expect(periodStart(MONDAY - HOUR, 'week')).toBe(MONDAY - 7 * DAY)
+    expect(periodStart(MONDAY + 5 * HOUR, 'day')).toBe(MONDAY)
+  })
+
+  it('aggregates decisions, decision times and rewards per verifier', () => {
+    const decisions = [
+      decision(ALICE, 'approved', NOW - DAY, 2 * HOUR),
+      decision(ALICE, 'rejected', NOW - 2 * DAY, 4 * HOUR),
+      decision(ALICE, 'approved', NOW - 10 * DAY, 6 * HOUR),
+      decision(BOB, 'rejected', NOW - HOUR),
+    ]
+    const rewards = [
+      { verifier: ALICE, amount: 10n, timestamp: NOW - DAY },
+      { verifier: ALICE, amount: 5n, timestamp: NOW - 10 * DAY },
+      { verifier: CAROL, amount: 1n, timestamp: NOW - 100 * DAY },
+    ]
+
+    const report = buildVerifierStats(decisions, rewards, [], { now: NOW, period: 'week', periods: 3 })
+    const [alice, bob, carol] = report.verifiers
+
+    expect(report.verifiers.map((stats) => stats.verifier)).toEqual([ALICE, BOB, CAROL])
+    expect(alice).toMatchObject({
+      approvals: 2,
+      rejections: 1,
+      medianDecisionSeconds: 4 * HOUR,
+      dcuEarned: 15n,
+      lastDecisionAt: NOW - DAY,
+      peerApprovalRate: 0,
+    })
+    expect(alice.approvalRate).toBeCloseTo(2 / 3)
+    expect(alice.timeline).toEqual([
+      { start: MONDAY - 14 * DAY, approvals: 0, rejections: 0 },
+      { start: MONDAY - 7 * DAY, approvals: 1, rejections: 0 },
+      { start: MONDAY, approvals: 1, rejections: 1 },
+    ])
+    expect(bob).toMatchObject({ approvals: 0, rejections: 1, dcuEarned: 0n })
+    expect(carol).toMatchObject({ decisions: 0, approvalRate: null, dcuEarned: 1n, lastDecisionAt: null })
+
+    expect(report.overall).toEqual({ decisions: 4, approvalRate: 0.5, medianDecisionSeconds: 3 * HOUR })
+    expect(report.audit.map((entry) => entry.verifier)).toEqual([BOB, ALICE, ALICE, ALICE])
+  })
+
+  it('flags verifiers whose approval rate drifts far from their peers', () => {
+    const decisions = [
+      ...Array.from({ length: 10 }, (_, i) => decision(ALICE, 'approved', NOW - i * HOUR)),
+      ...Array.from({ length: 10 }, (_, i) => decision(BOB, i < 5 ? 'approved' : 'rejected', NOW - i * HOUR)),
+      // Too few decisions to be flagged
+      decision(CAROL, 'rejected', NOW),
+    ]
+
+    const report = buildVerifierStats(decisions, [], [], { now: NOW })
+    const flags = Object.fromEntries(report.verifiers.map((stats) => [stats.verifier, stats.flags]))
+
+    expect(flags[ALICE]).toEqual(['HIGH_APPROVAL_RATE'])
+    expect(flags[BOB]).toEqual(['LOW_APPROVAL_RATE'])
+    expect(flags[CAROL]).toEqual([])
+  })
+
+  it('reports the review backlog', () => {
+    const report = buildVerifierStats([], [], [NOW - DAY, NOW - HOUR, NOW - 3 * DAY], { now: NOW })
+
+    expect(report.backlog).toEqual({ pending: 3, oldestPendingSeconds: 3 * DAY, medianPendingSeconds: DAY })
+    expect(report.overall.approvalRate).toBeNull()
+  })
+
+  it('handles long histories without spreading them into call arguments', () => {
+    const decisions = Array.from({ length: 200_000 }, (_, i) => decision(ALICE, 'approved', MONDAY + i))
+    const pending = Array.from({ length: 200_000 }, (_, i) => NOW - i)
+    const report = buildVerifierStats(decisions, [], pending, { now: NOW })
+
+    expect(report.verifiers[0].lastDecisionAt).toBe(MONDAY + 199_999)
+    expect(report.backlog.oldestPendingSeconds).toBe(199_999)
+  })
+
+  it('formats decision times', () => {
+    expect(formatDecisionTime(null)).toBe('—')
+    expect(formatDecisionTime(45)).toBe('45s')
+    expect(formatDecisionTime(3 * HOUR + 20 * 60)).toBe('3h 20m')
+    expect(formatDecisionTime(2 * DAY + 4 * HOUR)).toBe('2d 4h')
+  })
+})